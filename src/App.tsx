@@ -13,6 +13,7 @@ import Eda from "./pages/app/Eda";
 import DashboardBuilder from "./pages/app/DashboardBuilder";
 import Ml from "./pages/app/Ml";
 import Reports from "./pages/app/Reports";
+import Compare from "./pages/app/Compare";
 import Settings from "./pages/app/Settings";
 import LegacyCleaner from "./pages/Index";
 import NotFound from "./pages/NotFound";
@@ -38,6 +39,7 @@ const App = () => (
               <Route path="/datasets/:id/dashboard" element={<DashboardBuilder />} />
               <Route path="/datasets/:id/ml" element={<Ml />} />
               <Route path="/datasets/:id/reports" element={<Reports />} />
+              <Route path="/datasets/:id/compare" element={<Compare />} />
             </Route>
             <Route path="*" element={<NotFound />} />
           </Routes>
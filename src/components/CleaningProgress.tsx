@@ -1,12 +1,17 @@
 import { useState, useEffect } from 'react';
-import { Loader2, CheckCircle2, AlertTriangle, Database, Sparkles, Search, Zap } from 'lucide-react';
+import { Loader2, CheckCircle2, AlertTriangle, Database, Sparkles, Search, Zap, X } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import type { ProcessorPhase, ProcessorProgress } from '@/lib/processor';
 
 interface CleaningProgressProps {
   isProcessing: boolean;
   onComplete?: () => void;
   aiStatusMessage?: string;
+  // Real progress from DataProcessor; without it the steps are animated on a timer
+  progress?: ProcessorProgress | null;
+  onCancel?: () => void;
 }
 
 interface ProgressStep {
@@ -25,10 +30,31 @@ const CLEANING_STEPS: ProgressStep[] = [
   { id: 'complete', label: 'Finalizing', icon: <CheckCircle2 className="w-4 h-4" />, duration: 200 },
 ];
 
-export function CleaningProgress({ isProcessing, onComplete, aiStatusMessage }: CleaningProgressProps) {
+// Step index and the overall percentage band each processor phase covers
+const PHASE_PROGRESS: Record<ProcessorPhase, { step: number; from: number; to: number }> = {
+  parsing: { step: 0, from: 0, to: 70 },
+  contextual: { step: 1, from: 0, to: 70 },
+  validation: { step: 2, from: 70, to: 78 },
+  llm: { step: 3, from: 78, to: 90 },
+  cleaning: { step: 4, from: 90, to: 98 },
+  done: { step: 5, from: 100, to: 100 },
+};
+
+export function CleaningProgress({ isProcessing, onComplete, aiStatusMessage, progress: live, onCancel }: CleaningProgressProps) {
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
   const [progress, setProgress] = useState(0);
   const [stepProgress, setStepProgress] = useState(0);
+  const isLive = live != null;
+
+  useEffect(() => {
+    if (!live) return;
+    const band = PHASE_PROGRESS[live.phase];
+    const fraction = live.fraction ?? 0;
+    setCurrentStepIndex(band.step);
+    setStepProgress(fraction * 100);
+    // Never move backwards, e.g. when LLM batches report before parsing finishes
+    setProgress((prev) => Math.max(prev, band.from + (band.to - band.from) * fraction));
+  }, [live]);
 
   useEffect(() => {
     if (!isProcessing) {
@@ -37,6 +63,7 @@ export function CleaningProgress({ isProcessing, onComplete, aiStatusMessage }:
       setStepProgress(0);
       return;
     }
+    if (isLive) return;
 
     let mounted = true;
     const totalDuration = CLEANING_STEPS.reduce((sum, s) => sum + s.duration, 0);
@@ -78,7 +105,7 @@ export function CleaningProgress({ isProcessing, onComplete, aiStatusMessage }:
       mounted = false;
       clearInterval(interval);
     };
-  }, [isProcessing, onComplete]);
+  }, [isProcessing, onComplete, isLive]);
 
   if (!isProcessing) return null;
 
@@ -103,7 +130,7 @@ export function CleaningProgress({ isProcessing, onComplete, aiStatusMessage }:
             {currentStep?.label || 'Processing...'}
           </h3>
           <p className="text-sm text-muted-foreground">
-            {aiStatusMessage || 'Please wait while we prepare your data'}
+            {aiStatusMessage || live?.message || 'Please wait while we prepare your data'}
           </p>
         </div>
 
@@ -116,6 +143,12 @@ export function CleaningProgress({ isProcessing, onComplete, aiStatusMessage }:
           </div>
         </div>
 
+        {onCancel && (
+          <Button variant="outline" size="sm" className="gap-1.5" onClick={onCancel}>
+            <X className="w-3.5 h-3.5" /> Cancel
+          </Button>
+        )}
+
         {/* Step List */}
         <div className="w-full max-w-md grid grid-cols-2 md:grid-cols-3 gap-2">
           {CLEANING_STEPS.map((step, idx) => {
@@ -1,5 +1,11 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
 import { EnhancedCleaningResult } from '@/lib/dataTypes';
-import { dataToCSV, dataToExcel, dataToJSON, generateCleaningReport, downloadFile } from '@/lib/dataExporter';
+import { dataToCSV, dataToExcel, dataToJSON, dataToParquet, generateCleaningReport, downloadFile } from '@/lib/dataExporter';
+import { buildReportBlocks, cleaningResults, createReport, exportReport, type ReportFormat, type ReportLogEntry } from '@/lib/reports';
+import type { RejectedRow } from '@/lib/processor';
+import { cleaningRecipe, type CodeRecipe } from '@/lib/codegen';
+import { PipelineCodeDialog } from '@/components/app/PipelineCodeDialog';
 import { Button } from '@/components/ui/button';
 import { 
   DropdownMenu, 
@@ -8,15 +14,19 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger 
 } from '@/components/ui/dropdown-menu';
-import { Download, FileSpreadsheet, FileText, FileJson, FileCode, ChevronDown } from 'lucide-react';
+import { Download, FileSpreadsheet, FileText, FileJson, FileCode, ChevronDown, Database, Code2 } from 'lucide-react';
 
 interface ExportPanelProps {
   result: EnhancedCleaningResult;
   originalFileName: string;
   originalFormat: 'csv' | 'excel';
+  // Rows dropped by schema validation, listed in the report's error log
+  rejectedRows?: RejectedRow[];
 }
 
-export function ExportPanel({ result, originalFileName, originalFormat }: ExportPanelProps) {
+export function ExportPanel({ result, originalFileName, originalFormat, rejectedRows = [] }: ExportPanelProps) {
+  const [exporting, setExporting] = useState(false);
+  const [recipe, setRecipe] = useState<CodeRecipe | null>(null);
   const baseName = originalFileName.replace(/\.(csv|xlsx|xls)$/i, '');
   const hasChanges = result.summary.totalChanges > 0;
 
@@ -35,11 +45,48 @@ export function ExportPanel({ result, originalFileName, originalFormat }: Export
     downloadFile(json, `${baseName}_cleaned.json`, 'application/json');
   };
 
+  const handleDownloadParquet = () => {
+    // Profiled types let numeric/date strings land as real Parquet types
+    const schema = result.profile.columns.map((c) => ({ name: c.name, type: c.dataType }));
+    downloadFile(dataToParquet(result.data, { schema }), `${baseName}_cleaned.parquet`);
+  };
+
   const handleDownloadReport = () => {
     const report = generateCleaningReport(result, originalFileName);
     downloadFile(report, `${baseName}_cleaning_report.txt`, 'text/plain;charset=utf-8');
   };
 
+  const handleExportReport = async (format: ReportFormat) => {
+    const log = rejectedRows.flatMap((r) =>
+      r.errors.map((message): ReportLogEntry => ({ source: 'Schema validation', level: 'error', row: r.rowIndex + 1, message })),
+    );
+    const results = cleaningResults(result, result.originalData, log);
+    const report = createReport(`${baseName} cleaning report`);
+    setExporting(true);
+    try {
+      const { blob, filename } = await exportReport(
+        {
+          title: report.name,
+          dataset: originalFileName,
+          generatedAt: new Date().toISOString(),
+          blocks: buildReportBlocks(report, results, result.data),
+          results,
+        },
+        format,
+      );
+      downloadFile(blob, filename);
+    } catch (err) {
+      toast.error(`Could not export the cleaning report: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // The same cleaning as code, replayed from the original rows so profiled settings match
+  const handleShowCode = () => {
+    setRecipe(cleaningRecipe(originalFileName, result.originalData, result.config));
+  };
+
   const handleDownloadPrimary = () => {
     if (originalFormat === 'excel') {
       handleDownloadExcel();
@@ -99,6 +146,13 @@ export function ExportPanel({ result, originalFileName, originalFormat }: Export
               <p className="text-xs text-muted-foreground">JavaScript Object Notation</p>
             </div>
           </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleDownloadParquet} className="gap-3 cursor-pointer">
+            <Database className="w-4 h-4 text-muted-foreground" />
+            <div>
+              <p className="font-medium">Parquet</p>
+              <p className="text-xs text-muted-foreground">Columnar, snappy-compressed (Spark, pandas)</p>
+            </div>
+          </DropdownMenuItem>
           <DropdownMenuSeparator />
           <DropdownMenuItem onClick={handleDownloadReport} className="gap-3 cursor-pointer">
             <FileCode className="w-4 h-4 text-muted-foreground" />
@@ -107,8 +161,31 @@ export function ExportPanel({ result, originalFileName, originalFormat }: Export
               <p className="text-xs text-muted-foreground">Detailed summary of changes</p>
             </div>
           </DropdownMenuItem>
+          <DropdownMenuItem disabled={exporting} onClick={() => void handleExportReport('pdf')} className="gap-3 cursor-pointer">
+            <FileText className="w-4 h-4 text-muted-foreground" />
+            <div>
+              <p className="font-medium">Report (PDF)</p>
+              <p className="text-xs text-muted-foreground">Paginated, ready to share</p>
+            </div>
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={exporting} onClick={() => void handleExportReport('xlsx')} className="gap-3 cursor-pointer">
+            <FileSpreadsheet className="w-4 h-4 text-muted-foreground" />
+            <div>
+              <p className="font-medium">Report (Excel)</p>
+              <p className="text-xs text-muted-foreground">Actions, column metrics and error log</p>
+            </div>
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={handleShowCode} className="gap-3 cursor-pointer">
+            <Code2 className="w-4 h-4 text-muted-foreground" />
+            <div>
+              <p className="font-medium">Cleaning Code</p>
+              <p className="text-xs text-muted-foreground">pandas, SQL and PySpark scripts</p>
+            </div>
+          </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
+      <PipelineCodeDialog recipe={recipe} onClose={() => setRecipe(null)} />
     </div>
   );
 }
@@ -25,6 +25,7 @@ import {
   Database,
   Sparkles,
   Wrench,
+  GitCompare,
 } from 'lucide-react';
 import { useWorkspace } from '@/store/workspace';
 import { cn } from '@/lib/utils';
@@ -42,6 +43,7 @@ const workspaceNav = (id: string) => [
   { title: 'Dashboard', url: `/datasets/${id}/dashboard`, icon: LayoutDashboard },
   { title: 'ML Studio', url: `/datasets/${id}/ml`, icon: Brain },
   { title: 'Reports', url: `/datasets/${id}/reports`, icon: FileText },
+  { title: 'Compare', url: `/datasets/${id}/compare`, icon: GitCompare },
 ];
 
 export function AppSidebar() {
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useWorkspace, type ModelRecord } from '@/store/workspace';
+import { loadDatasetRows, saveDatasetRows, StorageQuotaError } from '@/store/datasetRows';
+import { loadModelArtifact } from '@/store/modelArtifacts';
+import { assessDataset } from '@/lib/datasetProfiler';
+import { scoreRows, withPredictionColumn } from '@/lib/ml';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+
+type Props = {
+  model: ModelRecord | null;
+  // Dataset the model was trained on, preselected as the target
+  datasetId: string;
+  onClose: () => void;
+};
+
+/**
+ * Scores every row of a workspace dataset with a registered model and
+ * appends the predictions as a new column.
+ */
+export default function ApplyModelDialog({ model, datasetId, onClose }: Props) {
+  const { datasets, addDerivedColumn } = useWorkspace();
+  const [targetId, setTargetId] = useState(datasetId);
+  const [column, setColumn] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!model) return;
+    setTargetId(datasetId);
+    setColumn(`${model.target}_predicted`);
+  }, [model, datasetId]);
+
+  const target = datasets.find((d) => d.id === targetId);
+  const columns = target?.schema.map((c) => c.name) ?? [];
+  const missing = model && target ? model.features.filter((f) => !columns.includes(f)) : [];
+  const name = column.trim();
+  const errors = [
+    ...(missing.length > 0 ? [`${target.name} is missing feature columns: ${missing.join(', ')}`] : []),
+    ...(name && columns.includes(name) ? [`Column "${name}" already exists in ${target.name}`] : []),
+  ];
+
+  const apply = async () => {
+    if (!model || !target || !name) return;
+    setBusy(true);
+    try {
+      const artifact = await loadModelArtifact(model.id);
+      if (!artifact) throw new Error(`${model.name} is no longer in browser storage; retrain or import it again`);
+      const rows = await loadDatasetRows(target.id);
+      if (!rows) throw new Error(`Row data for ${target.name} is not available`);
+
+      const updated = withPredictionColumn(rows, scoreRows(artifact, rows), name);
+      try {
+        await saveDatasetRows(target.id, updated);
+      } catch (err) {
+        toast.warning(
+          err instanceof StorageQuotaError
+            ? `${err.message} The new column will only be kept until this tab is closed.`
+            : 'The new column could not be saved to browser storage and will only be kept until this tab is closed.',
+        );
+      }
+      const { schema, issues, quality } = assessDataset(updated);
+      addDerivedColumn(target.id, name, { schema, issues, quality, colCount: schema.length });
+      toast.success(`Scored ${rows.length.toLocaleString()} rows of ${target.name} into ${name}`);
+      onClose();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Scoring failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!model} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Apply {model?.name}</DialogTitle>
+          <DialogDescription className="text-xs">
+            Predicts {model?.target} for every row and appends the result as a column
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 text-xs">
+          <div>
+            <div className="mb-1 text-[10px] uppercase text-muted-foreground">Dataset</div>
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {datasets.map((d) => <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <div className="mb-1 text-[10px] uppercase text-muted-foreground">Prediction column</div>
+            <Input className="h-8 text-xs" value={column} onChange={(e) => setColumn(e.target.value)} />
+          </div>
+          {errors.length > 0 && (
+            <div className="space-y-1 rounded-md border border-destructive/40 bg-destructive/5 p-2">
+              {errors.map((e) => (
+                <div key={e} className="flex items-start gap-1.5 text-destructive">
+                  <AlertCircle className="mt-0.5 h-3 w-3 shrink-0" /> {e}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={apply} disabled={busy || !name || errors.length > 0}>
+            {busy ? 'Scoring…' : 'Add predictions'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,116 @@
+import { useMemo, useState } from 'react';
+import { confusionMatrix, precisionRecallCurve, rocCurve, type TrainingResult } from '@/lib/ml';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+import {
+  CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis,
+} from 'recharts';
+
+const tooltipStyle = { background: 'hsl(var(--card))', border: '1px solid hsl(var(--border))', fontSize: 11 };
+
+type Props = { result: TrainingResult };
+
+export default function ClassifierDiagnostics({ result }: Props) {
+  const classes = result.artifact.classes ?? [];
+  const { actual, predicted, probabilities } = result.evaluation;
+  // Binary problems default to the second class, which is usually the "yes" label
+  const [positiveChoice, setPositiveChoice] = useState<number | null>(null);
+  const positive = positiveChoice !== null && positiveChoice < classes.length ? positiveChoice : classes.length === 2 ? 1 : 0;
+
+  const matrix = useMemo(() => confusionMatrix(actual, predicted, classes.length), [actual, predicted, classes.length]);
+  const maxCell = Math.max(1, ...matrix.flat());
+
+  const curves = useMemo(() => {
+    if (!probabilities) return null;
+    const scores = probabilities.map((p) => p[positive]);
+    return { roc: rocCurve(actual, scores, positive), pr: precisionRecallCurve(actual, scores, positive) };
+  }, [actual, probabilities, positive]);
+
+  return (
+    <div className="grid gap-4 xl:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">Confusion matrix</CardTitle>
+          <p className="text-[11px] text-muted-foreground">Rows are actual classes, columns are predictions on the test set</p>
+        </CardHeader>
+        <CardContent className="overflow-auto">
+          <table className="text-[11px]">
+            <thead>
+              <tr>
+                <th />
+                {classes.map((c) => (
+                  <th key={c} className="max-w-[80px] truncate px-2 py-1 text-left font-medium text-muted-foreground">{c}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.map((row, i) => (
+                <tr key={classes[i]}>
+                  <th className="max-w-[100px] truncate px-2 py-1 text-left font-medium text-muted-foreground">{classes[i]}</th>
+                  {row.map((count, j) => (
+                    <td
+                      key={j}
+                      className="px-2 py-1 text-center font-mono"
+                      style={{
+                        background: `hsl(var(${i === j ? '--primary' : '--destructive'}) / ${count === 0 ? 0 : 0.1 + (0.6 * count) / maxCell})`,
+                      }}
+                    >
+                      {count}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      {curves && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle className="text-sm">ROC & precision-recall</CardTitle>
+              <p className="text-[11px] text-muted-foreground">
+                AUC {curves.roc.auc.toFixed(3)} · average precision {curves.pr.averagePrecision.toFixed(3)}
+              </p>
+            </div>
+            {classes.length > 2 && (
+              <Select value={String(positive)} onValueChange={(v) => setPositiveChoice(Number(v))}>
+                <SelectTrigger className="h-8 w-36 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {classes.map((c, i) => <SelectItem key={c} value={String(i)}>{c} vs rest</SelectItem>)}
+                </SelectContent>
+              </Select>
+            )}
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 gap-2">
+            {[
+              { title: 'ROC', data: curves.roc.points, x: 'fpr', y: 'tpr', xLabel: 'False positive rate', yLabel: 'True positive rate' },
+              { title: 'PR', data: curves.pr.points, x: 'recall', y: 'precision', xLabel: 'Recall', yLabel: 'Precision' },
+            ].map((chart) => (
+              <div key={chart.title} className="h-48">
+                <ResponsiveContainer>
+                  <LineChart data={chart.data}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis
+                      type="number"
+                      dataKey={chart.x}
+                      domain={[0, 1]}
+                      tick={{ fontSize: 9 }}
+                      label={{ value: chart.xLabel, position: 'insideBottom', offset: -2, fontSize: 9 }}
+                    />
+                    <YAxis type="number" domain={[0, 1]} tick={{ fontSize: 9 }} width={28} />
+                    <Tooltip contentStyle={tooltipStyle} formatter={(v: number) => v.toFixed(3)} />
+                    <Line type="stepAfter" dataKey={chart.y} name={chart.yLabel} stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+import { useState, type ReactNode } from 'react';
+import { useWorkspace, type Dataset } from '@/store/workspace';
+import { saveDatasetRows, StorageQuotaError } from '@/store/datasetRows';
+import { assessDataset } from '@/lib/datasetProfiler';
+import {
+  clusterLabel, clusterRows, elbowAnalysis, standardizeFeatures, suggestEps, withClusterColumn, NOISE,
+  type ClusterAlgorithm, type ClusteringResult, type ElbowPoint,
+} from '@/lib/ml';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Columns3, LineChart as LineIcon, Play, Shapes } from 'lucide-react';
+import {
+  CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis,
+} from 'recharts';
+import { toast } from 'sonner';
+
+type DataRow = Record<string, unknown>;
+
+const colors = ['hsl(var(--primary))', 'hsl(var(--warning))', 'hsl(var(--success))', 'hsl(var(--destructive))', '#a78bfa', '#60a5fa', '#f472b6', '#34d399'];
+const tooltipStyle = { background: 'hsl(var(--card))', border: '1px solid hsl(var(--border))', fontSize: 11 };
+
+const nextFrame = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const fmt = (v: number) => (Math.abs(v) >= 1000 ? Math.round(v).toLocaleString() : v.toFixed(2));
+
+type Props = {
+  dataset: Dataset;
+  rows: DataRow[] | null;
+  // The page's model type picker, rendered at the top of the configure card
+  modelTypePicker: ReactNode;
+};
+
+export default function ClusteringStudio({ dataset: ds, rows, modelTypePicker }: Props) {
+  const { addDerivedColumn } = useWorkspace();
+  const numeric = ds.schema.filter((c) => c.type === 'numeric').map((c) => c.name);
+  const [algorithm, setAlgorithm] = useState<ClusterAlgorithm>('kmeans');
+  const [features, setFeatures] = useState<string[]>(() => numeric.slice(0, 6));
+  const [k, setK] = useState(3);
+  const [eps, setEps] = useState('');
+  const [minPoints, setMinPoints] = useState(5);
+  const [elbow, setElbow] = useState<ElbowPoint[] | null>(null);
+  const [result, setResult] = useState<ClusteringResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [columnName, setColumnName] = useState('cluster');
+
+  const selected = features.filter((f) => numeric.includes(f));
+  const bestK = elbow?.reduce((a, b) => (b.silhouette > a.silhouette ? b : a)).k;
+
+  const guard = async (work: () => void) => {
+    if (!rows) return;
+    setBusy(true);
+    await nextFrame();
+    try {
+      work();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Clustering failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const analyzeK = () =>
+    guard(() => setElbow(elbowAnalysis(standardizeFeatures(rows, selected, ds.schema).X, { maxK: 10 })));
+
+  const fillEps = () =>
+    guard(() => setEps(String(suggestEps(standardizeFeatures(rows, selected, ds.schema).X, minPoints))));
+
+  const run = () =>
+    guard(() => {
+      const parsedEps = Number(eps);
+      const next = clusterRows({
+        rows,
+        features: selected,
+        schema: ds.schema,
+        algorithm,
+        k,
+        eps: eps.trim() && parsedEps > 0 ? parsedEps : undefined,
+        minPoints,
+      });
+      setResult(next);
+      if (next.clusterCount === 0) toast.warning('Every row was marked as noise; try a larger eps or fewer min points');
+    });
+
+  const addColumn = async () => {
+    const name = columnName.trim();
+    if (!rows || !result || !name) return;
+    if (ds.schema.some((c) => c.name === name)) {
+      toast.error(`Column "${name}" already exists`);
+      return;
+    }
+    const updated = withClusterColumn(rows, result.labels, name);
+    try {
+      await saveDatasetRows(ds.id, updated);
+    } catch (err) {
+      toast.warning(
+        err instanceof StorageQuotaError
+          ? `${err.message} The new column will only be kept until this tab is closed.`
+          : 'The new column could not be saved to browser storage and will only be kept until this tab is closed.',
+      );
+    }
+    const { schema, issues, quality } = assessDataset(updated);
+    addDerivedColumn(ds.id, name, { schema, issues, quality, colCount: schema.length });
+    toast.success(`Added ${name} with ${result.clusterCount} clusters`);
+  };
+
+  const byCluster = result
+    ? result.profiles.map((p) => ({
+        label: p.label,
+        points: result.projection.filter((pt) => pt.cluster === p.label),
+      }))
+    : [];
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Configure</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-xs">
+          {modelTypePicker}
+          <div>
+            <div className="mb-1 text-[10px] uppercase text-muted-foreground">Algorithm</div>
+            <Select value={algorithm} onValueChange={(v) => setAlgorithm(v as ClusterAlgorithm)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="kmeans">k-means (k-means++ init)</SelectItem>
+                <SelectItem value="dbscan">DBSCAN</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <div className="mb-1 text-[10px] uppercase text-muted-foreground">Numeric features (standardized)</div>
+            {numeric.length === 0 ? (
+              <p className="text-muted-foreground">This dataset has no numeric columns to cluster on.</p>
+            ) : (
+              <div className="max-h-52 space-y-1 overflow-auto rounded-lg border p-2">
+                {numeric.map((name) => (
+                  <label key={name} className="flex items-center gap-2 rounded px-1 py-1 hover:bg-muted/50">
+                    <Checkbox
+                      checked={features.includes(name)}
+                      onCheckedChange={(v) =>
+                        setFeatures((f) => (v ? [...f, name] : f.filter((x) => x !== name)))
+                      }
+                    />
+                    <span>{name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+          {algorithm === 'kmeans' ? (
+            <div>
+              <div className="mb-1 text-[10px] uppercase text-muted-foreground">Clusters (k)</div>
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  min={2}
+                  max={20}
+                  value={k}
+                  onChange={(e) => setK(Math.min(20, Math.max(2, Number(e.target.value) || 2)))}
+                  className="h-8 text-xs"
+                />
+                <Button variant="outline" size="sm" className="gap-1" onClick={analyzeK} disabled={!rows || busy || selected.length === 0}>
+                  <LineIcon className="h-3.5 w-3.5" /> Analyze k
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <div className="mb-1 text-[10px] uppercase text-muted-foreground">eps</div>
+                <Input value={eps} onChange={(e) => setEps(e.target.value)} placeholder="auto" className="h-8 text-xs" />
+              </div>
+              <div>
+                <div className="mb-1 text-[10px] uppercase text-muted-foreground">Min points</div>
+                <Input
+                  type="number"
+                  min={2}
+                  value={minPoints}
+                  onChange={(e) => setMinPoints(Math.max(2, Number(e.target.value) || 2))}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <Button variant="outline" size="sm" className="col-span-2" onClick={fillEps} disabled={!rows || busy || selected.length === 0}>
+                Suggest eps from k-distance knee
+              </Button>
+            </div>
+          )}
+          <Button className="w-full gap-1.5" onClick={run} disabled={!rows || busy || selected.length === 0}>
+            <Play className="h-3.5 w-3.5" /> {rows ? 'Run Clustering' : 'Loading rows…'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-4">
+        {algorithm === 'kmeans' && elbow && elbow.length > 0 && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div>
+                <CardTitle className="text-sm">Choosing k</CardTitle>
+                <p className="text-[11px] text-muted-foreground">
+                  Look for the bend in inertia and the peak in silhouette; k = {bestK} separates clusters best
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => setK(bestK)} disabled={k === bestK}>
+                Use k = {bestK}
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <div className="h-56">
+                <ResponsiveContainer>
+                  <LineChart data={elbow.map((p) => ({ ...p, silhouette: Number(p.silhouette.toFixed(3)), inertia: Math.round(p.inertia) }))}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="k" tick={{ fontSize: 10 }} />
+                    <YAxis yAxisId="inertia" tick={{ fontSize: 10 }} />
+                    <YAxis yAxisId="silhouette" orientation="right" domain={[-1, 1]} tick={{ fontSize: 10 }} />
+                    <Tooltip contentStyle={tooltipStyle} />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    <Line yAxisId="inertia" type="monotone" dataKey="inertia" stroke={colors[0]} strokeWidth={2} />
+                    <Line yAxisId="silhouette" type="monotone" dataKey="silhouette" stroke={colors[1]} strokeWidth={2} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {result ? (
+          <>
+            <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+              {[
+                { l: 'Clusters', v: result.clusterCount.toLocaleString() },
+                { l: 'Silhouette', v: result.silhouette.toFixed(3) },
+                result.inertia !== undefined
+                  ? { l: 'Inertia', v: fmt(result.inertia) }
+                  : { l: 'Noise rows', v: result.noiseCount.toLocaleString() },
+                { l: 'Time', v: `${Math.round(result.durationMs).toLocaleString()} ms` },
+              ].map((s) => (
+                <Card key={s.l}>
+                  <CardContent className="p-4">
+                    <div className="text-[10px] uppercase text-muted-foreground">{s.l}</div>
+                    <div className="mt-1 text-2xl font-bold">{s.v}</div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm">PCA projection</CardTitle>
+                <p className="text-[11px] text-muted-foreground">
+                  PC1 and PC2 explain {(result.explained[0] * 100).toFixed(0)}% and{' '}
+                  {(result.explained[1] * 100).toFixed(0)}% of the variance
+                  {result.projection.length < result.labels.length && ` · showing ${result.projection.length.toLocaleString()} sampled rows`}
+                </p>
+              </CardHeader>
+              <CardContent>
+                <div className="h-72">
+                  <ResponsiveContainer>
+                    <ScatterChart>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis type="number" dataKey="x" name="PC1" tick={{ fontSize: 10 }} tickFormatter={(v: number) => v.toFixed(1)} />
+                      <YAxis type="number" dataKey="y" name="PC2" tick={{ fontSize: 10 }} tickFormatter={(v: number) => v.toFixed(1)} />
+                      <Tooltip contentStyle={tooltipStyle} formatter={(v: number) => v.toFixed(2)} />
+                      <Legend wrapperStyle={{ fontSize: 11 }} />
+                      {byCluster.map(({ label, points }) => (
+                        <Scatter
+                          key={label}
+                          name={clusterLabel(label)}
+                          data={points}
+                          fill={label === NOISE ? 'hsl(var(--muted-foreground))' : colors[label % colors.length]}
+                          fillOpacity={label === NOISE ? 0.4 : 0.8}
+                        />
+                      ))}
+                    </ScatterChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader><CardTitle className="text-sm">Cluster profiles</CardTitle></CardHeader>
+              <CardContent className="overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Cluster</TableHead>
+                      <TableHead>Rows</TableHead>
+                      {result.features.map((f) => <TableHead key={f}>{f} (mean)</TableHead>)}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.profiles.map((p) => (
+                      <TableRow key={p.label}>
+                        <TableCell className="font-medium">{clusterLabel(p.label)}</TableCell>
+                        <TableCell>{p.size.toLocaleString()}</TableCell>
+                        {result.features.map((f) => <TableCell key={f}>{fmt(p.means[f])}</TableCell>)}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="flex flex-wrap items-center gap-2 p-4 text-xs">
+                <Columns3 className="h-4 w-4 text-muted-foreground" />
+                <span className="text-muted-foreground">Add the cluster labels to {ds.name} as</span>
+                <Input value={columnName} onChange={(e) => setColumnName(e.target.value)} className="h-8 w-40 text-xs" />
+                <Button size="sm" onClick={addColumn} disabled={!columnName.trim()}>Add column</Button>
+              </CardContent>
+            </Card>
+          </>
+        ) : (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-16">
+              <Shapes className="mb-3 h-10 w-10 text-muted-foreground" />
+              <h3 className="text-base font-semibold">No clusters yet</h3>
+              <p className="mt-1 max-w-sm text-center text-xs text-muted-foreground">
+                Pick numeric features and an algorithm, then click Run Clustering.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
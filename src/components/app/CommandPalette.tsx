@@ -1,4 +1,4 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   CommandDialog,
@@ -9,11 +9,14 @@ import {
   CommandList,
 } from '@/components/ui/command';
 import { useWorkspace } from '@/store/workspace';
-import { Home, Upload, Sparkles, Database, Settings, Wand2, ChartBar } from 'lucide-react';
+import { Home, Upload, Sparkles, Database, Settings, Wand2, ChartBar, MessageSquare } from 'lucide-react';
 
 export function CommandPalette() {
   const nav = useNavigate();
-  const { commandOpen, setCommandOpen, datasets, toggleCopilot } = useWorkspace();
+  const { commandOpen, setCommandOpen, datasets, toggleCopilot, queueCopilotPrompt } = useWorkspace();
+  const [search, setSearch] = useState('');
+  // Anything longer than a word or two reads as a question for the copilot
+  const question = search.trim().split(/\s+/).length >= 3 ? search.trim() : '';
 
   useEffect(() => {
     const h = (e: KeyboardEvent) => {
@@ -26,6 +29,10 @@ export function CommandPalette() {
     return () => window.removeEventListener('keydown', h);
   }, [commandOpen, setCommandOpen]);
 
+  useEffect(() => {
+    if (!commandOpen) setSearch('');
+  }, [commandOpen]);
+
   const go = (path: string) => {
     setCommandOpen(false);
     nav(path);
@@ -33,9 +40,23 @@ export function CommandPalette() {
 
   return (
     <CommandDialog open={commandOpen} onOpenChange={setCommandOpen}>
-      <CommandInput placeholder="Type a command or search…" />
+      <CommandInput placeholder="Type a command, search, or ask about your data…" value={search} onValueChange={setSearch} />
       <CommandList>
         <CommandEmpty>No results found.</CommandEmpty>
+        {question && (
+          <CommandGroup heading="Ask">
+            {/* Its value is the question itself, so the search always matches it */}
+            <CommandItem
+              value={question}
+              onSelect={() => {
+                setCommandOpen(false);
+                queueCopilotPrompt(question);
+              }}
+            >
+              <MessageSquare className="mr-2 h-4 w-4" /> Ask Copilot: “{question}”
+            </CommandItem>
+          </CommandGroup>
+        )}
         <CommandGroup heading="Navigate">
           <CommandItem onSelect={() => go('/')}>
             <Home className="mr-2 h-4 w-4" /> Home
@@ -0,0 +1,103 @@
+import { AlertCircle, Wand2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { DataGrid } from '@/components/app/DataGrid';
+import { describeStep } from '@/lib/pipeline';
+import type { ProposalPreview } from '@/lib/copilot';
+
+interface CopilotApplyDialogProps {
+  dataset: string;
+  preview: ProposalPreview | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/** Copilot-proposed steps, run on the pipeline's output, awaiting confirmation. */
+export function CopilotApplyDialog({ dataset, preview, onConfirm, onCancel }: CopilotApplyDialogProps) {
+  if (!preview) return null;
+  const { steps, errors, diff, rows, rowsFrom } = preview;
+  const caption =
+    rowsFrom === 'before'
+      ? 'Rows these steps remove'
+      : diff.alignment === 'index' && !diff.addedColumns.length
+        ? 'Rows these steps change'
+        : 'Rows after these steps';
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Apply to {dataset}</DialogTitle>
+          <DialogDescription className="text-xs">
+            {steps.length === 1 ? 'This step runs' : `These ${steps.length} steps run`} after the current pipeline.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ol className="space-y-1.5">
+          {steps.map((s, i) => (
+            <li key={s.id} className="flex gap-2 rounded-md border bg-muted/30 px-3 py-2 text-xs">
+              <span className="text-muted-foreground">{i + 1}.</span>
+              <div className="min-w-0">
+                <div className="font-medium">{s.label}</div>
+                <div className="truncate font-mono text-[11px] text-muted-foreground">{describeStep(s.type, s.params)}</div>
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        {errors.length > 0 ? (
+          <div className="space-y-1 rounded-md border border-destructive/40 bg-destructive/5 p-3 text-xs text-destructive">
+            {errors.map((e) => (
+              <div key={e} className="flex items-start gap-1.5">
+                <AlertCircle className="mt-0.5 h-3.5 w-3.5 shrink-0" /> {e}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+            <span className="text-muted-foreground">
+              {diff.rowsBefore.toLocaleString()} → {diff.rowsAfter.toLocaleString()} rows
+              {diff.rowsRemoved > 0 && ` (−${diff.rowsRemoved.toLocaleString()})`}
+              {diff.rowsAdded > 0 && ` (+${diff.rowsAdded.toLocaleString()})`}
+            </span>
+            {diff.addedColumns.length > 0 && (
+              <span className="text-success">+{diff.addedColumns.length} col: {diff.addedColumns.slice(0, 3).join(', ')}</span>
+            )}
+            {diff.removedColumns.length > 0 && (
+              <span className="text-destructive">−{diff.removedColumns.length} col: {diff.removedColumns.slice(0, 3).join(', ')}</span>
+            )}
+            {diff.changedCellCount > 0 && <span className="text-warning">{diff.changedCellCount.toLocaleString()} cells changed</span>}
+            {diff.reordered && <span className="text-muted-foreground">rows reordered</span>}
+            {diff.alignment === 'none' && <span className="text-muted-foreground">reshaped (no row-level diff)</span>}
+          </div>
+        )}
+
+        {errors.length === 0 && (
+          <div className="space-y-1.5">
+            <div className="text-[10px] uppercase text-muted-foreground">{caption}</div>
+            {rows.length === 0 ? (
+              <p className="rounded-md border border-dashed p-4 text-center text-xs text-muted-foreground">No rows are affected.</p>
+            ) : (
+              <div className="h-72">
+                <DataGrid
+                  rows={rows}
+                  pageSize={10}
+                  changes={rowsFrom === 'after' ? diff.changes : undefined}
+                  addedColumns={rowsFrom === 'after' ? diff.addedColumns : undefined}
+                  inlineChanges
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button className="gap-1.5" disabled={errors.length > 0} onClick={onConfirm}>
+            <Wand2 className="h-3.5 w-3.5" /> Add {steps.length === 1 ? 'step' : `${steps.length} steps`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,60 +1,156 @@
 import { useState, useRef, useEffect } from 'react';
-import { useWorkspace, AiMessage } from '@/store/workspace';
+import { useParams } from 'react-router-dom';
+import { toast } from 'sonner';
+import { useWorkspace, AiMessage, AiResponse, type AiCodeBlock, type AiStepProposal, type Dataset } from '@/store/workspace';
+import { loadDatasetRows } from '@/store/datasetRows';
+import { answerQuery, askCopilot, copilotContext, hasCode, planQuery, previewProposals, type ProposalPreview } from '@/lib/copilot';
+import { runPipeline, type ExecutionContext } from '@/lib/pipeline';
+import { generateCode, pipelineRecipe } from '@/lib/codegen';
+import { CopilotApplyDialog } from './CopilotApplyDialog';
+import { CopilotQueryResult } from './CopilotQueryResult';
+import { LLM_PROVIDERS, resolveLLMConfig } from '@/lib/processor/llmInterface';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
-import { X, Sparkles, Send, Wand2 } from 'lucide-react';
+import { X, Sparkles, Send, Wand2, Loader2 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import { cn } from '@/lib/utils';
 
 const suggestions = [
   'Remove duplicate rows',
   'Fill missing salary with median',
+  'Average revenue by region',
   'Show revenue trend by month',
   'Detect outliers in age column',
 ];
 
-function mockAiReply(prompt: string): AiMessage {
-  const lower = prompt.toLowerCase();
-  const explanation = lower.includes('missing')
-    ? 'I will impute missing numeric values with the column median and mark categorical missings as "Unknown".'
-    : lower.includes('duplicate')
-      ? 'I will detect exact duplicate rows across all columns and remove them, preserving the first occurrence.'
-      : lower.includes('outlier')
-        ? 'I will flag values outside 1.5 × IQR as outliers and optionally cap them to the boundary.'
-        : 'Here is a suggested transformation you can apply to your pipeline.';
-  return {
-    id: crypto.randomUUID(),
-    role: 'assistant',
-    text: explanation,
-    createdAt: new Date().toISOString(),
-    response: {
-      explanation,
-      code: {
-        python: `# ${prompt}\ndf = df.dropna(subset=['salary'])\ndf['salary'] = df['salary'].fillna(df['salary'].median())`,
-        pandas: `df.fillna(df.median(numeric_only=True), inplace=True)`,
-        sql: `UPDATE dataset\nSET salary = (SELECT AVG(salary) FROM dataset WHERE salary IS NOT NULL)\nWHERE salary IS NULL;`,
-      },
-    },
-  };
+const codeTabs = [
+  { key: 'python', label: 'Python' },
+  { key: 'pandas', label: 'Pandas' },
+  { key: 'sql', label: 'SQL' },
+  { key: 'pyspark', label: 'PySpark' },
+] as const;
+
+// The dataset's rows plus whatever its join steps need
+async function pipelineInput(ds: Dataset): Promise<{ rows: Record<string, unknown>[] | null; ctx: ExecutionContext }> {
+  const joins = ds.pipeline.flatMap((s) => (s.type === 'join' && typeof s.params.datasetId === 'string' ? [s.params.datasetId] : []));
+  const [rows, ...joined] = await Promise.all([loadDatasetRows(ds.id), ...joins.map((id) => loadDatasetRows(id))]);
+  // Held here rather than looked up in the row cache, which may have evicted them by the time the pipeline runs
+  const targets = new Map(joins.map((id, i) => [id, joined[i] ?? undefined]));
+  return { rows, ctx: { resolveDataset: (id) => targets.get(id) } };
+}
+
+// Rows as the dataset's pipeline leaves them, which is what queries and new steps see
+async function pipelineOutput(ds: Dataset): Promise<Record<string, unknown>[] | null> {
+  const { rows, ctx } = await pipelineInput(ds);
+  return rows ? runPipeline(rows, ds.pipeline, ctx).rows : null;
 }
 
+// Proposed steps show the code for the pipeline they would extend, generated rather than written by the model
+async function proposalCode(ds: Dataset, steps: AiStepProposal[], datasets: Dataset[]): Promise<AiCodeBlock | null> {
+  const { rows, ctx } = await pipelineInput(ds);
+  if (!rows) return null;
+  const datasetName = (id: string) => datasets.find((d) => d.id === id)?.name;
+  return generateCode(pipelineRecipe(ds.name, rows, [...ds.pipeline, ...steps], { ...ctx, datasetName }));
+}
+
+const assistantMessage = (text: string, response?: AiResponse): AiMessage => ({
+  id: crypto.randomUUID(),
+  role: 'assistant',
+  text,
+  createdAt: new Date().toISOString(),
+  ...(response ? { response } : {}),
+});
+
 export function CopilotPanel() {
-  const { copilotOpen, toggleCopilot, aiMessages, addAiMessage, logActivity } = useWorkspace();
+  const {
+    copilotOpen, toggleCopilot, copilotPrompt, queueCopilotPrompt, aiMessages, addAiMessage, addStep, logActivity, datasets, activeDatasetId, llm,
+  } = useWorkspace();
+  const params = useParams();
   const [input, setInput] = useState('');
+  const [pending, setPending] = useState(false);
+  const [applying, setApplying] = useState<{ datasetId: string; preview: ProposalPreview } | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const activeDs = datasets.find((d) => d.id === (params.id || activeDatasetId));
 
   useEffect(() => {
     scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
-  }, [aiMessages, copilotOpen]);
+  }, [aiMessages, copilotOpen, pending]);
 
-  const send = (text: string) => {
-    if (!text.trim()) return;
+  const send = async (text: string) => {
+    if (!text.trim() || pending) return;
+    const history = aiMessages;
     const userMsg: AiMessage = { id: crypto.randomUUID(), role: 'user', text, createdAt: new Date().toISOString() };
     addAiMessage(userMsg);
     setInput('');
-    setTimeout(() => addAiMessage(mockAiReply(text)), 500);
+
+    const config = resolveLLMConfig(llm);
+    setPending(true);
+    try {
+      const rows = activeDs ? await pipelineOutput(activeDs).catch(() => null) : null;
+      const context = activeDs ? copilotContext(activeDs, rows) : null;
+      if (!config) {
+        // Questions about the data are still answered, translated by rule instead of by a model
+        const plan = rows ? planQuery(text, context.schema, rows) : null;
+        addAiMessage(plan
+          ? assistantMessage('No AI provider is set up, so this question was read by rule. Check the plan below.', {
+              explanation: '',
+              code: { python: '', pandas: '', sql: '', pyspark: '' },
+              query: answerQuery({ plan, source: 'rules' }, rows),
+            })
+          : assistantMessage(
+              'No AI provider is set up. Choose one under **Settings → AI Copilot**, or set `VITE_GROQ_API_KEY` or `VITE_GOOGLE_API_KEY`.',
+            ));
+        return;
+      }
+      let response = await askCopilot(text, context, config, history);
+      if (response.query) response = { ...response, query: answerQuery(response.query, rows) };
+      if (response.steps && activeDs) {
+        const code = await proposalCode(activeDs, response.steps, datasets).catch(() => null);
+        if (code) response = { ...response, code };
+      }
+      addAiMessage(assistantMessage(response.explanation, hasCode(response) || response.steps || response.query ? response : undefined));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      // Without a provider the question was answered locally, so there was nothing to reach
+      addAiMessage(assistantMessage(config
+        ? `Could not reach ${LLM_PROVIDERS[config.provider].label}: ${message}`
+        : `Could not run the local query: ${message}`));
+    } finally {
+      setPending(false);
+    }
+  };
+
+  // Prompts queued from the command palette run through the latest send
+  const sendRef = useRef(send);
+  sendRef.current = send;
+  useEffect(() => {
+    if (!copilotPrompt || pending) return;
+    queueCopilotPrompt(null);
+    void sendRef.current(copilotPrompt);
+  }, [copilotPrompt, pending, queueCopilotPrompt]);
+
+  const preview = async (response: AiResponse) => {
+    if (!activeDs || !response.steps) return;
+    try {
+      const { rows, ctx } = await pipelineInput(activeDs);
+      if (!rows) throw new Error('its rows are not available');
+      setApplying({ datasetId: activeDs.id, preview: previewProposals(rows, activeDs.pipeline, response.steps, ctx) });
+    } catch (err) {
+      toast.error(`Could not preview on ${activeDs.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const confirmApply = () => {
+    if (!applying) return;
+    const ds = datasets.find((d) => d.id === applying.datasetId);
+    const { steps } = applying.preview;
+    steps.forEach((step) => addStep(applying.datasetId, step));
+    const what = steps.length === 1 ? `step "${steps[0].label}"` : `${steps.length} steps`;
+    logActivity(`Copilot added ${what} to ${ds?.name ?? 'a dataset'}`);
+    toast.success(`Added ${what}`);
+    setApplying(null);
   };
 
   if (!copilotOpen) return null;
@@ -68,7 +164,7 @@ export function CopilotPanel() {
           </div>
           <div>
             <div className="text-sm font-semibold">Data Copilot</div>
-            <div className="text-[10px] text-muted-foreground">AI-powered assistant</div>
+            <div className="text-[10px] text-muted-foreground">{activeDs ? `Working on ${activeDs.name}` : 'AI-powered assistant'}</div>
           </div>
         </div>
         <Button variant="ghost" size="icon" className="h-7 w-7" onClick={toggleCopilot}>
@@ -88,33 +184,52 @@ export function CopilotPanel() {
                 <ReactMarkdown>{m.text}</ReactMarkdown>
               </div>
               {m.response && (
-                <div className="w-full rounded-lg border bg-background/60 p-2">
-                  <Tabs defaultValue="python">
-                    <TabsList className="h-7">
-                      <TabsTrigger value="python" className="h-5 px-2 text-[10px]">Python</TabsTrigger>
-                      <TabsTrigger value="pandas" className="h-5 px-2 text-[10px]">Pandas</TabsTrigger>
-                      <TabsTrigger value="sql" className="h-5 px-2 text-[10px]">SQL</TabsTrigger>
-                    </TabsList>
-                    {(['python', 'pandas', 'sql'] as const).map((k) => (
-                      <TabsContent key={k} value={k}>
-                        <pre className="max-h-40 overflow-auto rounded bg-muted/50 p-2 font-mono text-[10px] leading-relaxed">
-                          {m.response!.code[k]}
-                        </pre>
-                      </TabsContent>
-                    ))}
-                  </Tabs>
-                  <Button
-                    size="sm"
-                    className="mt-2 h-7 w-full gap-1.5"
-                    onClick={() => logActivity(`Applied AI suggestion: ${m.text.slice(0, 40)}`)}
-                  >
-                    <Wand2 className="h-3 w-3" />
-                    Apply to pipeline
-                  </Button>
+                <div className="w-full space-y-2 rounded-lg border bg-background/60 p-2">
+                  {m.response.query && <CopilotQueryResult answer={m.response.query} />}
+                  {hasCode(m.response) && (
+                    <Tabs defaultValue={codeTabs.find((t) => m.response!.code[t.key])?.key}>
+                      <TabsList className="h-7">
+                        {codeTabs.filter((t) => m.response!.code[t.key]).map((t) => (
+                          <TabsTrigger key={t.key} value={t.key} className="h-5 px-2 text-[10px]">{t.label}</TabsTrigger>
+                        ))}
+                      </TabsList>
+                      {codeTabs.map(({ key: k }) => (
+                        <TabsContent key={k} value={k}>
+                          <pre className="max-h-40 overflow-auto rounded bg-muted/50 p-2 font-mono text-[10px] leading-relaxed">
+                            {m.response!.code[k]}
+                          </pre>
+                        </TabsContent>
+                      ))}
+                    </Tabs>
+                  )}
+                  {m.response.steps && (
+                    <>
+                      <ol className="space-y-0.5 text-[10px] text-muted-foreground">
+                        {m.response.steps.map((step, i) => (
+                          <li key={i}>{i + 1}. {step.label}</li>
+                        ))}
+                      </ol>
+                      <Button
+                        size="sm"
+                        className="h-7 w-full gap-1.5"
+                        disabled={!activeDs}
+                        title={activeDs ? undefined : 'Open a dataset to apply these steps'}
+                        onClick={() => void preview(m.response!)}
+                      >
+                        <Wand2 className="h-3 w-3" />
+                        Apply to pipeline
+                      </Button>
+                    </>
+                  )}
                 </div>
               )}
             </div>
           ))}
+          {pending && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Loader2 className="h-3 w-3 animate-spin" /> Thinking…
+            </div>
+          )}
         </div>
       </ScrollArea>
       <div className="border-t p-3">
@@ -123,7 +238,8 @@ export function CopilotPanel() {
             <button
               key={s}
               className="rounded-full border bg-background px-2 py-1 text-[10px] text-muted-foreground hover:border-primary/50 hover:text-foreground"
-              onClick={() => send(s)}
+              disabled={pending}
+              onClick={() => void send(s)}
             >
               {s}
             </button>
@@ -136,18 +252,24 @@ export function CopilotPanel() {
             onKeyDown={(e) => {
               if (e.key === 'Enter' && !e.shiftKey) {
                 e.preventDefault();
-                send(input);
+                void send(input);
               }
             }}
-            placeholder="Ask about your data…"
+            placeholder={activeDs ? `Ask about ${activeDs.name}…` : 'Ask about your data…'}
             className="min-h-[40px] resize-none text-xs"
             rows={1}
           />
-          <Button size="icon" onClick={() => send(input)} className="h-10 w-10 shrink-0">
+          <Button size="icon" onClick={() => void send(input)} disabled={pending} className="h-10 w-10 shrink-0">
             <Send className="h-4 w-4" />
           </Button>
         </div>
       </div>
+      <CopilotApplyDialog
+        dataset={datasets.find((d) => d.id === applying?.datasetId)?.name ?? ''}
+        preview={applying?.preview ?? null}
+        onConfirm={confirmApply}
+        onCancel={() => setApplying(null)}
+      />
     </aside>
   );
 }
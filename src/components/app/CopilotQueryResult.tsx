@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { AlertCircle, ChevronDown, Table2 } from 'lucide-react';
+import { describePlan, queryWidget, type QueryAnswer } from '@/lib/copilot';
+import { formatMetric } from '@/lib/dashboard';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { WidgetBody } from './DashboardWidget';
+import { cn } from '@/lib/utils';
+
+// Result rows listed under the chart; the rest are counted
+const SHOWN_ROWS = 20;
+
+const cell = (value: unknown) => (typeof value === 'number' ? formatMetric(value) : value === null ? '—' : String(value));
+
+/** A copilot query: chart, result table and the plan it ran, for audit. */
+export function CopilotQueryResult({ answer }: { answer: QueryAnswer }) {
+  const [planOpen, setPlanOpen] = useState(false);
+  const { plan, result, error } = answer;
+  const chart = result ? queryWidget(plan, result) : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-[10px] uppercase text-muted-foreground">
+        <span className="flex items-center gap-1"><Table2 className="h-3 w-3" /> Query</span>
+        <span>{answer.source === 'llm' ? 'Translated by AI · computed locally' : 'Rule-based · computed locally'}</span>
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-1.5 rounded-md border border-destructive/40 bg-destructive/5 p-2 text-[11px] text-destructive">
+          <AlertCircle className="mt-0.5 h-3 w-3 shrink-0" /> Could not run this query: {error}
+        </div>
+      )}
+
+      {result && (
+        <>
+          {chart && (chart.data.kind === 'value' || result.rows.length > 1) && (
+            <div className={cn(chart.data.kind === 'value' ? 'h-16 px-1' : 'h-40')}>
+              <WidgetBody widget={chart.widget} data={chart.data} selected={null} />
+            </div>
+          )}
+          {chart?.data.kind !== 'value' && (
+            <div className="max-h-56 overflow-auto rounded border">
+              <table className="w-full text-[11px]">
+                <thead className="sticky top-0 bg-muted">
+                  <tr>
+                    {result.columns.map((c) => <th key={c} className="px-2 py-1 text-left font-medium">{c}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rows.slice(0, SHOWN_ROWS).map((row, i) => (
+                    <tr key={i} className="border-t">
+                      {result.columns.map((c) => (
+                        <td key={c} className={cn('px-2 py-1', typeof row[c] === 'number' && 'text-right tabular-nums')}>{cell(row[c])}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {result.rows.length === 0 && <p className="p-3 text-center text-[11px] text-muted-foreground">No rows match.</p>}
+            </div>
+          )}
+          <div className="text-[10px] text-muted-foreground">
+            {result.matched.toLocaleString()} of {result.scanned.toLocaleString()} rows matched
+            {result.rows.length > SHOWN_ROWS && ` · first ${SHOWN_ROWS} of ${result.rows.length} groups`}
+            {result.groups > result.rows.length && ` · ${result.groups - result.rows.length} more groups left out`}
+          </div>
+        </>
+      )}
+
+      <Collapsible open={planOpen} onOpenChange={setPlanOpen}>
+        <CollapsibleTrigger className="flex items-center gap-1 text-[10px] text-muted-foreground hover:text-foreground">
+          <ChevronDown className={cn('h-3 w-3 transition-transform', planOpen && 'rotate-180')} />
+          {describePlan(plan)}
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <pre className="mt-1 max-h-40 overflow-auto rounded bg-muted/50 p-2 font-mono text-[10px] leading-relaxed">
+            {JSON.stringify(plan, null, 2)}
+          </pre>
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useMemo, useState } from 'react';
+import { Calendar, Filter, Plus, X } from 'lucide-react';
+import type { ColumnSchema } from '@/store/workspace';
+import { FILTER_OPS } from '@/lib/pipeline';
+import type { CrossFilter, DashboardFilters } from '@/lib/dashboard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+
+type DataRow = Record<string, unknown>;
+
+const NONE = '__none__';
+// Value pickers list at most this many distinct values
+const MAX_VALUES = 200;
+
+type Props = {
+  filters: DashboardFilters;
+  schema: ColumnSchema[];
+  rows: DataRow[];
+  cross: CrossFilter | null;
+  onChange: (filters: DashboardFilters) => void;
+  onClearCross: () => void;
+};
+
+export default function DashboardFilterBar({ filters, schema, rows, cross, onChange, onClearCross }: Props) {
+  const dateColumns = schema.filter((c) => c.type === 'date');
+  const [open, setOpen] = useState(false);
+  const [column, setColumn] = useState<string | null>(null);
+  const [value, setValue] = useState<string | null>(null);
+
+  const values = useMemo(() => {
+    if (!column) return [];
+    const seen = new Set<string>();
+    for (const row of rows) {
+      const v = row[column];
+      if (v === null || v === undefined || v === '') continue;
+      seen.add(String(v));
+      if (seen.size >= MAX_VALUES) break;
+    }
+    return [...seen].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  }, [rows, column]);
+
+  const set = (patch: Partial<DashboardFilters>) => onChange({ ...filters, ...patch });
+  const opLabel = (op: string) => FILTER_OPS.find((o) => o.op === op)?.label ?? op;
+
+  const addPredicate = () => {
+    if (!column || value === null) return;
+    set({ predicates: [...filters.predicates, { column, op: 'eq', value }] });
+    setOpen(false);
+    setColumn(null);
+    setValue(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 border-b px-4 py-2 text-xs">
+      <Calendar className="h-3.5 w-3.5 text-muted-foreground" />
+      <Select
+        value={filters.dateColumn ?? NONE}
+        onValueChange={(v) => set(v === NONE ? { dateColumn: null, from: null, to: null } : { dateColumn: v })}
+        disabled={dateColumns.length === 0}
+      >
+        <SelectTrigger className="h-7 w-36 text-xs"><SelectValue placeholder="Date column" /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>All dates</SelectItem>
+          {dateColumns.map((c) => <SelectItem key={c.name} value={c.name}>{c.name}</SelectItem>)}
+        </SelectContent>
+      </Select>
+      {filters.dateColumn && (
+        <>
+          <Input
+            type="date"
+            className="h-7 w-36 text-xs"
+            value={filters.from ?? ''}
+            onChange={(e) => set({ from: e.target.value || null })}
+            aria-label="From date"
+          />
+          <span className="text-muted-foreground">to</span>
+          <Input
+            type="date"
+            className="h-7 w-36 text-xs"
+            value={filters.to ?? ''}
+            onChange={(e) => set({ to: e.target.value || null })}
+            aria-label="To date"
+          />
+        </>
+      )}
+
+      <div className="mx-1 h-4 w-px bg-border" />
+      <Filter className="h-3.5 w-3.5 text-muted-foreground" />
+      {filters.predicates.map((p, i) => (
+        <span key={i} className="inline-flex items-center gap-1 rounded-full border bg-muted/50 py-0.5 pl-2 pr-1">
+          {p.column} <span className="text-muted-foreground">{opLabel(p.op)}</span> {String(p.value ?? '')}
+          <button
+            className="rounded-full p-0.5 hover:bg-muted"
+            onClick={() => set({ predicates: filters.predicates.filter((_, j) => j !== i) })}
+            aria-label="Remove filter"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button size="sm" variant="ghost" className="h-7 gap-1 text-xs" disabled={schema.length === 0}>
+            <Plus className="h-3 w-3" /> Add filter
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-64 space-y-2 p-3 text-xs">
+          <div className="text-[10px] uppercase text-muted-foreground">Column</div>
+          <Select
+            value={column ?? undefined}
+            onValueChange={(v) => {
+              setColumn(v);
+              setValue(null);
+            }}
+          >
+            <SelectTrigger className="h-8 text-xs"><SelectValue placeholder="Choose a column" /></SelectTrigger>
+            <SelectContent>
+              {schema.map((c) => <SelectItem key={c.name} value={c.name}>{c.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <div className="text-[10px] uppercase text-muted-foreground">Equals</div>
+          <Select value={value ?? undefined} onValueChange={setValue} disabled={!column}>
+            <SelectTrigger className="h-8 text-xs"><SelectValue placeholder="Choose a value" /></SelectTrigger>
+            <SelectContent>
+              {values.map((v) => <SelectItem key={v} value={v}>{v}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button size="sm" className="h-7 w-full text-xs" disabled={!column || value === null} onClick={addPredicate}>
+            Apply filter
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      {cross && (
+        <span className="ml-auto inline-flex items-center gap-1 rounded-full border border-warning/50 bg-warning/10 py-0.5 pl-2 pr-1">
+          <span className="text-muted-foreground">Cross-filter</span> {cross.column} = {cross.label}
+          <button className="rounded-full p-0.5 hover:bg-warning/20" onClick={onClearCross} aria-label="Clear cross-filter">
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useRef, useState, type PointerEvent as ReactPointerEvent, type ReactNode } from 'react';
+import { GripVertical } from 'lucide-react';
+import { GRID_COLUMNS, updateLayout, type Widget, type WidgetLayout } from '@/lib/dashboard';
+
+const ROW_HEIGHT = 64;
+const GAP = 16;
+
+type Props = {
+  widgets: Widget[];
+  onChange: (widgets: Widget[]) => void;
+  children: (widget: Widget) => ReactNode;
+};
+
+type Gesture = {
+  id: string;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  origin: WidgetLayout;
+  // Layout when the gesture began; every update is computed from it so pushes don't accumulate
+  snapshot: Widget[];
+  last: string;
+};
+
+/**
+ * 12-column dashboard grid. Widgets move by their grip and resize by their
+ * bottom-right corner in whole grid cells; others reflow live around them.
+ */
+export default function DashboardGrid({ widgets, onChange, children }: Props) {
+  const container = useRef<HTMLDivElement>(null);
+  const gesture = useRef<Gesture | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const start = (e: ReactPointerEvent, widget: Widget, mode: Gesture['mode']) => {
+    e.preventDefault();
+    e.stopPropagation();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    gesture.current = {
+      id: widget.id,
+      mode,
+      startX: e.clientX,
+      startY: e.clientY,
+      origin: widget.layout,
+      snapshot: widgets,
+      last: JSON.stringify(widget.layout),
+    };
+    setActiveId(widget.id);
+  };
+
+  const move = (e: ReactPointerEvent) => {
+    const g = gesture.current;
+    if (!g || !container.current) return;
+    const colStep = (container.current.clientWidth + GAP) / GRID_COLUMNS;
+    const dx = Math.round((e.clientX - g.startX) / colStep);
+    const dy = Math.round((e.clientY - g.startY) / (ROW_HEIGHT + GAP));
+    const next = g.mode === 'move'
+      ? { ...g.origin, x: g.origin.x + dx, y: g.origin.y + dy }
+      : { ...g.origin, w: g.origin.w + dx, h: g.origin.h + dy };
+    const key = JSON.stringify(next);
+    if (key === g.last) return;
+    g.last = key;
+    onChange(updateLayout(g.snapshot, g.id, next));
+  };
+
+  const end = () => {
+    gesture.current = null;
+    setActiveId(null);
+  };
+
+  return (
+    <div
+      ref={container}
+      className="grid select-none"
+      style={{ gridTemplateColumns: `repeat(${GRID_COLUMNS}, minmax(0, 1fr))`, gridAutoRows: ROW_HEIGHT, gap: GAP }}
+      onPointerMove={move}
+      onPointerUp={end}
+      onPointerCancel={end}
+    >
+      {widgets.map((w) => (
+        <div
+          key={w.id}
+          className={`group/cell relative min-w-0 transition-shadow ${activeId === w.id ? 'z-10 rounded-lg shadow-lg ring-2 ring-primary/40' : ''}`}
+          style={{ gridColumn: `${w.layout.x + 1} / span ${w.layout.w}`, gridRow: `${w.layout.y + 1} / span ${w.layout.h}` }}
+        >
+          {children(w)}
+          <button
+            className="absolute left-1 top-1 z-10 cursor-grab rounded p-0.5 text-muted-foreground opacity-0 hover:bg-muted group-hover/cell:opacity-100 active:cursor-grabbing"
+            onPointerDown={(e) => start(e, w, 'move')}
+            aria-label="Drag to move"
+          >
+            <GripVertical className="h-3 w-3" />
+          </button>
+          <div
+            className="absolute bottom-0.5 right-0.5 z-10 h-3 w-3 cursor-se-resize rounded-br-lg border-b-2 border-r-2 border-muted-foreground/40 opacity-0 group-hover/cell:opacity-100"
+            onPointerDown={(e) => start(e, w, 'resize')}
+            aria-label="Drag to resize"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useMemo } from 'react';
+import { Pencil, X } from 'lucide-react';
+import { computeWidget, formatMetric, periodChange, type Widget, type WidgetData } from '@/lib/dashboard';
+import { Card, CardContent } from '@/components/ui/card';
+import GeoMap from './GeoMap';
+import {
+  BarChart, Bar, LineChart, Line, PieChart, Pie, Cell,
+  CartesianGrid, XAxis, YAxis, ResponsiveContainer, Tooltip, ReferenceLine,
+} from 'recharts';
+
+type DataRow = Record<string, unknown>;
+
+const colors = ['hsl(var(--primary))', 'hsl(var(--warning))', 'hsl(var(--success))', '#a78bfa', '#60a5fa', '#f472b6', '#34d399'];
+const tooltipStyle = { background: 'hsl(var(--card))', border: '1px solid hsl(var(--border))', fontSize: 11 };
+
+function Empty({ text }: { text: string }) {
+  return <div className="flex h-full items-center justify-center p-4 text-center text-xs text-muted-foreground">{text}</div>;
+}
+
+function Kpi({ data }: { data: Extract<WidgetData, { kind: 'value' }> }) {
+  const change = periodChange(data);
+  return (
+    <div className="flex h-full flex-col justify-center">
+      <div className="text-3xl font-bold tabular-nums">{formatMetric(data.value)}</div>
+      {change !== null && (
+        <div className={`mt-1 text-[11px] ${change >= 0 ? 'text-success' : 'text-destructive'}`}>
+          {change >= 0 ? '↑' : '↓'} {Math.abs(change).toFixed(1)}% latest {data.period} vs prior
+        </div>
+      )}
+    </div>
+  );
+}
+
+function GaugeDial({ data }: { data: Extract<WidgetData, { kind: 'value' }> }) {
+  if (data.value === null || !data.max) return <Empty text="No values to compare" />;
+  const share = Math.max(0, Math.min(1, data.value / data.max));
+  // Half circle of radius 40: arc length π·r
+  const arc = Math.PI * 40;
+  return (
+    <div className="flex h-full flex-col items-center justify-center">
+      <svg viewBox="0 0 100 56" className="h-28 w-48">
+        <path d="M10 50 A40 40 0 0 1 90 50" fill="none" stroke="hsl(var(--primary) / 0.15)" strokeWidth="10" strokeLinecap="round" />
+        <path
+          d="M10 50 A40 40 0 0 1 90 50"
+          fill="none"
+          stroke="hsl(var(--primary))"
+          strokeWidth="10"
+          strokeLinecap="round"
+          strokeDasharray={`${arc * share} ${arc}`}
+        />
+        <text x="50" y="48" textAnchor="middle" className="fill-foreground text-[14px] font-bold">
+          {Math.round(share * 100)}%
+        </text>
+      </svg>
+      <div className="text-[10px] text-muted-foreground tabular-nums">
+        {formatMetric(data.value)} of {formatMetric(data.max)}
+      </div>
+    </div>
+  );
+}
+
+type Selection = {
+  selected: string | null;
+  onSelect?: (label: string) => void;
+};
+
+// Also drawn on its own by the report page, without the card
+export function WidgetBody({ widget, data, selected, onSelect }: { widget: Widget; data: WidgetData } & Selection) {
+  if (data.kind === 'value') return widget.type === 'gauge' ? <GaugeDial data={data} /> : <Kpi data={data} />;
+  if (data.kind === 'points') {
+    return data.points.length ? <GeoMap data={data} selected={null} fallback={null} /> : <Empty text="No rows have valid coordinates" />;
+  }
+  const { points } = data;
+  if (points.length === 0) return <Empty text="No rows match this widget's filters" />;
+  // Other groups fade while one is selected as the cross-filter
+  const dimmed = (label: string) => selected !== null && label !== selected;
+  const pointer = onSelect ? 'cursor-pointer' : '';
+
+  switch (widget.type) {
+    case 'bar':
+      return (
+        <ResponsiveContainer>
+          <BarChart data={points}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+            <YAxis tick={{ fontSize: 10 }} tickFormatter={formatMetric} width={44} />
+            <Tooltip contentStyle={tooltipStyle} formatter={(v: number) => formatMetric(v)} />
+            <Bar
+              dataKey="value"
+              name={widget.config.title}
+              fill="hsl(var(--primary))"
+              radius={[3, 3, 0, 0]}
+              className={pointer}
+              onClick={(p: { label: string }) => onSelect?.(p.label)}
+            >
+              {points.map((p) => <Cell key={p.label} fillOpacity={dimmed(p.label) ? 0.3 : 1} />)}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      );
+    case 'line':
+      return (
+        <ResponsiveContainer>
+          <LineChart data={points} className={pointer} onClick={(e) => e?.activeLabel && onSelect?.(String(e.activeLabel))}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+            <YAxis tick={{ fontSize: 10 }} tickFormatter={formatMetric} width={44} />
+            <Tooltip contentStyle={tooltipStyle} formatter={(v: number) => formatMetric(v)} />
+            {selected !== null && <ReferenceLine x={selected} stroke="hsl(var(--warning))" strokeDasharray="4 2" />}
+            <Line type="monotone" dataKey="value" name={widget.config.title} stroke="hsl(var(--primary))" strokeWidth={2} dot={points.length <= 24} />
+          </LineChart>
+        </ResponsiveContainer>
+      );
+    case 'pie':
+      return (
+        <ResponsiveContainer>
+          <PieChart>
+            <Pie
+              data={points}
+              dataKey="value"
+              nameKey="label"
+              outerRadius="75%"
+              label={({ label }) => label}
+              labelLine={false}
+              fontSize={10}
+              className={pointer}
+              onClick={(p: { label: string }) => onSelect?.(p.label)}
+            >
+              {points.map((p, i) => <Cell key={p.label} fill={colors[i % colors.length]} fillOpacity={dimmed(p.label) ? 0.3 : 1} />)}
+            </Pie>
+            <Tooltip contentStyle={tooltipStyle} formatter={(v: number) => formatMetric(v)} />
+          </PieChart>
+        </ResponsiveContainer>
+      );
+    case 'map': {
+      // Groups that are not known places are ranked and shaded by value instead
+      const max = Math.max(...points.map((p) => Math.abs(p.value)), 1);
+      const ranked = (
+        <div className="grid h-full auto-rows-fr gap-1 overflow-auto">
+          {points.map((p) => (
+            <div
+              key={p.label}
+              className={`flex items-center justify-between rounded px-2 text-[11px] ${pointer} ${p.label === selected ? 'ring-1 ring-primary' : ''}`}
+              style={{ background: `hsl(var(--primary) / ${0.08 + (0.5 * Math.abs(p.value)) / max})`, opacity: dimmed(p.label) ? 0.4 : 1 }}
+              onClick={() => onSelect?.(p.label)}
+            >
+              <span className="truncate">{p.label}</span>
+              <span className="font-mono tabular-nums">{formatMetric(p.value)}</span>
+            </div>
+          ))}
+        </div>
+      );
+      return <GeoMap data={data} selected={selected} onSelect={onSelect} fallback={ranked} />;
+    }
+    default:
+      return (
+        <div className="h-full overflow-auto text-[11px]">
+          <table className="w-full">
+            <thead className="sticky top-0 bg-card">
+              <tr className="text-muted-foreground">
+                <th className="py-1 text-left font-medium">{widget.config.dimension ?? ''}</th>
+                <th className="py-1 text-right font-medium">{widget.config.measure ?? 'Rows'}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {points.map((p) => (
+                <tr
+                  key={p.label}
+                  className={`border-t ${pointer} ${p.label === selected ? 'bg-primary/10' : ''} ${dimmed(p.label) ? 'text-muted-foreground' : ''}`}
+                  onClick={() => onSelect?.(p.label)}
+                >
+                  <td className="truncate py-1">{p.label}</td>
+                  <td className="py-1 text-right font-mono tabular-nums">{formatMetric(p.value)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+  }
+}
+
+type Props = {
+  widget: Widget;
+  rows: DataRow[];
+  onEdit: () => void;
+  onRemove: () => void;
+  // Group this widget contributed to the cross-filter, if any
+  selected?: string | null;
+  // Omitted for widgets without a dimension, which have nothing to click
+  onSelect?: (label: string) => void;
+};
+
+export default function DashboardWidget({ widget, rows, onEdit, onRemove, selected = null, onSelect }: Props) {
+  const data = useMemo(() => computeWidget(widget, rows), [widget, rows]);
+  const hidden = data.kind === 'series' ? data.hidden : 0;
+
+  return (
+    <Card className="group relative flex h-full flex-col">
+      <div className="flex items-start justify-between gap-2 pl-6 pr-4 pt-3">
+        <div className="min-w-0">
+          <div className="truncate text-[10px] uppercase text-muted-foreground">{widget.config.title}</div>
+          {(widget.config.filters.length > 0 || hidden > 0) && (
+            <div className="truncate text-[10px] text-muted-foreground/70">
+              {widget.config.filters.length > 0 && `${widget.config.filters.length} filter${widget.config.filters.length > 1 ? 's' : ''}`}
+              {widget.config.filters.length > 0 && hidden > 0 && ' · '}
+              {hidden > 0 && `top ${widget.config.limit}, ${hidden} more hidden`}
+            </div>
+          )}
+        </div>
+        <div className="flex shrink-0 gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+          <button onClick={onEdit} className="rounded-full bg-background/80 p-1" aria-label="Configure widget">
+            <Pencil className="h-3 w-3" />
+          </button>
+          <button onClick={onRemove} className="rounded-full bg-background/80 p-1" aria-label="Remove widget">
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      </div>
+      <CardContent className="min-h-0 flex-1 px-4 pb-3 pt-2">
+        <WidgetBody widget={widget} data={data} selected={selected} onSelect={onSelect} />
+      </CardContent>
+    </Card>
+  );
+}
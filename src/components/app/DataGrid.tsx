@@ -9,9 +9,14 @@ interface DataGridProps {
   columns?: string[];
   pageSize?: number;
   editable?: boolean;
+  // Cell-level highlights: row object → { column: previous value }
+  changes?: Map<Record<string, unknown>, Record<string, unknown>>;
+  addedColumns?: string[];
+  // Render the previous value struck through inside changed cells instead of only in the tooltip
+  inlineChanges?: boolean;
 }
 
-export function DataGrid({ rows, columns, pageSize = 50, editable = false }: DataGridProps) {
+export function DataGrid({ rows, columns, pageSize = 50, editable = false, changes, addedColumns, inlineChanges = false }: DataGridProps) {
   const cols = columns ?? (rows[0] ? Object.keys(rows[0]) : []);
   const [sort, setSort] = useState<{ col: string; dir: 'asc' | 'desc' } | null>(null);
   const [filter, setFilter] = useState('');
@@ -69,7 +74,7 @@ export function DataGrid({ rows, columns, pageSize = 50, editable = false }: Dat
             <tr>
               <th className="w-10 text-center">#</th>
               {cols.map((c) => (
-                <th key={c}>
+                <th key={c} className={addedColumns?.includes(c) ? 'bg-success/10' : undefined}>
                   <button className="flex items-center gap-1 hover:text-foreground" onClick={() => toggleSort(c)}>
                     {c}
                     {sort?.col === c ? (
@@ -90,20 +95,32 @@ export function DataGrid({ rows, columns, pageSize = 50, editable = false }: Dat
             {view.map((r, i) => (
               <tr key={i}>
                 <td className="text-center text-muted-foreground">{page * pageSize + i + 1}</td>
-                {cols.map((c) => (
-                  <td key={c} className="max-w-[220px] truncate">
-                    {r[c] == null ? (
-                      <span className="italic text-muted-foreground/60">null</span>
-                    ) : editable ? (
-                      <input
-                        defaultValue={String(r[c])}
-                        className="w-full bg-transparent outline-none focus:ring-1 focus:ring-primary rounded px-1"
-                      />
-                    ) : (
-                      String(r[c])
-                    )}
-                  </td>
-                ))}
+                {cols.map((c) => {
+                  const prev = changes?.get(r);
+                  const changed = !!prev && c in prev;
+                  const added = addedColumns?.includes(c);
+                  return (
+                    <td
+                      key={c}
+                      className={`max-w-[220px] truncate ${changed ? 'bg-warning/15' : added ? 'bg-success/10' : ''}`}
+                      title={changed ? `was: ${prev[c] == null ? 'null' : String(prev[c])}` : undefined}
+                    >
+                      {changed && inlineChanges && (
+                        <del className="mr-1.5 text-muted-foreground/70">{prev[c] == null ? 'null' : String(prev[c])}</del>
+                      )}
+                      {r[c] == null ? (
+                        <span className="italic text-muted-foreground/60">null</span>
+                      ) : editable ? (
+                        <input
+                          defaultValue={String(r[c])}
+                          className="w-full bg-transparent outline-none focus:ring-1 focus:ring-primary rounded px-1"
+                        />
+                      ) : (
+                        String(r[c])
+                      )}
+                    </td>
+                  );
+                })}
               </tr>
             ))}
           </tbody>
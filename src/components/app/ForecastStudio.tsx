@@ -0,0 +1,326 @@
+import { useMemo, useState, type ReactNode } from 'react';
+import type { Dataset } from '@/store/workspace';
+import {
+  FREQUENCIES, detectDateColumns, detectValueColumns, forecastRows, forecastSeries, resampleSeries, suggestFrequency,
+  type ForecastMethod, type ForecastResult, type Frequency, type SeriesAggregation,
+} from '@/lib/ml';
+import { dataToCSV, downloadFile } from '@/lib/dataExporter';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Play, TrendingUp } from 'lucide-react';
+import {
+  Area, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis,
+} from 'recharts';
+import { toast } from 'sonner';
+
+type DataRow = Record<string, unknown>;
+
+// Sentinel value-column choice: forecast the number of rows per period
+const ROW_COUNT = '__rows__';
+
+const tooltipStyle = { background: 'hsl(var(--card))', border: '1px solid hsl(var(--border))', fontSize: 11 };
+
+const nextFrame = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const fmt = (v: number | null | undefined) =>
+  v === null || v === undefined || !Number.isFinite(v)
+    ? '—'
+    : Math.abs(v) >= 1000 ? Math.round(v).toLocaleString() : v.toFixed(2);
+
+const METHOD_LABELS: Record<ForecastMethod, string> = {
+  holt_winters: 'Holt-Winters',
+  seasonal_naive: 'Seasonal naive',
+};
+
+type Props = {
+  dataset: Dataset;
+  rows: DataRow[] | null;
+  // The page's model type picker, rendered at the top of the configure card
+  modelTypePicker: ReactNode;
+};
+
+export default function ForecastStudio({ dataset: ds, rows, modelTypePicker }: Props) {
+  const dateCandidates = useMemo(() => (rows ? detectDateColumns(rows, ds.schema) : []), [rows, ds.schema]);
+  const valueCandidates = useMemo(
+    () => (rows ? detectValueColumns(rows, ds.schema, dateCandidates.map((c) => c.column)) : []),
+    [rows, ds.schema, dateCandidates],
+  );
+  const numeric = ds.schema.filter((c) => c.type === 'numeric').map((c) => c.name);
+
+  // Empty choices fall back to the detected defaults until the user picks
+  const [dateChoice, setDateChoice] = useState('');
+  const [valueChoice, setValueChoice] = useState('');
+  const [frequencyChoice, setFrequencyChoice] = useState<Frequency | ''>('');
+  const [aggregation, setAggregation] = useState<SeriesAggregation>('sum');
+  const [horizonChoice, setHorizonChoice] = useState('');
+  const [result, setResult] = useState<ForecastResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const dateCandidate = dateCandidates.find((c) => c.column === dateChoice) ?? dateCandidates[0];
+  const valueColumn = valueChoice || valueCandidates[0] || numeric[0] || ROW_COUNT;
+  const frequency = frequencyChoice || (dateCandidate ? suggestFrequency(dateCandidate.info) : 'month');
+  const horizon = Number(horizonChoice) || Math.max(FREQUENCIES[frequency].seasonLength, 4);
+
+  const run = async () => {
+    if (!rows || !dateCandidate) return;
+    setBusy(true);
+    await nextFrame();
+    try {
+      const series = resampleSeries(rows, {
+        dateColumn: dateCandidate.column,
+        valueColumn: valueColumn === ROW_COUNT ? null : valueColumn,
+        frequency,
+        aggregation: valueColumn === ROW_COUNT ? 'count' : aggregation,
+      });
+      setResult(forecastSeries(series, Math.min(horizon, 520)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Forecast failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const chartData = useMemo(() => {
+    if (!result) return [];
+    const hw = result.models.holt_winters;
+    const sn = result.models.seasonal_naive;
+    const history = result.series.labels.map((period, i) => ({
+      period,
+      actual: result.series.values[i],
+      holtWinters: Number.isFinite(hw.fitted[i]) ? hw.fitted[i] : undefined,
+    }));
+    // Join the forecast lines to the last actual so there is no visual gap
+    const lastIndex = history.length - 1;
+    const joined = {
+      ...history[lastIndex],
+      holtWinters: result.series.values[lastIndex],
+      seasonalNaive: result.series.values[lastIndex],
+    };
+    const future = result.futureLabels.map((period, h) => ({
+      period,
+      holtWinters: hw.forecast[h],
+      seasonalNaive: sn.forecast[h],
+      band95: [hw.lower95[h], hw.upper95[h]],
+      band80: [hw.lower80[h], hw.upper80[h]],
+    }));
+    return [...history.slice(0, lastIndex), joined, ...future];
+  }, [result]);
+
+  const exportForecast = (method: ForecastMethod) => {
+    if (!result) return;
+    const base = `${ds.name.replace(/[^a-z0-9]+/gi, '_')}_${method}_forecast`;
+    downloadFile(dataToCSV(forecastRows(result, method)), `${base}.csv`, 'text/csv');
+  };
+
+  const valueLabel = valueColumn === ROW_COUNT ? 'row count' : `${aggregation} of ${valueColumn}`;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Configure</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-xs">
+          {modelTypePicker}
+          {!rows ? (
+            <p className="text-muted-foreground">Loading rows…</p>
+          ) : dateCandidates.length === 0 ? (
+            <p className="rounded-lg border border-dashed p-3 text-muted-foreground">
+              No date column was detected in {ds.name}. Forecasting needs a column of dates or timestamps.
+            </p>
+          ) : (
+            <>
+              <div>
+                <div className="mb-1 text-[10px] uppercase text-muted-foreground">Date column</div>
+                <Select value={dateCandidate.column} onValueChange={setDateChoice}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {dateCandidates.map((c) => <SelectItem key={c.column} value={c.column}>{c.column}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <p className="mt-1 text-[10px] text-muted-foreground">
+                  {dateCandidate.info.dateRange} · {dateCandidate.info.validDates.length.toLocaleString()} dates
+                  {dateCandidate.info.invalidDates > 0 && ` · ${dateCandidate.info.invalidDates} unparseable`}
+                </p>
+              </div>
+              <div>
+                <div className="mb-1 text-[10px] uppercase text-muted-foreground">Value</div>
+                <Select value={valueColumn} onValueChange={setValueChoice}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {numeric.map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {name}{valueCandidates.includes(name) ? ' · time series' : ''}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={ROW_COUNT}>Row count</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <div className="mb-1 text-[10px] uppercase text-muted-foreground">Frequency</div>
+                  <Select value={frequency} onValueChange={(v) => setFrequencyChoice(v as Frequency)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(FREQUENCIES) as Frequency[]).map((f) => (
+                        <SelectItem key={f} value={f}>{FREQUENCIES[f].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <div className="mb-1 text-[10px] uppercase text-muted-foreground">Aggregate</div>
+                  <Select
+                    value={valueColumn === ROW_COUNT ? 'count' : aggregation}
+                    onValueChange={(v) => setAggregation(v as SeriesAggregation)}
+                    disabled={valueColumn === ROW_COUNT}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="sum">Sum</SelectItem>
+                      <SelectItem value="mean">Mean</SelectItem>
+                      <SelectItem value="count">Count</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <div className="mb-1 text-[10px] uppercase text-muted-foreground">Horizon (periods)</div>
+                <Input
+                  type="number"
+                  min={1}
+                  value={horizonChoice || String(horizon)}
+                  onChange={(e) => setHorizonChoice(e.target.value)}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <Button className="w-full gap-1.5" onClick={run} disabled={busy}>
+                <Play className="h-3.5 w-3.5" /> Forecast
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-4">
+        {result ? (
+          <>
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle className="text-sm">
+                    {FREQUENCIES[result.series.frequency].label} {valueLabel}
+                  </CardTitle>
+                  <p className="text-[11px] text-muted-foreground">
+                    {result.series.values.length} periods of history · {result.horizon}-period forecast ·{' '}
+                    {result.models.holt_winters.variant}
+                    {result.series.filledPeriods > 0 && ` · ${result.series.filledPeriods} empty periods filled`}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" className="gap-1" onClick={() => exportForecast('holt_winters')}>
+                  <Download className="h-3.5 w-3.5" /> CSV
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <div className="h-80">
+                  <ResponsiveContainer>
+                    <ComposedChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis dataKey="period" tick={{ fontSize: 10 }} minTickGap={16} />
+                      <YAxis tick={{ fontSize: 10 }} tickFormatter={(v: number) => fmt(v)} width={60} />
+                      <Tooltip
+                        contentStyle={tooltipStyle}
+                        formatter={(v: number | number[]) => (Array.isArray(v) ? `${fmt(v[0])} – ${fmt(v[1])}` : fmt(v))}
+                      />
+                      <Legend wrapperStyle={{ fontSize: 11 }} />
+                      <Area dataKey="band95" name="95% interval" stroke="none" fill="hsl(var(--primary))" fillOpacity={0.1} />
+                      <Area dataKey="band80" name="80% interval" stroke="none" fill="hsl(var(--primary))" fillOpacity={0.2} />
+                      <Line dataKey="actual" name="Actual" stroke="hsl(var(--foreground))" strokeWidth={2} dot={false} />
+                      <Line dataKey="holtWinters" name="Holt-Winters" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+                      <Line
+                        dataKey="seasonalNaive"
+                        name="Seasonal naive"
+                        stroke="hsl(var(--warning))"
+                        strokeWidth={1.5}
+                        strokeDasharray="5 4"
+                        dot={false}
+                      />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm">Backtest</CardTitle>
+                <p className="text-[11px] text-muted-foreground">
+                  {result.backtest
+                    ? `Each model was refit without the last ${result.backtest.holdout} periods and scored on them`
+                    : 'Not enough history to hold out periods for a backtest'}
+                </p>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Model</TableHead>
+                      <TableHead>Variant</TableHead>
+                      <TableHead>MAE</TableHead>
+                      <TableHead>RMSE</TableHead>
+                      <TableHead>MAPE</TableHead>
+                      <TableHead>Parameters</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {(Object.keys(METHOD_LABELS) as ForecastMethod[]).map((method) => {
+                      const accuracy = result.backtest?.accuracy[method];
+                      const params = result.models[method].params;
+                      return (
+                        <TableRow key={method}>
+                          <TableCell className="font-medium">{METHOD_LABELS[method]}</TableCell>
+                          <TableCell>{result.models[method].variant}</TableCell>
+                          <TableCell>{fmt(accuracy?.mae)}</TableCell>
+                          <TableCell>{fmt(accuracy?.rmse)}</TableCell>
+                          <TableCell>
+                            {accuracy?.mape === null || accuracy === undefined ? '—' : `${(accuracy.mape * 100).toFixed(1)}%`}
+                          </TableCell>
+                          <TableCell className="font-mono text-[10px]">
+                            {params
+                              ? Object.entries(params).map(([k, v]) => `${k}=${v}`).join(' ')
+                              : '—'}
+                          </TableCell>
+                          <TableCell>
+                            <Button size="sm" variant="ghost" className="h-7 gap-1" onClick={() => exportForecast(method)}>
+                              <Download className="h-3 w-3" /> CSV
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        ) : (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-16">
+              <TrendingUp className="mb-3 h-10 w-10 text-muted-foreground" />
+              <h3 className="text-base font-semibold">No forecast yet</h3>
+              <p className="mt-1 max-w-sm text-center text-xs text-muted-foreground">
+                Check the detected date and value columns, pick a frequency, then click Forecast.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
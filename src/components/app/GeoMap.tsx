@@ -0,0 +1,97 @@
+import { useMemo, type ReactNode } from 'react';
+import { GEO_LEVEL_LABELS, areaPaths, formatMetric, landPaths, mapFrame, mapShade, mapView, type WidgetData } from '@/lib/dashboard';
+
+type Props = {
+  data: WidgetData;
+  selected: string | null;
+  onSelect?: (label: string) => void;
+  // Drawn instead when the groups are not places the map knows
+  fallback: ReactNode;
+};
+
+/** Choropleth areas, tiles or a point layer for a map widget, shaded by the measure. */
+export default function GeoMap({ data, selected, onSelect, fallback }: Props) {
+  const frame = useMemo(() => mapFrame(data), [data]);
+  const view = useMemo(() => (frame ? mapView(data, frame) : null), [data, frame]);
+  const land = useMemo(() => (frame ? landPaths(frame) : []), [frame]);
+  const areas = useMemo(() => (frame ? areaPaths(frame) : {}), [frame]);
+  if (!frame || !view) return <>{fallback}</>;
+
+  const opacity = (label: string | null) => (selected !== null && label !== selected ? 0.35 : 1);
+  const click = (label: string | null) => label !== null && onSelect?.(label);
+  const hidden = data.kind === 'points' ? data.hidden : 0;
+  const fill = (value: number | null) =>
+    value === null ? 'hsl(var(--muted))' : `hsl(var(--primary) / ${mapShade(value, view.min, view.max)})`;
+
+  return (
+    <div className="flex h-full flex-col">
+      <svg viewBox={`0 0 ${view.width} ${view.height}`} className="min-h-0 w-full flex-1">
+        {land.map((d, i) => <path key={i} d={d} fill="hsl(var(--muted))" stroke="hsl(var(--border))" strokeWidth={0.5} />)}
+        {view.shapes.map((s) =>
+          s.kind === 'area' ? (
+            <path
+              key={s.code}
+              d={areas[s.code]}
+              fillRule="evenodd"
+              fill={fill(s.value)}
+              stroke={s.label !== null && s.label === selected ? 'hsl(var(--warning))' : 'hsl(var(--card))'}
+              strokeWidth={s.label !== null && s.label === selected ? 2 : 0.5}
+              opacity={opacity(s.label)}
+              className={s.label !== null && onSelect ? 'cursor-pointer' : ''}
+              onClick={() => click(s.label)}
+            >
+              <title>{`${s.name}: ${s.value === null ? 'no data' : formatMetric(s.value)}`}</title>
+            </path>
+          ) : s.kind === 'tile' ? (
+            <g
+              key={s.code}
+              opacity={opacity(s.label)}
+              className={s.label !== null && onSelect ? 'cursor-pointer' : ''}
+              onClick={() => click(s.label)}
+            >
+              <title>{`${s.name}: ${s.value === null ? 'no data' : formatMetric(s.value)}`}</title>
+              <rect
+                x={s.x}
+                y={s.y}
+                width={s.size}
+                height={s.size}
+                rx={4}
+                fill={fill(s.value)}
+                stroke={s.label !== null && s.label === selected ? 'hsl(var(--warning))' : 'none'}
+                strokeWidth={2}
+              />
+              <text x={s.x + s.size / 2} y={s.y + s.size / 2 + 4} textAnchor="middle" className="pointer-events-none fill-foreground text-[11px]">
+                {s.code}
+              </text>
+            </g>
+          ) : (
+            <circle
+              key={`${s.name}-${s.cx}-${s.cy}`}
+              cx={s.cx}
+              cy={s.cy}
+              r={s.r}
+              fill={`hsl(var(--primary) / ${mapShade(s.value, view.min, view.max)})`}
+              stroke={s.label !== null && s.label === selected ? 'hsl(var(--warning))' : 'hsl(var(--card))'}
+              strokeWidth={s.label !== null && s.label === selected ? 2 : 1}
+              opacity={opacity(s.label)}
+              className={s.label !== null && onSelect ? 'cursor-pointer' : ''}
+              onClick={() => click(s.label)}
+            >
+              <title>{`${s.name}: ${formatMetric(s.value)}`}</title>
+            </circle>
+          ),
+        )}
+      </svg>
+      <div className="mt-1 flex items-center gap-2 text-[10px] text-muted-foreground">
+        <span className="tabular-nums">{formatMetric(view.min)}</span>
+        <span className="h-1.5 w-16 rounded-full" style={{ background: 'linear-gradient(to right, hsl(var(--primary) / 0.2), hsl(var(--primary) / 0.9))' }} />
+        <span className="tabular-nums">{formatMetric(view.max)}</span>
+        <span className="ml-auto truncate">
+          {GEO_LEVEL_LABELS[view.level]}
+          {view.unmatched.length > 0 && ` · ${view.unmatched.length} unmatched`}
+          {hidden > 0 && ` · ${hidden.toLocaleString()} more points hidden`}
+        </span>
+      </div>
+    </div>
+  );
+}
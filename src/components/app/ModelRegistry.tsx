@@ -0,0 +1,243 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Archive, Code2, Download, FileInput, Trash2, Upload, Wand2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useWorkspace, type Dataset, type ModelRecord } from '@/store/workspace';
+import { loadModelArtifact, saveModelArtifact } from '@/store/modelArtifacts';
+import { downloadFile } from '@/lib/dataExporter';
+import {
+  ALGORITHMS, parseArtifact, primaryScore, scoringCode, serializeArtifact,
+  type ModelArtifact, type ScoringLanguage,
+} from '@/lib/ml';
+import ApplyModelDialog from './ApplyModelDialog';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const fmt = (v: number | undefined) =>
+  v === undefined ? '—' : Math.abs(v) >= 1000 ? Math.round(v).toLocaleString() : v.toFixed(3);
+
+function scoreLabel(m: ModelRecord): string {
+  return m.task === 'classification'
+    ? `acc ${((m.metrics.accuracy ?? 0) * 100).toFixed(1)}%`
+    : `R² ${fmt(m.metrics.r2)}`;
+}
+
+function secondaryLabel(m: ModelRecord): string {
+  return m.task === 'classification' ? `F1 ${fmt(m.metrics.f1)}` : `RMSE ${fmt(m.metrics.rmse)}`;
+}
+
+function cvLabel(m: ModelRecord): string {
+  if (!m.cv) return 'hold-out';
+  const name = m.cv.strategy === 'kfold' ? `${m.cv.folds}-fold` : `${m.cv.folds} time splits`;
+  return `${name}: ${fmt(primaryScore(m.task, m.cv.mean))} ± ${fmt(primaryScore(m.task, m.cv.std))}`;
+}
+
+const fileBase = (name: string) => name.replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '').toLowerCase() || 'model';
+
+type Props = { dataset: Dataset };
+
+/**
+ * Every model trained on this dataset, persisted with the workspace so
+ * comparisons survive a reload. The best score per target is flagged.
+ */
+export default function ModelRegistry({ dataset }: Props) {
+  const { addModel, removeModel } = useWorkspace();
+  const { models } = dataset;
+  const [applying, setApplying] = useState<ModelRecord | null>(null);
+
+  const withArtifact = async (m: ModelRecord, onLoaded: (artifact: ModelArtifact) => void) => {
+    let artifact: ModelArtifact | null;
+    try {
+      artifact = await loadModelArtifact(m.id);
+    } catch (err) {
+      toast.error(`Could not read ${m.name} from browser storage: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    if (!artifact) {
+      toast.error(`${m.name} is no longer in browser storage; retrain or import it again`);
+      return;
+    }
+    onLoaded(artifact);
+  };
+
+  // The registry entry goes right away; only deleting the stored artifact can fail
+  const remove = (m: ModelRecord) =>
+    removeModel(dataset.id, m.id).catch((err) =>
+      toast.error(`Could not free the storage used by ${m.name}: ${err instanceof Error ? err.message : String(err)}`),
+    );
+
+  const downloadArtifact = (m: ModelRecord) =>
+    withArtifact(m, (artifact) =>
+      downloadFile(serializeArtifact(m.name, artifact), `${fileBase(m.name)}.model.json`, 'application/json'),
+    );
+
+  const exportCode = (m: ModelRecord, language: ScoringLanguage) =>
+    withArtifact(m, (artifact) =>
+      downloadFile(
+        scoringCode(artifact, m.name, language),
+        `${fileBase(m.name)}${language === 'typescript' ? '.ts' : '.py'}`,
+        'text/plain;charset=utf-8',
+      ),
+    );
+
+  const importArtifact = async (file: File) => {
+    try {
+      const { name, artifact } = parseArtifact(await file.text());
+      const id = crypto.randomUUID();
+      await saveModelArtifact(id, artifact).catch(() =>
+        toast.warning(`${name} could not be saved to browser storage and will be lost on reload.`),
+      );
+      addModel(dataset.id, {
+        id,
+        name: `${name} (imported)`,
+        task: artifact.task,
+        algorithm: artifact.algorithm,
+        target: artifact.target,
+        features: artifact.features,
+        params: artifact.params,
+        metrics: artifact.metrics,
+        importance: [],
+        trainSize: 0,
+        testSize: 0,
+        createdAt: new Date().toISOString(),
+      });
+      toast.success(`Imported ${name}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not import model');
+    }
+  };
+
+  // Prefer cross-validated scores when ranking, they are less noisy than one split
+  const rankScore = (m: ModelRecord) => primaryScore(m.task, m.cv?.mean ?? m.metrics);
+  const best = new Map<string, string>();
+  for (const m of models) {
+    const key = `${m.task}:${m.target}`;
+    const current = models.find((x) => x.id === best.get(key));
+    if (!current || rankScore(m) > rankScore(current)) best.set(key, m.id);
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-sm">
+            <Archive className="h-4 w-4" /> Model registry
+          </CardTitle>
+          <p className="text-[11px] text-muted-foreground">
+            Every trained model is kept here for {dataset.name}, newest first
+          </p>
+        </div>
+        <Button size="sm" variant="outline" className="relative gap-1.5" asChild>
+          <label>
+            <Upload className="h-3.5 w-3.5" /> Import model
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="absolute inset-0 cursor-pointer opacity-0"
+              onChange={(e) => {
+                if (e.target.files?.[0]) void importArtifact(e.target.files[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {models.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No models registered yet. Train one to start comparing.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Hold-out</TableHead>
+                <TableHead>Validation</TableHead>
+                <TableHead>Parameters</TableHead>
+                <TableHead>Trained</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {models.map((m) => (
+                <TableRow key={m.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{m.name}</span>
+                      {best.get(`${m.task}:${m.target}`) === m.id && models.length > 1 && (
+                        <Badge className="text-[10px]">best</Badge>
+                      )}
+                    </div>
+                    <div className="text-[10px] text-muted-foreground">{ALGORITHMS[m.algorithm]?.label ?? m.algorithm}</div>
+                  </TableCell>
+                  <TableCell className="text-xs">{m.target}</TableCell>
+                  <TableCell className="text-xs tabular-nums">
+                    {scoreLabel(m)}
+                    <div className="text-[10px] text-muted-foreground">{secondaryLabel(m)}</div>
+                  </TableCell>
+                  <TableCell className="text-xs tabular-nums">
+                    {cvLabel(m)}
+                    {m.search && (
+                      <div className="text-[10px] text-muted-foreground">{m.search.strategy} search · {m.search.trials} trials</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-[180px] font-mono text-[10px]">
+                    {Object.entries(m.params).map(([k, v]) => `${k}=${v}`).join(' ') || '—'}
+                  </TableCell>
+                  <TableCell className="text-[11px] text-muted-foreground">
+                    {formatDistanceToNow(new Date(m.createdAt), { addSuffix: true })}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 px-2"
+                      onClick={() => setApplying(m)}
+                      title="Score a dataset"
+                      aria-label={`Apply ${m.name} to a dataset`}
+                    >
+                      <Wand2 className="h-3 w-3" />
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button size="sm" variant="ghost" className="h-7 px-2" aria-label={`Export ${m.name}`}>
+                          <Download className="h-3 w-3" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => downloadArtifact(m)}>
+                          <FileInput className="mr-2 h-3.5 w-3.5" /> Model file (JSON)
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => exportCode(m, 'typescript')}>
+                          <Code2 className="mr-2 h-3.5 w-3.5" /> Scoring function (TypeScript)
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => exportCode(m, 'python')}>
+                          <Code2 className="mr-2 h-3.5 w-3.5" /> Scoring function (Python)
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 px-2 text-destructive"
+                      onClick={() => void remove(m)}
+                      aria-label={`Delete ${m.name}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      <ApplyModelDialog model={applying} datasetId={dataset.id} onClose={() => setApplying(null)} />
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+import { useMemo, useState } from 'react';
+import { Copy, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { downloadFile } from '@/lib/dataExporter';
+import { CODE_TARGETS, generateCode, type CodeRecipe, type CodeTarget } from '@/lib/codegen';
+
+interface PipelineCodeDialogProps {
+  recipe: CodeRecipe | null;
+  onClose: () => void;
+}
+
+/** A pipeline or cleaning recipe as pandas, SQL and PySpark scripts to copy or download. */
+export function PipelineCodeDialog({ recipe, onClose }: PipelineCodeDialogProps) {
+  const [target, setTarget] = useState<CodeTarget>('pandas');
+  const code = useMemo(() => (recipe ? generateCode(recipe) : null), [recipe]);
+  if (!recipe || !code) return null;
+
+  const { label, extension } = CODE_TARGETS.find((t) => t.key === target)!;
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(code[target]);
+      toast.success(`Copied ${label} code`);
+    } catch (err) {
+      toast.error(`Could not copy: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+  const download = () => {
+    const suffix = target === 'pyspark' ? '_spark' : '';
+    downloadFile(code[target], `${recipe.table}${suffix}.${extension}`, 'text/plain;charset=utf-8');
+  };
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{recipe.title}</DialogTitle>
+          <DialogDescription className="text-xs">
+            {recipe.steps.length === 0
+              ? 'There are no steps yet, so the code only reads and writes the table.'
+              : `${recipe.steps.length} ${recipe.steps.length === 1 ? 'step' : 'steps'} over ${recipe.table}, producing ${recipe.output.length} columns.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={target} onValueChange={(v) => setTarget(v as CodeTarget)}>
+          <div className="flex items-center justify-between gap-2">
+            <TabsList className="h-8">
+              {CODE_TARGETS.map((t) => (
+                <TabsTrigger key={t.key} value={t.key} className="h-6 px-3 text-xs">{t.label}</TabsTrigger>
+              ))}
+            </TabsList>
+            <div className="flex gap-1.5">
+              <Button variant="outline" size="sm" className="h-8 gap-1.5" onClick={() => void copy()}>
+                <Copy className="h-3.5 w-3.5" /> Copy
+              </Button>
+              <Button variant="outline" size="sm" className="h-8 gap-1.5" onClick={download}>
+                <Download className="h-3.5 w-3.5" /> Download
+              </Button>
+            </div>
+          </div>
+          {CODE_TARGETS.map((t) => (
+            <TabsContent key={t.key} value={t.key}>
+              <pre className="max-h-[60vh] overflow-auto rounded-md border bg-muted/40 p-3 font-mono text-[11px] leading-relaxed">
+                {code[t.key]}
+              </pre>
+            </TabsContent>
+          ))}
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,28 +1,68 @@
 import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
 import { GripVertical, X, Pencil } from 'lucide-react';
 import { PipelineStep } from '@/store/workspace';
+import { describeStep, type StepRunInfo } from '@/lib/pipeline';
 
 interface Props {
   step: PipelineStep;
   index: number;
+  info?: StepRunInfo;
+  selected?: boolean;
+  onSelect?: () => void;
+  onEdit: () => void;
   onRemove: () => void;
 }
 
-export function PipelineStepCard({ step, index, onRemove }: Props) {
+export function PipelineStepCard({ step, index, info, selected, onSelect, onEdit, onRemove }: Props) {
   return (
-    <div className="group flex items-center gap-2 rounded-lg border bg-card p-2 text-xs transition-colors hover:border-primary/40">
+    <div
+      onClick={onSelect}
+      className={cn(
+        'group flex cursor-pointer items-center gap-2 rounded-lg border bg-card p-2 text-xs transition-colors hover:border-primary/40',
+        selected && 'border-primary bg-primary/5',
+      )}
+    >
       <GripVertical className="h-3.5 w-3.5 text-muted-foreground/50" />
       <div className="flex h-5 w-5 items-center justify-center rounded-full bg-primary/10 text-[10px] font-semibold text-primary">
         {index + 1}
       </div>
       <div className="min-w-0 flex-1">
         <div className="truncate font-medium">{step.label}</div>
-        <div className="truncate text-[10px] text-muted-foreground">{step.type}</div>
+        <div className="truncate text-[10px] text-muted-foreground" title={describeStep(step.type, step.params)}>
+          {describeStep(step.type, step.params)}
+        </div>
+        {info?.error ? (
+          <div className="truncate text-[10px] text-destructive" title={info.error}>
+            {info.error}
+          </div>
+        ) : info ? (
+          <div className="truncate text-[10px] text-muted-foreground" title={info.warnings.join('\n')}>
+            → {info.rowsOut.toLocaleString()} rows · {info.columnsOut} cols
+            {info.warnings.length > 0 && ` · ${info.warnings.length} warning${info.warnings.length === 1 ? '' : 's'}`}
+          </div>
+        ) : null}
       </div>
-      <Button variant="ghost" size="icon" className="h-6 w-6 opacity-0 group-hover:opacity-100">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 opacity-0 group-hover:opacity-100"
+        onClick={(e) => {
+          e.stopPropagation();
+          onEdit();
+        }}
+      >
         <Pencil className="h-3 w-3" />
       </Button>
-      <Button variant="ghost" size="icon" className="h-6 w-6 opacity-0 group-hover:opacity-100" onClick={onRemove}>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 opacity-0 group-hover:opacity-100"
+        onClick={(e) => {
+          e.stopPropagation();
+          onRemove();
+        }}
+      >
         <X className="h-3 w-3" />
       </Button>
     </div>
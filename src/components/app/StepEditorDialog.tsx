@@ -0,0 +1,570 @@
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import { Plus, Trash2, AlertCircle } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from '@/components/ui/select';
+import {
+  AGGREGATE_FNS,
+  FILTER_OPS,
+  EXPRESSION_FUNCTIONS,
+  describeStep,
+  validateStepParams,
+  type StepParamsMap,
+  type AggregateFn,
+  type FilterOp,
+  type ColumnType,
+} from '@/lib/pipeline';
+
+type Params = Record<string, unknown>;
+
+export interface StepDraft {
+  type: string;
+  label: string;
+  params: Params;
+}
+
+interface StepEditorDialogProps {
+  open: boolean;
+  step: StepDraft | null;
+  columns: string[];
+  datasets: { id: string; name: string; columns: string[] }[];
+  onSave: (params: Params) => void;
+  onCancel: () => void;
+}
+
+const COLUMN_TYPES: ColumnType[] = ['numeric', 'categorical', 'date', 'boolean', 'text'];
+
+// ─── Field primitives ────────────────────────────────────────────────────────
+
+function Field({ label, hint, children }: { label: string; hint?: string; children: ReactNode }) {
+  return (
+    <div className="space-y-1.5">
+      <Label className="text-xs">{label}</Label>
+      {children}
+      {hint && <p className="text-[11px] text-muted-foreground">{hint}</p>}
+    </div>
+  );
+}
+
+function Choice<T extends string>({
+  value,
+  options,
+  onChange,
+  placeholder,
+  className = 'h-8 text-xs',
+}: {
+  value: T | undefined;
+  options: { value: T; label: string }[];
+  onChange: (v: T) => void;
+  placeholder?: string;
+  className?: string;
+}) {
+  return (
+    <Select value={value ?? ''} onValueChange={(v) => onChange(v as T)}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder={placeholder ?? 'Select…'} />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((o) => (
+          <SelectItem key={o.value} value={o.value} className="text-xs">
+            {o.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+const asOptions = <T extends string>(values: T[]) => values.map((v) => ({ value: v, label: v }));
+
+function ColumnPicker({
+  columns,
+  value,
+  onChange,
+  emptyHint,
+}: {
+  columns: string[];
+  value: string[] | undefined;
+  onChange: (v: string[]) => void;
+  emptyHint?: string;
+}) {
+  const selected = new Set(value ?? []);
+  const toggle = (c: string) => {
+    const next = new Set(selected);
+    if (next.has(c)) next.delete(c);
+    else next.add(c);
+    onChange(columns.filter((col) => next.has(col)));
+  };
+  return (
+    <div className="space-y-1">
+      <div className="grid max-h-36 grid-cols-2 gap-1 overflow-auto rounded-md border p-2">
+        {columns.map((c) => (
+          <label key={c} className="flex cursor-pointer items-center gap-2 truncate text-xs">
+            <Checkbox checked={selected.has(c)} onCheckedChange={() => toggle(c)} />
+            <span className="truncate">{c}</span>
+          </label>
+        ))}
+      </div>
+      {emptyHint && selected.size === 0 && <p className="text-[11px] text-muted-foreground">{emptyHint}</p>}
+    </div>
+  );
+}
+
+function RowList<T>({
+  items,
+  onChange,
+  blank,
+  render,
+  addLabel,
+}: {
+  items: T[];
+  onChange: (items: T[]) => void;
+  blank: () => T;
+  render: (item: T, update: (patch: Partial<T>) => void) => ReactNode;
+  addLabel: string;
+}) {
+  return (
+    <div className="space-y-2">
+      {items.map((item, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <div className="flex flex-1 items-center gap-2">
+            {render(item, (patch) => onChange(items.map((it, j) => (j === i ? { ...it, ...patch } : it))))}
+          </div>
+          <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => onChange(items.filter((_, j) => j !== i))}>
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" className="h-7 gap-1 text-xs" onClick={() => onChange([...items, blank()])}>
+        <Plus className="h-3 w-3" /> {addLabel}
+      </Button>
+    </div>
+  );
+}
+
+const parseNumberList = (s: string) =>
+  s.split(',').map((x) => x.trim()).filter(Boolean).map(Number).filter((n) => !isNaN(n));
+
+const parseTextList = (s: string) => s.split(',').map((x) => x.trim()).filter(Boolean);
+
+// Keep numeric-looking filter values as numbers so they round-trip cleanly
+const coerceScalar = (s: string): string | number => (s.trim() !== '' && !isNaN(Number(s)) ? Number(s) : s);
+
+// ─── Per-type forms ──────────────────────────────────────────────────────────
+
+interface FormProps {
+  params: Params;
+  set: (patch: Params) => void;
+  columns: string[];
+  datasets: StepEditorDialogProps['datasets'];
+}
+
+function StepForm({ type, params, set, columns, datasets }: FormProps & { type: string }) {
+  switch (type) {
+    case 'trim': {
+      const p = params as StepParamsMap['trim'];
+      return (
+        <>
+          <Field label="Columns">
+            <ColumnPicker columns={columns} value={p.columns} onChange={(columns) => set({ columns })} emptyHint="None selected — all columns are trimmed." />
+          </Field>
+          <label className="flex items-center gap-2 text-xs">
+            <Switch checked={p.collapseSpaces ?? true} onCheckedChange={(collapseSpaces) => set({ collapseSpaces })} />
+            Collapse repeated inner spaces
+          </label>
+        </>
+      );
+    }
+    case 'fill_missing': {
+      const p = params as StepParamsMap['fill_missing'];
+      return (
+        <>
+          <Field label="Strategy">
+            <Choice
+              value={p.strategy ?? 'auto'}
+              onChange={(strategy) => set({ strategy })}
+              options={[
+                { value: 'auto', label: 'Auto (median for numbers, "Unknown" for text)' },
+                { value: 'median', label: 'Median' },
+                { value: 'mean', label: 'Mean' },
+                { value: 'mode', label: 'Most frequent value' },
+                { value: 'unknown', label: '"Unknown"' },
+                { value: 'constant', label: 'Constant value' },
+                { value: 'forward_fill', label: 'Forward fill' },
+                { value: 'drop', label: 'Drop rows with gaps' },
+              ]}
+            />
+          </Field>
+          {p.strategy === 'constant' && (
+            <Field label="Fill value">
+              <Input className="h-8 text-xs" value={String(p.value ?? '')} onChange={(e) => set({ value: coerceScalar(e.target.value) })} />
+            </Field>
+          )}
+          <Field label="Columns">
+            <ColumnPicker columns={columns} value={p.columns} onChange={(columns) => set({ columns })} emptyHint="None selected — every column with missing values." />
+          </Field>
+        </>
+      );
+    }
+    case 'remove_duplicates': {
+      const p = params as StepParamsMap['remove_duplicates'];
+      return (
+        <>
+          <Field label="Compare on columns">
+            <ColumnPicker columns={columns} value={p.columns} onChange={(columns) => set({ columns })} emptyHint="None selected — rows must match on every column." />
+          </Field>
+          <Field label="Keep">
+            <Choice value={p.keep ?? 'first'} onChange={(keep) => set({ keep })} options={[{ value: 'first', label: 'First occurrence' }, { value: 'last', label: 'Last occurrence' }]} />
+          </Field>
+        </>
+      );
+    }
+    case 'fix_types': {
+      const types = (params as StepParamsMap['fix_types']).types ?? {};
+      return (
+        <Field label="Target types" hint="Columns left on Auto are converted to their detected type.">
+          <div className="max-h-64 space-y-1 overflow-auto rounded-md border p-2">
+            {columns.map((c) => (
+              <div key={c} className="flex items-center gap-2">
+                <span className="flex-1 truncate text-xs">{c}</span>
+                <Choice<string>
+                  className="h-7 w-32 text-xs"
+                  value={types[c] ?? 'auto'}
+                  options={[{ value: 'auto', label: 'Auto' }, ...asOptions(COLUMN_TYPES)]}
+                  onChange={(t) => {
+                    const next = { ...types };
+                    if (t === 'auto') delete next[c];
+                    else next[c] = t as ColumnType;
+                    set({ types: next });
+                  }}
+                />
+              </div>
+            ))}
+          </div>
+        </Field>
+      );
+    }
+    case 'standardize_text': {
+      const p = params as StepParamsMap['standardize_text'];
+      return (
+        <>
+          <Field label="Case">
+            <Choice value={p.case ?? 'title'} onChange={(c) => set({ case: c })} options={[{ value: 'title', label: 'Title Case' }, { value: 'lower', label: 'lower case' }, { value: 'upper', label: 'UPPER CASE' }]} />
+          </Field>
+          <Field label="Columns">
+            <ColumnPicker columns={columns} value={p.columns} onChange={(columns) => set({ columns })} emptyHint="None selected — all text and categorical columns." />
+          </Field>
+        </>
+      );
+    }
+    case 'filter': {
+      const p = params as StepParamsMap['filter'];
+      return (
+        <>
+          <Field label="Keep rows matching">
+            <Choice value={p.combine ?? 'and'} onChange={(combine) => set({ combine })} options={[{ value: 'and', label: 'All conditions (AND)' }, { value: 'or', label: 'Any condition (OR)' }]} />
+          </Field>
+          <RowList
+            items={p.predicates ?? []}
+            onChange={(predicates) => set({ predicates })}
+            blank={() => ({ column: columns[0] ?? '', op: 'eq' as FilterOp, value: '' })}
+            addLabel="Add condition"
+            render={(pr, update) => {
+              const needsValue = FILTER_OPS.find((o) => o.op === pr.op)?.needsValue;
+              return (
+                <>
+                  <Choice className="h-8 w-36 text-xs" value={pr.column} options={asOptions(columns)} onChange={(column) => update({ column })} />
+                  <Choice className="h-8 w-32 text-xs" value={pr.op} options={FILTER_OPS.map((o) => ({ value: o.op, label: o.label }))} onChange={(op) => update({ op })} />
+                  {needsValue && (
+                    <Input
+                      className="h-8 flex-1 text-xs"
+                      placeholder={pr.op === 'in' ? 'a, b, c' : 'value'}
+                      value={Array.isArray(pr.value) ? pr.value.join(', ') : String(pr.value ?? '')}
+                      onChange={(e) =>
+                        update({ value: pr.op === 'in' ? parseTextList(e.target.value).map(coerceScalar) : coerceScalar(e.target.value) })
+                      }
+                    />
+                  )}
+                </>
+              );
+            }}
+          />
+        </>
+      );
+    }
+    case 'sort': {
+      const p = params as StepParamsMap['sort'];
+      return (
+        <RowList
+          items={p.keys ?? []}
+          onChange={(keys) => set({ keys })}
+          blank={() => ({ column: columns[0] ?? '', direction: 'asc' as const })}
+          addLabel="Add sort key"
+          render={(k, update) => (
+            <>
+              <Choice className="h-8 flex-1 text-xs" value={k.column} options={asOptions(columns)} onChange={(column) => update({ column })} />
+              <Choice className="h-8 w-32 text-xs" value={k.direction} options={[{ value: 'asc', label: 'Ascending' }, { value: 'desc', label: 'Descending' }]} onChange={(direction) => update({ direction })} />
+            </>
+          )}
+        />
+      );
+    }
+    case 'group_by': {
+      const p = params as StepParamsMap['group_by'];
+      return (
+        <>
+          <Field label="Group by">
+            <ColumnPicker columns={columns} value={p.by} onChange={(by) => set({ by })} />
+          </Field>
+          <Field label="Aggregations">
+            <RowList<StepParamsMap['group_by']['aggregations'][number]>
+              items={p.aggregations ?? []}
+              onChange={(aggregations) => set({ aggregations })}
+              blank={() => ({ column: columns[0] ?? '', fn: 'sum' as AggregateFn })}
+              addLabel="Add aggregation"
+              render={(a, update) => (
+                <>
+                  <Choice className="h-8 w-28 text-xs" value={a.fn} options={asOptions(AGGREGATE_FNS)} onChange={(fn) => update({ fn })} />
+                  <Choice className="h-8 flex-1 text-xs" value={a.column} options={asOptions(columns)} onChange={(column) => update({ column })} />
+                  <Input className="h-8 w-28 text-xs" placeholder="as…" value={a.as ?? ''} onChange={(e) => update({ as: e.target.value || undefined })} />
+                </>
+              )}
+            />
+          </Field>
+        </>
+      );
+    }
+    case 'pivot': {
+      const p = params as StepParamsMap['pivot'];
+      const unpivot = p.mode === 'unpivot';
+      return (
+        <>
+          <Field label="Mode">
+            <Choice value={p.mode ?? 'pivot'} onChange={(mode) => set({ mode })} options={[{ value: 'pivot', label: 'Pivot (long → wide)' }, { value: 'unpivot', label: 'Unpivot (wide → long)' }]} />
+          </Field>
+          <Field label={unpivot ? 'ID columns (kept)' : 'Row index'}>
+            <ColumnPicker columns={columns} value={p.index} onChange={(index) => set({ index })} />
+          </Field>
+          {unpivot ? (
+            <>
+              <Field label="Columns to unpivot">
+                <ColumnPicker columns={columns.filter((c) => !p.index?.includes(c))} value={p.valueColumns} onChange={(valueColumns) => set({ valueColumns })} emptyHint="None selected — every non-ID column." />
+              </Field>
+              <div className="grid grid-cols-2 gap-2">
+                <Field label="Variable column name">
+                  <Input className="h-8 text-xs" placeholder="variable" value={p.variableName ?? ''} onChange={(e) => set({ variableName: e.target.value || undefined })} />
+                </Field>
+                <Field label="Value column name">
+                  <Input className="h-8 text-xs" placeholder="value" value={p.valueName ?? ''} onChange={(e) => set({ valueName: e.target.value || undefined })} />
+                </Field>
+              </div>
+            </>
+          ) : (
+            <div className="grid grid-cols-3 gap-2">
+              <Field label="Spread column">
+                <Choice value={p.column} options={asOptions(columns)} onChange={(column) => set({ column })} />
+              </Field>
+              <Field label="Value column">
+                <Choice value={p.value} options={asOptions(columns)} onChange={(value) => set({ value })} />
+              </Field>
+              <Field label="Aggregate">
+                <Choice value={p.fn ?? 'sum'} options={asOptions(AGGREGATE_FNS)} onChange={(fn) => set({ fn })} />
+              </Field>
+            </div>
+          )}
+        </>
+      );
+    }
+    case 'join': {
+      const p = params as StepParamsMap['join'];
+      const other = datasets.find((d) => d.id === p.datasetId);
+      return (
+        <>
+          <Field label="Dataset">
+            <Choice value={p.datasetId} options={datasets.map((d) => ({ value: d.id, label: d.name }))} onChange={(datasetId) => set({ datasetId, rightKey: undefined })} />
+          </Field>
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="Left key (this dataset)">
+              <Choice value={p.leftKey} options={asOptions(columns)} onChange={(leftKey) => set({ leftKey })} />
+            </Field>
+            <Field label="Right key">
+              <Choice value={p.rightKey} options={asOptions(other?.columns ?? [])} onChange={(rightKey) => set({ rightKey })} placeholder={other ? 'Select…' : 'Pick a dataset first'} />
+            </Field>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="Join type">
+              <Choice value={p.how ?? 'inner'} options={asOptions(['inner', 'left', 'right', 'outer'])} onChange={(how) => set({ how })} />
+            </Field>
+            <Field label="Suffix for clashing columns">
+              <Input className="h-8 text-xs" value={p.suffix ?? ''} placeholder="_right" onChange={(e) => set({ suffix: e.target.value })} />
+            </Field>
+          </div>
+        </>
+      );
+    }
+    case 'calc': {
+      const p = params as StepParamsMap['calc'];
+      return (
+        <>
+          <Field label="New column name">
+            <Input className="h-8 text-xs" value={p.name ?? ''} onChange={(e) => set({ name: e.target.value })} />
+          </Field>
+          <Field
+            label="Expression"
+            hint={`Use column names directly or [Column With Spaces]. Operators: + - * / % ^ == != < > && ||. Functions: ${EXPRESSION_FUNCTIONS.join(', ')}.`}
+          >
+            <Textarea className="min-h-20 font-mono text-xs" placeholder="round(revenue / quantity, 2)" value={p.expression ?? ''} onChange={(e) => set({ expression: e.target.value })} />
+          </Field>
+        </>
+      );
+    }
+    case 'rename': {
+      const p = params as StepParamsMap['rename'];
+      return (
+        <Field label="Renames" hint="With no renames, every header is converted to snake_case.">
+          <RowList
+            items={p.renames ?? []}
+            onChange={(renames) => set({ renames })}
+            blank={() => ({ from: columns[0] ?? '', to: '' })}
+            addLabel="Add rename"
+            render={(r, update) => (
+              <>
+                <Choice className="h-8 flex-1 text-xs" value={r.from} options={asOptions(columns)} onChange={(from) => update({ from })} />
+                <span className="text-xs text-muted-foreground">→</span>
+                <Input className="h-8 flex-1 text-xs" value={r.to} onChange={(e) => update({ to: e.target.value })} />
+              </>
+            )}
+          />
+        </Field>
+      );
+    }
+    case 'normalize':
+    case 'standardize': {
+      const p = params as StepParamsMap['normalize'];
+      return (
+        <Field label="Columns">
+          <ColumnPicker columns={columns} value={p.columns} onChange={(columns) => set({ columns })} emptyHint="None selected — all numeric columns." />
+        </Field>
+      );
+    }
+    case 'one_hot': {
+      const p = params as StepParamsMap['one_hot'];
+      return (
+        <>
+          <Field label="Columns">
+            <ColumnPicker columns={columns} value={p.columns} onChange={(columns) => set({ columns })} emptyHint="None selected — categorical columns under the category limit." />
+          </Field>
+          <div className="grid grid-cols-2 items-end gap-2">
+            <Field label="Max categories per column">
+              <Input type="number" className="h-8 text-xs" value={p.maxCategories ?? 20} onChange={(e) => set({ maxCategories: Number(e.target.value) })} />
+            </Field>
+            <label className="flex items-center gap-2 pb-2 text-xs">
+              <Switch checked={p.dropOriginal ?? true} onCheckedChange={(dropOriginal) => set({ dropOriginal })} />
+              Drop original column
+            </label>
+          </div>
+        </>
+      );
+    }
+    case 'bucketize': {
+      const p = params as StepParamsMap['bucketize'];
+      return (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="Column">
+              <Choice value={p.column} options={asOptions(columns)} onChange={(column) => set({ column })} />
+            </Field>
+            <Field label="Output column">
+              <Input className="h-8 text-xs" placeholder={`${p.column ?? 'column'}_bucket`} value={p.as ?? ''} onChange={(e) => set({ as: e.target.value || undefined })} />
+            </Field>
+          </div>
+          <EdgesField params={p} set={set} />
+        </>
+      );
+    }
+    default:
+      return <p className="text-xs text-muted-foreground">This step has no parameters.</p>;
+  }
+}
+
+// Edge/label inputs are typed as text and parsed on blur so partial input like "10," isn't lost
+function EdgesField({ params, set }: { params: StepParamsMap['bucketize']; set: (patch: Params) => void }) {
+  const [edges, setEdges] = useState((params.edges ?? []).join(', '));
+  const [labels, setLabels] = useState((params.labels ?? []).join(', '));
+  return (
+    <>
+      <Field label="Bucket edges" hint="Comma-separated, e.g. 0, 100, 500. Leave empty for quartiles.">
+        <Input className="h-8 text-xs" value={edges} onChange={(e) => setEdges(e.target.value)} onBlur={() => set({ edges: parseNumberList(edges) })} />
+      </Field>
+      <Field label="Labels (optional)" hint="One more label than edges, e.g. low, mid, high, top.">
+        <Input className="h-8 text-xs" value={labels} onChange={(e) => setLabels(e.target.value)} onBlur={() => set({ labels: parseTextList(labels) })} />
+      </Field>
+    </>
+  );
+}
+
+// ─── Dialog ──────────────────────────────────────────────────────────────────
+
+export function StepEditorDialog({ open, step, columns, datasets, onSave, onCancel }: StepEditorDialogProps) {
+  const [draft, setDraft] = useState<Params>({});
+
+  useEffect(() => {
+    if (open && step) setDraft(step.params);
+  }, [open, step]);
+
+  const joinColumns = step?.type === 'join'
+    ? datasets.find((d) => d.id === (draft as StepParamsMap['join']).datasetId)?.columns
+    : undefined;
+
+  const validation = useMemo(
+    () => (step ? validateStepParams(step.type, draft, { columns, joinColumns }) : { valid: false, errors: [] }),
+    [step, draft, columns, joinColumns],
+  );
+
+  if (!step) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{step.label}</DialogTitle>
+          <DialogDescription className="font-mono text-xs">{describeStep(step.type, draft)}</DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] space-y-4 overflow-y-auto py-2 pr-1">
+          <StepForm
+            type={step.type}
+            params={draft}
+            set={(patch) => setDraft((d) => ({ ...d, ...patch }))}
+            columns={columns}
+            datasets={datasets}
+          />
+        </div>
+
+        {validation.errors.length > 0 && (
+          <div className="space-y-1 rounded-md border border-destructive/40 bg-destructive/5 p-2">
+            {validation.errors.map((e) => (
+              <div key={e} className="flex items-start gap-1.5 text-xs text-destructive">
+                <AlertCircle className="mt-0.5 h-3 w-3 shrink-0" /> {e}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSave(draft)} disabled={!validation.valid}>
+            Save step
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
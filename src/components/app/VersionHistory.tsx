@@ -0,0 +1,372 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { GitBranch, GitCommitHorizontal, History, RotateCcw, Trash2, GitCompare } from 'lucide-react';
+import { toast } from 'sonner';
+import { useWorkspace, type Dataset, type DatasetVersion } from '@/store/workspace';
+import { useDatasetRows, useLoadedDatasetRows } from '@/store/datasetRows';
+import {
+  branchFromVersion,
+  commitVersion,
+  deleteVersionRows,
+  diffVersions,
+  loadVersionRows,
+  nextVersionName,
+  restoreVersionRows,
+  type VersionDiff,
+} from '@/lib/versioning';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { DataGrid } from './DataGrid';
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+// ─── Commit dialog ───────────────────────────────────────────────────────────
+
+function CommitDialog({
+  open,
+  defaultName,
+  busy,
+  onCommit,
+  onCancel,
+}: {
+  open: boolean;
+  defaultName: string;
+  busy: boolean;
+  onCommit: (details: { name: string; note: string }) => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(defaultName);
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setName(defaultName);
+      setNote('');
+    }
+  }, [open, defaultName]);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Commit version</DialogTitle>
+          <DialogDescription className="text-xs">
+            Runs the current pipeline and saves its output rows, schema and quality score as a named snapshot.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 py-2">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} className="h-8 text-xs" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Note</Label>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="What changed, and why?"
+              className="min-h-[72px] text-xs"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onCommit({ name, note })} disabled={busy}>
+            {busy ? 'Committing…' : 'Commit'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ─── Diff panel ──────────────────────────────────────────────────────────────
+
+function VersionDiffPanel({ dataset, before, after }: { dataset: Dataset; before: DatasetVersion; after: DatasetVersion }) {
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDiff(null);
+    setError(null);
+    Promise.all([loadVersionRows(dataset.id, before.id), loadVersionRows(dataset.id, after.id)])
+      .then(([beforeRows, afterRows]) => {
+        if (!cancelled) setDiff(diffVersions(before, beforeRows, after, afterRows));
+      })
+      .catch((err) => !cancelled && setError(errorMessage(err)));
+    return () => {
+      cancelled = true;
+    };
+  }, [dataset.id, before, after]);
+
+  if (error) return <div className="rounded-lg border border-destructive/40 p-3 text-xs text-destructive">{error}</div>;
+  if (!diff) return <div className="p-3 text-xs text-muted-foreground">Comparing {before.name} and {after.name}…</div>;
+
+  const stat = (label: string, value: string, tone = '') => (
+    <div className="rounded-md border bg-card p-2">
+      <div className="text-[10px] uppercase tracking-wider text-muted-foreground">{label}</div>
+      <div className={`mt-0.5 text-sm font-semibold tabular-nums ${tone}`}>{value}</div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-muted/30 p-3">
+      <div className="flex items-center justify-between">
+        <div className="text-xs font-semibold">
+          {before.name} → {after.name}
+        </div>
+        <Button asChild size="sm" variant="ghost" className="h-6 gap-1 px-2 text-[11px]">
+          <Link to={`/datasets/${dataset.id}/compare?left=v:${dataset.id}:${before.id}&right=v:${dataset.id}:${after.id}`}>
+            <GitCompare className="h-3 w-3" /> Row-level compare
+          </Link>
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+        {stat('Rows', `${diff.rowsBefore.toLocaleString()} → ${diff.rowsAfter.toLocaleString()}`)}
+        {stat('Only in ' + before.name, diff.rowsOnlyBefore.toLocaleString(), diff.rowsOnlyBefore > 0 ? 'text-destructive' : '')}
+        {stat('Only in ' + after.name, diff.rowsOnlyAfter.toLocaleString(), diff.rowsOnlyAfter > 0 ? 'text-success' : '')}
+        {stat(
+          'Quality',
+          `${diff.qualityDelta >= 0 ? '+' : ''}${diff.qualityDelta}`,
+          diff.qualityDelta > 0 ? 'text-success' : diff.qualityDelta < 0 ? 'text-destructive' : '',
+        )}
+      </div>
+
+      {diff.schemaChanges.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Schema</div>
+          <div className="flex flex-wrap gap-1.5">
+            {diff.schemaChanges.map((c) => (
+              <Badge
+                key={`${c.change}:${c.column}`}
+                variant="outline"
+                className={`text-[10px] ${c.change === 'added' ? 'text-success' : c.change === 'removed' ? 'text-destructive' : 'text-warning'}`}
+              >
+                <span className="font-mono">{c.column}</span>&nbsp;· {c.detail}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(diff.stepsAdded.length > 0 || diff.stepsRemoved.length > 0) && (
+        <div className="space-y-0.5 text-xs">
+          <div className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Pipeline</div>
+          {diff.stepsAdded.map((s, i) => (
+            <div key={`a${i}`} className="text-success">+ {s}</div>
+          ))}
+          {diff.stepsRemoved.map((s, i) => (
+            <div key={`r${i}`} className="text-destructive">− {s}</div>
+          ))}
+        </div>
+      )}
+
+      {diff.sampleRemoved.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Sample rows only in {before.name}</div>
+          <div className="h-48">
+            <DataGrid rows={diff.sampleRemoved} pageSize={5} />
+          </div>
+        </div>
+      )}
+      {diff.sampleAdded.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Sample rows only in {after.name}</div>
+          <div className="h-48">
+            <DataGrid rows={diff.sampleAdded} pageSize={5} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── History card ────────────────────────────────────────────────────────────
+
+export function VersionHistory({ dataset }: { dataset: Dataset }) {
+  const nav = useNavigate();
+  const { addVersion, removeVersion, restoreVersion, addDataset, setActiveDataset } = useWorkspace();
+  const { rows } = useDatasetRows(dataset.id);
+  const loadedRows = useLoadedDatasetRows();
+  const [committing, setCommitting] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [restoreTarget, setRestoreTarget] = useState<DatasetVersion | null>(null);
+  const [compare, setCompare] = useState<string[]>([]);
+
+  // Diff oldest → newest regardless of click order
+  const compared = useMemo(() => {
+    if (compare.length !== 2) return null;
+    const picked = dataset.versions.filter((v) => compare.includes(v.id));
+    if (picked.length !== 2) return null;
+    const [a, b] = picked.sort((x, y) => x.createdAt.localeCompare(y.createdAt));
+    return { before: a, after: b };
+  }, [compare, dataset.versions]);
+
+  const toggleCompare = (versionId: string) =>
+    setCompare((current) =>
+      current.includes(versionId) ? current.filter((id) => id !== versionId) : [...current.slice(-1), versionId],
+    );
+
+  const commit = async (details: { name: string; note: string }) => {
+    if (!rows) return;
+    setBusy(true);
+    try {
+      const version = await commitVersion(dataset, rows, details, { resolveDataset: (id) => loadedRows.get(id) });
+      addVersion(dataset.id, version);
+      toast.success(`Committed ${version.name} · ${version.rowCount.toLocaleString()} rows`);
+      setCommitting(false);
+    } catch (err) {
+      toast.error(`Could not commit version: ${errorMessage(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const restore = async (version: DatasetVersion) => {
+    setRestoreTarget(null);
+    try {
+      restoreVersion(dataset.id, version.id, await restoreVersionRows(dataset.id, version));
+      toast.success(`Restored ${version.name}`);
+    } catch (err) {
+      toast.error(`Could not restore ${version.name}: ${errorMessage(err)}`);
+    }
+  };
+
+  const branch = async (version: DatasetVersion) => {
+    try {
+      const ds = await branchFromVersion(dataset, version, `${dataset.name} (${version.name})`);
+      addDataset(ds);
+      setActiveDataset(ds.id);
+      toast.success(`Branched ${version.name} into a new dataset`);
+      nav(`/datasets/${ds.id}/profile`);
+    } catch (err) {
+      toast.error(`Could not branch ${version.name}: ${errorMessage(err)}`);
+    }
+  };
+
+  const remove = (version: DatasetVersion) => {
+    removeVersion(dataset.id, version.id);
+    setCompare((current) => current.filter((id) => id !== version.id));
+    deleteVersionRows(dataset.id, version.id).catch((err) =>
+      toast.error(`Could not free the storage used by ${version.name}: ${errorMessage(err)}`),
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <History className="h-4 w-4" /> Versions
+        </CardTitle>
+        <Button size="sm" variant="outline" className="gap-1.5" disabled={!rows} onClick={() => setCommitting(true)}>
+          <GitCommitHorizontal className="h-3.5 w-3.5" /> Commit version
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {dataset.versions.length === 0 ? (
+          <div className="rounded-lg border border-dashed p-4 text-center text-xs text-muted-foreground">
+            No versions yet. Commit one to snapshot the current pipeline output.
+          </div>
+        ) : (
+          <>
+            <p className="text-[11px] text-muted-foreground">
+              <GitCompare className="mr-1 inline h-3 w-3" />
+              Tick two versions to compare them.
+            </p>
+            <div className="divide-y rounded-lg border">
+              {dataset.versions.map((v) => (
+                <div key={v.id} className="flex items-start gap-3 p-3">
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={compare.includes(v.id)}
+                    onCheckedChange={() => toggleCompare(v.id)}
+                    aria-label={`Compare ${v.name}`}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-semibold">{v.name}</span>
+                      <Badge variant="outline" className="text-[10px]">
+                        quality {v.quality}
+                      </Badge>
+                      <span className="text-[11px] text-muted-foreground">
+                        {formatDistanceToNow(new Date(v.createdAt), { addSuffix: true })}
+                      </span>
+                    </div>
+                    <div className="mt-0.5 text-[11px] text-muted-foreground tabular-nums">
+                      {v.rowCount.toLocaleString()} rows × {v.colCount} columns · {v.pipeline.length} step
+                      {v.pipeline.length === 1 ? '' : 's'}
+                    </div>
+                    {v.note && <p className="mt-1 text-xs">{v.note}</p>}
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button size="sm" variant="ghost" className="h-7 gap-1 px-2 text-xs" onClick={() => setRestoreTarget(v)}>
+                      <RotateCcw className="h-3 w-3" /> Restore
+                    </Button>
+                    <Button size="sm" variant="ghost" className="h-7 gap-1 px-2 text-xs" onClick={() => branch(v)}>
+                      <GitBranch className="h-3 w-3" /> Branch
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 px-2 text-destructive"
+                      onClick={() => remove(v)}
+                      aria-label={`Delete ${v.name}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {compared && <VersionDiffPanel dataset={dataset} before={compared.before} after={compared.after} />}
+      </CardContent>
+
+      <CommitDialog
+        open={committing}
+        defaultName={nextVersionName(dataset)}
+        busy={busy}
+        onCommit={commit}
+        onCancel={() => setCommitting(false)}
+      />
+
+      <AlertDialog open={restoreTarget != null} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore {restoreTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The working data is replaced with this version's rows and the current pipeline is cleared. Commit the
+              current state first if you want to keep it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => restoreTarget && restore(restoreTarget)}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
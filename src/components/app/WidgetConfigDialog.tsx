@@ -0,0 +1,236 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { Plus, X } from 'lucide-react';
+import type { ColumnSchema } from '@/store/workspace';
+import { AGGREGATE_FNS, FILTER_OPS, type FilterPredicate } from '@/lib/pipeline';
+import { FREQUENCIES, type Frequency } from '@/lib/ml';
+import {
+  AGGREGATION_LABELS, WIDGET_TYPES, defaultTitle, guessCoordinateColumns, isSeriesWidget, type Widget, type WidgetConfig,
+} from '@/lib/dashboard';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+
+const NONE = '__none__';
+const COORDINATES = '__coordinates__';
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div>
+      <div className="mb-1 text-[10px] uppercase text-muted-foreground">{label}</div>
+      {children}
+    </div>
+  );
+}
+
+type Props = {
+  widget: Widget | null;
+  schema: ColumnSchema[];
+  onSave: (widget: Widget) => void;
+  onCancel: () => void;
+};
+
+export default function WidgetConfigDialog({ widget, schema, onSave, onCancel }: Props) {
+  const [draft, setDraft] = useState<WidgetConfig | null>(null);
+  // Tracks whether the title still follows the measure and dimension
+  const [autoTitle, setAutoTitle] = useState(true);
+
+  useEffect(() => {
+    if (!widget) return;
+    setDraft(widget.config);
+    setAutoTitle(widget.config.title === defaultTitle(widget.config));
+  }, [widget]);
+
+  if (!widget || !draft) return null;
+
+  const set = (patch: Partial<WidgetConfig>) =>
+    setDraft((d) => {
+      const next = { ...d, ...patch };
+      return autoTitle && !('title' in patch) ? { ...next, title: defaultTitle(next) } : next;
+    });
+  const setFilter = (i: number, patch: Partial<FilterPredicate>) =>
+    set({ filters: draft.filters.map((f, j) => (j === i ? { ...f, ...patch } : f)) });
+
+  const series = isSeriesWidget(widget.type);
+  const isDate = (column: string | null) => schema.find((c) => c.name === column)?.type === 'date';
+  const label = WIDGET_TYPES.find((t) => t.type === widget.type)?.label ?? 'Widget';
+  // Maps can also plot rows by position when the schema has latitude and longitude columns
+  const coordinates = widget.type === 'map'
+    ? guessCoordinateColumns(schema.filter((c) => c.type === 'numeric').map((c) => c.name))
+    : null;
+
+  return (
+    <Dialog open={!!widget} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Configure {label}</DialogTitle>
+          <DialogDescription className="text-xs">
+            {series ? 'Aggregates the measure per dimension value or date period' : 'Aggregates the measure over every matching row'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] space-y-3 overflow-y-auto py-1 pr-1 text-xs">
+          <Field label="Title">
+            <Input
+              className="h-8 text-xs"
+              value={draft.title}
+              onChange={(e) => {
+                setAutoTitle(false);
+                set({ title: e.target.value });
+              }}
+            />
+          </Field>
+          <div className="grid grid-cols-2 gap-3">
+            <Field label="Measure">
+              <Select
+                value={draft.measure ?? NONE}
+                onValueChange={(v) => set(v === NONE ? { measure: null, aggregation: 'count' } : { measure: v })}
+              >
+                <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Row count</SelectItem>
+                  {schema.map((c) => <SelectItem key={c.name} value={c.name}>{c.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </Field>
+            <Field label="Aggregation">
+              <Select value={draft.aggregation} onValueChange={(v) => set({ aggregation: v as WidgetConfig['aggregation'] })} disabled={!draft.measure}>
+                <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {AGGREGATE_FNS.map((fn) => <SelectItem key={fn} value={fn}>{AGGREGATION_LABELS[fn]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </Field>
+            <Field label={widget.type === 'map' ? 'Location' : series ? 'Dimension' : 'Compare by date'}>
+              <Select
+                value={draft.coordinates ? COORDINATES : draft.dimension ?? NONE}
+                onValueChange={(v) => {
+                  if (v === COORDINATES) return set({ coordinates, dimension: null, dateGrain: null });
+                  const dimension = v === NONE ? null : v;
+                  set({ dimension, coordinates: null, dateGrain: isDate(dimension) ? draft.dateGrain ?? 'month' : null });
+                }}
+              >
+                <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {coordinates && (
+                    <SelectItem value={COORDINATES}>
+                      Points at {coordinates.latitude}, {coordinates.longitude}
+                    </SelectItem>
+                  )}
+                  {schema
+                    .filter((c) => series || c.type === 'date')
+                    .map((c) => <SelectItem key={c.name} value={c.name}>{c.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </Field>
+            {isDate(draft.dimension) ? (
+              <Field label="Date grain">
+                <Select value={draft.dateGrain ?? 'month'} onValueChange={(v) => set({ dateGrain: v as Frequency })}>
+                  <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FREQUENCIES) as Frequency[]).map((f) => (
+                      <SelectItem key={f} value={f}>{FREQUENCIES[f].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </Field>
+            ) : series && !draft.coordinates ? (
+              <Field label="Show top">
+                <Input
+                  type="number"
+                  min={1}
+                  className="h-8 text-xs"
+                  value={draft.limit}
+                  onChange={(e) => set({ limit: Math.max(1, Number(e.target.value) || 1) })}
+                />
+              </Field>
+            ) : widget.type === 'gauge' ? (
+              <Field label="Target">
+                <Input
+                  type="number"
+                  className="h-8 text-xs"
+                  placeholder="Automatic"
+                  value={draft.target ?? ''}
+                  onChange={(e) => set({ target: e.target.value === '' ? undefined : Number(e.target.value) })}
+                />
+              </Field>
+            ) : null}
+          </div>
+
+          <Field label="Filters">
+            <div className="space-y-2">
+              {draft.filters.map((f, i) => {
+                const needsValue = FILTER_OPS.find((o) => o.op === f.op)?.needsValue;
+                return (
+                  <div key={i} className="grid grid-cols-[1fr_110px_1fr_auto] gap-1.5">
+                    <Select value={f.column} onValueChange={(v) => setFilter(i, { column: v })}>
+                      <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {schema.map((c) => <SelectItem key={c.name} value={c.name}>{c.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <Select value={f.op} onValueChange={(v) => setFilter(i, { op: v as FilterPredicate['op'] })}>
+                      <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {FILTER_OPS.map((o) => <SelectItem key={o.op} value={o.op}>{o.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      className="h-8 text-xs"
+                      disabled={!needsValue}
+                      placeholder={f.op === 'in' ? 'a, b, c' : 'value'}
+                      value={needsValue ? String(f.value ?? '') : ''}
+                      onChange={(e) => setFilter(i, { value: e.target.value })}
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-8 px-2"
+                      onClick={() => set({ filters: draft.filters.filter((_, j) => j !== i) })}
+                      aria-label="Remove filter"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                );
+              })}
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 gap-1 text-xs"
+                disabled={schema.length === 0}
+                onClick={() => set({ filters: [...draft.filters, { column: schema[0].name, op: 'eq', value: '' }] })}
+              >
+                <Plus className="h-3 w-3" /> Add filter
+              </Button>
+            </div>
+          </Field>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() =>
+              onSave({
+                ...widget,
+                config: {
+                  ...draft,
+                  title: draft.title.trim() || defaultTitle(draft),
+                  // Conditions left without a value would hide every row
+                  filters: draft.filters.filter((f) => !FILTER_OPS.find((o) => o.op === f.op)?.needsValue || String(f.value ?? '').trim() !== ''),
+                },
+              })
+            }
+          >
+            Apply
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
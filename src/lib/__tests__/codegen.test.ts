@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { cleaningRecipe, generateCode, pipelineRecipe, tableName } from '@/lib/codegen';
+import { runPipeline } from '@/lib/pipeline';
+import { cleanDataAdvanced } from '@/lib/dataCleaner';
+import { step } from './helpers';
+
+const rows = [
+  { id: 1, region: ' North ', product: 'widget', revenue: '1,200', qty: 4 },
+  { id: 2, region: 'South', product: 'GADGET', revenue: 300, qty: null },
+  { id: 3, region: 'North', product: 'widget', revenue: 800, qty: 2 },
+  { id: 3, region: 'North', product: 'widget', revenue: 800, qty: 2 },
+];
+
+const pipeline = [
+  step('trim'),
+  step('remove_duplicates'),
+  step('fix_types'),
+  step('fill_missing', { columns: ['qty'], strategy: 'median' }),
+  step('filter', { predicates: [{ column: 'revenue', op: 'gt', value: 100 }] }),
+  step('one_hot', { columns: ['region'] }),
+  step('bucketize', { column: 'revenue', edges: [500, 1000] }),
+  step('group_by', { by: ['product'], aggregations: [{ column: 'revenue', fn: 'sum', as: 'total' }] }),
+];
+
+describe('Code generation', () => {
+  it('names tables after the dataset', () => {
+    expect(tableName('Q4 Sales.csv')).toBe('q4_sales');
+    expect(tableName('2024 orders')).toBe('t_2024_orders');
+  });
+
+  it('resolves step defaults from the data', () => {
+    const recipe = pipelineRecipe('Q4 Sales.csv', rows, pipeline);
+    const ops = recipe.steps.flatMap(s => s.ops);
+    expect(ops.find(op => op.kind === 'trim')).toMatchObject({ columns: ['region', 'product', 'revenue'] });
+    expect(ops.filter(op => op.kind === 'cast').map(op => op.kind === 'cast' && op.to)).toEqual(
+      ['numeric', 'categorical', 'categorical', 'numeric', 'numeric'],
+    );
+    expect(ops.find(op => op.kind === 'one_hot')).toMatchObject({ column: 'region', categories: [{ name: 'region_north', value: 'North' }, { name: 'region_south', value: 'South' }] });
+    expect(ops.find(op => op.kind === 'bucketize')).toMatchObject({ edges: [500, 1000], labels: ['< 500', '500–1000', '≥ 1000'] });
+    // The recipe ends with the columns the executor produces
+    expect(recipe.output).toEqual(Object.keys(runPipeline(rows, pipeline).rows[0]));
+  });
+
+  it('renders pandas, SQL and PySpark scripts', () => {
+    const code = generateCode(pipelineRecipe('Q4 Sales.csv', rows, pipeline));
+    expect(code.pandas).toContain('df = pd.read_csv("q4_sales.csv")');
+    expect(code.pandas).toContain('df = df.drop_duplicates(keep="first")');
+    expect(code.pandas).toContain('"total": ("revenue", "sum")');
+    expect(code.sql).toContain('FROM q4_sales');
+    expect(code.sql).toContain('PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY "qty")');
+    expect(code.sql).toMatch(/GROUP BY "product"\n\)\nSELECT "product", "total"\nFROM step_\d+\nORDER BY _row;\n$/);
+    expect(code.pyspark).toContain('spark.read.csv("q4_sales.csv", header=True, inferSchema=True)');
+    expect(code.pyspark).toContain('F.round(F.sum(F.col("revenue")), 4).alias("total")');
+  });
+
+  it('stops at a step that fails and says so', () => {
+    const recipe = pipelineRecipe('sales', rows, [step('trim'), step('sort', { keys: [{ column: 'missing', direction: 'asc' }] }), step('trim')]);
+    expect(recipe.steps).toHaveLength(1);
+    expect(recipe.notes[0]).toMatch(/Step "sort" fails.*1 later step is left out/);
+    expect(generateCode(recipe).sql).toContain(recipe.notes[0]);
+  });
+
+  it('replays a cleaning config in the cleaner\'s order', () => {
+    const config = { createDateParts: false };
+    const recipe = cleaningRecipe('customers.csv', rows, config);
+    const labels = recipe.steps.map(s => s.label);
+    expect(labels.indexOf('Trim whitespace')).toBeLessThan(labels.indexOf('Remove duplicate rows'));
+    expect(recipe.table).toBe('customers');
+    expect(recipe.output).toEqual(Object.keys(cleanDataAdvanced(rows, config).data[0]));
+    expect(recipe.notes).toContain('Date columns, category mappings and outlier bounds were profiled from the data this recipe was built on.');
+    expect(generateCode(recipe).pandas).toContain('df.to_csv("customers_clean.csv", index=False)');
+  });
+});
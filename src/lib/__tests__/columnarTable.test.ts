@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { ColumnarTable } from '@/lib/columnar';
+import { calculateNumericStats, profileColumn, profileTableColumn } from '@/lib/dataAnalyzer';
+import { generateReconciliationAudit } from '@/lib/biReadiness';
+
+const rows = [
+  { id: 1, region: 'North', active: true, amount: '1,200', joined: new Date('2024-01-02') },
+  { id: 2, region: 'South', active: false, amount: '80', joined: null },
+  { id: null, region: 'North', active: null, amount: 'nan', joined: '2024-02-01' },
+  { id: 4, region: null, active: true, amount: '', joined: undefined },
+];
+
+describe('Columnar Table', () => {
+  it('picks a storage kind per column and round-trips rows', () => {
+    const table = ColumnarTable.fromRows(rows);
+
+    expect(table.columnNames).toEqual(['id', 'region', 'active', 'amount', 'joined']);
+    expect(table.column('id').kind).toBe('numeric');
+    expect(table.column('active').kind).toBe('boolean');
+    expect(table.column('joined').kind).toBe('mixed');
+
+    const region = table.column('region');
+    expect(region.kind === 'categorical' && region.dictionary).toEqual(['North', 'South']);
+    expect(table.nullCount('region')).toBe(1);
+    expect(table.uniqueCount('region')).toBe(2);
+
+    // undefined comes back as null; everything else is unchanged
+    expect(table.toRows()).toEqual(rows.map(r => ({ ...r, joined: r.joined ?? null })));
+  });
+
+  it('evaluates dictionary predicates and numeric views per distinct value', () => {
+    const table = ColumnarTable.fromRows(rows);
+    const seen: unknown[] = [];
+    const blanks = table.countWhere('amount', v => {
+      seen.push(v);
+      return v === '' || v === 'nan';
+    });
+
+    expect(blanks).toBe(2);
+    expect(seen).toHaveLength(4);
+    expect(Array.from(table.numbers('amount', { parse: s => Number(s.replace(/,/g, '')) }))).toEqual([1200, 80, NaN, 0]);
+    expect(Array.from(table.numbers('id', { nullValue: 0 }))).toEqual([1, 2, 0, 4]);
+  });
+
+  it('selects rows without touching the source', () => {
+    const table = ColumnarTable.fromRows(rows);
+    const picked = table.take([3, 0]);
+
+    expect(picked.rowCount).toBe(2);
+    expect(picked.row(0)).toMatchObject({ id: 4, region: null, active: true });
+    expect(picked.row(1).region).toBe('North');
+    expect(table.get(3, 'id')).toBe(4);
+  });
+
+  it('keeps numeric stats and reconciliation results on typed arrays', () => {
+    const stats = calculateNumericStats(Float64Array.from([5, 1, 3, 2, 4, 100]));
+    expect(stats.min).toBe(1);
+    expect(stats.max).toBe(100);
+    expect(stats.median).toBe(3.5);
+    expect(stats.outliers).toEqual([{ value: 100, index: 5 }]);
+
+    // Missing cells are skipped, not averaged in as 0
+    const before = [10, 20, null, 40, 50, 60, ''].map(v => ({ value: v }));
+    const after = [10, 20, 30, 40, 50, 60, '60'].map(v => ({ value: v }));
+    const audit = generateReconciliationAudit(before, after, ['value'], ['value']);
+    expect(audit.distributionShifts[0]).toMatchObject({ meanBefore: 36, meanAfter: 38.57 });
+  });
+
+  it('profiles typed columns exactly like their row values', () => {
+    const data = Array.from({ length: 300 }, (_, i) => ({
+      id: i % 50 === 0 ? null : i,
+      revenue: i % 7 === 0 ? '' : `${(i * 37) % 1000},${i % 10}00`,
+      region: [' North', 'north', 'South', 'CafÃ©', null][i % 5],
+      active: i % 3 === 0 ? null : i % 2 === 0,
+      signup: i % 11 === 0 ? 'not a date' : `2024-0${(i % 9) + 1}-1${i % 10}`,
+      score: i === 5 ? -400 : (i % 13) - 2 + (i % 4) * 0.5,
+    }));
+    const table = ColumnarTable.fromRows(data);
+    const dateColumns = ['signup'];
+
+    for (const col of table.columnNames) {
+      expect(profileTableColumn(table, col, dateColumns)).toEqual(profileColumn(col, data.map(r => r[col]), dateColumns));
+    }
+  });
+});
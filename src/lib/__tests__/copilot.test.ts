@@ -0,0 +1,195 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  answerQuery, askCopilot, copilotMessages, describePlan, parseAiResponse, planQuery, previewProposals, queryWidget, runQuery,
+  type CopilotContext,
+} from '@/lib/copilot';
+import { buildColumnSchema } from '@/lib/datasetProfiler';
+import type { PipelineStep } from '@/store/workspace';
+import { DEFAULT_LLM_SETTINGS, getEndpoint, resolveLLMConfig, type ChatMessage } from '@/lib/processor';
+
+const context: CopilotContext = {
+  dataset: 'Q4 Sales',
+  rowCount: 3,
+  schema: [
+    { name: 'region', type: 'categorical', nullPct: 0, unique: 2, samples: ['North', 'South'] },
+    { name: 'revenue', type: 'numeric', nullPct: 33, unique: 2, samples: [100, 250], min: 100, max: 250, mean: 175 },
+  ],
+  sample: [{ region: 'North', revenue: 100 }, { region: 'South', revenue: null }],
+  steps: ['Trim whitespace'],
+};
+
+let server: Server | null = null;
+afterEach(async () => {
+  if (server) await new Promise((resolve) => server!.close(resolve));
+  server = null;
+});
+
+// OpenAI-compatible stand-in that records the request and replies with `reply`
+async function standIn(reply: string): Promise<{ url: string; requests: { path: string; auth?: string; body: { model: string; messages: ChatMessage[] } }[] }> {
+  const requests: { path: string; auth?: string; body: { model: string; messages: ChatMessage[] } }[] = [];
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push({ path: req.url ?? '', auth: req.headers.authorization, body: JSON.parse(body) });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: reply } }] }));
+    });
+  });
+  await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+  return { url: `http://127.0.0.1:${(server!.address() as AddressInfo).port}/v1`, requests };
+}
+
+describe('copilot', () => {
+  it('asks a local OpenAI-compatible server with the dataset context', async () => {
+    const reply = JSON.stringify({
+      explanation: 'Fill missing **revenue** with the median.',
+      code: { pandas: "df['revenue'] = df['revenue'].fillna(df['revenue'].median())", sql: '', python: '', pyspark: '' },
+      chart: null,
+    });
+    const { url, requests } = await standIn(`\`\`\`json\n${reply}\n\`\`\``);
+    const config = resolveLLMConfig({ ...DEFAULT_LLM_SETTINGS, provider: 'local', baseUrl: `${url}/`, model: 'stand-in' });
+    expect(config).not.toBeNull();
+
+    const response = await askCopilot('Fill missing revenue', context, config!, [
+      { id: 'm', role: 'assistant', text: 'Hi!', createdAt: '' },
+    ]);
+    expect(response.explanation).toBe('Fill missing **revenue** with the median.');
+    expect(response.code.pandas).toContain('fillna');
+    expect(response.chartSpec).toBeUndefined();
+
+    expect(requests).toHaveLength(1);
+    const [request] = requests;
+    expect(request.path).toBe('/v1/chat/completions');
+    expect(request.auth).toBeUndefined();
+    expect(request.body.model).toBe('stand-in');
+    expect(request.body.messages.map((m) => m.role)).toEqual(['system', 'assistant', 'user']);
+    expect(request.body.messages[0].content).toContain('"name":"revenue"');
+    expect(request.body.messages[0].content).toContain('Trim whitespace');
+  });
+
+  it('keeps replies that are not JSON as a plain explanation', () => {
+    expect(parseAiResponse('Revenue peaks in December.')).toEqual({
+      explanation: 'Revenue peaks in December.',
+      code: { python: '', pandas: '', sql: '', pyspark: '' },
+    });
+    const wrapped = parseAiResponse('Sure! {"explanation":"Done","code":{"sql":"SELECT 1"},"chart":{"type":"bar","x":"region"}}');
+    expect(wrapped.code).toEqual({ python: '', pandas: '', sql: 'SELECT 1', pyspark: '' });
+    expect(wrapped.chartSpec).toEqual({ type: 'bar', x: 'region' });
+  });
+
+  it('resolves providers from settings', () => {
+    expect(resolveLLMConfig({ ...DEFAULT_LLM_SETTINGS, provider: 'groq' })).toBeNull();
+    expect(resolveLLMConfig({ ...DEFAULT_LLM_SETTINGS, provider: 'groq', apiKey: ' k ' })).toEqual({
+      provider: 'groq', apiKey: 'k', baseUrl: undefined, model: undefined,
+    });
+    expect(getEndpoint({ provider: 'local', apiKey: '', baseUrl: 'http://localhost:1234/v1/chat/completions' }))
+      .toBe('http://localhost:1234/v1/chat/completions');
+    expect(copilotMessages('Hi', null)[0].content).toContain('No dataset is open.');
+  });
+
+  it('reads proposed steps and previews them after the pipeline', () => {
+    const response = parseAiResponse(JSON.stringify({
+      explanation: 'Drop rows without revenue, then title-case regions.',
+      code: {},
+      steps: [
+        { type: 'filter', params: { predicates: [{ column: 'revenue', op: 'not_null' }] } },
+        { type: 'standardize_text', label: 'Title-case regions', params: { columns: ['area'], case: 'title' } },
+        { type: 'join', params: { datasetId: 'x' } },
+        { type: 'explode' },
+      ],
+    }));
+    expect(response.steps?.map((s) => s.type)).toEqual(['filter', 'standardize_text']);
+    expect(response.steps?.[0].label).toBe('revenue is not empty');
+
+    const rows = [
+      { region: 'north', revenue: 100 },
+      { region: 'south', revenue: null },
+      { region: 'north', revenue: 250 },
+    ];
+    const pipeline: PipelineStep[] = [
+      { id: 'r', type: 'rename', label: 'Rename region', params: { renames: [{ from: 'region', to: 'area' }] }, createdAt: '' },
+    ];
+    const [filter] = response.steps!;
+    const dropped = previewProposals(rows, pipeline, [filter]);
+    expect(dropped.errors).toEqual([]);
+    expect(dropped.rowsFrom).toBe('before');
+    expect(dropped.rows).toEqual([{ area: 'south', revenue: null }]);
+
+    const both = previewProposals(rows, pipeline, response.steps!);
+    expect(both.diff.rowsAfter).toBe(2);
+    expect(both.after.map((r) => r.area)).toEqual(['North', 'North']);
+    expect(both.steps.every((s) => s.id && s.createdAt)).toBe(true);
+
+    // The uploaded column name no longer exists after the rename
+    const stale = previewProposals(rows, pipeline, [{ type: 'trim', label: 'Trim region', params: { columns: ['region'] } }]);
+    expect(stale.errors).toEqual(['Trim region: Unknown column: region']);
+  });
+
+  it('plans questions by rule and runs them over the rows', () => {
+    const orders = Array.from({ length: 24 }, (_, i) => ({
+      order_date: `2024-${String((i % 12) + 1).padStart(2, '0')}-15`,
+      region: ['North', 'South', 'East'][i % 3],
+      status: i % 4 === 0 ? 'Returned' : 'Shipped',
+      revenue: 100 + i * 10,
+    }));
+    const schema = buildColumnSchema(orders);
+
+    const plan = planQuery('Average revenue by region in Q3', schema, orders);
+    expect(plan).toEqual({
+      filters: [],
+      period: { column: 'order_date', year: null, quarter: 3, month: null },
+      groupBy: [{ column: 'region', grain: null }],
+      measures: [{ column: 'revenue', fn: 'mean' }],
+      order: 'desc',
+      limit: null,
+    });
+    expect(describePlan(plan!)).toBe('Average revenue, by region, where order_date in Q3 (any year), largest first');
+    // July, August and September rows: i = 6, 7, 8 and 18, 19, 20
+    const result = runQuery(orders, plan!);
+    expect(result.matched).toBe(6);
+    expect(result.rows).toEqual([
+      { region: 'East', 'Average revenue': 240 },
+      { region: 'South', 'Average revenue': 230 },
+      { region: 'North', 'Average revenue': 220 },
+    ]);
+    expect(queryWidget(plan!, result)?.widget.type).toBe('bar');
+
+    const top = planQuery('top 2 regions by revenue for returned orders', schema, orders);
+    expect(top).toMatchObject({
+      filters: [{ column: 'status', op: 'eq', value: 'Returned' }],
+      groupBy: [{ column: 'region', grain: null }],
+      measures: [{ column: 'revenue', fn: 'sum' }],
+      order: 'desc',
+      limit: 2,
+    });
+    expect(runQuery(orders, top!).rows.map((r) => r.region)).toEqual(['East', 'South']);
+
+    const monthly = runQuery(orders, planQuery('how many orders with revenue over 300 per month', schema, orders)!);
+    expect(monthly.columns).toEqual(['order_date', 'Rows']);
+    expect(monthly.rows).toEqual([
+      { order_date: '2024-10', Rows: 1 }, { order_date: '2024-11', Rows: 1 }, { order_date: '2024-12', Rows: 1 },
+    ]);
+
+    expect(planQuery('Remove duplicate rows', schema, orders)).toBeNull();
+    expect(planQuery('hello there', schema, orders)).toBeNull();
+  });
+
+  it('runs query plans from replies and reports unknown columns', () => {
+    const response = parseAiResponse(JSON.stringify({
+      explanation: 'Total revenue per region.',
+      query: { measures: [{ column: 'revenue', fn: 'sum' }, { fn: 'average' }], groupBy: ['area'], order: 'desc', limit: 5 },
+    }));
+    expect(response.query?.source).toBe('llm');
+    expect(response.query?.plan).toEqual({
+      filters: [], period: null, groupBy: [{ column: 'area', grain: null }], measures: [{ column: 'revenue', fn: 'sum' }], order: 'desc', limit: 5,
+    });
+    const rows = [{ region: 'North', revenue: 100 }, { region: 'North', revenue: 50 }, { region: 'South', revenue: null }];
+    expect(answerQuery(response.query!, rows).error).toBe('Unknown column: area');
+    const total = answerQuery({ ...response.query!, plan: { ...response.query!.plan, groupBy: [] } }, rows);
+    expect(total.result?.rows).toEqual([{ 'Total revenue': 150 }]);
+    expect(queryWidget(total.plan, total.result!)?.data).toMatchObject({ kind: 'value', value: 150 });
+  });
+});
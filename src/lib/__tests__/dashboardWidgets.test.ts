@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_FILTERS, applyDashboardFilters, areaPaths, buildDashboardSnapshot, computeWidget, detectGeoColumns, detectGeoLevel, mapFrame,
+  mapView, periodChange, renderStandaloneHtml, suggestWidgets, updateLayout, type Widget,
+} from '@/lib/dashboard';
+import { US_STATES } from '@/lib/dashboard/geoData';
+import { seedDatasets } from '@/lib/mockData';
+
+const rows = [
+  { date: '2024-01-05', region: 'North', revenue: 100 },
+  { date: '2024-01-20', region: 'South', revenue: 50 },
+  { date: '2024-02-03', region: 'North', revenue: 200 },
+  { date: '2024-02-14', region: 'East', revenue: null },
+  { date: '2024-03-01', region: 'North', revenue: 300 },
+  { date: '2024-03-09', region: 'South', revenue: 150 },
+];
+
+const widget = (type: Widget['type'], config: Partial<Widget['config']>): Widget => ({
+  id: 'w',
+  type,
+  layout: { x: 0, y: 0, w: 3, h: 2 },
+  config: { title: 't', measure: 'revenue', aggregation: 'sum', dimension: null, dateGrain: null, filters: [], limit: 10, ...config },
+});
+
+describe('dashboard widgets', () => {
+  it('reduces KPIs and compares the last two periods', () => {
+    const data = computeWidget(widget('kpi', { dimension: 'date', dateGrain: 'month' }), rows);
+    expect(data).toMatchObject({ kind: 'value', value: 800, latest: 450, previous: 200 });
+    expect(periodChange(data)).toBeCloseTo(125);
+    expect(computeWidget(widget('kpi', { measure: null, aggregation: 'count' }), rows)).toMatchObject({ value: 6 });
+  });
+
+  it('groups by category with filters and limits, and by date grain in order', () => {
+    const bar = computeWidget(widget('bar', {
+      dimension: 'region', limit: 2, filters: [{ column: 'date', op: 'gte', value: '2024-02-01' }],
+    }), rows);
+    expect(bar).toEqual({ kind: 'series', points: [{ label: 'North', value: 500 }, { label: 'South', value: 150 }], hidden: 1 });
+    const line = computeWidget(widget('line', { dimension: 'date', dateGrain: 'month' }), rows);
+    expect(line.kind === 'series' && line.points.map((p) => p.label)).toEqual(['2024-01', '2024-02', '2024-03']);
+  });
+
+  it('seeds sales dashboards from the suggested KPIs, filters and drill-downs', () => {
+    const sales = seedDatasets.find((d) => d.schema.some((c) => c.name === 'revenue'));
+    const widgets = suggestWidgets(sales.rows);
+    expect(widgets[0].config.title).toBe('Orders');
+    const kpiMeasures = widgets.filter((w) => w.type === 'kpi').map((w) => w.config.measure);
+    expect(kpiMeasures).toContain('revenue');
+    const line = widgets.find((w) => w.type === 'line');
+    expect(line?.config.dimension).toBe('date');
+    expect(widgets.find((w) => w.type === 'map')?.config.dimension).toBe('region');
+    for (const w of widgets) expect(() => computeWidget(w, sales.rows)).not.toThrow();
+  });
+
+  it('pushes overlapped widgets down and compacts the grid after a move', () => {
+    const at = (id: string, x: number, y: number, w: number, h: number): Widget => ({ ...widget('kpi', {}), id, layout: { x, y, w, h } });
+    const grid = [at('a', 0, 0, 6, 2), at('b', 6, 0, 6, 2), at('c', 0, 2, 12, 2)];
+    const moved = updateLayout(grid, 'c', { x: 0, y: 0, w: 12, h: 2 });
+    expect(moved.map((w) => [w.id, w.layout.y])).toEqual([['a', 2], ['b', 2], ['c', 0]]);
+    // Widths are clamped to the grid; displaced widgets settle in reading order
+    const widened = updateLayout(grid, 'a', { x: 10, y: 0, w: 20, h: 2 });
+    expect(widened.find((w) => w.id === 'a').layout).toEqual({ x: 0, y: 0, w: 12, h: 2 });
+    expect(widened.map((w) => w.layout.y)).toEqual([0, 4, 2]);
+    // Moving a widget out of the way lets the ones below float back up
+    const lowered = updateLayout(widened, 'a', { x: 0, y: 9, w: 12, h: 2 });
+    expect(lowered.map((w) => w.layout.y)).toEqual([4, 2, 0]);
+  });
+
+  it('applies the date range, filter bar and cross-filter from another widget', () => {
+    const filters = { dateColumn: 'date', from: '2024-02-01', to: '2024-03-05', predicates: [{ column: 'region', op: 'neq' as const, value: 'East' }] };
+    expect(applyDashboardFilters(rows, filters).map((r) => r.revenue)).toEqual([200, 300]);
+    const cross = { widgetId: 'trend', column: 'date', label: '2024-01', grain: 'month' as const };
+    expect(applyDashboardFilters(rows, { ...filters, from: null, to: null, predicates: [] }, cross, 'other')).toHaveLength(2);
+    expect(applyDashboardFilters(rows, { ...filters, from: null, to: null, predicates: [] }, cross, 'trend')).toHaveLength(6);
+  });
+
+  it('exports a standalone file with precomputed cross-filters and escaped labels', () => {
+    const tricky = [...rows, { date: '2024-03-20', region: '</script><b>', revenue: 10 }];
+    const byRegion = { ...widget('bar', { dimension: 'region' }), id: 'regions' };
+    const total = { ...widget('kpi', {}), id: 'total' };
+    const dashboard = { id: 'd', name: 'Sales <Q1>', widgets: [byRegion, total], filters: EMPTY_FILTERS, updatedAt: '' };
+    const snapshot = buildDashboardSnapshot(dashboard, tricky, 'sales');
+    expect(snapshot.base.total).toMatchObject({ value: 810 });
+    expect(snapshot.cross.regions.North.total).toMatchObject({ value: 600 });
+    expect(snapshot.cross.total).toBeUndefined();
+
+    const html = renderStandaloneHtml(snapshot);
+    expect(html).toContain('<title>Sales &lt;Q1&gt;</title>');
+    const scripts = [...html.matchAll(/<script[^>]*>([\s\S]*?)<\/script>/g)].map((m) => m[1]);
+    expect(scripts).toHaveLength(2);
+    expect(JSON.parse(scripts[0])).toEqual(snapshot);
+    expect(() => new Function(scripts[1])).not.toThrow();
+  });
+
+  it('recognizes states, countries, compass regions and coordinate columns', () => {
+    expect(detectGeoLevel(['CA', 'TX', 'New York', 'florida'])).toBe('us_state');
+    expect(detectGeoLevel(['Germany', 'FRA', "Cote d'Ivoire", 'Türkiye', 'Viet Nam'])).toBe('country');
+    expect(detectGeoLevel(['North', 'South', 'East', 'West', 'Unknown'])).toBe('compass');
+    expect(detectGeoLevel(['Widgets', 'Gadgets', 'Germany'])).toBeNull();
+    expect(new Set(US_STATES.features.map((f) => f.properties.id)).size).toBe(51);
+
+    const sites = [
+      { site: 'a', lat: 52.5, lng: 13.4, sales: 5 },
+      { site: 'b', lat: 48.9, lng: 2.35, sales: 3 },
+      { site: 'c', lat: 52.5, lng: 13.4, sales: 2 },
+    ];
+    expect(detectGeoColumns(sites)).toEqual({ areas: [], coordinates: { latitude: 'lat', longitude: 'lng' } });
+    const map = { ...widget('map', { measure: 'sales', coordinates: { latitude: 'lat', longitude: 'lng' } }), id: 'm' };
+    const data = computeWidget(map, sites);
+    expect(data).toEqual({ kind: 'points', points: [{ lat: 52.5, lon: 13.4, value: 7 }, { lat: 48.9, lon: 2.35, value: 3 }], hidden: 0 });
+    const view = mapView(data, mapFrame(data));
+    expect(view.shapes.every((s) => s.kind === 'point' && s.cx >= 0 && s.cx <= view.width && s.cy >= 0 && s.cy <= view.height)).toBe(true);
+  });
+
+  it('shades every known area and reports groups it cannot place', () => {
+    const sales = [
+      { state: 'CA', revenue: 10 }, { state: 'Texas', revenue: 4 }, { state: 'NY', revenue: 6 }, { state: 'Ohio', revenue: 2 }, { state: 'Atlantis', revenue: 1 },
+    ];
+    const data = computeWidget(widget('map', { dimension: 'state', limit: 2 }), sales);
+    // Known places ignore the limit so every matched area is shaded
+    expect(data.kind === 'series' && data.points).toHaveLength(5);
+    const view = mapView(data, mapFrame(data));
+    expect(view.level).toBe('us_state');
+    expect(view.shapes).toHaveLength(51);
+    expect(view.unmatched).toEqual(['Atlantis']);
+    expect(view.shapes.find((s) => s.kind === 'area' && s.code === 'TX')).toMatchObject({ label: 'Texas', value: 4 });
+    expect(view.shapes.find((s) => s.kind === 'area' && s.code === 'ME')).toMatchObject({ label: null, value: null });
+    expect(Object.keys(areaPaths(mapFrame(data)))).toHaveLength(51);
+  });
+
+  it('fills country outlines and falls back to bubbles for countries too small to draw', () => {
+    const sales = [{ country: 'Germany', revenue: 8 }, { country: 'France', revenue: 5 }, { country: 'Singapore', revenue: 3 }];
+    const data = computeWidget(widget('map', { dimension: 'country' }), sales);
+    const frame = mapFrame(data);
+    const view = mapView(data, frame);
+    expect(view.level).toBe('country');
+    expect(view.shapes.find((s) => s.kind === 'area' && s.code === 'DEU')).toMatchObject({ label: 'Germany', value: 8 });
+    expect(view.shapes.find((s) => s.kind === 'point')).toMatchObject({ label: 'Singapore', value: 3 });
+    // Unshaded neighbours are still drawn so the map reads as a map
+    expect(view.shapes.find((s) => s.kind === 'area' && s.code === 'POL')).toMatchObject({ label: null, value: null });
+    const paths = areaPaths(frame);
+    expect(paths.DEU).toMatch(/^M[\d.-]+ [\d.-]+L/);
+    expect(view.shapes.filter((s) => s.kind === 'area').every((s) => s.kind === 'area' && paths[s.code])).toBe(true);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// IndexedDB stand-in: one Map, with a switch to make every transaction fail
+const idb = vi.hoisted(() => ({ records: new Map<string, unknown>(), failing: false }));
+vi.mock('@/store/idb', () => ({
+  ROW_STORE: 'rows',
+  StorageQuotaError: class extends Error {},
+  transact: async (_store: string, _mode: string, run: (store: unknown) => { result: unknown }) => {
+    if (idb.failing) throw new Error('Browser storage is full.');
+    return run({
+      get: (id: string) => ({ result: idb.records.get(id) }),
+      put: (rows: unknown, id: string) => {
+        idb.records.set(id, rows);
+        return { result: id };
+      },
+      delete: (id: string) => ({ result: idb.records.delete(id) }),
+    }).result;
+  },
+}));
+
+import { deleteDatasetRows, getCachedRows, loadDatasetRows, saveDatasetRows } from '@/store/datasetRows';
+
+const rowsFor = (id: string) => [{ id }];
+
+describe('Dataset row storage', () => {
+  beforeEach(async () => {
+    idb.failing = false;
+    for (const id of ['a', 'b', 'c', 'd', 'e', 'pinned']) await deleteDatasetRows(id);
+  });
+
+  it('keeps only the most recently used datasets in memory', async () => {
+    for (const id of ['a', 'b', 'c', 'd']) await saveDatasetRows(id, rowsFor(id));
+    await loadDatasetRows('a');
+    await saveDatasetRows('e', rowsFor('e'));
+
+    expect(getCachedRows('b')).toBeUndefined();
+    expect(['a', 'c', 'd', 'e'].every((id) => getCachedRows(id))).toBe(true);
+    // Evicted rows come back from storage
+    expect(await loadDatasetRows('b')).toEqual(rowsFor('b'));
+  });
+
+  it('never evicts rows that could not be saved', async () => {
+    idb.failing = true;
+    await expect(saveDatasetRows('pinned', rowsFor('pinned'))).rejects.toThrow('Browser storage is full.');
+    idb.failing = false;
+    for (const id of ['a', 'b', 'c', 'd', 'e']) await saveDatasetRows(id, rowsFor(id));
+    expect(getCachedRows('pinned')).toEqual(rowsFor('pinned'));
+  });
+
+  it('rejects when stored rows cannot be deleted', async () => {
+    await saveDatasetRows('a', rowsFor('a'));
+    idb.failing = true;
+    await expect(deleteDatasetRows('a')).rejects.toThrow();
+    expect(getCachedRows('a')).toBeUndefined();
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { parseJsonText, detectFileFormat } from '@/lib/fileParser';
+import { assessDataset } from '@/lib/datasetProfiler';
+
+describe('File Parser', () => {
+  it('detects formats from extensions', () => {
+    expect(detectFileFormat('sales.CSV')).toBe('csv');
+    expect(detectFileFormat('export.tab')).toBe('tsv');
+    expect(detectFileFormat('book.xls')).toBe('xlsx');
+    expect(detectFileFormat('notes.docx')).toBeNull();
+  });
+
+  it('parses arrays, wrapped arrays and NDJSON', () => {
+    expect(parseJsonText('[{"a":1},{"a":2}]')).toEqual([{ a: 1 }, { a: 2 }]);
+    expect(parseJsonText('{"data":[{"a":1}],"meta":{"page":1}}')).toEqual([{ a: 1 }]);
+    expect(parseJsonText('{"a":1}\n{"a":2}\n')).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it('flattens nested objects into dotted columns', () => {
+    expect(parseJsonText('[{"id":1,"customer":{"name":"Ana","tags":["x"]}}]')).toEqual([
+      { id: 1, 'customer.name': 'Ana', 'customer.tags': '["x"]' },
+    ]);
+  });
+
+  it('rejects malformed JSON', () => {
+    expect(() => parseJsonText('{"a":')).toThrow();
+  });
+});
+
+describe('Dataset Assessment', () => {
+  const rows = [
+    { order_id: 'A1', region: 'North', revenue: 120 },
+    { order_id: 'A2', region: null, revenue: 80 },
+    { order_id: 'A3', region: 'South ', revenue: 95 },
+    { order_id: 'A3', region: 'South ', revenue: 95 },
+  ];
+
+  it('builds schema and quality issues from real rows', () => {
+    const { schema, issues, quality } = assessDataset(rows);
+    expect(schema.map(c => c.name)).toEqual(['order_id', 'region', 'revenue']);
+    expect(schema.find(c => c.name === 'region')?.nullPct).toBe(25);
+    expect(issues.find(i => i.type === 'missing')?.column).toBe('region');
+    expect(issues.find(i => i.type === 'duplicate')?.count).toBe(1);
+    expect(issues.some(i => i.id === 'ghost:region')).toBe(true);
+    expect(quality).toBeGreaterThan(0);
+    expect(quality).toBeLessThanOrEqual(100);
+  });
+});
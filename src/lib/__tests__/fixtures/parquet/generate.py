@@ -0,0 +1,45 @@
+"""
+Regenerates the pyarrow-written Parquet fixtures used by parquet.test.ts.
+
+    pip install pyarrow && python generate.py
+
+The rows follow simple formulas (mirrored in the test) so every decoded
+value can be checked. Small row groups and pages make each column chunk
+span several pages.
+"""
+
+import datetime
+import decimal
+
+import pyarrow as pa
+import pyarrow.parquet as pq
+
+ROWS = 600
+CITIES = ["Lisbon", "Oslo", "Nairobi", "Quito", "Osaka"]
+
+
+def build_table() -> pa.Table:
+    i = range(ROWS)
+    return pa.table({
+        "id": pa.array([n + 1 for n in i], pa.int64()),
+        "city": pa.array([None if n % 17 == 0 else CITIES[n % 5] for n in i], pa.string()),
+        "price": pa.array([n * 0.25 for n in i], pa.float64()),
+        "qty": pa.array([None if n % 7 == 0 else n - 300 for n in i], pa.int32()),
+        "active": pa.array([None if n % 3 == 0 else n % 2 == 0 for n in i], pa.bool_()),
+        "day": pa.array([datetime.date(2020, 1, 1) + datetime.timedelta(days=n) for n in i], pa.date32()),
+        "seen_at": pa.array([1_700_000_000_000_000 + n * 61_000_000 for n in i], pa.timestamp("us", tz="UTC")),
+        "amount": pa.array([decimal.Decimal(n * 123 - 50_000).scaleb(-2) for n in i], pa.decimal128(10, 2)),
+    })
+
+
+def main() -> None:
+    table = build_table()
+    common = dict(row_group_size=250, data_page_size=512, compression="snappy")
+    # Data page v1, every column dictionary-encoded where pyarrow chooses to
+    pq.write_table(table, "pyarrow_v1_snappy.parquet", data_page_version="1.0", **common)
+    # Data page v2, with only the string column dictionary-encoded so the rest are PLAIN
+    pq.write_table(table, "pyarrow_v2_snappy.parquet", data_page_version="2.0", use_dictionary=["city"], **common)
+
+
+if __name__ == "__main__":
+    main()
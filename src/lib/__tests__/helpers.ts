@@ -0,0 +1,19 @@
+/**
+ * Fixture factories shared by the test files.
+ */
+
+import type { ColumnSchema, PipelineStep } from '@/store/workspace';
+
+/** A column schema entry with just a name and type. */
+export const col = (name: string, type: ColumnSchema['type']): ColumnSchema => ({
+  name, type, nullPct: 0, unique: 0, samples: [],
+});
+
+/** A pipeline step of the given type with a unique id. */
+export const step = (type: string, params: Record<string, unknown> = {}): PipelineStep => ({
+  id: `${type}-${Math.random()}`,
+  type,
+  label: type,
+  params,
+  createdAt: new Date().toISOString(),
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import ts from 'typescript';
+import { parseArtifact, scoreRows, scoringTypeScript, serializeArtifact, trainModel, type ModelArtifact } from '@/lib/ml';
+import { col } from './helpers';
+
+const rows = Array.from({ length: 150 }, (_, i) => {
+  const x = (i * 37) % 100;
+  const segment = ['north', 'south', 'east'][i % 3];
+  return {
+    x,
+    segment,
+    active: i % 4 === 0 ? 'yes' : 'no',
+    signup: `2024-0${1 + (i % 9)}-1${i % 10}`,
+    // Every non-ISO format the app reads, including day-first slashes it rolls over
+    opened: [`0${1 + (i % 9)}/1${i % 10}/2023`, `2${i % 8}/0${1 + (i % 9)}/2023`, `1${i % 10}-0${1 + (i % 9)}-2023`, `2023/0${1 + (i % 9)}/1${i % 10}`, `20230${1 + (i % 9)}1${i % 10}`][i % 5],
+    y: 3 * x + (segment === 'north' ? 40 : 0),
+    label: x > 50 ? 'high' : 'low',
+  };
+});
+const schema = [
+  col('x', 'numeric'), col('segment', 'categorical'), col('active', 'boolean'),
+  col('signup', 'date'), col('opened', 'date'), col('y', 'numeric'), col('label', 'categorical'),
+];
+const features = ['x', 'segment', 'active', 'signup', 'opened'];
+
+// Transpiles the generated module and returns its predict function
+function loadScoring(artifact: ModelArtifact): (row: Record<string, unknown>) => unknown {
+  const js = ts.transpileModule(scoringTypeScript(artifact, 'test'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+  }).outputText;
+  const exports: Record<string, unknown> = {};
+  new Function('exports', js)(exports);
+  return exports.predict as (row: Record<string, unknown>) => unknown;
+}
+
+describe('ML artifacts', () => {
+  it('round-trips model files and rejects foreign JSON', () => {
+    const { artifact } = trainModel({ rows, schema, task: 'classification', algorithm: 'decision_tree', target: 'label', features });
+    const parsed = parseArtifact(serializeArtifact('Churn tree', artifact));
+    expect(parsed.name).toBe('Churn tree');
+    expect(scoreRows(parsed.artifact, rows)).toEqual(scoreRows(artifact, rows));
+    expect(() => parseArtifact('{"rows": []}')).toThrow('Not a DataTidy model file');
+    expect(() => parseArtifact('not json')).toThrow('not valid JSON');
+  });
+
+  it('scores rows from another dataset, imputing missing values', () => {
+    const { artifact } = trainModel({ rows, schema, task: 'regression', algorithm: 'linear_regression', target: 'y', features: ['x', 'segment'] });
+    const [a, b] = scoreRows(artifact, [{ x: 10, segment: 'north' }, { x: null, segment: 'unseen' }]) as number[];
+    expect(a).toBeCloseTo(70, 0);
+    expect(Number.isFinite(b)).toBe(true);
+  });
+
+  it('exports TypeScript scoring code that matches in-app predictions', () => {
+    const cases = [
+      trainModel({ rows, schema, task: 'classification', algorithm: 'logistic_regression', target: 'label', features }),
+      // On its own the non-ISO date carries real weight, so a misread date changes the prediction
+      trainModel({ rows, schema, task: 'regression', algorithm: 'linear_regression', target: 'y', features: ['opened'] }),
+      trainModel({ rows, schema, task: 'classification', algorithm: 'random_forest', target: 'label', features, params: { trees: 5 } }),
+      trainModel({ rows, schema, task: 'regression', algorithm: 'gradient_boosting', target: 'y', features, params: { rounds: 10 } }),
+    ];
+    for (const { artifact } of cases) {
+      const predict = loadScoring(artifact);
+      const sample = rows.slice(0, 30);
+      const expected = scoreRows(artifact, sample);
+      sample.forEach((row, i) => {
+        const got = predict(row);
+        if (typeof got === 'number') expect(got).toBeCloseTo(expected[i] as number, 6);
+        else expect(got).toBe(expected[i]);
+      });
+    }
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { clusterRows, elbowAnalysis, pca2d, standardizeFeatures, withClusterColumn, NOISE } from '@/lib/ml';
+import { col } from './helpers';
+
+// Three tight blobs in revenue/units space plus two far outliers
+const centers = [[100, 5], [500, 40], [900, 10]];
+const rows = [
+  ...centers.flatMap(([revenue, units], c) =>
+    Array.from({ length: 30 }, (_, i) => ({
+      id: `${c}-${i}`,
+      revenue: revenue + ((i * 7) % 11) - 5,
+      units: units + ((i * 3) % 5) - 2,
+      region: 'x',
+    })),
+  ),
+  { id: 'far-1', revenue: 5000, units: 500, region: 'x' },
+  { id: 'far-2', revenue: -4000, units: -300, region: 'x' },
+];
+const schema = [col('id', 'text'), col('revenue', 'numeric'), col('units', 'numeric'), col('region', 'categorical')];
+
+describe('ML clustering', () => {
+  it('separates well-defined blobs with k-means and peaks the silhouette at the true k', () => {
+    const blobs = rows.slice(0, 90);
+    const result = clusterRows({ rows: blobs, features: ['revenue', 'units'], schema, algorithm: 'kmeans', k: 3 });
+    expect(result.clusterCount).toBe(3);
+    expect(result.profiles.map((p) => p.size)).toEqual([30, 30, 30]);
+    // Every blob maps to exactly one label
+    for (let c = 0; c < 3; c++) {
+      expect(new Set(result.labels.slice(c * 30, c * 30 + 30)).size).toBe(1);
+    }
+    expect(result.silhouette).toBeGreaterThan(0.8);
+
+    const elbow = elbowAnalysis(standardizeFeatures(blobs, ['revenue', 'units'], schema).X, { maxK: 6 });
+    const best = elbow.reduce((a, b) => (b.silhouette > a.silhouette ? b : a));
+    expect(best.k).toBe(3);
+  });
+
+  it('marks isolated points as DBSCAN noise and appends a label column', () => {
+    const result = clusterRows({
+      rows, features: ['revenue', 'units'], schema, algorithm: 'dbscan', eps: 0.3, minPoints: 4,
+    });
+    expect(result.clusterCount).toBe(3);
+    expect(result.noiseCount).toBe(2);
+    expect(result.labels.slice(-2)).toEqual([NOISE, NOISE]);
+
+    const labelled = withClusterColumn(rows, result.labels, 'segment');
+    expect(labelled[0].segment).toBe('cluster_1');
+    expect(labelled[labelled.length - 1].segment).toBe('noise');
+    expect(rows[0]).not.toHaveProperty('segment');
+  });
+
+  it('rejects non-numeric features', () => {
+    expect(() => clusterRows({ rows, features: ['region'], schema, algorithm: 'kmeans' })).toThrow(/numeric features only/);
+  });
+
+  it('projects onto the direction of greatest variance first', () => {
+    const X = Array.from({ length: 50 }, (_, i) => [i - 25, (i - 25) * 0.5 + ((i % 3) - 1) * 0.1]);
+    const { points, explained } = pca2d(X);
+    expect(explained[0]).toBeGreaterThan(0.99);
+    const spread = (k: 0 | 1) => Math.max(...points.map((p) => Math.abs(p[k])));
+    expect(spread(0)).toBeGreaterThan(spread(1) * 10);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectDateColumns, detectValueColumns, forecastSeries, holtWinters, resampleSeries, seasonalNaive, suggestFrequency,
+} from '@/lib/ml';
+import { col } from './helpers';
+
+// Three years of orders, two per month, with a December peak and steady growth
+const orders = Array.from({ length: 36 }, (_, i) => {
+  const year = 2022 + Math.floor(i / 12);
+  const month = i % 12;
+  const revenue = 1000 + i * 20 + (month === 11 ? 600 : 0);
+  const day = (d: number) => `${year}-${String(month + 1).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+  return [
+    { order_date: day(3), region: 'North', revenue: revenue / 2, quantity: 1 },
+    { order_date: day(20), region: 'South', revenue: revenue / 2, quantity: 2 },
+  ];
+}).flat();
+const schema = [col('order_date', 'date'), col('region', 'categorical'), col('revenue', 'numeric'), col('quantity', 'numeric')];
+
+describe('ML forecasting', () => {
+  it('detects the date and value columns and suggests a monthly frequency', () => {
+    const dates = detectDateColumns(orders, schema);
+    expect(dates.map((d) => d.column)).toEqual(['order_date']);
+    expect(suggestFrequency(dates[0].info)).toBe('month');
+    expect(detectValueColumns(orders, schema, ['order_date'])[0]).toBe('revenue');
+  });
+
+  it('resamples to regular periods and fills gaps', () => {
+    const gappy = orders.filter((r) => !r.order_date.startsWith('2022-03'));
+    const series = resampleSeries(gappy, {
+      dateColumn: 'order_date', valueColumn: 'revenue', frequency: 'month', aggregation: 'sum',
+    });
+    expect(series.values).toHaveLength(36);
+    expect(series.labels.slice(0, 3)).toEqual(['2022-01', '2022-02', '2022-03']);
+    expect(series.values.slice(0, 3)).toEqual([1000, 1020, 0]);
+    expect(series.filledPeriods).toBe(1);
+
+    const quarterly = resampleSeries(orders, {
+      dateColumn: 'order_date', valueColumn: null, frequency: 'quarter', aggregation: 'count',
+    });
+    expect(quarterly.labels[0]).toBe('2022-Q1');
+    expect(quarterly.values.every((v) => v === 6)).toBe(true);
+  });
+
+  it('forecasts seasonality and trend with widening intervals', () => {
+    const series = resampleSeries(orders, {
+      dateColumn: 'order_date', valueColumn: 'revenue', frequency: 'month', aggregation: 'sum',
+    });
+    const result = forecastSeries(series, 12);
+    expect(result.futureLabels[0]).toBe('2025-01');
+
+    const hw = result.models.holt_winters;
+    expect(hw.variant).toMatch(/period 12/);
+    // December should stand out and the trend should keep climbing
+    expect(hw.forecast[11]).toBeGreaterThan(hw.forecast[10] + 400);
+    expect(hw.forecast[10]).toBeGreaterThan(series.values[34]);
+    const width = (h: number) => hw.upper95[h] - hw.lower95[h];
+    expect(width(11)).toBeGreaterThanOrEqual(width(0));
+
+    // Seasonal naive repeats last year, so trend makes it lag Holt-Winters in the backtest
+    expect(result.models.seasonal_naive.forecast).toEqual(series.values.slice(24));
+    expect(result.backtest.holdout).toBe(9);
+    expect(result.backtest.accuracy.holt_winters.mae).toBeLessThan(result.backtest.accuracy.seasonal_naive.mae);
+  });
+
+  it('falls back to trend-only and naive models on short histories', () => {
+    const values = [10, 12, 14, 16, 18, 20];
+    expect(holtWinters(values, 12, 3).variant).toMatch(/linear trend/);
+    expect(holtWinters(values, 12, 3).forecast[0]).toBeCloseTo(22, 0);
+    expect(seasonalNaive(values, 12, 2).forecast).toEqual([20, 20]);
+    expect(() => holtWinters([1, 2], 12, 3)).toThrow(/at least 4 periods/);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { trainModel, fitEncoding, encodeRow, classificationMetrics, regressionMetrics } from '@/lib/ml';
+import { col } from './helpers';
+
+// Deterministic toy data: y = 3x - 2z + segment offset, label = x > z
+const rows = Array.from({ length: 200 }, (_, i) => {
+  const x = (i * 37) % 100;
+  const z = (i * 53) % 100;
+  const segment = ['north', 'south', 'east'][i % 3];
+  return {
+    x,
+    z,
+    segment,
+    noise: (i * 7919) % 13,
+    y: 3 * x - 2 * z + (segment === 'north' ? 50 : 0),
+    label: x > z ? 'high' : 'low',
+  };
+});
+const schema = [
+  col('x', 'numeric'), col('z', 'numeric'), col('segment', 'categorical'),
+  col('noise', 'numeric'), col('y', 'numeric'), col('label', 'categorical'),
+];
+
+describe('ML training', () => {
+  it('encodes numerics, one-hot categoricals and missing values', () => {
+    const spec = fitEncoding(rows, ['x', 'segment'], schema);
+    expect(spec.columns).toEqual(['x', 'segment=north', 'segment=south', 'segment=east']);
+    expect(spec.groups).toEqual([
+      { feature: 'x', start: 0, end: 1 },
+      { feature: 'segment', start: 1, end: 4 },
+    ]);
+    // Levels are ordered by frequency. Missing numerics impute to the mean
+    // (0 after scaling); unseen levels are all zeros
+    expect(encodeRow(spec, { x: null, segment: 'west' })).toEqual([0, 0, 0, 0]);
+    expect(JSON.parse(JSON.stringify(spec))).toEqual(spec);
+  });
+
+  it('fits regressors that recover a linear signal', () => {
+    for (const algorithm of ['linear_regression', 'ridge_regression', 'gradient_boosting'] as const) {
+      const result = trainModel({
+        task: 'regression', algorithm, target: 'y', features: ['x', 'z', 'segment', 'noise'], schema, rows,
+      });
+      expect(result.trainSize + result.testSize).toBe(200);
+      expect(result.metrics.r2).toBeGreaterThan(0.85);
+      // The noise column should matter least
+      expect(result.importance[result.importance.length - 1].feature).toBe('noise');
+    }
+  });
+
+  it('fits classifiers with stratified splits and grouped importance', () => {
+    for (const algorithm of ['logistic_regression', 'decision_tree', 'random_forest'] as const) {
+      const result = trainModel({
+        task: 'classification', algorithm, target: 'label', features: ['x', 'z', 'noise'], schema, rows,
+      });
+      expect(result.artifact.classes).toEqual(['high', 'low']);
+      expect(result.metrics.accuracy).toBeGreaterThan(0.85);
+      expect(result.importance.map((f) => f.feature).slice(0, 2).sort()).toEqual(['x', 'z']);
+    }
+  });
+
+  it('rejects targets that cannot be trained on', () => {
+    expect(() => trainModel({
+      task: 'regression', algorithm: 'linear_regression', target: 'label', features: ['x'], schema, rows,
+    })).toThrow(/no numeric values/);
+    expect(() => trainModel({
+      task: 'classification', algorithm: 'decision_tree', target: 'label', features: ['x'], schema, rows: rows.slice(0, 5),
+    })).toThrow(/at least 10 rows/);
+  });
+
+  it('computes macro classification and regression metrics', () => {
+    const m = classificationMetrics([0, 0, 1, 1], [0, 1, 1, 1]);
+    expect(m.accuracy).toBe(0.75);
+    expect(m.precision).toBeCloseTo((1 + 2 / 3) / 2);
+    expect(m.recall).toBeCloseTo((0.5 + 1) / 2);
+    const r = regressionMetrics([1, 2, 3], [1, 2, 4]);
+    expect(r.rmse).toBeCloseTo(Math.sqrt(1 / 3));
+    expect(r.r2).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  kFoldSplits, timeSeriesSplits, crossValidate, gridCandidates, confusionMatrix, rocCurve, createRng,
+} from '@/lib/ml';
+import { col } from './helpers';
+
+const rows = Array.from({ length: 120 }, (_, i) => {
+  const x = (i * 37) % 100;
+  return { x, y: 2 * x + 5, label: x > 60 ? 'high' : 'low' };
+});
+const schema = [col('x', 'numeric'), col('y', 'numeric'), col('label', 'categorical')];
+
+describe('ML validation', () => {
+  it('stratified k-fold partitions rows and keeps class balance', () => {
+    const y = Array.from({ length: 100 }, (_, i) => (i < 20 ? 1 : 0));
+    const splits = kFoldSplits(y, true, 5, createRng(1));
+    const tested = splits.flatMap((s) => s.test).sort((a, b) => a - b);
+    expect(tested).toEqual(Array.from({ length: 100 }, (_, i) => i));
+    for (const s of splits) {
+      expect(s.test.filter((i) => y[i] === 1)).toHaveLength(4);
+      expect(s.train).toHaveLength(80);
+    }
+  });
+
+  it('time-series splits never train on the future', () => {
+    const splits = timeSeriesSplits(60, 3);
+    expect(splits.map((s) => s.train.length)).toEqual([15, 30, 45]);
+    for (const s of splits) expect(Math.max(...s.train)).toBeLessThan(Math.min(...s.test));
+  });
+
+  it('cross-validates a model and summarises fold scores', () => {
+    const cv = crossValidate({
+      rows, schema, task: 'regression', algorithm: 'linear_regression', target: 'y', features: ['x'],
+      strategy: 'kfold', folds: 4,
+    });
+    expect(cv.folds).toHaveLength(4);
+    expect(cv.mean.r2).toBeGreaterThan(0.99);
+    expect(cv.std.r2).toBeLessThan(0.01);
+  });
+
+  it('expands parameter grids and scores classifiers', () => {
+    expect(gridCandidates({ a: [1, 2], b: [3, 4, 5] })).toHaveLength(6);
+    expect(confusionMatrix([0, 0, 1, 1], [0, 1, 1, 1], 2)).toEqual([[1, 1], [0, 2]]);
+    expect(rocCurve([0, 0, 1, 1], [0.1, 0.2, 0.8, 0.9], 1).auc).toBeCloseTo(1);
+    expect(rocCurve([0, 1, 0, 1], [0.5, 0.5, 0.5, 0.5], 1).auc).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ModelArtifact } from '@/lib/ml';
+
+// IndexedDB stand-in: one Map, a read counter and a switch to make every transaction fail
+const idb = vi.hoisted(() => ({ records: new Map<string, unknown>(), reads: 0, failing: false }));
+vi.mock('@/store/idb', () => ({
+  MODEL_STORE: 'models',
+  transact: async (_store: string, _mode: string, run: (store: unknown) => { result: unknown }) => {
+    if (idb.failing) throw new Error('Browser storage is full.');
+    return run({
+      get: (id: string) => {
+        idb.reads++;
+        return { result: idb.records.get(id) };
+      },
+      put: (artifact: unknown, id: string) => {
+        idb.records.set(id, artifact);
+        return { result: id };
+      },
+      delete: (id: string) => ({ result: idb.records.delete(id) }),
+    }).result;
+  },
+}));
+
+import { deleteModelArtifact, loadModelArtifact, saveModelArtifact } from '@/store/modelArtifacts';
+
+const artifactFor = (id: string) => ({ target: id }) as unknown as ModelArtifact;
+
+describe('Model artifact storage', () => {
+  beforeEach(async () => {
+    idb.failing = false;
+    for (const id of ['a', 'b', 'c', 'd', 'pinned']) await deleteModelArtifact(id);
+    idb.reads = 0;
+  });
+
+  it('keeps only the most recently used artifacts in memory', async () => {
+    for (const id of ['a', 'b', 'c']) await saveModelArtifact(id, artifactFor(id));
+    await loadModelArtifact('a');
+    await saveModelArtifact('d', artifactFor('d'));
+    expect(idb.reads).toBe(0);
+
+    // Evicted artifacts come back from storage
+    expect(await loadModelArtifact('b')).toEqual(artifactFor('b'));
+    expect(idb.reads).toBe(1);
+    await loadModelArtifact('d');
+    expect(idb.reads).toBe(1);
+  });
+
+  it('never evicts artifacts that could not be saved', async () => {
+    idb.failing = true;
+    await expect(saveModelArtifact('pinned', artifactFor('pinned'))).rejects.toThrow('Browser storage is full.');
+    idb.failing = false;
+    for (const id of ['a', 'b', 'c', 'd']) await saveModelArtifact(id, artifactFor(id));
+    expect(await loadModelArtifact('pinned')).toEqual(artifactFor('pinned'));
+    expect(idb.reads).toBe(0);
+  });
+});
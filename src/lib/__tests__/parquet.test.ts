@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { readParquet, readParquetMetadata, writeParquet, snappyCompress, snappyUncompress } from '@/lib/parquet';
+import { Encoding } from '@/lib/parquet/types';
+
+const rows = [
+  { id: 1, region: 'North', revenue: 1200.5, active: true, signed_up: new Date('2024-01-05T00:00:00Z') },
+  { id: 2, region: 'South', revenue: null, active: false, signed_up: new Date('2024-02-10T12:30:00Z') },
+  { id: 3, region: 'North', revenue: 800, active: null, signed_up: null },
+  { id: 4, region: null, revenue: -15.25, active: true, signed_up: new Date('2024-03-01T00:00:00Z') },
+];
+
+describe('Snappy', () => {
+  it('round-trips repetitive and random data', () => {
+    const text = new TextEncoder().encode('abcabcabcabc hello hello hello '.repeat(200));
+    const packed = snappyCompress(text);
+    expect(packed.length).toBeLessThan(text.length / 4);
+    expect(snappyUncompress(packed)).toEqual(text);
+
+    const noise = Uint8Array.from({ length: 70000 }, (_, i) => (i * 2654435761) >>> 24);
+    expect(snappyUncompress(snappyCompress(noise))).toEqual(noise);
+  });
+
+  it('decodes reference output with overlapping copies', () => {
+    // "aaaaaaaaaa": literal "a" then a 9-byte copy at offset 1
+    expect(new TextDecoder().decode(snappyUncompress(Uint8Array.of(10, 0, 'a'.charCodeAt(0), 0x15, 1)))).toBe('aaaaaaaaaa');
+  });
+});
+
+describe('Parquet Reader/Writer', () => {
+  it.each(['snappy', 'uncompressed'] as const)('round-trips typed columns (%s)', compression => {
+    const file = writeParquet(rows, { compression });
+    const result = readParquet(file);
+    expect(result.numRows).toBe(4);
+    expect(result.columns.map(c => [c.name, c.physicalType])).toEqual([
+      ['id', 'INT64'],
+      ['region', 'BYTE_ARRAY'],
+      ['revenue', 'DOUBLE'],
+      ['active', 'BOOLEAN'],
+      ['signed_up', 'INT64'],
+    ]);
+    expect(result.rows[0]).toEqual({ id: 1, region: 'North', revenue: 1200.5, active: true, signed_up: '2024-01-05T00:00:00.000Z' });
+    expect(result.rows[2]).toEqual({ id: 3, region: 'North', revenue: 800, active: null, signed_up: null });
+    expect(result.rows[3].region).toBeNull();
+  });
+
+  it('uses schema hints to type string columns and splits row groups', () => {
+    const csvLike = Array.from({ length: 25 }, (_, i) => ({
+      qty: String(i),
+      day: `2024-01-${String(i + 1).padStart(2, '0')}`,
+      at: `2024-01-01T0${i % 10}:15:00Z`,
+      code: '007',
+    }));
+    const file = writeParquet(csvLike, {
+      rowGroupSize: 10,
+      schema: [{ name: 'qty', type: 'numeric' }, { name: 'day', type: 'date' }, { name: 'at', type: 'date' }],
+    });
+    expect(readParquetMetadata(file).rowGroups).toHaveLength(3);
+
+    const result = readParquet(file);
+    // Calendar dates are written as DATE; a time of day keeps the column a timestamp
+    expect(result.columns.map(c => [c.name, c.physicalType, c.logical.kind])).toEqual([
+      ['qty', 'INT64', 'none'],
+      ['day', 'INT32', 'date'],
+      ['at', 'INT64', 'timestamp'],
+      ['code', 'BYTE_ARRAY', 'string'],
+    ]);
+    expect(result.rows).toHaveLength(25);
+    expect(result.rows[24]).toEqual({ qty: 24, day: '2024-01-25', at: '2024-01-01T04:15:00.000Z', code: '007' });
+  });
+
+  it('rejects files without Parquet magic bytes', () => {
+    expect(() => readParquet(new TextEncoder().encode('id,name\n1,a\n'))).toThrow(/PAR1/);
+  });
+});
+
+// Written by pyarrow (fixtures/parquet/generate.py); the formulas below mirror that script
+const CITIES = ['Lisbon', 'Oslo', 'Nairobi', 'Quito', 'Osaka'];
+const fixtureRow = (n: number) => ({
+  id: n + 1,
+  city: n % 17 === 0 ? null : CITIES[n % 5],
+  price: n * 0.25,
+  qty: n % 7 === 0 ? null : n - 300,
+  active: n % 3 === 0 ? null : n % 2 === 0,
+  day: new Date(Date.UTC(2020, 0, 1 + n)).toISOString().slice(0, 10),
+  seen_at: new Date(1_700_000_000_000 + n * 61_000).toISOString(),
+  amount: (n * 123 - 50_000) / 100,
+});
+
+describe('Parquet files from pyarrow', () => {
+  it.each([
+    ['pyarrow_v1_snappy.parquet', Encoding.RLE_DICTIONARY],
+    ['pyarrow_v2_snappy.parquet', Encoding.PLAIN],
+  ])('decodes every value of %s', (name, idEncoding) => {
+    const file = readFileSync(new URL(`./fixtures/parquet/${name}`, import.meta.url));
+    const meta = readParquetMetadata(file);
+    expect(meta.createdBy).toMatch(/^parquet-cpp-arrow/);
+    expect(meta.rowGroups.map(g => g.numRows)).toEqual([250, 250, 100]);
+    expect(meta.rowGroups[0].columns[0].encodings).toContain(idEncoding);
+    expect(meta.rowGroups[0].columns[1].encodings).toContain(Encoding.RLE_DICTIONARY);
+
+    const result = readParquet(file);
+    expect(result.columns.map(c => [c.name, c.physicalType, c.logical.kind])).toEqual([
+      ['id', 'INT64', 'none'],
+      ['city', 'BYTE_ARRAY', 'string'],
+      ['price', 'DOUBLE', 'none'],
+      ['qty', 'INT32', 'none'],
+      ['active', 'BOOLEAN', 'none'],
+      ['day', 'INT32', 'date'],
+      ['seen_at', 'INT64', 'timestamp'],
+      ['amount', 'FIXED_LEN_BYTE_ARRAY', 'decimal'],
+    ]);
+    expect(result.warnings).toEqual([]);
+    expect(result.rows).toEqual(Array.from({ length: 600 }, (_, n) => fixtureRow(n)));
+  });
+});
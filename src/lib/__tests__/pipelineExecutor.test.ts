@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import {
+  executeStep,
+  runPipeline,
+  compileExpression,
+  validateStepParams,
+  defaultParams,
+  describeStep,
+  PipelineSnapshotCache,
+  diffSnapshots,
+} from '@/lib/pipeline';
+import { step } from './helpers';
+
+const rows = [
+  { id: 1, region: ' North ', product: 'widget', revenue: '1,200', qty: 4 },
+  { id: 2, region: 'South', product: 'GADGET', revenue: 300, qty: null },
+  { id: 3, region: 'North', product: 'widget', revenue: 800, qty: 2 },
+  { id: 3, region: 'North', product: 'widget', revenue: 800, qty: 2 },
+];
+
+describe('Pipeline Executor', () => {
+  it('does not mutate input rows', () => {
+    const input = rows.map(r => ({ ...r }));
+    executeStep(input, step('trim'));
+    executeStep(input, step('fix_types'));
+    expect(input).toEqual(rows);
+  });
+
+  it('trims, dedupes and fixes types with defaults', () => {
+    const result = runPipeline(rows, [step('trim'), step('remove_duplicates'), step('fix_types')]);
+    expect(result.failedStepId).toBeUndefined();
+    expect(result.rows).toHaveLength(3);
+    expect(result.rows[0].region).toBe('North');
+    expect(result.rows[0].revenue).toBe(1200);
+    expect(result.schema.find(c => c.name === 'revenue')?.type).toBe('numeric');
+  });
+
+  it('only warns about values that fail to convert', () => {
+    const typed = [{ a: 1, b: true, d: '2024-01-01' }, { a: 2, b: false, d: '2024-02-01' }];
+    const once = executeStep(typed, step('fix_types'));
+    expect(once.warnings).toEqual([]);
+    expect(executeStep(once.rows, step('fix_types')).warnings).toEqual([]);
+    const { rows: out, warnings } = executeStep([...typed, { a: 'n/a', b: true, d: '2024-03-01' }], step('fix_types', { types: { a: 'numeric' } }));
+    expect(out[2].a).toBe('n/a');
+    expect(warnings).toEqual(['1 value(s) could not be converted and were kept as-is']);
+  });
+
+  it('fills missing numerics with the median', () => {
+    const { rows: out } = executeStep(rows, step('fill_missing', { columns: ['qty'], strategy: 'median' }));
+    expect(out[1].qty).toBe(2);
+  });
+
+  it('filters with combined predicates', () => {
+    const { rows: out } = executeStep(rows, step('filter', {
+      combine: 'and',
+      predicates: [
+        { column: 'region', op: 'contains', value: 'north' },
+        { column: 'revenue', op: 'gt', value: 1000 },
+      ],
+    }));
+    expect(out.map(r => r.id)).toEqual([1]);
+  });
+
+  it('sorts numerically with missing values last', () => {
+    const { rows: out } = executeStep(rows, step('sort', { keys: [{ column: 'qty', direction: 'desc' }] }));
+    expect(out.map(r => r.qty)).toEqual([4, 2, 2, null]);
+  });
+
+  it('groups and aggregates', () => {
+    const { rows: out } = executeStep(rows, step('group_by', {
+      by: ['product'],
+      aggregations: [{ column: 'revenue', fn: 'sum', as: 'total' }, { column: 'id', fn: 'count' }],
+    }));
+    expect(out).toEqual([
+      { product: 'widget', total: 2800, count_id: 3 },
+      { product: 'GADGET', total: 300, count_id: 1 },
+    ]);
+  });
+
+  it('pivots and unpivots', () => {
+    const pivoted = executeStep(rows, step('pivot', { index: ['region'], column: 'product', value: 'revenue', fn: 'sum' })).rows;
+    expect(pivoted.find(r => r.region === 'North')).toEqual({ region: 'North', widget: 1600, GADGET: null });
+
+    const melted = executeStep([{ k: 'a', x: 1, y: 2 }], step('pivot', { mode: 'unpivot', index: ['k'] })).rows;
+    expect(melted).toEqual([{ k: 'a', variable: 'x', value: 1 }, { k: 'a', variable: 'y', value: 2 }]);
+  });
+
+  it('joins another dataset through the context', () => {
+    const regions = [{ name: 'North', manager: 'Ana' }, { name: 'East', manager: 'Bo' }];
+    const ctx = { resolveDataset: (id: string) => (id === 'regions' ? regions : undefined) };
+    const left = executeStep(rows, step('join', { datasetId: 'regions', leftKey: 'region', rightKey: 'name', how: 'left' }), ctx).rows;
+    expect(left).toHaveLength(4);
+    expect(left[2].manager).toBe('Ana');
+    expect(left[1].manager).toBeNull();
+
+    const outer = executeStep(rows, step('join', { datasetId: 'regions', leftKey: 'region', rightKey: 'name', how: 'outer' }), ctx).rows;
+    expect(outer.find(r => r.region === 'East')?.manager).toBe('Bo');
+  });
+
+  it('adds calculated columns', () => {
+    const { rows: out } = executeStep(rows, step('calc', { name: 'unit', expression: 'round(revenue / qty, 1)' }));
+    expect(out[0].unit).toBe(300);
+    expect(out[1].unit).toBeNull();
+  });
+
+  it('scales, encodes and buckets', () => {
+    const data = [{ v: 0, c: 'a' }, { v: 5, c: 'b' }, { v: 10, c: 'a' }];
+    expect(executeStep(data, step('normalize', { columns: ['v'] })).rows.map(r => r.v)).toEqual([0, 0.5, 1]);
+    expect(executeStep(data, step('one_hot', { columns: ['c'] })).rows[0]).toEqual({ v: 0, c_a: 1, c_b: 0 });
+    expect(executeStep(data, step('bucketize', { column: 'v', edges: [5] })).rows.map(r => r.v_bucket)).toEqual(['< 5', '≥ 5', '≥ 5']);
+  });
+
+  it('takes min and max of columns too long to spread into arguments', () => {
+    const data = Array.from({ length: 200_000 }, (_, i) => ({ g: 'x', v: i }));
+    expect(executeStep(data, step('group_by', {
+      by: ['g'],
+      aggregations: [{ column: 'v', fn: 'min', as: 'lo' }, { column: 'v', fn: 'max', as: 'hi' }],
+    })).rows).toEqual([{ g: 'x', lo: 0, hi: 199_999 }]);
+    expect(executeStep(data, step('normalize', { columns: ['v'] })).rows[199_999].v).toBe(1);
+  });
+
+  it('stops at the first failing step and reports it', () => {
+    const bad = step('sort', { keys: [{ column: 'missing_col', direction: 'asc' }] });
+    const result = runPipeline(rows, [step('trim'), bad, step('remove_duplicates')]);
+    expect(result.failedStepId).toBe(bad.id);
+    expect(result.steps).toHaveLength(2);
+    expect(result.steps[1].error).toMatch(/missing_col/);
+  });
+});
+
+describe('Pipeline Snapshot Cache', () => {
+  it('recomputes only from the edited step onward', () => {
+    const cache = new PipelineSnapshotCache();
+    const steps = [step('trim'), step('remove_duplicates'), step('sort', { keys: [{ column: 'id', direction: 'desc' }] })];
+    expect(cache.run(rows, steps).computed).toBe(3);
+    expect(cache.run(rows, steps).computed).toBe(0);
+
+    const edited = [...steps.slice(0, 2), { ...steps[2], params: { keys: [{ column: 'id', direction: 'asc' }] } }];
+    const trace = cache.run(rows, edited);
+    expect(trace.computed).toBe(1);
+    expect(trace.snapshots.map(s => s.cached)).toEqual([true, true, false]);
+  });
+
+  it('diffs consecutive snapshots', () => {
+    const trimmed = executeStep(rows, step('trim')).rows;
+    const cellDiff = diffSnapshots(rows, trimmed);
+    expect(cellDiff.alignment).toBe('index');
+    expect(cellDiff.changedCellCount).toBe(1);
+    expect(cellDiff.changes.get(trimmed[0])).toEqual({ region: ' North ' });
+
+    const deduped = executeStep(trimmed, step('remove_duplicates')).rows;
+    const rowDiff = diffSnapshots(trimmed, deduped);
+    expect(rowDiff.alignment).toBe('identity');
+    expect(rowDiff.rowsRemoved).toBe(1);
+  });
+});
+
+describe('Expression Compiler', () => {
+  it('supports bracketed columns, precedence and functions', () => {
+    const expr = compileExpression("if([Unit Price] * 2 + 1 > 10 && lower(name) == 'x', 'big', 'small')");
+    expect(expr.columns.sort()).toEqual(['Unit Price', 'name']);
+    expect(expr.evaluate({ 'Unit Price': 5, name: 'X' })).toBe('big');
+    expect(expr.evaluate({ 'Unit Price': 1, name: 'X' })).toBe('small');
+  });
+
+  it('rejects unknown functions and bad syntax', () => {
+    expect(() => compileExpression('nope(1)')).toThrow(/Unknown function/);
+    expect(() => compileExpression('1 +')).toThrow();
+  });
+});
+
+describe('Step Param Validation', () => {
+  const columns = ['region', 'revenue', 'qty'];
+
+  it('rejects unconfigured steps that need params', () => {
+    expect(validateStepParams('filter', defaultParams('filter'), { columns }).valid).toBe(false);
+    expect(validateStepParams('calc', defaultParams('calc'), { columns }).valid).toBe(false);
+  });
+
+  it('accepts defaults for steps that work without configuration', () => {
+    expect(validateStepParams('trim', defaultParams('trim'), { columns }).valid).toBe(true);
+    expect(validateStepParams('rename', defaultParams('rename'), { columns }).valid).toBe(true);
+  });
+
+  it('flags unknown columns and broken expressions', () => {
+    const sortResult = validateStepParams('sort', { keys: [{ column: 'nope', direction: 'asc' }] }, { columns });
+    expect(sortResult.errors).toEqual(['Unknown column: nope']);
+
+    const calcResult = validateStepParams('calc', { name: 'x', expression: 'revenue * price' }, { columns });
+    expect(calcResult.errors[0]).toMatch(/price/);
+  });
+
+  it('requires a value for comparison predicates', () => {
+    const result = validateStepParams('filter', { predicates: [{ column: 'region', op: 'eq', value: '' }] }, { columns });
+    expect(result.valid).toBe(false);
+    expect(validateStepParams('filter', { predicates: [{ column: 'region', op: 'is_null' }] }, { columns }).valid).toBe(true);
+  });
+
+  it('describes configured steps', () => {
+    expect(describeStep('sort', { keys: [{ column: 'revenue', direction: 'desc' }] })).toBe('revenue ↓');
+    expect(describeStep('filter', { predicates: [{ column: 'qty', op: 'gt', value: 2 }] })).toBe('qty > 2');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { reconcileRows, reconciliationDiffRows } from '@/lib/biReadiness';
+
+const before = [
+  { id: 1, name: 'Ada', city: 'London', score: 10 },
+  { id: 2, name: 'Grace', city: 'New York', score: 20 },
+  { id: 3, name: 'Linus', city: 'Helsinki', score: 30 },
+  { id: '', name: 'Nobody', city: null, score: 0 },
+];
+
+const after = [
+  { id: '1', name: 'Ada', city: 'Cambridge', score: 10, tier: 'gold' },
+  { id: 2, name: 'Grace', city: 'New York', score: 25, tier: 'silver' },
+  { id: 4, name: 'Margaret', city: 'Boston', score: 40, tier: 'gold' },
+];
+
+describe('Row-level Reconciliation', () => {
+  it('aligns rows on the key column and counts changes per column', () => {
+    const rec = reconcileRows(before, after, 'id');
+
+    expect(rec.added.map(r => r.name)).toEqual(['Margaret']);
+    expect(rec.removed.map(r => r.name)).toEqual(['Linus']);
+    expect(rec.changed.map(c => [c.key, c.columns])).toEqual([
+      ['1', ['city']],
+      ['2', ['score']],
+    ]);
+    expect(rec.unchanged).toBe(0);
+    expect(rec.unkeyedRows).toEqual({ before: 1, after: 0 });
+    expect(rec.columnChanges).toEqual([
+      { column: 'name', status: 'shared', changed: 0 },
+      { column: 'city', status: 'shared', changed: 1 },
+      { column: 'score', status: 'shared', changed: 1 },
+      { column: 'tier', status: 'added', changed: 0 },
+    ]);
+  });
+
+  it('pairs duplicate keys in order and flattens the diff for export', () => {
+    const rec = reconcileRows(
+      [{ k: 'a', v: 1 }, { k: 'a', v: 2 }],
+      [{ k: 'a', v: 1 }, { k: 'a', v: 3 }, { k: 'a', v: 4 }],
+      'k',
+    );
+    expect(rec.duplicateKeys).toEqual({ before: 1, after: 2 });
+    expect(rec.changed).toHaveLength(1);
+    expect(rec.added).toEqual([{ k: 'a', v: 4 }]);
+
+    const rows = reconciliationDiffRows(rec);
+    expect(rows).toEqual([
+      { _change: 'changed', k: 'a', v: 3, 'v (before)': 2, _changed_columns: 'v' },
+      { _change: 'added', k: 'a', v: 4, 'v (before)': null, _changed_columns: '' },
+    ]);
+    // Uniform columns so CSV headers line up
+    expect(new Set(rows.map(r => Object.keys(r).join()))).toHaveProperty('size', 1);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import {
+  analyzeForReport, buildReportBlocks, chartSection, chartSvg, createReport, renderReportPdf, renderReportPptx,
+  renderReportWorkbook, reportFileName, type ReportDocument,
+} from '@/lib/reports';
+import { crc32, writeZip } from '@/lib/reports/zip';
+import { EMPTY_FILTERS, type Widget } from '@/lib/dashboard';
+
+const rows = Array.from({ length: 40 }, (_, i) => ({
+  order_date: `2024-0${(i % 9) + 1}-1${i % 10}`,
+  region: ['North', 'South', 'East'][i % 3],
+  revenue: i % 7 === 0 ? null : 100 + i * 10,
+}));
+
+const widget: Widget = {
+  id: 'w',
+  type: 'bar',
+  layout: { x: 0, y: 0, w: 6, h: 4 },
+  config: { title: 'Revenue by region', measure: 'revenue', aggregation: 'sum', dimension: 'region', dateGrain: null, filters: [], limit: 10 },
+};
+
+function reportDocument(): ReportDocument {
+  const results = analyzeForReport(rows, []);
+  const report = createReport('Quarterly quality');
+  report.sections.push(chartSection(widget, { name: 'Sales', filters: EMPTY_FILTERS }));
+  return { title: report.name, dataset: 'orders.csv', generatedAt: '2024-05-01T10:00:00.000Z', blocks: buildReportBlocks(report, results, rows), results };
+}
+
+// Stored entries only, as written by writeZip
+function readZip(bytes: Uint8Array): Map<string, string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, string>();
+  let at = 0;
+  while (view.getUint32(at, true) === 0x04034b50) {
+    const size = view.getUint32(at + 18, true);
+    const nameLength = view.getUint16(at + 26, true);
+    const name = decoder.decode(bytes.subarray(at + 30, at + 30 + nameLength));
+    const data = bytes.subarray(at + 30 + nameLength, at + 30 + nameLength + size);
+    expect(view.getUint32(at + 14, true)).toBe(crc32(data));
+    entries.set(name, decoder.decode(data));
+    at += 30 + nameLength + size;
+  }
+  return entries;
+}
+
+describe('report export', () => {
+  it('writes stored zip entries with a central directory', () => {
+    expect(crc32(new TextEncoder().encode('The quick brown fox jumps over the lazy dog'))).toBe(0x414fa339);
+    const zip = writeZip([{ path: 'a.txt', data: 'hello' }, { path: 'dir/b.xml', data: '<x/>' }]);
+    expect([...readZip(zip).entries()]).toEqual([['a.txt', 'hello'], ['dir/b.xml', '<x/>']]);
+    const end = new DataView(zip.buffer, zip.length - 22);
+    expect(end.getUint32(0, true)).toBe(0x06054b50);
+    expect(end.getUint16(10, true)).toBe(2);
+  });
+
+  it('paginates the PDF and embeds chart images', () => {
+    const doc = reportDocument();
+    const chart = doc.blocks.find((b) => b.chart)!;
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+    const text = new TextDecoder('latin1').decode(renderReportPdf(doc, new Map([[chart.id, { bytes: jpeg, width: 1440, height: 640 }]])));
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    const pages = Number(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/.exec(text)?.[1]);
+    expect(pages).toBeGreaterThan(1);
+    expect(text).toContain(`Page ${pages} of ${pages}`);
+    expect(text).toContain('/Filter /DCTDecode');
+
+    // Every xref offset points at its object
+    const xref = Number(/startxref\s+(\d+)/.exec(text)?.[1]);
+    const offsets = text.slice(xref).split('\n').slice(3).filter((l) => / n\s*$/.test(l)).map((l) => Number(l.slice(0, 10)));
+    expect(offsets).toHaveLength(Number(/\/Size (\d+)/.exec(text)?.[1]) - 1);
+    offsets.forEach((offset, i) => expect(text.slice(offset, offset + String(i + 1).length + 6)).toBe(`${i + 1} 0 obj`));
+  });
+
+  it('writes one slide per section after the title slide', () => {
+    const doc = reportDocument();
+    const chart = doc.blocks.find((b) => b.chart)!;
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+    const parts = readZip(renderReportPptx(doc, new Map([[chart.id, { bytes: png, width: 1440, height: 640 }]])));
+    const slides = [...parts.keys()].filter((p) => /^ppt\/slides\/slide\d+\.xml$/.test(p));
+    expect(slides).toHaveLength(doc.blocks.length + 1);
+    expect(parts.has('ppt/media/image1.png')).toBe(true);
+    expect(parts.get(`ppt/slides/_rels/slide${doc.blocks.length + 1}.xml.rels`)).toContain('../media/image1.png');
+    expect(parts.get('[Content_Types].xml')).toContain(`/ppt/slides/slide${slides.length}.xml`);
+    expect(parts.get('ppt/presentation.xml')?.match(/<p:sldId /g)).toHaveLength(slides.length);
+    expect(parts.get('ppt/slides/slide2.xml')).toContain(doc.blocks[0].title);
+  });
+
+  it('writes summary, actions, column metrics and error log sheets', async () => {
+    const doc = reportDocument();
+    const workbook = XLSX.read(await renderReportWorkbook(doc).arrayBuffer(), { type: 'array' });
+    expect(workbook.SheetNames).toEqual(['Summary', 'Actions', 'Column metrics', 'Error log']);
+    const actions = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets.Actions, { header: 1 });
+    expect(actions).toHaveLength(doc.results.actions.length + 1);
+    const metrics = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets['Column metrics']);
+    expect(metrics.map((m) => m.Column)).toEqual(doc.results.columnMetrics.map((m) => m.columnName));
+    const summary = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets.Summary, { header: 1 });
+    expect(summary.some((r) => r[0] === 'North')).toBe(true);
+  });
+
+  it('draws charts as SVG and names files from the title', () => {
+    const { blocks } = reportDocument();
+    const chart = blocks.find((b) => b.chart)!.chart!;
+    const svg = chartSvg(chart.widget, chart.data);
+    expect(svg.startsWith('<svg')).toBe(true);
+    expect(svg.match(/<rect [^>]*fill="hsl\(173 58% 39%\)"/g)?.length).toBeGreaterThanOrEqual(3);
+    expect(reportFileName(' Q1: Quality / Sales ', 'pptx')).toBe('q1-quality-sales.pptx');
+    expect(reportFileName('', 'pdf')).toBe('report.pdf');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeForReport, buildReportBlocks, chartSection, createReport, moveSection, type Report } from '@/lib/reports';
+import { EMPTY_FILTERS, type Widget } from '@/lib/dashboard';
+import type { PipelineStep } from '@/store/workspace';
+
+const rows = [
+  { order_date: '2024-01-05', region: 'North', revenue: 100 },
+  { order_date: '2024-01-20', region: 'South', revenue: 50 },
+  { order_date: '2024-02-03', region: 'North', revenue: 200 },
+  { order_date: '2024-02-03', region: 'North', revenue: 200 },
+  { order_date: '2024-03-01', region: ' north ', revenue: 300 },
+  { order_date: '2024-03-09', region: 'South', revenue: 150 },
+];
+
+const widget: Widget = {
+  id: 'w',
+  type: 'bar',
+  layout: { x: 0, y: 0, w: 6, h: 4 },
+  config: { title: 'Revenue by region', measure: 'revenue', aggregation: 'sum', dimension: 'region', dateGrain: null, filters: [], limit: 10 },
+};
+
+describe('reports', () => {
+  it('fills analysis sections from the cleaning and readiness results', () => {
+    const results = analyzeForReport(rows, []);
+    const report = createReport('Quality');
+    const blocks = buildReportBlocks(report, results, rows);
+    expect(blocks.map((b) => b.kind)).toEqual(['overview', 'cleaning', 'readiness', 'recommendations', 'reconciliation']);
+
+    const [overview, cleaning, readiness, recommendations, reconciliation] = blocks;
+    expect(overview.facts.find((f) => f.label === 'Rows')?.value).toBe(String(results.profile.dataDescription.rowCount));
+    expect(cleaning.facts.find((f) => f.label === 'Duplicates removed')?.value).toBe('1');
+    expect(readiness.table?.rows).toHaveLength(results.readiness.pillars.length);
+    expect(recommendations.items).toHaveLength(results.readiness.recommendations.length);
+    expect(recommendations.items.every((i) => !/^(CRITICAL|WARNING):/.test(i.text))).toBe(true);
+    expect(reconciliation.facts.find((f) => f.label === 'Rows before')?.value).toBe('6');
+  });
+
+  it('reports the pipeline step that failed', () => {
+    const broken: PipelineStep = {
+      id: 's', type: 'rename', label: 'Rename ghost', params: { renames: [{ from: 'ghost', to: 'x' }] }, createdAt: '',
+    };
+    const results = analyzeForReport(rows, [broken]);
+    expect(results.failedStep).toBe('Rename ghost');
+    expect(results.profile.dataDescription.rowCount).toBeGreaterThan(0);
+  });
+
+  it('draws dashboard charts with their dashboard filters', () => {
+    const filters = { ...EMPTY_FILTERS, predicates: [{ column: 'region', op: 'eq' as const, value: 'South' }] };
+    const report: Report = { id: 'r', name: 'Charts', sections: [chartSection(widget, { name: 'Overview', filters })], updatedAt: '' };
+    const [block] = buildReportBlocks(report, analyzeForReport(rows, []), rows);
+    expect(block.title).toBe('Revenue by region');
+    expect(block.chart?.data).toEqual({ kind: 'series', points: [{ label: 'South', value: 200 }], hidden: 0 });
+  });
+
+  it('moves sections one place at a time and ignores moves past the ends', () => {
+    const { sections } = createReport('Order');
+    const moved = moveSection(sections, sections[1].id, -1);
+    expect(moved.map((s) => s.kind).slice(0, 2)).toEqual(['cleaning', 'overview']);
+    expect(moveSection(sections, sections[0].id, -1)).toBe(sections);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import { streamCleanCsv, ProcessingCancelledError, type ProcessorProgress } from '@/lib/processor';
+import { DEFAULT_CLEANING_CONFIG } from '@/lib/dataTypes';
+import { applySelectedFixes, fixParameters, type SuggestedFix } from '@/lib/aiAnalyzer';
+
+const csv = ['order_id,region,revenue', ...Array.from({ length: 300 }, (_, i) => `${i + 1},${i % 2 ? 'North' : 'South'},${(i * 7) % 100}`)].join('\n');
+
+describe('Streaming CSV Ingestion', () => {
+  it('feeds parsed chunks through the processor and reports progress', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const events: ProcessorProgress[] = [];
+    const result = await streamCleanCsv(
+      csv,
+      { cleaningConfig: DEFAULT_CLEANING_CONFIG, chunkSize: 50, parseChunkBytes: 512 },
+      { onProgress: (p) => events.push(p) }
+    );
+
+    expect(result.rowsParsed).toBe(300);
+    expect(result.rawSample).toHaveLength(300);
+    expect(result.cleanedData.length).toBeGreaterThan(0);
+
+    const parsing = events.filter((e) => e.phase === 'parsing');
+    expect(parsing.length).toBeGreaterThan(1);
+    expect(parsing.map((e) => e.rowsProcessed)).toEqual([...parsing.map((e) => e.rowsProcessed)].sort((a, b) => a - b));
+    expect(events[events.length - 1].phase).toBe('done');
+  });
+
+  it('fixes every batch with statistics from the whole file', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    // Revenue rises through the file, so any one batch has its own median and quartiles
+    const lines = Array.from({ length: 300 }, (_, i) => `${i + 1},${i % 10 === 0 ? '' : i === 150 ? 100000 : i * 3}`);
+    const skewed = ['order_id,revenue', ...lines].join('\n');
+    const fixes: SuggestedFix[] = [
+      { id: 'f1', action: 'fill_missing_with_median', description: '', column: 'revenue', enabled: true },
+      { id: 'f2', action: 'cap_outliers', description: '', column: 'revenue', enabled: true },
+    ];
+    const run = (parseChunkBytes: number) =>
+      streamCleanCsv(skewed, { cleaningConfig: DEFAULT_CLEANING_CONFIG, chunkSize: 50, parseChunkBytes, fixes });
+
+    const [small, whole] = await Promise.all([run(256), run(1024 * 1024)]);
+    expect(small.cleanedData).toEqual(whole.cleanedData);
+
+    const rows = lines.map((l) => ({ order_id: l.split(',')[0], revenue: l.split(',')[1] }));
+    const params = fixParameters(new Map([['revenue', rows.map((r) => r.revenue)]]), fixes);
+    const batched = [rows.slice(0, 100), rows.slice(100)].flatMap((batch) => applySelectedFixes(batch, fixes, params));
+    expect(batched).toEqual(applySelectedFixes(rows, fixes));
+  });
+
+  it('stops when the signal is aborted', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const controller = new AbortController();
+    const run = streamCleanCsv(
+      csv,
+      { cleaningConfig: DEFAULT_CLEANING_CONFIG, chunkSize: 50, parseChunkBytes: 512 },
+      {
+        signal: controller.signal,
+        onProgress: (p) => {
+          if (p.rowsProcessed > 50) controller.abort();
+        },
+      }
+    );
+    await expect(run).rejects.toBeInstanceOf(ProcessingCancelledError);
+  });
+});
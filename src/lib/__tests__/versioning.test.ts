@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { diffVersions } from '@/lib/versioning';
+import type { DatasetVersion, PipelineStep } from '@/store/workspace';
+
+const step = (id: string, type: string, params: Record<string, unknown>): PipelineStep => ({
+  id,
+  type,
+  label: type,
+  params,
+  createdAt: '2024-01-01T00:00:00.000Z',
+});
+
+const version = (name: string, schema: DatasetVersion['schema'], quality: number, pipeline: PipelineStep[]): DatasetVersion => ({
+  id: name,
+  name,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  rowCount: 0,
+  colCount: schema.length,
+  quality,
+  schema,
+  issues: [],
+  pipeline,
+});
+
+const col = (name: string, type: DatasetVersion['schema'][number]['type']) => ({ name, type, nullPct: 0, unique: 0, samples: [] });
+
+describe('Dataset Versioning', () => {
+  it('diffs rows as multisets and reports schema, quality and pipeline changes', () => {
+    const before = version('v1', [col('id', 'numeric'), col('city', 'categorical'), col('notes', 'text')], 70, [
+      step('s1', 'trim', {}),
+    ]);
+    const after = version('v2', [col('id', 'numeric'), col('city', 'text'), col('score', 'numeric')], 85, [
+      step('s1', 'trim', {}),
+      step('s2', 'remove_duplicates', {}),
+    ]);
+
+    const diff = diffVersions(
+      before,
+      [
+        { id: 1, city: 'Oslo', notes: 'a' },
+        { id: 1, city: 'Oslo', notes: 'b' },
+        { id: 2, city: 'Rome', notes: null },
+      ],
+      after,
+      [
+        { id: 1, city: 'Oslo', score: 3 },
+        { id: 3, city: 'Lima', score: 1 },
+      ],
+    );
+
+    // Duplicated (1, Oslo) only survives once; (2, Rome) is gone and (3, Lima) is new
+    expect(diff.rowsOnlyBefore).toBe(2);
+    expect(diff.rowsOnlyAfter).toBe(1);
+    expect(diff.sampleAdded).toEqual([{ id: 3, city: 'Lima', score: 1 }]);
+    expect(diff.schemaChanges).toEqual([
+      { column: 'city', change: 'type_changed', detail: 'categorical → text' },
+      { column: 'score', change: 'added', detail: 'Added (numeric)' },
+      { column: 'notes', change: 'removed', detail: 'Removed (text)' },
+    ]);
+    expect(diff.qualityDelta).toBe(15);
+    expect(diff.stepsAdded).toEqual(['remove_duplicates']);
+    expect(diff.stepsRemoved).toEqual([]);
+  });
+});
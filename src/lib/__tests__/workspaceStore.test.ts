@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+
+// Minimal Web Storage, since the workspace store persists through localStorage and sessionStorage
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (i) => [...items.keys()][i] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => void items.set(key, String(value)),
+  };
+}
+
+describe('Workspace store', () => {
+  beforeAll(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    vi.stubGlobal('sessionStorage', memoryStorage());
+  });
+  afterAll(() => vi.unstubAllGlobals());
+
+  it('never writes the LLM API key to localStorage', async () => {
+    const { useWorkspace } = await import('@/store/workspace');
+    useWorkspace.getState().setLLMSettings({ provider: 'groq', apiKey: 'gsk-secret', model: 'llama' });
+
+    const persisted = localStorage.getItem('datatidy-workspace');
+    expect(persisted).not.toContain('gsk-secret');
+    expect(JSON.parse(persisted!).state.llm).toEqual({ provider: 'groq', baseUrl: expect.any(String), model: 'llama' });
+    expect(sessionStorage.getItem('datatidy-llm-key')).toBe('gsk-secret');
+    expect(useWorkspace.getState().llm.apiKey).toBe('gsk-secret');
+  });
+
+  it('keeps the session key when persisted settings are rehydrated', async () => {
+    const { useWorkspace } = await import('@/store/workspace');
+    await useWorkspace.persist.rehydrate();
+    expect(useWorkspace.getState().llm).toMatchObject({ provider: 'groq', apiKey: 'gsk-secret' });
+  });
+
+  it('moves a key stored by an older version out of localStorage', async () => {
+    const { useWorkspace } = await import('@/store/workspace');
+    sessionStorage.clear();
+    localStorage.setItem('datatidy-workspace', JSON.stringify({
+      version: 5,
+      state: { datasets: [], llm: { provider: 'google', apiKey: 'old-key', baseUrl: '', model: '' } },
+    }));
+    await useWorkspace.persist.rehydrate();
+    expect(sessionStorage.getItem('datatidy-llm-key')).toBe('old-key');
+    expect(useWorkspace.getState().llm.apiKey).toBe('old-key');
+    expect(localStorage.getItem('datatidy-workspace')).not.toContain('old-key');
+  });
+});
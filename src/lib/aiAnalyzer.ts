@@ -1,9 +1,11 @@
 /**
  * AI Dataset Analyzer
  * Sends schema + sample rows to LLM, returns structured column analysis.
- * Uses existing VITE_GOOGLE_API_KEY or VITE_GROQ_API_KEY.
+ * Uses the provider chosen in Settings, resolved by the caller.
  */
 
+import { chatCompletion, stripCodeFence, type LLMConfig } from './processor/llmInterface';
+
 type DataRow = Record<string, unknown>;
 
 // ─── Types ───────────────────────────────────────────────────────────────────
@@ -211,26 +213,7 @@ interface AIEnhancement {
   critical_issues: string[];
 }
 
-function getLLMConfig() {
-  const groqKey = import.meta.env.VITE_GROQ_API_KEY;
-  const googleKey = import.meta.env.VITE_GOOGLE_API_KEY;
-  if (groqKey) return { apiKey: groqKey, provider: 'groq' as const };
-  if (googleKey) return { apiKey: googleKey, provider: 'google' as const };
-  return null;
-}
-
-function getEndpoint(provider: 'groq' | 'google'): string {
-  if (provider === 'google') return 'https://generativelanguage.googleapis.com/v1beta/openai/chat/completions';
-  return 'https://api.groq.com/openai/v1/chat/completions';
-}
-
-function getModel(provider: 'groq' | 'google'): string {
-  if (provider === 'google') return 'gemini-2.0-flash';
-  return 'llama-3.3-70b-specdec';
-}
-
-async function fetchAIEnhancement(data: DataRow[]): Promise<AIEnhancement | null> {
-  const config = getLLMConfig();
+async function fetchAIEnhancement(data: DataRow[], config: LLMConfig | null): Promise<AIEnhancement | null> {
   if (!config) return null;
 
   const columns = Object.keys(data[0] || {});
@@ -246,28 +229,11 @@ Sample data (first 15 rows):
 ${JSON.stringify(sample, null, 1)}`;
 
   try {
-    const response = await fetch(getEndpoint(config.provider), {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${config.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: getModel(config.provider),
-        messages: [
-          { role: 'system', content: AI_ANALYSIS_PROMPT },
-          { role: 'user', content: prompt },
-        ],
-        temperature: 0,
-        max_tokens: 4096,
-      }),
-    });
-
-    if (!response.ok) return null;
-
-    const json = await response.json();
-    const content: string = json.choices?.[0]?.message?.content ?? '';
-    const cleaned = content.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/i, '').trim();
+    const content = await chatCompletion(config, [
+      { role: 'system', content: AI_ANALYSIS_PROMPT },
+      { role: 'user', content: prompt },
+    ]);
+    const cleaned = stripCodeFence(content);
     return JSON.parse(cleaned) as AIEnhancement;
   } catch {
     return null;
@@ -278,8 +244,10 @@ ${JSON.stringify(sample, null, 1)}`;
 
 export type AnalysisProgress = (info: { phase: 'local' | 'ai' | 'done' | 'error'; message: string }) => void;
 
+/** Local column analysis, enhanced by the LLM when `llm` is set (see resolveLLMConfig). */
 export async function analyzeDataset(
   data: DataRow[],
+  llm: LLMConfig | null,
   onProgress?: AnalysisProgress
 ): Promise<DatasetAnalysis> {
   if (data.length === 0) {
@@ -306,7 +274,7 @@ export async function analyzeDataset(
 
   // AI enhancement
   onProgress?.({ phase: 'ai', message: 'AI is analyzing your dataset for deeper insights...' });
-  const aiResult = await fetchAIEnhancement(data);
+  const aiResult = await fetchAIEnhancement(data, llm);
 
   // Merge AI insights into local results
   if (aiResult) {
@@ -363,114 +331,165 @@ export async function analyzeDataset(
 
 // ─── Apply Fixes ─────────────────────────────────────────────────────────────
 
-export function applySelectedFixes(data: DataRow[], fixes: SuggestedFix[]): DataRow[] {
-  const enabledFixes = fixes.filter(f => f.enabled);
-  if (enabledFixes.length === 0) return data;
+// Statistics a fix works out from the whole column (a median, outlier bounds), keyed by fix id
+export type FixParameter = number | { lower: number; upper: number };
+export type FixParameters = Map<string, FixParameter>;
 
-  const result = data.map(row => ({ ...row }));
-  const columns = Object.keys(result[0] || {});
+// Fixes whose result depends on every value in the column, not just the cell
+const STATISTIC_FIXES = ['fill_missing_with_median', 'cap_outliers'];
 
-  // Group fixes by column
-  const fixesByColumn = new Map<string, SuggestedFix[]>();
-  for (const fix of enabledFixes) {
-    const list = fixesByColumn.get(fix.column) || [];
+const isBlank = (v: unknown) => v === null || v === undefined || String(v).trim() === '';
+const isMissingCell = (v: unknown) => isBlank(v) || String(v).trim().toLowerCase() === 'nan';
+
+function columnNumbers(values: unknown[]): number[] {
+  return values.filter(v => !isBlank(v)).map(v => parseFloat(String(v).replace(/,/g, ''))).filter(n => !isNaN(n));
+}
+
+function groupByColumn(fixes: SuggestedFix[]): Map<string, SuggestedFix[]> {
+  const byColumn = new Map<string, SuggestedFix[]>();
+  for (const fix of fixes) {
+    if (!fix.enabled) continue;
+    const list = byColumn.get(fix.column) || [];
     list.push(fix);
-    fixesByColumn.set(fix.column, list);
+    byColumn.set(fix.column, list);
   }
+  return byColumn;
+}
 
-  for (const [col, colFixes] of fixesByColumn) {
-    if (!columns.includes(col)) continue;
+// The statistic a fix needs, from the column as earlier fixes left it; undefined when there is too little data
+function fixParameter(values: unknown[], fix: SuggestedFix): FixParameter | undefined {
+  switch (fix.action) {
+    case 'fill_missing_with_median': {
+      const sorted = columnNumbers(values).sort((a, b) => a - b);
+      if (sorted.length === 0) return undefined;
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    }
+    case 'cap_outliers': {
+      const sorted = columnNumbers(values).sort((a, b) => a - b);
+      if (sorted.length < 5) return undefined;
+      const q1 = sorted[Math.floor(sorted.length * 0.25)];
+      const q3 = sorted[Math.floor(sorted.length * 0.75)];
+      const iqr = q3 - q1;
+      return { lower: q1 - 1.5 * iqr, upper: q3 + 1.5 * iqr };
+    }
+    default:
+      return undefined;
+  }
+}
 
-    for (const fix of colFixes) {
-      switch (fix.action) {
-        case 'fill_missing_with_median': {
-          const nums = result.map(r => r[col]).filter(v => v !== null && v !== undefined && String(v).trim() !== '').map(v => parseFloat(String(v).replace(/,/g, ''))).filter(n => !isNaN(n));
-          if (nums.length === 0) break;
-          const sorted = [...nums].sort((a, b) => a - b);
-          const mid = Math.floor(sorted.length / 2);
-          const median = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
-          for (const row of result) {
-            const v = row[col];
-            if (v === null || v === undefined || String(v).trim() === '' || String(v).trim().toLowerCase() === 'nan') {
-              row[col] = Math.round(median * 100) / 100;
-            }
-          }
-          break;
-        }
-        case 'fill_missing_with_unknown': {
-          for (const row of result) {
-            const v = row[col];
-            if (v === null || v === undefined || String(v).trim() === '' || String(v).trim().toLowerCase() === 'nan') {
-              row[col] = 'Unknown';
-            }
-          }
-          break;
-        }
-        case 'convert_to_number': {
-          for (const row of result) {
-            const v = row[col];
-            if (v !== null && v !== undefined) {
-              const num = parseFloat(String(v).replace(/[,$]/g, ''));
-              if (!isNaN(num)) row[col] = num;
-            }
-          }
-          break;
-        }
-        case 'standardize_case': {
-          for (const row of result) {
-            const v = row[col];
-            if (typeof v === 'string') {
-              row[col] = titleCase(v);
-            }
-          }
-          break;
-        }
-        case 'trim_whitespace': {
-          for (const row of result) {
-            if (typeof row[col] === 'string') {
-              row[col] = (row[col] as string).trim();
-            }
-          }
-          break;
+// Apply one fix to a column's values in place
+function fixColumn(values: unknown[], fix: SuggestedFix, param: FixParameter | undefined): void {
+  switch (fix.action) {
+    case 'fill_missing_with_median': {
+      if (typeof param !== 'number') break;
+      const median = Math.round(param * 100) / 100;
+      values.forEach((v, i) => {
+        if (isMissingCell(v)) values[i] = median;
+      });
+      break;
+    }
+    case 'fill_missing_with_unknown': {
+      values.forEach((v, i) => {
+        if (isMissingCell(v)) values[i] = 'Unknown';
+      });
+      break;
+    }
+    case 'convert_to_number': {
+      values.forEach((v, i) => {
+        if (v !== null && v !== undefined) {
+          const num = parseFloat(String(v).replace(/[,$]/g, ''));
+          if (!isNaN(num)) values[i] = num;
         }
-        case 'normalize_dates': {
-          for (const row of result) {
-            const v = row[col];
-            if (v !== null && v !== undefined && String(v).trim() !== '') {
-              const d = new Date(String(v));
-              if (!isNaN(d.getTime())) {
-                row[col] = d.toISOString().split('T')[0];
-              }
-            }
-          }
-          break;
+      });
+      break;
+    }
+    case 'standardize_case': {
+      values.forEach((v, i) => {
+        if (typeof v === 'string') values[i] = titleCase(v);
+      });
+      break;
+    }
+    case 'trim_whitespace': {
+      values.forEach((v, i) => {
+        if (typeof v === 'string') values[i] = v.trim();
+      });
+      break;
+    }
+    case 'normalize_dates': {
+      values.forEach((v, i) => {
+        if (v !== null && v !== undefined && String(v).trim() !== '') {
+          const d = new Date(String(v));
+          if (!isNaN(d.getTime())) values[i] = d.toISOString().split('T')[0];
         }
-        case 'cap_outliers': {
-          const nums = result.map(r => r[col]).filter(v => v !== null && v !== undefined && String(v).trim() !== '').map(v => parseFloat(String(v).replace(/,/g, ''))).filter(n => !isNaN(n));
-          if (nums.length < 5) break;
-          const sorted = [...nums].sort((a, b) => a - b);
-          const q1 = sorted[Math.floor(sorted.length * 0.25)];
-          const q3 = sorted[Math.floor(sorted.length * 0.75)];
-          const iqr = q3 - q1;
-          const lower = q1 - 1.5 * iqr;
-          const upper = q3 + 1.5 * iqr;
-          for (const row of result) {
-            const v = row[col];
-            if (v !== null && v !== undefined) {
-              const num = parseFloat(String(v).replace(/,/g, ''));
-              if (!isNaN(num)) {
-                if (num < lower) row[col] = Math.round(lower * 100) / 100;
-                else if (num > upper) row[col] = Math.round(upper * 100) / 100;
-              }
-            }
+      });
+      break;
+    }
+    case 'cap_outliers': {
+      if (typeof param !== 'object') break;
+      const lower = Math.round(param.lower * 100) / 100;
+      const upper = Math.round(param.upper * 100) / 100;
+      values.forEach((v, i) => {
+        if (v !== null && v !== undefined) {
+          const num = parseFloat(String(v).replace(/,/g, ''));
+          if (!isNaN(num)) {
+            if (num < param.lower) values[i] = lower;
+            else if (num > param.upper) values[i] = upper;
           }
-          break;
         }
-        default:
-          // AI-suggested or unknown actions — skip gracefully
-          break;
-      }
+      });
+      break;
     }
+    default:
+      // AI-suggested or unknown actions — skip gracefully
+      break;
+  }
+}
+
+/** Columns whose fixes need whole-column statistics, which a batch on its own cannot supply. */
+export function statisticColumns(fixes: SuggestedFix[]): string[] {
+  return [...groupByColumn(fixes)].filter(([, list]) => list.some(f => STATISTIC_FIXES.includes(f.action))).map(([col]) => col);
+}
+
+/**
+ * Work out the statistics for each fix from complete columns, so every batch
+ * of a streamed file is fixed with the same values. The column arrays are
+ * fixed in place along the way.
+ */
+export function fixParameters(columns: Map<string, unknown[]>, fixes: SuggestedFix[]): FixParameters {
+  const params: FixParameters = new Map();
+  for (const [col, colFixes] of groupByColumn(fixes)) {
+    const values = columns.get(col);
+    if (!values) continue;
+    for (const fix of colFixes) {
+      const param = fixParameter(values, fix);
+      if (param !== undefined) params.set(fix.id, param);
+      fixColumn(values, fix, param);
+    }
+  }
+  return params;
+}
+
+/**
+ * Apply the enabled fixes. Medians and outlier bounds come from `params` when
+ * given (see fixParameters), otherwise from the rows themselves.
+ */
+export function applySelectedFixes(data: DataRow[], fixes: SuggestedFix[], params?: FixParameters): DataRow[] {
+  const fixesByColumn = groupByColumn(fixes);
+  if (fixesByColumn.size === 0) return data;
+
+  const result = data.map(row => ({ ...row }));
+  const columns = Object.keys(result[0] || {});
+
+  for (const [col, colFixes] of fixesByColumn) {
+    if (!columns.includes(col)) continue;
+    const values = result.map(r => r[col]);
+    for (const fix of colFixes) {
+      fixColumn(values, fix, params ? params.get(fix.id) : fixParameter(values, fix));
+    }
+    result.forEach((row, i) => {
+      if (values[i] !== row[col]) row[col] = values[i];
+    });
   }
 
   return result;
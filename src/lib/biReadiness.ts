@@ -11,8 +11,11 @@
  * - Ghost data detection (whitespace, hidden chars)
  * - Domain constraint validation (temporal logic, range checks)
  * - Reconciliation audit (row-count ledger, distribution shift, edge-case sampling)
+ * - Row-level reconciliation keyed on a column (added/removed/changed rows)
  */
 
+import { ColumnarTable, collectColumns } from './columnar';
+
 type DataRow = Record<string, unknown>;
 
 // ─── Types ───────────────────────────────────────────────────────────────────
@@ -74,6 +77,35 @@ export interface SchemaChange {
   detail: string;
 }
 
+export interface RowChange {
+  key: string;
+  before: DataRow;
+  after: DataRow;
+  columns: string[];
+}
+
+export interface ColumnChangeCount {
+  column: string;
+  status: 'shared' | 'added' | 'removed';
+  changed: number;
+}
+
+export interface RowReconciliation {
+  keyColumn: string;
+  rowCountBefore: number;
+  rowCountAfter: number;
+  added: DataRow[];
+  removed: DataRow[];
+  changed: RowChange[];
+  unchanged: number;
+  columnChanges: ColumnChangeCount[];
+  // Rows sharing a key with an earlier row; matched to the other side in order of appearance
+  duplicateKeys: { before: number; after: number };
+  // Rows with a blank key can't be aligned and are left out
+  unkeyedRows: { before: number; after: number };
+  distributionShifts: DistributionShift[];
+}
+
 export interface GhostDataResult {
   column: string;
   leadingSpaces: number;
@@ -244,17 +276,17 @@ function checkAccuracy(data: DataRow[], columns: string[]): PillarResult {
   return { name: 'Accuracy', status: score >= 90 ? 'pass' : score >= 60 ? 'warn' : 'fail', score, checks, summary: `${checks.filter(c => c.passed).length}/${checks.length} accuracy checks passed` };
 }
 
-function checkCompleteness(data: DataRow[], columns: string[]): PillarResult {
+const isMissingCell = (v: unknown) =>
+  v === null || v === undefined || String(v).trim() === '' || String(v).trim().toLowerCase() === 'nan';
+
+function checkCompleteness(data: DataRow[], columns: string[], table: ColumnarTable): PillarResult {
   const checks: PillarCheck[] = [];
   const totalCells = data.length * columns.length;
   let totalMissing = 0;
 
   // Per-column completeness
   for (const col of columns) {
-    const missing = data.filter(r => {
-      const v = r[col];
-      return v === null || v === undefined || String(v).trim() === '' || String(v).trim().toLowerCase() === 'nan';
-    }).length;
+    const missing = table.countWhere(col, isMissingCell);
     totalMissing += missing;
     const pct = (missing / data.length) * 100;
 
@@ -419,7 +451,7 @@ function checkTimeliness(data: DataRow[], columns: string[]): PillarResult {
   return { name: 'Timeliness', status: score >= 90 ? 'pass' : score >= 60 ? 'warn' : 'fail', score, checks, summary: checks.length > 0 ? checks[0].message : 'N/A' };
 }
 
-function checkValidity(data: DataRow[], columns: string[]): PillarResult {
+function checkValidity(data: DataRow[], columns: string[], table: ColumnarTable): PillarResult {
   const checks: PillarCheck[] = [];
 
   // Email validation
@@ -476,11 +508,7 @@ function checkValidity(data: DataRow[], columns: string[]): PillarResult {
   // Check encoding issues (common garbled characters)
   const encodingIssues: { col: string; count: number }[] = [];
   for (const col of columns) {
-    let count = 0;
-    for (const row of data) {
-      const v = String(row[col] || '');
-      if (/[ï¿½Ã¢Ã©Ã¨Ã¼Â°Â©Â®]/.test(v)) count++;
-    }
+    const count = table.countWhere(col, v => /[ï¿½Ã¢Ã©Ã¨Ã¼Â°Â©Â®]/.test(String(v || '')));
     if (count > 0) encodingIssues.push({ col, count });
   }
   if (encodingIssues.length > 0) {
@@ -497,10 +525,7 @@ function checkValidity(data: DataRow[], columns: string[]): PillarResult {
   let totalNanStrings = 0;
   const nanCols: string[] = [];
   for (const col of columns) {
-    const count = data.filter(r => {
-      const v = String(r[col] || '').trim().toLowerCase();
-      return nanStrings.includes(v);
-    }).length;
+    const count = table.countWhere(col, v => nanStrings.includes(String(v || '').trim().toLowerCase()));
     if (count > 0) {
       totalNanStrings += count;
       nanCols.push(`${col} (${count})`);
@@ -526,30 +551,50 @@ function checkValidity(data: DataRow[], columns: string[]): PillarResult {
 
 // ─── Reconciliation Audit ────────────────────────────────────────────────────
 
-export function generateReconciliationAudit(
+// Number() without its blank-string-is-0 rule
+const parsePresent = (value: string) => (value.trim() === '' ? NaN : Number(value));
+
+// Mean and population standard deviation over the non-NaN entries
+function columnMoments(values: Float64Array): { count: number; mean: number; stdDev: number } {
+  let count = 0;
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (Number.isNaN(values[i])) continue;
+    count++;
+    sum += values[i];
+  }
+  const mean = count > 0 ? sum / count : 0;
+  let squares = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (!Number.isNaN(values[i])) squares += (values[i] - mean) ** 2;
+  }
+  return { count, mean, stdDev: count > 0 ? Math.sqrt(squares / count) : 0 };
+}
+
+// Mean/std-dev drift of numeric columns, matching renamed columns by normalized name
+export function computeDistributionShifts(
   originalData: DataRow[],
   cleanedData: DataRow[],
   originalColumns: string[],
   cleanedColumns: string[]
-): ReconciliationAudit {
-  const rowsDropped = originalData.length - cleanedData.length;
+): DistributionShift[] {
+  const originalTable = ColumnarTable.fromRows(originalData, { columns: originalColumns });
+  const cleanedTable = ColumnarTable.fromRows(cleanedData, { columns: cleanedColumns });
 
-  // Distribution shift analysis for numeric columns
   const distributionShifts: DistributionShift[] = [];
   for (const col of cleanedColumns) {
     const origCol = originalColumns.find(c => c.toLowerCase().replace(/[^a-z0-9]/g, '_') === col.toLowerCase().replace(/[^a-z0-9]/g, '_')) || col;
-    
-    const origNums = originalData.map(r => Number(r[origCol])).filter(n => !isNaN(n));
-    const cleanNums = cleanedData.map(r => Number(r[col])).filter(n => !isNaN(n));
-    if (origNums.length < 5 || cleanNums.length < 5) continue;
+    if (!originalTable.hasColumn(origCol)) continue;
 
-    const mean = (arr: number[]) => arr.reduce((a, b) => a + b, 0) / arr.length;
-    const std = (arr: number[], m: number) => Math.sqrt(arr.reduce((a, v) => a + (v - m) ** 2, 0) / arr.length);
+    // Missing cells are left out rather than counted as 0, so imputation doesn't read as drift
+    const before = columnMoments(originalTable.numbers(origCol, { parse: parsePresent }));
+    const after = columnMoments(cleanedTable.numbers(col, { parse: parsePresent }));
+    if (before.count < 5 || after.count < 5) continue;
 
-    const meanB = mean(origNums);
-    const meanA = mean(cleanNums);
-    const stdB = std(origNums, meanB);
-    const stdA = std(cleanNums, meanA);
+    const meanB = before.mean;
+    const meanA = after.mean;
+    const stdB = before.stdDev;
+    const stdA = after.stdDev;
     const shift = meanB !== 0 ? Math.abs((meanA - meanB) / meanB) * 100 : 0;
 
     distributionShifts.push({
@@ -562,6 +607,19 @@ export function generateReconciliationAudit(
       isSignificant: shift > 5,
     });
   }
+  return distributionShifts;
+}
+
+export function generateReconciliationAudit(
+  originalData: DataRow[],
+  cleanedData: DataRow[],
+  originalColumns: string[],
+  cleanedColumns: string[]
+): ReconciliationAudit {
+  const rowsDropped = originalData.length - cleanedData.length;
+
+  // Distribution shift analysis for numeric columns
+  const distributionShifts = computeDistributionShifts(originalData, cleanedData, originalColumns, cleanedColumns);
 
   // Edge-case sampling
   const edgeCaseSamples: EdgeCaseSample[] = [];
@@ -609,6 +667,128 @@ export function generateReconciliationAudit(
   };
 }
 
+// ─── Row-level Reconciliation ────────────────────────────────────────────────
+
+const isBlankCell = (v: unknown) => v === null || v === undefined || (typeof v === 'string' && v.trim() === '');
+
+// Loose equality: blanks match each other, and '42' matches 42
+function sameCell(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (isBlankCell(a) || isBlankCell(b)) return isBlankCell(a) && isBlankCell(b);
+  return String(a) === String(b);
+}
+
+function keyRows(rows: DataRow[], keyColumn: string) {
+  const byKey = new Map<string, DataRow[]>();
+  let duplicates = 0;
+  let unkeyed = 0;
+  for (const row of rows) {
+    const raw = row[keyColumn];
+    if (isBlankCell(raw)) {
+      unkeyed++;
+      continue;
+    }
+    const key = String(raw).trim();
+    const bucket = byKey.get(key);
+    if (bucket) {
+      bucket.push(row);
+      duplicates++;
+    } else {
+      byKey.set(key, [row]);
+    }
+  }
+  return { byKey, duplicates, unkeyed };
+}
+
+/**
+ * Align two row sets on `keyColumn` and report added, removed and changed
+ * rows plus per-column change counts — the row-level counterpart of
+ * `generateReconciliationAudit`'s aggregate checks.
+ */
+export function reconcileRows(before: DataRow[], after: DataRow[], keyColumn: string): RowReconciliation {
+  const beforeColumns = collectColumns(before);
+  const afterColumns = collectColumns(after);
+  const afterSet = new Set(afterColumns);
+  const beforeSet = new Set(beforeColumns);
+  const shared = afterColumns.filter(c => beforeSet.has(c) && c !== keyColumn);
+
+  const left = keyRows(before, keyColumn);
+  const right = keyRows(after, keyColumn);
+  const changedPerColumn = new Map<string, number>(shared.map(c => [c, 0]));
+  const added: DataRow[] = [];
+  const removed: DataRow[] = [];
+  const changed: RowChange[] = [];
+  let unchanged = 0;
+
+  for (const [key, rightRows] of right.byKey) {
+    const leftRows = left.byKey.get(key) ?? [];
+    rightRows.forEach((row, i) => {
+      const prev = leftRows[i];
+      if (!prev) {
+        added.push(row);
+        return;
+      }
+      const columns = shared.filter(c => !sameCell(prev[c], row[c]));
+      if (columns.length === 0) {
+        unchanged++;
+        return;
+      }
+      columns.forEach(c => changedPerColumn.set(c, changedPerColumn.get(c) + 1));
+      changed.push({ key, before: prev, after: row, columns });
+    });
+  }
+  for (const [key, leftRows] of left.byKey) {
+    const matched = right.byKey.get(key)?.length ?? 0;
+    removed.push(...leftRows.slice(matched));
+  }
+
+  const columnChanges: ColumnChangeCount[] = [
+    ...shared.map(column => ({ column, status: 'shared' as const, changed: changedPerColumn.get(column) })),
+    ...afterColumns.filter(c => !beforeSet.has(c)).map(column => ({ column, status: 'added' as const, changed: 0 })),
+    ...beforeColumns.filter(c => !afterSet.has(c)).map(column => ({ column, status: 'removed' as const, changed: 0 })),
+  ];
+
+  return {
+    keyColumn,
+    rowCountBefore: before.length,
+    rowCountAfter: after.length,
+    added,
+    removed,
+    changed,
+    unchanged,
+    columnChanges,
+    duplicateKeys: { before: left.duplicates, after: right.duplicates },
+    unkeyedRows: { before: left.unkeyed, after: right.unkeyed },
+    distributionShifts: computeDistributionShifts(before, after, beforeColumns, afterColumns),
+  };
+}
+
+/**
+ * Flatten a reconciliation into exportable rows: one per added, removed or
+ * changed record, with a `_change` marker and `<column> (before)` cells for
+ * every changed value. Every row carries the same columns so CSV headers line up.
+ */
+export function reconciliationDiffRows(rec: RowReconciliation): DataRow[] {
+  const dataColumns = [rec.keyColumn, ...rec.columnChanges.map(c => c.column).filter(c => c !== rec.keyColumn)];
+  const changedColumns = rec.columnChanges.filter(c => c.status === 'shared' && c.changed > 0).map(c => c.column);
+
+  const toRow = (change: string, source: DataRow, previous?: RowChange): DataRow => {
+    const row: DataRow = { _change: change };
+    for (const col of dataColumns) row[col] = source[col] ?? null;
+    for (const col of changedColumns) {
+      row[`${col} (before)`] = previous?.columns.includes(col) ? previous.before[col] ?? null : null;
+    }
+    row._changed_columns = previous ? previous.columns.join(', ') : '';
+    return row;
+  };
+
+  return [
+    ...rec.changed.map(c => toRow('changed', c.after, c)),
+    ...rec.added.map(r => toRow('added', r)),
+    ...rec.removed.map(r => toRow('removed', r)),
+  ];
+}
+
 // ─── Main BI-Readiness Assessment ────────────────────────────────────────────
 
 export function assessBIReadiness(
@@ -625,13 +805,14 @@ export function assessBIReadiness(
   }
 
   const columns = Object.keys(data[0]);
+  const table = ColumnarTable.fromRows(data, { columns });
 
   const pillars: PillarResult[] = [
     checkAccuracy(data, columns),
-    checkCompleteness(data, columns),
+    checkCompleteness(data, columns, table),
     checkConsistency(data, columns),
     checkTimeliness(data, columns),
-    checkValidity(data, columns),
+    checkValidity(data, columns, table),
   ];
 
   const domainViolations = validateDomainConstraints(data);
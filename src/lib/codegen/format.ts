@@ -0,0 +1,100 @@
+/**
+ * Formatting shared by the pandas, SQL and PySpark renderers.
+ */
+
+import type { ExpressionNode } from '../pipeline';
+import type { CodeRecipe } from './recipe';
+
+// Same tokens as parseBoolean in dataCleaner, so generated code reads booleans identically
+export const TRUE_TOKENS = ['true', 'yes', '1', 'y', 't', 'on', 'active', 'enabled'];
+export const FALSE_TOKENS = ['false', 'no', '0', 'n', 'f', 'off', 'inactive', 'disabled'];
+
+export const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'];
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const LINE_WIDTH = 100;
+
+/** Header lines for a generated script, before the comment markers are added. */
+export function header(recipe: CodeRecipe, caveats: string[] = []): string[] {
+  return [
+    `${recipe.title}.`,
+    `Exported from DataTidy on ${new Date().toISOString().slice(0, 10)}.`,
+    `Input: ${recipe.table} (${recipe.columns.length} columns); output: ${recipe.output.length} columns.`,
+    ...recipe.notes,
+    ...caveats,
+  ];
+}
+
+/** `open item, item close` on one line, or one item per line when that is too long. */
+export function wrapList(open: string, items: string[], close: string, indent: string): string {
+  const flat = `${open}${items.join(', ')}${close}`;
+  if (indent.length + flat.length <= LINE_WIDTH) return flat;
+  return [open, ...items.map(item => `${indent}    ${item},`), `${indent}${close}`].join('\n');
+}
+
+/** Numeric-looking strings compare as numbers, the way the executor's compareValues does. */
+export function comparable(value: unknown): number | string | boolean | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  const text = String(value).trim();
+  const n = Number(text.replace(/[,$]/g, ''));
+  return text !== '' && !isNaN(n) ? n : text;
+}
+
+export const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** A Python literal; pandas and PySpark scripts share it. */
+export function py(v: unknown): string {
+  if (v === null || v === undefined) return 'None';
+  if (typeof v === 'boolean') return v ? 'True' : 'False';
+  if (typeof v === 'number') return Number.isFinite(v) ? String(v) : 'float("nan")';
+  return JSON.stringify(String(v));
+}
+
+// ─── Expressions ─────────────────────────────────────────────────────────────
+
+const NUMERIC_FUNCTIONS = ['abs', 'floor', 'ceil', 'sqrt', 'log', 'exp', 'round', 'pow', 'min', 'max', 'len', 'year', 'month', 'day'];
+const TEXT_FUNCTIONS = ['upper', 'lower', 'trim', 'concat'];
+export const ARITHMETIC = ['+', '-', '*', '/', '%', '^'];
+export const COMPARISONS = ['==', '!=', '<', '<=', '>', '>='];
+
+/** True when the expression reads no columns, so it evaluates to one value. */
+export function isScalar(node: ExpressionNode): boolean {
+  switch (node.kind) {
+    case 'lit':
+      return true;
+    case 'col':
+      return false;
+    case 'unary':
+      return isScalar(node.arg);
+    case 'binary':
+      return isScalar(node.left) && isScalar(node.right);
+    case 'call':
+      return node.args.every(isScalar);
+  }
+}
+
+/** Text results: string literals, text functions and `+` joining text. */
+export function isText(node: ExpressionNode): boolean {
+  if (node.kind === 'lit') return typeof node.value === 'string';
+  if (node.kind === 'call') return TEXT_FUNCTIONS.includes(node.fn);
+  if (node.kind === 'binary') return node.op === '+' && (isText(node.left) || isText(node.right));
+  return false;
+}
+
+/** Numeric results, which the executor rounds to 4 decimals. */
+export function isNumeric(node: ExpressionNode): boolean {
+  switch (node.kind) {
+    case 'lit':
+      return typeof node.value === 'number';
+    case 'unary':
+      return node.op !== '!';
+    case 'binary':
+      return ARITHMETIC.includes(node.op) && !isText(node);
+    case 'call':
+      return NUMERIC_FUNCTIONS.includes(node.fn);
+    default:
+      return false;
+  }
+}
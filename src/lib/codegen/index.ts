@@ -0,0 +1,33 @@
+import type { AiCodeBlock } from '@/store/workspace';
+import { renderPandas } from './pandas';
+import { renderPyspark } from './pyspark';
+import type { CodeRecipe } from './recipe';
+import { renderSql } from './sql';
+
+export {
+  pipelineRecipe,
+  cleaningRecipe,
+  opColumns,
+  tableName,
+  type CodeRecipe,
+  type CodeOp,
+  type RecipeStep,
+  type RecipeOptions,
+  type FillMethod,
+} from './recipe';
+export { renderPandas } from './pandas';
+export { renderSql } from './sql';
+export { renderPyspark } from './pyspark';
+
+export type CodeTarget = 'pandas' | 'sql' | 'pyspark';
+
+export const CODE_TARGETS: { key: CodeTarget; label: string; extension: string }[] = [
+  { key: 'pandas', label: 'pandas', extension: 'py' },
+  { key: 'sql', label: 'SQL', extension: 'sql' },
+  { key: 'pyspark', label: 'PySpark', extension: 'py' },
+];
+
+/** The recipe in every target language, shaped like the copilot's code block. */
+export function generateCode(recipe: CodeRecipe): AiCodeBlock {
+  return { python: '', pandas: renderPandas(recipe), sql: renderSql(recipe), pyspark: renderPyspark(recipe) };
+}
@@ -0,0 +1,405 @@
+/**
+ * pandas renderer — a CodeRecipe as a standalone Python script that reads
+ * the source CSV into a DataFrame, applies each operation in order and
+ * writes the result next to it.
+ */
+
+import type { ExpressionNode, FilterPredicate } from '../pipeline';
+import {
+  COMPARISONS,
+  FALSE_TOKENS,
+  TRUE_TOKENS,
+  comparable,
+  header,
+  isNumeric,
+  isScalar,
+  isText,
+  py,
+  round2,
+  wrapList,
+} from './format';
+import type { CodeOp, CodeRecipe } from './recipe';
+
+type Helper = 'bool' | 'title' | 'mode' | 'today';
+
+const HELPERS: Record<Helper, string[]> = {
+  bool: [
+    `_TRUE = {${TRUE_TOKENS.map(t => `"${t}"`).join(', ')}}`,
+    `_FALSE = {${FALSE_TOKENS.map(t => `"${t}"`).join(', ')}}`,
+    '',
+    '',
+    'def _to_bool(v):',
+    '    if pd.isna(v):',
+    '        return None',
+    '    s = str(v).strip().lower()',
+    '    return True if s in _TRUE else False if s in _FALSE else None',
+  ],
+  title: [
+    'def _title(v):',
+    '    if not isinstance(v, str):',
+    '        return v',
+    '    return " ".join(w[:1].upper() + w[1:].lower() for w in v.split())',
+  ],
+  mode: [
+    'def _fill_mode(s):',
+    '    top = s.mode()',
+    '    return s.fillna(top.iloc[0]) if len(top) else s',
+  ],
+  today: ['_TODAY = pd.Timestamp.today().strftime("%Y-%m-%d")'],
+};
+
+const pyList = (items: unknown[], indent = '') => wrapList('[', items.map(py), ']', indent);
+const col = (name: string) => `df[${py(name)}]`;
+const toDates = (expr: string) => `pd.to_datetime(${expr}, errors="coerce", format="mixed")`;
+
+// ─── Expressions ─────────────────────────────────────────────────────────────
+
+function pyExpr(node: ExpressionNode): string {
+  const wrap = (n: ExpressionNode) => (n.kind === 'binary' || n.kind === 'unary' ? `(${pyExpr(n)})` : pyExpr(n));
+  const series = (n: ExpressionNode) => (isScalar(n) ? `pd.Series(${pyExpr(n)}, index=df.index)` : wrap(n));
+  const text = (n: ExpressionNode) => {
+    if (n.kind === 'lit') return py(n.value === null ? '' : String(n.value));
+    return isScalar(n) ? `str(${pyExpr(n)})` : `${wrap(n)}.fillna("").astype(str)`;
+  };
+
+  switch (node.kind) {
+    case 'lit':
+      return py(node.value);
+    case 'col':
+      return col(node.name);
+    case 'unary':
+      if (node.op === '!') return `~${wrap(node.arg)}`;
+      return node.op === '-' ? `-${wrap(node.arg)}` : pyExpr(node.arg);
+    case 'binary': {
+      const { op, left, right } = node;
+      if (op === '&&') return `${wrap(left)} & ${wrap(right)}`;
+      if (op === '||') return `${wrap(left)} | ${wrap(right)}`;
+      if (COMPARISONS.includes(op)) return `${wrap(left)} ${op} ${wrap(right)}`;
+      if (op === '+' && isText(node)) return `${text(left)} + ${text(right)}`;
+      if (op === '^') return `${wrap(left)} ** ${wrap(right)}`;
+      // Division by zero is missing, not infinite
+      if (op === '/' || op === '%') return `${wrap(left)} ${op} ${isScalar(right) ? wrap(right) : `${wrap(right)}.replace(0, np.nan)`}`;
+      return `${wrap(left)} ${op} ${wrap(right)}`;
+    }
+    case 'call': {
+      const [a, b] = node.args;
+      switch (node.fn) {
+        case 'abs':
+        case 'floor':
+        case 'ceil':
+        case 'sqrt':
+        case 'log':
+        case 'exp':
+          return `np.${node.fn}(${pyExpr(a)})`;
+        case 'round':
+          return `np.round(${pyExpr(a)}, ${b ? pyExpr(b) : 0})`;
+        case 'pow':
+          return `${wrap(a)} ** ${wrap(b)}`;
+        case 'min':
+        case 'max':
+          return node.args.map(pyExpr).reduce((acc, arg) => `np.f${node.fn}(${acc}, ${arg})`);
+        case 'upper':
+        case 'lower':
+          return `${series(a)}.str.${node.fn}()`;
+        case 'trim':
+          return `${series(a)}.str.strip()`;
+        case 'len':
+          return `${series(a)}.fillna("").astype(str).str.len()`;
+        case 'concat':
+          return node.args.length > 0 ? node.args.map(text).join(' + ') : '""';
+        case 'coalesce':
+          return series(a) + node.args.slice(1).map(arg => `.fillna(${pyExpr(arg)})`).join('');
+        case 'if':
+          return `pd.Series(np.where(${pyExpr(a)}, ${pyExpr(b)}, ${pyExpr(node.args[2])}), index=df.index)`;
+        case 'isnull':
+          return `${series(a)}.isna()`;
+        case 'year':
+        case 'month':
+        case 'day':
+          return `${toDates(series(a))}.dt.${node.fn}`;
+      }
+      return 'None';
+    }
+  }
+}
+
+// ─── Operations ──────────────────────────────────────────────────────────────
+
+const COMPARE_OPS: Record<string, string> = { eq: '==', neq: '!=', gt: '>', gte: '>=', lt: '<', lte: '<=' };
+
+function pyPredicate(p: FilterPredicate): string {
+  const c = col(p.column);
+  const needle = py(String(p.value ?? '').toLowerCase());
+  const hay = `${c}.fillna("").astype(str).str.lower()`;
+  switch (p.op) {
+    case 'is_null':
+      return `${c}.isna()`;
+    case 'not_null':
+      return `${c}.notna()`;
+    case 'contains':
+      return `${hay}.str.contains(${needle}, regex=False)`;
+    case 'not_contains':
+      return `~${hay}.str.contains(${needle}, regex=False)`;
+    case 'starts_with':
+      return `${hay}.str.startswith(${needle})`;
+    case 'ends_with':
+      return `${hay}.str.endswith(${needle})`;
+    case 'in': {
+      const list = (Array.isArray(p.value) ? p.value : String(p.value ?? '').split(',')).map(comparable);
+      return list.every(v => typeof v === 'number')
+        ? `${c}.isin(${pyList(list)})`
+        : `${c}.astype(str).str.lower().isin(${pyList(list.map(v => String(v).toLowerCase()))})`;
+    }
+  }
+  // Text compares case-insensitively, like the executor
+  const value = comparable(p.value);
+  return typeof value === 'string'
+    ? `${c}.str.lower() ${COMPARE_OPS[p.op]} ${py(value.toLowerCase())}`
+    : `${c} ${COMPARE_OPS[p.op]} ${py(value)}`;
+}
+
+const AGG_FUNCTIONS: Record<string, string> = {
+  sum: 'sum', mean: 'mean', median: 'median', min: 'min', max: 'max', count: 'count', count_distinct: 'nunique',
+};
+const ROUNDED = ['sum', 'mean', 'median'];
+
+function fillLines(op: Extract<CodeOp, { kind: 'fill' }>, need: (h: Helper) => void): string[] {
+  const c = col(op.column);
+  const rounded = (stat: string) => {
+    const expr = `pd.to_numeric(${c}, errors="coerce").${stat}()`;
+    return op.digits === undefined ? expr : `round(${expr}, ${op.digits})`;
+  };
+  switch (op.method) {
+    case 'value':
+      return [`${c} = ${c}.fillna(${py(op.value)})`];
+    case 'mean':
+    case 'median':
+      return [`${c} = ${c}.fillna(${rounded(op.method)})`];
+    case 'mode':
+      need('mode');
+      return [`${c} = _fill_mode(${c})`];
+    case 'forward_fill':
+      return [`${c} = ${c}.ffill()`];
+    case 'backward_fill':
+      return [`${c} = ${c}.bfill()`];
+    case 'nearest':
+      return [`${c} = ${c}.ffill().bfill()`];
+    case 'today':
+      need('today');
+      return [`${c} = ${c}.fillna(_TODAY)`];
+  }
+}
+
+function opLines(op: CodeOp, need: (h: Helper) => void): string[] {
+  switch (op.kind) {
+    case 'trim': {
+      const clean = op.collapseSpaces ? '" ".join(v.split())' : 'v.strip()';
+      return [
+        `for col in ${pyList(op.columns)}:`,
+        // Cells left blank become missing, as DataTidy treats them
+        `    df[col] = df[col].map(lambda v: (${clean} or None) if isinstance(v, str) else v)`,
+      ];
+    }
+    case 'fill':
+      return fillLines(op, need);
+    case 'drop_missing':
+      return [`df = df.dropna(subset=${pyList(op.columns)})`];
+    case 'dedupe':
+      return [op.columns.length > 0
+        ? `df = df.drop_duplicates(subset=${pyList(op.columns)}, keep="${op.keep}")`
+        : `df = df.drop_duplicates(keep="${op.keep}")`];
+    case 'cast': {
+      const c = col(op.column);
+      switch (op.to) {
+        case 'numeric':
+          return [`${c} = pd.to_numeric(${c}.astype(str).str.replace(r"[,$]", "", regex=True), errors="coerce")`];
+        case 'boolean':
+          need('bool');
+          return [`${c} = ${c}.map(_to_bool)`];
+        case 'date':
+          return [`${c} = ${toDates(c)}.dt.strftime("%Y-%m-%d")`];
+        default:
+          return [`${c} = ${c}.map(lambda v: v if pd.isna(v) else str(v))`];
+      }
+    }
+    case 'text_case': {
+      if (op.case === 'title') need('title');
+      const convert = op.case === 'title' ? '_title' : `lambda v: v.${op.case}() if isinstance(v, str) else v`;
+      return [`for col in ${pyList(op.columns)}:`, `    df[col] = df[col].map(${convert})`];
+    }
+    case 'filter': {
+      const masks = op.predicates.map(pyPredicate);
+      const joined = masks.length === 1 ? masks[0] : masks.map(m => `(${m})`).join(op.combine === 'or' ? ' | ' : ' & ');
+      return [`df = df[${joined}]`];
+    }
+    case 'sort':
+      return [
+        'df = df.sort_values(',
+        `    ${pyList(op.keys.map(k => k.column), '    ')},`,
+        `    ascending=${pyList(op.keys.map(k => k.direction === 'asc'), '    ')},`,
+        '    na_position="last",',
+        '    kind="stable",',
+        '    key=lambda s: s.str.lower() if s.dtype == object else s,',
+        ')',
+      ];
+    case 'group': {
+      const rounded = op.aggregations.filter(a => ROUNDED.includes(a.fn)).map(a => a.as);
+      const roundLine = rounded.length > 0 ? [`df[${pyList(rounded)}] = df[${pyList(rounded)}].round(4)`] : [];
+      if (op.by.length === 0) {
+        const cells = op.aggregations.map(a => `${py(a.as)}: ${col(a.column)}.${AGG_FUNCTIONS[a.fn]}()`);
+        return [`df = pd.DataFrame([${wrapList('{', cells, '}', '')}])`, ...roundLine];
+      }
+      return [
+        `df = df.groupby(${pyList(op.by)}, sort=False, dropna=False).agg(**{`,
+        ...op.aggregations.map(a => `    ${py(a.as)}: (${py(a.column)}, "${AGG_FUNCTIONS[a.fn]}"),`),
+        '}).reset_index()',
+        ...roundLine,
+      ];
+    }
+    case 'pivot': {
+      const fn = `"${AGG_FUNCTIONS[op.fn]}"`;
+      const headers = `${col(op.column)} = ${col(op.column)}.map(lambda v: "null" if pd.isna(v) else str(v))`;
+      if (op.index.length === 0) {
+        return [headers, `df = df.groupby(${py(op.column)}, sort=False)[${py(op.value)}].agg(${fn}).to_frame().T.reset_index(drop=True)`];
+      }
+      return [
+        headers,
+        'df = df.pivot_table(',
+        `    index=${pyList(op.index, '    ')}, columns=${py(op.column)}, values=${py(op.value)},`,
+        `    aggfunc=${fn}, sort=False, dropna=False,`,
+        ').reset_index()',
+        'df.columns.name = None',
+      ];
+    }
+    case 'unpivot':
+      // melt stacks column by column; the stable sort restores one block per input row
+      return [
+        'df = df.melt(',
+        `    id_vars=${pyList(op.index, '    ')},`,
+        `    value_vars=${pyList(op.valueColumns, '    ')},`,
+        `    var_name=${py(op.variableName)},`,
+        `    value_name=${py(op.valueName)},`,
+        '    ignore_index=False,',
+        ').sort_index(kind="stable").reset_index(drop=True)',
+      ];
+    case 'join': {
+      const renames = op.rightColumns.filter(c => c.from !== c.to).map(c => `${py(c.from)}: ${py(c.to)}`);
+      const read = `right = pd.read_csv("${op.table}.csv")`;
+      const lines = [renames.length > 0 ? `${read}.rename(columns=${wrapList('{', renames, '}', '')})` : read];
+      if (op.leftKey === op.rightKey) {
+        return [...lines, `df = df.merge(right, how="${op.how}", on=${py(op.leftKey)})`];
+      }
+      lines.push(`df = df.merge(right, how="${op.how}", left_on=${py(op.leftKey)}, right_on=${py(op.rightKey)})`);
+      if (op.how === 'right' || op.how === 'outer') lines.push(`${col(op.leftKey)} = ${col(op.leftKey)}.fillna(${col(op.rightKey)})`);
+      return [...lines, `df = df.drop(columns=[${py(op.rightKey)}])`];
+    }
+    case 'calc': {
+      const expr = pyExpr(op.expression);
+      return [`# ${op.source.replace(/\s+/g, ' ')}`, `${col(op.name)} = ${isNumeric(op.expression) ? `np.round(${expr}, 4)` : expr}`];
+    }
+    case 'rename':
+      return [`df = df.rename(columns=${wrapList('{', op.renames.map(r => `${py(r.from)}: ${py(r.to)}`), '}', '')})`];
+    case 'scale':
+      // Columns with no spread are left as they are
+      return op.method === 'min_max'
+        ? [
+            `for col in ${pyList(op.columns)}:`,
+            '    lo, hi = df[col].min(), df[col].max()',
+            '    if hi > lo:',
+            '        df[col] = ((df[col] - lo) / (hi - lo)).round(4)',
+          ]
+        : [
+            `for col in ${pyList(op.columns)}:`,
+            '    mean, std = df[col].mean(), df[col].std(ddof=0)',
+            '    if std > 0:',
+            '        df[col] = ((df[col] - mean) / std).round(4)',
+          ];
+    case 'one_hot':
+      return [
+        `values = ${col(op.column)}.map(lambda v: None if pd.isna(v) else str(v))`,
+        ...op.categories.map(e => `${col(e.name)} = (values == ${py(e.value)}).astype(int)`),
+        ...(op.keepOriginal ? [] : [`df = df.drop(columns=[${py(op.column)}])`]),
+      ];
+    case 'bucketize':
+      // Buckets include their lower edge: [a, b)
+      return [
+        `${col(op.as)} = pd.cut(`,
+        `    ${col(op.column)},`,
+        `    bins=${wrapList('[', ['-np.inf', ...op.edges.map(String), 'np.inf'], ']', '    ')},`,
+        `    labels=${pyList(op.labels, '    ')},`,
+        '    right=False,',
+        '    ordered=False,',
+        ').astype(object)',
+      ];
+    case 'map_values': {
+      const mapping = wrapList('{', Object.entries(op.mapping).map(([k, v]) => `${py(k)}: ${py(v)}`), '}', '');
+      return op.otherwise === null
+        ? [`${col(op.column)} = ${col(op.column)}.replace(${mapping})`]
+        : [`${col(op.column)} = ${col(op.column)}.astype(str).str.strip().map(${mapping}).fillna(${py(op.otherwise)})`];
+    }
+    case 'outliers': {
+      const c = col(op.column);
+      if (op.handling === 'remove') return [`df = df[${c}.isna() | ${c}.between(${op.lower}, ${op.upper})]`];
+      if (op.handling === 'flag') return [`${col(`${op.column}_outlier`)} = (${c} < ${op.lower}) | (${c} > ${op.upper})`];
+      return [
+        `df.loc[${c} < ${op.lower}, ${py(op.column)}] = ${round2(op.lower)}`,
+        `df.loc[${c} > ${op.upper}, ${py(op.column)}] = ${round2(op.upper)}`,
+      ];
+    }
+    case 'clamp': {
+      const bounds = [op.min !== null ? `lower=${op.min}` : null, op.max !== null ? `upper=${op.max}` : null].filter(Boolean);
+      return [`${col(op.column)} = ${col(op.column)}.clip(${bounds.join(', ')})`];
+    }
+    case 'absolute':
+      return [`${col(op.column)} = ${col(op.column)}.abs()`];
+    case 'date_parts': {
+      const fallback = op.fallback ? `pd.Timestamp("${op.fallback}")` : 'pd.Timestamp.today().normalize()';
+      const name = (suffix: string) => col(`${op.column}${suffix}`);
+      return [
+        `dates = ${toDates(col(op.column))}.fillna(${fallback})`,
+        `${name('_year')} = dates.dt.year`,
+        `${name('_quarter')} = "Q" + dates.dt.quarter.astype(str)`,
+        `${name('_month')} = dates.dt.month`,
+        `${name('_month_name')} = dates.dt.month_name()`,
+        `${name('_day_of_week')} = dates.dt.day_name()`,
+      ];
+    }
+    case 'zero_blank': {
+      if (op.dates.length > 0) need('today');
+      const fills = [
+        ...op.numeric.map(c => `${py(c)}: 0`),
+        ...op.dates.map(c => `${py(c)}: _TODAY`),
+        ...op.text.map(c => `${py(c)}: "Unknown"`),
+      ];
+      return [`df = df.fillna(${wrapList('{', fills, '}', '')})`];
+    }
+  }
+}
+
+/** The recipe as a pandas script (pandas 2.x). */
+export function renderPandas(recipe: CodeRecipe): string {
+  const used = new Set<Helper>();
+  const need = (h: Helper) => used.add(h);
+  const body: string[] = [];
+  recipe.steps.forEach((step, i) => {
+    body.push('', `# ${i + 1}. ${step.label}`);
+    step.ops.forEach(op => body.push(...opLines(op, need)));
+  });
+
+  const helpers = (Object.keys(HELPERS) as Helper[]).filter(h => used.has(h));
+  return [
+    '"""',
+    ...header(recipe, ['Requires pandas 2.x. Values that cannot be converted to a type become missing.']),
+    '"""',
+    '',
+    'import numpy as np',
+    'import pandas as pd',
+    '',
+    ...helpers.flatMap(h => [...HELPERS[h], '', '']),
+    `df = pd.read_csv("${recipe.table}.csv")`,
+    ...body,
+    '',
+    `df = df.reindex(columns=${pyList(recipe.output)})`,
+    `df.to_csv("${recipe.table}_clean.csv", index=False)`,
+  ].join('\n') + '\n';
+}
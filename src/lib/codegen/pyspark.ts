@@ -0,0 +1,414 @@
+/**
+ * PySpark renderer — a CodeRecipe as a Spark job using DataFrame functions.
+ * A `_row` ordinal is attached on read and carried through every step, so
+ * fills, de-duplication and the written output keep the input order.
+ */
+
+import type { ExpressionNode, FilterPredicate } from '../pipeline';
+import {
+  COMPARISONS,
+  FALSE_TOKENS,
+  TRUE_TOKENS,
+  comparable,
+  header,
+  isNumeric,
+  isText,
+  py,
+  round2,
+  wrapList,
+} from './format';
+import { opColumns, type CodeOp, type CodeRecipe } from './recipe';
+
+const pyList = (items: unknown[], indent = '') => wrapList('[', items.map(py), ']', indent);
+const col = (name: string) => `F.col(${py(name)})`;
+const str = (expr: string) => `${expr}.cast("string")`;
+const today = 'F.date_format(F.current_date(), "yyyy-MM-dd")';
+const withColumn = (name: string, expr: string) => `df = df.withColumn(${py(name)}, ${expr})`;
+
+// ─── Expressions ─────────────────────────────────────────────────────────────
+
+function sparkExpr(node: ExpressionNode): string {
+  const wrap = (n: ExpressionNode) => (n.kind === 'binary' || n.kind === 'unary' ? `(${sparkExpr(n)})` : sparkExpr(n));
+  const text = (n: ExpressionNode) => `F.coalesce(${str(wrap(n))}, F.lit(""))`;
+
+  switch (node.kind) {
+    case 'lit':
+      return `F.lit(${py(node.value)})`;
+    case 'col':
+      return col(node.name);
+    case 'unary':
+      if (node.op === '!') return `~${wrap(node.arg)}`;
+      return node.op === '-' ? `-${wrap(node.arg)}` : sparkExpr(node.arg);
+    case 'binary': {
+      const { op, left, right } = node;
+      if (op === '&&') return `${wrap(left)} & ${wrap(right)}`;
+      if (op === '||') return `${wrap(left)} | ${wrap(right)}`;
+      if (COMPARISONS.includes(op)) return `${wrap(left)} ${op} ${wrap(right)}`;
+      if (op === '+' && isText(node)) return `F.concat(${text(left)}, ${text(right)})`;
+      if (op === '^') return `F.pow(${sparkExpr(left)}, ${sparkExpr(right)})`;
+      // Division by zero is null
+      if (op === '/' || op === '%') return `${wrap(left)} ${op} F.when(${wrap(right)} != 0, ${sparkExpr(right)})`;
+      return `${wrap(left)} ${op} ${wrap(right)}`;
+    }
+    case 'call': {
+      const [a, b, c] = node.args;
+      switch (node.fn) {
+        case 'abs':
+        case 'floor':
+        case 'ceil':
+        case 'sqrt':
+        case 'log':
+        case 'exp':
+        case 'upper':
+        case 'lower':
+        case 'trim':
+          return `F.${node.fn}(${sparkExpr(a)})`;
+        case 'round':
+          return `F.round(${sparkExpr(a)}, ${b?.kind === 'lit' ? Number(b.value) || 0 : 0})`;
+        case 'pow':
+          return `F.pow(${sparkExpr(a)}, ${sparkExpr(b)})`;
+        case 'min':
+        case 'max':
+          if (node.args.length === 1) return sparkExpr(a);
+          return `F.${node.fn === 'min' ? 'least' : 'greatest'}(${node.args.map(sparkExpr).join(', ')})`;
+        case 'len':
+          return `F.coalesce(F.length(${str(wrap(a))}), F.lit(0))`;
+        case 'concat':
+          return node.args.length > 0 ? `F.concat(${node.args.map(text).join(', ')})` : 'F.lit("")';
+        case 'coalesce':
+          return `F.coalesce(${node.args.map(sparkExpr).join(', ')})`;
+        case 'if':
+          return `F.when(${sparkExpr(a)}, ${sparkExpr(b)}).otherwise(${sparkExpr(c)})`;
+        case 'isnull':
+          return `${wrap(a)}.isNull()`;
+        case 'year':
+        case 'month':
+          return `F.${node.fn}(F.to_date(${sparkExpr(a)}))`;
+        case 'day':
+          return `F.dayofmonth(F.to_date(${sparkExpr(a)}))`;
+      }
+      return 'F.lit(None)';
+    }
+  }
+}
+
+// ─── Operations ──────────────────────────────────────────────────────────────
+
+const COMPARE_OPS: Record<string, string> = { eq: '==', neq: '!=', gt: '>', gte: '>=', lt: '<', lte: '<=' };
+
+function sparkPredicate(p: FilterPredicate): string {
+  const c = col(p.column);
+  const needle = py(String(p.value ?? '').toLowerCase());
+  const hay = `F.lower(${str(c)})`;
+  switch (p.op) {
+    case 'is_null':
+      return `${c}.isNull()`;
+    case 'not_null':
+      return `${c}.isNotNull()`;
+    case 'contains':
+      return `${hay}.contains(${needle})`;
+    case 'not_contains':
+      return `${c}.isNull() | ~${hay}.contains(${needle})`;
+    case 'starts_with':
+      return `${hay}.startswith(${needle})`;
+    case 'ends_with':
+      return `${hay}.endswith(${needle})`;
+    case 'in': {
+      const list = (Array.isArray(p.value) ? p.value : String(p.value ?? '').split(',')).map(comparable);
+      return list.every(v => typeof v === 'number')
+        ? `${c}.isin(${pyList(list)})`
+        : `${hay}.isin(${pyList(list.map(v => String(v).toLowerCase()))})`;
+    }
+  }
+  // Text compares case-insensitively, like the executor; missing values only pass "not equal"
+  const value = comparable(p.value);
+  const test = typeof value === 'string'
+    ? `F.lower(${c}) ${COMPARE_OPS[p.op]} ${py(value.toLowerCase())}`
+    : `${c} ${COMPARE_OPS[p.op]} ${py(value)}`;
+  return p.op === 'neq' ? `${c}.isNull() | (${test})` : test;
+}
+
+function aggregateSpark(fn: string, value: string): string {
+  switch (fn) {
+    case 'sum':
+    case 'mean':
+    case 'median':
+      return `F.round(F.${fn === 'mean' ? 'avg' : fn}(${value}), 4)`;
+    case 'count_distinct':
+      return `F.countDistinct(${value})`;
+    default:
+      return `F.${fn}(${value})`;
+  }
+}
+
+function fillLines(op: Extract<CodeOp, { kind: 'fill' }>): string[] {
+  const c = col(op.column);
+  const fill = (expr: string) => withColumn(op.column, `F.coalesce(${c}, ${expr})`);
+  const stat = (agg: string) => {
+    const expr = op.digits === undefined ? agg : `F.round(${agg}, ${op.digits})`;
+    return [`value = df.select(${expr}).first()[0]`, fill('F.lit(value)')];
+  };
+  const forward = `F.last(${c}, ignorenulls=True).over(ordered.rowsBetween(Window.unboundedPreceding, 0))`;
+  const backward = `F.first(${c}, ignorenulls=True).over(ordered.rowsBetween(0, Window.unboundedFollowing))`;
+  switch (op.method) {
+    case 'value':
+      return [fill(`F.lit(${py(op.value)})`)];
+    case 'today':
+      return [fill(today)];
+    case 'mean':
+      return stat(`F.avg(${c})`);
+    case 'median':
+      return stat(`F.median(${c})`);
+    case 'mode':
+      // Ties go to the value seen first, as in the executor
+      return [
+        `top = (df.where(${c}.isNotNull()).groupBy(${c})`,
+        '       .agg(F.count("*").alias("_n"), F.min("_row").alias("_first"))',
+        '       .orderBy(F.desc("_n"), "_first").first())',
+        'if top is not None:',
+        `    ${fill('F.lit(top[0])')}`,
+      ];
+    case 'forward_fill':
+      return [fill(forward)];
+    case 'backward_fill':
+      return [fill(backward)];
+    case 'nearest':
+      return [fill(`${forward}, ${backward}`)];
+  }
+}
+
+function castExpr(column: string, to: string): string {
+  const c = col(column);
+  switch (to) {
+    case 'numeric':
+      return `F.regexp_replace(${str(c)}, "[,$]", "").cast("double")`;
+    case 'boolean': {
+      const token = `F.lower(F.trim(${str(c)}))`;
+      return `F.when(${token}.isin(_TRUE), True).when(${token}.isin(_FALSE), False)`;
+    }
+    case 'date':
+      return `F.date_format(F.to_date(${c}), "yyyy-MM-dd")`;
+    default:
+      return str(c);
+  }
+}
+
+function opLines(op: CodeOp, columns: string[], need: (helper: 'bool') => void): string[] {
+  switch (op.kind) {
+    case 'trim': {
+      const clean = op.collapseSpaces ? 'F.trim(F.regexp_replace(F.col(c), r"\\s+", " "))' : 'F.trim(F.col(c))';
+      return [
+        `for c in ${pyList(op.columns)}:`,
+        `    cleaned = ${clean}`,
+        // Cells left blank become null, as DataTidy treats them
+        '    df = df.withColumn(c, F.when(cleaned != "", cleaned))',
+      ];
+    }
+    case 'fill':
+      return fillLines(op);
+    case 'drop_missing':
+      return [`df = df.dropna(subset=${pyList(op.columns)})`];
+    case 'dedupe': {
+      const keys = op.columns.length > 0 ? op.columns : columns;
+      const order = op.keep === 'last' ? 'F.desc("_row")' : '"_row"';
+      return [
+        `keep = Window.partitionBy(*${pyList(keys)}).orderBy(${order})`,
+        'df = df.withColumn("_n", F.row_number().over(keep)).where(F.col("_n") == 1).drop("_n")',
+      ];
+    }
+    case 'cast':
+      if (op.to === 'boolean') need('bool');
+      return [withColumn(op.column, castExpr(op.column, op.to))];
+    case 'text_case': {
+      const fn = op.case === 'title' ? 'initcap' : op.case;
+      return [`for c in ${pyList(op.columns)}:`, `    df = df.withColumn(c, F.${fn}(F.col(c)))`];
+    }
+    case 'filter': {
+      const conditions = op.predicates.map(sparkPredicate);
+      const joined = conditions.length === 1 ? conditions[0] : conditions.map(c => `(${c})`).join(op.combine === 'or' ? ' | ' : ' & ');
+      return [`df = df.where(${joined})`];
+    }
+    case 'sort': {
+      const keys = op.keys.map(k => `${col(k.column)}.${k.direction}_nulls_last()`);
+      return [`df = df.withColumn("_row", F.row_number().over(Window.orderBy(${[...keys, '"_row"'].join(', ')})))`];
+    }
+    case 'group': {
+      // Groups keep the position of their first row
+      const aggs = [
+        ...op.aggregations.map(a => `${aggregateSpark(a.fn, col(a.column))}.alias(${py(a.as)})`),
+        'F.min("_row").alias("_row")',
+      ];
+      const source = op.by.length > 0 ? `df.groupBy(${op.by.map(py).join(', ')})` : 'df';
+      return [`df = ${source}.agg(`, ...aggs.map(a => `    ${a},`), ')'];
+    }
+    case 'pivot': {
+      const c = col(op.column);
+      const aggs = [
+        ...op.headers.map(h => {
+          const when = h === 'null' ? `${c}.isNull()` : `${str(c)} == ${py(h)}`;
+          return `${aggregateSpark(op.fn, `F.when(${when}, ${col(op.value)})`)}.alias(${py(h)})`;
+        }),
+        'F.min("_row").alias("_row")',
+      ];
+      const source = op.index.length > 0 ? `df.groupBy(${op.index.map(py).join(', ')})` : 'df';
+      return [`df = ${source}.agg(`, ...aggs.map(a => `    ${a},`), ')'];
+    }
+    case 'unpivot': {
+      // One block of rows per input row, in value-column order
+      const cells = op.valueColumns.map((c, i) =>
+        `F.struct(F.lit(${py(c)}).alias(${py(op.variableName)}), ${str(col(c))}.alias(${py(op.valueName)}), F.lit(${i}).alias("_i"))`);
+      const index = op.index.map(py);
+      return [
+        'df = df.select(',
+        ...index.map(c => `    ${c},`),
+        '    "_row",',
+        '    F.explode(F.array(',
+        ...cells.map(c => `        ${c},`),
+        '    )).alias("_cell"),',
+        `).select(${[...index, '"_row"', '"_cell.*"'].join(', ')})`,
+        `df = df.withColumn("_row", F.col("_row") * ${op.valueColumns.length} + F.col("_i")).drop("_i")`,
+      ];
+    }
+    case 'join': {
+      const right = [
+        `${col(op.rightKey)}.alias("_right_key")`,
+        ...op.rightColumns.map(c => `${col(c.from)}.alias(${py(c.to)})`),
+      ];
+      const how = op.how === 'outer' ? 'full' : op.how;
+      return [
+        `right = spark.read.csv("${op.table}.csv", header=True, inferSchema=True).select(`,
+        ...right.map(r => `    ${r},`),
+        ')',
+        `df = df.join(right, df[${py(op.leftKey)}] == right["_right_key"], "${how}")`,
+        ...(op.how === 'right' || op.how === 'outer'
+          ? [withColumn(op.leftKey, `F.coalesce(${col(op.leftKey)}, F.col("_right_key"))`)]
+          : []),
+        // Rows only on the right come last
+        'df = df.drop("_right_key").withColumn("_row", F.row_number().over(Window.orderBy(F.col("_row").asc_nulls_last())))',
+      ];
+    }
+    case 'calc': {
+      const expr = sparkExpr(op.expression);
+      return [`# ${op.source.replace(/\s+/g, ' ')}`, withColumn(op.name, isNumeric(op.expression) ? `F.round(${expr}, 4)` : expr)];
+    }
+    case 'rename':
+      return [
+        `names = ${wrapList('{', op.renames.map(r => `${py(r.from)}: ${py(r.to)}`), '}', '')}`,
+        'df = df.select([F.col(c).alias(names.get(c, c)) for c in df.columns])',
+      ];
+    case 'scale':
+      // Columns with no spread are left as they are
+      return op.method === 'min_max'
+        ? [
+            `for c in ${pyList(op.columns)}:`,
+            '    lo, hi = df.select(F.min(c), F.max(c)).first()',
+            '    if lo is not None and hi > lo:',
+            '        df = df.withColumn(c, F.round((F.col(c) - lo) / (hi - lo), 4))',
+          ]
+        : [
+            `for c in ${pyList(op.columns)}:`,
+            '    mean, std = df.select(F.avg(c), F.stddev_pop(c)).first()',
+            '    if std:',
+            '        df = df.withColumn(c, F.round((F.col(c) - mean) / std, 4))',
+          ];
+    case 'one_hot':
+      return [
+        ...op.categories.map(e => withColumn(e.name, `F.when(${str(col(op.column))} == ${py(e.value)}, 1).otherwise(0)`)),
+        ...(op.keepOriginal ? [] : [`df = df.drop(${py(op.column)})`]),
+      ];
+    case 'bucketize': {
+      // Buckets include their lower edge: [a, b)
+      const c = col(op.column);
+      const whens = op.edges.map((e, i) => `.when(${c} < ${e}, ${py(op.labels[i])})`);
+      const last = `.when(${c}.isNotNull(), ${py(op.labels[op.edges.length])})`;
+      return [withColumn(op.as, `F${[...whens, last].join('')}`)];
+    }
+    case 'map_values': {
+      const c = col(op.column);
+      const key = op.otherwise === null ? str(c) : `F.trim(${str(c)})`;
+      const whens = Object.entries(op.mapping).map(([k, v]) => `.when(${key} == ${py(k)}, ${py(v)})`);
+      const otherwise = op.otherwise === null ? c : py(op.otherwise);
+      return [withColumn(op.column, `F${whens.join('')}.otherwise(${otherwise})`)];
+    }
+    case 'outliers': {
+      const c = col(op.column);
+      if (op.handling === 'remove') return [`df = df.where(${c}.isNull() | ${c}.between(${op.lower}, ${op.upper}))`];
+      if (op.handling === 'flag') {
+        return [withColumn(`${op.column}_outlier`, `F.coalesce((${c} < ${op.lower}) | (${c} > ${op.upper}), F.lit(False))`)];
+      }
+      return [withColumn(op.column, `F.when(${c} < ${op.lower}, ${round2(op.lower)}).when(${c} > ${op.upper}, ${round2(op.upper)}).otherwise(${c})`)];
+    }
+    case 'clamp': {
+      const c = col(op.column);
+      const whens = [
+        op.min !== null ? `.when(${c} < ${op.min}, ${op.min})` : '',
+        op.max !== null ? `.when(${c} > ${op.max}, ${op.max})` : '',
+      ].join('');
+      return [withColumn(op.column, `F${whens}.otherwise(${c})`)];
+    }
+    case 'absolute':
+      return [withColumn(op.column, `F.abs(${col(op.column)})`)];
+    case 'date_parts': {
+      const fallback = op.fallback ? `F.to_date(F.lit("${op.fallback}"))` : 'F.current_date()';
+      const name = (suffix: string) => `${op.column}${suffix}`;
+      return [
+        `dates = F.coalesce(F.to_date(${col(op.column)}), ${fallback})`,
+        withColumn(name('_year'), 'F.year(dates)'),
+        withColumn(name('_quarter'), 'F.concat(F.lit("Q"), F.quarter(dates))'),
+        withColumn(name('_month'), 'F.month(dates)'),
+        withColumn(name('_month_name'), 'F.date_format(dates, "MMMM")'),
+        withColumn(name('_day_of_week'), 'F.date_format(dates, "EEEE")'),
+      ];
+    }
+    case 'zero_blank':
+      return [
+        ...(op.numeric.length > 0 ? [`df = df.fillna(0, subset=${pyList(op.numeric)})`] : []),
+        ...(op.text.length > 0 ? [`df = df.fillna("Unknown", subset=${pyList(op.text)})`] : []),
+        ...(op.dates.length > 0
+          ? [`for c in ${pyList(op.dates)}:`, `    df = df.withColumn(c, F.coalesce(F.col(c), ${today}))`]
+          : []),
+      ];
+  }
+}
+
+/** The recipe as a PySpark job (Spark 3.4+). */
+export function renderPyspark(recipe: CodeRecipe): string {
+  const used = new Set<'bool'>();
+  const body: string[] = [];
+  let columns = recipe.columns;
+  recipe.steps.forEach((step, i) => {
+    body.push('', `# ${i + 1}. ${step.label}`);
+    step.ops.forEach(op => {
+      body.push(...opLines(op, columns, h => used.add(h)));
+      columns = opColumns(op, columns);
+    });
+  });
+
+  return [
+    '"""',
+    ...header(recipe, ['Requires Spark 3.4+. Values that cannot be converted to a type become null.']),
+    '"""',
+    '',
+    'from pyspark.sql import SparkSession, Window',
+    'from pyspark.sql import functions as F',
+    '',
+    ...(used.has('bool')
+      ? [
+          `_TRUE = ${pyList(TRUE_TOKENS)}`,
+          `_FALSE = ${pyList(FALSE_TOKENS)}`,
+          '',
+        ]
+      : []),
+    `spark = SparkSession.builder.appName("${recipe.table}_clean").getOrCreate()`,
+    '',
+    `df = spark.read.csv("${recipe.table}.csv", header=True, inferSchema=True)`,
+    '# _row keeps the input row order through every step',
+    'df = df.withColumn("_row", F.monotonically_increasing_id())',
+    'ordered = Window.orderBy("_row")',
+    ...body,
+    '',
+    `df.orderBy("_row").select(${pyList(recipe.output)}).write.csv(`,
+    `    "${recipe.table}_clean", header=True, mode="overwrite",`,
+    ')',
+  ].join('\n') + '\n';
+}
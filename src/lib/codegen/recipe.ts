@@ -0,0 +1,564 @@
+/**
+ * Code recipes — a dataset's pipeline, or a cleanDataAdvanced run, resolved
+ * against its rows into explicit operations. Every choice the executor or the
+ * cleaner makes from the data (which columns, which types, which categories,
+ * which bucket edges) is fixed here, so the pandas, SQL and PySpark renderers
+ * only translate and never re-profile.
+ */
+
+import type { PipelineStep } from '@/store/workspace';
+import {
+  calculateNumericStats,
+  isIdentifierColumn,
+  isNonInferableColumn,
+  isSensitiveColumn,
+  profileColumn,
+} from '../dataAnalyzer';
+import { standardizeColumnName } from '../dataCleaner';
+import { DEFAULT_CLEANING_CONFIG, DEFAULT_INTEGRITY_POLICY, type CleaningConfig } from '../dataTypes';
+import { collectColumns } from '../datasetProfiler';
+import {
+  bucketLabel,
+  columnType,
+  columnsOfType,
+  compileExpression,
+  executeStep,
+  isMissing,
+  type AggregateFn,
+  type BucketizeParams,
+  type CalcParams,
+  type ColumnType,
+  type ExecutionContext,
+  type ExpressionNode,
+  type FillMissingParams,
+  type FilterParams,
+  type FilterPredicate,
+  type FixTypesParams,
+  type GroupByParams,
+  type JoinParams,
+  type OneHotParams,
+  type PivotParams,
+  type RemoveDuplicatesParams,
+  type RenameParams,
+  type ScaleParams,
+  type SortParams,
+  type StandardizeTextParams,
+  type TrimParams,
+} from '../pipeline';
+
+type DataRow = Record<string, unknown>;
+
+// How a fill computes its value: a literal, a statistic of the column, or a neighbouring row
+export type FillMethod = 'value' | 'mean' | 'median' | 'mode' | 'forward_fill' | 'backward_fill' | 'nearest' | 'today';
+
+export type CodeOp =
+  | { kind: 'trim'; columns: string[]; collapseSpaces: boolean }
+  // `digits` rounds a computed mean or median
+  | { kind: 'fill'; column: string; method: FillMethod; value?: string | number | boolean; digits?: number }
+  | { kind: 'drop_missing'; columns: string[] }
+  // No columns compares whole rows
+  | { kind: 'dedupe'; columns: string[]; keep: 'first' | 'last' }
+  | { kind: 'cast'; column: string; to: ColumnType }
+  | { kind: 'text_case'; columns: string[]; case: 'lower' | 'upper' | 'title' }
+  | { kind: 'filter'; predicates: FilterPredicate[]; combine: 'and' | 'or' }
+  | { kind: 'sort'; keys: { column: string; direction: 'asc' | 'desc' }[] }
+  | { kind: 'group'; by: string[]; aggregations: { column: string; fn: AggregateFn; as: string }[] }
+  | { kind: 'pivot'; index: string[]; column: string; value: string; fn: AggregateFn; headers: string[] }
+  | { kind: 'unpivot'; index: string[]; valueColumns: string[]; variableName: string; valueName: string }
+  | {
+      kind: 'join';
+      table: string;
+      dataset: string;
+      leftKey: string;
+      rightKey: string;
+      how: 'inner' | 'left' | 'right' | 'outer';
+      rightColumns: { from: string; to: string }[];
+    }
+  | { kind: 'calc'; name: string; source: string; expression: ExpressionNode }
+  | { kind: 'rename'; renames: { from: string; to: string }[] }
+  | { kind: 'scale'; columns: string[]; method: 'min_max' | 'z_score' }
+  | { kind: 'one_hot'; column: string; categories: { value: string; name: string }[]; keepOriginal: boolean }
+  | { kind: 'bucketize'; column: string; edges: number[]; labels: string[]; as: string }
+  // Values found in `mapping` are replaced; anything else, missing included, becomes `otherwise` when set
+  | { kind: 'map_values'; column: string; mapping: Record<string, string>; otherwise: string | null }
+  | { kind: 'outliers'; column: string; lower: number; upper: number; handling: 'cap' | 'remove' | 'flag' }
+  | { kind: 'clamp'; column: string; min: number | null; max: number | null }
+  | { kind: 'absolute'; column: string }
+  // `fallback` (ISO date) stands in for dates that cannot be read; null means today
+  | { kind: 'date_parts'; column: string; fallback: string | null }
+  // The cleaner's zero-blank rule: 0 for numbers, today for dates, "Unknown" for the rest
+  | { kind: 'zero_blank'; numeric: string[]; dates: string[]; text: string[] };
+
+export interface RecipeStep {
+  label: string;
+  ops: CodeOp[];
+}
+
+export interface CodeRecipe {
+  // What the scripts reproduce, e.g. `Pipeline for "orders.csv"`
+  title: string;
+  // Source dataset name and the table / file stem the scripts read it from
+  source: string;
+  table: string;
+  columns: string[];
+  steps: RecipeStep[];
+  // Columns, in order, of the final output
+  output: string[];
+  // Caveats worth a comment at the top of every script
+  notes: string[];
+}
+
+export interface RecipeOptions extends ExecutionContext {
+  // Display name of a joined dataset, keyed by id
+  datasetName?: (id: string) => string | undefined;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+
+/** Table or file stem for a dataset name: "Q3 Sales.csv" → "q3_sales". */
+export function tableName(name: string): string {
+  const stem = standardizeColumnName(name.replace(/\.[a-z0-9]+$/i, '')) || 'data';
+  return /^\d/.test(stem) ? `t_${stem}` : stem;
+}
+
+export function aggregateName(agg: { column: string; fn: AggregateFn; as?: string }): string {
+  return agg.as || (agg.fn === 'count' ? `count_${agg.column}` : `${agg.fn}_${agg.column}`);
+}
+
+const append = (columns: string[], ...added: string[]) => [...columns, ...added.filter(c => !columns.includes(c))];
+
+export const DATE_PART_SUFFIXES = ['_year', '_quarter', '_month', '_month_name', '_day_of_week'];
+
+/** Columns, in order, after `op` runs on a table with `columns`. */
+export function opColumns(op: CodeOp, columns: string[]): string[] {
+  switch (op.kind) {
+    case 'group':
+      return [...op.by, ...op.aggregations.map(a => a.as)];
+    case 'pivot':
+      return [...op.index, ...op.headers];
+    case 'unpivot':
+      return [...op.index, op.variableName, op.valueName];
+    case 'join':
+      return append(columns, ...op.rightColumns.map(c => c.to));
+    case 'calc':
+      return append(columns, op.name);
+    case 'rename': {
+      const mapping = new Map(op.renames.map(r => [r.from, r.to]));
+      return columns.map(c => mapping.get(c) ?? c);
+    }
+    case 'one_hot':
+      return columns.flatMap(c =>
+        c === op.column ? [...(op.keepOriginal ? [c] : []), ...op.categories.map(e => e.name)] : [c],
+      );
+    case 'bucketize':
+      return append(columns, op.as);
+    case 'outliers':
+      return op.handling === 'flag' ? append(columns, `${op.column}_outlier`) : columns;
+    case 'date_parts':
+      return append(columns, ...DATE_PART_SUFFIXES.map(s => `${op.column}${s}`));
+    default:
+      return columns;
+  }
+}
+
+function finish(recipe: Omit<CodeRecipe, 'output'>): CodeRecipe {
+  let columns = recipe.columns;
+  recipe.steps.forEach(step => step.ops.forEach(op => { columns = opColumns(op, columns); }));
+  return { ...recipe, output: columns };
+}
+
+// ─── Pipeline ────────────────────────────────────────────────────────────────
+
+// Explicit selection wins; otherwise the same type-based default as the executor
+const pick = (explicit: string[] | undefined, fallback: () => string[]) =>
+  explicit && explicit.length > 0 ? explicit : fallback();
+
+const hasText = (rows: DataRow[], col: string) => rows.length === 0 || rows.some(r => typeof r[col] === 'string');
+
+function distinctStrings(rows: DataRow[], col: string): string[] {
+  return [...new Set(rows.map(r => r[col]).filter(v => !isMissing(v)).map(v => String(v)))];
+}
+
+function resolveStep(
+  rows: DataRow[],
+  right: DataRow[] | undefined,
+  step: Pick<PipelineStep, 'type' | 'params'>,
+  options: RecipeOptions,
+): CodeOp[] {
+  const all = () => collectColumns(rows);
+  const params = step.params ?? {};
+
+  switch (step.type) {
+    case 'trim': {
+      const p = params as TrimParams;
+      const columns = pick(p.columns, all).filter(c => hasText(rows, c));
+      return columns.length > 0 ? [{ kind: 'trim', columns, collapseSpaces: p.collapseSpaces !== false }] : [];
+    }
+    case 'fill_missing': {
+      const p = params as FillMissingParams;
+      const strategy = p.strategy ?? 'auto';
+      const columns = pick(p.columns, () => all().filter(c => rows.some(r => isMissing(r[c]))));
+      if (strategy === 'drop') return columns.length > 0 ? [{ kind: 'drop_missing', columns }] : [];
+      return columns.flatMap((column): CodeOp[] => {
+        const numeric = columnType(rows, column) === 'numeric';
+        switch (strategy) {
+          case 'auto':
+          case 'median':
+          case 'unknown':
+            if (strategy === 'median' && !numeric) return [];
+            return strategy === 'unknown' || !numeric
+              ? [{ kind: 'fill', column, method: 'value', value: 'Unknown' }]
+              : [{ kind: 'fill', column, method: 'median', digits: 2 }];
+          case 'constant':
+            return [{ kind: 'fill', column, method: 'value', value: p.value }];
+          case 'mean':
+            return numeric ? [{ kind: 'fill', column, method: 'mean', digits: 4 }] : [];
+          case 'mode':
+            return [{ kind: 'fill', column, method: 'mode' }];
+          case 'forward_fill':
+            return [{ kind: 'fill', column, method: 'forward_fill' }];
+        }
+        return [];
+      });
+    }
+    case 'remove_duplicates': {
+      const p = params as RemoveDuplicatesParams;
+      return [{ kind: 'dedupe', columns: p.columns ?? [], keep: p.keep ?? 'first' }];
+    }
+    case 'fix_types': {
+      const p = params as FixTypesParams;
+      const explicit = p.types ?? {};
+      return pick(p.columns ?? Object.keys(explicit), all).map(column => ({
+        kind: 'cast' as const,
+        column,
+        to: explicit[column] ?? columnType(rows, column),
+      }));
+    }
+    case 'standardize_text': {
+      const p = params as StandardizeTextParams;
+      const columns = pick(p.columns, () => columnsOfType(rows, ['categorical', 'text']));
+      return columns.length > 0 ? [{ kind: 'text_case', columns, case: p.case ?? 'title' }] : [];
+    }
+    case 'filter': {
+      const p = params as FilterParams;
+      const predicates = p.predicates ?? [];
+      return predicates.length > 0 ? [{ kind: 'filter', predicates, combine: p.combine ?? 'and' }] : [];
+    }
+    case 'sort': {
+      const keys = (params as SortParams).keys ?? [];
+      return keys.length > 0 ? [{ kind: 'sort', keys }] : [];
+    }
+    case 'group_by': {
+      const p = params as GroupByParams;
+      const by = p.by ?? [];
+      const aggs = p.aggregations ?? [];
+      if (by.length === 0 && aggs.length === 0) return [];
+      const effective = aggs.length > 0 ? aggs : [{ column: by[0], fn: 'count' as AggregateFn, as: 'count' }];
+      return [{ kind: 'group', by, aggregations: effective.map(a => ({ column: a.column, fn: a.fn, as: aggregateName(a) })) }];
+    }
+    case 'pivot': {
+      const p = params as PivotParams;
+      const index = p.index ?? [];
+      if ((p.mode ?? 'pivot') === 'unpivot') {
+        return [{
+          kind: 'unpivot',
+          index,
+          valueColumns: pick(p.valueColumns, () => all().filter(c => !index.includes(c))),
+          variableName: p.variableName || 'variable',
+          valueName: p.valueName || 'value',
+        }];
+      }
+      const headers: string[] = [];
+      rows.forEach(r => {
+        const header = isMissing(r[p.column]) ? 'null' : String(r[p.column]);
+        if (!headers.includes(header)) headers.push(header);
+      });
+      return [{ kind: 'pivot', index, column: p.column, value: p.value, fn: p.fn ?? 'sum', headers }];
+    }
+    case 'join': {
+      const p = params as JoinParams;
+      const leftColumns = all();
+      const suffix = p.suffix || '_right';
+      const dataset = options.datasetName?.(p.datasetId) ?? p.datasetId;
+      return [{
+        kind: 'join',
+        table: tableName(dataset),
+        dataset,
+        leftKey: p.leftKey,
+        rightKey: p.rightKey,
+        how: p.how ?? 'inner',
+        rightColumns: collectColumns(right ?? [])
+          .filter(c => c !== p.rightKey)
+          .map(c => ({ from: c, to: leftColumns.includes(c) ? `${c}${suffix}` : c })),
+      }];
+    }
+    case 'calc': {
+      const p = params as CalcParams;
+      return [{ kind: 'calc', name: p.name.trim(), source: p.expression, expression: compileExpression(p.expression).ast }];
+    }
+    case 'rename': {
+      const renames = (params as RenameParams).renames ?? [];
+      const mapping = renames.length > 0
+        ? renames.map(r => ({ from: r.from, to: r.to.trim() || r.from }))
+        : all().map(c => ({ from: c, to: standardizeColumnName(c) || c }));
+      const changed = mapping.filter(r => r.from !== r.to);
+      return changed.length > 0 ? [{ kind: 'rename', renames: changed }] : [];
+    }
+    case 'normalize':
+    case 'standardize': {
+      const columns = pick((params as ScaleParams).columns, () => columnsOfType(rows, ['numeric']));
+      if (columns.length === 0) return [];
+      return [{ kind: 'scale', columns, method: step.type === 'normalize' ? 'min_max' : 'z_score' }];
+    }
+    case 'one_hot': {
+      const p = params as OneHotParams;
+      const maxCategories = p.maxCategories ?? 20;
+      const columns = pick(p.columns, () => columnsOfType(rows, ['categorical', 'boolean']));
+      return columns.flatMap((column): CodeOp[] => {
+        const values = distinctStrings(rows, column);
+        if (values.length > maxCategories) return [];
+        return [{
+          kind: 'one_hot',
+          column,
+          categories: values.map(value => ({ value, name: `${column}_${standardizeColumnName(value) || 'blank'}` })),
+          keepOriginal: !(p.dropOriginal ?? true),
+        }];
+      });
+    }
+    case 'bucketize': {
+      const p = params as BucketizeParams;
+      const column = p.column ?? columnsOfType(rows, ['numeric'])[0];
+      let edges = [...(p.edges ?? [])].sort((a, b) => a - b);
+      if (edges.length === 0) {
+        const nums = rows.map(r => r[column]).filter(v => !isMissing(v)).map(Number).filter(n => !isNaN(n));
+        const stats = calculateNumericStats(nums);
+        edges = [...new Set([stats.q1, stats.median, stats.q3].map(round4))];
+      }
+      const labels = p.labels && p.labels.length === edges.length + 1
+        ? p.labels
+        : edges.map((_, i) => bucketLabel(edges, i)).concat(bucketLabel(edges, edges.length));
+      return [{ kind: 'bucketize', column, edges, labels, as: p.as || `${column}_bucket` }];
+    }
+  }
+  return [];
+}
+
+/**
+ * Resolve pipeline steps against the dataset's rows. Each step is run as
+ * well, so later steps see the columns earlier ones produce; a step that
+ * fails stops the recipe there, like the executor.
+ */
+export function pipelineRecipe(
+  source: string,
+  rows: DataRow[],
+  steps: Pick<PipelineStep, 'type' | 'label' | 'params'>[],
+  options: RecipeOptions = {},
+): CodeRecipe {
+  const recipeSteps: RecipeStep[] = [];
+  const notes: string[] = [];
+  let current = rows;
+
+  for (const step of steps) {
+    let next: DataRow[];
+    try {
+      next = executeStep(current, step, options).rows;
+    } catch (err) {
+      const skipped = steps.length - recipeSteps.length - 1;
+      notes.push(
+        `Step "${step.label}" fails on the current data (${err instanceof Error ? err.message : String(err)})` +
+          (skipped > 0 ? ` — it and ${skipped} later step${skipped > 1 ? 's are' : ' is'} left out.` : ' — it is left out.'),
+      );
+      break;
+    }
+    const right = step.type === 'join' ? options.resolveDataset?.(String(step.params.datasetId)) : undefined;
+    recipeSteps.push({ label: step.label, ops: resolveStep(current, right, step, options) });
+    current = next;
+  }
+
+  return finish({
+    title: `Pipeline for "${source}"`,
+    source,
+    table: tableName(source),
+    columns: collectColumns(rows),
+    steps: recipeSteps,
+    notes,
+  });
+}
+
+// ─── Cleaning config ─────────────────────────────────────────────────────────
+
+const POSITIVE_HINTS = ['price', 'cost', 'amount', 'quantity', 'qty', 'count', 'age', 'revenue', 'sales', 'units',
+  'weight', 'height', 'width', 'length', 'salary'];
+
+const isoDate = (d: Date | null | undefined) => (d ? d.toISOString().split('T')[0] : null);
+
+/**
+ * Resolve a cleanDataAdvanced run into the same operations, in the cleaner's
+ * order. Profiling is replayed on the input rows so the recipe carries the
+ * date columns, category mappings and outlier bounds the cleaner would use.
+ */
+export function cleaningRecipe(source: string, rows: DataRow[], config: Partial<CleaningConfig> = {}): CodeRecipe {
+  const full: CleaningConfig = { ...DEFAULT_CLEANING_CONFIG, ...config };
+  const policy = DEFAULT_INTEGRITY_POLICY;
+  const steps: RecipeStep[] = [];
+  const add = (label: string, ops: CodeOp[]) => {
+    if (ops.length > 0) steps.push({ label, ops });
+  };
+  const inputColumns = Object.keys(rows[0] ?? {});
+  let data = rows;
+
+  if (full.trimWhitespace) {
+    add('Trim whitespace', [{ kind: 'trim', columns: inputColumns.filter(c => hasText(rows, c)), collapseSpaces: true }]);
+    data = data.map(row => Object.fromEntries(
+      Object.entries(row).map(([k, v]) => [k, typeof v === 'string' ? v.trim().replace(/\s+/g, ' ') : v]),
+    ));
+  }
+
+  if (full.standardizeColumnNames) {
+    const renames = inputColumns.map(from => ({ from, to: standardizeColumnName(from) })).filter(r => r.from !== r.to);
+    if (renames.length > 0) {
+      add('Standardize column names', [{ kind: 'rename', renames }]);
+      const mapping = new Map(renames.map(r => [r.from, r.to]));
+      data = data.map(row => Object.fromEntries(Object.entries(row).map(([k, v]) => [mapping.get(k) ?? k, v])));
+    }
+  }
+
+  // Same two profiling passes as the cleaner: dates first, then with date context
+  const columns = Object.keys(data[0] ?? {});
+  const values = columns.map(col => data.map(r => r[col]));
+  const dateNames = columns.filter((col, i) => profileColumn(col, values[i], []).dataType === 'date');
+  const profiles = columns.map((col, i) => profileColumn(col, values[i], dateNames));
+  const ofType = (...types: string[]) => profiles.filter(p => types.includes(p.dataType));
+
+  if (full.removeDuplicates) add('Remove duplicate rows', [{ kind: 'dedupe', columns: [], keep: 'first' }]);
+
+  if (full.parseDates) {
+    add('Parse and impute dates', ofType('date').flatMap((p): CodeOp[] => {
+      const median = isoDate(p.dateInfo?.medianDate);
+      const fallback: CodeOp = median
+        ? { kind: 'fill', column: p.name, method: 'value', value: median }
+        : { kind: 'fill', column: p.name, method: 'today' };
+      const neighbour: FillMethod | null = full.dateImputation === 'forward_fill' ? 'forward_fill' : full.dateImputation === 'backward_fill' ? 'backward_fill' : null;
+      return [
+        { kind: 'cast', column: p.name, to: 'date' },
+        ...(neighbour ? [{ kind: 'fill' as const, column: p.name, method: neighbour }] : []),
+        fallback,
+      ];
+    }));
+  }
+
+  if (full.autoConvertTypes) {
+    add('Convert types', ofType('numeric', 'boolean').map(p => ({ kind: 'cast' as const, column: p.name, to: p.dataType })));
+  }
+
+  if (full.normalizeCategorical) {
+    add('Normalize categories', ofType('categorical', 'text', 'boolean').flatMap((p): CodeOp[] => {
+      if (!p.categoricalInfo || isIdentifierColumn(p.name, policy)) return [];
+      if (isSensitiveColumn(p.name, policy)) {
+        return [{ kind: 'map_values', column: p.name, mapping: { ...policy.allowedGenderValues }, otherwise: 'Unknown' }];
+      }
+      if (isNonInferableColumn(p.name, policy)) return [{ kind: 'fill', column: p.name, method: 'value', value: 'Unknown' }];
+      const mapping = Object.fromEntries(
+        Object.entries(p.categoricalInfo.normalizedMappings).filter(([from, to]) => to && from !== to),
+      );
+      return Object.keys(mapping).length > 0 ? [{ kind: 'map_values', column: p.name, mapping, otherwise: null }] : [];
+    }));
+  }
+
+  if (full.outlierDetection !== 'none' && full.outlierHandling !== 'none') {
+    const handling = full.outlierHandling;
+    add(`Handle outliers (${full.outlierDetection.toUpperCase()})`, ofType('numeric').flatMap((p): CodeOp[] => {
+      if (!p.stats || p.stats.outlierCount === 0) return [];
+      const { q1, q3, iqr, mean, stdDev } = p.stats;
+      const k = full.outlierThreshold;
+      const [lower, upper] = full.outlierDetection === 'iqr' ? [q1 - k * iqr, q3 + k * iqr] : [mean - k * stdDev, mean + k * stdDev];
+      return [{ kind: 'outliers', column: p.name, lower: round4(lower), upper: round4(upper), handling }];
+    }));
+  }
+
+  const fills: CodeOp[] = [];
+  profiles.filter(p => p.nullCount > 0).forEach(p => {
+    const column = p.name;
+    if (p.dataType === 'numeric') {
+      if (p.isTimeSeries && full.enableTimeSeriesInterpolation) {
+        fills.push({ kind: 'fill', column, method: 'nearest' }, { kind: 'fill', column, method: 'value', value: 0 });
+        return;
+      }
+      if (!full.enforceZeroBlank) return;
+      switch (full.numericImputation) {
+        case 'mean':
+          fills.push(p.stats?.isSkewed
+            ? { kind: 'fill', column, method: 'median' }
+            : { kind: 'fill', column, method: 'mean', digits: 2 });
+          break;
+        case 'median':
+        case 'interpolate':
+          fills.push({ kind: 'fill', column, method: 'median' });
+          break;
+        case 'mode':
+          fills.push({ kind: 'fill', column, method: 'mode' });
+          break;
+        case 'zero':
+          fills.push({ kind: 'fill', column, method: 'value', value: 0 });
+          break;
+      }
+    } else if (!full.enforceZeroBlank) {
+      return;
+    } else if (p.dataType === 'categorical' || p.dataType === 'text') {
+      const unknown = (p.categoricalInfo?.missingPercentage || 0) > 30 || full.categoricalImputation === 'unknown';
+      fills.push(unknown ? { kind: 'fill', column, method: 'value', value: 'Unknown' } : { kind: 'fill', column, method: 'mode' });
+    } else if (p.dataType === 'boolean') {
+      fills.push({ kind: 'fill', column, method: 'value', value: false });
+    }
+  });
+  if (full.numericImputation === 'remove' || full.categoricalImputation === 'remove') {
+    let current = columns;
+    steps.forEach(step => step.ops.forEach(op => { current = opColumns(op, current); }));
+    fills.push({ kind: 'drop_missing', columns: current });
+  }
+  add('Fill missing values', fills);
+
+  if (full.createDateParts) {
+    add('Derive date parts', ofType('date').map(p => ({
+      kind: 'date_parts' as const,
+      column: p.name,
+      fallback: isoDate(p.dateInfo?.medianDate),
+    })));
+  }
+
+  if (full.validateRanges) {
+    add('Validate ranges', ofType('numeric').flatMap((p): CodeOp[] => {
+      const name = p.name.toLowerCase();
+      const ops: CodeOp[] = [];
+      if (POSITIVE_HINTS.some(h => name.includes(h))) ops.push({ kind: 'absolute', column: p.name });
+      if (name.includes('percent') || name.includes('pct') || name.includes('rate')) {
+        ops.push({ kind: 'clamp', column: p.name, min: null, max: 100 });
+      }
+      if (name.includes('age')) ops.push({ kind: 'clamp', column: p.name, min: 0, max: 120 });
+      return ops;
+    }));
+  }
+
+  if (full.enforceZeroBlank) {
+    let current = columns;
+    steps.forEach(step => step.ops.forEach(op => { current = opColumns(op, current); }));
+    const typeOf = new Map(profiles.map(p => [p.name, p.dataType]));
+    add('Fill remaining blanks', [{
+      kind: 'zero_blank',
+      numeric: current.filter(c => typeOf.get(c) === 'numeric'),
+      dates: current.filter(c => typeOf.get(c) === 'date'),
+      text: current.filter(c => typeOf.get(c) !== 'numeric' && typeOf.get(c) !== 'date'),
+    }]);
+  }
+
+  return finish({
+    title: `Cleaning recipe for "${source}"`,
+    source,
+    table: tableName(source),
+    columns: inputColumns,
+    steps,
+    notes: ['Date columns, category mappings and outlier bounds were profiled from the data this recipe was built on.'],
+  });
+}
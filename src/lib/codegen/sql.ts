@@ -0,0 +1,440 @@
+/**
+ * SQL renderer — a CodeRecipe as one ANSI SQL query, a chain of CTEs with
+ * one per operation. A `_row` ordinal assigned up front carries the row
+ * order the executor keeps, so fills, de-duplication and the final ORDER BY
+ * behave the same.
+ */
+
+import type { AggregateFn, ExpressionNode, FilterPredicate } from '../pipeline';
+import {
+  COMPARISONS,
+  DAY_NAMES,
+  FALSE_TOKENS,
+  MONTH_NAMES,
+  TRUE_TOKENS,
+  comparable,
+  header,
+  isNumeric,
+  isText,
+  round2,
+} from './format';
+import { opColumns, type CodeOp, type CodeRecipe } from './recipe';
+
+type Caveat = 'regex' | 'ignore_nulls' | 'initcap' | 'least' | 'dow';
+
+const CAVEATS: Record<Caveat, string> = {
+  regex: 'REGEXP_REPLACE is expected to replace every match; on PostgreSQL add the \'g\' flag.',
+  ignore_nulls: 'Forward and backward fills use IGNORE NULLS (SQL:2011), which PostgreSQL does not support.',
+  initcap: 'Title case uses INITCAP (PostgreSQL, Oracle, Snowflake, DuckDB).',
+  least: 'min() and max() use LEAST and GREATEST.',
+  dow: 'Day names use EXTRACT(DOW ...), counting from 0 for Sunday.',
+};
+
+const q = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const lit = (v: unknown): string => {
+  if (v === null || v === undefined) return 'NULL';
+  if (typeof v === 'boolean') return v ? 'TRUE' : 'FALSE';
+  if (typeof v === 'number') return Number.isFinite(v) ? String(v) : 'NULL';
+  return `'${String(v).replace(/'/g, "''")}'`;
+};
+
+const text = (expr: string) => `CAST(${expr} AS VARCHAR)`;
+const today = 'CAST(CURRENT_DATE AS VARCHAR(10))';
+
+function selectLines(items: string[]): string[] {
+  if (items.join(', ').length <= 80) return [`SELECT ${items.join(', ')}`];
+  return ['SELECT', ...items.map((item, i) => `  ${item}${i < items.length - 1 ? ',' : ''}`)];
+}
+
+// Every output column, with replacements where an operation rewrites one
+function project(columns: string[], overrides: Map<string, string>): string[] {
+  return [...columns.map(c => (overrides.has(c) ? `${overrides.get(c)} AS ${q(c)}` : q(c))), '_row'];
+}
+
+function like(column: string, needle: string, pattern: (s: string) => string): string {
+  const escaped = needle.replace(/[\\%_]/g, m => `\\${m}`);
+  return `LOWER(${text(column)}) LIKE ${lit(pattern(escaped))}${escaped !== needle ? " ESCAPE '\\'" : ''}`;
+}
+
+// ─── Expressions ─────────────────────────────────────────────────────────────
+
+function sqlExpr(node: ExpressionNode, need: (c: Caveat) => void): string {
+  const expr = (n: ExpressionNode) => sqlExpr(n, need);
+  const wrap = (n: ExpressionNode) => (n.kind === 'binary' || n.kind === 'unary' ? `(${expr(n)})` : expr(n));
+  const joinText = (nodes: ExpressionNode[]) => nodes.map(n => `COALESCE(${text(expr(n))}, '')`).join(' || ');
+
+  switch (node.kind) {
+    case 'lit':
+      return lit(node.value);
+    case 'col':
+      return q(node.name);
+    case 'unary':
+      if (node.op === '!') return `NOT ${wrap(node.arg)}`;
+      return node.op === '-' ? `-${wrap(node.arg)}` : expr(node.arg);
+    case 'binary': {
+      const { op, left, right } = node;
+      if (op === '&&') return `${wrap(left)} AND ${wrap(right)}`;
+      if (op === '||') return `${wrap(left)} OR ${wrap(right)}`;
+      if (COMPARISONS.includes(op)) return `${wrap(left)} ${op === '==' ? '=' : op === '!=' ? '<>' : op} ${wrap(right)}`;
+      if (op === '+' && isText(node)) return joinText([left, right]);
+      if (op === '^') return `POWER(${expr(left)}, ${expr(right)})`;
+      // Division by zero is NULL, and never integer division
+      if (op === '/') return `CAST(${expr(left)} AS DOUBLE PRECISION) / NULLIF(${expr(right)}, 0)`;
+      if (op === '%') return `MOD(${expr(left)}, NULLIF(${expr(right)}, 0))`;
+      return `${wrap(left)} ${op} ${wrap(right)}`;
+    }
+    case 'call': {
+      const [a, b, c] = node.args;
+      switch (node.fn) {
+        case 'abs':
+        case 'floor':
+        case 'sqrt':
+        case 'exp':
+        case 'upper':
+        case 'lower':
+        case 'trim':
+          return `${node.fn.toUpperCase()}(${expr(a)})`;
+        case 'ceil':
+          return `CEILING(${expr(a)})`;
+        case 'log':
+          return `LN(${expr(a)})`;
+        case 'round':
+          return `ROUND(${expr(a)}, ${b ? expr(b) : 0})`;
+        case 'pow':
+          return `POWER(${expr(a)}, ${expr(b)})`;
+        case 'min':
+        case 'max':
+          need('least');
+          return `${node.fn === 'min' ? 'LEAST' : 'GREATEST'}(${node.args.map(expr).join(', ')})`;
+        case 'len':
+          return `COALESCE(CHAR_LENGTH(${text(expr(a))}), 0)`;
+        case 'concat':
+          return node.args.length > 0 ? joinText(node.args) : "''";
+        case 'coalesce':
+          return `COALESCE(${node.args.map(expr).join(', ')})`;
+        case 'if':
+          return `CASE WHEN ${expr(a)} THEN ${expr(b)} ELSE ${expr(c)} END`;
+        case 'isnull':
+          return `${wrap(a)} IS NULL`;
+        case 'year':
+        case 'month':
+        case 'day':
+          return `EXTRACT(${node.fn.toUpperCase()} FROM CAST(${expr(a)} AS DATE))`;
+      }
+      return 'NULL';
+    }
+  }
+}
+
+// ─── Operations ──────────────────────────────────────────────────────────────
+
+const COMPARE_OPS: Record<string, string> = { eq: '=', neq: '<>', gt: '>', gte: '>=', lt: '<', lte: '<=' };
+
+function sqlPredicate(p: FilterPredicate): string {
+  const c = q(p.column);
+  const needle = String(p.value ?? '').toLowerCase();
+  switch (p.op) {
+    case 'is_null':
+      return `${c} IS NULL`;
+    case 'not_null':
+      return `${c} IS NOT NULL`;
+    case 'contains':
+      return like(c, needle, s => `%${s}%`);
+    case 'not_contains':
+      return `(${c} IS NULL OR NOT ${like(c, needle, s => `%${s}%`)})`;
+    case 'starts_with':
+      return like(c, needle, s => `${s}%`);
+    case 'ends_with':
+      return like(c, needle, s => `%${s}`);
+    case 'in': {
+      const list = (Array.isArray(p.value) ? p.value : String(p.value ?? '').split(',')).map(comparable);
+      return list.every(v => typeof v === 'number')
+        ? `${c} IN (${list.map(lit).join(', ')})`
+        : `LOWER(${text(c)}) IN (${list.map(v => lit(String(v).toLowerCase())).join(', ')})`;
+    }
+  }
+  // Text compares case-insensitively, like the executor; missing values only pass "not equal"
+  const value = comparable(p.value);
+  const test = typeof value === 'string'
+    ? `LOWER(${c}) ${COMPARE_OPS[p.op]} ${lit(value.toLowerCase())}`
+    : `${c} ${COMPARE_OPS[p.op]} ${lit(value)}`;
+  return p.op === 'neq' ? `(${c} IS NULL OR ${test})` : test;
+}
+
+function aggregateSql(fn: AggregateFn, value: string): string {
+  switch (fn) {
+    case 'sum':
+      return `ROUND(SUM(${value}), 4)`;
+    case 'mean':
+      return `ROUND(AVG(${value}), 4)`;
+    case 'median':
+      return `ROUND(PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY ${value}), 4)`;
+    case 'min':
+    case 'max':
+      return `${fn.toUpperCase()}(${value})`;
+    case 'count':
+      return `COUNT(${value})`;
+    case 'count_distinct':
+      return `COUNT(DISTINCT ${value})`;
+  }
+}
+
+function fillSql(op: Extract<CodeOp, { kind: 'fill' }>, prev: string, need: (c: Caveat) => void): string {
+  const c = q(op.column);
+  const stat = (agg: string) => `(SELECT ${op.digits === undefined ? agg : `ROUND(${agg}, ${op.digits})`} FROM ${prev})`;
+  const forward = `LAST_VALUE(${c} IGNORE NULLS) OVER (ORDER BY _row ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW)`;
+  const backward = `FIRST_VALUE(${c} IGNORE NULLS) OVER (ORDER BY _row ROWS BETWEEN CURRENT ROW AND UNBOUNDED FOLLOWING)`;
+  switch (op.method) {
+    case 'value':
+      return `COALESCE(${c}, ${lit(op.value)})`;
+    case 'today':
+      return `COALESCE(${c}, ${today})`;
+    case 'mean':
+      return `COALESCE(${c}, ${stat(`AVG(${c})`)})`;
+    case 'median':
+      return `COALESCE(${c}, ${stat(`PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY ${c})`)})`;
+    case 'mode':
+      // Ties go to the value seen first, as in the executor
+      return `COALESCE(${c}, (SELECT ${c} FROM ${prev} WHERE ${c} IS NOT NULL GROUP BY ${c} ORDER BY COUNT(*) DESC, MIN(_row) FETCH FIRST 1 ROW ONLY))`;
+    case 'forward_fill':
+      need('ignore_nulls');
+      return `COALESCE(${c}, ${forward})`;
+    case 'backward_fill':
+      need('ignore_nulls');
+      return `COALESCE(${c}, ${backward})`;
+    case 'nearest':
+      need('ignore_nulls');
+      return `COALESCE(${c}, ${forward}, ${backward})`;
+  }
+}
+
+function castSql(column: string, to: string): string {
+  const c = q(column);
+  switch (to) {
+    case 'numeric':
+      return `CAST(REPLACE(REPLACE(${text(c)}, ',', ''), '$', '') AS DOUBLE PRECISION)`;
+    case 'boolean': {
+      const token = `LOWER(TRIM(${text(c)}))`;
+      return `CASE WHEN ${token} IN (${TRUE_TOKENS.map(lit).join(', ')}) THEN TRUE WHEN ${token} IN (${FALSE_TOKENS.map(lit).join(', ')}) THEN FALSE END`;
+    }
+    case 'date':
+      return `CAST(CAST(${c} AS DATE) AS VARCHAR(10))`;
+    default:
+      return text(c);
+  }
+}
+
+/** Body of the CTE that applies `op` to `prev`, whose columns are `columns`. */
+function opSql(op: CodeOp, prev: string, columns: string[], need: (c: Caveat) => void): string[] {
+  const out = opColumns(op, columns);
+  const from = `FROM ${prev}`;
+  const rewrite = (entries: [string, string][]) => [...selectLines(project(out, new Map(entries))), from];
+
+  switch (op.kind) {
+    case 'trim':
+      if (op.collapseSpaces) need('regex');
+      // Cells left blank become NULL, as DataTidy treats them
+      return rewrite(op.columns.map(c => [
+        c,
+        `NULLIF(${op.collapseSpaces ? `TRIM(REGEXP_REPLACE(${q(c)}, '\\s+', ' '))` : `TRIM(${q(c)})`}, '')`,
+      ]));
+    case 'fill':
+      return rewrite([[op.column, fillSql(op, prev, need)]]);
+    case 'drop_missing':
+      return ['SELECT *', from, `WHERE ${op.columns.map(c => `${q(c)} IS NOT NULL`).join(' AND ')}`];
+    case 'dedupe': {
+      const keys = (op.columns.length > 0 ? op.columns : columns).map(q).join(', ');
+      return [
+        ...selectLines([...columns.map(q), '_row']),
+        'FROM (',
+        `  SELECT *, ROW_NUMBER() OVER (PARTITION BY ${keys} ORDER BY _row${op.keep === 'last' ? ' DESC' : ''}) AS _n`,
+        `  ${from}`,
+        ') t',
+        'WHERE _n = 1',
+      ];
+    }
+    case 'cast':
+      return rewrite([[op.column, castSql(op.column, op.to)]]);
+    case 'text_case':
+      if (op.case === 'title') need('initcap');
+      return rewrite(op.columns.map(c => [c, `${op.case === 'title' ? 'INITCAP' : op.case.toUpperCase()}(${q(c)})`]));
+    case 'filter':
+      return ['SELECT *', from, `WHERE ${op.predicates.map(sqlPredicate).join(op.combine === 'or' ? ' OR ' : ' AND ')}`];
+    case 'sort': {
+      const keys = op.keys.map(k => `${q(k.column)} ${k.direction.toUpperCase()} NULLS LAST`);
+      return [...selectLines([...columns.map(q), `ROW_NUMBER() OVER (ORDER BY ${[...keys, '_row'].join(', ')}) AS _row`]), from];
+    }
+    case 'group': {
+      // Groups keep the position of their first row
+      const items = [
+        ...op.by.map(q),
+        ...op.aggregations.map(a => `${aggregateSql(a.fn, q(a.column))} AS ${q(a.as)}`),
+        'MIN(_row) AS _row',
+      ];
+      return [...selectLines(items), from, ...(op.by.length > 0 ? [`GROUP BY ${op.by.map(q).join(', ')}`] : [])];
+    }
+    case 'pivot': {
+      const c = q(op.column);
+      const items = [
+        ...op.index.map(q),
+        ...op.headers.map(h => {
+          const when = h === 'null' ? `${c} IS NULL` : `${text(c)} = ${lit(h)}`;
+          return `${aggregateSql(op.fn, `CASE WHEN ${when} THEN ${q(op.value)} END`)} AS ${q(h)}`;
+        }),
+        'MIN(_row) AS _row',
+      ];
+      return [...selectLines(items), from, ...(op.index.length > 0 ? [`GROUP BY ${op.index.map(q).join(', ')}`] : [])];
+    }
+    case 'unpivot': {
+      // One block of rows per input row, in value-column order
+      const n = op.valueColumns.length;
+      return op.valueColumns.flatMap((c, i) => [
+        ...(i > 0 ? ['UNION ALL'] : []),
+        ...selectLines([
+          ...op.index.map(q),
+          `${lit(c)} AS ${q(op.variableName)}`,
+          `${text(q(c))} AS ${q(op.valueName)}`,
+          `_row * ${n} + ${i} AS _row`,
+        ]),
+        from,
+      ]);
+    }
+    case 'join': {
+      const keepRight = op.how === 'right' || op.how === 'outer';
+      const items = [
+        ...columns.map(c => (c === op.leftKey && keepRight
+          ? `COALESCE(l.${q(c)}, r.${q(op.rightKey)}) AS ${q(c)}`
+          : `l.${q(c)}`)),
+        ...op.rightColumns.map(c => (c.from === c.to ? `r.${q(c.from)}` : `r.${q(c.from)} AS ${q(c.to)}`)),
+        // Rows only on the right come last
+        'ROW_NUMBER() OVER (ORDER BY l._row NULLS LAST) AS _row',
+      ];
+      const how = { inner: 'INNER JOIN', left: 'LEFT JOIN', right: 'RIGHT JOIN', outer: 'FULL OUTER JOIN' }[op.how];
+      return [...selectLines(items), `FROM ${prev} l`, `${how} ${op.table} r ON l.${q(op.leftKey)} = r.${q(op.rightKey)}`];
+    }
+    case 'calc': {
+      const expr = sqlExpr(op.expression, need);
+      return rewrite([[op.name, isNumeric(op.expression) ? `ROUND(${expr}, 4)` : expr]]);
+    }
+    case 'rename': {
+      const mapping = new Map(op.renames.map(r => [r.from, r.to]));
+      return [...selectLines([...columns.map(c => (mapping.has(c) ? `${q(c)} AS ${q(mapping.get(c))}` : q(c))), '_row']), from];
+    }
+    case 'scale':
+      // Columns with no spread are left as they are
+      return rewrite(op.columns.map(c => {
+        const v = q(c);
+        const scaled = op.method === 'min_max'
+          ? `CAST(${v} - MIN(${v}) OVER () AS DOUBLE PRECISION) / NULLIF(MAX(${v}) OVER () - MIN(${v}) OVER (), 0)`
+          : `(${v} - AVG(${v}) OVER ()) / NULLIF(STDDEV_POP(${v}) OVER (), 0)`;
+        return [c, `COALESCE(ROUND(${scaled}, 4), ${v})`];
+      }));
+    case 'one_hot':
+      return rewrite(op.categories.map(e => [e.name, `CASE WHEN ${text(q(op.column))} = ${lit(e.value)} THEN 1 ELSE 0 END`]));
+    case 'bucketize': {
+      // Buckets include their lower edge: [a, b)
+      const v = q(op.column);
+      const whens = op.edges.map((e, i) => `WHEN ${v} < ${e} THEN ${lit(op.labels[i])}`);
+      return rewrite([[op.as, `CASE WHEN ${v} IS NULL THEN NULL ${whens.join(' ')} ELSE ${lit(op.labels[op.edges.length])} END`]]);
+    }
+    case 'map_values': {
+      const key = op.otherwise === null ? text(q(op.column)) : `TRIM(${text(q(op.column))})`;
+      const whens = Object.entries(op.mapping).map(([k, v]) => `WHEN ${lit(k)} THEN ${lit(v)}`);
+      return rewrite([[op.column, `CASE ${key} ${whens.join(' ')} ELSE ${op.otherwise === null ? q(op.column) : lit(op.otherwise)} END`]]);
+    }
+    case 'outliers': {
+      const v = q(op.column);
+      if (op.handling === 'remove') return ['SELECT *', from, `WHERE ${v} IS NULL OR ${v} BETWEEN ${op.lower} AND ${op.upper}`];
+      if (op.handling === 'flag') {
+        return rewrite([[`${op.column}_outlier`, `COALESCE(${v} < ${op.lower} OR ${v} > ${op.upper}, FALSE)`]]);
+      }
+      return rewrite([[op.column, `CASE WHEN ${v} < ${op.lower} THEN ${round2(op.lower)} WHEN ${v} > ${op.upper} THEN ${round2(op.upper)} ELSE ${v} END`]]);
+    }
+    case 'clamp': {
+      const v = q(op.column);
+      const whens = [
+        op.min !== null ? `WHEN ${v} < ${op.min} THEN ${op.min}` : null,
+        op.max !== null ? `WHEN ${v} > ${op.max} THEN ${op.max}` : null,
+      ].filter(Boolean);
+      return rewrite([[op.column, `CASE ${whens.join(' ')} ELSE ${v} END`]]);
+    }
+    case 'absolute':
+      return rewrite([[op.column, `ABS(${q(op.column)})`]]);
+    case 'date_parts': {
+      need('dow');
+      const d = `COALESCE(CAST(${q(op.column)} AS DATE), ${op.fallback ? `DATE '${op.fallback}'` : 'CURRENT_DATE'})`;
+      const name = (suffix: string) => `${op.column}${suffix}`;
+      return rewrite([
+        [name('_year'), `EXTRACT(YEAR FROM ${d})`],
+        [name('_quarter'), `'Q' || CAST(EXTRACT(QUARTER FROM ${d}) AS VARCHAR)`],
+        [name('_month'), `EXTRACT(MONTH FROM ${d})`],
+        [name('_month_name'), `CASE EXTRACT(MONTH FROM ${d}) ${MONTH_NAMES.map((m, i) => `WHEN ${i + 1} THEN '${m}'`).join(' ')} END`],
+        [name('_day_of_week'), `CASE EXTRACT(DOW FROM ${d}) ${DAY_NAMES.map((m, i) => `WHEN ${i} THEN '${m}'`).join(' ')} END`],
+      ]);
+    }
+    case 'zero_blank':
+      return rewrite([
+        ...op.numeric.map((c): [string, string] => [c, `COALESCE(${q(c)}, 0)`]),
+        ...op.dates.map((c): [string, string] => [c, `COALESCE(${q(c)}, ${today})`]),
+        ...op.text.map((c): [string, string] => [c, `COALESCE(${q(c)}, 'Unknown')`]),
+      ]);
+  }
+}
+
+// Consecutive casts of different columns are independent, so they share one CTE
+function batches(ops: CodeOp[]): CodeOp[][] {
+  const out: CodeOp[][] = [];
+  for (const op of ops) {
+    const last = out[out.length - 1];
+    const merge = op.kind === 'cast' && last?.every(o => o.kind === 'cast' && o.column !== op.column);
+    if (merge) last.push(op);
+    else out.push([op]);
+  }
+  return out;
+}
+
+function batchSql(batch: CodeOp[], prev: string, columns: string[], need: (c: Caveat) => void): string[] {
+  if (batch.length === 1) return opSql(batch[0], prev, columns, need);
+  const casts = new Map(batch.flatMap(op => (op.kind === 'cast' ? [[op.column, castSql(op.column, op.to)] as [string, string]] : [])));
+  return [...selectLines(project(columns, casts)), `FROM ${prev}`];
+}
+
+/** The recipe as a single ANSI SQL query over a table named after the dataset. */
+export function renderSql(recipe: CodeRecipe): string {
+  const used = new Set<Caveat>();
+  const need = (c: Caveat) => used.add(c);
+  const ctes: string[] = [
+    'WITH step_0 AS (',
+    '  SELECT *, ROW_NUMBER() OVER () AS _row',
+    `  FROM ${recipe.table}`,
+    ')',
+  ];
+  let prev = 'step_0';
+  let columns = recipe.columns;
+  let n = 0;
+  recipe.steps.forEach((step, i) => {
+    batches(step.ops).forEach((batch, j) => {
+      const name = `step_${++n}`;
+      const body = batchSql(batch, prev, columns, need);
+      ctes[ctes.length - 1] += ',';
+      if (j === 0) ctes.push(`-- ${i + 1}. ${step.label}`);
+      ctes.push(`${name} AS (`, ...body.map(line => `  ${line}`), ')');
+      prev = name;
+      columns = batch.reduce((cols, op) => opColumns(op, cols), columns);
+    });
+  });
+
+  const caveats = [
+    'Blank cells are expected to load as NULL; _row keeps the input row order.',
+    ...(Object.keys(CAVEATS) as Caveat[]).filter(c => used.has(c)).map(c => CAVEATS[c]),
+  ];
+  return [
+    ...header(recipe, caveats).map(line => `-- ${line}`),
+    '',
+    ...ctes,
+    ...selectLines(recipe.output.map(q)),
+    `FROM ${prev}`,
+    'ORDER BY _row;',
+  ].join('\n') + '\n';
+}
@@ -0,0 +1,13 @@
+export {
+  ColumnarTable,
+  collectColumns,
+  createNullBitmap,
+  isNullAt,
+  type Column,
+  type ColumnKind,
+  type NumericColumn,
+  type CategoricalColumn,
+  type BooleanColumn,
+  type MixedColumn,
+  type FromRowsOptions,
+} from './table';
@@ -0,0 +1,353 @@
+/**
+ * Columnar Table
+ * An immutable, column-oriented view of a row array. Numbers live in
+ * Float64Arrays, strings are dictionary-encoded into Uint32Array codes,
+ * booleans in a Uint8Array, and every column carries a null bitmap.
+ * Anything that doesn't fit a single kind (dates, objects, mixed values)
+ * falls back to a plain array so the round trip stays lossless, apart from
+ * `undefined` which is stored as null.
+ */
+
+type DataRow = Record<string, unknown>;
+
+export type ColumnKind = 'numeric' | 'categorical' | 'boolean' | 'mixed';
+
+interface ColumnBase {
+  name: string;
+  length: number;
+  // One bit per row; a set bit marks null/undefined
+  nulls: Uint8Array;
+  nullCount: number;
+}
+
+export interface NumericColumn extends ColumnBase {
+  kind: 'numeric';
+  // Null slots hold NaN
+  values: Float64Array;
+}
+
+export interface CategoricalColumn extends ColumnBase {
+  kind: 'categorical';
+  codes: Uint32Array;
+  dictionary: string[];
+}
+
+export interface BooleanColumn extends ColumnBase {
+  kind: 'boolean';
+  values: Uint8Array;
+}
+
+export interface MixedColumn extends ColumnBase {
+  kind: 'mixed';
+  values: unknown[];
+}
+
+export type Column = NumericColumn | CategoricalColumn | BooleanColumn | MixedColumn;
+
+export interface FromRowsOptions {
+  // Defaults to every key seen across the rows, in first-seen order
+  columns?: string[];
+}
+
+// ─── Null Bitmaps ────────────────────────────────────────────────────────────
+
+export function createNullBitmap(length: number): Uint8Array {
+  return new Uint8Array((length + 7) >> 3);
+}
+
+export function isNullAt(nulls: Uint8Array, index: number): boolean {
+  return (nulls[index >> 3] & (1 << (index & 7))) !== 0;
+}
+
+function markNull(nulls: Uint8Array, index: number) {
+  nulls[index >> 3] |= 1 << (index & 7);
+}
+
+// ─── Column Builders ─────────────────────────────────────────────────────────
+
+function inferKind(rows: DataRow[], name: string): ColumnKind {
+  let kind: ColumnKind | null = null;
+  for (const row of rows) {
+    const v = row[name];
+    if (v === null || v === undefined) continue;
+    const next: ColumnKind =
+      typeof v === 'number' ? 'numeric' :
+      typeof v === 'string' ? 'categorical' :
+      typeof v === 'boolean' ? 'boolean' : 'mixed';
+    if (kind === null) kind = next;
+    else if (kind !== next) return 'mixed';
+    if (kind === 'mixed') return 'mixed';
+  }
+  // All-null columns are cheapest as an empty dictionary
+  return kind ?? 'categorical';
+}
+
+function buildColumn(rows: DataRow[], name: string): Column {
+  const length = rows.length;
+  const nulls = createNullBitmap(length);
+  let nullCount = 0;
+  const kind = inferKind(rows, name);
+
+  switch (kind) {
+    case 'numeric': {
+      const values = new Float64Array(length);
+      for (let i = 0; i < length; i++) {
+        const v = rows[i][name];
+        if (v === null || v === undefined) {
+          markNull(nulls, i);
+          nullCount++;
+          values[i] = NaN;
+        } else {
+          values[i] = v as number;
+        }
+      }
+      return { kind, name, length, nulls, nullCount, values };
+    }
+    case 'categorical': {
+      const codes = new Uint32Array(length);
+      const dictionary: string[] = [];
+      const lookup = new Map<string, number>();
+      for (let i = 0; i < length; i++) {
+        const v = rows[i][name];
+        if (v === null || v === undefined) {
+          markNull(nulls, i);
+          nullCount++;
+          continue;
+        }
+        let code = lookup.get(v as string);
+        if (code === undefined) {
+          code = dictionary.length;
+          dictionary.push(v as string);
+          lookup.set(v as string, code);
+        }
+        codes[i] = code;
+      }
+      return { kind, name, length, nulls, nullCount, codes, dictionary };
+    }
+    case 'boolean': {
+      const values = new Uint8Array(length);
+      for (let i = 0; i < length; i++) {
+        const v = rows[i][name];
+        if (v === null || v === undefined) {
+          markNull(nulls, i);
+          nullCount++;
+        } else if (v) {
+          values[i] = 1;
+        }
+      }
+      return { kind, name, length, nulls, nullCount, values };
+    }
+    case 'mixed': {
+      const values: unknown[] = new Array(length);
+      for (let i = 0; i < length; i++) {
+        const v = rows[i][name];
+        if (v === null || v === undefined) {
+          markNull(nulls, i);
+          nullCount++;
+          values[i] = null;
+        } else {
+          values[i] = v;
+        }
+      }
+      return { kind, name, length, nulls, nullCount, values };
+    }
+  }
+}
+
+function valueAt(column: Column, index: number): unknown {
+  if (isNullAt(column.nulls, index)) return null;
+  switch (column.kind) {
+    case 'numeric': return column.values[index];
+    case 'categorical': return column.dictionary[column.codes[index]];
+    case 'boolean': return column.values[index] === 1;
+    case 'mixed': return column.values[index];
+  }
+}
+
+// ─── Table ───────────────────────────────────────────────────────────────────
+
+export class ColumnarTable {
+  readonly rowCount: number;
+  readonly columnNames: string[];
+  private readonly columns: Map<string, Column>;
+
+  private constructor(rowCount: number, columns: Column[]) {
+    this.rowCount = rowCount;
+    this.columnNames = columns.map(c => c.name);
+    this.columns = new Map(columns.map(c => [c.name, c]));
+  }
+
+  static fromRows(rows: DataRow[], options: FromRowsOptions = {}): ColumnarTable {
+    const names = options.columns ?? collectColumns(rows);
+    return new ColumnarTable(rows.length, names.map(name => buildColumn(rows, name)));
+  }
+
+  hasColumn(name: string): boolean {
+    return this.columns.has(name);
+  }
+
+  column(name: string): Column {
+    const column = this.columns.get(name);
+    if (!column) throw new Error(`Column "${name}" not found`);
+    return column;
+  }
+
+  get(rowIndex: number, name: string): unknown {
+    return valueAt(this.column(name), rowIndex);
+  }
+
+  isNull(rowIndex: number, name: string): boolean {
+    return isNullAt(this.column(name).nulls, rowIndex);
+  }
+
+  nullCount(name: string): number {
+    return this.column(name).nullCount;
+  }
+
+  // Materialize one column as a plain array (nulls as null)
+  values(name: string): unknown[] {
+    const column = this.column(name);
+    const out: unknown[] = new Array(column.length);
+    for (let i = 0; i < column.length; i++) out[i] = valueAt(column, i);
+    return out;
+  }
+
+  /**
+   * Numeric view of a column with `Number()` semantics; unparseable values
+   * become NaN. String values go through `parse`, once per dictionary entry
+   * for categorical columns.
+   * Numeric columns return their backing array, so treat the result as read-only.
+   */
+  numbers(name: string, options: { parse?: (value: string) => number; nullValue?: number } = {}): Float64Array {
+    const column = this.column(name);
+    const { parse = Number, nullValue = NaN } = options;
+    if (column.kind === 'numeric' && Number.isNaN(nullValue)) return column.values;
+
+    const out = new Float64Array(column.length);
+    if (column.kind === 'categorical') {
+      const parsed = column.dictionary.map(parse);
+      for (let i = 0; i < column.length; i++) out[i] = parsed[column.codes[i]];
+    } else if (column.kind === 'mixed') {
+      for (let i = 0; i < column.length; i++) {
+        const v = column.values[i];
+        out[i] = typeof v === 'string' ? parse(v) : Number(v);
+      }
+    } else {
+      out.set(column.values);
+    }
+    if (column.nullCount > 0) {
+      for (let i = 0; i < column.length; i++) {
+        if (isNullAt(column.nulls, i)) out[i] = nullValue;
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Count rows whose value satisfies `predicate` (nulls are passed as null).
+   * For dictionary-encoded columns the predicate runs once per distinct value.
+   */
+  countWhere(name: string, predicate: (value: unknown) => boolean): number {
+    const column = this.column(name);
+    const nullMatches = column.nullCount > 0 && predicate(null);
+    let count = nullMatches ? column.nullCount : 0;
+
+    if (column.kind === 'categorical') {
+      const matches = column.dictionary.map(v => predicate(v));
+      for (let i = 0; i < column.length; i++) {
+        if (matches[column.codes[i]] && !isNullAt(column.nulls, i)) count++;
+      }
+      return count;
+    }
+    for (let i = 0; i < column.length; i++) {
+      if (!isNullAt(column.nulls, i) && predicate(valueAt(column, i))) count++;
+    }
+    return count;
+  }
+
+  // Distinct non-null values, compared by their string form
+  uniqueCount(name: string): number {
+    const column = this.column(name);
+    if (column.kind === 'categorical') {
+      const seen = new Uint8Array(column.dictionary.length);
+      let unique = 0;
+      for (let i = 0; i < column.length; i++) {
+        if (isNullAt(column.nulls, i) || seen[column.codes[i]]) continue;
+        seen[column.codes[i]] = 1;
+        unique++;
+      }
+      return unique;
+    }
+    const seen = new Set<string>();
+    for (let i = 0; i < column.length; i++) {
+      if (!isNullAt(column.nulls, i)) seen.add(String(valueAt(column, i)));
+    }
+    return seen.size;
+  }
+
+  // ─── Row Adapters ──────────────────────────────────────────────────────────
+
+  row(index: number): DataRow {
+    const out: DataRow = {};
+    for (const name of this.columnNames) out[name] = valueAt(this.columns.get(name), index);
+    return out;
+  }
+
+  toRows(): DataRow[] {
+    const rows: DataRow[] = new Array(this.rowCount);
+    for (let i = 0; i < this.rowCount; i++) rows[i] = this.row(i);
+    return rows;
+  }
+
+  // New table with only the given rows, in the given order
+  take(indices: ArrayLike<number>): ColumnarTable {
+    const columns = this.columnNames.map(name => takeColumn(this.columns.get(name), indices));
+    return new ColumnarTable(indices.length, columns);
+  }
+}
+
+function takeColumn(column: Column, indices: ArrayLike<number>): Column {
+  const length = indices.length;
+  const nulls = createNullBitmap(length);
+  let nullCount = 0;
+  for (let i = 0; i < length; i++) {
+    if (isNullAt(column.nulls, indices[i])) {
+      markNull(nulls, i);
+      nullCount++;
+    }
+  }
+  const base = { name: column.name, length, nulls, nullCount };
+
+  switch (column.kind) {
+    case 'numeric': {
+      const values = new Float64Array(length);
+      for (let i = 0; i < length; i++) values[i] = column.values[indices[i]];
+      return { ...base, kind: 'numeric', values };
+    }
+    case 'categorical': {
+      // The dictionary is shared; unused entries are harmless
+      const codes = new Uint32Array(length);
+      for (let i = 0; i < length; i++) codes[i] = column.codes[indices[i]];
+      return { ...base, kind: 'categorical', codes, dictionary: column.dictionary };
+    }
+    case 'boolean': {
+      const values = new Uint8Array(length);
+      for (let i = 0; i < length; i++) values[i] = column.values[indices[i]];
+      return { ...base, kind: 'boolean', values };
+    }
+    case 'mixed': {
+      const values: unknown[] = new Array(length);
+      for (let i = 0; i < length; i++) values[i] = column.values[indices[i]];
+      return { ...base, kind: 'mixed', values };
+    }
+  }
+}
+
+// Column names in first-seen order across all rows
+export function collectColumns(rows: DataRow[]): string[] {
+  const seen = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) seen.add(key);
+  }
+  return [...seen];
+}
@@ -0,0 +1,153 @@
+/**
+ * Data Copilot: sends the user's prompt, with the active dataset's schema,
+ * a few sample rows and the pipeline so far, to the configured LLM provider
+ * and reads the reply back as a structured AiResponse, including any
+ * pipeline steps it proposes and any query it translated the question into.
+ */
+
+import type { AiMessage, AiResponse, ColumnSchema, Dataset } from '@/store/workspace';
+import { chatCompletion, stripCodeFence, type ChatMessage, type LLMConfig } from '../processor/llmInterface';
+import { buildColumnSchema } from '../datasetProfiler';
+import { STEP_GUIDE, parseStepProposals } from './steps';
+import { QUERY_GUIDE, readQueryPlan } from './query';
+
+type DataRow = Record<string, unknown>;
+
+const SAMPLE_ROWS = 10;
+const MAX_CELL_LENGTH = 80;
+// Earlier turns sent along for follow-up questions
+const HISTORY_TURNS = 6;
+
+export interface CopilotContext {
+  dataset: string;
+  rowCount: number;
+  schema: ColumnSchema[];
+  sample: DataRow[];
+  // Labels of the pipeline steps already applied, in order
+  steps: string[];
+}
+
+const SYSTEM_PROMPT = `You are Data Copilot, an assistant inside a data cleaning and analysis workspace.
+Answer the user's question about their dataset. When the answer involves transforming or querying the data,
+include equivalent code that runs against a table named "dataset" (SQL) or a DataFrame named "df" (Python).
+Reply with ONLY a JSON object, no markdown fence:
+{
+  "explanation": "answer in concise markdown",
+  "code": { "python": "plain Python, or empty", "pandas": "pandas code, or empty", "sql": "ANSI SQL, or empty", "pyspark": "PySpark code, or empty" },
+  "chart": null or { "type": "bar|line|pie", "x": "column", "y": "column", "aggregation": "sum|mean|count" },
+  "steps": [{ "type": "step type", "label": "short label", "params": { ... } }],
+  "query": null or a query plan
+}
+When the user asks to change the data, also express the change as "steps" the workspace can run after its
+current pipeline; otherwise return "steps": [].
+Only refer to columns that exist in the schema.
+
+${STEP_GUIDE}
+
+${QUERY_GUIDE}`;
+
+function truncateCell(value: unknown): unknown {
+  return typeof value === 'string' && value.length > MAX_CELL_LENGTH ? `${value.slice(0, MAX_CELL_LENGTH - 1)}…` : value;
+}
+
+/**
+ * Describe the dataset from the rows its pipeline produces, since that is
+ * what new steps and queries run on. Without rows, the uploaded schema
+ * stands in.
+ */
+export function copilotContext(dataset: Dataset, rows: DataRow[] | null): CopilotContext {
+  const steps = dataset.pipeline.map((s) => s.label);
+  if (!rows) return { dataset: dataset.name, rowCount: dataset.rowCount, schema: dataset.schema, sample: [], steps };
+  return {
+    dataset: dataset.name,
+    rowCount: rows.length,
+    schema: buildColumnSchema(rows),
+    sample: rows.slice(0, SAMPLE_ROWS).map((row) =>
+      Object.fromEntries(Object.entries(row).map(([k, v]) => [k, truncateCell(v)])),
+    ),
+    steps,
+  };
+}
+
+function describeContext(context: CopilotContext | null): string {
+  if (!context) return 'No dataset is open.';
+  const columns = context.schema.map((c) => ({
+    name: c.name,
+    type: c.type,
+    nullPct: c.nullPct,
+    unique: c.unique,
+    ...(c.min !== undefined ? { min: c.min, max: c.max, mean: c.mean } : {}),
+    samples: c.samples.slice(0, 5).map(truncateCell),
+  }));
+  return [
+    `Dataset "${context.dataset}" with ${context.rowCount} rows.`,
+    `Schema: ${JSON.stringify(columns)}`,
+    `Sample rows: ${JSON.stringify(context.sample)}`,
+    context.steps.length ? `Pipeline steps already applied: ${context.steps.join('; ')}` : 'No pipeline steps applied yet.',
+  ].join('\n');
+}
+
+export function copilotMessages(prompt: string, context: CopilotContext | null, history: AiMessage[] = []): ChatMessage[] {
+  return [
+    { role: 'system', content: `${SYSTEM_PROMPT}\n\n${describeContext(context)}` },
+    ...history.slice(-HISTORY_TURNS).map((m): ChatMessage => ({ role: m.role, content: m.text })),
+    { role: 'user', content: prompt },
+  ];
+}
+
+const asText = (value: unknown) => (typeof value === 'string' ? value : '');
+
+/**
+ * Read a reply as an AiResponse. Replies that are not the requested JSON
+ * are kept as a plain explanation without code.
+ */
+export function parseAiResponse(content: string): AiResponse {
+  const text = stripCodeFence(content);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    // Some models add prose around the object
+    const match = /\{[\s\S]*\}/.exec(text);
+    try {
+      parsed = match ? JSON.parse(match[0]) : null;
+    } catch {
+      parsed = null;
+    }
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { explanation: content.trim(), code: { python: '', pandas: '', sql: '', pyspark: '' } };
+  }
+  const reply = parsed as Record<string, unknown>;
+  const code = (reply.code && typeof reply.code === 'object' ? reply.code : {}) as Record<string, unknown>;
+  const chart = reply.chart ?? reply.chartSpec;
+  const steps = parseStepProposals(reply.steps);
+  const plan = readQueryPlan(reply.query);
+  return {
+    explanation: asText(reply.explanation).trim() || 'Here is what I found.',
+    code: {
+      python: asText(code.python).trim(),
+      pandas: asText(code.pandas).trim(),
+      sql: asText(code.sql).trim(),
+      pyspark: asText(code.pyspark).trim(),
+    },
+    ...(chart && typeof chart === 'object' && !Array.isArray(chart) ? { chartSpec: chart as Record<string, unknown> } : {}),
+    ...(steps.length ? { steps } : {}),
+    ...(plan ? { query: { plan, source: 'llm' as const } } : {}),
+  };
+}
+
+export function hasCode(response: AiResponse): boolean {
+  return Object.values(response.code).some((c) => c.length > 0);
+}
+
+export async function askCopilot(
+  prompt: string,
+  context: CopilotContext | null,
+  config: LLMConfig,
+  history: AiMessage[] = [],
+  signal?: AbortSignal,
+): Promise<AiResponse> {
+  const content = await chatCompletion(config, copilotMessages(prompt, context, history), { temperature: 0.2, signal });
+  return parseAiResponse(content);
+}
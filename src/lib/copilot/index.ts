@@ -0,0 +1,25 @@
+export {
+  askCopilot,
+  copilotContext,
+  copilotMessages,
+  parseAiResponse,
+  hasCode,
+  type CopilotContext,
+} from './assistant';
+export { STEP_GUIDE, parseStepProposals, previewProposals, type ProposalPreview } from './steps';
+export {
+  QUERY_GUIDE,
+  planQuery,
+  readQueryPlan,
+  runQuery,
+  answerQuery,
+  describePlan,
+  measureName,
+  queryWidget,
+  type QueryPlan,
+  type QueryPeriod,
+  type QueryGroup,
+  type QueryMeasure,
+  type QueryResult,
+  type QueryAnswer,
+} from './query';
@@ -0,0 +1,538 @@
+/**
+ * Natural-language queries: a question such as "average revenue by region in
+ * Q3" compiles into a QueryPlan (filters, calendar period, groups, measures)
+ * that runs locally over the rows the dataset's pipeline produces. The LLM
+ * only translates the question into a plan; planQuery is the rule-based
+ * translation used when no provider is set up.
+ */
+
+import type { ColumnSchema } from '@/store/workspace';
+import { collectColumns } from '../datasetProfiler';
+import { parseMultiFormatDate } from '../dataAnalyzer';
+import { FREQUENCIES, periodIndex, periodLabel, type Frequency } from '../ml/forecasting';
+import { aggregate, matchesPredicate } from '../pipeline/executor';
+import { AGGREGATE_FNS, FILTER_OPS } from '../pipeline/paramSchemas';
+import type { AggregateFn, FilterOp, FilterPredicate } from '../pipeline/types';
+import { AGGREGATION_LABELS, dimensionLabel, type Widget, type WidgetData } from '../dashboard/widgets';
+
+type DataRow = Record<string, unknown>;
+
+// Calendar period a date column must fall in; unset parts match any value, so "Q3" matches Q3 of every year
+export interface QueryPeriod {
+  column: string;
+  year: number | null;
+  quarter: number | null;
+  month: number | null;
+}
+
+export interface QueryGroup {
+  column: string;
+  // Date columns are bucketed by this grain
+  grain: Frequency | null;
+}
+
+export interface QueryMeasure {
+  // null counts rows
+  column: string | null;
+  fn: AggregateFn;
+}
+
+export interface QueryPlan {
+  filters: FilterPredicate[];
+  period: QueryPeriod | null;
+  groupBy: QueryGroup[];
+  measures: QueryMeasure[];
+  // Ranks groups by the first measure; null keeps periods chronological and other groups in first-seen order
+  order: 'asc' | 'desc' | null;
+  limit: number | null;
+}
+
+export interface QueryResult {
+  columns: string[];
+  rows: DataRow[];
+  // Rows read, rows within the filters and period, and groups before the limit
+  scanned: number;
+  matched: number;
+  groups: number;
+}
+
+// A question answered in the copilot: its plan, what translated it, and the outcome of running it
+export interface QueryAnswer {
+  plan: QueryPlan;
+  source: 'llm' | 'rules';
+  result?: QueryResult;
+  error?: string;
+}
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Plan shape the model returns, appended to the copilot's system prompt
+export const QUERY_GUIDE = `When the user asks for figures from the data (totals, averages, counts, breakdowns, rankings), also return
+"query" so the workspace can compute the answer itself; never make up the numbers. Otherwise return "query": null.
+"query": {
+  "filters": [{ column, op: ${FILTER_OPS.map((o) => `"${o.op}"`).join('|')}, value? }],
+  "period": null or { "column": date column, "year": number|null, "quarter": 1-4|null, "month": 1-12|null },
+  "groupBy": [{ "column": string, "grain": null|${Object.keys(FREQUENCIES).map((f) => `"${f}"`).join('|')} }],
+  "measures": [{ "column": numeric column, or null to count rows, "fn": ${AGGREGATE_FNS.map((f) => `"${f}"`).join('|')} }],
+  "order": null|"asc"|"desc", "limit": number|null
+}
+"order" ranks groups by the first measure; leave it null for time series.`;
+
+export function measureName(measure: QueryMeasure): string {
+  return measure.column ? `${AGGREGATION_LABELS[measure.fn]} ${measure.column}` : 'Rows';
+}
+
+function periodText(period: QueryPeriod): string {
+  const year = period.year ?? '(any year)';
+  if (period.month) return `${MONTHS[period.month - 1].replace(/^./, (c) => c.toUpperCase())} ${year}`;
+  if (period.quarter) return `Q${period.quarter} ${year}`;
+  return period.year ? String(period.year) : 'any period';
+}
+
+function filterText(p: FilterPredicate): string {
+  const op = FILTER_OPS.find((o) => o.op === p.op);
+  if (!op?.needsValue) return `${p.column} ${op?.label ?? p.op}`;
+  return `${p.column} ${op.label} ${Array.isArray(p.value) ? p.value.join(', ') : String(p.value)}`;
+}
+
+/** One-line reading of a plan, shown next to its result for audit. */
+export function describePlan(plan: QueryPlan): string {
+  const parts = [plan.measures.map(measureName).join(', ')];
+  if (plan.groupBy.length) {
+    parts.push(`by ${plan.groupBy.map((g) => (g.grain ? `${g.column} (${g.grain})` : g.column)).join(' and ')}`);
+  }
+  const conditions = [
+    ...(plan.period ? [`${plan.period.column} in ${periodText(plan.period)}`] : []),
+    ...plan.filters.map(filterText),
+  ];
+  if (conditions.length) parts.push(`where ${conditions.join(' and ')}`);
+  if (plan.limit) parts.push(`${plan.order === 'asc' ? 'bottom' : 'top'} ${plan.limit}`);
+  else if (plan.order) parts.push(plan.order === 'asc' ? 'smallest first' : 'largest first');
+  return parts.join(', ');
+}
+
+// ─── Reading model plans ────────────────────────────────────────────────────
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const wholeIn = (value: unknown, min: number, max: number): number | null =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max ? value : null;
+
+/**
+ * Read the `query` of a reply. Entries of the wrong shape are dropped;
+ * columns are checked against the rows when the plan runs.
+ */
+export function readQueryPlan(value: unknown): QueryPlan | null {
+  if (!isRecord(value) || !Array.isArray(value.measures)) return null;
+  const measures = value.measures.flatMap((m): QueryMeasure[] =>
+    isRecord(m) && AGGREGATE_FNS.includes(m.fn as AggregateFn) && (typeof m.column === 'string' || !m.column)
+      ? [{ column: typeof m.column === 'string' && m.column ? m.column : null, fn: m.fn as AggregateFn }]
+      : [],
+  );
+  if (!measures.length) return null;
+  const filters = (Array.isArray(value.filters) ? value.filters : []).flatMap((f): FilterPredicate[] =>
+    isRecord(f) && typeof f.column === 'string' && FILTER_OPS.some((o) => o.op === f.op)
+      ? [{ column: f.column, op: f.op as FilterOp, ...(f.value !== undefined ? { value: f.value as FilterPredicate['value'] } : {}) }]
+      : [],
+  );
+  const groupBy = (Array.isArray(value.groupBy) ? value.groupBy : []).flatMap((g): QueryGroup[] => {
+    if (typeof g === 'string') return [{ column: g, grain: null }];
+    if (!isRecord(g) || typeof g.column !== 'string') return [];
+    return [{ column: g.column, grain: typeof g.grain === 'string' && g.grain in FREQUENCIES ? (g.grain as Frequency) : null }];
+  });
+  const p = value.period;
+  const period = isRecord(p) && typeof p.column === 'string'
+    ? { column: p.column, year: wholeIn(p.year, 1000, 9999), quarter: wholeIn(p.quarter, 1, 4), month: wholeIn(p.month, 1, 12) }
+    : null;
+  return {
+    filters,
+    period: period && (period.year || period.quarter || period.month) ? period : null,
+    groupBy,
+    measures,
+    order: value.order === 'asc' || value.order === 'desc' ? value.order : null,
+    limit: wholeIn(value.limit, 1, Number.MAX_SAFE_INTEGER),
+  };
+}
+
+// ─── Execution ──────────────────────────────────────────────────────────────
+
+function planColumns(plan: QueryPlan): string[] {
+  return [
+    ...plan.filters.map((f) => f.column),
+    ...(plan.period ? [plan.period.column] : []),
+    ...plan.groupBy.map((g) => g.column),
+    ...plan.measures.flatMap((m) => (m.column ? [m.column] : [])),
+  ];
+}
+
+function inPeriod(raw: unknown, period: QueryPeriod): boolean {
+  const { date } = parseMultiFormatDate(raw);
+  if (!date) return false;
+  const index = periodIndex(date, 'month');
+  const month = (index % 12) + 1;
+  return (
+    (period.year === null || period.year === Math.floor(index / 12)) &&
+    (period.month === null || period.month === month) &&
+    (period.quarter === null || period.quarter === Math.ceil(month / 3))
+  );
+}
+
+function measureValue(rows: DataRow[], measure: QueryMeasure): number | null {
+  // Counting without a column counts rows, including ones with gaps
+  if (!measure.column) return rows.length;
+  const value = aggregate(rows.map((r) => r[measure.column]), measure.fn);
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Run a plan over rows. Rows whose date cannot be read fall outside any
+ * period and out of date groups, as on dashboard widgets.
+ */
+export function runQuery(rows: DataRow[], plan: QueryPlan): QueryResult {
+  const known = new Set(collectColumns(rows));
+  const unknown = planColumns(plan).find((c) => !known.has(c));
+  if (unknown !== undefined) throw new Error(`Unknown column: ${unknown}`);
+
+  const matched = rows.filter(
+    (row) => plan.filters.every((p) => matchesPredicate(row, p)) && (!plan.period || inPeriod(row[plan.period.column], plan.period)),
+  );
+
+  const groups = new Map<string, { labels: string[]; order: number[]; rows: DataRow[] }>();
+  for (const row of matched) {
+    const labels: string[] = [];
+    const order: number[] = [];
+    for (const { column, grain } of plan.groupBy) {
+      if (grain) {
+        const { date } = parseMultiFormatDate(row[column]);
+        if (!date) break;
+        order.push(periodIndex(date, grain));
+        labels.push(periodLabel(order[order.length - 1], grain));
+      } else {
+        order.push(0);
+        labels.push(dimensionLabel(row[column], null));
+      }
+    }
+    if (labels.length < plan.groupBy.length) continue;
+    const key = JSON.stringify(labels);
+    if (!groups.has(key)) groups.set(key, { labels, order, rows: [] });
+    groups.get(key).rows.push(row);
+  }
+  // Without groups the whole selection is one row, even when it is empty
+  if (!plan.groupBy.length && !groups.size) groups.set('[]', { labels: [], order: [], rows: [] });
+
+  const names = plan.measures.map(measureName);
+  const output = [...groups.values()].map((g) => ({
+    order: g.order,
+    row: Object.fromEntries([
+      ...plan.groupBy.map((q, i) => [q.column, g.labels[i]]),
+      ...plan.measures.map((m, i) => [names[i], measureValue(g.rows, m)]),
+    ]) as DataRow,
+  }));
+
+  if (plan.order) {
+    const sign = plan.order === 'asc' ? 1 : -1;
+    const value = (r: DataRow) => r[names[0]] as number | null;
+    // Groups without a value go last either way
+    output.sort((a, b) => {
+      const x = value(a.row);
+      const y = value(b.row);
+      if (x === null || y === null) return (x === null ? 1 : 0) - (y === null ? 1 : 0);
+      return (x - y) * sign;
+    });
+  } else if (plan.groupBy.some((g) => g.grain)) {
+    output.sort((a, b) => {
+      const i = a.order.findIndex((o, k) => o !== b.order[k]);
+      return i < 0 ? 0 : a.order[i] - b.order[i];
+    });
+  }
+
+  const limited = plan.limit ? output.slice(0, plan.limit) : output;
+  return {
+    columns: [...new Set([...plan.groupBy.map((g) => g.column), ...names])],
+    rows: limited.map((o) => o.row),
+    scanned: rows.length,
+    matched: matched.length,
+    groups: output.length,
+  };
+}
+
+/** Run an answer's plan, keeping the failure on the answer instead of throwing. */
+export function answerQuery(answer: QueryAnswer, rows: DataRow[] | null): QueryAnswer {
+  if (!rows) return { ...answer, error: 'The dataset rows are not available' };
+  try {
+    return { ...answer, result: runQuery(rows, answer.plan), error: undefined };
+  } catch (err) {
+    return { ...answer, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Chart of a result as a dashboard widget: a KPI for a single number, a line
+ * over periods, bars otherwise. Results grouped by several columns stay tables.
+ */
+export function queryWidget(plan: QueryPlan, result: QueryResult): { widget: Widget; data: WidgetData } | null {
+  const [measure] = plan.measures;
+  if (!measure || plan.groupBy.length > 1) return null;
+  const name = measureName(measure);
+  const [group] = plan.groupBy;
+  const widget: Widget = {
+    id: 'query',
+    type: !group ? 'kpi' : group.grain ? 'line' : 'bar',
+    layout: { x: 0, y: 0, w: 6, h: 4 },
+    config: {
+      title: name,
+      measure: measure.column,
+      aggregation: measure.fn,
+      dimension: group?.column ?? null,
+      dateGrain: group?.grain ?? null,
+      filters: plan.filters,
+      limit: result.rows.length,
+    },
+  };
+  const number = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+  if (!group) {
+    return { widget, data: { kind: 'value', value: number(result.rows[0]?.[name]), latest: null, previous: null, period: null, max: null } };
+  }
+  const points = result.rows.map((r) => ({ label: String(r[group.column]), value: number(r[name]) ?? 0 }));
+  return { widget, data: { kind: 'series', points, hidden: result.groups - result.rows.length } };
+}
+
+// ─── Rule-based translation ─────────────────────────────────────────────────
+
+// Words that carry the query's meaning and never name a column or value
+const KEYWORDS = new Set([
+  'a', 'an', 'the', 'in', 'by', 'per', 'of', 'and', 'or', 'for', 'to', 'on', 'at', 'is', 'with', 'where', 'each', 'every',
+  'top', 'bottom', 'count', 'sum', 'total', 'average', 'avg', 'mean', 'median', 'min', 'max', 'minimum', 'maximum',
+  'which', 'what', 'how', 'many', 'number', 'show', 'me', 'all',
+]);
+
+// Prompts that ask for a change to the data rather than figures from it
+const COMMANDS = /^(?:please\s+)?(?:remove|drop|delete|fill|replace|rename|trim|convert|clean|fix|standardi[sz]e|normali[sz]e|detect|impute|split|merge|join|sort|filter|add|create|make|cast|encode|dedupe|deduplicate)\b/;
+
+const AGGREGATION_WORDS: [RegExp, AggregateFn][] = [
+  [/\b(?:average|avg|mean)\b/, 'mean'],
+  [/\bmedian\b/, 'median'],
+  [/\b(?:total|sum)\b/, 'sum'],
+  [/\b(?:distinct|unique)\b/, 'count_distinct'],
+  [/\b(?:how many|count|number of)\b/, 'count'],
+  [/\b(?:minimum|min)\b/, 'min'],
+  [/\b(?:maximum|max)\b/, 'max'],
+];
+const HIGH = /\b(?:highest|largest|biggest|most|best)\b/;
+const LOW = /\b(?:lowest|smallest|least|fewest|worst)\b/;
+
+const GRAIN_WORDS: Record<string, Frequency> = {
+  daily: 'day', weekly: 'week', monthly: 'month', quarterly: 'quarter', yearly: 'year', annual: 'year', annually: 'year',
+};
+
+const COMPARISON = /^\s*(?:is\s+|are\s+|was\s+)?(>=|<=|!=|>|<|=|over|above|more than|greater than|at least|under|below|less than|fewer than|at most|equal to|equals)\s*(-?\d+(?:\.\d+)?)\b/;
+const COMPARISON_OPS: Record<string, FilterOp> = {
+  '>': 'gt', over: 'gt', above: 'gt', 'more than': 'gt', 'greater than': 'gt',
+  '>=': 'gte', 'at least': 'gte',
+  '<': 'lt', under: 'lt', below: 'lt', 'less than': 'lt', 'fewer than': 'lt',
+  '<=': 'lte', 'at most': 'lte',
+  '=': 'eq', 'equal to': 'eq', equals: 'eq',
+  '!=': 'neq',
+};
+
+// Columns with more distinct values than this are not searched for values named in the question
+const MAX_FILTER_VALUES = 200;
+
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/['"?!,;:()[\]{}]/g, ' ')
+    .replace(/\.(?!\d)/g, ' ')
+    .replace(/[_\-/]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+interface Mention extends Span {
+  column: ColumnSchema;
+}
+
+const overlaps = (a: Span, spans: Span[]) => spans.some((s) => a.start < s.end && a.end > s.start);
+
+// Column names in the question, longest first so "order date" wins over "date"; plurals count
+function findMentions(q: string, schema: ColumnSchema[]): Mention[] {
+  const variants = schema
+    .flatMap((column) => {
+      const name = normalize(column.name);
+      const forms = [name, `${name}s`, `${name}es`, name.endsWith('s') ? name.slice(0, -1) : '', name.endsWith('y') ? `${name.slice(0, -1)}ies` : ''];
+      return forms.filter((f) => f.length >= 2 && !KEYWORDS.has(f)).map((form) => ({ column, form }));
+    })
+    .sort((a, b) => b.form.length - a.form.length);
+  const mentions: Mention[] = [];
+  for (const { column, form } of variants) {
+    for (const match of q.matchAll(new RegExp(`\\b${escapeRegExp(form)}\\b`, 'g'))) {
+      const span = { start: match.index, end: match.index + form.length };
+      if (!overlaps(span, mentions)) mentions.push({ column, ...span });
+    }
+  }
+  return mentions.sort((a, b) => a.start - b.start);
+}
+
+function findPeriod(q: string, taken: Span[]): Omit<QueryPeriod, 'column'> | null {
+  const ordinal = /\b(first|second|third|fourth|1st|2nd|3rd|4th)\s+quarter\b/.exec(q);
+  const quarter = /\bq([1-4])\b/.exec(q) ?? /\bquarter\s+([1-4])\b/.exec(q);
+  const month = new RegExp(`\\b(${MONTHS.filter((m) => m !== 'may').join('|')}|jan|feb|mar|apr|jun|jul|aug|sept?|oct|nov|dec)\\b`).exec(q)
+    ?? /\b(?:in\s+)(may)\b|\b(may)(?=\s+\d{4}\b)/.exec(q);
+  const years = [...q.matchAll(/\b(?:19|20)\d{2}\b/g)].filter((m) => !overlaps({ start: m.index, end: m.index + 4 }, taken));
+  const period = {
+    year: years.length ? Number(years[0][0]) : null,
+    quarter: quarter ? Number(quarter[1]) : ordinal ? ['first', 'second', 'third', 'fourth'].indexOf(ordinal[1]) + 1 || Number(ordinal[1][0]) : null,
+    month: month ? MONTHS.findIndex((m) => m.startsWith(month[1] ?? month[2])) + 1 : null,
+  };
+  if (period.month) period.quarter = null;
+  return period.year || period.quarter || period.month ? period : null;
+}
+
+// Values of text columns named in the question, e.g. "North" for region
+function findValueFilters(q: string, schema: ColumnSchema[], rows: DataRow[], skip: Set<string>, taken: Span[]): FilterPredicate[] {
+  const filters: FilterPredicate[] = [];
+  for (const column of schema) {
+    if ((column.type !== 'categorical' && column.type !== 'text') || skip.has(column.name)) continue;
+    const values = new Map<string, unknown>();
+    for (const row of rows) {
+      const raw = row[column.name];
+      if (raw === null || raw === undefined || raw === '') continue;
+      values.set(normalize(String(raw)), raw);
+      if (values.size > MAX_FILTER_VALUES) break;
+    }
+    if (values.size > MAX_FILTER_VALUES) continue;
+    const named = [...values].filter(([text]) => {
+      if (text.length < 2 || KEYWORDS.has(text) || /^-?\d+(\.\d+)?$/.test(text)) return false;
+      const match = new RegExp(`\\b${escapeRegExp(text)}\\b`).exec(q);
+      return match !== null && !overlaps({ start: match.index, end: match.index + text.length }, taken);
+    });
+    if (named.length === 1) filters.push({ column: column.name, op: 'eq', value: named[0][1] as string | number });
+    else if (named.length > 1) filters.push({ column: column.name, op: 'in', value: named.map(([, raw]) => raw as string | number) });
+  }
+  return filters;
+}
+
+/**
+ * Translate a question into a plan without a model: aggregation words
+ * ("average", "total", "how many"), groups ("by region", "monthly", "top 5
+ * products"), comparisons ("revenue over 100"), a calendar period ("in Q3",
+ * "March 2024") and values of text columns named in the question. Returns
+ * null when the question does not read as a query over these columns.
+ */
+export function planQuery(question: string, schema: ColumnSchema[], rows: DataRow[]): QueryPlan | null {
+  const q = normalize(question);
+  if (!q || COMMANDS.test(q)) return null;
+  const mentions = findMentions(q, schema);
+  const dateColumn = mentions.find((m) => m.column.type === 'date')?.column ?? schema.find((c) => c.type === 'date');
+  const taken: Span[] = [...mentions];
+
+  // Comparisons right after a numeric column
+  const filters: FilterPredicate[] = [];
+  const compared = new Set<Mention>();
+  for (const m of mentions) {
+    if (m.column.type !== 'numeric') continue;
+    const match = COMPARISON.exec(q.slice(m.end));
+    if (!match) continue;
+    filters.push({ column: m.column.name, op: COMPARISON_OPS[match[1]], value: Number(match[2]) });
+    compared.add(m);
+    taken.push({ start: m.start, end: m.end + match[0].length });
+  }
+
+  // Groups
+  const groupBy: QueryGroup[] = [];
+  const grouped = new Set<Mention>();
+  const addGrain = (grain: Frequency) => {
+    if (dateColumn && !groupBy.some((g) => g.grain)) groupBy.push({ column: dateColumn.name, grain });
+  };
+  const addGroup = (m: Mention) => {
+    if (groupBy.some((g) => g.column === m.column.name)) return;
+    grouped.add(m);
+    groupBy.push({ column: m.column.name, grain: m.column.type === 'date' ? 'month' : null });
+  };
+  let limit: number | null = null;
+  let order: QueryPlan['order'] = null;
+  const rank = /\b(top|bottom)\s+(\d+)\s+/.exec(q);
+  if (rank) {
+    limit = Number(rank[2]);
+    order = rank[1] === 'top' ? 'desc' : 'asc';
+    const target = mentions.find((m) => m.start === rank.index + rank[0].length);
+    if (target) addGroup(target);
+  }
+  // "which region has ..." groups by the column it asks about
+  const asked = /\b(?:which|what)\s+/.exec(q);
+  const subject = asked && mentions.find((m) => m.start === asked.index + asked[0].length);
+  if (subject && subject.column.type !== 'numeric') addGroup(subject);
+  for (const match of q.matchAll(/\b(?:by|per|for each|for every|across|grouped by|broken down by|split by)\s+(?:the\s+|each\s+)?/g)) {
+    let at = match.index + match[0].length;
+    for (;;) {
+      const grain = /^(day|week|month|quarter|year)s?\b/.exec(q.slice(at));
+      const target = mentions.find((m) => m.start === at);
+      if (grain) {
+        addGrain(grain[1] as Frequency);
+        at += grain[0].length;
+      } else if (target && !(rank && target.column.type === 'numeric')) {
+        // In "top 5 regions by revenue" the numeric column is what ranks the groups
+        addGroup(target);
+        at = target.end;
+      } else {
+        break;
+      }
+      const more = /^\s*(?:and|,)\s+(?:by\s+)?/.exec(q.slice(at));
+      if (!more) break;
+      at += more[0].length;
+    }
+  }
+  const adjective = new RegExp(`\\b(${Object.keys(GRAIN_WORDS).join('|')})\\b`).exec(q);
+  if (adjective) addGrain(GRAIN_WORDS[adjective[1]]);
+  else if (/\bover time\b|\btrend\b/.test(q)) addGrain('month');
+
+  // Calendar period
+  const found = findPeriod(q, taken);
+  if (found && !dateColumn) return null;
+  const period = found ? { column: dateColumn.name, ...found } : null;
+
+  // Measure
+  const aggregation = AGGREGATION_WORDS.map(([re, fn]) => ({ match: re.exec(q), fn })).find((a) => a.match);
+  const high = HIGH.exec(q);
+  const low = LOW.exec(q);
+  // "which region has the highest revenue" ranks groups rather than taking a maximum
+  const ranking = groupBy.length > 0 && (high || low) && /\b(?:which|what)\b/.test(q);
+  let fn: AggregateFn | null = aggregation?.fn ?? null;
+  let keywordAt = aggregation?.match.index ?? -1;
+  if (ranking) {
+    order = high ? 'desc' : 'asc';
+    limit ??= 1;
+  } else if (!fn && (high || low)) {
+    fn = high ? 'max' : 'min';
+    keywordAt = (high ?? low).index;
+  }
+  const numeric = mentions.filter((m) => m.column.type === 'numeric' && !grouped.has(m));
+  const candidates = numeric.filter((m) => !compared.has(m));
+  const after = (list: Mention[]) => list.find((m) => m.start > keywordAt) ?? list[0];
+
+  let measure: QueryMeasure | null = null;
+  if (fn === 'count') {
+    measure = { column: null, fn: 'count' };
+  } else if (fn === 'count_distinct') {
+    const target = mentions.find((m) => m.start > keywordAt && !compared.has(m) && !grouped.has(m));
+    if (target) measure = { column: target.column.name, fn };
+  } else {
+    const target = after(candidates) ?? after(numeric);
+    if (target) measure = { column: target.column.name, fn: fn ?? 'sum' };
+    else if (!fn && (groupBy.length || filters.length || period)) measure = { column: null, fn: 'count' };
+  }
+  if (!measure) return null;
+
+  const skip = new Set([...groupBy.map((g) => g.column), ...(measure.column ? [measure.column] : [])]);
+  filters.push(...findValueFilters(q, schema, rows, skip, taken));
+  if (!order && groupBy.length && !groupBy.some((g) => g.grain)) order = 'desc';
+
+  return { filters, period, groupBy, measures: [measure], order, limit };
+}
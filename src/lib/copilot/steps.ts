@@ -0,0 +1,111 @@
+/**
+ * Copilot step proposals: pipeline steps suggested in a reply, checked
+ * against the columns at the end of the dataset's pipeline and previewed
+ * on its output before they are added.
+ */
+
+import type { AiStepProposal, PipelineStep } from '@/store/workspace';
+import { collectColumns } from '../datasetProfiler';
+import {
+  EXPRESSION_FUNCTIONS,
+  describeStep,
+  diffSnapshots,
+  isSupportedStepType,
+  runPipeline,
+  validateStepParams,
+  type ExecutionContext,
+  type SnapshotDiff,
+} from '../pipeline';
+
+type DataRow = Record<string, unknown>;
+
+// Rows shown in the preview
+const PREVIEW_ROWS = 50;
+// Joins need another dataset's id and pivots reshape beyond what a preview can explain; both stay in the step editor
+const NOT_PROPOSED = ['join', 'pivot'];
+
+// Parameter shapes the model may use, one line per step type
+export const STEP_GUIDE = `Supported pipeline steps ("type": params):
+- trim: { columns?: string[], collapseSpaces?: boolean }
+- fill_missing: { columns?: string[], strategy: "auto"|"mean"|"median"|"mode"|"constant"|"unknown"|"forward_fill"|"drop", value?: string|number }
+- remove_duplicates: { columns?: string[], keep?: "first"|"last" }
+- fix_types: { types: { [column]: "numeric"|"categorical"|"date"|"boolean"|"text" } }
+- standardize_text: { columns?: string[], case: "lower"|"upper"|"title" }
+- filter: { predicates: [{ column, op: "eq"|"neq"|"gt"|"gte"|"lt"|"lte"|"contains"|"not_contains"|"starts_with"|"ends_with"|"in"|"is_null"|"not_null", value? }], combine?: "and"|"or" }
+- sort: { keys: [{ column, direction: "asc"|"desc" }] }
+- group_by: { by: string[], aggregations: [{ column, fn: "sum"|"mean"|"median"|"min"|"max"|"count"|"count_distinct", as? }] }
+- calc: { name: string, expression: string } (formula over columns, [Bracketed Name] for names with spaces; + - * / == && || and ${EXPRESSION_FUNCTIONS.join(', ')})
+- rename: { renames: [{ from, to }] }
+- normalize / standardize: { columns?: string[] }
+- one_hot: { columns?: string[], dropOriginal?: boolean }
+- bucketize: { column: string, edges: number[], labels?: string[], as?: string }
+Omitted columns mean every applicable column.`;
+
+/** Read the `steps` array of a reply, keeping entries with a known type. */
+export function parseStepProposals(value: unknown): AiStepProposal[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry): AiStepProposal[] => {
+    if (!entry || typeof entry !== 'object') return [];
+    const { type, label, params } = entry as Record<string, unknown>;
+    if (typeof type !== 'string' || !isSupportedStepType(type) || NOT_PROPOSED.includes(type)) return [];
+    const stepParams = params && typeof params === 'object' && !Array.isArray(params) ? (params as Record<string, unknown>) : {};
+    return [{
+      type,
+      label: typeof label === 'string' && label.trim() ? label.trim() : describeStep(type, stepParams),
+      params: stepParams,
+    }];
+  });
+}
+
+export interface ProposalPreview {
+  steps: PipelineStep[];
+  // Validation and execution problems, prefixed with the step label
+  errors: string[];
+  before: DataRow[];
+  after: DataRow[];
+  diff: SnapshotDiff;
+  // What to show: changed or added rows from `after`, or the rows a filter drops from `before`
+  rows: DataRow[];
+  rowsFrom: 'after' | 'before';
+}
+
+/**
+ * Run the proposals after the dataset's pipeline. Each step is validated
+ * against the columns it would receive; the preview stops at the first
+ * step that is invalid or fails.
+ */
+export function previewProposals(
+  rows: DataRow[],
+  pipeline: PipelineStep[],
+  proposals: AiStepProposal[],
+  ctx: ExecutionContext = {},
+): ProposalPreview {
+  const base = runPipeline(rows, pipeline, ctx);
+  const before = base.rows;
+  const createdAt = new Date().toISOString();
+  const steps = proposals.map((p): PipelineStep => ({ id: crypto.randomUUID(), ...p, createdAt }));
+  const errors: string[] = [];
+  if (base.failedStepId) errors.push(`The pipeline fails at "${pipeline.find((s) => s.id === base.failedStepId)?.label}"`);
+
+  let after = before;
+  for (const step of steps) {
+    if (errors.length) break;
+    const check = validateStepParams(step.type, step.params, { columns: collectColumns(after) });
+    if (!check.valid) {
+      errors.push(...check.errors.map((e) => `${step.label}: ${e}`));
+      break;
+    }
+    const run = runPipeline(after, [step], ctx);
+    const info = run.steps[0];
+    if (info.error) errors.push(`${step.label}: ${info.error}`);
+    else after = run.rows;
+  }
+
+  const diff = diffSnapshots(before, after);
+  if (diff.alignment === 'identity' && diff.rowsRemoved > 0) {
+    const kept = new Set(after);
+    return { steps, errors, before, after, diff, rows: before.filter((r) => !kept.has(r)).slice(0, PREVIEW_ROWS), rowsFrom: 'before' };
+  }
+  const changed = diff.alignment === 'index' && !diff.addedColumns.length ? after.filter((r) => diff.changes.has(r)) : after;
+  return { steps, errors, before, after, diff, rows: changed.slice(0, PREVIEW_ROWS), rowsFrom: 'after' };
+}
@@ -0,0 +1,94 @@
+/**
+ * Regenerates the simplified boundary GeoJSON bundled with the map widget.
+ *
+ *   npm i --no-save world-atlas@2 us-atlas@3 topojson-client@3 topojson-simplify@3 i18n-iso-countries@7
+ *   node src/lib/dashboard/boundaries/generate.mjs
+ *
+ * Countries come from Natural Earth 1:110m (world-atlas) as [lon, lat] rounded
+ * to 0.1°, keyed by ISO alpha-3 code. US states come from the Census Bureau's
+ * cartographic boundaries (us-atlas), already projected with Albers USA into a
+ * 975×610 frame with Alaska and Hawaii inset, rounded to whole pixels and
+ * keyed by postal code. Both are public domain.
+ */
+
+import { writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { feature } from 'topojson-client';
+import { presimplify, quantile, simplify } from 'topojson-simplify';
+
+const require = createRequire(import.meta.url);
+const iso = require('i18n-iso-countries');
+const out = new URL('.', import.meta.url);
+
+// State FIPS code → postal code
+const POSTAL = {
+  '01': 'AL', '02': 'AK', '04': 'AZ', '05': 'AR', '06': 'CA', '08': 'CO', '09': 'CT', '10': 'DE', '11': 'DC', '12': 'FL',
+  '13': 'GA', '15': 'HI', '16': 'ID', '17': 'IL', '18': 'IN', '19': 'IA', '20': 'KS', '21': 'KY', '22': 'LA', '23': 'ME',
+  '24': 'MD', '25': 'MA', '26': 'MI', '27': 'MN', '28': 'MS', '29': 'MO', '30': 'MT', '31': 'NE', '32': 'NV', '33': 'NH',
+  '34': 'NJ', '35': 'NM', '36': 'NY', '37': 'NC', '38': 'ND', '39': 'OH', '40': 'OK', '41': 'OR', '42': 'PA', '44': 'RI',
+  '45': 'SC', '46': 'SD', '47': 'TN', '48': 'TX', '49': 'UT', '50': 'VT', '51': 'VA', '53': 'WA', '54': 'WV', '55': 'WI',
+  '56': 'WY',
+};
+
+// Unrecognized areas (Northern Cyprus, Somaliland) keep a null id and are drawn as backdrop only
+const ALPHA3_BY_NAME = { Kosovo: 'XKX' };
+
+// Shoelace area of a polygon's outer ring
+const area = (rings) => Math.abs(rings[0].reduce((sum, [x, y], i, r) => sum + x * r[(i + 1) % r.length][1] - r[(i + 1) % r.length][0] * y, 0)) / 2;
+
+// Round every position, then drop repeated points, rings that collapse and
+// specks below minArea (an area always keeps its largest polygon). Rings that
+// cross the antimeridian are unwrapped past ±180° so they draw in one piece.
+function round(geometry, digits, minArea) {
+  const f = 10 ** digits;
+  const ring = (r) => {
+    const kept = [];
+    let shift = 0;
+    for (let i = 0; i < r.length; i++) {
+      if (i > 0 && Math.abs(r[i][0] - r[i - 1][0]) > 180) shift -= Math.sign(r[i][0] - r[i - 1][0]) * 360;
+      const [x, y] = r[i];
+      const p = [Math.round((x + shift) * f) / f, Math.round(y * f) / f];
+      const last = kept[kept.length - 1];
+      if (!last || last[0] !== p[0] || last[1] !== p[1]) kept.push(p);
+    }
+    return kept.length >= 4 ? kept : null;
+  };
+  const rounded = (geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates)
+    .map((rings) => rings.map(ring))
+    .filter((rings) => rings[0])
+    .map((rings) => rings.filter(Boolean));
+  const largest = Math.max(...rounded.map(area));
+  const polygons = rounded.filter((rings) => area(rings) === largest || area(rings) >= minArea);
+  if (polygons.length === 0) return null;
+  return polygons.length === 1 ? { type: 'Polygon', coordinates: polygons[0] } : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+function build(topology, object, { keep, digits, minArea, skip = [] }, properties) {
+  // Keep the given share of points, ranked by the area each one contributes
+  const weighted = presimplify(topology);
+  const simplified = simplify(weighted, quantile(weighted, keep));
+  const original = feature(topology, topology.objects[object]).features;
+  return {
+    type: 'FeatureCollection',
+    features: feature(simplified, simplified.objects[object]).features
+      .map((f, i) => ({
+        type: 'Feature',
+        // Small islands that simplify away keep their full outline
+        geometry: round(f.geometry, digits, minArea) ?? round(original[i].geometry, digits, minArea),
+        properties: properties(f),
+      }))
+      .filter((f) => f.geometry && !skip.includes(f.properties.name)),
+  };
+}
+
+const countries = build(require('world-atlas/countries-110m.json'), 'countries', { keep: 0.35, digits: 1, minArea: 0.5, skip: ['Antarctica'] }, (f) => ({
+  id: (f.id && iso.numericToAlpha3(f.id)) ?? ALPHA3_BY_NAME[f.properties.name] ?? null,
+  name: f.properties.name,
+}));
+const states = build(require('us-atlas/states-albers-10m.json'), 'states', { keep: 0.12, digits: 0, minArea: 12 }, (f) => ({
+  id: POSTAL[f.id],
+  name: f.properties.name,
+}));
+
+writeFileSync(new URL('countries.json', out), JSON.stringify(countries));
+writeFileSync(new URL('us-states.json', out), JSON.stringify(states));
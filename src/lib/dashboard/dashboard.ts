@@ -0,0 +1,82 @@
+/**
+ * Saved dashboards and the filters that apply across all of their widgets:
+ * a global date range and filter bar stored with the dashboard, and a
+ * transient cross-filter set by clicking a bar, slice or row.
+ */
+
+import { parseMultiFormatDate } from '../dataAnalyzer';
+import { periodIndex, type Frequency } from '../ml/forecasting';
+import type { FilterPredicate } from '../pipeline/types';
+import { suggestWidgets } from './seed';
+import { dimensionLabel, filterRows, type Widget } from './widgets';
+
+type DataRow = Record<string, unknown>;
+
+export interface DashboardFilters {
+  dateColumn: string | null;
+  // Inclusive ISO dates (YYYY-MM-DD); null leaves that end open
+  from: string | null;
+  to: string | null;
+  predicates: FilterPredicate[];
+}
+
+export interface Dashboard {
+  id: string;
+  name: string;
+  widgets: Widget[];
+  filters: DashboardFilters;
+  updatedAt: string;
+}
+
+// Set by clicking a group in one widget; filters every other widget
+export interface CrossFilter {
+  widgetId: string;
+  column: string;
+  // Group label as drawn by the source widget
+  label: string;
+  grain: Frequency | null;
+}
+
+export const EMPTY_FILTERS: DashboardFilters = { dateColumn: null, from: null, to: null, predicates: [] };
+
+export function createDashboard(name: string, rows: DataRow[]): Dashboard {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    widgets: suggestWidgets(rows),
+    filters: EMPTY_FILTERS,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+function dayOf(value: unknown): number | null {
+  const { date } = parseMultiFormatDate(value);
+  return date ? periodIndex(date, 'day') : null;
+}
+
+export function hasActiveFilters(filters: DashboardFilters): boolean {
+  return filters.predicates.length > 0 || (!!filters.dateColumn && (!!filters.from || !!filters.to));
+}
+
+/**
+ * Rows for one widget: the dashboard's date range and filter bar, then any
+ * cross-filter set by a different widget.
+ */
+export function applyDashboardFilters(
+  rows: DataRow[], filters: DashboardFilters, cross: CrossFilter | null = null, widgetId?: string,
+): DataRow[] {
+  let out = filterRows(rows, filters.predicates);
+  const { dateColumn } = filters;
+  const from = filters.from ? dayOf(filters.from) : null;
+  const to = filters.to ? dayOf(filters.to) : null;
+  if (dateColumn && (from !== null || to !== null)) {
+    out = out.filter((row) => {
+      const day = dayOf(row[dateColumn]);
+      return day !== null && (from === null || day >= from) && (to === null || day <= to);
+    });
+  }
+  if (cross && cross.widgetId !== widgetId) {
+    out = out.filter((row) => dimensionLabel(row[cross.column], cross.grain) === cross.label);
+  }
+  return out;
+}
@@ -0,0 +1,409 @@
+/**
+ * Geography for map widgets: recognizing columns of country names or ISO
+ * codes, US states, compass regions or latitude/longitude pairs, and laying
+ * a widget's groups out as SVG shapes. The builder and the standalone export
+ * draw the same layout, so both are computed here rather than in components.
+ */
+
+import {
+  COMPASS_REGIONS, COUNTRIES, COUNTRY_BOUNDARIES, US_STATES, US_STATES_SIZE,
+  type AreaProperties, type Boundary, type GeoFeatureCollection, type Point, type TileProperties,
+} from './geoData';
+import type { WidgetData } from './widgets';
+
+type DataRow = Record<string, unknown>;
+
+export type GeoLevel = 'us_state' | 'country' | 'compass';
+
+export const GEO_LEVEL_LABELS: Record<GeoLevel | 'coordinates', string> = {
+  us_state: 'US states',
+  country: 'Countries',
+  compass: 'Compass regions',
+  coordinates: 'Latitude / longitude',
+};
+
+// Share of a column's distinct values that must name a known area
+const MIN_MATCH_SHARE = 0.8;
+const SAMPLE_ROWS = 500;
+const TILE = 40;
+const TILE_GAP = 4;
+const FRAME_WIDTH = 600;
+const FRAME_HEIGHT = 300;
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+  value: number;
+}
+
+// ─── Detection ──────────────────────────────────────────────────────────────
+
+const COLLECTIONS: Record<GeoLevel, GeoFeatureCollection<Point | Boundary, AreaProperties>> = {
+  us_state: US_STATES,
+  country: COUNTRIES,
+  compass: COMPASS_REGIONS,
+};
+
+// Checked in this order, so two-letter codes that are both a state and a country read as states
+const LEVELS: GeoLevel[] = ['us_state', 'country', 'compass'];
+
+function normalize(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[.'’]/g, '')
+    .replace(/[\s_-]+/g, ' ')
+    .trim();
+}
+
+const indexes = new Map<GeoLevel, Map<string, number>>();
+
+// Normalized name or alias → feature index, built on first use
+function areaIndex(level: GeoLevel): Map<string, number> {
+  let index = indexes.get(level);
+  if (!index) {
+    index = new Map();
+    COLLECTIONS[level].features.forEach((f, i) => {
+      for (const key of [f.properties.name, ...f.properties.aliases]) index.set(normalize(key), i);
+    });
+    indexes.set(level, index);
+  }
+  return index;
+}
+
+function findArea(value: string, level: GeoLevel): number | undefined {
+  return areaIndex(level).get(normalize(value));
+}
+
+/** The kind of area most of these values name, or null when they are not geographic. */
+export function detectGeoLevel(values: string[]): GeoLevel | null {
+  const distinct = [...new Set(values.map(normalize))].filter((v) => v && v !== 'unknown');
+  // A single place is enough here so a cross-filtered map keeps its shape; column detection asks for more
+  if (distinct.length === 0) return null;
+  let best: GeoLevel | null = null;
+  let bestShare = 0;
+  for (const level of LEVELS) {
+    const index = areaIndex(level);
+    const share = distinct.filter((v) => index.has(v)).length / distinct.length;
+    if (share >= MIN_MATCH_SHARE && share > bestShare) {
+      best = level;
+      bestShare = share;
+    }
+  }
+  return best;
+}
+
+const LATITUDE_NAME = /(^|[_\s])(lat|latitude)$/i;
+const LONGITUDE_NAME = /(^|[_\s])(lon|lng|long|longitude)$/i;
+
+/** Latitude and longitude columns judged by name alone, for when no rows are at hand. */
+export function guessCoordinateColumns(columns: string[]): { latitude: string; longitude: string } | null {
+  const latitude = columns.find((c) => LATITUDE_NAME.test(c));
+  const longitude = columns.find((c) => LONGITUDE_NAME.test(c));
+  return latitude && longitude ? { latitude, longitude } : null;
+}
+
+function inRange(rows: DataRow[], column: string, limit: number): boolean {
+  let present = 0;
+  let valid = 0;
+  for (const row of rows) {
+    const v = row[column];
+    if (v === null || v === undefined || v === '') continue;
+    present++;
+    const n = Number(v);
+    if (Number.isFinite(n) && Math.abs(n) <= limit) valid++;
+  }
+  return present > 0 && valid / present >= 0.9;
+}
+
+export interface GeoColumns {
+  areas: { column: string; level: GeoLevel }[];
+  coordinates: { latitude: string; longitude: string } | null;
+}
+
+export function detectGeoColumns(rows: DataRow[]): GeoColumns {
+  const sample = rows.slice(0, SAMPLE_ROWS);
+  const columns = Object.keys(sample[0] ?? {});
+  const areas: GeoColumns['areas'] = [];
+  for (const column of columns) {
+    const values = sample
+      .map((r) => r[column])
+      .filter((v): v is string => typeof v === 'string' && v.trim() !== '' && !Number.isFinite(Number(v)));
+    const level = new Set(values).size >= 2 ? detectGeoLevel(values) : null;
+    if (level) areas.push({ column, level });
+  }
+  const guess = guessCoordinateColumns(columns);
+  const coordinates = guess && inRange(sample, guess.latitude, 90) && inRange(sample, guess.longitude, 180) ? guess : null;
+  return { areas, coordinates };
+}
+
+// ─── Layout ─────────────────────────────────────────────────────────────────
+
+export type MapShape =
+  // A country or state outline; its path comes from `areaPaths`, keyed by code
+  | { kind: 'area'; label: string | null; name: string; code: string; value: number | null }
+  | {
+      kind: 'tile';
+      // Group label this tile shows, for tooltips and cross-filtering; null when no group matched
+      label: string | null;
+      name: string;
+      code: string;
+      value: number | null;
+      x: number;
+      y: number;
+      size: number;
+    }
+  | { kind: 'point'; label: string | null; name: string; value: number; cx: number; cy: number; r: number };
+
+/**
+ * Coordinate space of a map: a tile grid, the pre-projected US states frame,
+ * or an equirectangular window on the world fitted to the data with
+ * longitudes scaled by cos(mid-latitude).
+ */
+export interface MapFrame {
+  level: GeoLevel | 'coordinates';
+  width: number;
+  height: number;
+  west: number;
+  north: number;
+  scale: number;
+  cos: number;
+}
+
+export interface MapView {
+  kind: 'map';
+  level: GeoLevel | 'coordinates';
+  width: number;
+  height: number;
+  shapes: MapShape[];
+  min: number;
+  max: number;
+  // Group labels that name no known area
+  unmatched: string[];
+}
+
+function project(frame: MapFrame, lon: number, lat: number): [number, number] {
+  return [(lon - frame.west) * frame.cos * frame.scale, (frame.north - lat) * frame.scale];
+}
+
+// The state outlines are stored in frame coordinates already
+function statesFrame(): MapFrame {
+  return { level: 'us_state', ...US_STATES_SIZE, west: 0, north: 0, scale: 1, cos: 1 };
+}
+
+function tileFrame(level: GeoLevel): MapFrame {
+  const tiles = COLLECTIONS[level].features.map((f) => f.properties as TileProperties);
+  const cols = Math.max(...tiles.map((t) => t.col)) + 1;
+  const rows = Math.max(...tiles.map((t) => t.row)) + 1;
+  return { level, width: cols * (TILE + TILE_GAP) - TILE_GAP, height: rows * (TILE + TILE_GAP) - TILE_GAP, west: 0, north: 0, scale: 1, cos: 1 };
+}
+
+// Window around the positions at FRAME_WIDTH × FRAME_HEIGHT, padded and never narrower than 30° of longitude
+function worldFrame(level: GeoLevel | 'coordinates', positions: [number, number][]): MapFrame {
+  let west = Math.min(...positions.map((p) => p[0]));
+  let east = Math.max(...positions.map((p) => p[0]));
+  let south = Math.min(...positions.map((p) => p[1]));
+  let north = Math.max(...positions.map((p) => p[1]));
+  const cos = Math.max(0.3, Math.cos((((north + south) / 2) * Math.PI) / 180));
+  const padLon = Math.max((east - west) * 0.1, 3);
+  const padLat = Math.max((north - south) * 0.1, 3);
+  west -= padLon;
+  east += padLon;
+  south -= padLat;
+  north += padLat;
+  let lonSpan = Math.max(east - west, 30);
+  let latSpan = north - south;
+  // Widen whichever axis is short of the frame's aspect ratio
+  const aspect = FRAME_WIDTH / FRAME_HEIGHT;
+  if ((lonSpan * cos) / latSpan < aspect) lonSpan = (latSpan * aspect) / cos;
+  else latSpan = (lonSpan * cos) / aspect;
+  const midLon = (west + east) / 2;
+  const midLat = (north + south) / 2;
+  return {
+    level,
+    width: FRAME_WIDTH,
+    height: FRAME_HEIGHT,
+    west: midLon - lonSpan / 2,
+    north: midLat + latSpan / 2,
+    scale: FRAME_WIDTH / (lonSpan * cos),
+    cos,
+  };
+}
+
+/**
+ * Frame for a map widget's data, or null when its groups are not
+ * geographic and the widget falls back to a ranked list.
+ */
+export function mapFrame(data: WidgetData): MapFrame | null {
+  if (data.kind === 'points') {
+    return data.points.length ? worldFrame('coordinates', data.points.map((p) => [p.lon, p.lat])) : null;
+  }
+  if (data.kind !== 'series') return null;
+  const level = detectGeoLevel(data.points.map((p) => p.label));
+  if (!level) return null;
+  if (level === 'us_state') return statesFrame();
+  if (level !== 'country') return tileFrame(level);
+  const positions = data.points
+    .map((p) => findArea(p.label, 'country'))
+    .filter((i) => i !== undefined)
+    .flatMap((i) => countryExtent(i));
+  return worldFrame(level, positions);
+}
+
+// Corners of a country's largest polygon, so the frame shows the whole mainland; the centroid when it has no outline
+function countryExtent(index: number): [number, number][] {
+  const feature = COUNTRIES.features[index];
+  const boundary = boundaryOf(feature.properties.id);
+  if (!boundary) return [feature.geometry.coordinates];
+  const polygons = boundary.type === 'Polygon' ? [boundary.coordinates] : boundary.coordinates;
+  let best: [number, number][] = [];
+  let bestArea = -1;
+  for (const [outer] of polygons) {
+    let [west, south] = outer[0];
+    let [east, north] = outer[0];
+    for (const [lon, lat] of outer) {
+      west = Math.min(west, lon);
+      east = Math.max(east, lon);
+      south = Math.min(south, lat);
+      north = Math.max(north, lat);
+    }
+    const area = (east - west) * (north - south);
+    if (area > bestArea) {
+      best = [[west, south], [east, north]];
+      bestArea = area;
+    }
+  }
+  return best;
+}
+
+let boundaryIndex: Map<string, Boundary> | null = null;
+
+// Country outline by ISO alpha-3 code, indexed on first use
+function boundaryOf(alpha3: string): Boundary | undefined {
+  if (!boundaryIndex) {
+    boundaryIndex = new Map(COUNTRY_BOUNDARIES.features.filter((f) => f.properties.id).map((f) => [f.properties.id, f.geometry]));
+  }
+  return boundaryIndex.get(alpha3);
+}
+
+export function mapView(data: WidgetData, frame: MapFrame): MapView {
+  const values = data.kind === 'value' ? [] : data.points.map((p) => p.value);
+  const view: MapView = {
+    kind: 'map',
+    level: frame.level,
+    width: frame.width,
+    height: frame.height,
+    shapes: [],
+    min: values.length ? Math.min(...values) : 0,
+    max: values.length ? Math.max(...values) : 0,
+    unmatched: [],
+  };
+  const maxAbs = Math.max(...values.map(Math.abs), 1e-9);
+  const radius = (value: number) => 3 + 9 * Math.sqrt(Math.abs(value) / maxAbs);
+
+  if (frame.level === 'coordinates') {
+    if (data.kind !== 'points') return view;
+    for (const p of data.points) {
+      const [cx, cy] = project(frame, p.lon, p.lat);
+      view.shapes.push({ kind: 'point', label: null, name: `${p.lat}, ${p.lon}`, value: p.value, cx, cy, r: radius(p.value) });
+    }
+    return view;
+  }
+
+  if (data.kind !== 'series') return view;
+  const level = frame.level;
+  const byArea = new Map<number, { label: string; value: number }>();
+  for (const p of data.points) {
+    const i = findArea(p.label, level);
+    // Two spellings of one area keep the first, larger group
+    if (i === undefined || byArea.has(i)) view.unmatched.push(p.label);
+    else byArea.set(i, { label: p.label, value: p.value });
+  }
+
+  if (level === 'country') {
+    // Every outlined country is an area, shaded or not; countries too small to outline get a bubble
+    COUNTRIES.features.forEach((feature, i) => {
+      const group = byArea.get(i);
+      const { id, name } = feature.properties;
+      if (boundaryOf(id)) {
+        view.shapes.push({ kind: 'area', label: group?.label ?? null, name, code: id, value: group?.value ?? null });
+      } else if (group) {
+        const [cx, cy] = project(frame, ...feature.geometry.coordinates);
+        view.shapes.push({ kind: 'point', label: group.label, name, value: group.value, cx, cy, r: radius(group.value) });
+      }
+    });
+    return view;
+  }
+
+  if (level === 'us_state') {
+    US_STATES.features.forEach(({ properties: { id, name } }, i) => {
+      const group = byArea.get(i);
+      view.shapes.push({ kind: 'area', label: group?.label ?? null, name, code: id, value: group?.value ?? null });
+    });
+    return view;
+  }
+
+  COLLECTIONS[level].features.forEach((feature, i) => {
+    const tile = feature.properties as TileProperties;
+    const group = byArea.get(i);
+    view.shapes.push({
+      kind: 'tile',
+      label: group?.label ?? null,
+      name: tile.name,
+      code: tile.id,
+      value: group?.value ?? null,
+      x: tile.col * (TILE + TILE_GAP),
+      y: tile.row * (TILE + TILE_GAP),
+      size: TILE,
+    });
+  });
+  return view;
+}
+
+function pathData(boundary: Boundary, toXY: (lon: number, lat: number) => [number, number]): string {
+  const polygons = boundary.type === 'Polygon' ? [boundary.coordinates] : boundary.coordinates;
+  let d = '';
+  for (const rings of polygons) {
+    for (const ring of rings) {
+      d += ring
+        .map(([lon, lat], i) => {
+          const [x, y] = toXY(lon, lat);
+          return `${i ? 'L' : 'M'}${+x.toFixed(1)} ${+y.toFixed(1)}`;
+        })
+        .join('') + 'Z';
+    }
+  }
+  return d;
+}
+
+/** SVG path data per `area` shape code in the frame; empty for tile grids and point layers. */
+export function areaPaths(frame: MapFrame): Record<string, string> {
+  const paths: Record<string, string> = {};
+  if (frame.level === 'us_state') {
+    for (const f of US_STATES.features) paths[f.properties.id] = pathData(f.geometry, (x, y) => [x, y]);
+  } else if (frame.level === 'country') {
+    for (const f of COUNTRY_BOUNDARIES.features) {
+      if (f.properties.id && findArea(f.properties.id, 'country') !== undefined) {
+        paths[f.properties.id] = pathData(f.geometry, (lon, lat) => project(frame, lon, lat));
+      }
+    }
+  }
+  return paths;
+}
+
+/**
+ * Country outlines drawn behind a map as SVG path data: all of them under a
+ * point layer, and on a country map the few that name no known country.
+ */
+export function landPaths(frame: MapFrame): string[] {
+  if (frame.level !== 'country' && frame.level !== 'coordinates') return [];
+  return COUNTRY_BOUNDARIES.features
+    .filter((f) => frame.level === 'coordinates' || !f.properties.id || findArea(f.properties.id, 'country') === undefined)
+    .map((f) => pathData(f.geometry, (lon, lat) => project(frame, lon, lat)));
+}
+
+// Fill opacity of an area or point on the map's sequential scale
+export function mapShade(value: number, min: number, max: number): number {
+  return max === min ? 0.7 : 0.2 + (0.7 * (value - min)) / (max - min);
+}
@@ -0,0 +1,316 @@
+/**
+ * Offline geography bundled with the map widget, as GeoJSON.
+ *
+ * - Countries: ISO 3166 codes, names and common aliases, with an approximate
+ *   centroid per country for the point layer.
+ * - Country boundaries: Natural Earth 1:110m outlines in [lon, lat], keyed by
+ *   ISO alpha-3. Countries too small for that scale only have a centroid.
+ * - US states: Census Bureau outlines pre-projected with Albers USA into a
+ *   975×610 frame, Alaska and Hawaii inset, keyed by postal code.
+ * - Compass regions: tile-grid polygons, one equal square per area.
+ *
+ * The boundary files are simplified for dashboard-sized maps and regenerated
+ * by boundaries/generate.mjs.
+ */
+
+import countryBoundaries from './boundaries/countries.json';
+import stateBoundaries from './boundaries/us-states.json';
+
+export interface GeoFeature<G, P> {
+  type: 'Feature';
+  geometry: G;
+  properties: P;
+}
+
+export interface GeoFeatureCollection<G, P> {
+  type: 'FeatureCollection';
+  features: GeoFeature<G, P>[];
+}
+
+export type Point = { type: 'Point'; coordinates: [number, number] };
+export type Polygon = { type: 'Polygon'; coordinates: [number, number][][] };
+export type MultiPolygon = { type: 'MultiPolygon'; coordinates: [number, number][][][] };
+export type Boundary = Polygon | MultiPolygon;
+
+export interface AreaProperties {
+  id: string;
+  name: string;
+  // Alternative spellings and codes matched case-insensitively
+  aliases: string[];
+}
+
+// ─── Countries ──────────────────────────────────────────────────────────────
+
+// alpha-2 | alpha-3 | name | centroid lat | centroid lon | aliases
+const COUNTRY_TABLE = `
+AF|AFG|Afghanistan|33.9|67.7|
+AL|ALB|Albania|41.2|20.2|
+DZ|DZA|Algeria|28.0|1.7|
+AD|AND|Andorra|42.5|1.5|
+AO|AGO|Angola|-11.2|17.9|
+AG|ATG|Antigua and Barbuda|17.1|-61.8|
+AR|ARG|Argentina|-38.4|-63.6|
+AM|ARM|Armenia|40.1|45.0|
+AU|AUS|Australia|-25.3|133.8|
+AT|AUT|Austria|47.5|14.6|
+AZ|AZE|Azerbaijan|40.1|47.6|
+BS|BHS|Bahamas|25.0|-77.4|The Bahamas
+BH|BHR|Bahrain|26.0|50.6|
+BD|BGD|Bangladesh|23.7|90.4|
+BB|BRB|Barbados|13.2|-59.5|
+BY|BLR|Belarus|53.7|28.0|
+BE|BEL|Belgium|50.5|4.5|
+BZ|BLZ|Belize|17.2|-88.5|
+BJ|BEN|Benin|9.3|2.3|
+BT|BTN|Bhutan|27.5|90.4|
+BO|BOL|Bolivia|-16.3|-63.6|
+BA|BIH|Bosnia and Herzegovina|43.9|17.7|Bosnia
+BW|BWA|Botswana|-22.3|24.7|
+BR|BRA|Brazil|-14.2|-51.9|Brasil
+BN|BRN|Brunei|4.5|114.7|Brunei Darussalam
+BG|BGR|Bulgaria|42.7|25.5|
+BF|BFA|Burkina Faso|12.2|-1.6|
+BI|BDI|Burundi|-3.4|29.9|
+CV|CPV|Cabo Verde|16.0|-24.0|Cape Verde
+KH|KHM|Cambodia|12.6|105.0|
+CM|CMR|Cameroon|7.4|12.4|
+CA|CAN|Canada|56.1|-106.3|
+CF|CAF|Central African Republic|6.6|20.9|
+TD|TCD|Chad|15.5|18.7|
+CL|CHL|Chile|-35.7|-71.5|
+CN|CHN|China|35.9|104.2|People's Republic of China,PRC
+CO|COL|Colombia|4.6|-74.3|
+KM|COM|Comoros|-11.9|43.9|
+CG|COG|Congo|-0.2|15.8|Republic of the Congo,Congo-Brazzaville
+CD|COD|Democratic Republic of the Congo|-4.0|21.8|DR Congo,DRC,Congo-Kinshasa
+CR|CRI|Costa Rica|9.7|-83.8|
+CI|CIV|Côte d'Ivoire|7.5|-5.5|Cote d'Ivoire,Ivory Coast
+HR|HRV|Croatia|45.1|15.2|
+CU|CUB|Cuba|21.5|-77.8|
+CY|CYP|Cyprus|35.1|33.4|
+CZ|CZE|Czechia|49.8|15.5|Czech Republic
+DK|DNK|Denmark|56.3|9.5|
+DJ|DJI|Djibouti|11.8|42.6|
+DM|DMA|Dominica|15.4|-61.4|
+DO|DOM|Dominican Republic|18.7|-70.2|
+EC|ECU|Ecuador|-1.8|-78.2|
+EG|EGY|Egypt|26.8|30.8|
+SV|SLV|El Salvador|13.8|-88.9|
+GQ|GNQ|Equatorial Guinea|1.7|10.3|
+ER|ERI|Eritrea|15.2|39.8|
+EE|EST|Estonia|58.6|25.0|
+SZ|SWZ|Eswatini|-26.5|31.5|Swaziland
+ET|ETH|Ethiopia|9.1|40.5|
+FJ|FJI|Fiji|-17.7|178.1|
+FI|FIN|Finland|61.9|25.7|
+FR|FRA|France|46.2|2.2|
+GA|GAB|Gabon|-0.8|11.6|
+GM|GMB|Gambia|13.4|-15.3|The Gambia
+GE|GEO|Georgia|42.3|43.4|
+DE|DEU|Germany|51.2|10.5|Deutschland
+GH|GHA|Ghana|7.9|-1.0|
+GR|GRC|Greece|39.1|21.8|
+GL|GRL|Greenland|71.7|-42.6|
+GD|GRD|Grenada|12.1|-61.7|
+GT|GTM|Guatemala|15.8|-90.2|
+GN|GIN|Guinea|9.9|-9.7|
+GW|GNB|Guinea-Bissau|11.8|-15.2|
+GY|GUY|Guyana|4.9|-58.9|
+HT|HTI|Haiti|19.0|-72.3|
+HN|HND|Honduras|15.2|-86.2|
+HK|HKG|Hong Kong|22.3|114.2|
+HU|HUN|Hungary|47.2|19.5|
+IS|ISL|Iceland|65.0|-19.0|
+IN|IND|India|20.6|79.0|
+ID|IDN|Indonesia|-0.8|113.9|
+IR|IRN|Iran|32.4|53.7|Islamic Republic of Iran
+IQ|IRQ|Iraq|33.2|43.7|
+IE|IRL|Ireland|53.4|-8.2|Republic of Ireland,Eire
+IL|ISR|Israel|31.0|34.9|
+IT|ITA|Italy|41.9|12.6|Italia
+JM|JAM|Jamaica|18.1|-77.3|
+JP|JPN|Japan|36.2|138.3|
+JO|JOR|Jordan|30.6|36.2|
+KZ|KAZ|Kazakhstan|48.0|66.9|
+KE|KEN|Kenya|-0.0|37.9|
+KI|KIR|Kiribati|1.9|-157.4|
+KP|PRK|North Korea|40.3|127.5|Democratic People's Republic of Korea,DPRK
+KR|KOR|South Korea|35.9|127.8|Korea,Republic of Korea,Korea Republic of
+XK|XKX|Kosovo|42.6|20.9|
+KW|KWT|Kuwait|29.3|47.5|
+KG|KGZ|Kyrgyzstan|41.2|74.8|
+LA|LAO|Laos|19.9|102.5|Lao PDR
+LV|LVA|Latvia|56.9|24.6|
+LB|LBN|Lebanon|33.9|35.9|
+LS|LSO|Lesotho|-29.6|28.2|
+LR|LBR|Liberia|6.4|-9.4|
+LY|LBY|Libya|26.3|17.2|
+LI|LIE|Liechtenstein|47.2|9.6|
+LT|LTU|Lithuania|55.2|23.9|
+LU|LUX|Luxembourg|49.8|6.1|
+MO|MAC|Macao|22.2|113.5|Macau
+MG|MDG|Madagascar|-18.8|46.9|
+MW|MWI|Malawi|-13.3|34.3|
+MY|MYS|Malaysia|4.2|102.0|
+MV|MDV|Maldives|3.2|73.2|
+ML|MLI|Mali|17.6|-4.0|
+MT|MLT|Malta|35.9|14.4|
+MH|MHL|Marshall Islands|7.1|171.2|
+MR|MRT|Mauritania|21.0|-10.9|
+MU|MUS|Mauritius|-20.3|57.6|
+MX|MEX|Mexico|23.6|-102.6|México
+FM|FSM|Micronesia|7.4|150.6|
+MD|MDA|Moldova|47.4|28.4|
+MC|MCO|Monaco|43.7|7.4|
+MN|MNG|Mongolia|46.9|103.8|
+ME|MNE|Montenegro|42.7|19.4|
+MA|MAR|Morocco|31.8|-7.1|
+MZ|MOZ|Mozambique|-18.7|35.5|
+MM|MMR|Myanmar|21.9|95.9|Burma
+NA|NAM|Namibia|-22.9|18.5|
+NR|NRU|Nauru|-0.5|166.9|
+NP|NPL|Nepal|28.4|84.1|
+NL|NLD|Netherlands|52.1|5.3|Holland,The Netherlands
+NZ|NZL|New Zealand|-40.9|174.9|
+NI|NIC|Nicaragua|12.9|-85.2|
+NE|NER|Niger|17.6|8.1|
+NG|NGA|Nigeria|9.1|8.7|
+MK|MKD|North Macedonia|41.6|21.7|Macedonia
+NO|NOR|Norway|60.5|8.5|
+OM|OMN|Oman|21.5|55.9|
+PK|PAK|Pakistan|30.4|69.3|
+PW|PLW|Palau|7.5|134.6|
+PS|PSE|Palestine|31.9|35.2|State of Palestine
+PA|PAN|Panama|8.5|-80.8|
+PG|PNG|Papua New Guinea|-6.3|143.9|
+PY|PRY|Paraguay|-23.4|-58.4|
+PE|PER|Peru|-9.2|-75.0|
+PH|PHL|Philippines|12.9|121.8|
+PL|POL|Poland|51.9|19.1|Polska
+PT|PRT|Portugal|39.4|-8.2|
+PR|PRI|Puerto Rico|18.2|-66.6|
+QA|QAT|Qatar|25.4|51.2|
+RO|ROU|Romania|45.9|25.0|
+RU|RUS|Russia|61.5|105.3|Russian Federation
+RW|RWA|Rwanda|-1.9|29.9|
+KN|KNA|Saint Kitts and Nevis|17.4|-62.8|
+LC|LCA|Saint Lucia|13.9|-61.0|
+VC|VCT|Saint Vincent and the Grenadines|12.98|-61.3|
+WS|WSM|Samoa|-13.8|-172.1|
+SM|SMR|San Marino|43.9|12.5|
+ST|STP|Sao Tome and Principe|0.2|6.6|São Tomé and Príncipe
+SA|SAU|Saudi Arabia|23.9|45.1|
+SN|SEN|Senegal|14.5|-14.5|
+RS|SRB|Serbia|44.0|21.0|
+SC|SYC|Seychelles|-4.7|55.5|
+SL|SLE|Sierra Leone|8.5|-11.8|
+SG|SGP|Singapore|1.35|103.8|
+SK|SVK|Slovakia|48.7|19.7|Slovak Republic
+SI|SVN|Slovenia|46.2|15.0|
+SB|SLB|Solomon Islands|-9.6|160.2|
+SO|SOM|Somalia|5.2|46.2|
+ZA|ZAF|South Africa|-30.6|22.9|RSA
+SS|SSD|South Sudan|6.9|31.3|
+ES|ESP|Spain|40.5|-3.7|España
+LK|LKA|Sri Lanka|7.9|80.8|
+SD|SDN|Sudan|12.9|30.2|
+SR|SUR|Suriname|3.9|-56.0|
+SE|SWE|Sweden|60.1|18.6|
+CH|CHE|Switzerland|46.8|8.2|
+SY|SYR|Syria|34.8|39.0|Syrian Arab Republic
+TW|TWN|Taiwan|23.7|121.0|
+TJ|TJK|Tajikistan|38.9|71.3|
+TZ|TZA|Tanzania|-6.4|34.9|United Republic of Tanzania
+TH|THA|Thailand|15.9|101.0|
+TL|TLS|Timor-Leste|-8.9|125.7|East Timor
+TG|TGO|Togo|8.6|0.8|
+TO|TON|Tonga|-21.2|-175.2|
+TT|TTO|Trinidad and Tobago|10.7|-61.2|
+TN|TUN|Tunisia|33.9|9.5|
+TR|TUR|Turkey|39.0|35.2|Türkiye,Turkiye
+TM|TKM|Turkmenistan|39.0|59.6|
+TV|TUV|Tuvalu|-7.1|177.6|
+UG|UGA|Uganda|1.4|32.3|
+UA|UKR|Ukraine|48.4|31.2|
+AE|ARE|United Arab Emirates|23.4|53.8|UAE,Emirates
+GB|GBR|United Kingdom|55.4|-3.4|UK,Great Britain,Britain
+US|USA|United States|37.1|-95.7|United States of America,U.S.,U.S.A.
+UY|URY|Uruguay|-32.5|-55.8|
+UZ|UZB|Uzbekistan|41.4|64.6|
+VU|VUT|Vanuatu|-15.4|166.9|
+VA|VAT|Vatican City|41.9|12.5|Holy See
+VE|VEN|Venezuela|6.4|-66.6|
+VN|VNM|Vietnam|14.1|108.3|Viet Nam
+EH|ESH|Western Sahara|24.2|-12.9|
+YE|YEM|Yemen|15.6|48.5|
+ZM|ZMB|Zambia|-13.1|27.8|
+ZW|ZWE|Zimbabwe|-19.0|29.2|
+`;
+
+export const COUNTRIES: GeoFeatureCollection<Point, AreaProperties> = {
+  type: 'FeatureCollection',
+  features: COUNTRY_TABLE.trim().split('\n').map((line) => {
+    const [alpha2, alpha3, name, lat, lon, aliases] = line.split('|');
+    return {
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [Number(lon), Number(lat)] },
+      properties: { id: alpha3, name, aliases: [alpha2, alpha3, ...(aliases ? aliases.split(',') : [])] },
+    };
+  }),
+};
+
+// ─── Boundaries ─────────────────────────────────────────────────────────────
+
+export interface BoundaryProperties {
+  // ISO alpha-3 code; null for areas without one, which are only drawn as backdrop
+  id: string | null;
+  name: string;
+}
+
+export const COUNTRY_BOUNDARIES = countryBoundaries as GeoFeatureCollection<Boundary, BoundaryProperties>;
+
+// Size of the frame the state outlines were projected into
+export const US_STATES_SIZE = { width: 975, height: 610 };
+
+const STATE_ALIASES: Record<string, string[]> = {
+  DC: ['Washington DC', 'Washington D.C.'],
+};
+
+export const US_STATES: GeoFeatureCollection<Boundary, AreaProperties> = {
+  type: 'FeatureCollection',
+  features: (stateBoundaries as GeoFeatureCollection<Boundary, { id: string; name: string }>).features.map((f) => ({
+    ...f,
+    properties: { ...f.properties, aliases: [f.properties.id, ...(STATE_ALIASES[f.properties.id] ?? [])] },
+  })),
+};
+
+// ─── Tile grids ─────────────────────────────────────────────────────────────
+
+export interface TileProperties extends AreaProperties {
+  row: number;
+  col: number;
+}
+
+function tileGrid(tiles: [id: string, name: string, row: number, col: number, aliases?: string[]][]): GeoFeatureCollection<Polygon, TileProperties> {
+  return {
+    type: 'FeatureCollection',
+    features: tiles.map(([id, name, row, col, aliases = []]) => ({
+      type: 'Feature',
+      // Unit squares in grid space, y growing downwards like the SVG they are drawn into
+      geometry: { type: 'Polygon', coordinates: [[[col, row], [col + 1, row], [col + 1, row + 1], [col, row + 1], [col, row]]] },
+      properties: { id, name, row, col, aliases: [id, ...aliases] },
+    })),
+  };
+}
+
+export const COMPASS_REGIONS = tileGrid([
+  ['NW', 'Northwest', 0, 0, ['North West', 'North-West', 'Pacific Northwest']],
+  ['N', 'North', 0, 1, ['Northern']],
+  ['NE', 'Northeast', 0, 2, ['North East', 'North-East', 'New England']],
+  ['W', 'West', 1, 0, ['Western']],
+  ['C', 'Central', 1, 1, ['Centre', 'Center', 'Midwest', 'Mid-West', 'Middle']],
+  ['E', 'East', 1, 2, ['Eastern']],
+  ['SW', 'Southwest', 2, 0, ['South West', 'South-West']],
+  ['S', 'South', 2, 1, ['Southern']],
+  ['SE', 'Southeast', 2, 2, ['South East', 'South-East']],
+]);
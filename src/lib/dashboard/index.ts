@@ -0,0 +1,62 @@
+export {
+  WIDGET_TYPES,
+  AGGREGATION_LABELS,
+  isSeriesWidget,
+  defaultTitle,
+  dimensionLabel,
+  filterRows,
+  computeWidget,
+  periodChange,
+  formatMetric,
+  type WidgetType,
+  type WidgetConfig,
+  type Widget,
+  type WidgetPoint,
+  type WidgetData,
+} from './widgets';
+export {
+  GRID_COLUMNS,
+  MIN_WIDGET_SIZE,
+  DEFAULT_WIDGET_SIZES,
+  clampLayout,
+  findFreeSlot,
+  compactLayout,
+  updateLayout,
+  autoLayout,
+  layoutRows,
+  type WidgetLayout,
+} from './layout';
+export {
+  EMPTY_FILTERS,
+  createDashboard,
+  applyDashboardFilters,
+  hasActiveFilters,
+  type Dashboard,
+  type DashboardFilters,
+  type CrossFilter,
+} from './dashboard';
+export { suggestWidgets, createWidget } from './seed';
+export {
+  GEO_LEVEL_LABELS,
+  detectGeoLevel,
+  detectGeoColumns,
+  guessCoordinateColumns,
+  mapFrame,
+  mapView,
+  areaPaths,
+  landPaths,
+  mapShade,
+  type GeoLevel,
+  type GeoPoint,
+  type GeoColumns,
+  type MapFrame,
+  type MapView,
+  type MapShape,
+} from './geo';
+export {
+  buildDashboardSnapshot,
+  renderStandaloneHtml,
+  standaloneFileName,
+  type DashboardSnapshot,
+  type SnapshotWidget,
+} from './standalone';
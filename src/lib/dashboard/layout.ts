@@ -0,0 +1,97 @@
+/**
+ * Dashboard grid layout on a 12-column grid of fixed-height rows.
+ * Moving or resizing a widget pushes anything it overlaps downwards, then
+ * every widget floats up as far as it can without passing another, so the
+ * grid never has overlaps or unexplained gaps.
+ */
+
+import type { Widget, WidgetType } from './widgets';
+
+export interface WidgetLayout {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export const GRID_COLUMNS = 12;
+export const MIN_WIDGET_SIZE = { w: 2, h: 2 };
+
+export const DEFAULT_WIDGET_SIZES: Record<WidgetType, { w: number; h: number }> = {
+  kpi: { w: 3, h: 2 },
+  gauge: { w: 3, h: 3 },
+  bar: { w: 6, h: 4 },
+  line: { w: 6, h: 4 },
+  pie: { w: 4, h: 4 },
+  table: { w: 4, h: 4 },
+  map: { w: 6, h: 5 },
+};
+
+function overlaps(a: WidgetLayout, b: WidgetLayout): boolean {
+  return a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+}
+
+export function clampLayout(layout: WidgetLayout): WidgetLayout {
+  const w = Math.max(MIN_WIDGET_SIZE.w, Math.min(GRID_COLUMNS, Math.round(layout.w)));
+  const h = Math.max(MIN_WIDGET_SIZE.h, Math.round(layout.h));
+  const x = Math.max(0, Math.min(GRID_COLUMNS - w, Math.round(layout.x)));
+  return { x, y: Math.max(0, Math.round(layout.y)), w, h };
+}
+
+// First free slot scanning rows top to bottom, then columns left to right
+export function findFreeSlot(widgets: Widget[], size: { w: number; h: number }): WidgetLayout {
+  for (let y = 0; ; y++) {
+    for (let x = 0; x + size.w <= GRID_COLUMNS; x++) {
+      const slot = { x, y, ...size };
+      if (!widgets.some((w) => overlaps(w.layout, slot))) return slot;
+    }
+  }
+}
+
+/**
+ * Vertical compaction in reading order. The widget named by `priority` wins
+ * ties, so a dragged widget takes the spot it was dropped on.
+ */
+export function compactLayout(widgets: Widget[], priority?: string): Widget[] {
+  const order = [...widgets].sort(
+    (a, b) => a.layout.y - b.layout.y || (a.id === priority ? -1 : b.id === priority ? 1 : a.layout.x - b.layout.x),
+  );
+  const placed: Widget[] = [];
+  for (const widget of order) {
+    const layout = { ...widget.layout };
+    const collides = () => placed.some((p) => overlaps(p.layout, layout));
+    while (layout.y > 0) {
+      layout.y--;
+      if (collides()) {
+        layout.y++;
+        break;
+      }
+    }
+    while (collides()) layout.y++;
+    placed.push({ ...widget, layout });
+  }
+  // Keep the caller's widget order; only positions change
+  const byId = new Map(placed.map((w) => [w.id, w.layout]));
+  return widgets.map((w) => ({ ...w, layout: byId.get(w.id) }));
+}
+
+// Move or resize one widget, pushing overlapped widgets below it
+export function updateLayout(widgets: Widget[], id: string, next: WidgetLayout): Widget[] {
+  const layout = clampLayout(next);
+  const moved = widgets.map((w) => (w.id === id ? { ...w, layout } : w));
+  const pushed = moved.map((w) =>
+    w.id !== id && overlaps(w.layout, layout) ? { ...w, layout: { ...w.layout, y: layout.y + layout.h } } : w,
+  );
+  return compactLayout(pushed, id);
+}
+
+// Lay widgets out in order, each at the first free slot for its default size
+export function autoLayout(widgets: Omit<Widget, 'layout'>[]): Widget[] {
+  const placed: Widget[] = [];
+  for (const w of widgets) placed.push({ ...w, layout: findFreeSlot(placed, DEFAULT_WIDGET_SIZES[w.type]) });
+  return placed;
+}
+
+export function layoutRows(widgets: Widget[]): number {
+  return widgets.reduce((max, w) => Math.max(max, w.layout.y + w.layout.h), 0);
+}
@@ -0,0 +1,141 @@
+/**
+ * Starting widgets for a new dashboard.
+ * Profiles the rows, detects the dataset type and turns the KPI, filter and
+ * drill-down suggestions from `suggestVisualizationFeatures` into configured
+ * widgets, so a sales file opens with revenue totals and a trend while a
+ * survey opens with response counts and average scores.
+ */
+
+import type { ColumnSchema } from '@/store/workspace';
+import type { DatasetProfile } from '../dataTypes';
+import { detectDatasetType, suggestVisualizationFeatures } from '../dataAnalyzer';
+import { profileRows } from '../datasetProfiler';
+import { suggestFrequency, type Frequency } from '../ml/forecasting';
+import type { AggregateFn } from '../pipeline/types';
+import { detectGeoColumns } from './geo';
+import { DEFAULT_WIDGET_SIZES, autoLayout, findFreeSlot } from './layout';
+import { defaultTitle, type Widget, type WidgetConfig, type WidgetType } from './widgets';
+
+type DataRow = Record<string, unknown>;
+
+const TYPE_PRESETS: Record<DatasetProfile['type'], { countTitle: string; aggregation: AggregateFn }> = {
+  sales: { countTitle: 'Orders', aggregation: 'sum' },
+  finance: { countTitle: 'Transactions', aggregation: 'sum' },
+  hr: { countTitle: 'Headcount', aggregation: 'mean' },
+  survey: { countTitle: 'Responses', aggregation: 'mean' },
+  timeseries: { countTitle: 'Readings', aggregation: 'mean' },
+  general: { countTitle: 'Rows', aggregation: 'sum' },
+};
+
+const GEO_NAME = /region|country|state|province|territory|city|location|geo|lat|lon/i;
+const MAX_SEEDED_WIDGETS = 8;
+
+function widget(type: WidgetType, config: Partial<WidgetConfig>): Omit<Widget, 'layout'> {
+  const full: WidgetConfig = {
+    title: '',
+    measure: null,
+    aggregation: 'count',
+    dimension: null,
+    dateGrain: null,
+    filters: [],
+    limit: type === 'pie' ? 6 : 10,
+    ...config,
+  };
+  return { id: crypto.randomUUID(), type, config: { ...full, title: full.title || defaultTitle(full) } };
+}
+
+// "Total Revenue" → sum of Revenue, "Margin %" → a gauge of its average
+function parseKpi(kpi: string, measures: Set<string>): { measure: string; aggregation: AggregateFn; gauge: boolean } | null {
+  const patterns: [RegExp, AggregateFn, boolean][] = [
+    [/^Total (.+)$/, 'sum', false],
+    [/^Sum of (.+)$/, 'sum', false],
+    [/^Average (.+)$/, 'mean', false],
+    [/^(.+) %$/, 'mean', true],
+  ];
+  for (const [pattern, aggregation, gauge] of patterns) {
+    const measure = kpi.match(pattern)?.[1];
+    if (measure && measures.has(measure)) return { measure, aggregation, gauge };
+  }
+  return null;
+}
+
+export function suggestWidgets(rows: DataRow[]): Widget[] {
+  const profiles = profileRows(rows);
+  const { type } = detectDatasetType(profiles);
+  const preset = TYPE_PRESETS[type];
+  const { kpis, filters, drilldowns } = suggestVisualizationFeatures(profiles);
+  const byName = new Map(profiles.map((p) => [p.name, p]));
+  const measures = new Set(profiles.filter((p) => p.role === 'measure').map((p) => p.name));
+
+  // Revenue-like measures get several KPI suggestions; lead with those over generic sums
+  const parsed = kpis.map((k) => parseKpi(k, measures)).filter(Boolean);
+  const weight = (measure: string) => parsed.filter((k) => k.measure === measure).length;
+  const parsedKpis = parsed.sort((a, b) => weight(b.measure) - weight(a.measure));
+  const primary = parsedKpis[0]?.measure ?? null;
+  const chartMeasure = primary ? { measure: primary, aggregation: preset.aggregation } : { measure: null, aggregation: 'count' as const };
+
+  // Drill-downs list dates as "order_date (Year → Quarter → Month)"
+  const dateColumn = drilldowns
+    .map((d) => d.replace(/ \(.+\)$/, ''))
+    .find((d) => byName.get(d)?.role === 'date') ?? null;
+  const dateInfo = dateColumn ? byName.get(dateColumn)?.dateInfo : undefined;
+  const grain: Frequency | null = dateColumn ? (dateInfo ? suggestFrequency(dateInfo) : 'month') : null;
+  const trend = dateColumn ? { dimension: dateColumn, dateGrain: grain } : {};
+
+  const dimensions = filters.filter((f) => byName.get(f)?.role === 'dimension');
+  const detail = drilldowns.find((d) => byName.get(d)?.role === 'dimension') ?? dimensions[0] ?? null;
+  // Columns of recognizable places draw as a map; otherwise a geographic-sounding name gets the ranked fallback
+  const places = detectGeoColumns(rows);
+  const geo = places.areas[0]?.column
+    ?? (places.coordinates ? null : [...dimensions, ...drilldowns].find((d) => byName.get(d)?.role === 'dimension' && GEO_NAME.test(d)));
+
+  const widgets = [widget('kpi', { title: preset.countTitle, ...trend })];
+  for (const kpi of parsedKpis.filter((k) => !k.gauge).slice(0, 2)) {
+    widgets.push(widget('kpi', { measure: kpi.measure, aggregation: kpi.aggregation, ...trend }));
+  }
+  const gauge = parsedKpis.find((k) => k.gauge) ?? (type === 'survey' && primary ? { measure: primary } : null);
+  if (gauge) widgets.push(widget('gauge', { measure: gauge.measure, aggregation: 'mean' }));
+
+  const line = dateColumn ? widget('line', { ...chartMeasure, ...trend }) : null;
+  // Time series lead with their trend
+  if (line && type === 'timeseries') widgets.splice(1, 0, line);
+  else if (line) widgets.push(line);
+
+  if (dimensions[0]) widgets.push(widget('bar', { ...chartMeasure, dimension: dimensions[0] }));
+  const share = dimensions[1] ?? dimensions[0];
+  if (share) widgets.push(widget('pie', { dimension: share, title: `${preset.countTitle} by ${share}` }));
+  if (geo) widgets.push(widget('map', { ...chartMeasure, dimension: geo }));
+  else if (places.coordinates) widgets.push(widget('map', { ...chartMeasure, coordinates: places.coordinates }));
+  if (detail) widgets.push(widget('table', { ...chartMeasure, dimension: detail }));
+
+  return autoLayout(widgets.slice(0, MAX_SEEDED_WIDGETS));
+}
+
+/**
+ * A fresh widget of the given type from the workspace schema: the first
+ * numeric column as measure and a fitting dimension (a date for line
+ * charts, a category otherwise), in the first free slot of the grid.
+ */
+export function createWidget(type: WidgetType, schema: ColumnSchema[], existing: Widget[]): Widget {
+  return { ...defaultWidget(type, schema), layout: findFreeSlot(existing, DEFAULT_WIDGET_SIZES[type]) };
+}
+
+function defaultWidget(type: WidgetType, schema: ColumnSchema[]): Omit<Widget, 'layout'> {
+  const measure = schema.find((c) => c.type === 'numeric')?.name ?? null;
+  const date = schema.find((c) => c.type === 'date')?.name ?? null;
+  const category = schema.find((c) => c.type === 'categorical' && c.unique > 1)?.name ?? null;
+  const aggregation: AggregateFn = measure ? 'sum' : 'count';
+  switch (type) {
+    case 'kpi':
+    case 'gauge':
+      return widget(type, { measure, aggregation: type === 'gauge' && measure ? 'mean' : aggregation });
+    case 'line':
+      return date
+        ? widget(type, { measure, aggregation, dimension: date, dateGrain: 'month' })
+        : widget(type, { measure, aggregation, dimension: category });
+    default:
+      return category || !date
+        ? widget(type, { measure, aggregation, dimension: category })
+        : widget(type, { measure, aggregation, dimension: date, dateGrain: 'month' });
+  }
+}
@@ -0,0 +1,481 @@
+/**
+ * Standalone dashboard export: one offline HTML file with the dashboard's
+ * aggregated numbers embedded as JSON and a small script that draws them as
+ * SVG charts. Cross-filtering works in the file because the result of every
+ * clickable group is computed up front; no row-level data leaves the app.
+ */
+
+import { FILTER_OPS } from '../pipeline/paramSchemas';
+import { applyDashboardFilters, type Dashboard, type DashboardFilters } from './dashboard';
+import { areaPaths, landPaths, mapFrame, mapView, type MapFrame, type MapView } from './geo';
+import type { WidgetLayout } from './layout';
+import { computeWidget, dimensionLabel, isSeriesWidget, type Widget, type WidgetData, type WidgetType } from './widgets';
+
+type DataRow = Record<string, unknown>;
+
+// Groups per widget that can be clicked to cross-filter; the rest only show tooltips
+const MAX_CROSS_GROUPS = 60;
+
+export interface SnapshotWidget {
+  id: string;
+  type: WidgetType;
+  title: string;
+  // Filter count and hidden groups, as under the title in the builder
+  note: string | null;
+  layout: WidgetLayout;
+  dimension: string | null;
+  measure: string | null;
+}
+
+export interface DashboardSnapshot {
+  name: string;
+  dataset: string;
+  rowCount: number;
+  exportedAt: string;
+  filters: string[];
+  widgets: SnapshotWidget[];
+  // Map widgets carry their laid-out view instead of raw groups
+  base: Record<string, WidgetData | MapView>;
+  // Source widget id → clicked group label → data for every other widget
+  cross: Record<string, Record<string, Record<string, WidgetData | MapView>>>;
+  // Land outlines and area paths by code per map widget, stored once rather than with every cross-filter state
+  land: Record<string, string[]>;
+  areas: Record<string, Record<string, string>>;
+}
+
+function describeFilters(filters: DashboardFilters): string[] {
+  const out: string[] = [];
+  if (filters.dateColumn && (filters.from || filters.to)) {
+    out.push(`${filters.dateColumn} from ${filters.from ?? 'the start'} to ${filters.to ?? 'the latest date'}`);
+  }
+  for (const p of filters.predicates) {
+    const op = FILTER_OPS.find((o) => o.op === p.op);
+    out.push(op?.needsValue ? `${p.column} ${op.label} ${String(p.value ?? '')}` : `${p.column} ${op?.label ?? p.op}`);
+  }
+  return out;
+}
+
+function widgetNote(widget: Widget, data: WidgetData): string | null {
+  const parts: string[] = [];
+  const filters = widget.config.filters.length;
+  if (filters > 0) parts.push(`${filters} filter${filters > 1 ? 's' : ''}`);
+  if (data.kind === 'series' && data.hidden > 0) parts.push(`top ${widget.config.limit}, ${data.hidden} more hidden`);
+  if (data.kind === 'points' && data.hidden > 0) parts.push(`${data.hidden.toLocaleString()} more points hidden`);
+  return parts.length ? parts.join(' · ') : null;
+}
+
+/**
+ * Everything the exported file draws, computed from the dashboard's filtered
+ * rows: each widget's data, plus every other widget's data for each group a
+ * viewer can click.
+ */
+export function buildDashboardSnapshot(dashboard: Dashboard, rows: DataRow[], dataset: string): DashboardSnapshot {
+  const filtered = applyDashboardFilters(rows, dashboard.filters);
+  const raw: Record<string, WidgetData> = {};
+  for (const w of dashboard.widgets) raw[w.id] = computeWidget(w, filtered);
+
+  // Maps keep the frame fitted to the unfiltered data so cross-filtering doesn't re-zoom them
+  const frames = new Map<string, MapFrame>();
+  const land: DashboardSnapshot['land'] = {};
+  const areas: DashboardSnapshot['areas'] = {};
+  for (const w of dashboard.widgets) {
+    const frame = w.type === 'map' ? mapFrame(raw[w.id]) : null;
+    if (!frame) continue;
+    frames.set(w.id, frame);
+    land[w.id] = landPaths(frame);
+    areas[w.id] = areaPaths(frame);
+  }
+  const present = (w: Widget, data: WidgetData) => (frames.has(w.id) ? mapView(data, frames.get(w.id)) : data);
+  const base: DashboardSnapshot['base'] = {};
+  for (const w of dashboard.widgets) base[w.id] = present(w, raw[w.id]);
+
+  const cross: DashboardSnapshot['cross'] = {};
+  for (const source of dashboard.widgets) {
+    const data = raw[source.id];
+    const { dimension, dateGrain } = source.config;
+    if (!isSeriesWidget(source.type) || !dimension || data.kind !== 'series') continue;
+    const clickable = new Set(data.points.slice(0, MAX_CROSS_GROUPS).map((p) => p.label));
+    // Bucket rows once per source rather than refiltering for every label
+    const groups = new Map<string, DataRow[]>();
+    for (const row of filtered) {
+      const label = dimensionLabel(row[dimension], dateGrain);
+      if (label === null || !clickable.has(label)) continue;
+      if (!groups.has(label)) groups.set(label, []);
+      groups.get(label).push(row);
+    }
+    cross[source.id] = {};
+    for (const [label, groupRows] of groups) {
+      const others: Record<string, WidgetData | MapView> = {};
+      for (const w of dashboard.widgets) if (w.id !== source.id) others[w.id] = present(w, computeWidget(w, groupRows));
+      cross[source.id][label] = others;
+    }
+  }
+
+  return {
+    name: dashboard.name,
+    dataset,
+    rowCount: filtered.length,
+    exportedAt: new Date().toISOString(),
+    filters: describeFilters(dashboard.filters),
+    widgets: dashboard.widgets.map((w) => ({
+      id: w.id,
+      type: w.type,
+      title: w.config.title,
+      note: widgetNote(w, raw[w.id]),
+      layout: w.layout,
+      dimension: w.config.dimension,
+      measure: w.config.measure,
+    })),
+    base,
+    cross,
+    land,
+    areas,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+}
+
+export function standaloneFileName(name: string): string {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'dashboard'}.html`;
+}
+
+const STYLES = `
+:root{--bg:#f7f9fa;--card:#fff;--fg:#141a24;--muted:#66707f;--border:#dde3e8;--primary:hsl(173 58% 39%);--warning:hsl(38 92% 50%);color-scheme:light dark}
+@media (prefers-color-scheme:dark){:root{--bg:#0f141c;--card:#161d27;--fg:#f7f9fa;--muted:#94a0b0;--border:#2a3341}}
+*{box-sizing:border-box}
+[hidden]{display:none!important}
+body{margin:0;background:var(--bg);color:var(--fg);font:13px/1.4 system-ui,-apple-system,'Segoe UI',sans-serif}
+.top{display:flex;justify-content:space-between;align-items:flex-start;gap:16px;padding:16px 24px;border-bottom:1px solid var(--border)}
+h1{margin:0;font-size:18px}
+.meta{margin:2px 0 0;font-size:12px;color:var(--muted)}
+#grid{display:grid;grid-template-columns:repeat(12,minmax(0,1fr));grid-auto-rows:64px;gap:16px;padding:16px 24px}
+.cell{display:flex;flex-direction:column;min-width:0;background:var(--card);border:1px solid var(--border);border-radius:12px;padding:12px 16px}
+.title{font-size:10px;text-transform:uppercase;color:var(--muted);white-space:nowrap;overflow:hidden;text-overflow:ellipsis}
+.note{font-size:10px;color:var(--muted);opacity:.7}
+.body{flex:1;min-height:0;margin-top:8px;overflow:auto}
+svg{display:block}
+.value{display:flex;flex-direction:column;justify-content:center;align-items:flex-start;height:100%}
+.kpi{font-size:30px;font-weight:700;font-variant-numeric:tabular-nums}
+.change{margin-top:4px;font-size:11px}.up{color:hsl(142 71% 45%)}.down{color:hsl(0 72% 51%)}
+.gauge{align-items:center}
+.tick{font-size:10px;fill:var(--muted)}
+.gridline{stroke:var(--border);stroke-dasharray:3 3}
+.marker{stroke:var(--warning);stroke-dasharray:4 2}
+[data-label]{cursor:pointer}
+table{width:100%;border-collapse:collapse;font-size:11px}
+th{font-weight:500;color:var(--muted);text-align:left;position:sticky;top:0;background:var(--card)}
+td,th{padding:4px 0}
+tbody tr{border-top:1px solid var(--border)}
+tr.selected{background:hsl(173 58% 39% / .1)}
+.dim{opacity:.4}
+.num{text-align:right;font-variant-numeric:tabular-nums;font-family:ui-monospace,monospace}
+.ranked{display:grid;grid-auto-rows:1fr;gap:4px;height:100%}
+.ranked div{display:flex;justify-content:space-between;align-items:center;gap:8px;padding:0 8px;border-radius:4px;font-size:11px}
+.ranked .selected{outline:1px solid var(--primary)}
+.pie{display:flex;align-items:center;gap:12px;height:100%}
+.legend{list-style:none;margin:0;padding:0;font-size:11px;overflow:auto;max-height:100%}
+.legend li{display:flex;align-items:center;gap:6px}
+.swatch{width:8px;height:8px;border-radius:2px;flex:none}
+.land{fill:var(--border);opacity:.6}
+.area{fill-rule:evenodd;stroke:var(--card);stroke-width:.5}
+.nodata{fill:var(--border)}
+.pt{stroke:var(--card)}
+.code{font-size:11px;fill:var(--fg);pointer-events:none}
+.scale{display:flex;align-items:center;gap:8px;height:18px;font-size:10px;color:var(--muted)}
+.ramp{width:64px;height:6px;border-radius:3px;background:linear-gradient(to right,hsl(173 58% 39% / .2),hsl(173 58% 39% / .9))}
+.empty{display:flex;align-items:center;justify-content:center;height:100%;color:var(--muted);font-size:12px;text-align:center}
+.chip{display:inline-flex;align-items:center;gap:6px;border:1px solid hsl(38 92% 50% / .5);background:hsl(38 92% 50% / .1);border-radius:999px;padding:2px 4px 2px 10px;font-size:12px;white-space:nowrap}
+.chip button{border:0;background:none;color:inherit;cursor:pointer;font-size:14px;line-height:1;padding:0 4px}
+#tip{position:fixed;pointer-events:none;background:var(--card);border:1px solid var(--border);border-radius:6px;padding:4px 8px;font-size:11px;box-shadow:0 4px 12px rgb(0 0 0 / .12)}
+footer{padding:0 24px 24px;font-size:11px;color:var(--muted)}
+@media (max-width:720px){#grid{grid-template-columns:1fr}.cell{grid-column:1/-1!important;grid-row:auto/span var(--h)!important}}
+`;
+
+// Plain browser script; no template literals so it can sit inside this one
+const RUNTIME = `
+(function () {
+  'use strict';
+  var snapshot = JSON.parse(document.getElementById('dashboard-data').textContent);
+  var COLORS = ['hsl(173 58% 39%)', 'hsl(38 92% 50%)', 'hsl(142 71% 45%)', '#a78bfa', '#60a5fa', '#f472b6', '#34d399'];
+  var PRIMARY = COLORS[0];
+  var PAD = { l: 48, r: 8, t: 8, b: 22 };
+  var selection = null;
+
+  // Mirrors formatMetric in the app
+  var compact = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 });
+  function fmt(v) {
+    if (v === null || v === undefined) return '—';
+    if (Math.abs(v) >= 10000) return compact.format(v);
+    return Number.isInteger(v) ? v.toLocaleString() : v.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  }
+  function esc(s) {
+    return String(s).replace(/[&<>"']/g, function (c) {
+      return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c];
+    });
+  }
+  function truncate(s, n) {
+    s = String(s);
+    return s.length > n ? s.slice(0, n - 1) + '…' : s;
+  }
+
+  function dataFor(w) {
+    if (selection && selection.widget !== w.id) return snapshot.cross[selection.widget][selection.label][w.id];
+    return snapshot.base[w.id];
+  }
+  function selectedFor(w) {
+    return selection && selection.widget === w.id ? selection.label : null;
+  }
+  function dimmed(sel, label) {
+    return sel !== null && sel !== label;
+  }
+  // Tooltip text, plus the cross-filter hook when this group was precomputed
+  function hooks(w, label, tip) {
+    var out = tip ? ' data-tip="' + esc(tip) + '"' : '';
+    var groups = snapshot.cross[w.id];
+    if (groups && label !== null && groups[label]) out += ' data-widget="' + esc(w.id) + '" data-label="' + esc(label) + '"';
+    return out;
+  }
+  function pointTip(p) {
+    return p.label + ': ' + fmt(p.value);
+  }
+  // Mirrors mapShade in the app
+  function shade(v, min, max) {
+    return 'hsl(173 58% 39% / ' + (max === min ? 0.7 : 0.2 + (0.7 * (v - min)) / (max - min)) + ')';
+  }
+  function svg(W, H, inner) {
+    return '<svg width="' + W + '" height="' + H + '" viewBox="0 0 ' + W + ' ' + H + '">' + inner + '</svg>';
+  }
+
+  function scale(points, top, bottom) {
+    var lo = 0, hi = 0;
+    points.forEach(function (p) { lo = Math.min(lo, p.value); hi = Math.max(hi, p.value); });
+    if (hi === lo) hi = lo + 1;
+    return { lo: lo, hi: hi, y: function (v) { return top + ((hi - v) / (hi - lo)) * (bottom - top); } };
+  }
+  function axes(s, W) {
+    var out = '';
+    for (var i = 0; i <= 4; i++) {
+      var v = s.lo + ((s.hi - s.lo) * i) / 4, y = s.y(v);
+      out += '<line x1="' + PAD.l + '" x2="' + (W - PAD.r) + '" y1="' + y + '" y2="' + y + '" class="gridline"/>';
+      out += '<text x="' + (PAD.l - 6) + '" y="' + (y + 3) + '" text-anchor="end" class="tick">' + esc(fmt(v)) + '</text>';
+    }
+    return out;
+  }
+  function xLabels(points, x, W, bottom) {
+    var every = Math.max(1, Math.ceil(points.length / Math.max(1, Math.floor(W / 64))));
+    return points.map(function (p, i) {
+      if (i % every) return '';
+      return '<text x="' + x(i) + '" y="' + (bottom + 14) + '" text-anchor="middle" class="tick">' + esc(truncate(p.label, 12)) + '</text>';
+    }).join('');
+  }
+
+  function barChart(w, points, W, H) {
+    var bottom = H - PAD.b, s = scale(points, PAD.t, bottom), sel = selectedFor(w);
+    var band = (W - PAD.l - PAD.r) / points.length;
+    var x = function (i) { return PAD.l + band * (i + 0.5); };
+    var out = axes(s, W);
+    points.forEach(function (p, i) {
+      var y0 = s.y(0), y1 = s.y(p.value);
+      out += '<rect x="' + (x(i) - band * 0.35) + '" y="' + Math.min(y0, y1) + '" width="' + band * 0.7 + '" height="' + Math.max(1, Math.abs(y0 - y1)) +
+        '" rx="3" fill="' + PRIMARY + '" fill-opacity="' + (dimmed(sel, p.label) ? 0.3 : 1) + '"' + hooks(w, p.label, pointTip(p)) + '/>';
+    });
+    return svg(W, H, out + xLabels(points, x, W, bottom));
+  }
+
+  function lineChart(w, points, W, H) {
+    var bottom = H - PAD.b, s = scale(points, PAD.t, bottom), sel = selectedFor(w), n = points.length;
+    var step = n > 1 ? (W - PAD.l - PAD.r) / (n - 1) : W - PAD.l - PAD.r;
+    var x = function (i) { return n > 1 ? PAD.l + step * i : (PAD.l + W - PAD.r) / 2; };
+    var out = axes(s, W);
+    out += '<polyline fill="none" stroke="' + PRIMARY + '" stroke-width="2" points="' +
+      points.map(function (p, i) { return x(i) + ',' + s.y(p.value); }).join(' ') + '"/>';
+    points.forEach(function (p, i) {
+      if (p.label === sel) out += '<line x1="' + x(i) + '" x2="' + x(i) + '" y1="' + PAD.t + '" y2="' + bottom + '" class="marker"/>';
+      if (n <= 24) out += '<circle cx="' + x(i) + '" cy="' + s.y(p.value) + '" r="3" fill="' + PRIMARY + '"/>';
+      // Full-height band per point so hovering anywhere above it shows the value
+      out += '<rect x="' + (x(i) - step / 2) + '" y="' + PAD.t + '" width="' + step + '" height="' + (bottom - PAD.t) + '" fill="transparent"' + hooks(w, p.label, pointTip(p)) + '/>';
+    });
+    return svg(W, H, out + xLabels(points, x, W, bottom));
+  }
+
+  function pieChart(w, points, W, H) {
+    var sel = selectedFor(w), size = Math.min(H, W * 0.6), r = size / 2 - 4, c = size / 2, angle = -Math.PI / 2, out = '';
+    var total = points.reduce(function (t, p) { return t + Math.max(0, p.value); }, 0);
+    if (!total) return '<div class="empty">Nothing to chart</div>';
+    points.forEach(function (p, i) {
+      var share = Math.max(0, p.value) / total;
+      if (!share) return;
+      var attrs = ' fill="' + COLORS[i % COLORS.length] + '" fill-opacity="' + (dimmed(sel, p.label) ? 0.3 : 1) + '"' + hooks(w, p.label, pointTip(p));
+      if (share > 0.9999) {
+        out += '<circle cx="' + c + '" cy="' + c + '" r="' + r + '"' + attrs + '/>';
+        return;
+      }
+      var end = angle + share * 2 * Math.PI;
+      out += '<path d="M' + c + ' ' + c + ' L' + (c + r * Math.cos(angle)) + ' ' + (c + r * Math.sin(angle)) +
+        ' A' + r + ' ' + r + ' 0 ' + (share > 0.5 ? 1 : 0) + ' 1 ' + (c + r * Math.cos(end)) + ' ' + (c + r * Math.sin(end)) + ' Z"' + attrs + '/>';
+      angle = end;
+    });
+    var legend = points.map(function (p, i) {
+      return '<li' + hooks(w, p.label, null) + (dimmed(sel, p.label) ? ' class="dim"' : '') + '><span class="swatch" style="background:' + COLORS[i % COLORS.length] +
+        '"></span>' + esc(truncate(p.label, 24)) + '</li>';
+    }).join('');
+    return '<div class="pie">' + svg(size, size, out) + '<ul class="legend">' + legend + '</ul></div>';
+  }
+
+  function ranked(w, points) {
+    var sel = selectedFor(w), max = Math.max.apply(null, points.map(function (p) { return Math.abs(p.value); }).concat([1]));
+    return '<div class="ranked">' + points.map(function (p) {
+      var cls = (p.label === sel ? 'selected' : '') + (dimmed(sel, p.label) ? ' dim' : '');
+      return '<div class="' + cls + '" style="background:hsl(173 58% 39% / ' + (0.08 + (0.5 * Math.abs(p.value)) / max) + ')"' + hooks(w, p.label, null) +
+        '><span>' + esc(p.label) + '</span><span class="num">' + esc(fmt(p.value)) + '</span></div>';
+    }).join('') + '</div>';
+  }
+
+  function table(w, points) {
+    var sel = selectedFor(w);
+    var rows = points.map(function (p) {
+      var cls = (p.label === sel ? 'selected' : '') + (dimmed(sel, p.label) ? ' dim' : '');
+      return '<tr class="' + cls + '"' + hooks(w, p.label, null) + '><td>' + esc(p.label) + '</td><td class="num">' + esc(fmt(p.value)) + '</td></tr>';
+    }).join('');
+    return '<table><thead><tr><th>' + esc(w.dimension || '') + '</th><th class="num">' + esc(w.measure || 'Rows') + '</th></tr></thead><tbody>' + rows + '</tbody></table>';
+  }
+
+  function mapChart(w, d, W, H) {
+    var sel = selectedFor(w);
+    var out = (snapshot.land[w.id] || []).map(function (path) { return '<path d="' + path + '" class="land"/>'; }).join('');
+    d.shapes.forEach(function (s) {
+      var attrs = (sel !== null && s.label !== sel ? ' opacity="0.35"' : '') +
+        (s.label !== null && s.label === sel ? ' style="stroke:hsl(38 92% 50%);stroke-width:2"' : '') +
+        (s.value === null ? '' : ' fill="' + shade(s.value, d.min, d.max) + '"');
+      var nodata = s.value === null ? ' nodata' : '';
+      var tip = s.name + ': ' + (s.value === null ? 'no data' : fmt(s.value));
+      if (s.kind === 'area') {
+        out += '<path d="' + snapshot.areas[w.id][s.code] + '" class="area' + nodata + '"' + attrs + hooks(w, s.label, tip) + '/>';
+      } else if (s.kind === 'tile') {
+        out += '<g' + hooks(w, s.label, tip) + '><rect x="' + s.x + '" y="' + s.y + '" width="' + s.size + '" height="' + s.size + '" rx="4"' + (nodata && ' class="nodata"') + attrs + '/>' +
+          '<text x="' + (s.x + s.size / 2) + '" y="' + (s.y + s.size / 2 + 4) + '" text-anchor="middle" class="code">' + esc(s.code) + '</text></g>';
+      } else {
+        out += '<circle cx="' + s.cx + '" cy="' + s.cy + '" r="' + s.r + '" class="pt"' + attrs + hooks(w, s.label, tip) + '/>';
+      }
+    });
+    return '<svg width="' + W + '" height="' + (H - 18) + '" viewBox="0 0 ' + d.width + ' ' + d.height + '">' + out + '</svg>' +
+      '<div class="scale"><span>' + esc(fmt(d.min)) + '</span><span class="ramp"></span><span>' + esc(fmt(d.max)) + '</span></div>';
+  }
+
+  function kpi(d) {
+    var out = '<div class="kpi">' + esc(fmt(d.value)) + '</div>';
+    if (d.previous !== null && d.latest !== null && d.previous !== 0) {
+      var change = ((d.latest - d.previous) / Math.abs(d.previous)) * 100;
+      out += '<div class="change ' + (change >= 0 ? 'up' : 'down') + '">' + (change >= 0 ? '↑ ' : '↓ ') +
+        Math.abs(change).toFixed(1) + '% latest ' + esc(d.period) + ' vs prior</div>';
+    }
+    return '<div class="value">' + out + '</div>';
+  }
+
+  function gauge(d) {
+    if (d.value === null || !d.max) return '<div class="empty">No values to compare</div>';
+    var share = Math.max(0, Math.min(1, d.value / d.max)), arc = Math.PI * 40, path = 'M10 50 A40 40 0 0 1 90 50';
+    return '<div class="value gauge"><svg viewBox="0 0 100 56" width="192" height="108">' +
+      '<path d="' + path + '" fill="none" stroke="hsl(173 58% 39% / .15)" stroke-width="10" stroke-linecap="round"/>' +
+      '<path d="' + path + '" fill="none" stroke="' + PRIMARY + '" stroke-width="10" stroke-linecap="round" stroke-dasharray="' + arc * share + ' ' + arc + '"/>' +
+      '<text x="50" y="48" text-anchor="middle" font-size="14" font-weight="700" fill="currentColor">' + Math.round(share * 100) + '%</text>' +
+      '</svg><div class="note">' + esc(fmt(d.value)) + ' of ' + esc(fmt(d.max)) + '</div></div>';
+  }
+
+  function body(w, d, W, H) {
+    if (d.kind === 'value') return w.type === 'gauge' ? gauge(d) : kpi(d);
+    if (d.kind === 'map') return mapChart(w, d, W, H);
+    if (!d.points.length) return '<div class="empty">No rows match this widget' + "'" + 's filters</div>';
+    switch (w.type) {
+      case 'bar': return barChart(w, d.points, W, H);
+      case 'line': return lineChart(w, d.points, W, H);
+      case 'pie': return pieChart(w, d.points, W, H);
+      case 'map': return ranked(w, d.points);
+      default: return table(w, d.points);
+    }
+  }
+
+  var grid = document.getElementById('grid');
+  grid.innerHTML = snapshot.widgets.map(function (w) {
+    var l = w.layout;
+    return '<section class="cell" style="--h:' + l.h + ';grid-column:' + (l.x + 1) + ' / span ' + l.w + ';grid-row:' + (l.y + 1) + ' / span ' + l.h + '">' +
+      '<div class="title">' + esc(w.title) + '</div>' + (w.note ? '<div class="note">' + esc(w.note) + '</div>' : '') + '<div class="body"></div></section>';
+  }).join('');
+  var bodies = grid.querySelectorAll('.body');
+
+  function paint() {
+    snapshot.widgets.forEach(function (w, i) {
+      var el = bodies[i];
+      el.innerHTML = body(w, dataFor(w), Math.max(120, el.clientWidth), Math.max(80, el.clientHeight));
+    });
+    var chip = document.getElementById('cross');
+    chip.hidden = !selection;
+    if (selection) {
+      var source = snapshot.widgets.filter(function (w) { return w.id === selection.widget; })[0];
+      chip.querySelector('span').textContent = source.dimension + ' = ' + selection.label;
+    }
+  }
+
+  document.addEventListener('click', function (e) {
+    var target = e.target.closest('[data-label]');
+    if (target) {
+      var id = target.getAttribute('data-widget'), label = target.getAttribute('data-label');
+      selection = selection && selection.widget === id && selection.label === label ? null : { widget: id, label: label };
+      paint();
+    } else if (e.target.closest('#clear-cross')) {
+      selection = null;
+      paint();
+    }
+  });
+  var tip = document.getElementById('tip');
+  document.addEventListener('mousemove', function (e) {
+    var target = e.target.closest && e.target.closest('[data-tip]');
+    tip.hidden = !target;
+    if (!target) return;
+    tip.textContent = target.getAttribute('data-tip');
+    tip.style.left = e.clientX + 12 + 'px';
+    tip.style.top = e.clientY + 12 + 'px';
+  });
+  var resizing;
+  window.addEventListener('resize', function () {
+    clearTimeout(resizing);
+    resizing = setTimeout(paint, 100);
+  });
+  paint();
+})();
+`;
+
+export function renderStandaloneHtml(snapshot: DashboardSnapshot): string {
+  // `<` is escaped so labels can never close the data script early
+  const json = JSON.stringify(snapshot).replace(/</g, '\\u003c');
+  const exported = new Date(snapshot.exportedAt).toLocaleString();
+  const filters = snapshot.filters.length ? `<p class="meta">Filtered to ${escapeHtml(snapshot.filters.join(' · '))}</p>` : '';
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(snapshot.name)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header class="top">
+  <div>
+    <h1>${escapeHtml(snapshot.name)}</h1>
+    <p class="meta">${escapeHtml(snapshot.dataset)} · ${snapshot.rowCount.toLocaleString()} rows · exported ${escapeHtml(exported)}</p>
+    ${filters}
+  </div>
+  <div id="cross" class="chip" hidden>Cross-filter <span></span><button id="clear-cross" aria-label="Clear cross-filter">×</button></div>
+</header>
+<main id="grid"></main>
+<div id="tip" hidden></div>
+<footer>Exported from DataTidy. Figures were aggregated at export time; click a bar, slice or row to filter the other widgets.</footer>
+<script type="application/json" id="dashboard-data">${json}</script>
+<script>${RUNTIME}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,227 @@
+/**
+ * Dashboard widgets: a JSON configuration per widget (measure, aggregation,
+ * dimension, date grain, filters) and the aggregation that turns dataset
+ * rows into the numbers or series a widget draws.
+ */
+
+import { parseMultiFormatDate } from '../dataAnalyzer';
+import { periodIndex, periodLabel, type Frequency } from '../ml/forecasting';
+import { aggregate, matchesPredicate } from '../pipeline/executor';
+import type { AggregateFn, FilterPredicate } from '../pipeline/types';
+import { detectGeoLevel, type GeoPoint } from './geo';
+import type { WidgetLayout } from './layout';
+
+type DataRow = Record<string, unknown>;
+
+export type WidgetType = 'kpi' | 'bar' | 'line' | 'pie' | 'table' | 'gauge' | 'map';
+
+export interface WidgetConfig {
+  title: string;
+  // Column to aggregate; null counts rows
+  measure: string | null;
+  aggregation: AggregateFn;
+  // Column to group by; date columns are bucketed by `dateGrain`
+  dimension: string | null;
+  dateGrain: Frequency | null;
+  filters: FilterPredicate[];
+  // Largest groups shown by bar, pie, table and map widgets
+  limit: number;
+  // Gauge maximum; see defaultGaugeMax when unset
+  target?: number;
+  // Map widgets plot rows at these columns instead of grouping by the dimension
+  coordinates?: { latitude: string; longitude: string } | null;
+}
+
+export interface Widget {
+  id: string;
+  type: WidgetType;
+  config: WidgetConfig;
+  layout: WidgetLayout;
+}
+
+export const WIDGET_TYPES: { type: WidgetType; label: string }[] = [
+  { type: 'kpi', label: 'KPI Card' },
+  { type: 'bar', label: 'Bar Chart' },
+  { type: 'line', label: 'Line Chart' },
+  { type: 'pie', label: 'Pie Chart' },
+  { type: 'table', label: 'Table' },
+  { type: 'gauge', label: 'Gauge' },
+  { type: 'map', label: 'Map' },
+];
+
+// Widgets that group by a dimension; KPIs and gauges reduce to one number
+export function isSeriesWidget(type: WidgetType): boolean {
+  return type !== 'kpi' && type !== 'gauge';
+}
+
+export const AGGREGATION_LABELS: Record<AggregateFn, string> = {
+  sum: 'Total',
+  mean: 'Average',
+  median: 'Median',
+  min: 'Minimum',
+  max: 'Maximum',
+  count: 'Count of',
+  count_distinct: 'Distinct',
+};
+
+export function defaultTitle(config: Pick<WidgetConfig, 'measure' | 'aggregation' | 'dimension' | 'coordinates'>): string {
+  const what = config.measure ? `${AGGREGATION_LABELS[config.aggregation]} ${config.measure}` : 'Rows';
+  if (config.coordinates) return `${what} by location`;
+  return config.dimension ? `${what} by ${config.dimension}` : what;
+}
+
+// ─── Aggregation ────────────────────────────────────────────────────────────
+
+export interface WidgetPoint {
+  label: string;
+  value: number;
+}
+
+export type WidgetData =
+  | {
+      kind: 'value';
+      value: number | null;
+      // Aggregates of the last two periods, when the widget has a date dimension and grain
+      latest: number | null;
+      previous: number | null;
+      period: Frequency | null;
+      // Gauge scale
+      max: number | null;
+    }
+  | {
+      kind: 'series';
+      points: WidgetPoint[];
+      // Groups left out by the widget's limit
+      hidden: number;
+    }
+  | {
+      kind: 'points';
+      points: GeoPoint[];
+      // Positions left out beyond MAX_MAP_POINTS
+      hidden: number;
+    };
+
+const MAX_MAP_POINTS = 2000;
+
+export function filterRows(rows: DataRow[], filters: FilterPredicate[]): DataRow[] {
+  return filters.length === 0 ? rows : rows.filter((row) => filters.every((p) => matchesPredicate(row, p)));
+}
+
+function reduce(rows: DataRow[], config: WidgetConfig): number | null {
+  // Counting without a measure counts rows, including ones with gaps
+  if (!config.measure) return rows.length;
+  const value = aggregate(rows.map((r) => r[config.measure]), config.aggregation);
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+// Group label of a dimension value: its period for a date grain, 'Unknown' when missing
+export function dimensionLabel(raw: unknown, grain: Frequency | null): string | null {
+  if (grain) {
+    const { date } = parseMultiFormatDate(raw);
+    return date ? periodLabel(periodIndex(date, grain), grain) : null;
+  }
+  return raw === null || raw === undefined || raw === '' ? 'Unknown' : String(raw);
+}
+
+// Rows bucketed by the dimension: chronological periods for a date grain, otherwise one group per value
+function groupRows(rows: DataRow[], dimension: string, grain: Frequency | null): { label: string; order: number; rows: DataRow[] }[] {
+  const groups = new Map<string, { label: string; order: number; rows: DataRow[] }>();
+  for (const row of rows) {
+    const raw = row[dimension];
+    let label: string;
+    let order = 0;
+    if (grain) {
+      const { date } = parseMultiFormatDate(raw);
+      if (!date) continue;
+      order = periodIndex(date, grain);
+      label = periodLabel(order, grain);
+    } else {
+      label = raw === null || raw === undefined || raw === '' ? 'Unknown' : String(raw);
+    }
+    if (!groups.has(label)) groups.set(label, { label, order, rows: [] });
+    groups.get(label).rows.push(row);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Additive aggregates read as a share of the unfiltered total; averages and
+ * extremes as a fraction of the largest single value.
+ */
+function defaultGaugeMax(rows: DataRow[], config: WidgetConfig): number | null {
+  if (!config.measure || ['sum', 'count', 'count_distinct'].includes(config.aggregation)) return reduce(rows, config);
+  const max = aggregate(rows.map((r) => r[config.measure]), 'max');
+  return typeof max === 'number' ? max : null;
+}
+
+export function computeWidget(widget: Widget, rows: DataRow[]): WidgetData {
+  const { config } = widget;
+  const filtered = filterRows(rows, config.filters);
+
+  if (!isSeriesWidget(widget.type)) {
+    let latest: number | null = null;
+    let previous: number | null = null;
+    let period: Frequency | null = null;
+    if (config.dimension && config.dateGrain) {
+      const periods = groupRows(filtered, config.dimension, config.dateGrain).sort((a, b) => a.order - b.order);
+      if (periods.length >= 2) {
+        latest = reduce(periods[periods.length - 1].rows, config);
+        previous = reduce(periods[periods.length - 2].rows, config);
+        period = config.dateGrain;
+      }
+    }
+    let max: number | null = null;
+    if (widget.type === 'gauge') {
+      max = config.target ?? defaultGaugeMax(rows, config);
+    }
+    return { kind: 'value', value: reduce(filtered, config), latest, previous, period, max };
+  }
+
+  if (widget.type === 'map' && config.coordinates) return positionData(filtered, config);
+  if (!config.dimension) {
+    return { kind: 'series', points: [{ label: config.title, value: reduce(filtered, config) ?? 0 }], hidden: 0 };
+  }
+  const groups = groupRows(filtered, config.dimension, config.dateGrain);
+  const points = groups.map((g) => ({ label: g.label, order: g.order, value: reduce(g.rows, config) ?? 0 }));
+  if (config.dateGrain) {
+    // Time axes keep every period in order
+    return { kind: 'series', points: points.sort((a, b) => a.order - b.order).map(({ label, value }) => ({ label, value })), hidden: 0 };
+  }
+  const ranked = points.sort((a, b) => b.value - a.value).map(({ label, value }) => ({ label, value }));
+  // Maps of known areas shade every area; the limit only applies to their ranked-list fallback
+  const limit = widget.type === 'map' && detectGeoLevel(ranked.map((p) => p.label)) ? ranked.length : config.limit;
+  return { kind: 'series', points: ranked.slice(0, limit), hidden: Math.max(0, ranked.length - limit) };
+}
+
+// Rows aggregated per distinct position, largest values first
+function positionData(rows: DataRow[], config: WidgetConfig): WidgetData {
+  const { latitude, longitude } = config.coordinates;
+  const groups = new Map<string, { lat: number; lon: number; rows: DataRow[] }>();
+  for (const row of rows) {
+    const lat = Number(row[latitude]);
+    const lon = Number(row[longitude]);
+    if (row[latitude] === null || row[longitude] === null || row[latitude] === '' || row[longitude] === '') continue;
+    if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) continue;
+    const key = `${lat.toFixed(4)},${lon.toFixed(4)}`;
+    if (!groups.has(key)) groups.set(key, { lat, lon, rows: [] });
+    groups.get(key).rows.push(row);
+  }
+  const points = [...groups.values()]
+    .map((g) => ({ lat: g.lat, lon: g.lon, value: reduce(g.rows, config) ?? 0 }))
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+  return { kind: 'points', points: points.slice(0, MAX_MAP_POINTS), hidden: Math.max(0, points.length - MAX_MAP_POINTS) };
+}
+
+// Percent change from the previous period to the latest, or null when it cannot be computed
+export function periodChange(data: WidgetData): number | null {
+  if (data.kind !== 'value' || data.previous === null || data.latest === null || data.previous === 0) return null;
+  return ((data.latest - data.previous) / Math.abs(data.previous)) * 100;
+}
+
+const compact = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 });
+
+export function formatMetric(value: number | null): string {
+  if (value === null) return '—';
+  if (Math.abs(value) >= 10_000) return compact.format(value);
+  return Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
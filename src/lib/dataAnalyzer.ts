@@ -12,6 +12,7 @@ import {
   DEFAULT_INTEGRITY_POLICY,
   DataIntegrityPolicy
 } from './dataTypes';
+import { isNullAt, type Column, type ColumnarTable, type NumericColumn } from './columnar';
 
 // Enhanced date patterns for multi-format parsing
 const DATE_PATTERNS = [
@@ -103,6 +104,11 @@ export function parseMultiFormatDate(value: unknown): { date: Date | null; forma
 
 // Detect if column is time-series based on data patterns
 export function detectTimeSeriesColumn(name: string, values: unknown[], dateColumns: string[]): boolean {
+  return isTimeSeriesMeasure(name, () => values.filter(parsesAsNumber).length / values.length, dateColumns);
+}
+
+// `numericShare` is the share of values Number() can parse; it is only computed when the name or date context qualifies
+function isTimeSeriesMeasure(name: string, numericShare: () => number, dateColumns: string[]): boolean {
   const lowerName = name.toLowerCase();
   
   // Check if column name suggests time-series
@@ -119,10 +125,7 @@ export function detectTimeSeriesColumn(name: string, values: unknown[], dateColu
   const hasDateContext = dateColumns.length > 0;
   
   // Check if values are numeric
-  const numericValues = values.filter(v => v !== null && v !== undefined && v !== '' && !isNaN(Number(v)));
-  const isNumeric = numericValues.length / values.length > 0.9;
-  
-  return isNumeric && (isTimeSeriesName || hasDateContext);
+  return (isTimeSeriesName || hasDateContext) && numericShare() > 0.9;
 }
 
 // Check if column is sensitive (protected from inference)
@@ -152,6 +155,16 @@ export function classifyColumn(
   dataType: string,
   dateColumns: string[],
   policy: DataIntegrityPolicy = DEFAULT_INTEGRITY_POLICY
+): ColumnClassification {
+  return classifyByType(name, dataType, () => values.filter(parsesAsNumber).length / values.length, dateColumns, policy);
+}
+
+function classifyByType(
+  name: string,
+  dataType: string,
+  numericShare: () => number,
+  dateColumns: string[],
+  policy: DataIntegrityPolicy
 ): ColumnClassification {
   const lowerName = name.toLowerCase();
   
@@ -181,7 +194,7 @@ export function classifyColumn(
   }
   
   if (dataType === 'numeric') {
-    if (detectTimeSeriesColumn(name, values, dateColumns)) {
+    if (isTimeSeriesMeasure(name, numericShare, dateColumns)) {
       return 'time_series_numeric';
     }
     return 'non_time_numeric';
@@ -274,8 +287,9 @@ export function detectColumnRole(name: string, type: string, classification: Col
 }
 
 // Calculate numeric statistics with skewness detection
-export function calculateNumericStats(values: number[]): NumericStats {
-  const sorted = [...values].sort((a, b) => a - b);
+export function calculateNumericStats(values: ArrayLike<number>): NumericStats {
+  // Typed-array sort is numeric and avoids a comparator call per comparison
+  const sorted = Float64Array.from(values).sort();
   const n = sorted.length;
   
   if (n === 0) {
@@ -286,10 +300,13 @@ export function calculateNumericStats(values: number[]): NumericStats {
     };
   }
   
-  const sum = sorted.reduce((a, b) => a + b, 0);
+  let sum = 0;
+  for (let i = 0; i < n; i++) sum += sorted[i];
   const mean = sum / n;
   
-  const variance = sorted.reduce((acc, val) => acc + Math.pow(val - mean, 2), 0) / n;
+  let squares = 0;
+  for (let i = 0; i < n; i++) squares += (sorted[i] - mean) ** 2;
+  const variance = squares / n;
   const stdDev = Math.sqrt(variance);
   
   const median = n % 2 === 0 
@@ -303,9 +320,11 @@ export function calculateNumericStats(values: number[]): NumericStats {
   const iqr = q3 - q1;
   
   // Calculate skewness
-  const skewness = stdDev > 0 
-    ? (sorted.reduce((acc, val) => acc + Math.pow((val - mean) / stdDev, 3), 0) / n)
-    : 0;
+  let cubes = 0;
+  if (stdDev > 0) {
+    for (let i = 0; i < n; i++) cubes += ((sorted[i] - mean) / stdDev) ** 3;
+  }
+  const skewness = stdDev > 0 ? cubes / n : 0;
   const isSkewed = Math.abs(skewness) > 0.5;
   
   // Detect outliers using IQR
@@ -313,11 +332,12 @@ export function calculateNumericStats(values: number[]): NumericStats {
   const upperBound = q3 + 1.5 * iqr;
   
   const outliers: { value: number; index: number }[] = [];
-  values.forEach((val, idx) => {
+  for (let idx = 0; idx < values.length; idx++) {
+    const val = values[idx];
     if (val < lowerBound || val > upperBound) {
       outliers.push({ value: val, index: idx });
     }
-  });
+  }
   
   return {
     min: sorted[0],
@@ -338,8 +358,6 @@ export function calculateNumericStats(values: number[]): NumericStats {
 // Analyze categorical column with missing percentage
 export function analyzeCategorical(values: string[], totalRows: number): CategoricalInfo {
   const valueCounts: Record<string, number> = {};
-  const normalizedMappings: Record<string, string> = {};
-  const inconsistentValues: string[] = [];
   let missingCount = 0;
   
   values.forEach(v => {
@@ -350,6 +368,12 @@ export function analyzeCategorical(values: string[], totalRows: number): Categor
     valueCounts[v] = (valueCounts[v] || 0) + 1;
   });
   
+  return categoricalFromCounts(valueCounts, missingCount, totalRows);
+}
+
+function categoricalFromCounts(valueCounts: Record<string, number>, missingCount: number, totalRows: number): CategoricalInfo {
+  const normalizedMappings: Record<string, string> = {};
+  const inconsistentValues: string[] = [];
   const uniqueValues = Object.keys(valueCounts);
   const normalizedGroups: Map<string, string[]> = new Map();
   
@@ -438,6 +462,11 @@ export function analyzeCategorical(values: string[], totalRows: number): Categor
 
 // Analyze date column with median calculation
 export function analyzeDate(values: unknown[]): DateInfo {
+  return summarizeDates(values.map(parseDateValue));
+}
+
+// One parse result per row; undefined marks a value that was never a date candidate
+function summarizeDates(parsed: ArrayLike<ParsedDate | undefined>): DateInfo {
   let minDate = new Date(8640000000000000);
   let maxDate = new Date(-8640000000000000);
   let invalidDates = 0;
@@ -445,10 +474,10 @@ export function analyzeDate(values: unknown[]): DateInfo {
   const validDates: Date[] = [];
   const formatCounts: Record<string, number> = {};
   
-  values.forEach(v => {
-    if (v === null || v === undefined || v === '') return;
+  for (let i = 0; i < parsed.length; i++) {
+    if (!parsed[i]) continue;
     
-    const { date, format: fmt } = parseMultiFormatDate(v);
+    const { date, format: fmt } = parsed[i];
     
     if (date) {
       validDates.push(date);
@@ -458,7 +487,7 @@ export function analyzeDate(values: unknown[]): DateInfo {
     } else {
       invalidDates++;
     }
-  });
+  }
   
   // Determine most common format
   let maxCount = 0;
@@ -513,6 +542,169 @@ export function calculateColumnQualityScore(
   return Math.max(0, Math.round(100 - missingPenalty - outlierPenalty - invalidPenalty));
 }
 
+// ─── Column Digests ──────────────────────────────────────────────────────────
+// Everything profiling reads from a column, gathered either from a plain value
+// array or straight from a columnar table's typed arrays. Dictionary-encoded
+// columns evaluate each predicate once per distinct value.
+
+type ParsedDate = ReturnType<typeof parseMultiFormatDate>;
+
+interface ColumnDigest {
+  length: number;
+  // Values that are neither null, undefined nor blank
+  nonNullCount: number;
+  // First values that type detection looks at (null, undefined and '' skipped)
+  typeSample: unknown[];
+  // String form of each non-blank value, in first-seen order
+  distinct: string[];
+  numericShare(): number;
+  // Comma-stripped numbers of the non-blank values, unparseable ones dropped
+  numbers(): ArrayLike<number>;
+  valueCounts(): Record<string, number>;
+  dates(): ArrayLike<ParsedDate | undefined>;
+}
+
+const TYPE_SAMPLE_SIZE = 200;
+
+const isBlankValue = (v: unknown) =>
+  v === null || v === undefined || v === '' || (typeof v === 'string' && v.trim() === '');
+const isTypedValue = (v: unknown) => v !== null && v !== undefined && v !== '';
+const parsesAsNumber = (v: unknown) => isTypedValue(v) && !isNaN(Number(v));
+const toMeasure = (v: unknown) => Number(String(v).replace(/,/g, ''));
+const parseDateValue = (v: unknown): ParsedDate | undefined => (isTypedValue(v) ? parseMultiFormatDate(v) : undefined);
+
+function digestValues(values: unknown[]): ColumnDigest {
+  const present = values.filter(v => !isBlankValue(v));
+  return {
+    length: values.length,
+    nonNullCount: present.length,
+    typeSample: values.filter(isTypedValue).slice(0, TYPE_SAMPLE_SIZE),
+    distinct: [...new Set(present.map(v => String(v)))],
+    numericShare: () => values.filter(parsesAsNumber).length / values.length,
+    numbers: () => present.map(toMeasure).filter(v => !isNaN(v)),
+    valueCounts: () => {
+      const counts: Record<string, number> = {};
+      for (const v of present) counts[String(v)] = (counts[String(v)] || 0) + 1;
+      return counts;
+    },
+    dates: () => values.map(parseDateValue),
+  };
+}
+
+function digestNumeric(column: NumericColumn): ColumnDigest {
+  const { values, nulls, length } = column;
+  const typeSample: unknown[] = [];
+  // Set<number> dedupes exactly like the string forms do (0 and -0 both print as "0")
+  const distinct = new Set<number>();
+  for (let i = 0; i < length; i++) {
+    if (isNullAt(nulls, i)) continue;
+    if (typeSample.length < TYPE_SAMPLE_SIZE) typeSample.push(values[i]);
+    distinct.add(values[i]);
+  }
+
+  const parsed = () => {
+    const out: number[] = [];
+    for (let i = 0; i < length; i++) {
+      if (!isNullAt(nulls, i) && !isNaN(values[i])) out.push(values[i]);
+    }
+    return out;
+  };
+  return {
+    length,
+    nonNullCount: length - column.nullCount,
+    typeSample,
+    distinct: Array.from(distinct, String),
+    numericShare: () => parsed().length / length,
+    numbers: parsed,
+    valueCounts: () => {
+      const counts: Record<string, number> = {};
+      for (let i = 0; i < length; i++) {
+        if (!isNullAt(nulls, i)) counts[String(values[i])] = (counts[String(values[i])] || 0) + 1;
+      }
+      return counts;
+    },
+    dates: () => {
+      const memo = new Map<number, ParsedDate>();
+      const out: (ParsedDate | undefined)[] = new Array(length);
+      for (let i = 0; i < length; i++) {
+        if (isNullAt(nulls, i)) continue;
+        if (!memo.has(values[i])) memo.set(values[i], parseMultiFormatDate(values[i]));
+        out[i] = memo.get(values[i]);
+      }
+      return out;
+    },
+  };
+}
+
+function digestDictionary(length: number, nulls: Uint8Array, codes: ArrayLike<number>, dictionary: unknown[]): ColumnDigest {
+  const blank = dictionary.map(isBlankValue);
+  const counts = new Float64Array(dictionary.length);
+  const typeSample: unknown[] = [];
+  let nonNullCount = 0;
+  for (let i = 0; i < length; i++) {
+    if (isNullAt(nulls, i)) continue;
+    const code = codes[i];
+    counts[code]++;
+    if (typeSample.length < TYPE_SAMPLE_SIZE && isTypedValue(dictionary[code])) typeSample.push(dictionary[code]);
+    if (!blank[code]) nonNullCount++;
+  }
+
+  // Distinct entries in the order their first row appears
+  const order: number[] = [];
+  const seen = new Uint8Array(dictionary.length);
+  for (let i = 0; i < length && order.length < dictionary.length; i++) {
+    const code = codes[i];
+    if (isNullAt(nulls, i) || seen[code]) continue;
+    seen[code] = 1;
+    if (!blank[code]) order.push(code);
+  }
+
+  // Expand a per-entry result to rows, skipping nulls
+  const perRow = <T>(entries: T[], keep: (entry: T) => boolean) => {
+    const out: T[] = [];
+    for (let i = 0; i < length; i++) {
+      if (!isNullAt(nulls, i) && keep(entries[codes[i]])) out.push(entries[codes[i]]);
+    }
+    return out;
+  };
+  return {
+    length,
+    nonNullCount,
+    typeSample,
+    distinct: order.map(code => String(dictionary[code])),
+    numericShare: () => {
+      let numeric = 0;
+      dictionary.forEach((v, code) => {
+        if (parsesAsNumber(v)) numeric += counts[code];
+      });
+      return numeric / length;
+    },
+    numbers: () => perRow(dictionary.map((v, code) => (blank[code] ? NaN : toMeasure(v))), n => !isNaN(n)),
+    valueCounts: () => {
+      const valueCounts: Record<string, number> = {};
+      for (const code of order) valueCounts[String(dictionary[code])] = counts[code];
+      return valueCounts;
+    },
+    dates: () => {
+      const entries = dictionary.map(parseDateValue);
+      const out: (ParsedDate | undefined)[] = new Array(length);
+      for (let i = 0; i < length; i++) {
+        if (!isNullAt(nulls, i)) out[i] = entries[codes[i]];
+      }
+      return out;
+    },
+  };
+}
+
+function digestColumn(column: Column): ColumnDigest {
+  switch (column.kind) {
+    case 'numeric': return digestNumeric(column);
+    case 'categorical': return digestDictionary(column.length, column.nulls, column.codes, column.dictionary);
+    case 'boolean': return digestDictionary(column.length, column.nulls, column.values, [false, true]);
+    case 'mixed': return digestValues(column.values);
+  }
+}
+
 // Profile a single column with enhanced classification and enterprise features
 export function profileColumn(
   name: string, 
@@ -520,24 +712,40 @@ export function profileColumn(
   dateColumns: string[] = [],
   policy: DataIntegrityPolicy = DEFAULT_INTEGRITY_POLICY
 ): ColumnProfile {
-  const nonNullValues = values.filter(v => v !== null && v !== undefined && v !== '' && 
-    (typeof v !== 'string' || v.trim() !== ''));
-  
-  const dataType = detectColumnType(values, name);
-  const classification = classifyColumn(name, values, dataType, dateColumns, policy);
-  const uniqueValues = new Set(nonNullValues.map(v => String(v)));
-  const uniqueRatio = uniqueValues.size / Math.max(nonNullValues.length, 1);
+  return profileDigest(name, digestValues(values), dateColumns, policy);
+}
+
+// Same profile as `profileColumn`, read from the table's typed arrays without materializing the column
+export function profileTableColumn(
+  table: ColumnarTable,
+  name: string,
+  dateColumns: string[] = [],
+  policy: DataIntegrityPolicy = DEFAULT_INTEGRITY_POLICY
+): ColumnProfile {
+  return profileDigest(name, digestColumn(table.column(name)), dateColumns, policy);
+}
+
+function profileDigest(
+  name: string,
+  digest: ColumnDigest,
+  dateColumns: string[],
+  policy: DataIntegrityPolicy
+): ColumnProfile {
+  const dataType = detectColumnType(digest.typeSample, name);
+  const classification = classifyByType(name, dataType, digest.numericShare, dateColumns, policy);
+  const uniqueValues = digest.distinct;
+  const uniqueRatio = uniqueValues.length / Math.max(digest.nonNullCount, 1);
   
   const role = detectColumnRole(name, dataType, classification, uniqueRatio);
   const issues: ColumnIssue[] = [];
   
-  const nullCount = values.length - nonNullValues.length;
+  const nullCount = digest.length - digest.nonNullCount;
   if (nullCount > 0) {
     issues.push({
       type: 'missing',
       count: nullCount,
-      description: `${nullCount} missing values (${((nullCount / values.length) * 100).toFixed(1)}%)`,
-      severity: nullCount / values.length > 0.3 ? 'warning' : 'info'
+      description: `${nullCount} missing values (${((nullCount / digest.length) * 100).toFixed(1)}%)`,
+      severity: nullCount / digest.length > 0.3 ? 'warning' : 'info'
     });
   }
   
@@ -571,9 +779,7 @@ export function profileColumn(
   let invalidCount = 0;
   
   if (dataType === 'numeric') {
-    const numericValues = nonNullValues
-      .map(v => Number(String(v).replace(/,/g, '')))
-      .filter(v => !isNaN(v));
+    const numericValues = digest.numbers();
     
     stats = calculateNumericStats(numericValues);
     outlierCount = stats.outlierCount;
@@ -589,7 +795,10 @@ export function profileColumn(
     
     const positiveOnlyPatterns = ['price', 'cost', 'amount', 'quantity', 'qty', 'count', 'age', 'revenue', 'sales', 'units', 'weight'];
     if (positiveOnlyPatterns.some(p => name.toLowerCase().includes(p)) && stats.min < 0) {
-      const negativeCount = numericValues.filter(v => v < 0).length;
+      let negativeCount = 0;
+      for (let i = 0; i < numericValues.length; i++) {
+        if (numericValues[i] < 0) negativeCount++;
+      }
       invalidCount += negativeCount;
       issues.push({
         type: 'invalid_range',
@@ -601,8 +810,8 @@ export function profileColumn(
   }
   
   if (dataType === 'categorical' || dataType === 'text' || dataType === 'boolean') {
-    const stringValues = nonNullValues.map(v => String(v));
-    categoricalInfo = analyzeCategorical(stringValues, values.length);
+    const valueCounts = digest.valueCounts();
+    categoricalInfo = categoricalFromCounts(valueCounts, 0, digest.length);
     
     if (categoricalInfo.inconsistentValues.length > 0) {
       issues.push({
@@ -613,20 +822,23 @@ export function profileColumn(
       });
     }
     
-    const encodingIssues = stringValues.filter(v => /[^\x00-\x7F]/.test(v) && /�|Ã|â€/.test(v));
-    if (encodingIssues.length > 0) {
-      invalidCount += encodingIssues.length;
+    let encodingIssues = 0;
+    for (const [v, count] of Object.entries(valueCounts)) {
+      if (/[^\x00-\x7F]/.test(v) && /�|Ã|â€/.test(v)) encodingIssues += count;
+    }
+    if (encodingIssues > 0) {
+      invalidCount += encodingIssues;
       issues.push({
         type: 'encoding',
-        count: encodingIssues.length,
-        description: `${encodingIssues.length} values with encoding issues`,
+        count: encodingIssues,
+        description: `${encodingIssues} values with encoding issues`,
         severity: 'warning'
       });
     }
   }
   
   if (dataType === 'date') {
-    dateInfo = analyzeDate(values);
+    dateInfo = summarizeDates(digest.dates());
     
     if (dateInfo.invalidDates > 0) {
       invalidCount += dateInfo.invalidDates;
@@ -641,7 +853,7 @@ export function profileColumn(
   
   const isTimeSeries = classification === 'time_series_numeric';
   const isDerived = classification === 'derived';
-  const qualityScore = calculateColumnQualityScore(nullCount, values.length, outlierCount, invalidCount);
+  const qualityScore = calculateColumnQualityScore(nullCount, digest.length, outlierCount, invalidCount);
   
   return {
     name,
@@ -650,8 +862,8 @@ export function profileColumn(
     classification,
     role,
     nullCount,
-    uniqueCount: uniqueValues.size,
-    sampleValues: Array.from(uniqueValues).slice(0, 5),
+    uniqueCount: uniqueValues.length,
+    sampleValues: uniqueValues.slice(0, 5),
     stats,
     categoricalInfo,
     dateInfo,
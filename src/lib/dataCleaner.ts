@@ -13,7 +13,7 @@ import {
   ColumnQualityMetrics
 } from './dataTypes';
 import {
-  profileColumn,
+  profileTableColumn,
   detectDatasetType,
   suggestVisualizationFeatures,
   parseMultiFormatDate,
@@ -22,11 +22,12 @@ import {
   isNonInferableColumn,
   isIdentifierColumn
 } from './dataAnalyzer';
+import { ColumnarTable } from './columnar';
 
 type DataRow = Record<string, unknown>;
 
 // Standardize column name to snake_case
-function standardizeColumnName(name: string): string {
+export function standardizeColumnName(name: string): string {
   return name
     .trim()
     .toLowerCase()
@@ -36,7 +37,7 @@ function standardizeColumnName(name: string): string {
 }
 
 // Convert value to boolean
-function parseBoolean(value: unknown): boolean | null {
+export function parseBoolean(value: unknown): boolean | null {
   if (value === null || value === undefined || value === '') return null;
   
   const str = String(value).toLowerCase().trim();
@@ -47,15 +48,26 @@ function parseBoolean(value: unknown): boolean | null {
 }
 
 // Calculate median of numeric array
-function median(values: number[]): number {
+export function median(values: number[]): number {
   if (values.length === 0) return 0;
   const sorted = [...values].sort((a, b) => a - b);
   const mid = Math.floor(sorted.length / 2);
   return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
 }
 
+// Smallest and largest value; a loop rather than Math.min(...values), which overflows the call stack on large inputs
+export function extent(values: Iterable<number>): { min: number; max: number } {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  return { min, max };
+}
+
 // Calculate mode of array
-function mode<T>(values: T[]): T | undefined {
+export function mode<T>(values: T[]): T | undefined {
   if (values.length === 0) return undefined;
   
   const counts = new Map<T, number>();
@@ -157,7 +169,7 @@ function backwardFillDates(dates: (Date | null)[], medianDate: Date | null): Dat
 }
 
 // Check if value is empty/null/undefined
-function isEmpty(value: unknown): boolean {
+export function isEmpty(value: unknown): boolean {
   if (value === null || value === undefined) return true;
   if (typeof value === 'string' && value.trim() === '') return true;
   return false;
@@ -171,7 +183,8 @@ export function cleanDataAdvanced(
   const fullConfig: CleaningConfig = { ...DEFAULT_CLEANING_CONFIG, ...config };
   const actions: CleaningAction[] = [];
   const cleaningHighlights: string[] = [];
-  const originalData = data.map(row => ({ ...row }));
+  // Input rows are never mutated (cleaning works on copies below), so they can be shared
+  const originalData = data.slice();
   
   if (data.length === 0) {
     return {
@@ -217,7 +230,8 @@ export function cleanDataAdvanced(
   const columnImputationCounts: Record<string, number> = {};
   const imputedDates: Set<number> = new Set(); // Track row indices with imputed dates
   
-  let cleanedData = data.map(row => ({ ...row }));
+  // Whitespace trimming builds fresh rows anyway; only copy up front when it is off
+  let cleanedData = fullConfig.trimWhitespace ? data : data.map(row => ({ ...row }));
   const originalColumns = Object.keys(data[0]);
   let columnMapping: Record<string, string> = {};
   let datesFixed = 0;
@@ -291,20 +305,16 @@ export function cleanDataAdvanced(
   const columns = Object.keys(cleanedData[0]);
   
   // Step 3: Initial profile for type detection - detect date columns first
-  const initialProfiles = columns.map(col => {
-    const values = cleanedData.map(row => row[col]);
-    return profileColumn(col, values, []);
-  });
+  // Both passes read one columnar snapshot instead of re-extracting every column
+  const profileTable = ColumnarTable.fromRows(cleanedData, { columns });
+  const initialProfiles = columns.map(col => profileTableColumn(profileTable, col, []));
   
   const dateColumnNames = initialProfiles
     .filter(p => p.dataType === 'date')
     .map(p => p.name);
   
   // Re-profile with date context for time-series detection
-  const columnProfiles = columns.map(col => {
-    const values = cleanedData.map(row => row[col]);
-    return profileColumn(col, values, dateColumnNames);
-  });
+  const columnProfiles = columns.map(col => profileTableColumn(profileTable, col, dateColumnNames));
   
   // Step 4: Remove duplicates
   if (fullConfig.removeDuplicates) {
@@ -948,9 +958,9 @@ export function cleanDataAdvanced(
   
   // Re-profile cleaned data with enterprise features
   const finalColumns = Object.keys(cleanedData[0] || {});
+  const finalTable = ColumnarTable.fromRows(cleanedData, { columns: finalColumns });
   const finalProfiles = finalColumns.map(col => {
-    const values = cleanedData.map(row => row[col]);
-    const profile = profileColumn(col, values, dateColumnNames, integrityPolicy);
+    const profile = profileTableColumn(finalTable, col, dateColumnNames, integrityPolicy);
     
     // Update imputation count
     profile.imputedCount = columnImputationCounts[col] || 0;
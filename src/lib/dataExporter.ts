@@ -2,6 +2,7 @@
 
 import * as XLSX from 'xlsx';
 import { EnhancedCleaningResult } from './dataTypes';
+import { writeParquet, type ParquetWriteOptions } from './parquet';
 
 type DataRow = Record<string, unknown>;
 
@@ -42,6 +43,11 @@ export function dataToJSON(data: DataRow[], pretty = true): string {
   return pretty ? JSON.stringify(data, null, 2) : JSON.stringify(data);
 }
 
+// Convert data to Parquet blob (snappy-compressed by default)
+export function dataToParquet(data: DataRow[], options?: ParquetWriteOptions): Blob {
+  return new Blob([writeParquet(data, options)], { type: 'application/vnd.apache.parquet' });
+}
+
 // Generate cleaning report as text
 export function generateCleaningReport(result: EnhancedCleaningResult, fileName: string): string {
   const { summary, actions, profile, config } = result;
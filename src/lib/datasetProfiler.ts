@@ -0,0 +1,158 @@
+/**
+ * Dataset Profiler
+ * Builds the workspace-level `ColumnSchema[]` and `QualityIssue[]` from raw
+ * rows using the same column profiling and BI-readiness checks that drive
+ * the cleaning engine.
+ */
+
+import type { ColumnSchema, QualityIssue } from '@/store/workspace';
+import type { ColumnIssue, ColumnProfile } from './dataTypes';
+import { profileTableColumn } from './dataAnalyzer';
+import { assessBIReadiness, type BIReadinessReport } from './biReadiness';
+import { hashRow } from './processor/lruCache';
+import { ColumnarTable } from './columnar';
+
+type DataRow = Record<string, unknown>;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export { collectColumns } from './columnar';
+
+// Profile every column, with date context so time-series measures are classified correctly
+export function profileRows(rows: DataRow[]): ColumnProfile[] {
+  const table = ColumnarTable.fromRows(rows);
+  const initial = table.columnNames.map(col => profileTableColumn(table, col, []));
+  const dateColumns = initial.filter(p => p.dataType === 'date').map(p => p.name);
+  if (dateColumns.length === 0) return initial;
+  return table.columnNames.map(col => profileTableColumn(table, col, dateColumns));
+}
+
+export function toColumnSchema(profile: ColumnProfile, rowCount: number): ColumnSchema {
+  const schema: ColumnSchema = {
+    name: profile.name,
+    type: profile.dataType,
+    nullPct: rowCount > 0 ? Math.round((profile.nullCount / rowCount) * 1000) / 10 : 0,
+    unique: profile.uniqueCount,
+    samples: profile.sampleValues.slice(0, 3),
+  };
+  if (profile.stats) {
+    schema.min = round2(profile.stats.min);
+    schema.max = round2(profile.stats.max);
+    schema.mean = round2(profile.stats.mean);
+  }
+  return schema;
+}
+
+export function buildColumnSchema(rows: DataRow[]): ColumnSchema[] {
+  return profileRows(rows).map(p => toColumnSchema(p, rows.length));
+}
+
+export interface DatasetAssessment {
+  schema: ColumnSchema[];
+  issues: QualityIssue[];
+  quality: number;
+  readiness: BIReadinessReport;
+}
+
+const ISSUE_TYPES: Partial<Record<ColumnIssue['type'], QualityIssue['type']>> = {
+  missing: 'missing',
+  flagged_missing_id: 'missing',
+  outlier: 'outlier',
+  inconsistent: 'format',
+  encoding: 'format',
+  invalid_type: 'invalid',
+  invalid_range: 'invalid',
+  invalid_date: 'invalid',
+};
+
+function issueSeverity(issue: ColumnIssue, rowCount: number): QualityIssue['severity'] {
+  if (issue.type === 'missing') {
+    const ratio = rowCount > 0 ? issue.count / rowCount : 0;
+    return ratio > 0.5 ? 'critical' : ratio > 0.2 ? 'high' : ratio > 0.05 ? 'medium' : 'low';
+  }
+  return issue.severity === 'critical' ? 'high' : issue.severity === 'warning' ? 'medium' : 'low';
+}
+
+function countDuplicateRows(rows: DataRow[]): number {
+  const seen = new Set<string>();
+  let duplicates = 0;
+  for (const row of rows) {
+    const key = hashRow(row);
+    if (seen.has(key)) duplicates++;
+    else seen.add(key);
+  }
+  return duplicates;
+}
+
+export function detectQualityIssues(rows: DataRow[], profiles: ColumnProfile[], readiness: BIReadinessReport): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+
+  for (const profile of profiles) {
+    for (const issue of profile.issues) {
+      const type = ISSUE_TYPES[issue.type];
+      if (!type || issue.count === 0) continue;
+      issues.push({
+        id: `${issue.type}:${profile.name}`,
+        column: profile.name,
+        type,
+        severity: issueSeverity(issue, rows.length),
+        count: issue.count,
+        message: issue.description,
+      });
+    }
+  }
+
+  const duplicates = countDuplicateRows(rows);
+  if (duplicates > 0) {
+    issues.push({
+      id: 'duplicate:rows',
+      type: 'duplicate',
+      severity: duplicates / rows.length > 0.05 ? 'medium' : 'low',
+      count: duplicates,
+      message: `${duplicates} duplicate row${duplicates === 1 ? '' : 's'}`,
+    });
+  }
+
+  for (const ghost of readiness.ghostData) {
+    issues.push({
+      id: `ghost:${ghost.column}`,
+      column: ghost.column,
+      type: 'format',
+      severity: ghost.hiddenChars > 0 ? 'medium' : 'low',
+      count: ghost.totalAffected,
+      message: `${ghost.totalAffected} values with stray whitespace or hidden characters`,
+    });
+  }
+
+  const byRule = new Map<string, { columns: string[]; count: number; example: string }>();
+  for (const v of readiness.domainViolations) {
+    const key = `${v.rule}:${v.columns.join(',')}`;
+    const entry = byRule.get(key) ?? { columns: v.columns, count: 0, example: v.description };
+    entry.count++;
+    byRule.set(key, entry);
+  }
+  for (const [key, entry] of byRule) {
+    issues.push({
+      id: `domain:${key}`,
+      column: entry.columns[0],
+      type: 'invalid',
+      severity: entry.count / rows.length > 0.05 ? 'high' : 'medium',
+      count: entry.count,
+      message: `${entry.count} rule violation${entry.count === 1 ? '' : 's'}, e.g. ${entry.example}`,
+    });
+  }
+
+  const rank: Record<QualityIssue['severity'], number> = { critical: 0, high: 1, medium: 2, low: 3 };
+  return issues.sort((a, b) => rank[a.severity] - rank[b.severity] || b.count - a.count);
+}
+
+export function assessDataset(rows: DataRow[]): DatasetAssessment {
+  const profiles = profileRows(rows);
+  const readiness = assessBIReadiness(rows);
+  return {
+    schema: profiles.map(p => toColumnSchema(p, rows.length)),
+    issues: detectQualityIssues(rows, profiles, readiness),
+    quality: readiness.overallScore,
+    readiness,
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * File Parser
+ * Turns an uploaded file into plain row objects for the workspace.
+ * CSV/TSV go through PapaParse, Excel through SheetJS (multi-sheet
+ * workbooks are returned unparsed so the caller can pick a sheet),
+ * JSON accepts arrays, `{ data: [...] }` wrappers and NDJSON, and Parquet
+ * goes through our own reader in `./parquet`.
+ */
+
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import type { Dataset } from '@/store/workspace';
+import { readParquet } from './parquet';
+
+type DataRow = Record<string, unknown>;
+
+export type FileFormat = Dataset['format'];
+
+export type ParsedFile =
+  | { kind: 'rows'; format: FileFormat; rows: DataRow[]; warnings: string[] }
+  | { kind: 'workbook'; format: FileFormat; workbook: XLSX.WorkBook; sheetNames: string[] };
+
+const EXTENSIONS: Record<string, FileFormat> = {
+  csv: 'csv',
+  txt: 'csv',
+  tsv: 'tsv',
+  tab: 'tsv',
+  xlsx: 'xlsx',
+  xls: 'xlsx',
+  json: 'json',
+  ndjson: 'json',
+  jsonl: 'json',
+  parquet: 'parquet',
+};
+
+export const ACCEPTED_EXTENSIONS = Object.keys(EXTENSIONS).map(ext => `.${ext}`).join(',');
+
+export function detectFileFormat(fileName: string): FileFormat | null {
+  const ext = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSIONS[ext] ?? null;
+}
+
+export function datasetNameFromFile(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '');
+}
+
+function parseDelimited(file: File, delimiter: string): Promise<{ rows: DataRow[]; warnings: string[] }> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<DataRow>(file, {
+      header: true,
+      skipEmptyLines: true,
+      // Empty string lets PapaParse sniff the delimiter
+      delimiter,
+      transformHeader: header => header.trim(),
+      complete: results => {
+        // Ragged rows are still usable; only give up when nothing parsed
+        if (results.data.length === 0 && results.errors.length > 0) {
+          reject(new Error(`Could not parse file: ${results.errors[0].message}`));
+          return;
+        }
+        const warnings = results.errors.length > 0
+          ? [`${results.errors.length} row(s) had parsing problems (e.g. row ${(results.errors[0].row ?? 0) + 1}: ${results.errors[0].message})`]
+          : [];
+        resolve({ rows: results.data, warnings });
+      },
+      error: err => reject(new Error(`Error reading file: ${err.message}`)),
+    });
+  });
+}
+
+// Nested objects become dot-separated columns; arrays are kept as JSON text
+function flattenRecord(value: unknown, prefix = '', out: DataRow = {}): DataRow {
+  if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+    for (const [key, inner] of Object.entries(value as DataRow)) {
+      flattenRecord(inner, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else {
+    out[prefix || 'value'] = Array.isArray(value) ? JSON.stringify(value) : value;
+  }
+  return out;
+}
+
+export function parseJsonText(text: string): DataRow[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  let records: unknown[];
+  try {
+    const parsed = JSON.parse(trimmed);
+    if (Array.isArray(parsed)) {
+      records = parsed;
+    } else if (parsed && typeof parsed === 'object') {
+      // Common API shape: { data: [...] } or { results: [...] }
+      const arrays = Object.values(parsed).filter(Array.isArray) as unknown[][];
+      records = arrays.length === 1 ? arrays[0] : [parsed];
+    } else {
+      throw new Error('JSON must contain an array of records');
+    }
+  } catch (err) {
+    // Newline-delimited JSON fails as a whole document but parses line by line
+    const lines = trimmed.split(/\r?\n/).filter(line => line.trim());
+    if (lines.length < 2) throw err instanceof Error ? err : new Error(String(err));
+    records = lines.map((line, i) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new Error(`Invalid JSON on line ${i + 1}`);
+      }
+    });
+  }
+
+  return records.map(record => flattenRecord(record));
+}
+
+export async function readWorkbook(file: File): Promise<{ workbook: XLSX.WorkBook; sheetNames: string[] }> {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  return { workbook, sheetNames: workbook.SheetNames };
+}
+
+export function sheetToRows(workbook: XLSX.WorkBook, sheetName: string): DataRow[] {
+  const worksheet = workbook.Sheets[sheetName];
+  if (!worksheet) throw new Error(`Sheet "${sheetName}" not found`);
+  // defval keeps blank cells as explicit nulls so every column shows up in the schema
+  return XLSX.utils.sheet_to_json<DataRow>(worksheet, { defval: null });
+}
+
+export async function parseFile(file: File): Promise<ParsedFile> {
+  const format = detectFileFormat(file.name);
+  if (!format) {
+    throw new Error(`Unsupported file type: ${file.name}. Use CSV, TSV, Excel, JSON or Parquet.`);
+  }
+
+  switch (format) {
+    case 'csv':
+    case 'tsv': {
+      const { rows, warnings } = await parseDelimited(file, format === 'tsv' ? '\t' : '');
+      return { kind: 'rows', format, rows, warnings };
+    }
+    case 'xlsx': {
+      const { workbook, sheetNames } = await readWorkbook(file);
+      if (sheetNames.length > 1) return { kind: 'workbook', format, workbook, sheetNames };
+      return { kind: 'rows', format, rows: sheetToRows(workbook, sheetNames[0]), warnings: [] };
+    }
+    case 'json':
+      return { kind: 'rows', format, rows: parseJsonText(await file.text()), warnings: [] };
+    case 'parquet': {
+      const { rows, warnings } = readParquet(await file.arrayBuffer());
+      return { kind: 'rows', format, rows, warnings };
+    }
+  }
+}
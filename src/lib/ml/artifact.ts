@@ -0,0 +1,64 @@
+/**
+ * Portable model files: a versioned JSON envelope around a ModelArtifact so
+ * trained models can leave the workspace and come back, plus scoring of any
+ * rows that carry the model's feature columns.
+ */
+
+import { encodeRow } from './encoding';
+import { ALGORITHMS, argmax, predictOutput } from './models';
+import type { ModelArtifact } from './train';
+
+type DataRow = Record<string, unknown>;
+
+export const ARTIFACT_FORMAT = 'datatidy-model';
+export const ARTIFACT_VERSION = 1;
+
+export interface ArtifactFile {
+  format: typeof ARTIFACT_FORMAT;
+  version: number;
+  name: string;
+  artifact: ModelArtifact;
+}
+
+export function serializeArtifact(name: string, artifact: ModelArtifact): string {
+  const file: ArtifactFile = { format: ARTIFACT_FORMAT, version: ARTIFACT_VERSION, name, artifact };
+  return JSON.stringify(file);
+}
+
+/**
+ * Parse a model file written by serializeArtifact. Throws with a readable
+ * message when the text is not a model file or comes from a newer version.
+ */
+export function parseArtifact(text: string): { name: string; artifact: ModelArtifact } {
+  let file: Partial<ArtifactFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Model file is not valid JSON');
+  }
+  if (file?.format !== ARTIFACT_FORMAT) throw new Error('Not a DataTidy model file');
+  if (typeof file.version !== 'number' || file.version > ARTIFACT_VERSION) {
+    throw new Error(`Model file version ${file.version} is not supported; update DataTidy to load it`);
+  }
+  const a = file.artifact;
+  if (!a || !ALGORITHMS[a.algorithm] || !a.model || !a.encoding?.features || !Array.isArray(a.features)) {
+    throw new Error('Model file is missing its model or encoding');
+  }
+  if (a.task === 'classification' && !a.classes?.length) throw new Error('Classifier file is missing its class labels');
+  return { name: file.name || ALGORITHMS[a.algorithm].label, artifact: a };
+}
+
+/**
+ * Predict every row: class labels for classifiers, numbers for regressors.
+ * Missing feature values are imputed the same way as during training.
+ */
+export function scoreRows(artifact: ModelArtifact, rows: DataRow[]): (string | number)[] {
+  return rows.map((row) => {
+    const out = predictOutput(artifact.model, encodeRow(artifact.encoding, row));
+    return artifact.task === 'classification' ? artifact.classes[argmax(out)] : out[0];
+  });
+}
+
+export function withPredictionColumn(rows: DataRow[], predictions: (string | number)[], column: string): DataRow[] {
+  return rows.map((row, i) => ({ ...row, [column]: predictions[i] }));
+}
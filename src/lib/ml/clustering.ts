@@ -0,0 +1,380 @@
+/**
+ * Unsupervised clustering for ML Studio: k-means with k-means++ seeding,
+ * elbow/silhouette analysis for choosing k, and DBSCAN. Features are
+ * standardized numerics so no single unit dominates the distances.
+ */
+
+import type { ColumnSchema } from '@/store/workspace';
+import { encodeRows, fitEncoding, type EncodingSpec } from './encoding';
+import { pca2d } from './pca';
+import { createRng, range, shuffleInPlace, type Rng } from './random';
+
+type DataRow = Record<string, unknown>;
+
+export type ClusterAlgorithm = 'kmeans' | 'dbscan';
+
+// DBSCAN label for points that belong to no cluster
+export const NOISE = -1;
+
+// Pairwise work grows quadratically, so larger inputs are sampled
+const MAX_DBSCAN_ROWS = 4000;
+const MAX_SILHOUETTE_ROWS = 1000;
+const MAX_ELBOW_ROWS = 5000;
+const MAX_PROJECTED_POINTS = 2000;
+
+function sqDist(a: number[], b: number[]): number {
+  let s = 0;
+  for (let j = 0; j < a.length; j++) s += (a[j] - b[j]) ** 2;
+  return s;
+}
+
+function sampleIndices(n: number, max: number, rng: Rng): number[] {
+  return n <= max ? range(n) : shuffleInPlace(range(n), rng).slice(0, max);
+}
+
+// ─── K-Means ────────────────────────────────────────────────────────────────
+
+export interface KMeansResult {
+  labels: number[];
+  centroids: number[][];
+  // Sum of squared distances to the assigned centroid
+  inertia: number;
+  iterations: number;
+}
+
+// k-means++: each new centroid is drawn proportionally to squared distance
+export function kMeansPlusPlus(X: number[][], k: number, rng: Rng): number[][] {
+  const centroids = [X[Math.floor(rng() * X.length)].slice()];
+  const dist = X.map((x) => sqDist(x, centroids[0]));
+  while (centroids.length < k) {
+    const total = dist.reduce((a, b) => a + b, 0);
+    let pick = X.length - 1;
+    if (total > 0) {
+      let r = rng() * total;
+      for (let i = 0; i < X.length; i++) {
+        r -= dist[i];
+        if (r <= 0) {
+          pick = i;
+          break;
+        }
+      }
+    } else pick = Math.floor(rng() * X.length);
+    const c = X[pick].slice();
+    centroids.push(c);
+    for (let i = 0; i < X.length; i++) dist[i] = Math.min(dist[i], sqDist(X[i], c));
+  }
+  return centroids;
+}
+
+function lloyd(X: number[][], initial: number[][], maxIterations: number): KMeansResult {
+  const k = initial.length;
+  const d = X[0]?.length ?? 0;
+  let centroids = initial;
+  const labels = new Array(X.length).fill(0);
+  let iterations = 0;
+  for (; iterations < maxIterations; iterations++) {
+    let moved = false;
+    for (let i = 0; i < X.length; i++) {
+      let best = 0;
+      let bestDist = Infinity;
+      for (let c = 0; c < k; c++) {
+        const dd = sqDist(X[i], centroids[c]);
+        if (dd < bestDist) {
+          bestDist = dd;
+          best = c;
+        }
+      }
+      if (labels[i] !== best) moved = true;
+      labels[i] = best;
+    }
+    if (!moved && iterations > 0) break;
+    const sums = Array.from({ length: k }, () => new Array(d).fill(0));
+    const counts = new Array(k).fill(0);
+    for (let i = 0; i < X.length; i++) {
+      counts[labels[i]]++;
+      for (let j = 0; j < d; j++) sums[labels[i]][j] += X[i][j];
+    }
+    // Empty clusters keep their previous centroid rather than collapsing to the origin
+    centroids = sums.map((s, c) => (counts[c] > 0 ? s.map((v) => v / counts[c]) : centroids[c]));
+  }
+  const inertia = X.reduce((s, x, i) => s + sqDist(x, centroids[labels[i]]), 0);
+  return { labels, centroids, inertia, iterations };
+}
+
+/**
+ * Best of `restarts` k-means++ initialisations by inertia.
+ */
+export function kMeans(
+  X: number[][], k: number, { seed = 42, restarts = 3, maxIterations = 100 } = {},
+): KMeansResult {
+  if (X.length < k) throw new Error(`k-means needs at least ${k} rows, found ${X.length}`);
+  const rng = createRng(seed);
+  let best: KMeansResult | null = null;
+  for (let r = 0; r < restarts; r++) {
+    const result = lloyd(X, kMeansPlusPlus(X, k, rng), maxIterations);
+    if (!best || result.inertia < best.inertia) best = result;
+  }
+  return best;
+}
+
+// ─── Silhouette & Elbow ─────────────────────────────────────────────────────
+
+/**
+ * Mean silhouette over a sample of clustered (non-noise) points, in [-1, 1].
+ */
+export function silhouetteScore(X: number[][], labels: number[], seed = 42): number {
+  const candidates = range(X.length).filter((i) => labels[i] !== NOISE);
+  const rng = createRng(seed);
+  const idx = candidates.length <= MAX_SILHOUETTE_ROWS
+    ? candidates
+    : shuffleInPlace(candidates, rng).slice(0, MAX_SILHOUETTE_ROWS);
+  if (new Set(idx.map((i) => labels[i])).size < 2) return 0;
+
+  let total = 0;
+  for (const i of idx) {
+    const sums = new Map<number, { sum: number; n: number }>();
+    for (const j of idx) {
+      if (i === j) continue;
+      const entry = sums.get(labels[j]) ?? { sum: 0, n: 0 };
+      entry.sum += Math.sqrt(sqDist(X[i], X[j]));
+      entry.n++;
+      sums.set(labels[j], entry);
+    }
+    const own = sums.get(labels[i]);
+    if (!own) continue; // singleton clusters score 0
+    const a = own.sum / own.n;
+    let b = Infinity;
+    for (const [label, { sum, n }] of sums) if (label !== labels[i]) b = Math.min(b, sum / n);
+    total += b === Infinity ? 0 : (b - a) / Math.max(a, b);
+  }
+  return total / idx.length;
+}
+
+export interface ElbowPoint {
+  k: number;
+  inertia: number;
+  silhouette: number;
+}
+
+export function elbowAnalysis(X: number[][], { minK = 2, maxK = 8, seed = 42 } = {}): ElbowPoint[] {
+  const sample = sampleIndices(X.length, MAX_ELBOW_ROWS, createRng(seed)).map((i) => X[i]);
+  const points: ElbowPoint[] = [];
+  for (let k = minK; k <= Math.min(maxK, sample.length - 1); k++) {
+    const { labels, inertia } = kMeans(sample, k, { seed, restarts: 1 });
+    points.push({ k, inertia, silhouette: silhouetteScore(sample, labels, seed) });
+  }
+  return points;
+}
+
+// ─── DBSCAN ─────────────────────────────────────────────────────────────────
+
+export interface DbscanResult {
+  labels: number[];
+  clusterCount: number;
+  noiseCount: number;
+}
+
+function exactDbscan(X: number[][], eps: number, minPoints: number): { labels: number[]; core: boolean[] } {
+  const n = X.length;
+  const eps2 = eps * eps;
+  const neighbors: number[][] = X.map(() => []);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (sqDist(X[i], X[j]) <= eps2) {
+        neighbors[i].push(j);
+        neighbors[j].push(i);
+      }
+    }
+  }
+  // A point counts itself towards minPoints
+  const core = neighbors.map((nb) => nb.length + 1 >= minPoints);
+  const labels = new Array(n).fill(NOISE);
+  let cluster = 0;
+  for (let i = 0; i < n; i++) {
+    if (labels[i] !== NOISE || !core[i]) continue;
+    labels[i] = cluster;
+    const queue = [i];
+    while (queue.length > 0) {
+      const p = queue.pop();
+      if (!core[p]) continue;
+      for (const q of neighbors[p]) {
+        if (labels[q] === NOISE) {
+          labels[q] = cluster;
+          queue.push(q);
+        }
+      }
+    }
+    cluster++;
+  }
+  return { labels, core };
+}
+
+/**
+ * DBSCAN over standardized rows. Above MAX_DBSCAN_ROWS the clusters are
+ * found on a sample and every other row joins the cluster of its nearest
+ * core point within eps, or is noise.
+ */
+export function dbscan(X: number[][], { eps, minPoints, seed = 42 }: { eps: number; minPoints: number; seed?: number }): DbscanResult {
+  const sample = sampleIndices(X.length, MAX_DBSCAN_ROWS, createRng(seed));
+  const fitted = exactDbscan(sample.map((i) => X[i]), eps, minPoints);
+  let labels: number[];
+  if (sample.length === X.length) {
+    labels = fitted.labels;
+  } else {
+    labels = new Array(X.length).fill(NOISE);
+    const cores = sample.map((row, s) => ({ row, s })).filter(({ s }) => fitted.core[s]);
+    sample.forEach((row, s) => (labels[row] = fitted.labels[s]));
+    const inSample = new Set(sample);
+    const eps2 = eps * eps;
+    for (let i = 0; i < X.length; i++) {
+      if (inSample.has(i)) continue;
+      let bestDist = eps2;
+      for (const { row, s } of cores) {
+        const dd = sqDist(X[i], X[row]);
+        if (dd <= bestDist) {
+          bestDist = dd;
+          labels[i] = fitted.labels[s];
+        }
+      }
+    }
+  }
+  return {
+    labels,
+    clusterCount: new Set(labels.filter((l) => l !== NOISE)).size,
+    noiseCount: labels.filter((l) => l === NOISE).length,
+  };
+}
+
+/**
+ * Suggests eps from the knee of the sorted k-distance curve: the point
+ * farthest from the chord between its first and last values.
+ */
+export function suggestEps(X: number[][], minPoints: number, seed = 42): number {
+  const idx = sampleIndices(X.length, MAX_SILHOUETTE_ROWS, createRng(seed));
+  const kth = Math.max(1, minPoints - 1);
+  const dists = idx
+    .map((i) => {
+      const d = idx.filter((j) => j !== i).map((j) => sqDist(X[i], X[j])).sort((a, b) => a - b);
+      return Math.sqrt(d[Math.min(kth, d.length) - 1] ?? 0);
+    })
+    .sort((a, b) => a - b);
+  if (dists.length < 3) return dists[dists.length - 1] || 0.5;
+  const first = dists[0];
+  const last = dists[dists.length - 1];
+  let knee = dists.length - 1;
+  let bestGap = -Infinity;
+  dists.forEach((d, i) => {
+    const chord = first + ((last - first) * i) / (dists.length - 1);
+    if (chord - d > bestGap) {
+      bestGap = chord - d;
+      knee = i;
+    }
+  });
+  return Number((dists[knee] || 0.5).toFixed(3));
+}
+
+// ─── Workflow ───────────────────────────────────────────────────────────────
+
+export interface ClusterOptions {
+  rows: DataRow[];
+  features: string[];
+  schema: ColumnSchema[];
+  algorithm: ClusterAlgorithm;
+  k?: number;
+  eps?: number;
+  minPoints?: number;
+  seed?: number;
+}
+
+export interface ClusterProfile {
+  label: number;
+  size: number;
+  // Feature means in original units
+  means: Record<string, number>;
+}
+
+export interface ClusteringResult {
+  algorithm: ClusterAlgorithm;
+  features: string[];
+  encoding: EncodingSpec;
+  // One label per input row; NOISE for DBSCAN outliers
+  labels: number[];
+  clusterCount: number;
+  noiseCount: number;
+  silhouette: number;
+  inertia?: number;
+  profiles: ClusterProfile[];
+  // Sampled 2D PCA projection for plotting
+  projection: { x: number; y: number; cluster: number }[];
+  explained: [number, number];
+  durationMs: number;
+}
+
+export function clusterLabel(label: number): string {
+  return label === NOISE ? 'noise' : `cluster_${label + 1}`;
+}
+
+export function standardizeFeatures(rows: DataRow[], features: string[], schema: ColumnSchema[]): { X: number[][]; encoding: EncodingSpec } {
+  const types = new Map(schema.map((c) => [c.name, c.type]));
+  const nonNumeric = features.filter((f) => types.get(f) !== 'numeric');
+  if (nonNumeric.length > 0) throw new Error(`Clustering uses numeric features only: ${nonNumeric.join(', ')}`);
+  if (features.length === 0) throw new Error('Select at least one numeric feature');
+  const encoding = fitEncoding(rows, features, schema);
+  return { X: encodeRows(encoding, rows), encoding };
+}
+
+export function clusterRows(options: ClusterOptions): ClusteringResult {
+  const started = performance.now();
+  const { rows, features, schema, algorithm, k = 3, minPoints = 5, seed = 42 } = options;
+  const { X, encoding } = standardizeFeatures(rows, features, schema);
+
+  let labels: number[];
+  let inertia: number | undefined;
+  if (algorithm === 'kmeans') {
+    const result = kMeans(X, k, { seed });
+    labels = result.labels;
+    inertia = result.inertia;
+  } else {
+    const eps = options.eps ?? suggestEps(X, minPoints, seed);
+    labels = dbscan(X, { eps, minPoints, seed }).labels;
+  }
+
+  const groups = new Map<number, number[]>();
+  labels.forEach((l, i) => {
+    if (!groups.has(l)) groups.set(l, []);
+    groups.get(l).push(i);
+  });
+  const profiles = [...groups.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([label, idx]) => ({
+      label,
+      size: idx.length,
+      means: Object.fromEntries(encoding.features.map((f, j) => {
+        const mean = idx.reduce((s, i) => s + X[i][j], 0) / idx.length;
+        return [f.name, f.kind === 'numeric' ? mean * f.std + f.mean : mean];
+      })),
+    }));
+
+  const shown = sampleIndices(X.length, MAX_PROJECTED_POINTS, createRng(seed));
+  const { points, explained } = pca2d(shown.map((i) => X[i]));
+
+  return {
+    algorithm,
+    features,
+    encoding,
+    labels,
+    clusterCount: profiles.filter((p) => p.label !== NOISE).length,
+    noiseCount: groups.get(NOISE)?.length ?? 0,
+    silhouette: silhouetteScore(X, labels, seed),
+    inertia,
+    profiles,
+    projection: points.map(([x, y], s) => ({ x, y, cluster: labels[shown[s]] })),
+    explained,
+    durationMs: performance.now() - started,
+  };
+}
+
+// Appends the cluster label column, leaving the input rows untouched
+export function withClusterColumn(rows: DataRow[], labels: number[], column: string): DataRow[] {
+  return rows.map((row, i) => ({ ...row, [column]: clusterLabel(labels[i]) }));
+}
@@ -0,0 +1,79 @@
+/**
+ * Classifier diagnostics: confusion matrices and one-vs-rest ROC and
+ * precision-recall curves from held-out probabilities.
+ */
+
+// counts[actual][predicted]
+export function confusionMatrix(actual: number[], predicted: number[], classCount: number): number[][] {
+  const counts = Array.from({ length: classCount }, () => new Array(classCount).fill(0));
+  actual.forEach((a, i) => counts[a][predicted[i]]++);
+  return counts;
+}
+
+export interface RocPoint {
+  fpr: number;
+  tpr: number;
+  threshold: number;
+}
+
+export interface PrPoint {
+  recall: number;
+  precision: number;
+  threshold: number;
+}
+
+const MAX_CURVE_POINTS = 200;
+
+// Cumulative true/false positives at each distinct score, highest first
+function sweep(actual: number[], scores: number[], positive: number) {
+  const order = scores.map((s, i) => i).sort((a, b) => scores[b] - scores[a]);
+  const positives = actual.filter((a) => a === positive).length;
+  const steps: { tp: number; fp: number; threshold: number }[] = [];
+  let tp = 0;
+  let fp = 0;
+  order.forEach((i, pos) => {
+    if (actual[i] === positive) tp++;
+    else fp++;
+    const next = order[pos + 1];
+    if (next === undefined || scores[next] !== scores[i]) steps.push({ tp, fp, threshold: scores[i] });
+  });
+  return { steps, positives, negatives: actual.length - positives };
+}
+
+function thin<T>(points: T[]): T[] {
+  if (points.length <= MAX_CURVE_POINTS) return points;
+  const stride = (points.length - 1) / (MAX_CURVE_POINTS - 1);
+  return Array.from({ length: MAX_CURVE_POINTS }, (_, i) => points[Math.round(i * stride)]);
+}
+
+export function rocCurve(actual: number[], scores: number[], positive: number): { points: RocPoint[]; auc: number } {
+  const { steps, positives, negatives } = sweep(actual, scores, positive);
+  const points: RocPoint[] = [{ fpr: 0, tpr: 0, threshold: Infinity }];
+  for (const s of steps) {
+    points.push({ fpr: negatives > 0 ? s.fp / negatives : 0, tpr: positives > 0 ? s.tp / positives : 0, threshold: s.threshold });
+  }
+  let auc = 0;
+  for (let i = 1; i < points.length; i++) {
+    auc += (points[i].fpr - points[i - 1].fpr) * (points[i].tpr + points[i - 1].tpr) / 2;
+  }
+  return { points: thin(points), auc };
+}
+
+export function precisionRecallCurve(
+  actual: number[], scores: number[], positive: number,
+): { points: PrPoint[]; averagePrecision: number } {
+  const { steps, positives } = sweep(actual, scores, positive);
+  const points: PrPoint[] = steps.map((s) => ({
+    recall: positives > 0 ? s.tp / positives : 0,
+    precision: s.tp / (s.tp + s.fp),
+    threshold: s.threshold,
+  }));
+  // Step-wise area: precision at each threshold weighted by the recall it adds
+  let averagePrecision = 0;
+  let prevRecall = 0;
+  for (const p of points) {
+    averagePrecision += (p.recall - prevRecall) * p.precision;
+    prevRecall = p.recall;
+  }
+  return { points: thin(points), averagePrecision };
+}
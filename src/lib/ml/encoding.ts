@@ -0,0 +1,133 @@
+/**
+ * Feature encoding for ML Studio.
+ * Fits a JSON-serializable spec on training rows — standardized numerics and
+ * dates, 0/1 booleans, one-hot categoricals over their most frequent levels —
+ * and applies the same spec to any rows later, including other datasets.
+ */
+
+import type { ColumnSchema } from '@/store/workspace';
+import { parseMultiFormatDate } from '../dataAnalyzer';
+import { parseBoolean } from '../dataCleaner';
+
+type DataRow = Record<string, unknown>;
+
+export type FeatureKind = 'numeric' | 'categorical' | 'boolean' | 'date';
+
+export interface NumericFeatureSpec {
+  name: string;
+  kind: 'numeric' | 'date';
+  // Missing values are imputed with the training mean before scaling
+  mean: number;
+  std: number;
+}
+
+export interface CategoricalFeatureSpec {
+  name: string;
+  kind: 'categorical';
+  // One output column per level; unseen values encode as all zeros
+  levels: string[];
+}
+
+export interface BooleanFeatureSpec {
+  name: string;
+  kind: 'boolean';
+  fill: number;
+}
+
+export type FeatureSpec = NumericFeatureSpec | CategoricalFeatureSpec | BooleanFeatureSpec;
+
+export interface EncodingSpec {
+  features: FeatureSpec[];
+  // Encoded column names, in matrix order
+  columns: string[];
+  // Encoded column ranges per source feature, for grouped permutation importance
+  groups: { feature: string; start: number; end: number }[];
+}
+
+const MAX_LEVELS = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function parseNumber(value: unknown): number {
+  if (value === null || value === undefined || value === '') return NaN;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return Number(String(value).replace(/,/g, ''));
+}
+
+function parseDay(value: unknown): number {
+  const { date } = parseMultiFormatDate(value);
+  return date ? date.getTime() / DAY_MS : NaN;
+}
+
+function featureKind(type: ColumnSchema['type'] | undefined): FeatureKind {
+  if (type === 'numeric' || type === 'boolean' || type === 'date') return type;
+  return 'categorical';
+}
+
+function meanStd(values: number[]): { mean: number; std: number } {
+  const finite = values.filter(Number.isFinite);
+  if (finite.length === 0) return { mean: 0, std: 1 };
+  const mean = finite.reduce((a, b) => a + b, 0) / finite.length;
+  const variance = finite.reduce((a, v) => a + (v - mean) ** 2, 0) / finite.length;
+  return { mean, std: Math.sqrt(variance) || 1 };
+}
+
+export function fitEncoding(rows: DataRow[], features: string[], schema: ColumnSchema[]): EncodingSpec {
+  const types = new Map(schema.map((c) => [c.name, c.type]));
+  const specs: FeatureSpec[] = features.map((name) => {
+    const kind = featureKind(types.get(name));
+    if (kind === 'numeric' || kind === 'date') {
+      const parse = kind === 'date' ? parseDay : parseNumber;
+      return { name, kind, ...meanStd(rows.map((r) => parse(r[name]))) };
+    }
+    if (kind === 'boolean') {
+      const values = rows.map((r) => parseBoolean(r[name])).filter((v) => v !== null);
+      const share = values.length > 0 ? values.filter(Boolean).length / values.length : 0;
+      return { name, kind, fill: share >= 0.5 ? 1 : 0 };
+    }
+    const counts = new Map<string, number>();
+    for (const r of rows) {
+      const v = r[name];
+      if (v === null || v === undefined || v === '') continue;
+      const key = String(v);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    const levels = [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, MAX_LEVELS)
+      .map(([level]) => level);
+    return { name, kind, levels };
+  });
+
+  const columns: string[] = [];
+  const groups: EncodingSpec['groups'] = [];
+  for (const spec of specs) {
+    const start = columns.length;
+    if (spec.kind === 'categorical') spec.levels.forEach((level) => columns.push(`${spec.name}=${level}`));
+    else columns.push(spec.name);
+    groups.push({ feature: spec.name, start, end: columns.length });
+  }
+  return { features: specs, columns, groups };
+}
+
+export function encodeRow(spec: EncodingSpec, row: DataRow): number[] {
+  const out: number[] = [];
+  for (const f of spec.features) {
+    const value = row[f.name];
+    if (f.kind === 'categorical') {
+      const key = value === null || value === undefined ? '' : String(value);
+      f.levels.forEach((level) => out.push(level === key ? 1 : 0));
+    } else if (f.kind === 'boolean') {
+      const b = parseBoolean(value);
+      out.push(b === null ? f.fill : b ? 1 : 0);
+    } else {
+      const n = f.kind === 'date' ? parseDay(value) : parseNumber(value);
+      out.push(Number.isFinite(n) ? (n - f.mean) / f.std : 0);
+    }
+  }
+  return out;
+}
+
+export function encodeRows(spec: EncodingSpec, rows: DataRow[]): number[][] {
+  return rows.map((row) => encodeRow(spec, row));
+}
@@ -0,0 +1,427 @@
+/**
+ * Time-series forecasting for ML Studio.
+ * Detects the date and value columns, resamples rows into a regular series,
+ * then fits additive Holt-Winters exponential smoothing alongside a
+ * seasonal-naive baseline, both with prediction intervals and a hold-out
+ * backtest so the two can be compared honestly.
+ */
+
+import type { ColumnSchema } from '@/store/workspace';
+import type { DateInfo } from '../dataTypes';
+import { analyzeDate, detectTimeSeriesColumn, parseMultiFormatDate } from '../dataAnalyzer';
+import { extent } from '../dataCleaner';
+import { parseNumber } from './encoding';
+
+type DataRow = Record<string, unknown>;
+
+export type Frequency = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export type SeriesAggregation = 'sum' | 'mean' | 'count';
+
+export const FREQUENCIES: Record<Frequency, { label: string; seasonLength: number }> = {
+  day: { label: 'Daily', seasonLength: 7 },
+  week: { label: 'Weekly', seasonLength: 52 },
+  month: { label: 'Monthly', seasonLength: 12 },
+  quarter: { label: 'Quarterly', seasonLength: 4 },
+  year: { label: 'Yearly', seasonLength: 1 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_PERIODS = 4;
+// A column must parse as dates this often to be treated as the time axis
+const MIN_DATE_SHARE = 0.9;
+
+// ─── Detection ──────────────────────────────────────────────────────────────
+
+export interface DateColumnCandidate {
+  column: string;
+  info: DateInfo;
+}
+
+/**
+ * Date columns ranked by how many values parse; schema date columns first,
+ * then any non-numeric column whose values are almost all dates.
+ */
+export function detectDateColumns(rows: DataRow[], schema: ColumnSchema[]): DateColumnCandidate[] {
+  return schema
+    .filter((c) => c.type !== 'numeric' && c.type !== 'boolean')
+    .map((c) => {
+      const values = rows.map((r) => r[c.name]).filter((v) => v !== null && v !== undefined && v !== '');
+      const info = analyzeDate(values);
+      const share = values.length > 0 ? info.validDates.length / values.length : 0;
+      return { column: c.name, info, share, typed: c.type === 'date' };
+    })
+    .filter((c) => c.info.validDates.length > 0 && (c.typed || c.share >= MIN_DATE_SHARE))
+    .sort((a, b) => Number(b.typed) - Number(a.typed) || b.info.validDates.length - a.info.validDates.length)
+    .map(({ column, info }) => ({ column, info }));
+}
+
+// Numeric columns that look like measurements over time; columns whose name alone suggests it come first
+export function detectValueColumns(rows: DataRow[], schema: ColumnSchema[], dateColumns: string[]): string[] {
+  return schema
+    .filter((c) => c.type === 'numeric' && !dateColumns.includes(c.name))
+    .map((c) => {
+      const values = rows.map((r) => r[c.name]);
+      return {
+        name: c.name,
+        detected: detectTimeSeriesColumn(c.name, values, dateColumns),
+        byName: detectTimeSeriesColumn(c.name, values, []),
+      };
+    })
+    .filter((c) => c.detected)
+    .sort((a, b) => Number(b.byName) - Number(a.byName))
+    .map((c) => c.name);
+}
+
+export function suggestFrequency(info: DateInfo): Frequency {
+  const spanDays = (info.maxDate.getTime() - info.minDate.getTime()) / DAY_MS;
+  if (spanDays < 60) return 'day';
+  if (spanDays < 300) return 'week';
+  if (spanDays < 365 * 20) return 'month';
+  return 'year';
+}
+
+// ─── Resampling ─────────────────────────────────────────────────────────────
+
+/**
+ * Calendar parts of a parsed date. ISO date-only strings parse as UTC
+ * midnight while other formats parse as local time, so use whichever
+ * reading lands exactly on midnight.
+ */
+function calendarParts(date: Date): { y: number; m: number; d: number } {
+  const utcMidnight = date.getUTCHours() === 0 && date.getUTCMinutes() === 0 && date.getUTCSeconds() === 0;
+  return utcMidnight
+    ? { y: date.getUTCFullYear(), m: date.getUTCMonth(), d: date.getUTCDate() }
+    : { y: date.getFullYear(), m: date.getMonth(), d: date.getDate() };
+}
+
+// Integer period index; consecutive periods differ by one
+export function periodIndex(date: Date, frequency: Frequency): number {
+  const { y, m, d } = calendarParts(date);
+  const day = Math.floor(Date.UTC(y, m, d) / DAY_MS);
+  switch (frequency) {
+    case 'day': return day;
+    // 1970-01-01 was a Thursday; shift so weeks start on Monday
+    case 'week': return Math.floor((day + 3) / 7);
+    case 'month': return y * 12 + m;
+    case 'quarter': return y * 4 + Math.floor(m / 3);
+    case 'year': return y;
+  }
+}
+
+export function periodLabel(period: number, frequency: Frequency): string {
+  const iso = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+  switch (frequency) {
+    case 'day': return iso(period * DAY_MS);
+    case 'week': return iso((period * 7 - 3) * DAY_MS);
+    case 'month': return `${Math.floor(period / 12)}-${String((period % 12) + 1).padStart(2, '0')}`;
+    case 'quarter': return `${Math.floor(period / 4)}-Q${(period % 4) + 1}`;
+    case 'year': return String(period);
+  }
+}
+
+export interface TimeSeries {
+  dateColumn: string;
+  valueColumn: string | null;
+  frequency: Frequency;
+  aggregation: SeriesAggregation;
+  periods: number[];
+  labels: string[];
+  values: number[];
+  // Periods with no rows, filled with 0 (sum/count) or the previous value (mean)
+  filledPeriods: number;
+}
+
+export function resampleSeries(
+  rows: DataRow[],
+  { dateColumn, valueColumn, frequency, aggregation }: {
+    dateColumn: string; valueColumn: string | null; frequency: Frequency; aggregation: SeriesAggregation;
+  },
+): TimeSeries {
+  const buckets = new Map<number, { sum: number; n: number; rows: number }>();
+  for (const row of rows) {
+    const { date } = parseMultiFormatDate(row[dateColumn]);
+    if (!date) continue;
+    const value = valueColumn ? parseNumber(row[valueColumn]) : NaN;
+    if (aggregation !== 'count' && !Number.isFinite(value)) continue;
+    const p = periodIndex(date, frequency);
+    const bucket = buckets.get(p) ?? { sum: 0, n: 0, rows: 0 };
+    bucket.rows++;
+    if (Number.isFinite(value)) {
+      bucket.sum += value;
+      bucket.n++;
+    }
+    buckets.set(p, bucket);
+  }
+  if (buckets.size === 0) {
+    throw new Error(`No rows have both a date in "${dateColumn}"${valueColumn ? ` and a number in "${valueColumn}"` : ''}`);
+  }
+
+  const { min: first, max: last } = extent(buckets.keys());
+  const periods: number[] = [];
+  const values: number[] = [];
+  let filledPeriods = 0;
+  for (let p = first; p <= last; p++) {
+    const bucket = buckets.get(p);
+    periods.push(p);
+    if (!bucket) {
+      filledPeriods++;
+      values.push(aggregation === 'mean' ? values[values.length - 1] ?? 0 : 0);
+    } else {
+      values.push(aggregation === 'sum' ? bucket.sum : aggregation === 'mean' ? bucket.sum / bucket.n : bucket.rows);
+    }
+  }
+  return {
+    dateColumn,
+    valueColumn,
+    frequency,
+    aggregation,
+    periods,
+    labels: periods.map((p) => periodLabel(p, frequency)),
+    values,
+    filledPeriods,
+  };
+}
+
+// ─── Models ─────────────────────────────────────────────────────────────────
+
+export type ForecastMethod = 'holt_winters' | 'seasonal_naive';
+
+export interface ForecastAccuracy {
+  mae: number;
+  rmse: number;
+  // Mean absolute percentage error over non-zero actuals; null when all are zero
+  mape: number | null;
+}
+
+export interface ForecastFit {
+  method: ForecastMethod;
+  // Human-readable description of the variant actually fitted
+  variant: string;
+  // One-step-ahead in-sample predictions, aligned with the input (NaN where undefined)
+  fitted: number[];
+  forecast: number[];
+  lower80: number[];
+  upper80: number[];
+  lower95: number[];
+  upper95: number[];
+  params?: { alpha: number; beta: number; gamma?: number };
+}
+
+const Z80 = 1.2816;
+const Z95 = 1.96;
+
+function withIntervals(
+  fit: Omit<ForecastFit, 'lower80' | 'upper80' | 'lower95' | 'upper95'>, stdErrors: number[],
+): ForecastFit {
+  return {
+    ...fit,
+    lower80: fit.forecast.map((f, h) => f - Z80 * stdErrors[h]),
+    upper80: fit.forecast.map((f, h) => f + Z80 * stdErrors[h]),
+    lower95: fit.forecast.map((f, h) => f - Z95 * stdErrors[h]),
+    upper95: fit.forecast.map((f, h) => f + Z95 * stdErrors[h]),
+  };
+}
+
+function residualStd(actual: number[], fitted: number[]): number {
+  const errors = actual.map((y, i) => y - fitted[i]).filter(Number.isFinite);
+  if (errors.length === 0) return 0;
+  return Math.sqrt(errors.reduce((s, e) => s + e * e, 0) / errors.length);
+}
+
+/**
+ * Seasonal naive: each future period repeats the value one season earlier.
+ * Falls back to plain naive (last value) with less than a season of data.
+ */
+export function seasonalNaive(values: number[], seasonLength: number, horizon: number): ForecastFit {
+  const m = values.length >= seasonLength && seasonLength > 1 ? seasonLength : 1;
+  const n = values.length;
+  const fitted = values.map((_, t) => (t >= m ? values[t - m] : NaN));
+  const forecast = Array.from({ length: horizon }, (_, h) => values[n - m + (h % m)]);
+  const sigma = residualStd(values, fitted);
+  const stdErrors = Array.from({ length: horizon }, (_, h) => sigma * Math.sqrt(Math.floor(h / m) + 1));
+  return withIntervals(
+    { method: 'seasonal_naive', variant: m > 1 ? `Seasonal naive (period ${m})` : 'Naive (last value)', fitted, forecast },
+    stdErrors,
+  );
+}
+
+interface SmoothingRun {
+  sse: number;
+  fitted: number[];
+  level: number;
+  trend: number;
+  seasonals: number[];
+}
+
+function runSmoothing(values: number[], m: number, alpha: number, beta: number, gamma: number): SmoothingRun {
+  const n = values.length;
+  const seasonal = m > 1;
+  let level: number;
+  let trend: number;
+  let seasonals: number[] = [];
+  let start: number;
+  if (seasonal) {
+    const mean1 = values.slice(0, m).reduce((a, b) => a + b, 0) / m;
+    const mean2 = values.slice(m, 2 * m).reduce((a, b) => a + b, 0) / m;
+    level = mean1;
+    trend = (mean2 - mean1) / m;
+    seasonals = values.slice(0, m).map((v) => v - mean1);
+    start = m;
+  } else {
+    level = values[0];
+    trend = values[1] - values[0];
+    start = 1;
+  }
+  const fitted = new Array(n).fill(NaN);
+  let sse = 0;
+  for (let t = start; t < n; t++) {
+    const s = seasonal ? seasonals[t % m] : 0;
+    const predicted = level + trend + s;
+    fitted[t] = predicted;
+    sse += (values[t] - predicted) ** 2;
+    const prevLevel = level;
+    level = alpha * (values[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * trend;
+    if (seasonal) seasonals[t % m] = gamma * (values[t] - level) + (1 - gamma) * s;
+  }
+  return { sse, fitted, level, trend, seasonals };
+}
+
+const GRID = [0.05, 0.15, 0.25, 0.35, 0.5, 0.65, 0.8, 0.95];
+
+/**
+ * Additive Holt-Winters with smoothing parameters chosen by grid search on
+ * one-step-ahead squared error. With less than two full seasons it fits
+ * Holt's linear trend instead.
+ */
+export function holtWinters(values: number[], seasonLength: number, horizon: number): ForecastFit {
+  const n = values.length;
+  if (n < MIN_PERIODS) throw new Error(`Forecasting needs at least ${MIN_PERIODS} periods, found ${n}`);
+  const m = seasonLength > 1 && n >= 2 * seasonLength ? seasonLength : 1;
+  const gammas = m > 1 ? GRID : [0];
+
+  let best: { run: SmoothingRun; alpha: number; beta: number; gamma: number } | null = null;
+  for (const alpha of GRID) {
+    for (const beta of GRID) {
+      for (const gamma of gammas) {
+        const run = runSmoothing(values, m, alpha, beta, gamma);
+        if (!best || run.sse < best.run.sse) best = { run, alpha, beta, gamma };
+      }
+    }
+  }
+  const { run, alpha, beta, gamma } = best;
+  const forecast = Array.from({ length: horizon }, (_, i) => {
+    const h = i + 1;
+    return run.level + h * run.trend + (m > 1 ? run.seasonals[(n + i) % m] : 0);
+  });
+
+  // Analytic ETS(A,A,A) variance: sigma² (1 + Σ c_j²) with c_j = α(1 + jβ) + γ·[j ≡ 0 mod m]
+  const sigma = residualStd(values, run.fitted);
+  const stdErrors: number[] = [];
+  let acc = 1;
+  for (let h = 1; h <= horizon; h++) {
+    stdErrors.push(sigma * Math.sqrt(acc));
+    const c = alpha * (1 + h * beta) + (m > 1 && h % m === 0 ? gamma : 0);
+    acc += c * c;
+  }
+
+  return withIntervals(
+    {
+      method: 'holt_winters',
+      variant: m > 1 ? `Holt-Winters additive (period ${m})` : "Holt's linear trend (not enough history for seasonality)",
+      fitted: run.fitted,
+      forecast,
+      params: m > 1 ? { alpha, beta, gamma } : { alpha, beta },
+    },
+    stdErrors,
+  );
+}
+
+export function forecastAccuracy(actual: number[], predicted: number[]): ForecastAccuracy {
+  const n = actual.length;
+  let abs = 0;
+  let sq = 0;
+  let pctSum = 0;
+  let pctN = 0;
+  for (let i = 0; i < n; i++) {
+    const e = actual[i] - predicted[i];
+    abs += Math.abs(e);
+    sq += e * e;
+    if (actual[i] !== 0) {
+      pctSum += Math.abs(e / actual[i]);
+      pctN++;
+    }
+  }
+  return {
+    mae: n > 0 ? abs / n : 0,
+    rmse: n > 0 ? Math.sqrt(sq / n) : 0,
+    mape: pctN > 0 ? pctSum / pctN : null,
+  };
+}
+
+// ─── Workflow ───────────────────────────────────────────────────────────────
+
+export interface ForecastResult {
+  series: TimeSeries;
+  horizon: number;
+  seasonLength: number;
+  // Future period labels, one per forecast step
+  futureLabels: string[];
+  models: Record<ForecastMethod, ForecastFit>;
+  // Accuracy when the last `holdout` periods are hidden and forecast; null for short series
+  backtest: { holdout: number; accuracy: Record<ForecastMethod, ForecastAccuracy> } | null;
+}
+
+export function forecastSeries(series: TimeSeries, horizon: number): ForecastResult {
+  const { values, frequency } = series;
+  const seasonLength = FREQUENCIES[frequency].seasonLength;
+  const models = {
+    holt_winters: holtWinters(values, seasonLength, horizon),
+    seasonal_naive: seasonalNaive(values, seasonLength, horizon),
+  };
+
+  // Hold back up to one horizon, but always keep three quarters of the history for fitting
+  const holdout = Math.min(horizon, Math.floor(values.length / 4));
+  let backtest: ForecastResult['backtest'] = null;
+  if (holdout >= 1 && values.length - holdout >= MIN_PERIODS) {
+    const train = values.slice(0, values.length - holdout);
+    const actual = values.slice(values.length - holdout);
+    backtest = {
+      holdout,
+      accuracy: {
+        holt_winters: forecastAccuracy(actual, holtWinters(train, seasonLength, holdout).forecast),
+        seasonal_naive: forecastAccuracy(actual, seasonalNaive(train, seasonLength, holdout).forecast),
+      },
+    };
+  }
+
+  const last = series.periods[series.periods.length - 1];
+  return {
+    series,
+    horizon,
+    seasonLength,
+    futureLabels: Array.from({ length: horizon }, (_, h) => periodLabel(last + h + 1, frequency)),
+    models,
+    backtest,
+  };
+}
+
+// Long-format rows for export: history then forecast with intervals
+export function forecastRows(result: ForecastResult, method: ForecastMethod): DataRow[] {
+  const fit = result.models[method];
+  const history = result.series.labels.map((period, i) => ({
+    period,
+    actual: result.series.values[i],
+    forecast: Number.isFinite(fit.fitted[i]) ? fit.fitted[i] : null,
+    lower_80: null, upper_80: null, lower_95: null, upper_95: null,
+  }));
+  const future = result.futureLabels.map((period, h) => ({
+    period,
+    actual: null,
+    forecast: fit.forecast[h],
+    lower_80: fit.lower80[h], upper_80: fit.upper80[h],
+    lower_95: fit.lower95[h], upper_95: fit.upper95[h],
+  }));
+  return [...history, ...future];
+}
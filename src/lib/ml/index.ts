@@ -0,0 +1,129 @@
+export {
+  ALGORITHMS,
+  algorithmsForTask,
+  fitModel,
+  predictOutput,
+  predictValue,
+  argmax,
+  type Algorithm,
+  type AlgorithmInfo,
+  type MlTask,
+  type ModelParams,
+  type ModelState,
+  type TreeNode,
+  type FitInput,
+} from './models';
+export {
+  fitEncoding,
+  encodeRow,
+  encodeRows,
+  parseNumber,
+  type EncodingSpec,
+  type FeatureSpec,
+  type FeatureKind,
+} from './encoding';
+export {
+  evaluate,
+  primaryScore,
+  classificationMetrics,
+  regressionMetrics,
+  type ModelMetrics,
+  type ClassificationMetrics,
+  type RegressionMetrics,
+} from './metrics';
+export {
+  trainModel,
+  prepareTarget,
+  trainTestSplit,
+  permutationImportance,
+  prepareTrainingData,
+  fitOnSplit,
+  MAX_TRAINING_ROWS,
+  type TrainOptions,
+  type TrainingResult,
+  type ModelArtifact,
+  type FeatureImportance,
+  type TrainingData,
+  type SplitFit,
+} from './train';
+export {
+  clusterRows,
+  kMeans,
+  kMeansPlusPlus,
+  dbscan,
+  suggestEps,
+  silhouetteScore,
+  elbowAnalysis,
+  standardizeFeatures,
+  withClusterColumn,
+  clusterLabel,
+  NOISE,
+  type ClusterAlgorithm,
+  type ClusterOptions,
+  type ClusteringResult,
+  type ClusterProfile,
+  type KMeansResult,
+  type DbscanResult,
+  type ElbowPoint,
+} from './clustering';
+export { pca2d, type Projection } from './pca';
+export {
+  FREQUENCIES,
+  detectDateColumns,
+  detectValueColumns,
+  suggestFrequency,
+  resampleSeries,
+  periodIndex,
+  periodLabel,
+  holtWinters,
+  seasonalNaive,
+  forecastAccuracy,
+  forecastSeries,
+  forecastRows,
+  type Frequency,
+  type SeriesAggregation,
+  type DateColumnCandidate,
+  type TimeSeries,
+  type ForecastMethod,
+  type ForecastFit,
+  type ForecastAccuracy,
+  type ForecastResult,
+} from './forecasting';
+export {
+  crossValidate,
+  kFoldSplits,
+  timeSeriesSplits,
+  type CvStrategy,
+  type Split,
+  type CrossValidationOptions,
+  type CrossValidationResult,
+} from './validation';
+export {
+  PARAM_SPACES,
+  MAX_SEARCH_ROWS,
+  gridCandidates,
+  randomCandidates,
+  searchCandidates,
+  toTrial,
+  rankTrials,
+  type SearchStrategy,
+  type SearchTrial,
+} from './search';
+export {
+  confusionMatrix,
+  rocCurve,
+  precisionRecallCurve,
+  type RocPoint,
+  type PrPoint,
+} from './diagnostics';
+export {
+  ARTIFACT_FORMAT,
+  ARTIFACT_VERSION,
+  serializeArtifact,
+  parseArtifact,
+  scoreRows,
+  withPredictionColumn,
+  type ArtifactFile,
+} from './artifact';
+export { scoringCode, scoringTypeScript, scoringPython, type ScoringLanguage } from './scoringCode';
+export { createRng, shuffleInPlace, type Rng } from './random';
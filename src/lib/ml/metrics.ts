@@ -0,0 +1,85 @@
+/**
+ * Evaluation metrics for classifiers and regressors.
+ */
+
+import type { MlTask } from './models';
+
+export interface ClassificationMetrics {
+  accuracy: number;
+  // Macro-averaged over classes present in either truth or predictions
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface RegressionMetrics {
+  rmse: number;
+  mae: number;
+  r2: number;
+}
+
+export type ModelMetrics = Partial<ClassificationMetrics & RegressionMetrics>;
+
+export function classificationMetrics(actual: number[], predicted: number[]): ClassificationMetrics {
+  const n = actual.length;
+  if (n === 0) return { accuracy: 0, precision: 0, recall: 0, f1: 0 };
+  const classes = new Set([...actual, ...predicted]);
+  let correct = 0;
+  for (let i = 0; i < n; i++) if (actual[i] === predicted[i]) correct++;
+
+  let precision = 0;
+  let recall = 0;
+  let f1 = 0;
+  for (const c of classes) {
+    let tp = 0;
+    let fp = 0;
+    let fn = 0;
+    for (let i = 0; i < n; i++) {
+      if (predicted[i] === c && actual[i] === c) tp++;
+      else if (predicted[i] === c) fp++;
+      else if (actual[i] === c) fn++;
+    }
+    const p = tp + fp > 0 ? tp / (tp + fp) : 0;
+    const r = tp + fn > 0 ? tp / (tp + fn) : 0;
+    precision += p;
+    recall += r;
+    f1 += p + r > 0 ? (2 * p * r) / (p + r) : 0;
+  }
+  return {
+    accuracy: correct / n,
+    precision: precision / classes.size,
+    recall: recall / classes.size,
+    f1: f1 / classes.size,
+  };
+}
+
+export function regressionMetrics(actual: number[], predicted: number[]): RegressionMetrics {
+  const n = actual.length;
+  if (n === 0) return { rmse: 0, mae: 0, r2: 0 };
+  const mean = actual.reduce((a, b) => a + b, 0) / n;
+  let sse = 0;
+  let sae = 0;
+  let sst = 0;
+  for (let i = 0; i < n; i++) {
+    const e = actual[i] - predicted[i];
+    sse += e * e;
+    sae += Math.abs(e);
+    sst += (actual[i] - mean) ** 2;
+  }
+  return {
+    rmse: Math.sqrt(sse / n),
+    mae: sae / n,
+    r2: sst > 0 ? 1 - sse / sst : 0,
+  };
+}
+
+export function evaluate(task: MlTask, actual: number[], predicted: number[]): ModelMetrics {
+  return task === 'classification'
+    ? classificationMetrics(actual, predicted)
+    : regressionMetrics(actual, predicted);
+}
+
+// Higher is better: accuracy for classifiers, R² for regressors
+export function primaryScore(task: MlTask, metrics: ModelMetrics): number {
+  return task === 'classification' ? metrics.accuracy ?? 0 : metrics.r2 ?? 0;
+}
@@ -0,0 +1,418 @@
+/**
+ * Model fitting and prediction for ML Studio.
+ * Every fitted model is plain data (weights, split trees) so it can be
+ * persisted and re-applied without the code that trained it.
+ */
+
+import { createRng, range, type Rng } from './random';
+
+export type MlTask = 'classification' | 'regression';
+
+export type Algorithm =
+  | 'logistic_regression'
+  | 'decision_tree'
+  | 'random_forest'
+  | 'linear_regression'
+  | 'ridge_regression'
+  | 'gradient_boosting';
+
+export type ModelParams = Record<string, number>;
+
+export interface AlgorithmInfo {
+  label: string;
+  task: MlTask;
+  description: string;
+  params: ModelParams;
+}
+
+export const ALGORITHMS: Record<Algorithm, AlgorithmInfo> = {
+  logistic_regression: {
+    label: 'Logistic regression',
+    task: 'classification',
+    description: 'Linear decision boundary with softmax probabilities',
+    params: { learningRate: 0.5, iterations: 300, l2: 0.001 },
+  },
+  decision_tree: {
+    label: 'Decision tree',
+    task: 'classification',
+    description: 'Single CART tree split on Gini impurity',
+    params: { maxDepth: 8, minSamplesLeaf: 2 },
+  },
+  random_forest: {
+    label: 'Random forest',
+    task: 'classification',
+    description: 'Bagged trees on bootstrap samples and random feature subsets',
+    params: { trees: 30, maxDepth: 10, minSamplesLeaf: 2 },
+  },
+  linear_regression: {
+    label: 'Linear regression',
+    task: 'regression',
+    description: 'Ordinary least squares',
+    params: {},
+  },
+  ridge_regression: {
+    label: 'Ridge regression',
+    task: 'regression',
+    description: 'Least squares with an L2 penalty on the weights',
+    params: { alpha: 1 },
+  },
+  gradient_boosting: {
+    label: 'Gradient-boosted trees',
+    task: 'regression',
+    description: 'Shallow regression trees fitted to residuals in sequence',
+    params: { rounds: 60, learningRate: 0.1, maxDepth: 3, minSamplesLeaf: 3, subsample: 0.8 },
+  },
+};
+
+export function algorithmsForTask(task: MlTask): Algorithm[] {
+  return (Object.keys(ALGORITHMS) as Algorithm[]).filter((a) => ALGORITHMS[a].task === task);
+}
+
+// ─── Model State ────────────────────────────────────────────────────────────
+
+export type TreeNode =
+  | { feature: number; threshold: number; left: TreeNode; right: TreeNode }
+  // Class probabilities for classification, a single mean for regression
+  | { value: number[] };
+
+export type ModelState =
+  | { kind: 'linear'; weights: number[]; intercept: number }
+  | { kind: 'logistic'; weights: number[][]; intercepts: number[] }
+  | { kind: 'tree'; root: TreeNode }
+  | { kind: 'forest'; trees: TreeNode[] }
+  | { kind: 'boosting'; base: number; learningRate: number; trees: TreeNode[] };
+
+export interface FitInput {
+  X: number[][];
+  // Class indices for classification, numeric targets for regression
+  y: number[];
+  classCount: number;
+  params: ModelParams;
+  seed: number;
+}
+
+// ─── Linear Models ──────────────────────────────────────────────────────────
+
+// Solves A x = b in place with partial pivoting
+function solveLinearSystem(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(A[r][col]) > Math.abs(A[pivot][col])) pivot = r;
+    [A[col], A[pivot]] = [A[pivot], A[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+    const p = A[col][col];
+    if (Math.abs(p) < 1e-12) continue;
+    for (let r = col + 1; r < n; r++) {
+      const f = A[r][col] / p;
+      if (f === 0) continue;
+      for (let c = col; c < n; c++) A[r][c] -= f * A[col][c];
+      b[r] -= f * b[col];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let s = b[r];
+    for (let c = r + 1; c < n; c++) s -= A[r][c] * x[c];
+    x[r] = Math.abs(A[r][r]) < 1e-12 ? 0 : s / A[r][r];
+  }
+  return x;
+}
+
+function fitLeastSquares(X: number[][], y: number[], alpha: number): ModelState {
+  const d = X[0]?.length ?? 0;
+  const n = d + 1;
+  const A = Array.from({ length: n }, () => new Array(n).fill(0));
+  const b = new Array(n).fill(0);
+  for (let i = 0; i < X.length; i++) {
+    const row = X[i];
+    for (let j = 0; j < d; j++) {
+      const xj = row[j];
+      if (xj === 0) continue;
+      for (let k = j; k < d; k++) A[j][k] += xj * row[k];
+      A[j][d] += xj;
+      b[j] += xj * y[i];
+    }
+    b[d] += y[i];
+  }
+  A[d][d] = X.length;
+  for (let j = 0; j < n; j++) for (let k = 0; k < j; k++) A[j][k] = A[k][j];
+  // The intercept is not penalized; one-hot levels make plain OLS singular, so keep a tiny floor
+  for (let j = 0; j < d; j++) A[j][j] += Math.max(alpha, 1e-6);
+  const w = solveLinearSystem(A, b);
+  return { kind: 'linear', weights: w.slice(0, d), intercept: w[d] };
+}
+
+function fitLogistic(X: number[][], y: number[], classCount: number, params: ModelParams): ModelState {
+  const d = X[0]?.length ?? 0;
+  const n = X.length;
+  const { learningRate, iterations, l2 } = params;
+  const weights = Array.from({ length: classCount }, () => new Array(d).fill(0));
+  const intercepts = new Array(classCount).fill(0);
+  const probs = new Array(classCount).fill(0);
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const gradW = Array.from({ length: classCount }, () => new Array(d).fill(0));
+    const gradB = new Array(classCount).fill(0);
+    for (let i = 0; i < n; i++) {
+      softmaxInto(weights, intercepts, X[i], probs);
+      for (let k = 0; k < classCount; k++) {
+        const err = probs[k] - (y[i] === k ? 1 : 0);
+        gradB[k] += err;
+        const gw = gradW[k];
+        const row = X[i];
+        for (let j = 0; j < d; j++) gw[j] += err * row[j];
+      }
+    }
+    for (let k = 0; k < classCount; k++) {
+      for (let j = 0; j < d; j++) weights[k][j] -= learningRate * (gradW[k][j] / n + l2 * weights[k][j]);
+      intercepts[k] -= learningRate * (gradB[k] / n);
+    }
+  }
+  return { kind: 'logistic', weights, intercepts };
+}
+
+function softmaxInto(weights: number[][], intercepts: number[], x: number[], out: number[]): void {
+  let max = -Infinity;
+  for (let k = 0; k < weights.length; k++) {
+    let z = intercepts[k];
+    const w = weights[k];
+    for (let j = 0; j < x.length; j++) z += w[j] * x[j];
+    out[k] = z;
+    if (z > max) max = z;
+  }
+  let sum = 0;
+  for (let k = 0; k < weights.length; k++) {
+    out[k] = Math.exp(out[k] - max);
+    sum += out[k];
+  }
+  for (let k = 0; k < weights.length; k++) out[k] /= sum;
+}
+
+// ─── Trees ──────────────────────────────────────────────────────────────────
+
+interface TreeOptions {
+  // Zero classes means a regression tree
+  classCount: number;
+  maxDepth: number;
+  minSamplesLeaf: number;
+  // Features considered per split; all of them when undefined
+  maxFeatures?: number;
+  rng: Rng;
+}
+
+function leafValue(y: number[], idx: number[], classCount: number): number[] {
+  if (classCount === 0) {
+    let s = 0;
+    for (const i of idx) s += y[i];
+    return [idx.length > 0 ? s / idx.length : 0];
+  }
+  const counts = new Array(classCount).fill(0);
+  for (const i of idx) counts[y[i]]++;
+  return counts.map((c) => c / Math.max(idx.length, 1));
+}
+
+function impurity(counts: number[], total: number): number {
+  let g = 1;
+  for (const c of counts) g -= (c / total) ** 2;
+  return g * total;
+}
+
+function bestSplit(
+  X: number[][], y: number[], idx: number[], features: number[], opts: TreeOptions,
+): { feature: number; threshold: number; score: number } | null {
+  const n = idx.length;
+  const { classCount, minSamplesLeaf } = opts;
+  let best: { feature: number; threshold: number; score: number } | null = null;
+
+  let parent: number;
+  let totalSum = 0;
+  let totalSq = 0;
+  const totalCounts = new Array(classCount).fill(0);
+  for (const i of idx) {
+    if (classCount === 0) {
+      totalSum += y[i];
+      totalSq += y[i] * y[i];
+    } else totalCounts[y[i]]++;
+  }
+  if (classCount === 0) parent = totalSq - (totalSum * totalSum) / n;
+  else parent = impurity(totalCounts, n);
+  if (parent <= 1e-12) return null;
+
+  for (const f of features) {
+    const sorted = idx.slice().sort((a, b) => X[a][f] - X[b][f]);
+    let leftSum = 0;
+    let leftSq = 0;
+    const leftCounts = new Array(classCount).fill(0);
+    for (let pos = 0; pos < n - 1; pos++) {
+      const i = sorted[pos];
+      if (classCount === 0) {
+        leftSum += y[i];
+        leftSq += y[i] * y[i];
+      } else leftCounts[y[i]]++;
+      const nl = pos + 1;
+      const nr = n - nl;
+      if (nl < minSamplesLeaf || nr < minSamplesLeaf) continue;
+      const a = X[i][f];
+      const b = X[sorted[pos + 1]][f];
+      if (a === b) continue;
+      let score: number;
+      if (classCount === 0) {
+        const rs = totalSum - leftSum;
+        score = (leftSq - (leftSum * leftSum) / nl) + (totalSq - leftSq - (rs * rs) / nr);
+      } else {
+        score = impurity(leftCounts, nl) + impurity(totalCounts.map((c, k) => c - leftCounts[k]), nr);
+      }
+      if (!best || score < best.score) best = { feature: f, threshold: (a + b) / 2, score };
+    }
+  }
+  return best && best.score < parent - 1e-12 ? best : null;
+}
+
+function growTree(X: number[][], y: number[], idx: number[], depth: number, opts: TreeOptions): TreeNode {
+  if (depth >= opts.maxDepth || idx.length < opts.minSamplesLeaf * 2) {
+    return { value: leafValue(y, idx, opts.classCount) };
+  }
+  const d = X[0]?.length ?? 0;
+  let features = range(d);
+  if (opts.maxFeatures && opts.maxFeatures < d) {
+    for (let i = 0; i < opts.maxFeatures; i++) {
+      const j = i + Math.floor(opts.rng() * (d - i));
+      [features[i], features[j]] = [features[j], features[i]];
+    }
+    features = features.slice(0, opts.maxFeatures);
+  }
+  const split = bestSplit(X, y, idx, features, opts);
+  if (!split) return { value: leafValue(y, idx, opts.classCount) };
+  const left: number[] = [];
+  const right: number[] = [];
+  for (const i of idx) (X[i][split.feature] <= split.threshold ? left : right).push(i);
+  return {
+    feature: split.feature,
+    threshold: split.threshold,
+    left: growTree(X, y, left, depth + 1, opts),
+    right: growTree(X, y, right, depth + 1, opts),
+  };
+}
+
+function predictTree(node: TreeNode, x: number[]): number[] {
+  let current = node;
+  while (!('value' in current)) current = x[current.feature] <= current.threshold ? current.left : current.right;
+  return current.value;
+}
+
+function fitForest(X: number[][], y: number[], classCount: number, params: ModelParams, rng: Rng): ModelState {
+  const n = X.length;
+  const d = X[0]?.length ?? 0;
+  const trees: TreeNode[] = [];
+  for (let t = 0; t < params.trees; t++) {
+    const sample = Array.from({ length: n }, () => Math.floor(rng() * n));
+    trees.push(growTree(X, y, sample, 0, {
+      classCount,
+      maxDepth: params.maxDepth,
+      minSamplesLeaf: params.minSamplesLeaf,
+      maxFeatures: Math.max(1, Math.round(Math.sqrt(d))),
+      rng,
+    }));
+  }
+  return { kind: 'forest', trees };
+}
+
+function fitBoosting(X: number[][], y: number[], params: ModelParams, rng: Rng): ModelState {
+  const n = X.length;
+  const base = y.reduce((a, b) => a + b, 0) / Math.max(n, 1);
+  const pred = new Array(n).fill(base);
+  const residual = new Array(n).fill(0);
+  const trees: TreeNode[] = [];
+  const sampleSize = Math.max(1, Math.round(n * params.subsample));
+  for (let round = 0; round < params.rounds; round++) {
+    for (let i = 0; i < n; i++) residual[i] = y[i] - pred[i];
+    const sample = range(n);
+    for (let i = 0; i < sampleSize; i++) {
+      const j = i + Math.floor(rng() * (n - i));
+      [sample[i], sample[j]] = [sample[j], sample[i]];
+    }
+    const tree = growTree(X, residual, sample.slice(0, sampleSize), 0, {
+      classCount: 0,
+      maxDepth: params.maxDepth,
+      minSamplesLeaf: params.minSamplesLeaf,
+      rng,
+    });
+    trees.push(tree);
+    for (let i = 0; i < n; i++) pred[i] += params.learningRate * predictTree(tree, X[i])[0];
+  }
+  return { kind: 'boosting', base, learningRate: params.learningRate, trees };
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+export function fitModel(algorithm: Algorithm, input: FitInput): ModelState {
+  const { X, y, classCount, seed } = input;
+  const params = { ...ALGORITHMS[algorithm].params, ...input.params };
+  const rng = createRng(seed);
+  switch (algorithm) {
+    case 'logistic_regression':
+      return fitLogistic(X, y, classCount, params);
+    case 'decision_tree':
+      return {
+        kind: 'tree',
+        root: growTree(X, y, range(X.length), 0, {
+          classCount, maxDepth: params.maxDepth, minSamplesLeaf: params.minSamplesLeaf, rng,
+        }),
+      };
+    case 'random_forest':
+      return fitForest(X, y, classCount, params, rng);
+    case 'linear_regression':
+      return fitLeastSquares(X, y, 0);
+    case 'ridge_regression':
+      return fitLeastSquares(X, y, params.alpha);
+    case 'gradient_boosting':
+      return fitBoosting(X, y, params, rng);
+  }
+}
+
+/**
+ * Raw model output for one encoded row: class probabilities for
+ * classifiers, a single-element array for regressors.
+ */
+export function predictOutput(model: ModelState, x: number[]): number[] {
+  switch (model.kind) {
+    case 'linear': {
+      let s = model.intercept;
+      for (let j = 0; j < x.length; j++) s += model.weights[j] * x[j];
+      return [s];
+    }
+    case 'logistic': {
+      const out = new Array(model.weights.length).fill(0);
+      softmaxInto(model.weights, model.intercepts, x, out);
+      return out;
+    }
+    case 'tree':
+      return predictTree(model.root, x);
+    case 'forest': {
+      const sum = predictTree(model.trees[0], x).slice();
+      for (let t = 1; t < model.trees.length; t++) {
+        const v = predictTree(model.trees[t], x);
+        for (let k = 0; k < sum.length; k++) sum[k] += v[k];
+      }
+      return sum.map((s) => s / model.trees.length);
+    }
+    case 'boosting': {
+      let s = model.base;
+      for (const tree of model.trees) s += model.learningRate * predictTree(tree, x)[0];
+      return [s];
+    }
+  }
+}
+
+export function argmax(values: number[]): number {
+  let best = 0;
+  for (let k = 1; k < values.length; k++) if (values[k] > values[best]) best = k;
+  return best;
+}
+
+// Class index for classifiers, predicted value for regressors
+export function predictValue(model: ModelState, task: MlTask, x: number[]): number {
+  const out = predictOutput(model, x);
+  return task === 'classification' ? argmax(out) : out[0];
+}
@@ -0,0 +1,58 @@
+/**
+ * Principal component projection for plotting standardized feature matrices.
+ */
+
+export interface Projection {
+  // One [pc1, pc2] pair per input row
+  points: [number, number][];
+  // Share of total variance captured by each component
+  explained: [number, number];
+}
+
+function covariance(X: number[][]): number[][] {
+  const d = X[0]?.length ?? 0;
+  const n = X.length;
+  const means = new Array(d).fill(0);
+  for (const row of X) for (let j = 0; j < d; j++) means[j] += row[j] / n;
+  const cov = Array.from({ length: d }, () => new Array(d).fill(0));
+  for (const row of X) {
+    for (let j = 0; j < d; j++) {
+      const a = row[j] - means[j];
+      for (let k = j; k < d; k++) cov[j][k] += (a * (row[k] - means[k])) / Math.max(n - 1, 1);
+    }
+  }
+  for (let j = 0; j < d; j++) for (let k = 0; k < j; k++) cov[j][k] = cov[k][j];
+  return cov;
+}
+
+// Dominant eigenpair by power iteration
+function powerIteration(M: number[][], iterations = 200): { vector: number[]; value: number } {
+  const d = M.length;
+  // Deterministic, non-degenerate start
+  let v = Array.from({ length: d }, (_, i) => 1 + i / d);
+  let value = 0;
+  for (let iter = 0; iter < iterations; iter++) {
+    const next = M.map((row) => row.reduce((s, m, j) => s + m * v[j], 0));
+    const norm = Math.sqrt(next.reduce((s, x) => s + x * x, 0));
+    if (norm < 1e-12) return { vector: new Array(d).fill(0), value: 0 };
+    v = next.map((x) => x / norm);
+    value = norm;
+  }
+  return { vector: v, value };
+}
+
+export function pca2d(X: number[][]): Projection {
+  const d = X[0]?.length ?? 0;
+  if (d === 0) return { points: X.map(() => [0, 0]), explained: [0, 0] };
+  const cov = covariance(X);
+  const trace = cov.reduce((s, row, j) => s + row[j], 0) || 1;
+  const first = powerIteration(cov);
+  // Deflate so the next power iteration finds the second component
+  const deflated = cov.map((row, j) => row.map((c, k) => c - first.value * first.vector[j] * first.vector[k]));
+  const second = d > 1 ? powerIteration(deflated) : { vector: [0], value: 0 };
+  const project = (row: number[], v: number[]) => row.reduce((s, x, j) => s + x * v[j], 0);
+  return {
+    points: X.map((row) => [project(row, first.vector), project(row, second.vector)]),
+    explained: [first.value / trace, second.value / trace],
+  };
+}
@@ -0,0 +1,392 @@
+/**
+ * Standalone scoring code for trained models.
+ * Emits a self-contained TypeScript module or Python file that embeds the
+ * encoding spec and fitted parameters and reproduces ML Studio's
+ * predictions without DataTidy or any ML library.
+ */
+
+import { ALGORITHMS } from './models';
+import type { ModelArtifact } from './train';
+
+export type ScoringLanguage = 'typescript' | 'python';
+
+// Same tokens as parseBoolean in dataCleaner, so exported code reads booleans identically
+const TRUE_TOKENS = ['true', 'yes', '1', 'y', 't', 'on', 'active', 'enabled'];
+const FALSE_TOKENS = ['false', 'no', '0', 'n', 'f', 'off', 'inactive', 'disabled'];
+
+function header(artifact: ModelArtifact, name: string): string[] {
+  return [
+    `${name}: ${ALGORITHMS[artifact.algorithm].label} predicting "${artifact.target}".`,
+    `Exported from DataTidy on ${new Date().toISOString().slice(0, 10)}.`,
+    `Features: ${artifact.features.join(', ')}.`,
+    'Dates are read like DataTidy reads them: ISO strings, YYYYMMDD, YYYY/MM/DD, MM/DD/YYYY,',
+    'DD-MM-YYYY or native date values, in local time unless they carry a time zone',
+    '(date-only ISO strings are UTC). Missing or unreadable values are imputed the',
+    'same way as during training.',
+  ];
+}
+
+// ─── TypeScript ─────────────────────────────────────────────────────────────
+
+function tsModel(artifact: ModelArtifact): string[] {
+  const { model } = artifact;
+  const json = (v: unknown) => JSON.stringify(v);
+  switch (model.kind) {
+    case 'linear':
+      return [
+        `const WEIGHTS: number[] = ${json(model.weights)};`,
+        `const INTERCEPT = ${model.intercept};`,
+        '',
+        'function output(x: number[]): number[] {',
+        '  return [x.reduce((s, v, j) => s + WEIGHTS[j] * v, INTERCEPT)];',
+        '}',
+      ];
+    case 'logistic':
+      return [
+        `const WEIGHTS: number[][] = ${json(model.weights)};`,
+        `const INTERCEPTS: number[] = ${json(model.intercepts)};`,
+        '',
+        'function output(x: number[]): number[] {',
+        '  const z = WEIGHTS.map((w, k) => x.reduce((s, v, j) => s + w[j] * v, INTERCEPTS[k]));',
+        '  const max = Math.max(...z);',
+        '  const e = z.map((v) => Math.exp(v - max));',
+        '  const sum = e.reduce((a, b) => a + b, 0);',
+        '  return e.map((v) => v / sum);',
+        '}',
+      ];
+    case 'tree':
+      return [
+        `const TREE: Tree = ${json(model.root)};`,
+        '',
+        'function output(x: number[]): number[] {',
+        '  return predictTree(TREE, x);',
+        '}',
+      ];
+    case 'forest':
+      return [
+        `const TREES: Tree[] = ${json(model.trees)};`,
+        '',
+        'function output(x: number[]): number[] {',
+        '  const sum = predictTree(TREES[0], x).map(() => 0);',
+        '  for (const tree of TREES) predictTree(tree, x).forEach((v, k) => (sum[k] += v));',
+        '  return sum.map((s) => s / TREES.length);',
+        '}',
+      ];
+    case 'boosting':
+      return [
+        `const BASE = ${model.base};`,
+        `const LEARNING_RATE = ${model.learningRate};`,
+        `const TREES: Tree[] = ${json(model.trees)};`,
+        '',
+        'function output(x: number[]): number[] {',
+        '  return [TREES.reduce((s, tree) => s + LEARNING_RATE * predictTree(tree, x)[0], BASE)];',
+        '}',
+      ];
+  }
+}
+
+export function scoringTypeScript(artifact: ModelArtifact, name: string): string {
+  const classifier = artifact.task === 'classification';
+  const usesTrees = ['tree', 'forest', 'boosting'].includes(artifact.model.kind);
+  const lines = [
+    '/**',
+    ...header(artifact, name).map((l) => ` * ${l}`),
+    ' */',
+    '',
+    'type Row = Record<string, unknown>;',
+    'type Feature =',
+    "  | { name: string; kind: 'numeric' | 'date'; mean: number; std: number }",
+    "  | { name: string; kind: 'categorical'; levels: string[] }",
+    "  | { name: string; kind: 'boolean'; fill: number };",
+    ...(usesTrees ? ['type Tree = { feature: number; threshold: number; left: Tree; right: Tree } | { value: number[] };'] : []),
+    '',
+    `const FEATURES: Feature[] = ${JSON.stringify(artifact.encoding.features)};`,
+    ...(classifier ? [`export const CLASSES: string[] = ${JSON.stringify(artifact.classes)};`] : []),
+    `const TRUE_TOKENS = ${JSON.stringify(TRUE_TOKENS)};`,
+    `const FALSE_TOKENS = ${JSON.stringify(FALSE_TOKENS)};`,
+    'const DAY_MS = 24 * 60 * 60 * 1000;',
+    '',
+    'function toNumber(v: unknown): number {',
+    "  if (v === null || v === undefined || v === '') return NaN;",
+    "  if (typeof v === 'number') return v;",
+    "  if (typeof v === 'boolean') return v ? 1 : 0;",
+    "  return Number(String(v).replace(/,/g, ''));",
+    '}',
+    '',
+    '// Same formats, in the same order, as parseMultiFormatDate in DataTidy',
+    'function toDay(v: unknown): number {',
+    '  if (!v) return NaN;',
+    '  if (v instanceof Date) return v.getTime() / DAY_MS;',
+    '  const s = String(v).trim();',
+    '  const inRange = (d: Date) => d.getFullYear() > 1900 && d.getFullYear() < 2100;',
+    '  let m = s.match(/^(\\d{4})(\\d{2})(\\d{2})$/);',
+    '  if (m) {',
+    '    const d = new Date(+m[1], +m[2] - 1, +m[3]);',
+    '    if (inRange(d)) return d.getTime() / DAY_MS;',
+    '  }',
+    '  if (/^\\d{4}-\\d{2}-\\d{2}/.test(s)) {',
+    '    const d = new Date(s);',
+    '    if (inRange(d)) return d.getTime() / DAY_MS;',
+    '  }',
+    '  if ((m = s.match(/^(\\d{4})\\/(\\d{2})\\/(\\d{2})$/))) return new Date(+m[1], +m[2] - 1, +m[3]).getTime() / DAY_MS;',
+    '  // Day-first slashes are read month-first and roll over, as they are in DataTidy',
+    '  if ((m = s.match(/^(\\d{1,2})\\/(\\d{1,2})\\/(\\d{4})$/))) return new Date(+m[3], +m[1] - 1, +m[2]).getTime() / DAY_MS;',
+    '  if ((m = s.match(/^(\\d{1,2})-(\\d{1,2})-(\\d{4})$/))) return new Date(+m[3], +m[2] - 1, +m[1]).getTime() / DAY_MS;',
+    '  const d = new Date(s);',
+    '  return inRange(d) ? d.getTime() / DAY_MS : NaN;',
+    '}',
+    '',
+    'function toBoolean(v: unknown): boolean | null {',
+    "  if (v === null || v === undefined || v === '') return null;",
+    '  const s = String(v).toLowerCase().trim();',
+    '  return TRUE_TOKENS.includes(s) ? true : FALSE_TOKENS.includes(s) ? false : null;',
+    '}',
+    '',
+    'export function encode(row: Row): number[] {',
+    '  const out: number[] = [];',
+    '  for (const f of FEATURES) {',
+    '    const v = row[f.name];',
+    "    if (f.kind === 'categorical') {",
+    "      const key = v === null || v === undefined ? '' : String(v);",
+    '      for (const level of f.levels) out.push(level === key ? 1 : 0);',
+    "    } else if (f.kind === 'boolean') {",
+    '      const b = toBoolean(v);',
+    '      out.push(b === null ? f.fill : b ? 1 : 0);',
+    '    } else {',
+    "      const n = f.kind === 'date' ? toDay(v) : toNumber(v);",
+    '      out.push(Number.isFinite(n) ? (n - f.mean) / f.std : 0);',
+    '    }',
+    '  }',
+    '  return out;',
+    '}',
+    '',
+    ...(usesTrees
+      ? [
+          'function predictTree(node: Tree, x: number[]): number[] {',
+          "  while (!('value' in node)) node = x[node.feature] <= node.threshold ? node.left : node.right;",
+          '  return node.value;',
+          '}',
+          '',
+        ]
+      : []),
+    ...tsModel(artifact),
+    '',
+  ];
+  if (classifier) {
+    lines.push(
+      '// Probability per class label',
+      'export function predictProba(row: Row): Record<string, number> {',
+      '  const p = output(encode(row));',
+      '  return Object.fromEntries(CLASSES.map((c, k) => [c, p[k]]));',
+      '}',
+      '',
+      'export function predict(row: Row): string {',
+      '  const p = output(encode(row));',
+      '  let best = 0;',
+      '  for (let k = 1; k < p.length; k++) if (p[k] > p[best]) best = k;',
+      '  return CLASSES[best];',
+      '}',
+    );
+  } else {
+    lines.push('export function predict(row: Row): number {', '  return output(encode(row))[0];', '}');
+  }
+  return lines.join('\n') + '\n';
+}
+
+// ─── Python ─────────────────────────────────────────────────────────────────
+
+function pyModel(artifact: ModelArtifact): string[] {
+  switch (artifact.model.kind) {
+    case 'linear':
+      return [
+        'def _output(x):',
+        '    m = _SPEC["model"]',
+        '    return [m["intercept"] + sum(w * v for w, v in zip(m["weights"], x))]',
+      ];
+    case 'logistic':
+      return [
+        'def _output(x):',
+        '    m = _SPEC["model"]',
+        '    z = [b + sum(w * v for w, v in zip(ws, x)) for ws, b in zip(m["weights"], m["intercepts"])]',
+        '    top = max(z)',
+        '    e = [math.exp(v - top) for v in z]',
+        '    total = sum(e)',
+        '    return [v / total for v in e]',
+      ];
+    case 'tree':
+      return ['def _output(x):', '    return _predict_tree(_SPEC["model"]["root"], x)'];
+    case 'forest':
+      return [
+        'def _output(x):',
+        '    trees = _SPEC["model"]["trees"]',
+        '    outputs = [_predict_tree(t, x) for t in trees]',
+        '    return [sum(col) / len(trees) for col in zip(*outputs)]',
+      ];
+    case 'boosting':
+      return [
+        'def _output(x):',
+        '    m = _SPEC["model"]',
+        '    return [m["base"] + sum(m["learningRate"] * _predict_tree(t, x)[0] for t in m["trees"])]',
+      ];
+  }
+}
+
+export function scoringPython(artifact: ModelArtifact, name: string): string {
+  const classifier = artifact.task === 'classification';
+  const usesTrees = ['tree', 'forest', 'boosting'].includes(artifact.model.kind);
+  const spec = { features: artifact.encoding.features, classes: artifact.classes ?? [], model: artifact.model };
+  const lines = [
+    '"""',
+    ...header(artifact, name),
+    '',
+    'Free-form dates that only JavaScript\'s Date parser reads (e.g. "May 1, 2024")',
+    'are imputed here.',
+    '',
+    'Score a pandas DataFrame with: df.apply(lambda r: predict(r.to_dict()), axis=1)',
+    '"""',
+    '',
+    'import datetime',
+    'import json',
+    'import math',
+    'import re',
+    '',
+    `_SPEC = json.loads(r"""${JSON.stringify(spec)}""")`,
+    `_TRUE = {${TRUE_TOKENS.map((t) => `"${t}"`).join(', ')}}`,
+    `_FALSE = {${FALSE_TOKENS.map((t) => `"${t}"`).join(', ')}}`,
+    '',
+    '',
+    'def _missing(v):',
+    '    return v is None or v == "" or (isinstance(v, float) and math.isnan(v))',
+    '',
+    '',
+    'def _to_number(v):',
+    '    if _missing(v):',
+    '        return math.nan',
+    '    if isinstance(v, bool):',
+    '        return 1.0 if v else 0.0',
+    '    if isinstance(v, (int, float)):',
+    '        return float(v)',
+    '    try:',
+    '        return float(str(v).replace(",", ""))',
+    '    except ValueError:',
+    '        return math.nan',
+    '',
+    '',
+    '# JavaScript new Date(y, m - 1, d): local midnight, with months and days past their range rolling over',
+    'def _local_date(y, m, d):',
+    '    y, m = y + (m - 1) // 12, (m - 1) % 12 + 1',
+    '    return datetime.datetime(y, m, 1) + datetime.timedelta(days=d - 1)',
+    '',
+    '',
+    '# Same formats, in the same order, as parseMultiFormatDate in DataTidy',
+    'def _parse_date(v):',
+    '    if _missing(v) or v is False or (isinstance(v, (int, float)) and v == 0):',
+    '        return None',
+    '    if isinstance(v, datetime.datetime):',
+    '        return v',
+    '    if isinstance(v, datetime.date):',
+    '        return datetime.datetime(v.year, v.month, v.day, tzinfo=datetime.timezone.utc)',
+    '    s = str(v).strip()',
+    '    m = re.fullmatch(r"(\\d{4})(\\d{2})(\\d{2})", s)',
+    '    if m:',
+    '        dt = _local_date(int(m[1]), int(m[2]), int(m[3]))',
+    '        if 1900 < dt.year < 2100:',
+    '            return dt',
+    '    if re.match(r"\\d{4}-\\d{2}-\\d{2}", s):',
+    '        try:',
+    '            dt = datetime.datetime.fromisoformat(s.replace("Z", "+00:00"))',
+    '        except ValueError:',
+    '            dt = None',
+    '        if dt and 1900 < dt.year < 2100:',
+    '            # Date-only ISO strings are UTC in JavaScript; date-times without an offset are local',
+    '            return dt.replace(tzinfo=datetime.timezone.utc) if len(s) == 10 else dt',
+    '    m = re.fullmatch(r"(\\d{4})/(\\d{2})/(\\d{2})", s)',
+    '    if m:',
+    '        return _local_date(int(m[1]), int(m[2]), int(m[3]))',
+    '    # Day-first slashes are read month-first and roll over, as they are in DataTidy',
+    '    m = re.fullmatch(r"(\\d{1,2})/(\\d{1,2})/(\\d{4})", s)',
+    '    if m:',
+    '        return _local_date(int(m[3]), int(m[1]), int(m[2]))',
+    '    m = re.fullmatch(r"(\\d{1,2})-(\\d{1,2})-(\\d{4})", s)',
+    '    if m:',
+    '        return _local_date(int(m[3]), int(m[2]), int(m[1]))',
+    '    return None',
+    '',
+    '',
+    'def _to_day(v):',
+    '    try:',
+    '        dt = _parse_date(v)',
+    '        # Naive date-times are local time, as in JavaScript',
+    '        return math.nan if dt is None else dt.timestamp() / 86400',
+    '    except (ValueError, OverflowError, OSError):',
+    '        return math.nan',
+    '',
+    '',
+    'def _to_bool(v):',
+    '    if _missing(v):',
+    '        return None',
+    '    s = str(v).lower().strip()',
+    '    return True if s in _TRUE else False if s in _FALSE else None',
+    '',
+    '',
+    '# Match JavaScript String(): 3.0 -> "3", True -> "true"',
+    'def _to_key(v):',
+    '    if _missing(v):',
+    '        return ""',
+    '    if isinstance(v, bool):',
+    '        return "true" if v else "false"',
+    '    if isinstance(v, float) and v.is_integer():',
+    '        return str(int(v))',
+    '    return str(v)',
+    '',
+    '',
+    'def encode(row):',
+    '    out = []',
+    '    for f in _SPEC["features"]:',
+    '        v = row.get(f["name"])',
+    '        if f["kind"] == "categorical":',
+    '            key = _to_key(v)',
+    '            out.extend(1.0 if level == key else 0.0 for level in f["levels"])',
+    '        elif f["kind"] == "boolean":',
+    '            b = _to_bool(v)',
+    '            out.append(f["fill"] if b is None else 1.0 if b else 0.0)',
+    '        else:',
+    '            n = _to_day(v) if f["kind"] == "date" else _to_number(v)',
+    '            out.append((n - f["mean"]) / f["std"] if math.isfinite(n) else 0.0)',
+    '    return out',
+    '',
+    '',
+    ...(usesTrees
+      ? [
+          'def _predict_tree(node, x):',
+          '    while "value" not in node:',
+          '        node = node["left"] if x[node["feature"]] <= node["threshold"] else node["right"]',
+          '    return node["value"]',
+          '',
+          '',
+        ]
+      : []),
+    ...pyModel(artifact),
+    '',
+    '',
+  ];
+  if (classifier) {
+    lines.push(
+      'def predict_proba(row):',
+      '    """Probability per class label."""',
+      '    return dict(zip(_SPEC["classes"], _output(encode(row))))',
+      '',
+      '',
+      'def predict(row):',
+      '    p = _output(encode(row))',
+      '    return _SPEC["classes"][p.index(max(p))]',
+    );
+  } else {
+    lines.push('def predict(row):', '    return _output(encode(row))[0]');
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function scoringCode(artifact: ModelArtifact, name: string, language: ScoringLanguage): string {
+  return language === 'typescript' ? scoringTypeScript(artifact, name) : scoringPython(artifact, name);
+}
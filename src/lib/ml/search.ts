@@ -0,0 +1,57 @@
+/**
+ * Hyperparameter search spaces and candidate generation. Each candidate is
+ * scored with cross-validation by the caller, one at a time, so the UI can
+ * report progress between trials.
+ */
+
+import type { CrossValidationResult } from './validation';
+import { primaryScore } from './metrics';
+import type { Algorithm, MlTask, ModelParams } from './models';
+import { shuffleInPlace, type Rng } from './random';
+
+export type SearchStrategy = 'grid' | 'random';
+
+export const PARAM_SPACES: Record<Algorithm, Record<string, number[]>> = {
+  logistic_regression: { learningRate: [0.1, 0.5, 1], l2: [0, 0.001, 0.01, 0.1] },
+  decision_tree: { maxDepth: [3, 5, 8, 12], minSamplesLeaf: [1, 2, 5, 10] },
+  random_forest: { trees: [20, 40], maxDepth: [6, 10], minSamplesLeaf: [1, 3] },
+  linear_regression: {},
+  ridge_regression: { alpha: [0.01, 0.1, 1, 10, 100] },
+  gradient_boosting: { rounds: [40, 80], learningRate: [0.05, 0.1, 0.2], maxDepth: [2, 3, 4] },
+};
+
+// Search scores each trial on at most this many rows
+export const MAX_SEARCH_ROWS = 2000;
+
+export function gridCandidates(space: Record<string, number[]>): ModelParams[] {
+  return Object.entries(space).reduce<ModelParams[]>(
+    (combos, [name, values]) => combos.flatMap((combo) => values.map((v) => ({ ...combo, [name]: v }))),
+    [{}],
+  );
+}
+
+// Distinct combinations drawn from the grid without replacement
+export function randomCandidates(space: Record<string, number[]>, count: number, rng: Rng): ModelParams[] {
+  return shuffleInPlace(gridCandidates(space), rng).slice(0, count);
+}
+
+export function searchCandidates(algorithm: Algorithm, strategy: SearchStrategy, count: number, rng: Rng): ModelParams[] {
+  const space = PARAM_SPACES[algorithm];
+  return strategy === 'grid' ? gridCandidates(space) : randomCandidates(space, count, rng);
+}
+
+export interface SearchTrial {
+  params: ModelParams;
+  cv: CrossValidationResult;
+  // Mean primary score across folds: accuracy or R²
+  score: number;
+  scoreStd: number;
+}
+
+export function toTrial(task: MlTask, params: ModelParams, cv: CrossValidationResult): SearchTrial {
+  return { params, cv, score: primaryScore(task, cv.mean), scoreStd: primaryScore(task, cv.std) };
+}
+
+export function rankTrials(trials: SearchTrial[]): SearchTrial[] {
+  return [...trials].sort((a, b) => b.score - a.score || a.scoreStd - b.scoreStd);
+}
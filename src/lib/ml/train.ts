@@ -0,0 +1,274 @@
+/**
+ * End-to-end training: target extraction, train/test split, feature encoding,
+ * fitting, hold-out evaluation and permutation importance.
+ */
+
+import type { ColumnSchema } from '@/store/workspace';
+import { encodeRows, fitEncoding, parseNumber, type EncodingSpec } from './encoding';
+import { evaluate, primaryScore, type ModelMetrics } from './metrics';
+import { ALGORITHMS, fitModel, predictOutput, predictValue, type Algorithm, type MlTask, type ModelParams, type ModelState } from './models';
+import { createRng, shuffleInPlace, type Rng } from './random';
+
+type DataRow = Record<string, unknown>;
+
+export interface TrainOptions {
+  task: MlTask;
+  algorithm: Algorithm;
+  target: string;
+  features: string[];
+  schema: ColumnSchema[];
+  rows: DataRow[];
+  params?: ModelParams;
+  testFraction?: number;
+  seed?: number;
+}
+
+// Everything needed to score new rows, as plain JSON
+export interface ModelArtifact {
+  task: MlTask;
+  algorithm: Algorithm;
+  target: string;
+  features: string[];
+  encoding: EncodingSpec;
+  // Class labels by index, classification only
+  classes?: string[];
+  model: ModelState;
+  params: ModelParams;
+  metrics: ModelMetrics;
+  trainedAt: string;
+}
+
+export interface FeatureImportance {
+  feature: string;
+  // Mean drop in the primary score when the feature is shuffled
+  importance: number;
+  std: number;
+}
+
+export interface TrainingResult {
+  artifact: ModelArtifact;
+  metrics: ModelMetrics;
+  importance: FeatureImportance[];
+  // Held-out rows as class indices (or values) for diagnostics
+  evaluation: {
+    actual: number[];
+    predicted: number[];
+    // Class probabilities per test row, classification only
+    probabilities?: number[][];
+  };
+  trainSize: number;
+  testSize: number;
+  // Rows left out because the target was missing or unparseable
+  skippedRows: number;
+  // True when the dataset was downsampled to MAX_TRAINING_ROWS
+  sampled: boolean;
+  durationMs: number;
+}
+
+const MIN_ROWS = 10;
+const MAX_CLASSES = 50;
+// Trees sort every candidate feature at every node, so cap the work per run
+export const MAX_TRAINING_ROWS = 10_000;
+const IMPORTANCE_REPEATS = 3;
+
+// ─── Target & Split ─────────────────────────────────────────────────────────
+
+export interface PreparedTarget {
+  rows: DataRow[];
+  y: number[];
+  classes?: string[];
+}
+
+export function prepareTarget(task: MlTask, rows: DataRow[], target: string): PreparedTarget {
+  const kept: DataRow[] = [];
+  const raw: unknown[] = [];
+  for (const row of rows) {
+    const v = row[target];
+    if (v === null || v === undefined || v === '') continue;
+    if (task === 'regression' && !Number.isFinite(parseNumber(v))) continue;
+    kept.push(row);
+    raw.push(v);
+  }
+  if (task === 'regression') {
+    if (kept.length === 0 && rows.length > 0) {
+      throw new Error(`Target "${target}" has no numeric values; pick a numeric column for regression`);
+    }
+    return { rows: kept, y: raw.map(parseNumber) };
+  }
+  const classes = [...new Set(raw.map(String))].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  if (classes.length > MAX_CLASSES) {
+    throw new Error(`Target "${target}" has ${classes.length} distinct values; classification supports up to ${MAX_CLASSES}`);
+  }
+  if (classes.length < 2 && kept.length > 0) {
+    throw new Error(`Target "${target}" has a single value; classification needs at least two classes`);
+  }
+  const index = new Map(classes.map((c, i) => [c, i]));
+  return { rows: kept, y: raw.map((v) => index.get(String(v))), classes };
+}
+
+/**
+ * Shuffled train/test split. Classification splits each class separately
+ * so rare classes land on both sides where possible.
+ */
+export function trainTestSplit(
+  y: number[], task: MlTask, testFraction: number, rng: Rng,
+): { train: number[]; test: number[] } {
+  const strata = new Map<number, number[]>();
+  y.forEach((label, i) => {
+    const key = task === 'classification' ? label : 0;
+    if (!strata.has(key)) strata.set(key, []);
+    strata.get(key).push(i);
+  });
+  const train: number[] = [];
+  const test: number[] = [];
+  for (const idx of strata.values()) {
+    shuffleInPlace(idx, rng);
+    const nTest = idx.length > 1 ? Math.max(1, Math.round(idx.length * testFraction)) : 0;
+    test.push(...idx.slice(0, nTest));
+    train.push(...idx.slice(nTest));
+  }
+  return { train: shuffleInPlace(train, rng), test };
+}
+
+// ─── Importance ─────────────────────────────────────────────────────────────
+
+/**
+ * Permutation importance on held-out rows: shuffle all encoded columns of one
+ * feature together and measure how much the primary score drops.
+ */
+export function permutationImportance(
+  model: ModelState, task: MlTask, encoding: EncodingSpec,
+  X: number[][], y: number[], rng: Rng, repeats = IMPORTANCE_REPEATS,
+): FeatureImportance[] {
+  const score = (matrix: number[][]) =>
+    primaryScore(task, evaluate(task, y, matrix.map((x) => predictValue(model, task, x))));
+  const baseline = score(X);
+
+  return encoding.groups
+    .map(({ feature, start, end }) => {
+      const drops: number[] = [];
+      for (let r = 0; r < repeats; r++) {
+        const order = shuffleInPlace(X.map((_, i) => i), rng);
+        const permuted = X.map((x, i) => {
+          const copy = x.slice();
+          for (let j = start; j < end; j++) copy[j] = X[order[i]][j];
+          return copy;
+        });
+        drops.push(baseline - score(permuted));
+      }
+      const mean = drops.reduce((a, b) => a + b, 0) / drops.length;
+      const std = Math.sqrt(drops.reduce((a, d) => a + (d - mean) ** 2, 0) / drops.length);
+      return { feature, importance: mean, std };
+    })
+    .sort((a, b) => b.importance - a.importance);
+}
+
+// ─── Training ───────────────────────────────────────────────────────────────
+
+export interface TrainingData {
+  features: string[];
+  rows: DataRow[];
+  y: number[];
+  classes?: string[];
+  skippedRows: number;
+  sampled: boolean;
+}
+
+/**
+ * Validates the options and extracts labeled rows, downsampled to `maxRows`.
+ * Rows keep their input order unless sampling was needed.
+ */
+export function prepareTrainingData(options: TrainOptions, rng: Rng, maxRows = MAX_TRAINING_ROWS): TrainingData {
+  const { task, algorithm, target } = options;
+  const features = options.features.filter((f) => f !== target);
+  if (ALGORITHMS[algorithm].task !== task) {
+    throw new Error(`${ALGORITHMS[algorithm].label} is not a ${task} algorithm`);
+  }
+  if (features.length === 0) throw new Error('Select at least one feature column');
+
+  const prepared = prepareTarget(task, options.rows, target);
+  const skippedRows = options.rows.length - prepared.rows.length;
+  if (prepared.rows.length < MIN_ROWS) {
+    throw new Error(`Need at least ${MIN_ROWS} rows with a value for "${target}", found ${prepared.rows.length}`);
+  }
+  if (prepared.rows.length <= maxRows) {
+    return { features, rows: prepared.rows, y: prepared.y, classes: prepared.classes, skippedRows, sampled: false };
+  }
+  const keep = shuffleInPlace(prepared.rows.map((_, i) => i), rng).slice(0, maxRows).sort((a, b) => a - b);
+  return {
+    features,
+    rows: keep.map((i) => prepared.rows[i]),
+    y: keep.map((i) => prepared.y[i]),
+    classes: prepared.classes,
+    skippedRows,
+    sampled: true,
+  };
+}
+
+export interface SplitFit {
+  encoding: EncodingSpec;
+  model: ModelState;
+  Xtest: number[][];
+  ytest: number[];
+  predicted: number[];
+  metrics: ModelMetrics;
+}
+
+// Fits the encoding and model on one split's training rows and scores its test rows
+export function fitOnSplit(
+  data: TrainingData,
+  split: { train: number[]; test: number[] },
+  { task, algorithm, schema, params, seed }: Pick<TrainOptions, 'task' | 'algorithm' | 'schema'> & { params: ModelParams; seed: number },
+): SplitFit {
+  const trainRows = split.train.map((i) => data.rows[i]);
+  const encoding = fitEncoding(trainRows, data.features, schema);
+  const model = fitModel(algorithm, {
+    X: encodeRows(encoding, trainRows),
+    y: split.train.map((i) => data.y[i]),
+    classCount: data.classes?.length ?? 0,
+    params,
+    seed,
+  });
+  const Xtest = encodeRows(encoding, split.test.map((i) => data.rows[i]));
+  const ytest = split.test.map((i) => data.y[i]);
+  const predicted = Xtest.map((x) => predictValue(model, task, x));
+  return { encoding, model, Xtest, ytest, predicted, metrics: evaluate(task, ytest, predicted) };
+}
+
+export function trainModel(options: TrainOptions): TrainingResult {
+  const started = performance.now();
+  const { task, algorithm, target, schema, testFraction = 0.2, seed = 42 } = options;
+  const rng = createRng(seed);
+  const data = prepareTrainingData(options, rng);
+  const split = trainTestSplit(data.y, task, testFraction, rng);
+  const params = { ...ALGORITHMS[algorithm].params, ...options.params };
+  const { encoding, model, Xtest, ytest, predicted, metrics } = fitOnSplit(data, split, { task, algorithm, schema, params, seed });
+  const importance = permutationImportance(model, task, encoding, Xtest, ytest, rng);
+
+  return {
+    artifact: {
+      task,
+      algorithm,
+      target,
+      features: data.features,
+      encoding,
+      classes: data.classes,
+      model,
+      params,
+      metrics,
+      trainedAt: new Date().toISOString(),
+    },
+    metrics,
+    importance,
+    evaluation: {
+      actual: ytest,
+      predicted,
+      probabilities: task === 'classification' ? Xtest.map((x) => predictOutput(model, x)) : undefined,
+    },
+    trainSize: split.train.length,
+    testSize: split.test.length,
+    skippedRows: data.skippedRows,
+    sampled: data.sampled,
+    durationMs: performance.now() - started,
+  };
+}
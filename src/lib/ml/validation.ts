@@ -0,0 +1,107 @@
+/**
+ * Cross-validation for ML Studio: stratified k-fold for shuffled data and
+ * expanding-window splits for rows that are ordered in time.
+ */
+
+import { parseMultiFormatDate } from '../dataAnalyzer';
+import type { ModelMetrics } from './metrics';
+import { ALGORITHMS } from './models';
+import { createRng, range, shuffleInPlace, type Rng } from './random';
+import { fitOnSplit, prepareTrainingData, type TrainOptions, type TrainingData } from './train';
+
+export type CvStrategy = 'kfold' | 'timeseries';
+
+export interface Split {
+  train: number[];
+  test: number[];
+}
+
+/**
+ * K shuffled folds; classification deals each class round-robin across the
+ * folds so every fold sees roughly the same class balance.
+ */
+export function kFoldSplits(y: number[], stratify: boolean, k: number, rng: Rng): Split[] {
+  const n = y.length;
+  if (k < 2 || k > n) throw new Error(`Cannot make ${k} folds from ${n} rows`);
+  const foldOf = new Array(n).fill(0);
+  if (stratify) {
+    const strata = new Map<number, number[]>();
+    y.forEach((label, i) => {
+      if (!strata.has(label)) strata.set(label, []);
+      strata.get(label).push(i);
+    });
+    let offset = 0;
+    for (const idx of strata.values()) {
+      shuffleInPlace(idx, rng).forEach((i, pos) => (foldOf[i] = (pos + offset) % k));
+      offset += idx.length;
+    }
+  } else {
+    shuffleInPlace(range(n), rng).forEach((i, pos) => (foldOf[i] = pos % k));
+  }
+  return range(k).map((f) => ({
+    train: range(n).filter((i) => foldOf[i] !== f),
+    test: range(n).filter((i) => foldOf[i] === f),
+  }));
+}
+
+/**
+ * Expanding-window splits over rows already in time order: the data is cut
+ * into k + 1 blocks and fold i trains on blocks 0..i and tests on block i + 1,
+ * so a model never sees the future.
+ */
+export function timeSeriesSplits(n: number, k: number): Split[] {
+  const block = Math.floor(n / (k + 1));
+  if (k < 2 || block < 1) throw new Error(`Cannot make ${k} time-series splits from ${n} rows`);
+  return range(k).map((f) => {
+    const end = (f + 1) * block;
+    return { train: range(end), test: range(Math.min(block, n - end)).map((i) => end + i) };
+  });
+}
+
+// Stable sort of training rows by a date column; unparseable dates go last
+function orderByDate(data: TrainingData, column: string): TrainingData {
+  const time = data.rows.map((r) => parseMultiFormatDate(r[column]).date?.getTime() ?? Infinity);
+  const order = range(data.rows.length).sort((a, b) => time[a] - time[b] || a - b);
+  return { ...data, rows: order.map((i) => data.rows[i]), y: order.map((i) => data.y[i]) };
+}
+
+export interface CrossValidationOptions extends TrainOptions {
+  strategy: CvStrategy;
+  folds: number;
+  // Date column that defines time order for time-series splits; row order otherwise
+  orderBy?: string;
+  maxRows?: number;
+}
+
+export interface CrossValidationResult {
+  strategy: CvStrategy;
+  folds: ModelMetrics[];
+  mean: ModelMetrics;
+  std: ModelMetrics;
+}
+
+function summarize(folds: ModelMetrics[]): { mean: ModelMetrics; std: ModelMetrics } {
+  const keys = Object.keys(folds[0] ?? {}) as (keyof ModelMetrics)[];
+  const mean: ModelMetrics = {};
+  const std: ModelMetrics = {};
+  for (const key of keys) {
+    const values = folds.map((f) => f[key]);
+    const m = values.reduce((a, b) => a + b, 0) / values.length;
+    mean[key] = m;
+    std[key] = Math.sqrt(values.reduce((a, v) => a + (v - m) ** 2, 0) / values.length);
+  }
+  return { mean, std };
+}
+
+export function crossValidate(options: CrossValidationOptions): CrossValidationResult {
+  const { task, algorithm, schema, strategy, folds, orderBy, seed = 42 } = options;
+  const rng = createRng(seed);
+  let data = prepareTrainingData(options, rng, options.maxRows);
+  if (strategy === 'timeseries' && orderBy) data = orderByDate(data, orderBy);
+  const splits = strategy === 'kfold'
+    ? kFoldSplits(data.y, task === 'classification', folds, rng)
+    : timeSeriesSplits(data.rows.length, folds);
+  const params = { ...ALGORITHMS[algorithm].params, ...options.params };
+  const foldMetrics = splits.map((split) => fitOnSplit(data, split, { task, algorithm, schema, params, seed }).metrics);
+  return { strategy, folds: foldMetrics, ...summarize(foldMetrics) };
+}
@@ -1,6 +1,6 @@
 import type { ColumnSchema, Dataset, QualityIssue } from '@/store/workspace';
 
-export type SeedDataset = Omit<Dataset, 'pipeline' | 'redoStack'>;
+export type SeedDataset = Omit<Dataset, 'pipeline' | 'redoStack' | 'versions' | 'models' | 'dashboards' | 'reports'> & { rows: Record<string, unknown>[] };
 
 const iso = (d: Date) => d.toISOString();
 
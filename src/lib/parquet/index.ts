@@ -0,0 +1,4 @@
+export { readParquet, readParquetMetadata } from './reader';
+export { writeParquet, type ParquetWriteOptions } from './writer';
+export { snappyCompress, snappyUncompress } from './snappy';
+export type { ParquetColumn, ParquetReadResult, LogicalKind } from './types';
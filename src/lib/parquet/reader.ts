@@ -0,0 +1,426 @@
+/**
+ * Parquet Reader
+ * Decodes flat Parquet files (top-level primitive columns) into row objects.
+ * Supports PLAIN and dictionary encodings, data page v1/v2 and
+ * SNAPPY/uncompressed pages. Nested columns are skipped with a warning.
+ */
+
+import { CompactReader, type ThriftStruct } from './thrift';
+import { decodeHybrid } from './rle';
+import { snappyUncompress } from './snappy';
+import {
+  Codec,
+  ConvertedType,
+  Encoding,
+  PageType,
+  PhysicalType,
+  Repetition,
+  nameOf,
+  type ColumnMetaData,
+  type FileMetaData,
+  type LogicalKind,
+  type PageHeader,
+  type ParquetColumn,
+  type ParquetReadResult,
+  type SchemaElement,
+  type TimeUnit,
+} from './types';
+
+const MAGIC = 'PAR1';
+const utf8 = new TextDecoder();
+
+// ─── Metadata ────────────────────────────────────────────────────────────────
+
+const str = (v: unknown) => (v instanceof Uint8Array ? utf8.decode(v) : undefined);
+const num = (v: unknown) => (typeof v === 'number' ? v : undefined);
+
+function timeUnit(unit: unknown): TimeUnit {
+  const u = (unit ?? {}) as ThriftStruct;
+  return u[3] ? 'nanos' : u[2] ? 'micros' : 'millis';
+}
+
+function logicalKind(el: ThriftStruct): LogicalKind {
+  const logical = el[10] as ThriftStruct | undefined;
+  if (logical) {
+    if (logical[1] || logical[4]) return { kind: 'string' };
+    if (logical[12]) return { kind: 'json' };
+    if (logical[14]) return { kind: 'uuid' };
+    if (logical[6]) return { kind: 'date' };
+    if (logical[8]) return { kind: 'timestamp', unit: timeUnit((logical[8] as ThriftStruct)[2]) };
+    if (logical[7]) return { kind: 'time', unit: timeUnit((logical[7] as ThriftStruct)[2]) };
+    if (logical[5]) {
+      const d = logical[5] as ThriftStruct;
+      return { kind: 'decimal', scale: num(d[1]) ?? 0, precision: num(d[2]) ?? 0 };
+    }
+    if (logical[10]) {
+      const i = logical[10] as ThriftStruct;
+      return { kind: 'integer', bitWidth: num(i[1]) ?? 32, signed: i[2] !== false };
+    }
+  }
+
+  // Older writers only set converted_type
+  switch (num(el[6])) {
+    case ConvertedType.UTF8:
+    case ConvertedType.ENUM:
+      return { kind: 'string' };
+    case ConvertedType.JSON:
+      return { kind: 'json' };
+    case ConvertedType.DATE:
+      return { kind: 'date' };
+    case ConvertedType.TIMESTAMP_MILLIS:
+      return { kind: 'timestamp', unit: 'millis' };
+    case ConvertedType.TIMESTAMP_MICROS:
+      return { kind: 'timestamp', unit: 'micros' };
+    case ConvertedType.TIME_MILLIS:
+      return { kind: 'time', unit: 'millis' };
+    case ConvertedType.TIME_MICROS:
+      return { kind: 'time', unit: 'micros' };
+    case ConvertedType.DECIMAL:
+      return { kind: 'decimal', scale: num(el[7]) ?? 0, precision: num(el[8]) ?? 0 };
+    case ConvertedType.UINT_8:
+    case ConvertedType.UINT_16:
+    case ConvertedType.UINT_32:
+    case ConvertedType.UINT_64:
+      return { kind: 'integer', bitWidth: num(el[6]) === ConvertedType.UINT_64 ? 64 : 32, signed: false };
+    default:
+      return { kind: 'none' };
+  }
+}
+
+function parseFileMetaData(s: ThriftStruct): FileMetaData {
+  const schema = ((s[2] as ThriftStruct[]) ?? []).map<SchemaElement>(el => ({
+    name: str(el[4]) ?? '',
+    type: num(el[1]),
+    typeLength: num(el[2]),
+    repetition: num(el[3]),
+    numChildren: num(el[5]),
+    logical: logicalKind(el),
+  }));
+
+  const rowGroups = ((s[4] as ThriftStruct[]) ?? []).map(rg => ({
+    numRows: num(rg[3]) ?? 0,
+    columns: ((rg[1] as ThriftStruct[]) ?? []).map<ColumnMetaData>(chunk => {
+      const meta = chunk[3] as ThriftStruct | undefined;
+      if (!meta) throw new Error('Column chunks stored in external files are not supported');
+      return {
+        type: num(meta[1]),
+        encodings: (meta[2] as number[]) ?? [],
+        path: ((meta[3] as Uint8Array[]) ?? []).map(p => str(p)),
+        codec: num(meta[4]) ?? Codec.UNCOMPRESSED,
+        numValues: num(meta[5]) ?? 0,
+        totalUncompressedSize: num(meta[6]) ?? 0,
+        totalCompressedSize: num(meta[7]) ?? 0,
+        dataPageOffset: num(meta[9]) ?? 0,
+        dictionaryPageOffset: num(meta[11]),
+      };
+    }),
+  }));
+
+  return { version: num(s[1]) ?? 1, schema, numRows: num(s[3]) ?? 0, rowGroups, createdBy: str(s[6]) };
+}
+
+function parsePageHeader(s: ThriftStruct): PageHeader {
+  const header: PageHeader = {
+    type: num(s[1]),
+    uncompressedSize: num(s[2]) ?? 0,
+    compressedSize: num(s[3]) ?? 0,
+    numValues: 0,
+    encoding: Encoding.PLAIN,
+  };
+  const v1 = s[5] as ThriftStruct | undefined;
+  const dict = s[7] as ThriftStruct | undefined;
+  const v2 = s[8] as ThriftStruct | undefined;
+  if (v1) {
+    header.numValues = num(v1[1]) ?? 0;
+    header.encoding = num(v1[2]) ?? Encoding.PLAIN;
+  } else if (dict) {
+    header.numValues = num(dict[1]) ?? 0;
+    header.encoding = num(dict[2]) ?? Encoding.PLAIN;
+  } else if (v2) {
+    header.numValues = num(v2[1]) ?? 0;
+    header.numNulls = num(v2[2]) ?? 0;
+    header.encoding = num(v2[4]) ?? Encoding.PLAIN;
+    header.defLevelsLength = num(v2[5]) ?? 0;
+    header.repLevelsLength = num(v2[6]) ?? 0;
+    header.isCompressed = v2[7] !== false;
+  }
+  return header;
+}
+
+// ─── Values ──────────────────────────────────────────────────────────────────
+
+interface Leaf {
+  column: ParquetColumn;
+  element: SchemaElement;
+}
+
+function decodePlain(bytes: Uint8Array, type: number, typeLength: number, count: number): unknown[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const out: unknown[] = new Array(count);
+  let pos = 0;
+  for (let i = 0; i < count; i++) {
+    switch (type) {
+      case PhysicalType.BOOLEAN:
+        out[i] = (bytes[i >> 3] & (1 << (i & 7))) !== 0;
+        break;
+      case PhysicalType.INT32:
+        out[i] = view.getInt32(pos, true);
+        pos += 4;
+        break;
+      case PhysicalType.INT64:
+        out[i] = view.getBigInt64(pos, true);
+        pos += 8;
+        break;
+      case PhysicalType.INT96: {
+        // Legacy Impala/Spark timestamp: nanos within day + Julian day number
+        const nanos = view.getBigInt64(pos, true);
+        const julianDay = view.getInt32(pos + 8, true);
+        out[i] = (julianDay - 2440588) * 86400000 + Number(nanos / 1000000n);
+        pos += 12;
+        break;
+      }
+      case PhysicalType.FLOAT:
+        out[i] = view.getFloat32(pos, true);
+        pos += 4;
+        break;
+      case PhysicalType.DOUBLE:
+        out[i] = view.getFloat64(pos, true);
+        pos += 8;
+        break;
+      case PhysicalType.BYTE_ARRAY: {
+        const len = view.getInt32(pos, true);
+        out[i] = bytes.subarray(pos + 4, pos + 4 + len);
+        pos += 4 + len;
+        break;
+      }
+      case PhysicalType.FIXED_LEN_BYTE_ARRAY:
+        out[i] = bytes.subarray(pos, pos + typeLength);
+        pos += typeLength;
+        break;
+      default:
+        throw new Error(`Unsupported physical type ${type}`);
+    }
+  }
+  return out;
+}
+
+const hex = (b: Uint8Array) => Array.from(b, x => x.toString(16).padStart(2, '0')).join('');
+
+function bigEndianSigned(b: Uint8Array): bigint {
+  let v = 0n;
+  for (const x of b) v = (v << 8n) | BigInt(x);
+  return b.length > 0 && b[0] & 0x80 ? v - (1n << BigInt(b.length * 8)) : v;
+}
+
+function toNumber(v: bigint): number | string {
+  return v <= BigInt(Number.MAX_SAFE_INTEGER) && v >= BigInt(Number.MIN_SAFE_INTEGER) ? Number(v) : v.toString();
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+function toTimeOfDay(ms: number): string {
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = (ms % 60000) / 1000;
+  return `${pad(h)}:${pad(m)}:${s % 1 === 0 ? pad(s) : s.toFixed(3).padStart(6, '0')}`;
+}
+
+function convertValue(raw: unknown, element: SchemaElement): unknown {
+  const { logical } = element;
+  const asMillis = (unit: TimeUnit) =>
+    typeof raw === 'bigint' ? Number(unit === 'nanos' ? raw / 1000000n : unit === 'micros' ? raw / 1000n : raw) : (raw as number);
+
+  switch (logical.kind) {
+    case 'string':
+    case 'json':
+      return raw instanceof Uint8Array ? utf8.decode(raw) : raw;
+    case 'uuid': {
+      const h = hex(raw as Uint8Array);
+      return `${h.slice(0, 8)}-${h.slice(8, 12)}-${h.slice(12, 16)}-${h.slice(16, 20)}-${h.slice(20)}`;
+    }
+    case 'date':
+      return new Date((raw as number) * 86400000).toISOString().slice(0, 10);
+    case 'timestamp':
+      return new Date(asMillis(logical.unit)).toISOString();
+    case 'time':
+      return toTimeOfDay(asMillis(logical.unit));
+    case 'decimal': {
+      const unscaled = raw instanceof Uint8Array ? bigEndianSigned(raw) : raw;
+      return Number(unscaled) / 10 ** logical.scale;
+    }
+    case 'integer':
+      if (!logical.signed) {
+        if (typeof raw === 'bigint') return toNumber(BigInt.asUintN(64, raw));
+        return (raw as number) >>> 0;
+      }
+      break;
+  }
+
+  if (element.type === PhysicalType.INT96) return new Date(raw as number).toISOString();
+  if (typeof raw === 'bigint') return toNumber(raw);
+  // Unannotated byte arrays are almost always strings from older writers
+  if (raw instanceof Uint8Array) return element.type === PhysicalType.FIXED_LEN_BYTE_ARRAY ? hex(raw) : utf8.decode(raw);
+  return raw;
+}
+
+// ─── Column chunks ───────────────────────────────────────────────────────────
+
+function decompress(data: Uint8Array, codec: number, uncompressedSize: number): Uint8Array {
+  switch (codec) {
+    case Codec.UNCOMPRESSED:
+      return data;
+    case Codec.SNAPPY:
+      return snappyUncompress(data, uncompressedSize);
+    default:
+      throw new Error(`Unsupported compression codec ${nameOf(Codec, codec)} (only SNAPPY and UNCOMPRESSED are supported)`);
+  }
+}
+
+function decodeValues(page: Uint8Array, header: PageHeader, leaf: Leaf, count: number, dictionary: unknown[] | null): unknown[] {
+  const { encoding } = header;
+  if (encoding === Encoding.PLAIN) {
+    return decodePlain(page, leaf.element.type, leaf.element.typeLength ?? 0, count).map(v => convertValue(v, leaf.element));
+  }
+  if (encoding === Encoding.PLAIN_DICTIONARY || encoding === Encoding.RLE_DICTIONARY) {
+    if (!dictionary) throw new Error(`Column "${leaf.column.name}" uses a dictionary but has no dictionary page`);
+    const width = page[0];
+    const { values: indices } = decodeHybrid(page, 1, page.length, width, count);
+    return Array.from(indices, i => dictionary[i]);
+  }
+  if (encoding === Encoding.RLE && leaf.element.type === PhysicalType.BOOLEAN) {
+    // 4-byte length prefix, then width-1 hybrid runs
+    return Array.from(decodeHybrid(page, 4, page.length, 1, count).values, v => v === 1);
+  }
+  throw new Error(`Column "${leaf.column.name}" uses unsupported encoding ${nameOf(Encoding, encoding)}`);
+}
+
+function readColumnChunk(bytes: Uint8Array, meta: ColumnMetaData, leaf: Leaf, numRows: number): unknown[] {
+  const out: unknown[] = [];
+  const optional = leaf.column.optional;
+  let dictionary: unknown[] | null = null;
+
+  let pos = meta.dictionaryPageOffset > 0 && meta.dictionaryPageOffset < meta.dataPageOffset ? meta.dictionaryPageOffset : meta.dataPageOffset;
+  const end = pos + meta.totalCompressedSize;
+
+  while (out.length < numRows && pos < end) {
+    const reader = new CompactReader(bytes, pos);
+    const header = parsePageHeader(reader.readStruct());
+    const body = bytes.subarray(reader.pos, reader.pos + header.compressedSize);
+    pos = reader.pos + header.compressedSize;
+
+    if (header.type === PageType.DICTIONARY_PAGE) {
+      const page = decompress(body, meta.codec, header.uncompressedSize);
+      dictionary = decodePlain(page, leaf.element.type, leaf.element.typeLength ?? 0, header.numValues).map(v => convertValue(v, leaf.element));
+      continue;
+    }
+    if (header.type !== PageType.DATA_PAGE && header.type !== PageType.DATA_PAGE_V2) continue;
+
+    let defLevels: Int32Array | null = null;
+    let values: Uint8Array;
+
+    if (header.type === PageType.DATA_PAGE) {
+      const page = decompress(body, meta.codec, header.uncompressedSize);
+      let offset = 0;
+      if (optional) {
+        const len = new DataView(page.buffer, page.byteOffset, page.byteLength).getInt32(0, true);
+        defLevels = decodeHybrid(page, 4, 4 + len, 1, header.numValues).values;
+        offset = 4 + len;
+      }
+      values = page.subarray(offset);
+    } else {
+      // v2 keeps levels uncompressed in front of the (optionally compressed) values
+      const levelsLength = header.repLevelsLength + header.defLevelsLength;
+      if (optional) {
+        defLevels = decodeHybrid(body, header.repLevelsLength, levelsLength, 1, header.numValues).values;
+      }
+      const rest = body.subarray(levelsLength);
+      values = header.isCompressed ? decompress(rest, meta.codec, header.uncompressedSize - levelsLength) : rest;
+    }
+
+    const nonNull = defLevels ? defLevels.reduce((n, d) => n + d, 0) : header.numValues;
+    const decoded = decodeValues(values, header, leaf, nonNull, dictionary);
+    if (defLevels) {
+      let k = 0;
+      for (const d of defLevels) out.push(d === 1 ? decoded[k++] : null);
+    } else {
+      for (const v of decoded) out.push(v);
+    }
+  }
+
+  if (out.length < numRows) throw new Error(`Column "${leaf.column.name}" ended after ${out.length} of ${numRows} values`);
+  return out;
+}
+
+// ─── Entry point ─────────────────────────────────────────────────────────────
+
+export function readParquetMetadata(bytes: Uint8Array): FileMetaData {
+  const tag = (at: number) => String.fromCharCode(...bytes.subarray(at, at + 4));
+  if (bytes.length < 12 || tag(0) !== MAGIC || tag(bytes.length - 4) !== MAGIC) {
+    throw new Error('Not a Parquet file (missing PAR1 magic bytes)');
+  }
+  const footerLength = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(bytes.length - 8, true);
+  const footerStart = bytes.length - 8 - footerLength;
+  if (footerStart < 4) throw new Error('Corrupt Parquet footer');
+  return parseFileMetaData(new CompactReader(bytes, footerStart).readStruct());
+}
+
+export function readParquet(input: ArrayBuffer | Uint8Array): ParquetReadResult {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const meta = readParquetMetadata(bytes);
+  const warnings: string[] = [];
+
+  // Leaves in schema order; column chunks follow the same order. Nested groups
+  // and repeated fields occupy chunk slots but are skipped.
+  const leaves: (Leaf | null)[] = [];
+  const [root, ...elements] = meta.schema;
+  let i = 0;
+  for (let child = 0; child < (root?.numChildren ?? 0); child++) {
+    const el = elements[i];
+    if (el.numChildren) {
+      let pending = el.numChildren;
+      i++;
+      while (pending > 0) {
+        const inner = elements[i++];
+        pending += (inner.numChildren ?? 0) - 1;
+        if (!inner.numChildren) leaves.push(null);
+      }
+      warnings.push(`Skipped nested column "${el.name}"`);
+      continue;
+    }
+    i++;
+    if (el.repetition === Repetition.REPEATED) {
+      leaves.push(null);
+      warnings.push(`Skipped repeated column "${el.name}"`);
+      continue;
+    }
+    leaves.push({
+      element: el,
+      column: {
+        name: el.name,
+        physicalType: nameOf(PhysicalType, el.type),
+        logical: el.logical,
+        optional: el.repetition !== Repetition.REQUIRED,
+      },
+    });
+  }
+
+  const rows: Record<string, unknown>[] = [];
+  for (const group of meta.rowGroups) {
+    const start = rows.length;
+    for (let r = 0; r < group.numRows; r++) rows.push({});
+    group.columns.forEach((chunk, c) => {
+      const leaf = leaves[c];
+      if (!leaf) return;
+      const values = readColumnChunk(bytes, chunk, leaf, group.numRows);
+      for (let r = 0; r < group.numRows; r++) rows[start + r][leaf.column.name] = values[r];
+    });
+  }
+
+  return {
+    rows,
+    columns: leaves.filter((l): l is Leaf => l !== null).map(l => l.column),
+    numRows: meta.numRows,
+    createdBy: meta.createdBy,
+    warnings,
+  };
+}
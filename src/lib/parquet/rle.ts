@@ -0,0 +1,100 @@
+/**
+ * RLE / bit-packing hybrid encoding, used by Parquet for definition levels,
+ * dictionary indices and booleans.
+ */
+
+export const bitWidth = (maxValue: number) => (maxValue <= 0 ? 0 : 32 - Math.clz32(maxValue));
+
+/**
+ * Decode `count` values starting at `offset`. Returns the values and the
+ * position just past the last run consumed.
+ */
+export function decodeHybrid(bytes: Uint8Array, offset: number, end: number, width: number, count: number): { values: Int32Array; pos: number } {
+  const values = new Int32Array(count);
+  let pos = offset;
+  let n = 0;
+  const byteWidth = (width + 7) >> 3;
+  const mask = width === 32 ? -1 : (1 << width) - 1;
+
+  while (n < count && pos < end) {
+    let header = 0;
+    let shift = 0;
+    for (;;) {
+      const b = bytes[pos++];
+      header |= (b & 0x7f) << shift;
+      if ((b & 0x80) === 0) break;
+      shift += 7;
+    }
+
+    if (header & 1) {
+      // Bit-packed run: groups of 8 values, least significant bit first
+      const total = (header >>> 1) * 8;
+      let bitPos = 0;
+      for (let i = 0; i < total; i++) {
+        let v = 0;
+        for (let b = 0; b < width; b++, bitPos++) {
+          if (bytes[pos + (bitPos >> 3)] & (1 << (bitPos & 7))) v |= 1 << b;
+        }
+        if (n < count) values[n++] = v & mask;
+      }
+      pos += (total * width + 7) >> 3;
+    } else {
+      const runLength = header >>> 1;
+      let v = 0;
+      for (let i = 0; i < byteWidth; i++) v |= bytes[pos++] << (8 * i);
+      values.fill(v, n, Math.min(count, n + runLength));
+      n = Math.min(count, n + runLength);
+    }
+  }
+
+  if (n < count) throw new Error(`RLE data ended after ${n} of ${count} values`);
+  return { values, pos };
+}
+
+function pushVarint(out: number[], n: number) {
+  while (n >= 0x80) {
+    out.push((n & 0x7f) | 0x80);
+    n >>>= 7;
+  }
+  out.push(n);
+}
+
+/**
+ * Encode with RLE runs only. Levels and low-cardinality indices compress
+ * well this way and every reader handles it.
+ */
+export function encodeRle(values: ArrayLike<number>, width: number): Uint8Array {
+  const out: number[] = [];
+  const byteWidth = (width + 7) >> 3;
+  let i = 0;
+  while (i < values.length) {
+    const v = values[i];
+    let run = 1;
+    while (i + run < values.length && values[i + run] === v) run++;
+    pushVarint(out, run << 1);
+    for (let b = 0; b < byteWidth; b++) out.push((v >>> (8 * b)) & 0xff);
+    i += run;
+  }
+  return Uint8Array.from(out);
+}
+
+/**
+ * Encode as bit-packed runs — better than RLE for high-entropy indices.
+ */
+export function encodeBitPacked(values: ArrayLike<number>, width: number): Uint8Array {
+  const groups = Math.ceil(values.length / 8);
+  const header: number[] = [];
+  pushVarint(header, (groups << 1) | 1);
+  const body = new Uint8Array((groups * 8 * width + 7) >> 3);
+  let bitPos = 0;
+  for (let i = 0; i < groups * 8; i++) {
+    const v = i < values.length ? values[i] : 0;
+    for (let b = 0; b < width; b++, bitPos++) {
+      if (v & (1 << b)) body[bitPos >> 3] |= 1 << (bitPos & 7);
+    }
+  }
+  const out = new Uint8Array(header.length + body.length);
+  out.set(header);
+  out.set(body, header.length);
+  return out;
+}
@@ -0,0 +1,165 @@
+/**
+ * Snappy block format (no framing), as used for Parquet pages.
+ * The compressor is a straightforward greedy matcher over 64 KB blocks —
+ * it trades ratio for simplicity but produces output any reader accepts.
+ */
+
+function readVarint(input: Uint8Array, pos: number): [number, number] {
+  let result = 0;
+  let shift = 0;
+  for (;;) {
+    const b = input[pos++];
+    if (b === undefined) throw new Error('Snappy: truncated length header');
+    result |= (b & 0x7f) << shift;
+    if ((b & 0x80) === 0) return [result >>> 0, pos];
+    shift += 7;
+  }
+}
+
+export function snappyUncompress(input: Uint8Array, expectedLength?: number): Uint8Array {
+  const [length, start] = readVarint(input, 0);
+  let pos = start;
+  if (expectedLength !== undefined && length !== expectedLength) {
+    throw new Error(`Snappy: expected ${expectedLength} bytes, header says ${length}`);
+  }
+  const out = new Uint8Array(length);
+  let outPos = 0;
+
+  while (pos < input.length) {
+    const tag = input[pos++];
+    const kind = tag & 0x03;
+
+    if (kind === 0) {
+      // Literal; lengths ≥ 61 spill into 1–4 trailing bytes
+      let len = tag >> 2;
+      if (len >= 60) {
+        const extra = len - 59;
+        len = 0;
+        for (let i = 0; i < extra; i++) len |= input[pos++] << (8 * i);
+      }
+      len += 1;
+      if (pos + len > input.length || outPos + len > length) throw new Error('Snappy: literal overruns buffer');
+      out.set(input.subarray(pos, pos + len), outPos);
+      pos += len;
+      outPos += len;
+      continue;
+    }
+
+    let len: number;
+    let offset: number;
+    if (kind === 1) {
+      len = ((tag >> 2) & 0x07) + 4;
+      offset = ((tag >> 5) << 8) | input[pos++];
+    } else if (kind === 2) {
+      len = (tag >> 2) + 1;
+      offset = input[pos] | (input[pos + 1] << 8);
+      pos += 2;
+    } else {
+      len = (tag >> 2) + 1;
+      offset = (input[pos] | (input[pos + 1] << 8) | (input[pos + 2] << 16) | (input[pos + 3] << 24)) >>> 0;
+      pos += 4;
+    }
+    if (offset === 0 || offset > outPos || outPos + len > length) throw new Error('Snappy: invalid copy');
+    // Copies may overlap their own output (run-length style), so go byte by byte
+    for (let i = 0; i < len; i++, outPos++) out[outPos] = out[outPos - offset];
+  }
+
+  if (outPos !== length) throw new Error(`Snappy: decoded ${outPos} of ${length} bytes`);
+  return out;
+}
+
+const BLOCK_SIZE = 1 << 16;
+const HASH_BITS = 14;
+
+class ByteSink {
+  buf: Uint8Array;
+  len = 0;
+
+  constructor(capacity: number) {
+    this.buf = new Uint8Array(capacity);
+  }
+
+  push(b: number) {
+    if (this.len === this.buf.length) {
+      const next = new Uint8Array(this.buf.length * 2);
+      next.set(this.buf);
+      this.buf = next;
+    }
+    this.buf[this.len++] = b;
+  }
+
+  pushAll(bytes: Uint8Array) {
+    for (const b of bytes) this.push(b);
+  }
+}
+
+function emitLiteral(sink: ByteSink, input: Uint8Array, start: number, end: number) {
+  const n = end - start - 1;
+  if (n < 0) return;
+  if (n < 60) sink.push(n << 2);
+  else if (n < 0x100) {
+    sink.push(60 << 2);
+    sink.push(n);
+  } else if (n < 0x10000) {
+    sink.push(61 << 2);
+    sink.push(n & 0xff);
+    sink.push(n >> 8);
+  } else {
+    sink.push(62 << 2);
+    sink.push(n & 0xff);
+    sink.push((n >> 8) & 0xff);
+    sink.push(n >> 16);
+  }
+  sink.pushAll(input.subarray(start, end));
+}
+
+function emitCopy(sink: ByteSink, offset: number, len: number) {
+  // 2-byte-offset copies carry at most 64 bytes each
+  while (len > 0) {
+    const chunk = len > 64 ? (len - 64 < 4 ? 60 : 64) : len;
+    sink.push(((chunk - 1) << 2) | 2);
+    sink.push(offset & 0xff);
+    sink.push(offset >> 8);
+    len -= chunk;
+  }
+}
+
+const load32 = (b: Uint8Array, i: number) => b[i] | (b[i + 1] << 8) | (b[i + 2] << 16) | (b[i + 3] << 24);
+const hash32 = (v: number) => Math.imul(v, 0x1e35a7bd) >>> (32 - HASH_BITS);
+
+export function snappyCompress(input: Uint8Array): Uint8Array {
+  const sink = new ByteSink(Math.max(32, input.length + (input.length >> 3) + 16));
+  let n = input.length;
+  while (n >= 0x80) {
+    sink.push((n & 0x7f) | 0x80);
+    n >>>= 7;
+  }
+  sink.push(n);
+
+  const table = new Int32Array(1 << HASH_BITS);
+  for (let blockStart = 0; blockStart < input.length; blockStart += BLOCK_SIZE) {
+    const blockEnd = Math.min(blockStart + BLOCK_SIZE, input.length);
+    table.fill(-1);
+    let literalStart = blockStart;
+    let i = blockStart;
+
+    while (i + 4 <= blockEnd) {
+      const h = hash32(load32(input, i));
+      const candidate = table[h];
+      table[h] = i;
+      if (candidate >= blockStart && load32(input, candidate) === load32(input, i)) {
+        let len = 4;
+        while (i + len < blockEnd && input[candidate + len] === input[i + len]) len++;
+        emitLiteral(sink, input, literalStart, i);
+        emitCopy(sink, i - candidate, len);
+        i += len;
+        literalStart = i;
+      } else {
+        i++;
+      }
+    }
+    emitLiteral(sink, input, literalStart, blockEnd);
+  }
+
+  return sink.buf.slice(0, sink.len);
+}
@@ -0,0 +1,215 @@
+/**
+ * Minimal Thrift compact protocol codec — just enough for Parquet footers
+ * and page headers. Structs decode to `{ [fieldId]: value }` objects; the
+ * reader maps those onto typed metadata.
+ */
+
+export const TType = {
+  BOOL_TRUE: 1,
+  BOOL_FALSE: 2,
+  BYTE: 3,
+  I16: 4,
+  I32: 5,
+  I64: 6,
+  DOUBLE: 7,
+  BINARY: 8,
+  LIST: 9,
+  SET: 10,
+  MAP: 11,
+  STRUCT: 12,
+} as const;
+export type TType = (typeof TType)[keyof typeof TType];
+
+export type ThriftStruct = Record<number, unknown>;
+
+export class CompactReader {
+  pos: number;
+  private view: DataView;
+
+  constructor(private bytes: Uint8Array, offset = 0) {
+    this.pos = offset;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private byte(): number {
+    if (this.pos >= this.bytes.length) throw new Error('Unexpected end of Thrift data');
+    return this.bytes[this.pos++];
+  }
+
+  // Plain arithmetic instead of bit ops so i64 values up to 2^53 survive
+  varint(): number {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      const b = this.byte();
+      result += (b & 0x7f) * multiplier;
+      if ((b & 0x80) === 0) return result;
+      multiplier *= 128;
+    }
+  }
+
+  zigzag(): number {
+    const n = this.varint();
+    return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+  }
+
+  private binary(): Uint8Array {
+    const len = this.varint();
+    const out = this.bytes.subarray(this.pos, this.pos + len);
+    this.pos += len;
+    return out;
+  }
+
+  private value(type: number): unknown {
+    switch (type) {
+      case TType.BOOL_TRUE:
+        return true;
+      case TType.BOOL_FALSE:
+        return false;
+      case TType.BYTE:
+        return (this.byte() << 24) >> 24;
+      case TType.I16:
+      case TType.I32:
+      case TType.I64:
+        return this.zigzag();
+      case TType.DOUBLE: {
+        const v = this.view.getFloat64(this.pos, true);
+        this.pos += 8;
+        return v;
+      }
+      case TType.BINARY:
+        return this.binary();
+      case TType.LIST:
+      case TType.SET:
+        return this.list();
+      case TType.MAP:
+        return this.map();
+      case TType.STRUCT:
+        return this.readStruct();
+      default:
+        throw new Error(`Unknown Thrift type ${type}`);
+    }
+  }
+
+  private list(): unknown[] {
+    const header = this.byte();
+    const size = header >> 4 === 15 ? this.varint() : header >> 4;
+    const elemType = header & 0x0f;
+    const out: unknown[] = [];
+    for (let i = 0; i < size; i++) {
+      // Booleans inside collections are a whole byte rather than part of the type nibble
+      out.push(elemType === TType.BOOL_TRUE || elemType === TType.BOOL_FALSE ? this.byte() === 1 : this.value(elemType));
+    }
+    return out;
+  }
+
+  private map(): Map<unknown, unknown> {
+    const size = this.varint();
+    const out = new Map<unknown, unknown>();
+    if (size === 0) return out;
+    const types = this.byte();
+    for (let i = 0; i < size; i++) {
+      out.set(this.value(types >> 4), this.value(types & 0x0f));
+    }
+    return out;
+  }
+
+  readStruct(): ThriftStruct {
+    const out: ThriftStruct = {};
+    let lastId = 0;
+    for (;;) {
+      const header = this.byte();
+      if (header === 0) return out;
+      const delta = header >> 4;
+      const type = header & 0x0f;
+      const id = delta === 0 ? this.zigzag() : lastId + delta;
+      out[id] = this.value(type);
+      lastId = id;
+    }
+  }
+}
+
+// [fieldId, type, value]; LIST values are [elemType, items], STRUCT values are field arrays
+export type ThriftField = [number, TType, unknown];
+
+export class CompactWriter {
+  private chunks: number[] = [];
+
+  private byte(b: number) {
+    this.chunks.push(b & 0xff);
+  }
+
+  varint(n: number) {
+    while (n >= 128) {
+      this.byte((n % 128) | 0x80);
+      n = Math.floor(n / 128);
+    }
+    this.byte(n);
+  }
+
+  private zigzag(n: number) {
+    this.varint(n >= 0 ? n * 2 : -n * 2 - 1);
+  }
+
+  private value(type: TType, value: unknown) {
+    switch (type) {
+      case TType.BYTE:
+        this.byte(value as number);
+        break;
+      case TType.I16:
+      case TType.I32:
+      case TType.I64:
+        this.zigzag(value as number);
+        break;
+      case TType.DOUBLE: {
+        const buf = new DataView(new ArrayBuffer(8));
+        buf.setFloat64(0, value as number, true);
+        for (let i = 0; i < 8; i++) this.byte(buf.getUint8(i));
+        break;
+      }
+      case TType.BINARY: {
+        const bytes = typeof value === 'string' ? new TextEncoder().encode(value) : (value as Uint8Array);
+        this.varint(bytes.length);
+        for (const b of bytes) this.byte(b);
+        break;
+      }
+      case TType.LIST: {
+        const [elemType, items] = value as [TType, unknown[]];
+        if (items.length < 15) this.byte((items.length << 4) | elemType);
+        else {
+          this.byte(0xf0 | elemType);
+          this.varint(items.length);
+        }
+        for (const item of items) this.value(elemType, item);
+        break;
+      }
+      case TType.STRUCT:
+        this.writeStruct(value as ThriftField[]);
+        break;
+      default:
+        throw new Error(`Cannot write Thrift type ${type}`);
+    }
+  }
+
+  writeStruct(fields: ThriftField[]): this {
+    let lastId = 0;
+    const present = fields.filter(([, , v]) => v !== undefined && v !== null).sort((a, b) => a[0] - b[0]);
+    for (const [id, type, value] of present) {
+      const wireType = type === TType.BOOL_TRUE || type === TType.BOOL_FALSE ? (value ? TType.BOOL_TRUE : TType.BOOL_FALSE) : type;
+      const delta = id - lastId;
+      if (delta > 0 && delta <= 15) this.byte((delta << 4) | wireType);
+      else {
+        this.byte(wireType);
+        this.zigzag(id);
+      }
+      if (wireType !== TType.BOOL_TRUE && wireType !== TType.BOOL_FALSE) this.value(type, value);
+      lastId = id;
+    }
+    this.byte(0);
+    return this;
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.chunks);
+  }
+}
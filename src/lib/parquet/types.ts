@@ -0,0 +1,142 @@
+/**
+ * Parquet format constants and the slice of file metadata we read/write.
+ * Field numbers follow parquet-format's parquet.thrift.
+ */
+
+export const PhysicalType = {
+  BOOLEAN: 0,
+  INT32: 1,
+  INT64: 2,
+  INT96: 3,
+  FLOAT: 4,
+  DOUBLE: 5,
+  BYTE_ARRAY: 6,
+  FIXED_LEN_BYTE_ARRAY: 7,
+} as const;
+
+export const Repetition = { REQUIRED: 0, OPTIONAL: 1, REPEATED: 2 } as const;
+
+export const Encoding = {
+  PLAIN: 0,
+  PLAIN_DICTIONARY: 2,
+  RLE: 3,
+  BIT_PACKED: 4,
+  DELTA_BINARY_PACKED: 5,
+  DELTA_LENGTH_BYTE_ARRAY: 6,
+  DELTA_BYTE_ARRAY: 7,
+  RLE_DICTIONARY: 8,
+  BYTE_STREAM_SPLIT: 9,
+} as const;
+
+export const Codec = {
+  UNCOMPRESSED: 0,
+  SNAPPY: 1,
+  GZIP: 2,
+  LZO: 3,
+  BROTLI: 4,
+  LZ4: 5,
+  ZSTD: 6,
+  LZ4_RAW: 7,
+} as const;
+
+export const PageType = { DATA_PAGE: 0, INDEX_PAGE: 1, DICTIONARY_PAGE: 2, DATA_PAGE_V2: 3 } as const;
+
+export const ConvertedType = {
+  UTF8: 0,
+  ENUM: 4,
+  DECIMAL: 5,
+  DATE: 6,
+  TIME_MILLIS: 7,
+  TIME_MICROS: 8,
+  TIMESTAMP_MILLIS: 9,
+  TIMESTAMP_MICROS: 10,
+  UINT_8: 11,
+  UINT_16: 12,
+  UINT_32: 13,
+  UINT_64: 14,
+  INT_8: 15,
+  INT_16: 16,
+  INT_32: 17,
+  INT_64: 18,
+  JSON: 19,
+} as const;
+
+export const nameOf = (table: Record<string, number>, value: number) =>
+  Object.keys(table).find(k => table[k] === value) ?? String(value);
+
+export type TimeUnit = 'millis' | 'micros' | 'nanos';
+
+// Flattened view of SchemaElement.logicalType / converted_type
+export type LogicalKind =
+  | { kind: 'string' }
+  | { kind: 'json' }
+  | { kind: 'uuid' }
+  | { kind: 'date' }
+  | { kind: 'timestamp'; unit: TimeUnit }
+  | { kind: 'time'; unit: TimeUnit }
+  | { kind: 'decimal'; scale: number; precision: number }
+  | { kind: 'integer'; bitWidth: number; signed: boolean }
+  | { kind: 'none' };
+
+export interface SchemaElement {
+  name: string;
+  type?: number;
+  typeLength?: number;
+  repetition?: number;
+  numChildren?: number;
+  logical: LogicalKind;
+}
+
+export interface ColumnMetaData {
+  type: number;
+  encodings: number[];
+  path: string[];
+  codec: number;
+  numValues: number;
+  totalUncompressedSize: number;
+  totalCompressedSize: number;
+  dataPageOffset: number;
+  dictionaryPageOffset?: number;
+}
+
+export interface RowGroup {
+  columns: ColumnMetaData[];
+  numRows: number;
+}
+
+export interface FileMetaData {
+  version: number;
+  schema: SchemaElement[];
+  numRows: number;
+  rowGroups: RowGroup[];
+  createdBy?: string;
+}
+
+export interface PageHeader {
+  type: number;
+  uncompressedSize: number;
+  compressedSize: number;
+  numValues: number;
+  encoding: number;
+  // Data page v2 only
+  numNulls?: number;
+  defLevelsLength?: number;
+  repLevelsLength?: number;
+  isCompressed?: boolean;
+}
+
+/** Leaf column as exposed to callers of `readParquet`. */
+export interface ParquetColumn {
+  name: string;
+  physicalType: string;
+  logical: LogicalKind;
+  optional: boolean;
+}
+
+export interface ParquetReadResult {
+  rows: Record<string, unknown>[];
+  columns: ParquetColumn[];
+  numRows: number;
+  createdBy?: string;
+  warnings: string[];
+}
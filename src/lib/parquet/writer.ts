@@ -0,0 +1,335 @@
+/**
+ * Parquet Writer
+ * Writes rows as a flat Parquet file readable by Spark, pandas/pyarrow and
+ * DuckDB. Every column is OPTIONAL; strings are dictionary-encoded when the
+ * cardinality is low, everything else uses PLAIN.
+ */
+
+import type { ColumnSchema } from '@/store/workspace';
+import { CompactWriter, TType, type ThriftField } from './thrift';
+import { bitWidth, encodeBitPacked, encodeRle } from './rle';
+import { snappyCompress } from './snappy';
+import { Codec, ConvertedType, Encoding, PageType, PhysicalType, Repetition } from './types';
+
+type DataRow = Record<string, unknown>;
+
+export interface ParquetWriteOptions {
+  compression?: 'snappy' | 'uncompressed';
+  rowGroupSize?: number;
+  // Column type hints (e.g. the workspace schema); values are inferred otherwise
+  schema?: Pick<ColumnSchema, 'name' | 'type'>[];
+}
+
+type WriteKind = 'boolean' | 'int' | 'double' | 'date' | 'timestamp' | 'string';
+
+interface ColumnPlan {
+  name: string;
+  kind: WriteKind;
+}
+
+const MAGIC = new TextEncoder().encode('PAR1');
+const utf8 = new TextEncoder();
+const NUMERIC_STRING = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+const DAY_MS = 86_400_000;
+
+const stringOf = (v: unknown) => (typeof v === 'object' ? JSON.stringify(v) : String(v));
+const isMissing = (v: unknown) => v === null || v === undefined || v === '' || (typeof v === 'number' && isNaN(v));
+
+function toNumber(v: unknown): number | null {
+  if (typeof v === 'number') return isFinite(v) ? v : null;
+  if (typeof v === 'string' && NUMERIC_STRING.test(v.trim().replace(/,/g, ''))) return Number(v.trim().replace(/,/g, ''));
+  return null;
+}
+
+function toTimestamp(v: unknown): number | null {
+  if (v instanceof Date) return isNaN(v.getTime()) ? null : v.getTime();
+  if (typeof v === 'string') {
+    const t = Date.parse(v);
+    return isNaN(t) ? null : t;
+  }
+  return null;
+}
+
+// Days since the epoch, for values with no time of day. Non-ISO strings parse as local midnight.
+function toEpochDay(v: unknown): number | null {
+  const t = toTimestamp(v);
+  if (t === null) return null;
+  if (t % DAY_MS === 0) return t / DAY_MS;
+  const d = new Date(t);
+  if (d.getHours() || d.getMinutes() || d.getSeconds() || d.getMilliseconds()) return null;
+  return Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()) / DAY_MS;
+}
+
+function toBoolean(v: unknown): boolean | null {
+  if (typeof v === 'boolean') return v;
+  const s = String(v).trim().toLowerCase();
+  if (['true', 'yes', 'y', '1'].includes(s)) return true;
+  if (['false', 'no', 'n', '0'].includes(s)) return false;
+  return null;
+}
+
+/**
+ * Pick a Parquet type per column. Native JS types win; schema hints let
+ * string-typed CSV columns be written as numbers, booleans, dates or
+ * timestamps when every value converts cleanly. Date-hinted columns become
+ * DATE unless some value carries a time of day.
+ */
+function planColumn(name: string, values: unknown[], hint?: ColumnSchema['type']): ColumnPlan {
+  const present = values.filter(v => !isMissing(v));
+  const all = (test: (v: unknown) => boolean) => present.length > 0 && present.every(test);
+
+  if (all(v => typeof v === 'boolean') || (hint === 'boolean' && all(v => toBoolean(v) !== null))) return { name, kind: 'boolean' };
+  if (hint === 'date' && all(v => toEpochDay(v) !== null)) return { name, kind: 'date' };
+  if (all(v => v instanceof Date) || (hint === 'date' && all(v => toTimestamp(v) !== null))) return { name, kind: 'timestamp' };
+  if (all(v => typeof v === 'number') || (hint === 'numeric' && all(v => toNumber(v) !== null))) {
+    const nums = present.map(toNumber);
+    return { name, kind: nums.every(n => Number.isSafeInteger(n)) ? 'int' : 'double' };
+  }
+  return { name, kind: 'string' };
+}
+
+// ─── Encoding ────────────────────────────────────────────────────────────────
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let pos = 0;
+  for (const p of parts) {
+    out.set(p, pos);
+    pos += p.length;
+  }
+  return out;
+}
+
+function encodePlain(kind: WriteKind, values: unknown[]): Uint8Array {
+  switch (kind) {
+    case 'boolean': {
+      const out = new Uint8Array(Math.ceil(values.length / 8));
+      values.forEach((v, i) => {
+        if (toBoolean(v)) out[i >> 3] |= 1 << (i & 7);
+      });
+      return out;
+    }
+    case 'date': {
+      const view = new DataView(new ArrayBuffer(values.length * 4));
+      values.forEach((v, i) => view.setInt32(i * 4, toEpochDay(v), true));
+      return new Uint8Array(view.buffer);
+    }
+    case 'int':
+    case 'timestamp': {
+      const view = new DataView(new ArrayBuffer(values.length * 8));
+      values.forEach((v, i) => view.setBigInt64(i * 8, BigInt(kind === 'int' ? toNumber(v) : toTimestamp(v)), true));
+      return new Uint8Array(view.buffer);
+    }
+    case 'double': {
+      const view = new DataView(new ArrayBuffer(values.length * 8));
+      values.forEach((v, i) => view.setFloat64(i * 8, toNumber(v), true));
+      return new Uint8Array(view.buffer);
+    }
+    case 'string': {
+      const parts: Uint8Array[] = [];
+      for (const v of values) {
+        const bytes = utf8.encode(stringOf(v));
+        const len = new Uint8Array(4);
+        new DataView(len.buffer).setInt32(0, bytes.length, true);
+        parts.push(len, bytes);
+      }
+      return concat(parts);
+    }
+  }
+}
+
+const PHYSICAL: Record<WriteKind, number> = {
+  boolean: PhysicalType.BOOLEAN,
+  int: PhysicalType.INT64,
+  double: PhysicalType.DOUBLE,
+  date: PhysicalType.INT32,
+  timestamp: PhysicalType.INT64,
+  string: PhysicalType.BYTE_ARRAY,
+};
+
+function schemaElement(plan: ColumnPlan): ThriftField[] {
+  const fields: ThriftField[] = [
+    [1, TType.I32, PHYSICAL[plan.kind]],
+    [3, TType.I32, Repetition.OPTIONAL],
+    [4, TType.BINARY, plan.name],
+  ];
+  switch (plan.kind) {
+    case 'date':
+      fields.push(
+        [6, TType.I32, ConvertedType.DATE],
+        // LogicalType.DATE
+        [10, TType.STRUCT, [[6, TType.STRUCT, []]]],
+      );
+      break;
+    case 'timestamp':
+      fields.push(
+        [6, TType.I32, ConvertedType.TIMESTAMP_MILLIS],
+        // LogicalType.TIMESTAMP { isAdjustedToUTC: true, unit: MILLIS }
+        [10, TType.STRUCT, [[8, TType.STRUCT, [[1, TType.BOOL_TRUE, true], [2, TType.STRUCT, [[1, TType.STRUCT, []]]]]]]],
+      );
+      break;
+    case 'string':
+      fields.push(
+        [6, TType.I32, ConvertedType.UTF8],
+        [10, TType.STRUCT, [[1, TType.STRUCT, []]]],
+      );
+      break;
+  }
+  return fields;
+}
+
+interface EncodedChunk {
+  bytes: Uint8Array;
+  meta: (fileOffset: number) => ThriftField[];
+}
+
+function pageHeader(type: number, uncompressed: number, compressed: number, detail: ThriftField): Uint8Array {
+  return new CompactWriter()
+    .writeStruct([[1, TType.I32, type], [2, TType.I32, uncompressed], [3, TType.I32, compressed], detail])
+    .toBytes();
+}
+
+function encodeColumnChunk(plan: ColumnPlan, values: unknown[], codec: number): EncodedChunk {
+  const compress = (b: Uint8Array) => (codec === Codec.SNAPPY ? snappyCompress(b) : b);
+  const defLevels = values.map(v => (isMissing(v) ? 0 : 1));
+  const present = values.filter(v => !isMissing(v));
+
+  const levels = encodeRle(defLevels, 1);
+  const levelPrefix = new Uint8Array(4);
+  new DataView(levelPrefix.buffer).setInt32(0, levels.length, true);
+
+  const parts: Uint8Array[] = [];
+  let uncompressedTotal = 0;
+  let dictionaryOffset: number | undefined;
+  let encoding: number = Encoding.PLAIN;
+  let body: Uint8Array;
+
+  const distinct = plan.kind === 'string' ? [...new Set(present.map(stringOf))] : [];
+  const useDictionary = plan.kind === 'string' && present.length > 0 && distinct.length <= Math.max(1, present.length / 2) && distinct.length < 1 << 16;
+
+  if (useDictionary) {
+    const dictBody = encodePlain('string', distinct);
+    const compressedDict = compress(dictBody);
+    const header = pageHeader(PageType.DICTIONARY_PAGE, dictBody.length, compressedDict.length, [
+      7,
+      TType.STRUCT,
+      [[1, TType.I32, distinct.length], [2, TType.I32, Encoding.PLAIN]],
+    ]);
+    dictionaryOffset = 0;
+    parts.push(header, compressedDict);
+    uncompressedTotal += header.length + dictBody.length;
+
+    const index = new Map(distinct.map((v, i) => [v, i]));
+    const indices = present.map(v => index.get(stringOf(v)));
+    const width = Math.max(1, bitWidth(distinct.length - 1));
+    const runs = encodeRle(indices, width);
+    const packed = encodeBitPacked(indices, width);
+    body = concat([Uint8Array.of(width), runs.length <= packed.length ? runs : packed]);
+    encoding = Encoding.RLE_DICTIONARY;
+  } else {
+    body = encodePlain(plan.kind, present);
+  }
+
+  const pageBody = concat([levelPrefix, levels, body]);
+  const compressedPage = compress(pageBody);
+  const dataHeader = pageHeader(PageType.DATA_PAGE, pageBody.length, compressedPage.length, [
+    5,
+    TType.STRUCT,
+    [
+      [1, TType.I32, values.length],
+      [2, TType.I32, encoding],
+      [3, TType.I32, Encoding.RLE],
+      [4, TType.I32, Encoding.RLE],
+    ],
+  ]);
+  const dataOffset = parts.reduce((n, p) => n + p.length, 0);
+  parts.push(dataHeader, compressedPage);
+  uncompressedTotal += dataHeader.length + pageBody.length;
+
+  const bytes = concat(parts);
+  const encodings = useDictionary ? [Encoding.PLAIN, Encoding.RLE, Encoding.RLE_DICTIONARY] : [Encoding.PLAIN, Encoding.RLE];
+
+  return {
+    bytes,
+    meta: fileOffset => [
+      [1, TType.I32, PHYSICAL[plan.kind]],
+      [2, TType.LIST, [TType.I32, encodings]],
+      [3, TType.LIST, [TType.BINARY, [plan.name]]],
+      [4, TType.I32, codec],
+      [5, TType.I64, values.length],
+      [6, TType.I64, uncompressedTotal],
+      [7, TType.I64, bytes.length],
+      [9, TType.I64, fileOffset + dataOffset],
+      [11, TType.I64, dictionaryOffset === undefined ? undefined : fileOffset + dictionaryOffset],
+    ],
+  };
+}
+
+// ─── Entry point ─────────────────────────────────────────────────────────────
+
+export function writeParquet(rows: DataRow[], options: ParquetWriteOptions = {}): Uint8Array {
+  const codec = options.compression === 'uncompressed' ? Codec.UNCOMPRESSED : Codec.SNAPPY;
+  const rowGroupSize = Math.max(1, options.rowGroupSize ?? 100_000);
+
+  const names: string[] = [];
+  const seen = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        names.push(key);
+      }
+    }
+  }
+  const hints = new Map(options.schema?.map(c => [c.name, c.type]));
+  const plans = names.map(name => planColumn(name, rows.map(r => r[name]), hints.get(name)));
+
+  const parts: Uint8Array[] = [MAGIC];
+  let offset = MAGIC.length;
+  const rowGroups: ThriftField[][] = [];
+
+  // An empty dataset still gets one (empty) row group so readers see the schema
+  for (let start = 0; start === 0 || start < rows.length; start += rowGroupSize) {
+    const slice = rows.slice(start, start + rowGroupSize);
+    const columns: ThriftField[][] = [];
+    let groupBytes = 0;
+    for (const plan of plans) {
+      const chunk = encodeColumnChunk(plan, slice.map(r => r[plan.name]), codec);
+      columns.push([
+        [2, TType.I64, offset],
+        [3, TType.STRUCT, chunk.meta(offset)],
+      ]);
+      parts.push(chunk.bytes);
+      offset += chunk.bytes.length;
+      groupBytes += chunk.bytes.length;
+    }
+    rowGroups.push([
+      [1, TType.LIST, [TType.STRUCT, columns]],
+      [2, TType.I64, groupBytes],
+      [3, TType.I64, slice.length],
+    ]);
+  }
+
+  const schema: ThriftField[][] = [
+    [
+      [4, TType.BINARY, 'schema'],
+      [5, TType.I32, plans.length],
+    ],
+    ...plans.map(schemaElement),
+  ];
+
+  const footer = new CompactWriter()
+    .writeStruct([
+      [1, TType.I32, 1],
+      [2, TType.LIST, [TType.STRUCT, schema]],
+      [3, TType.I64, rows.length],
+      [4, TType.LIST, [TType.STRUCT, rowGroups]],
+      [6, TType.BINARY, 'DataTidy parquet writer'],
+    ])
+    .toBytes();
+  const footerLength = new Uint8Array(4);
+  new DataView(footerLength.buffer).setUint32(0, footer.length, true);
+
+  parts.push(footer, footerLength, MAGIC);
+  return concat(parts);
+}
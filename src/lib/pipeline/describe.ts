@@ -0,0 +1,79 @@
+/**
+ * One-line, human-readable summaries of configured pipeline steps.
+ * Shown under each step card so a pipeline reads like a recipe.
+ */
+
+import { FILTER_OPS } from './paramSchemas';
+import type { StepParamsMap, StepType } from './types';
+
+const list = (cols: string[] | undefined, fallback: string) =>
+  cols && cols.length > 0 ? (cols.length > 3 ? `${cols.slice(0, 3).join(', ')} +${cols.length - 3}` : cols.join(', ')) : fallback;
+
+export function describeStep(type: string, params: Record<string, unknown>): string {
+  switch (type as StepType) {
+    case 'trim':
+      return `Trim ${list((params as StepParamsMap['trim']).columns, 'all columns')}`;
+    case 'fill_missing': {
+      const p = params as StepParamsMap['fill_missing'];
+      const how = p.strategy === 'constant' ? `"${p.value}"` : p.strategy ?? 'auto';
+      return `Fill ${list(p.columns, 'columns with gaps')} · ${how}`;
+    }
+    case 'remove_duplicates': {
+      const p = params as StepParamsMap['remove_duplicates'];
+      return `Dedupe on ${list(p.columns, 'entire row')} · keep ${p.keep ?? 'first'}`;
+    }
+    case 'fix_types': {
+      const types = Object.entries((params as StepParamsMap['fix_types']).types ?? {});
+      return types.length > 0 ? types.map(([c, t]) => `${c} → ${t}`).join(', ') : 'Auto-detect all column types';
+    }
+    case 'standardize_text': {
+      const p = params as StepParamsMap['standardize_text'];
+      return `${p.case ?? 'title'} case · ${list(p.columns, 'text columns')}`;
+    }
+    case 'filter': {
+      const p = params as StepParamsMap['filter'];
+      const parts = (p.predicates ?? []).map(pr => {
+        const op = FILTER_OPS.find(o => o.op === pr.op);
+        return op?.needsValue ? `${pr.column} ${op.label} ${Array.isArray(pr.value) ? pr.value.join('|') : pr.value}` : `${pr.column} ${op?.label ?? pr.op}`;
+      });
+      return parts.length > 0 ? parts.join(p.combine === 'or' ? ' OR ' : ' AND ') : 'No conditions';
+    }
+    case 'sort': {
+      const keys = (params as StepParamsMap['sort']).keys ?? [];
+      return keys.length > 0 ? keys.map(k => `${k.column} ${k.direction === 'desc' ? '↓' : '↑'}`).join(', ') : 'No sort keys';
+    }
+    case 'group_by': {
+      const p = params as StepParamsMap['group_by'];
+      const aggs = (p.aggregations ?? []).map(a => `${a.fn}(${a.column})`);
+      return `By ${list(p.by, 'all rows')}${aggs.length ? ` · ${aggs.join(', ')}` : ''}`;
+    }
+    case 'pivot': {
+      const p = params as StepParamsMap['pivot'];
+      if (p.mode === 'unpivot') return `Unpivot ${list(p.valueColumns, 'non-index columns')}`;
+      return `${p.fn ?? 'sum'}(${p.value ?? '?'}) by ${p.column ?? '?'}${p.index?.length ? ` per ${list(p.index, '')}` : ''}`;
+    }
+    case 'join': {
+      const p = params as StepParamsMap['join'];
+      return `${p.how ?? 'inner'} join on ${p.leftKey ?? '?'} = ${p.rightKey ?? '?'}`;
+    }
+    case 'calc': {
+      const p = params as StepParamsMap['calc'];
+      return p.name ? `${p.name} = ${p.expression}` : 'Not configured';
+    }
+    case 'rename': {
+      const renames = (params as StepParamsMap['rename']).renames ?? [];
+      return renames.length > 0 ? renames.map(r => `${r.from} → ${r.to}`).join(', ') : 'All headers → snake_case';
+    }
+    case 'normalize':
+    case 'standardize':
+      return list((params as StepParamsMap['normalize']).columns, 'All numeric columns');
+    case 'one_hot':
+      return list((params as StepParamsMap['one_hot']).columns, 'Low-cardinality categoricals');
+    case 'bucketize': {
+      const p = params as StepParamsMap['bucketize'];
+      return `${p.column ?? 'first numeric'} · ${p.edges?.length ? p.edges.join(', ') : 'quartiles'}`;
+    }
+    default:
+      return type;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Diff between two consecutive pipeline snapshots.
+ * Rows are aligned by object identity when a step only drops or reorders
+ * rows (filter, sort, dedupe), and by position when it rewrites them 1:1.
+ */
+
+import { collectColumns } from '../datasetProfiler';
+
+type DataRow = Record<string, unknown>;
+
+export interface SnapshotDiff {
+  alignment: 'identity' | 'index' | 'none';
+  rowsBefore: number;
+  rowsAfter: number;
+  rowsRemoved: number;
+  rowsAdded: number;
+  reordered: boolean;
+  addedColumns: string[];
+  removedColumns: string[];
+  changedCellCount: number;
+  // Keyed by the *after* row object; maps column → value before the step
+  changes: Map<DataRow, Record<string, unknown>>;
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+  a === b || (a == null && b == null) || (typeof a === 'number' && typeof b === 'number' && isNaN(a) && isNaN(b));
+
+export function diffSnapshots(before: DataRow[], after: DataRow[]): SnapshotDiff {
+  const beforeCols = collectColumns(before);
+  const afterCols = collectColumns(after);
+  const beforeSet = new Set(beforeCols);
+  const afterSet = new Set(afterCols);
+
+  const diff: SnapshotDiff = {
+    alignment: 'none',
+    rowsBefore: before.length,
+    rowsAfter: after.length,
+    rowsRemoved: Math.max(0, before.length - after.length),
+    rowsAdded: Math.max(0, after.length - before.length),
+    reordered: false,
+    addedColumns: afterCols.filter(c => !beforeSet.has(c)),
+    removedColumns: beforeCols.filter(c => !afterSet.has(c)),
+    changedCellCount: 0,
+    changes: new Map(),
+  };
+
+  // Steps like filter/sort/dedupe pass the original row objects through
+  const beforeIndex = new Map<DataRow, number>();
+  before.forEach((row, i) => beforeIndex.set(row, i));
+  if (after.every(row => beforeIndex.has(row))) {
+    diff.alignment = 'identity';
+    diff.rowsAdded = 0;
+    diff.rowsRemoved = before.length - after.length;
+    let last = -1;
+    for (const row of after) {
+      const idx = beforeIndex.get(row)!;
+      if (idx < last) {
+        diff.reordered = true;
+        break;
+      }
+      last = idx;
+    }
+    return diff;
+  }
+
+  if (before.length === after.length) {
+    diff.alignment = 'index';
+    const shared = afterCols.filter(c => beforeSet.has(c));
+    after.forEach((row, i) => {
+      const prev = before[i];
+      let changed: Record<string, unknown> | null = null;
+      for (const col of shared) {
+        if (!sameValue(prev[col], row[col])) {
+          if (!changed) changed = {};
+          changed[col] = prev[col];
+          diff.changedCellCount++;
+        }
+      }
+      if (changed) diff.changes.set(row, changed);
+    });
+  }
+
+  return diff;
+}
@@ -0,0 +1,801 @@
+/**
+ * Pipeline executor — interprets workspace `PipelineStep`s against row data.
+ * Each step is a pure function of its input rows: inputs are never mutated,
+ * so intermediate results can be cached and replayed safely.
+ */
+
+import type { ColumnSchema, PipelineStep } from '@/store/workspace';
+import { applySelectedFixes, type SuggestedFix } from '../aiAnalyzer';
+import { calculateNumericStats, detectColumnType, parseMultiFormatDate } from '../dataAnalyzer';
+import { extent, isEmpty, median, mode, parseBoolean, standardizeColumnName } from '../dataCleaner';
+import { buildColumnSchema, collectColumns } from '../datasetProfiler';
+import { compileExpression } from './expression';
+import type {
+  AggregateFn,
+  BucketizeParams,
+  CalcParams,
+  ColumnType,
+  FillMissingParams,
+  FilterParams,
+  FilterPredicate,
+  FixTypesParams,
+  GroupByParams,
+  JoinParams,
+  OneHotParams,
+  PivotParams,
+  RemoveDuplicatesParams,
+  RenameParams,
+  ScaleParams,
+  SortParams,
+  StandardizeTextParams,
+  StepParamsMap,
+  StepType,
+  TrimParams,
+} from './types';
+
+type DataRow = Record<string, unknown>;
+
+export interface ExecutionContext {
+  // Looks up another dataset's rows (used by `join`)
+  resolveDataset?: (id: string) => DataRow[] | undefined;
+}
+
+export interface StepOutput {
+  rows: DataRow[];
+  warnings: string[];
+}
+
+export interface StepRunInfo {
+  stepId: string;
+  type: string;
+  label: string;
+  rowsIn: number;
+  rowsOut: number;
+  columnsIn: number;
+  columnsOut: number;
+  durationMs: number;
+  warnings: string[];
+  error?: string;
+}
+
+export interface PipelineRunResult {
+  rows: DataRow[];
+  schema: ColumnSchema[];
+  steps: StepRunInfo[];
+  failedStepId?: string;
+}
+
+type StepHandler<P> = (rows: DataRow[], params: P, ctx: ExecutionContext) => StepOutput;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+
+export function isMissing(v: unknown): boolean {
+  return isEmpty(v) || (typeof v === 'string' && v.trim().toLowerCase() === 'nan');
+}
+
+function toNumber(v: unknown): number | null {
+  if (typeof v === 'number') return isNaN(v) ? null : v;
+  if (isMissing(v)) return null;
+  const num = Number(String(v).replace(/[,$]/g, ''));
+  return isNaN(num) ? null : num;
+}
+
+function numericValues(rows: DataRow[], col: string): number[] {
+  const out: number[] = [];
+  for (const row of rows) {
+    const n = toNumber(row[col]);
+    if (n !== null) out.push(n);
+  }
+  return out;
+}
+
+function requireColumns(rows: DataRow[], cols: (string | undefined)[]): void {
+  if (rows.length === 0) return;
+  const known = new Set(collectColumns(rows));
+  const missing = cols.filter((c): c is string => !!c && !known.has(c));
+  if (missing.length > 0) {
+    throw new Error(`Unknown column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+  }
+}
+
+// Plain numeric check — detectColumnType reads small integers as dates
+function isNumericColumn(rows: DataRow[], col: string): boolean {
+  let present = 0;
+  let numeric = 0;
+  for (const row of rows) {
+    if (isMissing(row[col])) continue;
+    present++;
+    if (toNumber(row[col]) !== null) numeric++;
+  }
+  return present > 0 && numeric / present >= 0.85;
+}
+
+export function columnType(rows: DataRow[], col: string): ColumnType {
+  if (isNumericColumn(rows, col)) return 'numeric';
+  return detectColumnType(rows.map(r => r[col]), col);
+}
+
+export function columnsOfType(rows: DataRow[], types: ColumnType[]): string[] {
+  return collectColumns(rows).filter(col => types.includes(columnType(rows, col)));
+}
+
+// Explicit selection wins; otherwise fall back to the type-based default
+function pickColumns(rows: DataRow[], explicit: string[] | undefined, fallback: () => string[]): string[] {
+  if (explicit && explicit.length > 0) {
+    requireColumns(rows, explicit);
+    return explicit;
+  }
+  return fallback();
+}
+
+function fixesFor(columns: string[], action: string): SuggestedFix[] {
+  return columns.map((column, i) => ({ id: `${action}_${i}`, action, description: action, column, enabled: true }));
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const aMissing = isMissing(a);
+  const bMissing = isMissing(b);
+  if (aMissing || bMissing) return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (x !== null && y !== null) return x - y;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+export function aggregate(values: unknown[], fn: AggregateFn): unknown {
+  if (fn === 'count') return values.filter(v => !isMissing(v)).length;
+  if (fn === 'count_distinct') return new Set(values.filter(v => !isMissing(v)).map(v => String(v))).size;
+
+  const nums = values.map(toNumber).filter((n): n is number => n !== null);
+  if (nums.length === 0) return null;
+  switch (fn) {
+    case 'sum':
+      return round4(nums.reduce((a, b) => a + b, 0));
+    case 'mean':
+      return round4(nums.reduce((a, b) => a + b, 0) / nums.length);
+    case 'median':
+      return round4(median(nums));
+    case 'min':
+      return extent(nums).min;
+    case 'max':
+      return extent(nums).max;
+  }
+  return null;
+}
+
+function groupKey(row: DataRow, cols: string[]): string {
+  return JSON.stringify(cols.map(c => (isMissing(row[c]) ? null : row[c])));
+}
+
+// ─── Cleaning steps ──────────────────────────────────────────────────────────
+
+const trim: StepHandler<TrimParams> = (rows, params) => {
+  const cols = pickColumns(rows, params.columns, () => collectColumns(rows));
+  if (params.collapseSpaces === false) {
+    return { rows: applySelectedFixes(rows, fixesFor(cols, 'trim_whitespace')), warnings: [] };
+  }
+  const colSet = new Set(cols);
+  const out = rows.map(row => {
+    const next: DataRow = { ...row };
+    for (const col of colSet) {
+      const v = next[col];
+      if (typeof v === 'string') next[col] = v.trim().replace(/\s+/g, ' ');
+    }
+    return next;
+  });
+  return { rows: out, warnings: [] };
+};
+
+const fillMissing: StepHandler<FillMissingParams> = (rows, params) => {
+  const strategy = params.strategy ?? 'auto';
+  const cols = pickColumns(rows, params.columns, () =>
+    collectColumns(rows).filter(col => rows.some(r => isMissing(r[col]))),
+  );
+  const warnings: string[] = [];
+
+  if (strategy === 'drop') {
+    return { rows: rows.filter(row => cols.every(col => !isMissing(row[col]))), warnings };
+  }
+
+  // The analyzer's fixes already cover median / "Unknown" imputation
+  if (strategy === 'auto' || strategy === 'median' || strategy === 'unknown') {
+    const fixes: SuggestedFix[] = [];
+    cols.forEach(col => {
+      const isNumeric = isNumericColumn(rows, col);
+      if (strategy === 'median' && !isNumeric) {
+        warnings.push(`${col} is not numeric — median fill skipped`);
+        return;
+      }
+      const action = strategy === 'unknown' || !isNumeric ? 'fill_missing_with_unknown' : 'fill_missing_with_median';
+      fixes.push(...fixesFor([col], action));
+    });
+    return { rows: applySelectedFixes(rows, fixes), warnings };
+  }
+
+  const fills = new Map<string, unknown>();
+  cols.forEach(col => {
+    if (strategy === 'constant') {
+      if (params.value === undefined || params.value === '') {
+        throw new Error('A fill value is required for the "constant" strategy');
+      }
+      fills.set(col, params.value);
+    } else if (strategy === 'mean') {
+      const nums = numericValues(rows, col);
+      if (nums.length === 0) warnings.push(`${col} has no numeric values — mean fill skipped`);
+      else fills.set(col, round4(nums.reduce((a, b) => a + b, 0) / nums.length));
+    } else if (strategy === 'mode') {
+      const m = mode(rows.map(r => r[col]).filter(v => !isMissing(v)));
+      if (m !== undefined) fills.set(col, m);
+    }
+  });
+
+  if (strategy === 'forward_fill') {
+    const last = new Map<string, unknown>();
+    return {
+      rows: rows.map(row => {
+        const next: DataRow = { ...row };
+        cols.forEach(col => {
+          if (isMissing(next[col])) {
+            if (last.has(col)) next[col] = last.get(col);
+          } else {
+            last.set(col, next[col]);
+          }
+        });
+        return next;
+      }),
+      warnings,
+    };
+  }
+
+  return {
+    rows: rows.map(row => {
+      const next: DataRow = { ...row };
+      fills.forEach((value, col) => {
+        if (isMissing(next[col])) next[col] = value;
+      });
+      return next;
+    }),
+    warnings,
+  };
+};
+
+const removeDuplicates: StepHandler<RemoveDuplicatesParams> = (rows, params) => {
+  const cols = pickColumns(rows, params.columns, () => []);
+  const keyOf = (row: DataRow) => (cols.length > 0 ? groupKey(row, cols) : JSON.stringify(row));
+
+  if (params.keep === 'last') {
+    const seen = new Set<string>();
+    const kept: DataRow[] = [];
+    for (let i = rows.length - 1; i >= 0; i--) {
+      const key = keyOf(rows[i]);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      kept.push(rows[i]);
+    }
+    return { rows: kept.reverse(), warnings: [] };
+  }
+
+  const seen = new Set<string>();
+  return {
+    rows: rows.filter(row => {
+      const key = keyOf(row);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    }),
+    warnings: [],
+  };
+};
+
+// The value as the column type, or undefined when it cannot be read as one
+function convertValue(v: unknown, type: ColumnType): unknown {
+  if (isMissing(v)) return null;
+  switch (type) {
+    case 'numeric':
+      return toNumber(v) ?? undefined;
+    case 'boolean':
+      return parseBoolean(v) ?? undefined;
+    case 'date': {
+      const { date } = parseMultiFormatDate(v);
+      return date ? date.toISOString().split('T')[0] : undefined;
+    }
+    default:
+      return String(v);
+  }
+}
+
+const fixTypes: StepHandler<FixTypesParams> = (rows, params) => {
+  const explicit = params.types ?? {};
+  const cols = pickColumns(rows, params.columns ?? Object.keys(explicit), () => collectColumns(rows));
+  const targets = new Map<string, ColumnType>();
+  cols.forEach(col => targets.set(col, explicit[col] ?? columnType(rows, col)));
+
+  const warnings: string[] = [];
+  let unconverted = 0;
+  const out = rows.map(row => {
+    const next: DataRow = { ...row };
+    targets.forEach((type, col) => {
+      const converted = convertValue(next[col], type);
+      if (converted === undefined) unconverted++;
+      else next[col] = converted;
+    });
+    return next;
+  });
+  if (unconverted > 0) warnings.push(`${unconverted} value(s) could not be converted and were kept as-is`);
+  return { rows: out, warnings };
+};
+
+const standardizeText: StepHandler<StandardizeTextParams> = (rows, params) => {
+  const cols = pickColumns(rows, params.columns, () => columnsOfType(rows, ['categorical', 'text']));
+  const textCase = params.case ?? 'title';
+  if (textCase === 'title') {
+    return { rows: applySelectedFixes(rows, fixesFor(cols, 'standardize_case')), warnings: [] };
+  }
+  const convert = textCase === 'lower' ? (s: string) => s.toLowerCase() : (s: string) => s.toUpperCase();
+  return {
+    rows: rows.map(row => {
+      const next: DataRow = { ...row };
+      cols.forEach(col => {
+        if (typeof next[col] === 'string') next[col] = convert(next[col] as string);
+      });
+      return next;
+    }),
+    warnings: [],
+  };
+};
+
+// ─── Transform steps ─────────────────────────────────────────────────────────
+
+export function matchesPredicate(row: DataRow, p: FilterPredicate): boolean {
+  const v = row[p.column];
+  switch (p.op) {
+    case 'is_null':
+      return isMissing(v);
+    case 'not_null':
+      return !isMissing(v);
+    case 'in': {
+      const list = Array.isArray(p.value) ? p.value : String(p.value ?? '').split(',').map(s => s.trim());
+      return list.some(item => compareValues(v, item) === 0);
+    }
+    case 'contains':
+    case 'not_contains':
+    case 'starts_with':
+    case 'ends_with': {
+      const hay = String(v ?? '').toLowerCase();
+      const needle = String(p.value ?? '').toLowerCase();
+      if (p.op === 'contains') return hay.includes(needle);
+      if (p.op === 'not_contains') return !hay.includes(needle);
+      if (p.op === 'starts_with') return hay.startsWith(needle);
+      return hay.endsWith(needle);
+    }
+  }
+
+  if (isMissing(v)) return p.op === 'neq' && !isMissing(p.value);
+  const cmp = compareValues(v, p.value);
+  switch (p.op) {
+    case 'eq': return cmp === 0;
+    case 'neq': return cmp !== 0;
+    case 'gt': return cmp > 0;
+    case 'gte': return cmp >= 0;
+    case 'lt': return cmp < 0;
+    case 'lte': return cmp <= 0;
+  }
+  return false;
+}
+
+const filter: StepHandler<FilterParams> = (rows, params) => {
+  const predicates = params.predicates ?? [];
+  if (predicates.length === 0) return { rows, warnings: ['No filter conditions — all rows kept'] };
+  requireColumns(rows, predicates.map(p => p.column));
+  const test = params.combine === 'or'
+    ? (row: DataRow) => predicates.some(p => matchesPredicate(row, p))
+    : (row: DataRow) => predicates.every(p => matchesPredicate(row, p));
+  return { rows: rows.filter(test), warnings: [] };
+};
+
+const sort: StepHandler<SortParams> = (rows, params) => {
+  const keys = params.keys ?? [];
+  if (keys.length === 0) return { rows, warnings: ['No sort keys — order unchanged'] };
+  requireColumns(rows, keys.map(k => k.column));
+  const out = [...rows].sort((a, b) => {
+    for (const { column, direction } of keys) {
+      const av = a[column];
+      const bv = b[column];
+      // Missing values always sink to the bottom, regardless of direction
+      if (isMissing(av) || isMissing(bv)) {
+        const cmp = compareValues(av, bv);
+        if (cmp !== 0) return cmp;
+        continue;
+      }
+      const cmp = compareValues(av, bv);
+      if (cmp !== 0) return direction === 'desc' ? -cmp : cmp;
+    }
+    return 0;
+  });
+  return { rows: out, warnings: [] };
+};
+
+const groupBy: StepHandler<GroupByParams> = (rows, params) => {
+  const by = params.by ?? [];
+  const aggs = params.aggregations ?? [];
+  if (by.length === 0 && aggs.length === 0) return { rows, warnings: ['No grouping configured — rows unchanged'] };
+  requireColumns(rows, [...by, ...aggs.map(a => a.column)]);
+
+  const groups = new Map<string, DataRow[]>();
+  for (const row of rows) {
+    const key = groupKey(row, by);
+    const list = groups.get(key);
+    if (list) list.push(row);
+    else groups.set(key, [row]);
+  }
+
+  const effectiveAggs = aggs.length > 0 ? aggs : [{ column: by[0], fn: 'count' as AggregateFn, as: 'count' }];
+  const out: DataRow[] = [];
+  groups.forEach(members => {
+    const result: DataRow = {};
+    by.forEach(col => { result[col] = members[0][col]; });
+    effectiveAggs.forEach(agg => {
+      const name = agg.as || (agg.fn === 'count' ? `count_${agg.column}` : `${agg.fn}_${agg.column}`);
+      result[name] = aggregate(members.map(m => m[agg.column]), agg.fn);
+    });
+    out.push(result);
+  });
+  return { rows: out, warnings: [] };
+};
+
+const pivot: StepHandler<PivotParams> = (rows, params) => {
+  const index = params.index ?? [];
+
+  if ((params.mode ?? 'pivot') === 'unpivot') {
+    const variableName = params.variableName || 'variable';
+    const valueName = params.valueName || 'value';
+    requireColumns(rows, index);
+    const valueColumns = pickColumns(rows, params.valueColumns, () =>
+      collectColumns(rows).filter(c => !index.includes(c)),
+    );
+    const out: DataRow[] = [];
+    for (const row of rows) {
+      for (const col of valueColumns) {
+        const next: DataRow = {};
+        index.forEach(i => { next[i] = row[i]; });
+        next[variableName] = col;
+        next[valueName] = row[col];
+        out.push(next);
+      }
+    }
+    return { rows: out, warnings: [] };
+  }
+
+  if (!params.column || !params.value) throw new Error('Pivot needs a column to spread and a value column');
+  requireColumns(rows, [...index, params.column, params.value]);
+  const fn = params.fn ?? 'sum';
+  const pivotValues: string[] = [];
+  const groups = new Map<string, { base: DataRow; cells: Map<string, unknown[]> }>();
+
+  for (const row of rows) {
+    const key = groupKey(row, index);
+    let group = groups.get(key);
+    if (!group) {
+      const base: DataRow = {};
+      index.forEach(i => { base[i] = row[i]; });
+      group = { base, cells: new Map() };
+      groups.set(key, group);
+    }
+    const header = isMissing(row[params.column]) ? 'null' : String(row[params.column]);
+    if (!pivotValues.includes(header)) pivotValues.push(header);
+    const cell = group.cells.get(header);
+    if (cell) cell.push(row[params.value]);
+    else group.cells.set(header, [row[params.value]]);
+  }
+
+  const warnings = pivotValues.length > 100 ? [`Pivot produced ${pivotValues.length} columns`] : [];
+  const out: DataRow[] = [];
+  groups.forEach(({ base, cells }) => {
+    const next: DataRow = { ...base };
+    pivotValues.forEach(h => {
+      const cell = cells.get(h);
+      next[h] = cell ? aggregate(cell, fn) : null;
+    });
+    out.push(next);
+  });
+  return { rows: out, warnings };
+};
+
+const join: StepHandler<JoinParams> = (rows, params, ctx) => {
+  if (!params.datasetId || !params.leftKey || !params.rightKey) {
+    throw new Error('Join needs a dataset and both key columns');
+  }
+  const right = ctx.resolveDataset?.(params.datasetId);
+  if (!right) throw new Error(`Dataset "${params.datasetId}" is not available to join`);
+  requireColumns(rows, [params.leftKey]);
+  requireColumns(right, [params.rightKey]);
+
+  const how = params.how ?? 'inner';
+  const suffix = params.suffix || '_right';
+  const leftCols = collectColumns(rows);
+  const rightCols = collectColumns(right).filter(c => c !== params.rightKey);
+  const rename = new Map<string, string>();
+  rightCols.forEach(c => rename.set(c, leftCols.includes(c) ? `${c}${suffix}` : c));
+
+  const index = new Map<string, DataRow[]>();
+  for (const r of right) {
+    if (isMissing(r[params.rightKey])) continue;
+    const key = String(r[params.rightKey]);
+    const list = index.get(key);
+    if (list) list.push(r);
+    else index.set(key, [r]);
+  }
+
+  const merge = (l: DataRow | null, r: DataRow | null): DataRow => {
+    const next: DataRow = {};
+    leftCols.forEach(c => { next[c] = l ? l[c] : null; });
+    if (!l && r) next[params.leftKey!] = r[params.rightKey!];
+    rightCols.forEach(c => { next[rename.get(c)!] = r ? r[c] : null; });
+    return next;
+  };
+
+  const out: DataRow[] = [];
+  const matchedRight = new Set<DataRow>();
+  for (const l of rows) {
+    const matches = isMissing(l[params.leftKey]) ? undefined : index.get(String(l[params.leftKey]));
+    if (matches) {
+      matches.forEach(r => {
+        matchedRight.add(r);
+        out.push(merge(l, r));
+      });
+    } else if (how === 'left' || how === 'outer') {
+      out.push(merge(l, null));
+    }
+  }
+  if (how === 'right' || how === 'outer') {
+    right.forEach(r => {
+      if (!matchedRight.has(r)) out.push(merge(null, r));
+    });
+  }
+  return { rows: out, warnings: [] };
+};
+
+const calc: StepHandler<CalcParams> = (rows, params) => {
+  if (!params.name?.trim()) throw new Error('Calculated column needs a name');
+  const compiled = compileExpression(params.expression ?? '');
+  requireColumns(rows, compiled.columns);
+  const name = params.name.trim();
+  let nulls = 0;
+  const out = rows.map(row => {
+    const value = compiled.evaluate(row);
+    if (value === null || value === undefined) nulls++;
+    return { ...row, [name]: typeof value === 'number' ? round4(value) : value };
+  });
+  return { rows: out, warnings: nulls > 0 ? [`${nulls} row(s) evaluated to null`] : [] };
+};
+
+const rename: StepHandler<RenameParams> = (rows, params) => {
+  const cols = collectColumns(rows);
+  const mapping = new Map<string, string>();
+  const renames = params.renames ?? [];
+  if (renames.length > 0) {
+    requireColumns(rows, renames.map(r => r.from));
+    renames.forEach(r => mapping.set(r.from, r.to.trim() || r.from));
+  } else {
+    // No explicit renames: standardize every header to snake_case
+    cols.forEach(c => mapping.set(c, standardizeColumnName(c) || c));
+  }
+  return {
+    rows: rows.map(row => {
+      const next: DataRow = {};
+      Object.entries(row).forEach(([k, v]) => { next[mapping.get(k) ?? k] = v; });
+      return next;
+    }),
+    warnings: [],
+  };
+};
+
+// ─── Encode / Scale steps ────────────────────────────────────────────────────
+
+function scaleColumns(
+  rows: DataRow[],
+  cols: string[],
+  scaler: (nums: number[]) => ((n: number) => number) | null,
+): StepOutput {
+  const warnings: string[] = [];
+  const scalers = new Map<string, (n: number) => number>();
+  cols.forEach(col => {
+    const s = scaler(numericValues(rows, col));
+    if (s) scalers.set(col, s);
+    else warnings.push(`${col} has no spread — left unscaled`);
+  });
+  return {
+    rows: rows.map(row => {
+      const next: DataRow = { ...row };
+      scalers.forEach((s, col) => {
+        const n = toNumber(next[col]);
+        if (n !== null) next[col] = round4(s(n));
+      });
+      return next;
+    }),
+    warnings,
+  };
+}
+
+const normalize: StepHandler<ScaleParams> = (rows, params) => {
+  const cols = pickColumns(rows, params.columns, () => columnsOfType(rows, ['numeric']));
+  return scaleColumns(rows, cols, nums => {
+    if (nums.length === 0) return null;
+    const { min, max } = extent(nums);
+    return max === min ? null : n => (n - min) / (max - min);
+  });
+};
+
+const standardize: StepHandler<ScaleParams> = (rows, params) => {
+  const cols = pickColumns(rows, params.columns, () => columnsOfType(rows, ['numeric']));
+  return scaleColumns(rows, cols, nums => {
+    if (nums.length === 0) return null;
+    const { mean, stdDev } = calculateNumericStats(nums);
+    return stdDev === 0 ? null : n => (n - mean) / stdDev;
+  });
+};
+
+const oneHot: StepHandler<OneHotParams> = (rows, params) => {
+  const maxCategories = params.maxCategories ?? 20;
+  const dropOriginal = params.dropOriginal ?? true;
+  const warnings: string[] = [];
+  const cols = pickColumns(rows, params.columns, () => columnsOfType(rows, ['categorical', 'boolean']));
+
+  const encodings = new Map<string, { value: string; name: string }[]>();
+  cols.forEach(col => {
+    const values = [...new Set(rows.map(r => r[col]).filter(v => !isMissing(v)).map(v => String(v)))];
+    if (values.length > maxCategories) {
+      warnings.push(`${col} has ${values.length} categories (limit ${maxCategories}) — skipped`);
+      return;
+    }
+    encodings.set(col, values.map(value => ({ value, name: `${col}_${standardizeColumnName(value) || 'blank'}` })));
+  });
+
+  return {
+    rows: rows.map(row => {
+      const next: DataRow = {};
+      Object.entries(row).forEach(([k, v]) => {
+        const enc = encodings.get(k);
+        if (!enc) {
+          next[k] = v;
+          return;
+        }
+        if (!dropOriginal) next[k] = v;
+        const str = isMissing(v) ? null : String(v);
+        enc.forEach(e => { next[e.name] = str === e.value ? 1 : 0; });
+      });
+      return next;
+    }),
+    warnings,
+  };
+};
+
+export function bucketLabel(edges: number[], index: number): string {
+  if (index === 0) return `< ${edges[0]}`;
+  if (index === edges.length) return `≥ ${edges[edges.length - 1]}`;
+  return `${edges[index - 1]}–${edges[index]}`;
+}
+
+const bucketize: StepHandler<BucketizeParams> = (rows, params) => {
+  const column = params.column ?? columnsOfType(rows, ['numeric'])[0];
+  if (!column) throw new Error('No numeric column to bucketize');
+  requireColumns(rows, [column]);
+
+  let edges = [...(params.edges ?? [])].sort((a, b) => a - b);
+  const warnings: string[] = [];
+  if (edges.length === 0) {
+    // Default to quartile buckets
+    const stats = calculateNumericStats(numericValues(rows, column));
+    edges = [...new Set([stats.q1, stats.median, stats.q3].map(round4))];
+    warnings.push(`No edges given — using quartiles (${edges.join(', ')})`);
+  }
+  const labels = params.labels && params.labels.length === edges.length + 1
+    ? params.labels
+    : edges.map((_, i) => bucketLabel(edges, i)).concat(bucketLabel(edges, edges.length));
+  const target = params.as || `${column}_bucket`;
+
+  return {
+    rows: rows.map(row => {
+      const n = toNumber(row[column]);
+      if (n === null) return { ...row, [target]: null };
+      let idx = edges.findIndex(e => n < e);
+      if (idx === -1) idx = edges.length;
+      return { ...row, [target]: labels[idx] };
+    }),
+    warnings,
+  };
+};
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+const HANDLERS: { [K in StepType]: StepHandler<StepParamsMap[K]> } = {
+  trim,
+  fill_missing: fillMissing,
+  remove_duplicates: removeDuplicates,
+  fix_types: fixTypes,
+  standardize_text: standardizeText,
+  filter,
+  sort,
+  group_by: groupBy,
+  pivot,
+  join,
+  calc,
+  rename,
+  normalize,
+  standardize,
+  one_hot: oneHot,
+  bucketize,
+};
+
+export const SUPPORTED_STEP_TYPES = Object.keys(HANDLERS) as StepType[];
+
+export function isSupportedStepType(type: string): type is StepType {
+  return type in HANDLERS;
+}
+
+/**
+ * Run a single step. Throws with a user-facing message when the step
+ * is misconfigured or references columns that don't exist.
+ */
+export function executeStep(rows: DataRow[], step: Pick<PipelineStep, 'type' | 'params'>, ctx: ExecutionContext = {}): StepOutput {
+  if (!isSupportedStepType(step.type)) throw new Error(`Unknown step type "${step.type}"`);
+  const handler = HANDLERS[step.type] as StepHandler<Record<string, unknown>>;
+  return handler(rows, step.params ?? {}, ctx);
+}
+
+/**
+ * Run one step and record timing, shape and any error.
+ * On failure the returned rows are the step's input, unchanged.
+ */
+export function runStep(rows: DataRow[], step: PipelineStep, ctx: ExecutionContext = {}): { rows: DataRow[]; info: StepRunInfo } {
+  const started = performance.now();
+  const info: StepRunInfo = {
+    stepId: step.id,
+    type: step.type,
+    label: step.label,
+    rowsIn: rows.length,
+    rowsOut: rows.length,
+    columnsIn: collectColumns(rows).length,
+    columnsOut: 0,
+    durationMs: 0,
+    warnings: [],
+  };
+
+  let out = rows;
+  try {
+    const output = executeStep(rows, step, ctx);
+    out = output.rows;
+    info.warnings = output.warnings;
+  } catch (err) {
+    info.error = err instanceof Error ? err.message : String(err);
+  }
+
+  info.rowsOut = out.length;
+  info.columnsOut = collectColumns(out).length;
+  info.durationMs = performance.now() - started;
+  return { rows: out, info };
+}
+
+/**
+ * Run steps in order, stopping at the first failure.
+ * The returned rows are the output of the last successful step.
+ */
+export function runPipeline(rows: DataRow[], steps: PipelineStep[], ctx: ExecutionContext = {}): PipelineRunResult {
+  let current = rows;
+  const infos: StepRunInfo[] = [];
+  let failedStepId: string | undefined;
+
+  for (const step of steps) {
+    const { rows: out, info } = runStep(current, step, ctx);
+    current = out;
+    infos.push(info);
+    if (info.error) {
+      failedStepId = step.id;
+      break;
+    }
+  }
+
+  return { rows: current, schema: buildColumnSchema(current), steps: infos, failedStepId };
+}
@@ -0,0 +1,393 @@
+/**
+ * Calculated-column expression language.
+ * Small, sandboxed formula syntax evaluated per row — never passed to eval().
+ *
+ *   revenue / quantity
+ *   round([Unit Price] * 1.2, 2)
+ *   if(region == 'North' && revenue > 1000, 'big', 'small')
+ */
+
+type DataRow = Record<string, unknown>;
+
+type Token =
+  | { kind: 'num'; value: number }
+  | { kind: 'str'; value: string }
+  | { kind: 'ident'; value: string }
+  | { kind: 'col'; value: string }
+  | { kind: 'op'; value: string }
+  | { kind: 'paren'; value: '(' | ')' }
+  | { kind: 'comma' };
+
+export type ExpressionNode =
+  | { kind: 'lit'; value: unknown }
+  | { kind: 'col'; name: string }
+  | { kind: 'unary'; op: string; arg: ExpressionNode }
+  | { kind: 'binary'; op: string; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; fn: string; args: ExpressionNode[] };
+
+export interface CompiledExpression {
+  source: string;
+  // Parsed syntax tree, for translating the formula into other languages
+  ast: ExpressionNode;
+  columns: string[];
+  evaluate: (row: DataRow) => unknown;
+}
+
+// ─── Tokenizer ───────────────────────────────────────────────────────────────
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '+', '-', '*', '/', '%', '^', '<', '>', '!'];
+const WORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < src.length) {
+    const ch = src[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(ch)) {
+      const match = src.slice(i).match(/^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i);
+      if (!match) throw new Error(`Unexpected "${ch}" at position ${i}`);
+      tokens.push({ kind: 'num', value: parseFloat(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      let value = '';
+      while (j < src.length && src[j] !== ch) {
+        if (src[j] === '\\' && j + 1 < src.length) j++;
+        value += src[j];
+        j++;
+      }
+      if (j >= src.length) throw new Error(`Unterminated string starting at position ${i}`);
+      tokens.push({ kind: 'str', value });
+      i = j + 1;
+      continue;
+    }
+
+    if (ch === '[') {
+      const end = src.indexOf(']', i);
+      if (end === -1) throw new Error(`Unterminated column reference at position ${i}`);
+      tokens.push({ kind: 'col', value: src.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const word = src.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)![0];
+      const lower = word.toLowerCase();
+      if (WORD_OPERATORS[lower]) tokens.push({ kind: 'op', value: WORD_OPERATORS[lower] });
+      else tokens.push({ kind: 'ident', value: word });
+      i += word.length;
+      continue;
+    }
+
+    if (ch === '(' || ch === ')') {
+      tokens.push({ kind: 'paren', value: ch });
+      i++;
+      continue;
+    }
+
+    if (ch === ',') {
+      tokens.push({ kind: 'comma' });
+      i++;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => src.startsWith(o, i));
+    if (op) {
+      tokens.push({ kind: 'op', value: op });
+      i += op.length;
+      continue;
+    }
+
+    throw new Error(`Unexpected "${ch}" at position ${i}`);
+  }
+
+  return tokens;
+}
+
+// ─── Parser (precedence climbing) ────────────────────────────────────────────
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+  '^': 7,
+};
+
+function parse(tokens: Token[]): ExpressionNode {
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+
+  function parsePrimary(): ExpressionNode {
+    const tok = next();
+    if (!tok) throw new Error('Unexpected end of expression');
+
+    switch (tok.kind) {
+      case 'num':
+      case 'str':
+        return { kind: 'lit', value: tok.value };
+      case 'col':
+        return { kind: 'col', name: tok.value };
+      case 'ident': {
+        const lower = tok.value.toLowerCase();
+        if (lower === 'true') return { kind: 'lit', value: true };
+        if (lower === 'false') return { kind: 'lit', value: false };
+        if (lower === 'null') return { kind: 'lit', value: null };
+        const after = peek();
+        if (after?.kind === 'paren' && after.value === '(') {
+          next();
+          const args: ExpressionNode[] = [];
+          if (!(peek()?.kind === 'paren' && (peek() as { value: string }).value === ')')) {
+            args.push(parseExpr(0));
+            while (peek()?.kind === 'comma') {
+              next();
+              args.push(parseExpr(0));
+            }
+          }
+          const close = next();
+          if (close?.kind !== 'paren' || close.value !== ')') throw new Error(`Missing ")" after arguments to ${tok.value}()`);
+          return { kind: 'call', fn: lower, args };
+        }
+        return { kind: 'col', name: tok.value };
+      }
+      case 'paren': {
+        if (tok.value !== '(') throw new Error('Unexpected ")"');
+        const inner = parseExpr(0);
+        const close = next();
+        if (close?.kind !== 'paren' || close.value !== ')') throw new Error('Missing ")"');
+        return inner;
+      }
+      case 'op':
+        if (tok.value === '-' || tok.value === '!' || tok.value === '+') {
+          return { kind: 'unary', op: tok.value, arg: parseExpr(8) };
+        }
+        throw new Error(`Unexpected operator "${tok.value}"`);
+      default:
+        throw new Error('Unexpected ","');
+    }
+  }
+
+  function parseExpr(minPrec: number): ExpressionNode {
+    let left = parsePrimary();
+    for (;;) {
+      const tok = peek();
+      if (!tok || tok.kind !== 'op') break;
+      const prec = BINARY_PRECEDENCE[tok.value];
+      if (prec === undefined || prec < minPrec) break;
+      next();
+      // '^' is right-associative, everything else left-associative
+      const right = parseExpr(tok.value === '^' ? prec : prec + 1);
+      left = { kind: 'binary', op: tok.value, left, right };
+    }
+    return left;
+  }
+
+  const root = parseExpr(0);
+  if (pos < tokens.length) throw new Error('Unexpected trailing input in expression');
+  return root;
+}
+
+// ─── Evaluation ──────────────────────────────────────────────────────────────
+
+function isBlank(v: unknown): boolean {
+  return v === null || v === undefined || (typeof v === 'string' && v.trim() === '');
+}
+
+function toNumber(v: unknown): number | null {
+  if (typeof v === 'number') return isNaN(v) ? null : v;
+  if (typeof v === 'boolean') return v ? 1 : 0;
+  if (isBlank(v)) return null;
+  const num = Number(String(v).replace(/[,$]/g, ''));
+  return isNaN(num) ? null : num;
+}
+
+function toDate(v: unknown): Date | null {
+  if (v instanceof Date) return v;
+  if (isBlank(v)) return null;
+  const d = new Date(String(v));
+  return isNaN(d.getTime()) ? null : d;
+}
+
+function arith(op: string, a: unknown, b: unknown): unknown {
+  if (op === '+' && (typeof a === 'string' || typeof b === 'string') && (toNumber(a) === null || toNumber(b) === null)) {
+    return `${a ?? ''}${b ?? ''}`;
+  }
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (x === null || y === null) return null;
+  switch (op) {
+    case '+': return x + y;
+    case '-': return x - y;
+    case '*': return x * y;
+    case '/': return y === 0 ? null : x / y;
+    case '%': return y === 0 ? null : x % y;
+    case '^': return Math.pow(x, y);
+  }
+  return null;
+}
+
+function compare(op: string, a: unknown, b: unknown): boolean {
+  const x = toNumber(a);
+  const y = toNumber(b);
+  let cmp: number;
+  if (x !== null && y !== null) cmp = x - y;
+  else if (isBlank(a) || isBlank(b)) {
+    if (op === '==') return isBlank(a) && isBlank(b);
+    if (op === '!=') return isBlank(a) !== isBlank(b);
+    return false;
+  } else cmp = String(a).localeCompare(String(b));
+
+  switch (op) {
+    case '==': return cmp === 0;
+    case '!=': return cmp !== 0;
+    case '<': return cmp < 0;
+    case '<=': return cmp <= 0;
+    case '>': return cmp > 0;
+    case '>=': return cmp >= 0;
+  }
+  return false;
+}
+
+const round = (n: number, digits = 0) => {
+  const f = Math.pow(10, digits);
+  return Math.round(n * f) / f;
+};
+
+type Fn = (args: unknown[]) => unknown;
+
+const num1 = (f: (n: number) => number): Fn => ([a]) => {
+  const n = toNumber(a);
+  return n === null ? null : f(n);
+};
+
+const FUNCTIONS: Record<string, Fn> = {
+  abs: num1(Math.abs),
+  floor: num1(Math.floor),
+  ceil: num1(Math.ceil),
+  sqrt: num1(Math.sqrt),
+  log: num1(Math.log),
+  exp: num1(Math.exp),
+  round: ([a, d]) => {
+    const n = toNumber(a);
+    return n === null ? null : round(n, toNumber(d) ?? 0);
+  },
+  pow: ([a, b]) => arith('^', a, b),
+  min: (args) => {
+    const nums = args.map(toNumber).filter((n): n is number => n !== null);
+    return nums.length ? Math.min(...nums) : null;
+  },
+  max: (args) => {
+    const nums = args.map(toNumber).filter((n): n is number => n !== null);
+    return nums.length ? Math.max(...nums) : null;
+  },
+  upper: ([a]) => (isBlank(a) ? a : String(a).toUpperCase()),
+  lower: ([a]) => (isBlank(a) ? a : String(a).toLowerCase()),
+  trim: ([a]) => (isBlank(a) ? a : String(a).trim()),
+  len: ([a]) => (a === null || a === undefined ? 0 : String(a).length),
+  concat: (args) => args.map(a => (a === null || a === undefined ? '' : String(a))).join(''),
+  coalesce: (args) => args.find(a => !isBlank(a)) ?? null,
+  if: ([cond, a, b]) => (cond ? a : b),
+  isnull: ([a]) => isBlank(a),
+  year: ([a]) => toDate(a)?.getFullYear() ?? null,
+  month: ([a]) => {
+    const d = toDate(a);
+    return d ? d.getMonth() + 1 : null;
+  },
+  day: ([a]) => toDate(a)?.getDate() ?? null,
+};
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+function evaluateNode(node: ExpressionNode, row: DataRow): unknown {
+  switch (node.kind) {
+    case 'lit':
+      return node.value;
+    case 'col':
+      return row[node.name];
+    case 'unary': {
+      const v = evaluateNode(node.arg, row);
+      if (node.op === '!') return !v;
+      const n = toNumber(v);
+      if (n === null) return null;
+      return node.op === '-' ? -n : n;
+    }
+    case 'binary': {
+      if (node.op === '&&') return Boolean(evaluateNode(node.left, row)) && Boolean(evaluateNode(node.right, row));
+      if (node.op === '||') return Boolean(evaluateNode(node.left, row)) || Boolean(evaluateNode(node.right, row));
+      const a = evaluateNode(node.left, row);
+      const b = evaluateNode(node.right, row);
+      if (['==', '!=', '<', '<=', '>', '>='].includes(node.op)) return compare(node.op, a, b);
+      return arith(node.op, a, b);
+    }
+    case 'call':
+      return FUNCTIONS[node.fn](node.args.map(arg => evaluateNode(arg, row)));
+  }
+}
+
+function collectColumns(node: ExpressionNode, out: Set<string>): void {
+  switch (node.kind) {
+    case 'col':
+      out.add(node.name);
+      break;
+    case 'unary':
+      collectColumns(node.arg, out);
+      break;
+    case 'binary':
+      collectColumns(node.left, out);
+      collectColumns(node.right, out);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectColumns(arg, out));
+      break;
+  }
+}
+
+function checkFunctions(node: ExpressionNode): void {
+  if (node.kind === 'call') {
+    if (!FUNCTIONS[node.fn]) throw new Error(`Unknown function "${node.fn}()"`);
+    node.args.forEach(checkFunctions);
+  } else if (node.kind === 'unary') {
+    checkFunctions(node.arg);
+  } else if (node.kind === 'binary') {
+    checkFunctions(node.left);
+    checkFunctions(node.right);
+  }
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Parse an expression once and return a per-row evaluator.
+ * Throws with a readable message on syntax errors or unknown functions.
+ */
+export function compileExpression(source: string): CompiledExpression {
+  if (!source || !source.trim()) throw new Error('Expression is empty');
+  const ast = parse(tokenize(source));
+  checkFunctions(ast);
+  const columns = new Set<string>();
+  collectColumns(ast, columns);
+
+  return {
+    source,
+    ast,
+    columns: [...columns],
+    evaluate: (row) => {
+      const value = evaluateNode(ast, row);
+      return typeof value === 'number' && !isFinite(value) ? null : value;
+    },
+  };
+}
@@ -0,0 +1,32 @@
+export {
+  executeStep,
+  runStep,
+  runPipeline,
+  aggregate,
+  matchesPredicate,
+  isMissing,
+  columnType,
+  columnsOfType,
+  bucketLabel,
+  isSupportedStepType,
+  SUPPORTED_STEP_TYPES,
+  type ExecutionContext,
+  type StepOutput,
+  type StepRunInfo,
+  type PipelineRunResult,
+} from './executor';
+export {
+  STEP_PARAM_SCHEMAS,
+  AGGREGATE_FNS,
+  FILTER_OPS,
+  defaultParams,
+  requiresConfiguration,
+  validateStepParams,
+  type ParamValidationResult,
+  type ValidationContext,
+} from './paramSchemas';
+export { describeStep } from './describe';
+export { PipelineSnapshotCache, type StepSnapshot, type SnapshotTrace } from './snapshotCache';
+export { diffSnapshots, type SnapshotDiff } from './diff';
+export { compileExpression, EXPRESSION_FUNCTIONS, type CompiledExpression, type ExpressionNode } from './expression';
+export type * from './types';
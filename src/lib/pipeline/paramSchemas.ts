@@ -0,0 +1,283 @@
+/**
+ * Zod schemas for pipeline step parameters.
+ * Structural validation comes from the schema; column references and
+ * expressions are checked against the columns available at that step.
+ */
+
+import { z } from 'zod';
+import { compileExpression } from './expression';
+import type { AggregateFn, FilterOp, StepParamsMap, StepType } from './types';
+
+export const AGGREGATE_FNS: AggregateFn[] = ['sum', 'mean', 'median', 'min', 'max', 'count', 'count_distinct'];
+
+export const FILTER_OPS: { op: FilterOp; label: string; needsValue: boolean }[] = [
+  { op: 'eq', label: '=', needsValue: true },
+  { op: 'neq', label: '≠', needsValue: true },
+  { op: 'gt', label: '>', needsValue: true },
+  { op: 'gte', label: '≥', needsValue: true },
+  { op: 'lt', label: '<', needsValue: true },
+  { op: 'lte', label: '≤', needsValue: true },
+  { op: 'contains', label: 'contains', needsValue: true },
+  { op: 'not_contains', label: 'does not contain', needsValue: true },
+  { op: 'starts_with', label: 'starts with', needsValue: true },
+  { op: 'ends_with', label: 'ends with', needsValue: true },
+  { op: 'in', label: 'is one of', needsValue: true },
+  { op: 'is_null', label: 'is empty', needsValue: false },
+  { op: 'not_null', label: 'is not empty', needsValue: false },
+];
+
+const columnName = z.string().trim().min(1, 'Column is required');
+const columnList = z.array(columnName);
+const aggregateFn = z.enum(AGGREGATE_FNS as [AggregateFn, ...AggregateFn[]]);
+const columnType = z.enum(['numeric', 'categorical', 'date', 'boolean', 'text']);
+const scalar = z.union([z.string(), z.number(), z.boolean()]);
+
+const predicate = z
+  .object({
+    column: columnName,
+    op: z.enum(FILTER_OPS.map(o => o.op) as [FilterOp, ...FilterOp[]]),
+    value: z.union([scalar, z.array(z.union([z.string(), z.number()]))]).optional(),
+  })
+  .refine(
+    p => !FILTER_OPS.find(o => o.op === p.op)?.needsValue || (p.value !== undefined && p.value !== ''),
+    { message: 'Condition needs a value', path: ['value'] },
+  );
+
+// Typed loosely: without strictNullChecks zod infers every key as optional,
+// so the inferred outputs can't be checked against StepParamsMap directly.
+export const STEP_PARAM_SCHEMAS: Record<StepType, z.ZodTypeAny> = {
+  trim: z.object({
+    columns: columnList.optional(),
+    collapseSpaces: z.boolean().optional(),
+  }),
+  fill_missing: z
+    .object({
+      columns: columnList.optional(),
+      strategy: z.enum(['auto', 'mean', 'median', 'mode', 'constant', 'unknown', 'forward_fill', 'drop']).optional(),
+      value: z.union([z.string(), z.number()]).optional(),
+    })
+    .refine(p => p.strategy !== 'constant' || (p.value !== undefined && p.value !== ''), {
+      message: 'A fill value is required for the constant strategy',
+      path: ['value'],
+    }),
+  remove_duplicates: z.object({
+    columns: columnList.optional(),
+    keep: z.enum(['first', 'last']).optional(),
+  }),
+  fix_types: z.object({
+    columns: columnList.optional(),
+    types: z.record(columnType).optional(),
+  }),
+  standardize_text: z.object({
+    columns: columnList.optional(),
+    case: z.enum(['lower', 'upper', 'title']).optional(),
+  }),
+  filter: z.object({
+    predicates: z.array(predicate).min(1, 'Add at least one condition'),
+    combine: z.enum(['and', 'or']).optional(),
+  }),
+  sort: z.object({
+    keys: z.array(z.object({ column: columnName, direction: z.enum(['asc', 'desc']) })).min(1, 'Add at least one sort key'),
+  }),
+  group_by: z
+    .object({
+      by: columnList,
+      aggregations: z.array(z.object({ column: columnName, fn: aggregateFn, as: z.string().trim().optional() })),
+    })
+    .refine(p => p.by.length > 0 || p.aggregations.length > 0, {
+      message: 'Pick grouping columns or at least one aggregation',
+      path: ['by'],
+    }),
+  pivot: z
+    .object({
+      mode: z.enum(['pivot', 'unpivot']).optional(),
+      index: columnList.optional(),
+      column: z.string().optional(),
+      value: z.string().optional(),
+      fn: aggregateFn.optional(),
+      valueColumns: columnList.optional(),
+      variableName: z.string().trim().optional(),
+      valueName: z.string().trim().optional(),
+    })
+    .refine(p => p.mode === 'unpivot' || (!!p.column && !!p.value), {
+      message: 'Pivot needs a column to spread and a value column',
+      path: ['column'],
+    }),
+  join: z.object({
+    datasetId: z.string().min(1, 'Pick a dataset to join'),
+    leftKey: columnName,
+    rightKey: columnName,
+    how: z.enum(['inner', 'left', 'right', 'outer']).optional(),
+    suffix: z.string().optional(),
+  }),
+  calc: z.object({
+    name: z.string().trim().min(1, 'New column name is required'),
+    expression: z.string().trim().min(1, 'Expression is required'),
+  }),
+  rename: z.object({
+    renames: z
+      .array(z.object({ from: columnName, to: z.string().trim().min(1, 'New name is required') }))
+      .optional(),
+  }),
+  normalize: z.object({ columns: columnList.optional() }),
+  standardize: z.object({ columns: columnList.optional() }),
+  one_hot: z.object({
+    columns: columnList.optional(),
+    dropOriginal: z.boolean().optional(),
+    maxCategories: z.number().int().min(2).max(500).optional(),
+  }),
+  bucketize: z
+    .object({
+      column: z.string().optional(),
+      edges: z.array(z.number()).optional(),
+      labels: z.array(z.string()).optional(),
+      as: z.string().trim().optional(),
+    })
+    .refine(p => !p.labels?.length || p.labels.length === (p.edges?.length ?? 0) + 1, {
+      message: 'Provide one more label than there are edges',
+      path: ['labels'],
+    }),
+};
+
+// Steps that cannot do anything useful without the user filling in params
+const NEEDS_CONFIGURATION: StepType[] = ['filter', 'sort', 'group_by', 'pivot', 'join', 'calc'];
+
+export function requiresConfiguration(type: string): boolean {
+  return NEEDS_CONFIGURATION.includes(type as StepType);
+}
+
+export function defaultParams<K extends StepType>(type: K): StepParamsMap[K];
+export function defaultParams(type: StepType): StepParamsMap[StepType] {
+  switch (type) {
+    case 'trim':
+      return { collapseSpaces: true };
+    case 'fill_missing':
+      return { strategy: 'auto' };
+    case 'remove_duplicates':
+      return { keep: 'first' };
+    case 'standardize_text':
+      return { case: 'title' };
+    case 'filter':
+      return { predicates: [], combine: 'and' };
+    case 'sort':
+      return { keys: [] };
+    case 'group_by':
+      return { by: [], aggregations: [] };
+    case 'pivot':
+      return { mode: 'pivot', index: [], fn: 'sum' };
+    case 'join':
+      return { how: 'left', suffix: '_right' };
+    case 'calc':
+      return { name: '', expression: '' };
+    case 'one_hot':
+      return { dropOriginal: true, maxCategories: 20 };
+    default:
+      return {};
+  }
+}
+
+export interface ParamValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+export interface ValidationContext {
+  // Columns present in the step's input
+  columns?: string[];
+  // Columns of the dataset referenced by a join
+  joinColumns?: string[];
+}
+
+function referencedColumns(type: StepType, params: Record<string, unknown>): string[] {
+  const p = params as StepParamsMap[StepType] & Record<string, unknown>;
+  const refs: string[] = [];
+  const add = (v: unknown) => {
+    if (typeof v === 'string' && v) refs.push(v);
+    else if (Array.isArray(v)) v.forEach(add);
+  };
+  switch (type) {
+    case 'filter':
+      (p as StepParamsMap['filter']).predicates?.forEach(pr => add(pr.column));
+      break;
+    case 'sort':
+      (p as StepParamsMap['sort']).keys?.forEach(k => add(k.column));
+      break;
+    case 'group_by': {
+      const g = p as StepParamsMap['group_by'];
+      add(g.by);
+      g.aggregations?.forEach(a => add(a.column));
+      break;
+    }
+    case 'pivot': {
+      const pv = p as StepParamsMap['pivot'];
+      add(pv.index);
+      if (pv.mode === 'unpivot') add(pv.valueColumns);
+      else {
+        add(pv.column);
+        add(pv.value);
+      }
+      break;
+    }
+    case 'join':
+      add((p as StepParamsMap['join']).leftKey);
+      break;
+    case 'rename':
+      (p as StepParamsMap['rename']).renames?.forEach(r => add(r.from));
+      break;
+    case 'fix_types':
+      add(Object.keys((p as StepParamsMap['fix_types']).types ?? {}));
+      add(p.columns);
+      break;
+    case 'bucketize':
+      add((p as StepParamsMap['bucketize']).column);
+      break;
+    case 'calc':
+      break;
+    default:
+      add(p.columns);
+  }
+  return refs;
+}
+
+/**
+ * Validate a step's params: schema shape first, then column references
+ * and calc expressions against the step's input columns.
+ */
+export function validateStepParams(type: string, stepParams: object, ctx: ValidationContext = {}): ParamValidationResult {
+  const params = stepParams as Record<string, unknown>;
+  const schema = STEP_PARAM_SCHEMAS[type as StepType];
+  if (!schema) return { valid: false, errors: [`Unknown step type "${type}"`] };
+
+  const parsed = schema.safeParse(params);
+  if (!parsed.success) {
+    const errors = parsed.error.issues.map(issue => issue.message);
+    return { valid: false, errors: [...new Set(errors)] };
+  }
+
+  const errors: string[] = [];
+  if (ctx.columns) {
+    const known = new Set(ctx.columns);
+    const missing = [...new Set(referencedColumns(type as StepType, params))].filter(c => !known.has(c));
+    if (missing.length > 0) errors.push(`Unknown column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+  }
+
+  if (type === 'join' && ctx.joinColumns) {
+    const rightKey = (params as StepParamsMap['join']).rightKey;
+    if (rightKey && !ctx.joinColumns.includes(rightKey)) errors.push(`Joined dataset has no column "${rightKey}"`);
+  }
+
+  if (type === 'calc') {
+    const { expression } = params as StepParamsMap['calc'];
+    try {
+      const compiled = compileExpression(expression ?? '');
+      if (ctx.columns) {
+        const unknown = compiled.columns.filter(c => !ctx.columns!.includes(c));
+        if (unknown.length > 0) errors.push(`Expression references unknown column${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`);
+      }
+    } catch (err) {
+      errors.push(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
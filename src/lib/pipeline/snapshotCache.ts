@@ -0,0 +1,108 @@
+/**
+ * Snapshot cache for step-by-step pipeline previews.
+ * Each step's output is keyed by a fingerprint chained from the source rows
+ * and every step up to it, so editing step N reuses snapshots 0..N-1 and
+ * only recomputes from N onward.
+ */
+
+import type { PipelineStep } from '@/store/workspace';
+import { LRUCache } from '../processor/lruCache';
+import { runStep, type ExecutionContext, type StepRunInfo } from './executor';
+
+type DataRow = Record<string, unknown>;
+
+export interface StepSnapshot {
+  key: string;
+  stepId: string;
+  rows: DataRow[];
+  info: StepRunInfo;
+  cached: boolean;
+}
+
+export interface SnapshotTrace {
+  snapshots: StepSnapshot[];
+  failedStepId?: string;
+  // Number of steps actually executed (cache misses) for this trace
+  computed: number;
+}
+
+function hashString(str: string): string {
+  // djb2, same scheme as hashRow
+  let hash = 5381;
+  for (let i = 0; i < str.length; i++) {
+    hash = ((hash << 5) + hash + str.charCodeAt(i)) & 0xffffffff;
+  }
+  return hash.toString(36);
+}
+
+export class PipelineSnapshotCache {
+  private cache: LRUCache<Omit<StepSnapshot, 'cached'>>;
+  // Row arrays are immutable in the store, so identity is a cheap version tag
+  private versions = new WeakMap<object, number>();
+  private nextVersion = 1;
+
+  constructor(maxSnapshots = 64) {
+    this.cache = new LRUCache(maxSnapshots);
+  }
+
+  private versionOf(rows: DataRow[]): number {
+    let v = this.versions.get(rows);
+    if (v === undefined) {
+      v = this.nextVersion++;
+      this.versions.set(rows, v);
+    }
+    return v;
+  }
+
+  private stepKey(prevKey: string, step: PipelineStep, ctx: ExecutionContext): string {
+    let fingerprint = `${prevKey}|${step.type}|${JSON.stringify(step.params ?? {})}`;
+    // A join also depends on the other dataset's rows
+    if (step.type === 'join' && typeof step.params?.datasetId === 'string') {
+      const other = ctx.resolveDataset?.(step.params.datasetId);
+      fingerprint += `|${other ? this.versionOf(other) : 'missing'}`;
+    }
+    return hashString(fingerprint);
+  }
+
+  /**
+   * Materialize every step's output, reusing cached snapshots where the
+   * chained fingerprint matches. Stops at the first failing step.
+   */
+  run(rows: DataRow[], steps: PipelineStep[], ctx: ExecutionContext = {}): SnapshotTrace {
+    const snapshots: StepSnapshot[] = [];
+    let prevKey = `src:${this.versionOf(rows)}`;
+    let current = rows;
+    let computed = 0;
+
+    for (const step of steps) {
+      const key = this.stepKey(prevKey, step, ctx);
+      const hit = this.cache.get(key);
+      let snapshot: StepSnapshot;
+
+      if (hit) {
+        // Same work, but the step may have been relabelled or re-created
+        snapshot = { ...hit, stepId: step.id, info: { ...hit.info, stepId: step.id, label: step.label }, cached: true };
+      } else {
+        const { rows: out, info } = runStep(current, step, ctx);
+        computed++;
+        snapshot = { key, stepId: step.id, rows: out, info, cached: false };
+        if (!info.error) this.cache.set(key, snapshot);
+      }
+
+      snapshots.push(snapshot);
+      if (snapshot.info.error) return { snapshots, failedStepId: step.id, computed };
+      current = snapshot.rows;
+      prevKey = key;
+    }
+
+    return { snapshots, computed };
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  get size(): number {
+    return this.cache.size;
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Pipeline step types and their parameter shapes.
+ * Every `PipelineStep.params` in the workspace store is one of these objects,
+ * keyed by `PipelineStep.type`. Omitted fields fall back to executor defaults.
+ */
+
+export type StepType =
+  | 'trim'
+  | 'fill_missing'
+  | 'remove_duplicates'
+  | 'fix_types'
+  | 'standardize_text'
+  | 'filter'
+  | 'sort'
+  | 'group_by'
+  | 'pivot'
+  | 'join'
+  | 'calc'
+  | 'rename'
+  | 'normalize'
+  | 'standardize'
+  | 'one_hot'
+  | 'bucketize';
+
+export type ColumnType = 'numeric' | 'categorical' | 'date' | 'boolean' | 'text';
+
+export type AggregateFn = 'sum' | 'mean' | 'median' | 'min' | 'max' | 'count' | 'count_distinct';
+
+export type FilterOp =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'contains'
+  | 'not_contains'
+  | 'starts_with'
+  | 'ends_with'
+  | 'in'
+  | 'is_null'
+  | 'not_null';
+
+export interface FilterPredicate {
+  column: string;
+  op: FilterOp;
+  value?: string | number | boolean | (string | number)[];
+}
+
+export interface TrimParams {
+  columns?: string[];
+  collapseSpaces?: boolean;
+}
+
+export interface FillMissingParams {
+  columns?: string[];
+  strategy?: 'auto' | 'mean' | 'median' | 'mode' | 'constant' | 'unknown' | 'forward_fill' | 'drop';
+  value?: string | number;
+}
+
+export interface RemoveDuplicatesParams {
+  columns?: string[];
+  keep?: 'first' | 'last';
+}
+
+export interface FixTypesParams {
+  columns?: string[];
+  types?: Record<string, ColumnType>;
+}
+
+export interface StandardizeTextParams {
+  columns?: string[];
+  case?: 'lower' | 'upper' | 'title';
+}
+
+export interface FilterParams {
+  predicates?: FilterPredicate[];
+  combine?: 'and' | 'or';
+}
+
+export interface SortParams {
+  keys?: { column: string; direction: 'asc' | 'desc' }[];
+}
+
+export interface GroupByParams {
+  by?: string[];
+  aggregations?: { column: string; fn: AggregateFn; as?: string }[];
+}
+
+export interface PivotParams {
+  mode?: 'pivot' | 'unpivot';
+  index?: string[];
+  // pivot
+  column?: string;
+  value?: string;
+  fn?: AggregateFn;
+  // unpivot
+  valueColumns?: string[];
+  variableName?: string;
+  valueName?: string;
+}
+
+export interface JoinParams {
+  datasetId?: string;
+  leftKey?: string;
+  rightKey?: string;
+  how?: 'inner' | 'left' | 'right' | 'outer';
+  suffix?: string;
+}
+
+export interface CalcParams {
+  name?: string;
+  expression?: string;
+}
+
+export interface RenameParams {
+  renames?: { from: string; to: string }[];
+}
+
+export interface ScaleParams {
+  columns?: string[];
+}
+
+export interface OneHotParams {
+  columns?: string[];
+  dropOriginal?: boolean;
+  maxCategories?: number;
+}
+
+export interface BucketizeParams {
+  column?: string;
+  edges?: number[];
+  labels?: string[];
+  as?: string;
+}
+
+export interface StepParamsMap {
+  trim: TrimParams;
+  fill_missing: FillMissingParams;
+  remove_duplicates: RemoveDuplicatesParams;
+  fix_types: FixTypesParams;
+  standardize_text: StandardizeTextParams;
+  filter: FilterParams;
+  sort: SortParams;
+  group_by: GroupByParams;
+  pivot: PivotParams;
+  join: JoinParams;
+  calc: CalcParams;
+  rename: RenameParams;
+  normalize: ScaleParams;
+  standardize: ScaleParams;
+  one_hot: OneHotParams;
+  bucketize: BucketizeParams;
+}
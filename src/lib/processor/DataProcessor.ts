@@ -2,26 +2,51 @@
  * DataProcessor — Orchestrator class for the data cleaning pipeline.
  * Implements chunked processing, schema validation, contextual transforms,
  * optional LLM cleaning, and structured logging.
+ *
+ * Rows can be fed all at once via `process`, or incrementally via
+ * `begin` / `addChunk` / `finish` when they arrive from a stream.
  */
 
 import { ProcessingLogger } from './logger';
 import { inferColumnDefs, buildRowSchema, validateRows, type RejectedRow, type ColumnDef } from './schemaValidator';
 import { applyContextualTransformations, type ContextualReport } from '../contextualMatcher';
-import { cleanWithLLM, identifyRowsNeedingLLM, type LLMCleaningResult, type LLMProgressCallback } from './llmInterface';
+import { cleanWithLLM, identifyRowsNeedingLLM, type LLMCleaningResult, type LLMConfig, type LLMProgressCallback } from './llmInterface';
 import { cleanDataAdvanced } from '../dataCleaner';
 import { type CleaningConfig, type EnhancedCleaningResult } from '../dataTypes';
 
 type DataRow = Record<string, unknown>;
 
 const DEFAULT_CHUNK_SIZE = 1000;
+// How long the chunk loop in `process` may hold the thread before yielding
+const YIELD_INTERVAL_MS = 50;
+
+export type ProcessorPhase = 'parsing' | 'contextual' | 'validation' | 'llm' | 'cleaning' | 'done';
+
+export interface ProcessorProgress {
+  phase: ProcessorPhase;
+  rowsProcessed: number;
+  totalRows?: number;
+  // Completion of the current phase, 0–1, when it can be measured
+  fraction?: number;
+  message: string;
+}
 
 export interface ProcessorConfig {
   cleaningConfig: CleaningConfig;
   chunkSize?: number;
   enableLLM?: boolean;
-  llmProvider?: 'groq' | 'google';
-  llmApiKey?: string;
+  // Provider resolved from Settings by resolveLLMConfig; LLM cleaning only runs with one
+  llm?: LLMConfig;
   onLLMProgress?: LLMProgressCallback;
+  onProgress?: (progress: ProcessorProgress) => void;
+  signal?: AbortSignal;
+}
+
+export class ProcessingCancelledError extends Error {
+  constructor() {
+    super('Processing cancelled');
+    this.name = 'ProcessingCancelledError';
+  }
 }
 
 export interface ProcessorResult {
@@ -37,6 +62,12 @@ export interface ProcessorResult {
 export class DataProcessor {
   private logger: ProcessingLogger;
   private config: ProcessorConfig;
+  private contextData: DataRow[] = [];
+  // Rows waiting for a full chunk, so chunk boundaries don't depend on how the rows arrive
+  private pending: DataRow[] = [];
+  private mergedReport: ContextualReport | null = null;
+  private chunksProcessed = 0;
+  private started = false;
 
   constructor(config: ProcessorConfig) {
     this.config = config;
@@ -44,54 +75,86 @@ export class DataProcessor {
   }
 
   async process(data: DataRow[]): Promise<ProcessorResult> {
-    this.logger.start();
-
     if (data.length === 0) {
       this.logger.log('warn', 'processor', 'Empty dataset received');
-      this.logger.stop();
       throw new Error('No data to process');
     }
 
-    this.logger.log('info', 'processor', `Starting pipeline for ${data.length} rows`);
+    this.begin(data.length);
 
     // ── Phase 1: Chunked contextual transformation ──
     const chunkSize = this.config.chunkSize ?? DEFAULT_CHUNK_SIZE;
-    const contextChunks = this.chunkArray(data, chunkSize);
-    let allContextData: DataRow[] = [];
-    let mergedReport: ContextualReport | null = null;
-
-    this.logger.log('info', 'contextual', `Processing ${contextChunks.length} chunk(s) of ${chunkSize}`);
-
-    for (let i = 0; i < contextChunks.length; i++) {
-      const { data: chunkData, report } = applyContextualTransformations(contextChunks[i]);
-      allContextData.push(...chunkData);
-      this.logger.trackRows(chunkData.length);
-
-      if (!mergedReport) {
-        mergedReport = { ...report };
-      } else {
-        mergedReport.missingValuesNormalized += report.missingValuesNormalized;
-        mergedReport.booleansNormalized += report.booleansNormalized;
-        mergedReport.genderNormalized += report.genderNormalized;
-        mergedReport.ageImputedCount += report.ageImputedCount;
-        mergedReport.outliersCapped += report.outliersCapped;
-        mergedReport.numericIntegersEnforced += report.numericIntegersEnforced;
-        if (report.ageGroupCreated) mergedReport.ageGroupCreated = true;
-        if (report.calculatedAgeCreated) mergedReport.calculatedAgeCreated = true;
-        report.piiColumnsMasked.forEach((col) => {
-          if (!mergedReport!.piiColumnsMasked.includes(col)) {
-            mergedReport!.piiColumnsMasked.push(col);
-          }
-        });
+    this.logger.log('info', 'contextual', `Processing ${Math.ceil(data.length / chunkSize)} chunk(s) of ${chunkSize}`);
+
+    let lastYield = performance.now();
+    for (let i = 0; i < data.length; i += chunkSize) {
+      this.addChunk(data.slice(i, i + chunkSize), data.length);
+      // Give the UI a chance to paint progress and react to cancellation
+      if (performance.now() - lastYield > YIELD_INTERVAL_MS) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        lastYield = performance.now();
       }
+    }
+
+    return this.finish();
+  }
+
+  /** Start an incremental run. `totalRows` is only used for progress reporting. */
+  begin(totalRows?: number): void {
+    this.logger.start();
+    this.contextData = [];
+    this.pending = [];
+    this.mergedReport = null;
+    this.chunksProcessed = 0;
+    this.started = true;
+    this.logger.log('info', 'processor', totalRows ? `Starting pipeline for ${totalRows} rows` : 'Starting streaming pipeline');
+  }
+
+  /**
+   * Run the contextual transforms on newly arrived rows. Rows are regrouped
+   * into `chunkSize` chunks, with the remainder held until more arrive or
+   * `finish` is called, so results match a one-shot `process` call however
+   * the rows are batched.
+   */
+  addChunk(rows: DataRow[], totalRows?: number): void {
+    if (!this.started) this.begin(totalRows);
+    const chunkSize = this.config.chunkSize ?? DEFAULT_CHUNK_SIZE;
+
+    for (const row of rows) this.pending.push(row);
+    while (this.pending.length >= chunkSize) {
+      this.transformChunk(this.pending.splice(0, chunkSize));
+    }
 
-      this.logger.log('info', 'contextual', `Chunk ${i + 1}/${contextChunks.length} done`);
+    // Streaming callers don't know the total up front and report parse progress themselves
+    if (totalRows) {
+      this.report({
+        phase: 'contextual',
+        rowsProcessed: this.contextData.length,
+        totalRows,
+        fraction: this.contextData.length / totalRows,
+        message: `${this.contextData.length.toLocaleString()} of ${totalRows.toLocaleString()} rows transformed`,
+      });
+    }
+  }
+
+  /** Validate, optionally LLM-clean and structurally clean everything added so far. */
+  async finish(): Promise<ProcessorResult> {
+    if (this.pending.length > 0) this.transformChunk(this.pending.splice(0));
+    if (this.contextData.length === 0 || !this.mergedReport) {
+      this.logger.log('warn', 'processor', 'Empty dataset received');
+      this.logger.stop();
+      this.started = false;
+      throw new Error('No data to process');
     }
 
-    const contextualReport = mergedReport!;
+    const allContextData = this.contextData;
+    const contextualReport = this.mergedReport;
+    const rowCount = allContextData.length;
     this.logger.log('info', 'contextual', `Contextual transforms complete. Measures: ${contextualReport.measuresDetected}, Dimensions: ${contextualReport.dimensionsDetected}`);
 
     // ── Phase 2: Schema validation (Zod) ──
+    this.throwIfCancelled();
+    this.report({ phase: 'validation', rowsProcessed: rowCount, totalRows: rowCount, message: 'Validating rows against inferred schema' });
     const columnDefs = inferColumnDefs(allContextData);
     const schema = buildRowSchema(columnDefs);
     const { validRows, rejectedRows } = validateRows<DataRow>(allContextData, schema);
@@ -112,7 +175,8 @@ export class DataProcessor {
     // ── Phase 3: Optional LLM cleaning (only for rows that need it) ──
     let llmResult: LLMCleaningResult | undefined;
 
-    if (this.config.enableLLM && this.config.llmApiKey) {
+    if (this.config.enableLLM && this.config.llm) {
+      this.throwIfCancelled();
       this.logger.log('info', 'llm', 'LLM cleaning enabled, identifying rows needing semantic processing...');
 
       const { needsLLM, clean, needsLLMIndices } = identifyRowsNeedingLLM(dataToClean);
@@ -121,9 +185,18 @@ export class DataProcessor {
       if (needsLLM.length > 0) {
         llmResult = await cleanWithLLM(
           needsLLM,
-          { apiKey: this.config.llmApiKey, provider: this.config.llmProvider ?? 'groq' },
+          this.config.llm,
           this.logger,
-          this.config.onLLMProgress
+          (info) => {
+            this.config.onLLMProgress?.(info);
+            this.report({
+              phase: 'llm',
+              rowsProcessed: rowCount,
+              totalRows: rowCount,
+              fraction: info.totalBatches > 0 ? info.batch / info.totalBatches : undefined,
+              message: info.message,
+            });
+          }
         );
 
         // Merge LLM-cleaned rows back
@@ -142,10 +215,14 @@ export class DataProcessor {
     }
 
     // ── Phase 4: Advanced structural cleaning ──
+    this.throwIfCancelled();
+    this.report({ phase: 'cleaning', rowsProcessed: rowCount, totalRows: rowCount, message: 'Running structural cleaning' });
     this.logger.log('info', 'cleaning', 'Running advanced structural cleaning...');
     const enhancedResult = cleanDataAdvanced(dataToClean, this.config.cleaningConfig);
 
     this.logger.stop();
+    this.started = false;
+    this.report({ phase: 'done', rowsProcessed: rowCount, totalRows: rowCount, fraction: 1, message: 'Done' });
 
     return {
       cleanedData: enhancedResult.data || dataToClean,
@@ -158,11 +235,46 @@ export class DataProcessor {
     };
   }
 
-  private chunkArray<T>(arr: T[], size: number): T[][] {
-    const chunks: T[][] = [];
-    for (let i = 0; i < arr.length; i += size) {
-      chunks.push(arr.slice(i, i + size));
+  private transformChunk(rows: DataRow[]): void {
+    this.throwIfCancelled();
+    const { data: chunkData, report } = applyContextualTransformations(rows);
+    for (const row of chunkData) this.contextData.push(row);
+    this.logger.trackRows(chunkData.length);
+    this.mergeReport(report);
+    this.chunksProcessed++;
+    this.logger.log('info', 'contextual', `Chunk ${this.chunksProcessed} done (${this.contextData.length} rows)`);
+  }
+
+  private mergeReport(report: ContextualReport): void {
+    if (!this.mergedReport) {
+      this.mergedReport = { ...report, piiColumnsMasked: [...report.piiColumnsMasked] };
+      return;
+    }
+    const merged = this.mergedReport;
+    merged.missingValuesNormalized += report.missingValuesNormalized;
+    merged.booleansNormalized += report.booleansNormalized;
+    merged.genderNormalized += report.genderNormalized;
+    merged.ageImputedCount += report.ageImputedCount;
+    merged.outliersCapped += report.outliersCapped;
+    merged.numericIntegersEnforced += report.numericIntegersEnforced;
+    if (report.ageGroupCreated) merged.ageGroupCreated = true;
+    if (report.calculatedAgeCreated) merged.calculatedAgeCreated = true;
+    report.piiColumnsMasked.forEach((col) => {
+      if (!merged.piiColumnsMasked.includes(col)) {
+        merged.piiColumnsMasked.push(col);
+      }
+    });
+  }
+
+  private report(progress: ProcessorProgress): void {
+    this.config.onProgress?.(progress);
+  }
+
+  private throwIfCancelled(): void {
+    if (this.config.signal?.aborted) {
+      this.logger.log('warn', 'processor', 'Processing cancelled');
+      this.started = false;
+      throw new ProcessingCancelledError();
     }
-    return chunks;
   }
 }
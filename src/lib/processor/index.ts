@@ -1,5 +1,24 @@
-export { DataProcessor, type ProcessorConfig, type ProcessorResult } from './DataProcessor';
+export { DataProcessor, ProcessingCancelledError, type ProcessorConfig, type ProcessorResult, type ProcessorProgress, type ProcessorPhase } from './DataProcessor';
 export { ProcessingLogger, type LogEntry } from './logger';
 export { LRUCache, hashRow } from './lruCache';
 export { buildRowSchema, validateRows, inferColumnDefs, type ColumnDef, type RejectedRow, type ValidationResult } from './schemaValidator';
-export { cleanWithLLM, identifyRowsNeedingLLM, type LLMCleaningResult, type LLMProgressCallback } from './llmInterface';
+export {
+  cleanWithLLM,
+  identifyRowsNeedingLLM,
+  chatCompletion,
+  resolveLLMConfig,
+  stripCodeFence,
+  getEndpoint,
+  getModel,
+  LLM_PROVIDERS,
+  DEFAULT_LLM_SETTINGS,
+  LLMRequestError,
+  type LLMCleaningResult,
+  type LLMProgressCallback,
+  type LLMProvider,
+  type LLMConfig,
+  type LLMSettings,
+  type ChatMessage,
+} from './llmInterface';
+export { streamCleanCsv, type StreamingIngestOptions, type StreamingIngestResult, type StreamingIngestHooks } from './streamingIngest';
+export { startStreamingIngest, STREAMING_THRESHOLD_BYTES, type StreamingIngestHandle } from './streamingClient';
@@ -0,0 +1,32 @@
+/**
+ * Web Worker entry for streaming CSV ingestion.
+ * Protocol: receives one `start` message, replies with any number of
+ * `progress` messages followed by exactly one `result` or `error`.
+ * Cancellation is handled by the client terminating the worker.
+ */
+
+import { streamCleanCsv, type StreamingIngestOptions, type StreamingIngestResult } from './streamingIngest';
+import type { ProcessorProgress } from './DataProcessor';
+
+export type IngestWorkerRequest = { type: 'start'; file: File; options: StreamingIngestOptions };
+
+export type IngestWorkerResponse =
+  | { type: 'progress'; progress: ProcessorProgress }
+  | { type: 'result'; result: StreamingIngestResult }
+  | { type: 'error'; message: string };
+
+// The app tsconfig only ships DOM typings; the worker global shares the bits we use
+const ctx = self as unknown as Worker;
+const post = (message: IngestWorkerResponse) => ctx.postMessage(message);
+
+ctx.onmessage = async (event: MessageEvent<IngestWorkerRequest>) => {
+  if (event.data.type !== 'start') return;
+  try {
+    const result = await streamCleanCsv(event.data.file, event.data.options, {
+      onProgress: (progress) => post({ type: 'progress', progress }),
+    });
+    post({ type: 'result', result });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -1,6 +1,7 @@
 /**
  * Semantic LLM Cleaning Interface.
- * Calls Groq (or Google) only for rows needing fuzzy logic/categorization.
+ * Calls the configured provider (Groq, Google, or a local OpenAI-compatible
+ * server) only for rows needing fuzzy logic/categorization.
  * Uses LRU cache to avoid redundant API calls.
  */
 
@@ -13,21 +14,117 @@ const BATCH_SIZE = 50;
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 5000;
 
-interface LLMConfig {
+export type LLMProvider = 'groq' | 'google' | 'local';
+
+export interface LLMConfig {
+  // Empty for local servers that do not check keys
+  apiKey: string;
+  provider: LLMProvider;
+  // Root of an OpenAI-compatible API, for the local provider
+  baseUrl?: string;
+  // Overrides the provider's default model
+  model?: string;
+}
+
+// User-chosen provider; `provider: null` falls back to the VITE_*_API_KEY environment keys
+export interface LLMSettings {
+  provider: LLMProvider | null;
   apiKey: string;
-  provider: 'groq' | 'google';
+  baseUrl: string;
+  model: string;
+}
+
+export const LLM_PROVIDERS: Record<LLMProvider, { label: string; endpoint: string; model: string; needsKey: boolean }> = {
+  groq: { label: 'Groq', endpoint: 'https://api.groq.com/openai/v1/chat/completions', model: 'llama-3.3-70b-specdec', needsKey: true },
+  google: {
+    label: 'Google Gemini',
+    endpoint: 'https://generativelanguage.googleapis.com/v1beta/openai/chat/completions',
+    model: 'gemini-2.0-flash',
+    needsKey: true,
+  },
+  // Ollama, LM Studio, llama.cpp and vLLM all serve this API
+  local: { label: 'Local server', endpoint: 'http://localhost:11434/v1', model: 'llama3.1', needsKey: false },
+};
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = { provider: null, apiKey: '', baseUrl: LLM_PROVIDERS.local.endpoint, model: '' };
+
+export function getEndpoint(config: LLMConfig): string {
+  if (config.provider !== 'local') return LLM_PROVIDERS[config.provider].endpoint;
+  const base = (config.baseUrl || LLM_PROVIDERS.local.endpoint).replace(/\/+$/, '');
+  return base.endsWith('/chat/completions') ? base : `${base}/chat/completions`;
+}
+
+export function getModel(config: LLMConfig): string {
+  return config.model || LLM_PROVIDERS[config.provider].model;
+}
+
+function envKey(provider: LLMProvider): string {
+  if (provider === 'groq') return import.meta.env.VITE_GROQ_API_KEY ?? '';
+  if (provider === 'google') return import.meta.env.VITE_GOOGLE_API_KEY ?? '';
+  return '';
+}
+
+/**
+ * The provider to call, or null when none is usable: settings first, then
+ * whichever environment key is set (Groq before Google).
+ */
+export function resolveLLMConfig(settings: LLMSettings = DEFAULT_LLM_SETTINGS): LLMConfig | null {
+  if (settings.provider) {
+    const { provider } = settings;
+    const apiKey = settings.apiKey.trim() || envKey(provider);
+    if (LLM_PROVIDERS[provider].needsKey && !apiKey) return null;
+    const baseUrl = provider === 'local' ? settings.baseUrl.trim() || undefined : undefined;
+    return { provider, apiKey, baseUrl, model: settings.model.trim() || undefined };
+  }
+  for (const provider of ['groq', 'google'] as const) {
+    const apiKey = envKey(provider);
+    if (apiKey) return { provider, apiKey };
+  }
+  return null;
 }
 
-function getEndpoint(provider: 'groq' | 'google'): string {
-  if (provider === 'google') {
-    return 'https://generativelanguage.googleapis.com/v1beta/openai/chat/completions';
+export class LLMRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+export type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+/** Send one chat completion request and return the reply text. */
+export async function chatCompletion(
+  config: LLMConfig,
+  messages: ChatMessage[],
+  options: { temperature?: number; maxTokens?: number; signal?: AbortSignal } = {},
+): Promise<string> {
+  const response = await fetch(getEndpoint(config), {
+    method: 'POST',
+    headers: {
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: getModel(config),
+      messages,
+      temperature: options.temperature ?? 0,
+      max_tokens: options.maxTokens ?? 4096,
+    }),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new LLMRequestError(response.status, response.status === 429 ? 'RATE_LIMIT' : `API error ${response.status}: ${text}`);
   }
-  return 'https://api.groq.com/openai/v1/chat/completions';
+
+  const json = await response.json();
+  return json.choices?.[0]?.message?.content ?? '';
 }
 
-function getModel(provider: 'groq' | 'google'): string {
-  if (provider === 'google') return 'gemini-2.0-flash';
-  return 'llama-3.3-70b-specdec';
+// Models often wrap JSON in a markdown fence despite being told not to
+export function stripCodeFence(content: string): string {
+  return content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/i, '').trim();
 }
 
 const SYSTEM_PROMPT = `You are a data cleaning engine. You receive a JSON array of objects (rows) and must return ONLY a valid JSON array with these transformations:
@@ -65,9 +162,6 @@ async function callWithRetry(
   onProgress?: LLMProgressCallback,
   retryCount = 0
 ): Promise<DataRow[]> {
-  const endpoint = getEndpoint(config.provider);
-  const model = getModel(config.provider);
-
   onProgress?.({
     phase: retryCount > 0 ? 'retrying' : 'sending',
     batch: batchIndex + 1,
@@ -77,46 +171,29 @@ async function callWithRetry(
       : `Processing batch ${batchIndex + 1}/${totalBatches}...`,
   });
 
-  const response = await fetch(endpoint, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${config.apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model,
-      messages: [
+  let content: string;
+  try {
+    content = await chatCompletion(
+      config,
+      [
         { role: 'system', content: SYSTEM_PROMPT },
         { role: 'user', content: JSON.stringify(batch) },
       ],
-      temperature: 0,
-      max_tokens: 8192,
-    }),
-  });
-
-  if (response.status === 429) {
-    if (retryCount < MAX_RETRIES) {
-      const delay = RETRY_DELAY_MS * (retryCount + 1);
-      onProgress?.({
-        phase: 'retrying',
-        batch: batchIndex + 1,
-        totalBatches,
-        message: `Rate limited. Retrying in ${delay / 1000}s...`,
-      });
-      await sleep(delay);
-      return callWithRetry(batch, config, batchIndex, totalBatches, onProgress, retryCount + 1);
-    }
-    throw new Error('RATE_LIMIT');
-  }
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`API error ${response.status}: ${text}`);
+      { maxTokens: 8192 },
+    );
+  } catch (err) {
+    if (!(err instanceof LLMRequestError && err.status === 429) || retryCount >= MAX_RETRIES) throw err;
+    const delay = RETRY_DELAY_MS * (retryCount + 1);
+    onProgress?.({
+      phase: 'retrying',
+      batch: batchIndex + 1,
+      totalBatches,
+      message: `Rate limited. Retrying in ${delay / 1000}s...`,
+    });
+    await sleep(delay);
+    return callWithRetry(batch, config, batchIndex, totalBatches, onProgress, retryCount + 1);
   }
-
-  const json = await response.json();
-  const content: string = json.choices?.[0]?.message?.content ?? '';
-  const cleaned = content.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/i, '').trim();
+  const cleaned = stripCodeFence(content);
 
   try {
     const parsed = JSON.parse(cleaned);
@@ -0,0 +1,61 @@
+/**
+ * Main-thread handle for the streaming ingestion worker.
+ */
+
+import { ProcessingCancelledError, type ProcessorProgress } from './DataProcessor';
+import type { StreamingIngestOptions, StreamingIngestResult } from './streamingIngest';
+import type { IngestWorkerRequest, IngestWorkerResponse } from './ingest.worker';
+
+// Above this size CSVs are profiled from a preview and cleaned in the worker
+export const STREAMING_THRESHOLD_BYTES = 25 * 1024 * 1024;
+
+export interface StreamingIngestHandle {
+  result: Promise<StreamingIngestResult>;
+  cancel: () => void;
+}
+
+export function startStreamingIngest(
+  file: File,
+  options: StreamingIngestOptions,
+  onProgress?: (progress: ProcessorProgress) => void
+): StreamingIngestHandle {
+  const worker = new Worker(new URL('./ingest.worker.ts', import.meta.url), { type: 'module' });
+  let settle: { resolve: (r: StreamingIngestResult) => void; reject: (e: Error) => void } | null = null;
+
+  const result = new Promise<StreamingIngestResult>((resolve, reject) => {
+    settle = { resolve, reject };
+  });
+
+  const finish = () => {
+    worker.terminate();
+    settle = null;
+  };
+
+  worker.onmessage = (event: MessageEvent<IngestWorkerResponse>) => {
+    const msg = event.data;
+    if (msg.type === 'progress') {
+      onProgress?.(msg.progress);
+    } else if (msg.type === 'result') {
+      settle?.resolve(msg.result);
+      finish();
+    } else {
+      settle?.reject(new Error(msg.message));
+      finish();
+    }
+  };
+  worker.onerror = (event) => {
+    settle?.reject(new Error(event.message || 'Ingestion worker crashed'));
+    finish();
+  };
+
+  worker.postMessage({ type: 'start', file, options } satisfies IngestWorkerRequest);
+
+  return {
+    result,
+    // The worker spends most of its time in synchronous parsing, so terminate rather than ask nicely
+    cancel: () => {
+      settle?.reject(new ProcessingCancelledError());
+      finish();
+    },
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Streaming CSV ingestion.
+ * Parses with PapaParse's chunk mode and feeds each batch straight into
+ * `DataProcessor.addChunk`, so the raw file never has to be held as one
+ * parsed array. Fixes that need a whole column (median fill, outlier caps)
+ * get a first pass that reads only those columns. Runs inside
+ * `ingest.worker.ts` for large files, but has no worker dependencies of its own.
+ */
+
+import Papa from 'papaparse';
+import { DataProcessor, ProcessingCancelledError, type ProcessorConfig, type ProcessorProgress, type ProcessorResult } from './DataProcessor';
+import { applySelectedFixes, fixParameters, statisticColumns, type FixParameters, type SuggestedFix } from '../aiAnalyzer';
+
+type DataRow = Record<string, unknown>;
+
+const DEFAULT_PARSE_CHUNK_BYTES = 4 * 1024 * 1024;
+// Raw rows kept for before/after comparisons (BI-readiness reconciliation)
+const RAW_SAMPLE_SIZE = 5000;
+
+export type StreamingIngestOptions = Omit<ProcessorConfig, 'onProgress' | 'onLLMProgress' | 'signal'> & {
+  // AI-suggested fixes, applied batch by batch before the processor sees the rows
+  fixes?: SuggestedFix[];
+  parseChunkBytes?: number;
+};
+
+export interface StreamingIngestResult extends ProcessorResult {
+  rowsParsed: number;
+  parseErrors: number;
+  rawSample: DataRow[];
+}
+
+export interface StreamingIngestHooks {
+  onProgress?: (progress: ProcessorProgress) => void;
+  signal?: AbortSignal;
+}
+
+// First pass: the values of just the columns whose fixes need whole-column statistics
+function scanColumns(
+  source: File | string,
+  columns: string[],
+  parseChunkBytes: number,
+  hooks: StreamingIngestHooks
+): Promise<Map<string, unknown[]>> {
+  const totalBytes = typeof source === 'string' ? source.length : source.size;
+  const values = new Map(columns.map((c) => [c, [] as unknown[]]));
+  let rowsRead = 0;
+
+  return new Promise((resolve, reject) => {
+    Papa.parse<DataRow>(source as File, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (header) => header.trim(),
+      chunkSize: parseChunkBytes,
+      chunk: (results, parser) => {
+        if (hooks.signal?.aborted) {
+          parser.abort();
+          reject(new ProcessingCancelledError());
+          return;
+        }
+        // Columns missing from the header are dropped, as applySelectedFixes skips them
+        const fields = rowsRead === 0 ? results.meta.fields : undefined;
+        for (const col of values.keys()) {
+          if (fields && !fields.includes(col)) values.delete(col);
+        }
+        for (const row of results.data) {
+          values.forEach((list, col) => list.push(row[col]));
+        }
+        rowsRead += results.data.length;
+        hooks.onProgress?.({
+          phase: 'parsing',
+          rowsProcessed: 0,
+          fraction: totalBytes > 0 ? Math.min(1, results.meta.cursor / totalBytes) : undefined,
+          message: `Scanning ${rowsRead.toLocaleString()} rows for fix statistics`,
+        });
+      },
+      complete: () => {
+        if (hooks.signal?.aborted) reject(new ProcessingCancelledError());
+        else resolve(values);
+      },
+      error: (err) => reject(new Error(`Error reading file: ${err.message}`)),
+    });
+  });
+}
+
+export async function streamCleanCsv(
+  source: File | string,
+  options: StreamingIngestOptions,
+  hooks: StreamingIngestHooks = {}
+): Promise<StreamingIngestResult> {
+  const { fixes = [], parseChunkBytes = DEFAULT_PARSE_CHUNK_BYTES, ...processorOptions } = options;
+  const totalBytes = typeof source === 'string' ? source.length : source.size;
+  const enabledFixes = fixes.filter((f) => f.enabled);
+
+  // Each batch gets the same medians and caps the whole file would, whatever the batch size
+  const needsStatistics = statisticColumns(enabledFixes);
+  const params: FixParameters | undefined = needsStatistics.length > 0
+    ? fixParameters(await scanColumns(source, needsStatistics, parseChunkBytes, hooks), enabledFixes)
+    : undefined;
+
+  const processor = new DataProcessor({ ...processorOptions, onProgress: hooks.onProgress, signal: hooks.signal });
+  const rawSample: DataRow[] = [];
+  let rowsParsed = 0;
+  let parseErrors = 0;
+
+  return new Promise<StreamingIngestResult>((resolve, reject) => {
+    let failed = false;
+    const fail = (err: unknown) => {
+      if (failed) return;
+      failed = true;
+      reject(err instanceof Error ? err : new Error(String(err)));
+    };
+
+    processor.begin();
+
+    Papa.parse<DataRow>(source as File, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (header) => header.trim(),
+      chunkSize: parseChunkBytes,
+      chunk: (results, parser) => {
+        if (failed) return;
+        try {
+          if (hooks.signal?.aborted) throw new ProcessingCancelledError();
+          parseErrors += results.errors.length;
+          rowsParsed += results.data.length;
+          for (let i = 0; rawSample.length < RAW_SAMPLE_SIZE && i < results.data.length; i++) {
+            rawSample.push(results.data[i]);
+          }
+
+          const rows = enabledFixes.length > 0 ? applySelectedFixes(results.data, enabledFixes, params) : results.data;
+          processor.addChunk(rows);
+          hooks.onProgress?.({
+            phase: 'parsing',
+            rowsProcessed: rowsParsed,
+            fraction: totalBytes > 0 ? Math.min(1, results.meta.cursor / totalBytes) : undefined,
+            message: `${rowsParsed.toLocaleString()} rows read`,
+          });
+        } catch (err) {
+          parser.abort();
+          fail(err);
+        }
+      },
+      complete: () => {
+        if (failed) return;
+        if (hooks.signal?.aborted) {
+          fail(new ProcessingCancelledError());
+          return;
+        }
+        if (rowsParsed === 0) {
+          fail(new Error('The CSV file appears to be empty.'));
+          return;
+        }
+        processor
+          .finish()
+          .then((result) => resolve({ ...result, rowsParsed, parseErrors, rawSample }))
+          .catch(fail);
+      },
+      error: (err) => fail(new Error(`Error reading file: ${err.message}`)),
+    });
+  });
+}
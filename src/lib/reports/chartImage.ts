@@ -0,0 +1,244 @@
+/**
+ * Report charts as images. Widget data is drawn to a self-contained SVG with
+ * literal colors and fonts (no CSS variables, nothing external), which the
+ * browser rasterizes through a canvas for the PDF and PowerPoint writers.
+ */
+
+import { areaPaths, formatMetric, landPaths, mapFrame, mapShade, mapView, periodChange, type Widget, type WidgetData } from '../dashboard';
+
+export interface ChartImage {
+  bytes: Uint8Array;
+  // Pixel size of the raster; the drawing is `scale` times the SVG size
+  width: number;
+  height: number;
+}
+
+export const CHART_WIDTH = 720;
+export const CHART_HEIGHT = 320;
+
+const COLORS = ['hsl(173 58% 39%)', 'hsl(38 92% 50%)', 'hsl(142 71% 45%)', '#a78bfa', '#60a5fa', '#f472b6', '#34d399'];
+const PRIMARY = COLORS[0];
+const INK = '#141a24';
+const MUTED = '#66707f';
+const GRID = '#dde3e8';
+const PAD = { l: 56, r: 12, t: 12, b: 28 };
+const FONT = 'font-family="Helvetica, Arial, sans-serif"';
+
+function esc(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+}
+
+function truncate(text: string, n: number): string {
+  return text.length > n ? `${text.slice(0, n - 1)}…` : text;
+}
+
+function label(x: number, y: number, text: string, attrs = ''): string {
+  return `<text x="${x}" y="${y}" font-size="11" fill="${MUTED}" ${attrs}>${esc(text)}</text>`;
+}
+
+function svg(width: number, height: number, inner: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ${FONT}>` +
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>${inner}</svg>`;
+}
+
+type Points = { label: string; value: number }[];
+
+// Value axis spanning zero and every point, with four gridlines
+function valueAxis(points: Points, width: number, bottom: number) {
+  const lo = Math.min(0, ...points.map((p) => p.value));
+  let hi = Math.max(0, ...points.map((p) => p.value));
+  if (hi === lo) hi = lo + 1;
+  const y = (v: number) => PAD.t + ((hi - v) / (hi - lo)) * (bottom - PAD.t);
+  let grid = '';
+  for (let i = 0; i <= 4; i++) {
+    const v = lo + ((hi - lo) * i) / 4;
+    grid += `<line x1="${PAD.l}" x2="${width - PAD.r}" y1="${y(v)}" y2="${y(v)}" stroke="${GRID}" stroke-dasharray="3 3"/>`;
+    grid += label(PAD.l - 6, y(v) + 4, formatMetric(v), 'text-anchor="end"');
+  }
+  return { y, grid };
+}
+
+function categoryLabels(points: Points, x: (i: number) => number, width: number, bottom: number): string {
+  const every = Math.max(1, Math.ceil(points.length / Math.max(1, Math.floor(width / 72))));
+  return points.map((p, i) => (i % every ? '' : label(x(i), bottom + 16, truncate(p.label, 12), 'text-anchor="middle"'))).join('');
+}
+
+function barChart(points: Points, width: number, height: number): string {
+  const bottom = height - PAD.b;
+  const { y, grid } = valueAxis(points, width, bottom);
+  const band = (width - PAD.l - PAD.r) / points.length;
+  const x = (i: number) => PAD.l + band * (i + 0.5);
+  const bars = points
+    .map((p, i) => {
+      const top = Math.min(y(0), y(p.value));
+      const h = Math.max(1, Math.abs(y(0) - y(p.value)));
+      return `<rect x="${x(i) - band * 0.35}" y="${top}" width="${band * 0.7}" height="${h}" rx="3" fill="${PRIMARY}"/>`;
+    })
+    .join('');
+  return svg(width, height, grid + bars + categoryLabels(points, x, width, bottom));
+}
+
+function lineChart(points: Points, width: number, height: number): string {
+  const bottom = height - PAD.b;
+  const { y, grid } = valueAxis(points, width, bottom);
+  const n = points.length;
+  const step = n > 1 ? (width - PAD.l - PAD.r) / (n - 1) : 0;
+  const x = (i: number) => (n > 1 ? PAD.l + step * i : (PAD.l + width - PAD.r) / 2);
+  const line = `<polyline fill="none" stroke="${PRIMARY}" stroke-width="2" points="${points.map((p, i) => `${x(i)},${y(p.value)}`).join(' ')}"/>`;
+  const dots = n <= 24 ? points.map((p, i) => `<circle cx="${x(i)}" cy="${y(p.value)}" r="3" fill="${PRIMARY}"/>`).join('') : '';
+  return svg(width, height, grid + line + dots + categoryLabels(points, x, width, bottom));
+}
+
+function pieChart(points: Points, width: number, height: number): string {
+  const total = points.reduce((t, p) => t + Math.max(0, p.value), 0);
+  if (!total) return message('Nothing to chart', width, height);
+  const r = height / 2 - 12;
+  const c = { x: height / 2, y: height / 2 };
+  let angle = -Math.PI / 2;
+  let slices = '';
+  points.forEach((p, i) => {
+    const share = Math.max(0, p.value) / total;
+    if (!share) return;
+    const fill = COLORS[i % COLORS.length];
+    if (share > 0.9999) {
+      slices += `<circle cx="${c.x}" cy="${c.y}" r="${r}" fill="${fill}"/>`;
+      return;
+    }
+    const end = angle + share * 2 * Math.PI;
+    slices +=
+      `<path d="M${c.x} ${c.y} L${c.x + r * Math.cos(angle)} ${c.y + r * Math.sin(angle)} ` +
+      `A${r} ${r} 0 ${share > 0.5 ? 1 : 0} 1 ${c.x + r * Math.cos(end)} ${c.y + r * Math.sin(end)} Z" fill="${fill}" stroke="#ffffff"/>`;
+    angle = end;
+  });
+  const legend = points
+    .slice(0, Math.floor((height - 24) / 22))
+    .map((p, i) => {
+      const y = 24 + i * 22;
+      const share = `${Math.round((Math.max(0, p.value) / total) * 100)}%`;
+      return `<rect x="${height + 16}" y="${y - 10}" width="12" height="12" rx="2" fill="${COLORS[i % COLORS.length]}"/>` +
+        `<text x="${height + 36}" y="${y}" font-size="12" fill="${INK}">${esc(truncate(p.label, 28))}</text>` +
+        label(width - PAD.r, y, `${formatMetric(p.value)} · ${share}`, 'text-anchor="end"');
+    })
+    .join('');
+  return svg(width, height, slices + legend);
+}
+
+// Ranked rows with a bar behind each value; used for tables and maps of unknown places
+function rankedChart(points: Points, width: number, height: number): string {
+  const rows = points.slice(0, Math.floor(height / 24));
+  const max = Math.max(...rows.map((p) => Math.abs(p.value)), 1e-9);
+  const inner = rows
+    .map((p, i) => {
+      const y = i * 24;
+      const w = ((width - 8) * Math.abs(p.value)) / max;
+      return `<rect x="4" y="${y + 2}" width="${Math.max(2, w)}" height="20" rx="3" fill="${PRIMARY}" fill-opacity="0.18"/>` +
+        `<text x="10" y="${y + 16}" font-size="12" fill="${INK}">${esc(truncate(p.label, 48))}</text>` +
+        `<text x="${width - 10}" y="${y + 16}" font-size="12" fill="${INK}" text-anchor="end">${esc(formatMetric(p.value))}</text>`;
+    })
+    .join('');
+  return svg(width, height, inner);
+}
+
+function valueChart(widget: Widget, data: Extract<WidgetData, { kind: 'value' }>, width: number, height: number): string {
+  const cx = width / 2;
+  if (widget.type === 'gauge') {
+    if (data.value === null || !data.max) return message('No values to compare', width, height);
+    const share = Math.max(0, Math.min(1, data.value / data.max));
+    const r = Math.min(width / 2, height) * 0.6;
+    const cy = height * 0.72;
+    const end = Math.PI + share * Math.PI;
+    const arc = (to: number, color: string, opacity: number) =>
+      `<path d="M${cx - r} ${cy} A${r} ${r} 0 0 1 ${cx + r * Math.cos(to)} ${cy + r * Math.sin(to)}" fill="none" stroke="${color}" ` +
+      `stroke-opacity="${opacity}" stroke-width="${r * 0.22}" stroke-linecap="round"/>`;
+    return svg(width, height,
+      arc(2 * Math.PI - 1e-6, PRIMARY, 0.15) + (share > 0 ? arc(end, PRIMARY, 1) : '') +
+      `<text x="${cx}" y="${cy - 4}" font-size="${r * 0.4}" font-weight="bold" fill="${INK}" text-anchor="middle">${Math.round(share * 100)}%</text>` +
+      label(cx, cy + 28, `${formatMetric(data.value)} of ${formatMetric(data.max)}`, 'text-anchor="middle" font-size="14"'));
+  }
+  const change = periodChange(data);
+  const trend = change === null ? '' :
+    `<text x="${cx}" y="${height / 2 + 40}" font-size="16" fill="${change >= 0 ? 'hsl(142 71% 45%)' : 'hsl(0 72% 51%)'}" text-anchor="middle">` +
+    `${change >= 0 ? '↑' : '↓'} ${Math.abs(change).toFixed(1)}% latest ${esc(String(data.period))} vs prior</text>`;
+  return svg(width, height,
+    `<text x="${cx}" y="${height / 2 + 8}" font-size="56" font-weight="bold" fill="${INK}" text-anchor="middle">${esc(formatMetric(data.value))}</text>` + trend);
+}
+
+function mapChart(data: WidgetData, width: number, height: number): string | null {
+  const frame = mapFrame(data);
+  if (!frame) return null;
+  const view = mapView(data, frame);
+  // Letterbox the map's own coordinate space into the image
+  const scale = Math.min(width / view.width, (height - 20) / view.height);
+  const dx = (width - view.width * scale) / 2;
+  const land = landPaths(frame).map((d) => `<path d="${d}" fill="#eef1f4" stroke="${GRID}" stroke-width="0.5"/>`).join('');
+  const areas = areaPaths(frame);
+  const shapes = view.shapes
+    .map((s) => {
+      if (s.kind === 'point') {
+        return `<circle cx="${s.cx}" cy="${s.cy}" r="${s.r}" fill="${PRIMARY}" fill-opacity="${mapShade(s.value, view.min, view.max)}" stroke="#ffffff"/>`;
+      }
+      const fill = s.value === null ? '#eef1f4' : PRIMARY;
+      const opacity = s.value === null ? 1 : mapShade(s.value, view.min, view.max);
+      if (s.kind === 'area') {
+        return `<path d="${areas[s.code]}" fill-rule="evenodd" fill="${fill}" fill-opacity="${opacity}" stroke="#ffffff" stroke-width="0.5"/>`;
+      }
+      return `<rect x="${s.x}" y="${s.y}" width="${s.size}" height="${s.size}" rx="4" fill="${fill}" fill-opacity="${opacity}"/>` +
+        `<text x="${s.x + s.size / 2}" y="${s.y + s.size / 2 + 4}" font-size="11" fill="${INK}" text-anchor="middle">${esc(s.code)}</text>`;
+    })
+    .join('');
+  const legend = label(dx, height - 4, `${formatMetric(view.min)} – ${formatMetric(view.max)}`);
+  // A nested viewport so zoomed country outlines are clipped to the map
+  const viewport = `<svg x="${dx}" width="${view.width * scale}" height="${view.height * scale}" viewBox="0 0 ${view.width} ${view.height}">`;
+  return svg(width, height, `${viewport}${land}${shapes}</svg>${legend}`);
+}
+
+function message(text: string, width: number, height: number): string {
+  return svg(width, height, label(width / 2, height / 2, text, 'text-anchor="middle" font-size="14"'));
+}
+
+/** A widget's data as a standalone SVG document. */
+export function chartSvg(widget: Widget, data: WidgetData, width = CHART_WIDTH, height = CHART_HEIGHT): string {
+  if (data.kind === 'value') return valueChart(widget, data, width, height);
+  if (data.kind === 'points') return mapChart(data, width, height) ?? message('No rows have valid coordinates', width, height);
+  const { points } = data;
+  if (points.length === 0) return message("No rows match this widget's filters", width, height);
+  switch (widget.type) {
+    case 'bar':
+      return barChart(points, width, height);
+    case 'line':
+      return lineChart(points, width, height);
+    case 'pie':
+      return pieChart(points, width, height);
+    case 'map':
+      return mapChart(data, width, height) ?? rankedChart(points, width, height);
+    default:
+      return rankedChart(points, width, height);
+  }
+}
+
+/**
+ * Draw an SVG onto a white canvas at `scale`× and encode it. Browser only;
+ * the SVG is loaded from a data URL so the canvas is never tainted.
+ */
+export async function rasterizeSvg(
+  svgText: string,
+  width: number,
+  height: number,
+  type: 'image/png' | 'image/jpeg',
+  scale = 2,
+): Promise<ChartImage> {
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgText)}`;
+  await image.decode();
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas rendering is not available');
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, 0.92));
+  if (!blob) throw new Error('Could not encode the chart image');
+  return { bytes: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height };
+}
@@ -0,0 +1,244 @@
+/**
+ * Report content: runs the dataset's pipeline and the cleaning engine over
+ * its rows, assesses the result for BI-readiness against the uploaded rows,
+ * and turns each report section into a block of facts, items and tables.
+ * The page and the file exporters render the same blocks.
+ */
+
+import type { PipelineStep } from '@/store/workspace';
+import type { CleaningAction, CleaningSummary, ColumnQualityMetrics, DatasetProfile, EnhancedCleaningResult } from '../dataTypes';
+import { cleanDataAdvanced } from '../dataCleaner';
+import { assessBIReadiness, type BIReadinessReport, type PillarCheck } from '../biReadiness';
+import { runPipeline, type ExecutionContext } from '../pipeline';
+import { applyDashboardFilters, computeWidget, hasActiveFilters, type Widget, type WidgetData } from '../dashboard';
+import { sectionLabel, type Report, type ReportSection, type ReportSectionKind } from './report';
+
+type DataRow = Record<string, unknown>;
+
+export interface ReportLogEntry {
+  // Where the problem was found, e.g. a pipeline step's label
+  source: string;
+  level: 'error' | 'warning';
+  // 1-based row number, when the problem is tied to one row
+  row: number | null;
+  message: string;
+}
+
+export interface ReportResults {
+  profile: DatasetProfile;
+  cleaning: CleaningSummary;
+  actions: CleaningAction[];
+  columnMetrics: ColumnQualityMetrics[];
+  readiness: BIReadinessReport;
+  log: ReportLogEntry[];
+  // Label of the pipeline step that failed; the results then cover the steps before it
+  failedStep: string | null;
+}
+
+// Everything needed to write a report file
+export interface ReportDocument {
+  title: string;
+  dataset: string;
+  generatedAt: string;
+  blocks: ReportBlock[];
+  results: ReportResults;
+}
+
+export type ReportTone = 'pass' | 'warn' | 'fail' | 'info';
+
+export const TONE_LABELS: Record<ReportTone, string> = { pass: 'OK', warn: 'Warning', fail: 'Critical', info: 'Note' };
+
+export interface ReportBlock {
+  id: string;
+  kind: ReportSectionKind;
+  title: string;
+  summary: string;
+  facts: { label: string; value: string }[];
+  items: { text: string; tone: ReportTone }[];
+  table: { columns: string[]; rows: string[][] } | null;
+  chart: { widget: Widget; data: WidgetData } | null;
+}
+
+/**
+ * Results of a cleaning run, assessed against the rows it started from.
+ * `log` carries problems found before cleaning, such as pipeline step
+ * failures or rows rejected by schema validation.
+ */
+export function cleaningResults(cleaned: EnhancedCleaningResult, originalRows: DataRow[], log: ReportLogEntry[] = []): ReportResults {
+  const readiness = assessBIReadiness(cleaned.data, originalRows);
+  const violations = readiness.domainViolations.map((v): ReportLogEntry => ({
+    source: v.rule,
+    level: 'warning',
+    row: v.rowIndex + 1,
+    message: v.description,
+  }));
+  return {
+    profile: cleaned.profile,
+    cleaning: cleaned.summary,
+    actions: cleaned.actions,
+    columnMetrics: cleaned.columnQualityMetrics,
+    readiness,
+    log: [...log, ...violations],
+    failedStep: null,
+  };
+}
+
+export function analyzeForReport(rows: DataRow[], pipeline: PipelineStep[], ctx: ExecutionContext = {}): ReportResults {
+  const run = runPipeline(rows, pipeline, ctx);
+  const log = run.steps.flatMap((step): ReportLogEntry[] => [
+    ...step.warnings.map((message) => ({ source: step.label, level: 'warning' as const, row: null, message })),
+    ...(step.error ? [{ source: step.label, level: 'error' as const, row: null, message: step.error }] : []),
+  ]);
+  const results = cleaningResults(cleanDataAdvanced(run.rows), rows, log);
+  return { ...results, failedStep: run.failedStepId ? run.steps[run.steps.length - 1].label : null };
+}
+
+// ─── Sections ───────────────────────────────────────────────────────────────
+
+const count = (n: number) => n.toLocaleString();
+const plural = (n: number, word: string) => `${count(n)} ${word}${n === 1 ? '' : 's'}`;
+
+function emptyBlock(section: ReportSection): ReportBlock {
+  return { id: section.id, kind: section.kind, title: sectionLabel(section), summary: '', facts: [], items: [], table: null, chart: null };
+}
+
+function overviewBlock(block: ReportBlock, { profile }: ReportResults): ReportBlock {
+  const d = profile.dataDescription;
+  const type = profile.type === 'general' ? '' : ` of ${profile.type === 'hr' ? 'HR' : profile.type} data`;
+  block.summary =
+    `${plural(d.rowCount, 'row')} and ${plural(d.columnCount, 'column')}${type}` +
+    `${d.dateRange ? `, covering ${d.dateRange}` : ''}, with a data quality score of ${d.dataQualityScore}%.`;
+  block.facts = [
+    { label: 'Rows', value: count(d.rowCount) },
+    { label: 'Columns', value: count(d.columnCount) },
+    { label: 'Data quality', value: `${d.dataQualityScore}%` },
+    { label: 'Date range', value: d.dateRange ?? '—' },
+  ];
+  block.items = d.keyMetrics.map((text) => ({ text, tone: 'info' }));
+  const roles: [string, string[]][] = [
+    ['Measures', d.measureColumns],
+    ['Dimensions', d.dimensionColumns],
+    ['Time', d.timeColumns],
+  ];
+  const filled = roles.filter(([, columns]) => columns.length > 0);
+  block.table = filled.length ? { columns: ['Role', 'Columns'], rows: filled.map(([role, columns]) => [role, columns.join(', ')]) } : null;
+  return block;
+}
+
+const CLEANING_COUNTS: [keyof CleaningSummary, string][] = [
+  ['duplicatesRemoved', 'Duplicates removed'],
+  ['missingValuesHandled', 'Missing values handled'],
+  ['outliersHandled', 'Outliers handled'],
+  ['columnsRenamed', 'Columns renamed'],
+  ['categoricalNormalized', 'Categories normalized'],
+  ['typesConverted', 'Types converted'],
+  ['datesFixed', 'Dates fixed'],
+  ['interpolatedValues', 'Values interpolated'],
+  ['derivedColumnsCreated', 'Derived columns'],
+];
+
+function cleaningBlock(block: ReportBlock, { cleaning, profile, failedStep }: ReportResults): ReportBlock {
+  block.summary =
+    `${plural(cleaning.totalChanges, 'change')} took ${count(cleaning.rowsBefore)} × ${count(cleaning.columnsBefore)} ` +
+    `to ${count(cleaning.rowsAfter)} × ${count(cleaning.columnsAfter)} (rows × columns).` +
+    (failedStep ? ` The pipeline stopped at "${failedStep}", so later steps are not included.` : '');
+  block.facts = CLEANING_COUNTS.filter(([key]) => cleaning[key] > 0).map(([key, label]) => ({ label, value: count(cleaning[key]) }));
+  block.items = profile.dataDescription.cleaningHighlights.map((text) => ({ text, tone: 'info' }));
+  return block;
+}
+
+const SEVERITY_TONES: Record<PillarCheck['severity'], ReportTone> = { critical: 'fail', warning: 'warn', info: 'info' };
+
+function readinessBlock(block: ReportBlock, { readiness }: ReportResults): ReportBlock {
+  block.summary = `Overall score ${readiness.overallScore}/100 — ${readiness.isReady ? 'ready for BI tools' : 'not yet ready for BI tools'}.`;
+  block.facts = [
+    { label: 'Overall score', value: `${readiness.overallScore}` },
+    { label: 'Status', value: readiness.overallStatus },
+    { label: 'Domain violations', value: count(readiness.domainViolations.length) },
+    { label: 'Columns with ghost data', value: count(readiness.ghostData.length) },
+  ];
+  block.items = readiness.pillars.flatMap((p) =>
+    p.checks
+      .filter((c) => !c.passed)
+      .map((c) => ({ text: `${p.name}: ${c.message}`, tone: SEVERITY_TONES[c.severity] })),
+  );
+  block.table = {
+    columns: ['Pillar', 'Status', 'Score', 'Summary'],
+    rows: readiness.pillars.map((p) => [p.name, p.status, String(p.score), p.summary]),
+  };
+  return block;
+}
+
+function recommendationsBlock(block: ReportBlock, { readiness }: ReportResults): ReportBlock {
+  block.summary = readiness.isReady ? 'The dataset is ready for BI tools.' : 'Resolve these before loading the dataset into BI tools.';
+  block.items = readiness.recommendations.map((text) => {
+    const match = text.match(/^(CRITICAL|WARNING): /);
+    const tone: ReportTone = match ? (match[1] === 'CRITICAL' ? 'fail' : 'warn') : text.endsWith('✓') ? 'pass' : 'info';
+    return { text: match ? text.slice(match[0].length) : text, tone };
+  });
+  return block;
+}
+
+function reconciliationBlock(block: ReportBlock, { readiness }: ReportResults): ReportBlock {
+  const audit = readiness.reconciliation;
+  if (!audit) {
+    block.summary = 'No uploaded rows to reconcile against.';
+    return block;
+  }
+  const significant = audit.distributionShifts.filter((s) => s.isSignificant).length;
+  block.summary =
+    `${count(audit.rowCountBefore)} uploaded rows became ${count(audit.rowCountAfter)}` +
+    `${significant ? `; ${plural(significant, 'column')} shifted significantly` : ''}.`;
+  block.facts = [
+    { label: 'Rows before', value: count(audit.rowCountBefore) },
+    { label: 'Rows after', value: count(audit.rowCountAfter) },
+    { label: 'Rows dropped', value: count(Math.max(0, audit.rowsDropped)) },
+    { label: 'Schema changes', value: count(audit.schemaChanges.length) },
+  ];
+  block.items = [
+    ...audit.dropReasons.map((r) => ({ text: `${r.reason}: ${count(r.count)}`, tone: 'warn' as const })),
+    ...audit.schemaChanges.map((c) => ({ text: `${c.column} ${c.type.replace('_', ' ')} — ${c.detail}`, tone: 'info' as const })),
+  ];
+  block.table = audit.distributionShifts.length
+    ? {
+        columns: ['Column', 'Mean before', 'Mean after', 'Std dev before', 'Std dev after', 'Shift %'],
+        rows: audit.distributionShifts.map((s) => [
+          s.column,
+          String(s.meanBefore),
+          String(s.meanAfter),
+          String(s.stdDevBefore),
+          String(s.stdDevAfter),
+          `${s.shiftPercent}${s.isSignificant ? ' !' : ''}`,
+        ]),
+      }
+    : null;
+  return block;
+}
+
+/**
+ * Content for every section of a report, in order. Charts are computed over
+ * `rows` — the rows the dashboards draw — with their dashboard's filters.
+ */
+export function buildReportBlocks(report: Report, results: ReportResults, rows: DataRow[]): ReportBlock[] {
+  return report.sections.map((section) => {
+    const block = emptyBlock(section);
+    switch (section.kind) {
+      case 'overview':
+        return overviewBlock(block, results);
+      case 'cleaning':
+        return cleaningBlock(block, results);
+      case 'readiness':
+        return readinessBlock(block, results);
+      case 'recommendations':
+        return recommendationsBlock(block, results);
+      case 'reconciliation':
+        return reconciliationBlock(block, results);
+      case 'chart': {
+        const filtered = hasActiveFilters(section.filters) ? ', with its filters applied' : '';
+        block.summary = `From the ${section.dashboard} dashboard${filtered}.`;
+        block.chart = { widget: section.widget, data: computeWidget(section.widget, applyDashboardFilters(rows, section.filters)) };
+        return block;
+      }
+    }
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * Report file export. Charts are drawn to SVG and rasterized in the browser
+ * (JPEG for PDF, which embeds it as-is; PNG for PowerPoint), then the
+ * document is handed to the writer for the chosen format.
+ */
+
+import { chartSvg, rasterizeSvg, CHART_HEIGHT, CHART_WIDTH, type ChartImage } from './chartImage';
+import type { ReportDocument } from './content';
+import { renderReportPdf } from './pdf';
+import { renderReportPptx } from './pptx';
+import { renderReportWorkbook } from './workbook';
+
+export type ReportFormat = 'pdf' | 'xlsx' | 'pptx';
+
+const MIME_TYPES: Record<ReportFormat, string> = {
+  pdf: 'application/pdf',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+export function reportFileName(title: string, format: ReportFormat): string {
+  const slug = title.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'report'}.${format}`;
+}
+
+async function chartImages(doc: ReportDocument, type: 'image/png' | 'image/jpeg'): Promise<Map<string, ChartImage>> {
+  const images = new Map<string, ChartImage>();
+  for (const block of doc.blocks) {
+    if (!block.chart) continue;
+    const svg = chartSvg(block.chart.widget, block.chart.data, CHART_WIDTH, CHART_HEIGHT);
+    images.set(block.id, await rasterizeSvg(svg, CHART_WIDTH, CHART_HEIGHT, type));
+  }
+  return images;
+}
+
+export async function exportReport(doc: ReportDocument, format: ReportFormat): Promise<{ blob: Blob; filename: string }> {
+  const filename = reportFileName(doc.title, format);
+  if (format === 'xlsx') return { blob: renderReportWorkbook(doc), filename };
+  const bytes = format === 'pdf'
+    ? renderReportPdf(doc, await chartImages(doc, 'image/jpeg'))
+    : renderReportPptx(doc, await chartImages(doc, 'image/png'));
+  return { blob: new Blob([bytes], { type: MIME_TYPES[format] }), filename };
+}
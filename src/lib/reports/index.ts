@@ -0,0 +1,27 @@
+export {
+  ANALYSIS_SECTIONS,
+  createReport,
+  sectionLabel,
+  chartSection,
+  moveSection,
+  type Report,
+  type ReportSection,
+  type ReportSectionKind,
+  type AnalysisSectionKind,
+} from './report';
+export {
+  TONE_LABELS,
+  analyzeForReport,
+  cleaningResults,
+  buildReportBlocks,
+  type ReportResults,
+  type ReportLogEntry,
+  type ReportDocument,
+  type ReportBlock,
+  type ReportTone,
+} from './content';
+export { chartSvg, type ChartImage } from './chartImage';
+export { renderReportPdf } from './pdf';
+export { renderReportPptx } from './pptx';
+export { renderReportWorkbook } from './workbook';
+export { exportReport, reportFileName, type ReportFormat } from './export';
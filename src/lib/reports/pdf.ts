@@ -0,0 +1,380 @@
+/**
+ * PDF report writer. Lays report blocks out on A4 pages with the standard
+ * Helvetica fonts (so nothing needs embedding), wraps text with the fonts'
+ * metrics, repeats table headers across page breaks and places charts as
+ * JPEG images. The output is a complete PDF 1.4 file.
+ */
+
+import { TONE_LABELS, type ReportBlock, type ReportDocument, type ReportTone } from './content';
+import type { ChartImage } from './chartImage';
+
+type Rgb = [number, number, number];
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+// Keeps a heading from being left alone at the bottom of a page
+const MIN_BLOCK_START = 90;
+
+const INK: Rgb = [0.08, 0.1, 0.14];
+const MUTED: Rgb = [0.4, 0.44, 0.5];
+const RULE: Rgb = [0.87, 0.89, 0.91];
+const PANEL: Rgb = [0.96, 0.97, 0.98];
+const TONE_COLORS: Record<ReportTone, { ink: Rgb; fill: Rgb }> = {
+  pass: { ink: [0.09, 0.5, 0.24], fill: [0.86, 0.99, 0.9] },
+  warn: { ink: [0.71, 0.33, 0.04], fill: [1, 0.95, 0.78] },
+  fail: { ink: [0.75, 0.11, 0.11], fill: [1, 0.89, 0.89] },
+  info: { ink: MUTED, fill: [0.93, 0.95, 0.96] },
+};
+
+// ─── Fonts ──────────────────────────────────────────────────────────────────
+
+// Advance widths (1/1000 em) of ASCII 32–126 in Helvetica and Helvetica-Bold
+const HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters WinAnsiEncoding places in 0x80–0x9F
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b,
+  'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99,
+  'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+const REPLACEMENTS: Record<string, string> = { '→': '->', '←': '<-', '≥': '>=', '≤': '<=', '✓': '', '⚠': '!', '↑': '+', '↓': '-' };
+
+// Text as WinAnsi code points (each char < 256); anything else becomes '?'
+function winAnsi(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    const code = ch.codePointAt(0) ?? 63;
+    if (REPLACEMENTS[ch] !== undefined) out += REPLACEMENTS[ch];
+    else if ((code >= 32 && code < 127) || (code >= 0xa0 && code <= 0xff)) out += ch;
+    else if (WIN_ANSI[ch]) out += String.fromCharCode(WIN_ANSI[ch]);
+    else if (ch === '\t' || ch === '\n') out += ' ';
+    else out += '?';
+  }
+  return out;
+}
+
+function textWidth(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD : HELVETICA;
+  let units = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    units += code >= 32 && code < 127 ? widths[code - 32] : code === 0x97 ? 1000 : code === 0x95 ? 350 : 556;
+  }
+  return (units * size) / 1000;
+}
+
+function truncate(text: string, width: number, size: number, bold = false): string {
+  if (textWidth(text, size, bold) <= width) return text;
+  let end = text.length;
+  while (end > 0 && textWidth(`${text.slice(0, end)}...`, size, bold) > width) end--;
+  return `${text.slice(0, end)}...`;
+}
+
+// Greedy word wrap; words longer than a line are broken
+export function wrapText(text: string, width: number, size: number, bold = false): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word;
+    if (textWidth(next, size, bold) <= width) {
+      line = next;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = word;
+    while (textWidth(line, size, bold) > width && line.length > 1) {
+      let cut = line.length - 1;
+      while (cut > 1 && textWidth(line.slice(0, cut), size, bold) > width) cut--;
+      lines.push(line.slice(0, cut));
+      line = line.slice(cut);
+    }
+  }
+  if (line) lines.push(line);
+  return lines.length ? lines : [''];
+}
+
+// A PDF literal string, kept ASCII by writing high bytes as octal escapes
+function pdfString(text: string): string {
+  let out = '(';
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    const ch = text[i];
+    if (ch === '(' || ch === ')' || ch === '\\') out += `\\${ch}`;
+    else if (code < 32 || code > 126) out += `\\${code.toString(8).padStart(3, '0')}`;
+    else out += ch;
+  }
+  return `${out})`;
+}
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+const color = ([r, g, b]: Rgb, op: 'rg' | 'RG') => `${num(r)} ${num(g)} ${num(b)} ${op}`;
+
+// ─── Layout ─────────────────────────────────────────────────────────────────
+
+interface Page {
+  ops: string[];
+  images: Set<string>;
+}
+
+// Cursor-based layout over a growing list of pages; y runs down from the top edge
+class PdfLayout {
+  pages: Page[] = [];
+  y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  private get page(): Page {
+    return this.pages[this.pages.length - 1];
+  }
+
+  newPage() {
+    this.pages.push({ ops: [], images: new Set() });
+    this.y = MARGIN;
+  }
+
+  // Starts a new page unless `height` more points fit on this one
+  ensure(height: number) {
+    if (this.y + height > PAGE_HEIGHT - MARGIN && this.y > MARGIN) this.newPage();
+  }
+
+  text(x: number, y: number, text: string, size: number, options: { bold?: boolean; ink?: Rgb } = {}) {
+    const { bold = false, ink = INK } = options;
+    this.page.ops.push(`BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${color(ink, 'rg')} ${num(x)} ${num(PAGE_HEIGHT - y)} Td ${pdfString(text)} Tj ET`);
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: Rgb) {
+    this.page.ops.push(`${color(fill, 'rg')} ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`);
+  }
+
+  frame(x: number, y: number, width: number, height: number, stroke: Rgb) {
+    this.page.ops.push(`${color(stroke, 'RG')} 0.75 w ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re S`);
+  }
+
+  rule(y: number) {
+    this.page.ops.push(`${color(RULE, 'RG')} 0.75 w ${num(MARGIN)} ${num(PAGE_HEIGHT - y)} m ${num(PAGE_WIDTH - MARGIN)} ${num(PAGE_HEIGHT - y)} l S`);
+  }
+
+  image(name: string, x: number, y: number, width: number, height: number) {
+    this.page.images.add(name);
+    this.page.ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(PAGE_HEIGHT - y - height)} cm /${name} Do Q`);
+  }
+}
+
+function paragraph(layout: PdfLayout, text: string, size: number, ink: Rgb, indent = 0) {
+  const leading = size * 1.4;
+  for (const line of wrapText(text, CONTENT_WIDTH - indent, size)) {
+    layout.ensure(leading);
+    layout.text(MARGIN + indent, layout.y + size, line, size, { ink });
+    layout.y += leading;
+  }
+}
+
+function facts(layout: PdfLayout, block: ReportBlock) {
+  const gap = 8;
+  const perRow = 4;
+  const width = (CONTENT_WIDTH - gap * (perRow - 1)) / perRow;
+  for (let i = 0; i < block.facts.length; i += perRow) {
+    layout.ensure(36);
+    block.facts.slice(i, i + perRow).forEach((f, j) => {
+      const x = MARGIN + j * (width + gap);
+      layout.rect(x, layout.y, width, 34, PANEL);
+      layout.text(x + 6, layout.y + 11, truncate(winAnsi(f.label.toUpperCase()), width - 12, 6.5), 6.5, { ink: MUTED });
+      layout.text(x + 6, layout.y + 26, truncate(winAnsi(f.value), width - 12, 11, true), 11, { bold: true });
+    });
+    layout.y += 34 + gap;
+  }
+}
+
+function table(layout: PdfLayout, columns: string[], rows: string[][]) {
+  const size = 7.5;
+  const pad = 4;
+  const lineHeight = size * 1.35;
+  const header = columns.map(winAnsi);
+  const body = rows.map((r) => r.map(winAnsi));
+  // Natural widths, capped so one long column can't squeeze the rest out
+  const natural = header.map((h, c) =>
+    Math.min(CONTENT_WIDTH * 0.6, Math.max(textWidth(h, size, true), ...body.map((r) => textWidth(r[c] ?? '', size))) + 2 * pad),
+  );
+  const total = natural.reduce((a, b) => a + b, 0);
+  const widths = natural.map((w) => (w * CONTENT_WIDTH) / total);
+
+  const drawRow = (cells: string[], bold: boolean, fill: Rgb | null) => {
+    const wrapped = cells.map((cell, c) => wrapText(cell, widths[c] - 2 * pad, size, bold).slice(0, 4));
+    const height = Math.max(...wrapped.map((l) => l.length)) * lineHeight + 2 * pad;
+    return {
+      height,
+      draw: () => {
+        if (fill) layout.rect(MARGIN, layout.y, CONTENT_WIDTH, height, fill);
+        let x = MARGIN;
+        wrapped.forEach((lines, c) => {
+          lines.forEach((line, l) => layout.text(x + pad, layout.y + pad + size + l * lineHeight, line, size, { bold }));
+          x += widths[c];
+        });
+        layout.y += height;
+        layout.rule(layout.y);
+      },
+    };
+  };
+
+  const head = drawRow(header, true, PANEL);
+  layout.ensure(head.height * 2);
+  head.draw();
+  for (const cells of body) {
+    const row = drawRow(cells, false, null);
+    if (layout.y + row.height > PAGE_HEIGHT - MARGIN) {
+      layout.newPage();
+      head.draw();
+    }
+    row.draw();
+  }
+  layout.y += 10;
+}
+
+function items(layout: PdfLayout, block: ReportBlock) {
+  const size = 8.5;
+  const tagWidth = 46;
+  for (const item of block.items) {
+    const lines = wrapText(winAnsi(item.text), CONTENT_WIDTH - tagWidth - 8, size);
+    const height = lines.length * size * 1.4 + 6;
+    layout.ensure(height);
+    const tone = TONE_COLORS[item.tone];
+    layout.rect(MARGIN, layout.y, tagWidth, 13, tone.fill);
+    layout.text(MARGIN + 4, layout.y + 9.5, TONE_LABELS[item.tone], 7, { bold: true, ink: tone.ink });
+    lines.forEach((line, i) => layout.text(MARGIN + tagWidth + 8, layout.y + 9.5 + i * size * 1.4, line, size));
+    layout.y += height;
+  }
+}
+
+// ─── Document ───────────────────────────────────────────────────────────────
+
+function pdfDate(iso: string): string {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `D:${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+}
+
+function latin1(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Write a report as a PDF. `charts` maps chart block ids to JPEG images;
+ * chart blocks without one are listed by title only.
+ */
+export function renderReportPdf(doc: ReportDocument, charts: ReadonlyMap<string, ChartImage> = new Map()): Uint8Array {
+  const layout = new PdfLayout();
+  const title = winAnsi(doc.title);
+
+  layout.text(MARGIN, layout.y + 20, truncate(title, CONTENT_WIDTH, 20, true), 20, { bold: true });
+  layout.y += 30;
+  layout.text(MARGIN, layout.y + 10, winAnsi(`${doc.dataset} · Generated ${new Date(doc.generatedAt).toLocaleString()}`), 10, { ink: MUTED });
+  layout.y += 20;
+  layout.rule(layout.y);
+  layout.y += 18;
+
+  const imageNames = new Map<string, string>();
+  for (const block of doc.blocks) {
+    layout.ensure(MIN_BLOCK_START);
+    layout.text(MARGIN, layout.y + 13, truncate(winAnsi(block.title), CONTENT_WIDTH, 13, true), 13, { bold: true });
+    layout.y += 20;
+    if (block.summary) paragraph(layout, winAnsi(block.summary), 9.5, MUTED);
+    layout.y += 6;
+    if (block.facts.length) facts(layout, block);
+
+    const image = charts.get(block.id);
+    if (image) {
+      const name = `Im${imageNames.size + 1}`;
+      imageNames.set(block.id, name);
+      const height = (CONTENT_WIDTH * image.height) / image.width;
+      layout.ensure(height);
+      layout.image(name, MARGIN, layout.y, CONTENT_WIDTH, height);
+      layout.frame(MARGIN, layout.y, CONTENT_WIDTH, height, RULE);
+      layout.y += height + 10;
+    }
+    if (block.table) table(layout, block.table.columns, block.table.rows);
+    if (block.items.length) items(layout, block);
+    layout.y += 16;
+  }
+
+  // Footers, now that the page count is known
+  layout.pages.forEach((page, i) => {
+    const footer = truncate(title, CONTENT_WIDTH - 80, 8);
+    page.ops.push(`BT /F1 8 Tf ${color(MUTED, 'rg')} ${MARGIN} ${num(MARGIN / 2)} Td ${pdfString(footer)} Tj ET`);
+    const pageLabel = `Page ${i + 1} of ${layout.pages.length}`;
+    page.ops.push(`BT /F1 8 Tf ${color(MUTED, 'rg')} ${num(PAGE_WIDTH - MARGIN - textWidth(pageLabel, 8))} ${num(MARGIN / 2)} Td ${pdfString(pageLabel)} Tj ET`);
+  });
+
+  // Objects: 1 catalog, 2 page tree, 3–4 fonts, 5 info, then images, then a page and its content stream per page
+  const objects: (string | Uint8Array)[][] = [];
+  const images = doc.blocks.filter((b) => imageNames.has(b.id));
+  const firstImage = 6;
+  const firstPage = firstImage + images.length;
+  const imageObject = new Map(images.map((b, i) => [imageNames.get(b.id)!, firstImage + i]));
+  const pageIds = layout.pages.map((_, i) => firstPage + i * 2);
+
+  objects.push([`<< /Type /Catalog /Pages 2 0 R >>`]);
+  objects.push([`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`]);
+  objects.push([`<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>`]);
+  objects.push([`<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>`]);
+  objects.push([`<< /Title ${pdfString(title)} /Subject ${pdfString(winAnsi(doc.dataset))} /CreationDate ${pdfString(pdfDate(doc.generatedAt))} >>`]);
+  for (const block of images) {
+    const image = charts.get(block.id)!;
+    objects.push([
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB ` +
+        `/BitsPerComponent 8 /Filter /DCTDecode /Length ${image.bytes.length} >>\nstream\n`,
+      image.bytes,
+      '\nendstream',
+    ]);
+  }
+  layout.pages.forEach((page, i) => {
+    const xobjects = [...page.images].map((name) => `/${name} ${imageObject.get(name)} 0 R`).join(' ');
+    const resources = `<< /Font << /F1 3 0 R /F2 4 0 R >>${xobjects ? ` /XObject << ${xobjects} >>` : ''} >>`;
+    objects.push([
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources ${resources} /Contents ${pageIds[i] + 1} 0 R >>`,
+    ]);
+    const content = page.ops.join('\n');
+    objects.push([`<< /Length ${content.length} >>\nstream\n${content}\nendstream`]);
+  });
+
+  const parts: Uint8Array[] = [latin1('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+  let offset = parts[0].length;
+  const offsets: number[] = [];
+  objects.forEach((chunks, i) => {
+    offsets.push(offset);
+    for (const chunk of [`${i + 1} 0 obj\n`, ...chunks, '\nendobj\n']) {
+      const bytes = typeof chunk === 'string' ? latin1(chunk) : chunk;
+      parts.push(bytes);
+      offset += bytes.length;
+    }
+  });
+  const xref =
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`).join('') +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${offset}\n%%EOF\n`;
+  parts.push(latin1(xref));
+
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  for (const part of parts) {
+    out.set(part, at);
+    at += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,394 @@
+/**
+ * PowerPoint report writer: a 16:9 deck with a title slide and one slide per
+ * report section, packaged as PresentationML parts in a ZIP. Each slide
+ * stacks the section's facts, chart image, table and findings, trimming
+ * tables and lists to what fits and noting how many were left out.
+ */
+
+import { TONE_LABELS, type ReportBlock, type ReportDocument, type ReportTone } from './content';
+import type { ChartImage } from './chartImage';
+import { writeZip, type ZipEntry } from './zip';
+
+const EMU_PER_INCH = 914400;
+const SLIDE_WIDTH = 12192000;
+const SLIDE_HEIGHT = 6858000;
+const MARGIN = 0.5;
+const CONTENT_WIDTH = 13.333 - 2 * MARGIN;
+const BODY_TOP = 1.75;
+const BODY_BOTTOM = 7.1;
+
+const INK = '141A24';
+const MUTED = '66707F';
+const RULE = 'DDE3E8';
+const PANEL = 'F4F6F8';
+const PRIMARY = '2A9D90';
+const TONE_COLORS: Record<ReportTone, string> = { pass: '16A34A', warn: 'D97706', fail: 'DC2626', info: MUTED };
+
+const NS =
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+function esc(text: string): string {
+  return text.replace(/[&<>"]/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c])
+    // Control characters are not allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+function truncate(text: string, n: number): string {
+  return text.length > n ? `${text.slice(0, n - 1)}…` : text;
+}
+
+const emu = (inches: number) => Math.round(inches * EMU_PER_INCH);
+
+function relationships(rels: { id: string; type: string; target: string }[]): string {
+  return `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    rels.map((r) => `<Relationship Id="${r.id}" Type="${r.type.startsWith('http') ? r.type : `${REL}/${r.type}`}" Target="${r.target}"/>`).join('') +
+    '</Relationships>';
+}
+
+// ─── Shapes ─────────────────────────────────────────────────────────────────
+
+interface Run {
+  text: string;
+  size: number;
+  color?: string;
+  bold?: boolean;
+}
+
+// Paragraphs of runs; `bullet` paragraphs get a hanging bullet
+type Paragraph = { runs: Run[]; bullet?: boolean; align?: 'l' | 'ctr' };
+
+function run({ text, size, color = INK, bold }: Run): string {
+  return `<a:r><a:rPr lang="en-US" sz="${Math.round(size * 100)}"${bold ? ' b="1"' : ''} dirty="0">` +
+    `<a:solidFill><a:srgbClr val="${color}"/></a:solidFill><a:latin typeface="Calibri"/></a:rPr><a:t>${esc(text)}</a:t></a:r>`;
+}
+
+function paragraphs(list: Paragraph[]): string {
+  return list
+    .map((p) => {
+      const props = p.bullet
+        ? '<a:pPr marL="228600" indent="-228600"><a:buFont typeface="Arial"/><a:buChar char="•"/></a:pPr>'
+        : `<a:pPr algn="${p.align ?? 'l'}"><a:buNone/></a:pPr>`;
+      return `<a:p>${props}${p.runs.map(run).join('')}</a:p>`;
+    })
+    .join('');
+}
+
+function xfrm(x: number, y: number, w: number, h: number): string {
+  return `<a:xfrm><a:off x="${emu(x)}" y="${emu(y)}"/><a:ext cx="${emu(w)}" cy="${emu(h)}"/></a:xfrm>`;
+}
+
+class SlideShapes {
+  private shapes: string[] = [];
+  private nextId = 2;
+
+  text(x: number, y: number, w: number, h: number, body: Paragraph[], fill?: string) {
+    const id = this.nextId++;
+    this.shapes.push(
+      `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="Text ${id}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>` +
+        `<p:spPr>${xfrm(x, y, w, h)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>` +
+        `${fill ? `<a:solidFill><a:srgbClr val="${fill}"/></a:solidFill>` : '<a:noFill/>'}</p:spPr>` +
+        `<p:txBody><a:bodyPr wrap="square" lIns="91440" tIns="45720" rIns="91440" bIns="45720" anchor="t"/><a:lstStyle/>` +
+        `${paragraphs(body)}</p:txBody></p:sp>`,
+    );
+  }
+
+  rule(x: number, y: number, w: number, color: string) {
+    const id = this.nextId++;
+    this.shapes.push(
+      `<p:cxnSp><p:nvCxnSpPr><p:cNvPr id="${id}" name="Line ${id}"/><p:cNvCxnSpPr/><p:nvPr/></p:nvCxnSpPr>` +
+        `<p:spPr>${xfrm(x, y, w, 0)}<a:prstGeom prst="line"><a:avLst/></a:prstGeom>` +
+        `<a:ln w="19050"><a:solidFill><a:srgbClr val="${color}"/></a:solidFill></a:ln></p:spPr></p:cxnSp>`,
+    );
+  }
+
+  picture(relId: string, x: number, y: number, w: number, h: number) {
+    const id = this.nextId++;
+    this.shapes.push(
+      `<p:pic><p:nvPicPr><p:cNvPr id="${id}" name="Chart ${id}"/><p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr>` +
+        `<p:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>` +
+        `<p:spPr>${xfrm(x, y, w, h)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>` +
+        `<a:ln w="6350"><a:solidFill><a:srgbClr val="${RULE}"/></a:solidFill></a:ln></p:spPr></p:pic>`,
+    );
+  }
+
+  table(x: number, y: number, widths: number[], rowHeight: number, rows: string[][]) {
+    const id = this.nextId++;
+    const cell = (text: string, header: boolean) =>
+      `<a:tc><a:txBody><a:bodyPr/><a:lstStyle/>${paragraphs([{ runs: [{ text, size: 11, bold: header }] }])}</a:txBody>` +
+      `<a:tcPr marL="68580" marR="68580" marT="34290" marB="34290" anchor="ctr">` +
+      `<a:lnL w="0"><a:noFill/></a:lnL><a:lnR w="0"><a:noFill/></a:lnR><a:lnT w="0"><a:noFill/></a:lnT>` +
+      `<a:lnB w="6350"><a:solidFill><a:srgbClr val="${RULE}"/></a:solidFill></a:lnB>` +
+      `${header ? `<a:solidFill><a:srgbClr val="${PANEL}"/></a:solidFill>` : '<a:noFill/>'}</a:tcPr></a:tc>`;
+    const width = widths.reduce((a, b) => a + b, 0);
+    this.shapes.push(
+      `<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="${id}" name="Table ${id}"/>` +
+        `<p:cNvGraphicFramePr><a:graphicFrameLocks noGrp="1"/></p:cNvGraphicFramePr><p:nvPr/></p:nvGraphicFramePr>` +
+        `<p:xfrm><a:off x="${emu(x)}" y="${emu(y)}"/><a:ext cx="${emu(width)}" cy="${emu(rowHeight * rows.length)}"/></p:xfrm>` +
+        `<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table"><a:tbl><a:tblPr firstRow="1"/>` +
+        `<a:tblGrid>${widths.map((w) => `<a:gridCol w="${emu(w)}"/>`).join('')}</a:tblGrid>` +
+        rows.map((r, i) => `<a:tr h="${emu(rowHeight)}">${r.map((c) => cell(c, i === 0)).join('')}</a:tr>`).join('') +
+        `</a:tbl></a:graphicData></a:graphic></p:graphicFrame>`,
+    );
+  }
+
+  xml(): string {
+    return `${XML_HEADER}<p:sld ${NS}><p:cSld><p:spTree>` +
+      '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+      '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>' +
+      `${this.shapes.join('')}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`;
+  }
+}
+
+// ─── Slides ─────────────────────────────────────────────────────────────────
+
+function titleSlide(doc: ReportDocument): string {
+  const slide = new SlideShapes();
+  slide.text(MARGIN, 2.4, CONTENT_WIDTH, 1.2, [{ runs: [{ text: doc.title, size: 40, bold: true }] }]);
+  slide.rule(MARGIN + 0.1, 3.65, 2, PRIMARY);
+  slide.text(MARGIN, 3.8, CONTENT_WIDTH, 0.9, [
+    { runs: [{ text: doc.dataset, size: 20, color: MUTED }] },
+    { runs: [{ text: `Generated ${new Date(doc.generatedAt).toLocaleString()}`, size: 14, color: MUTED }] },
+  ]);
+  return slide.xml();
+}
+
+// Characters of 11pt text that fit in `inches`, roughly
+const charsIn = (inches: number, size = 11) => Math.max(4, Math.floor((inches * 72) / (size * 0.5)));
+
+function sectionSlide(block: ReportBlock, chart: { relId: string; image: ChartImage } | null): string {
+  const slide = new SlideShapes();
+  slide.text(MARGIN, 0.35, CONTENT_WIDTH, 0.7, [{ runs: [{ text: block.title, size: 28, bold: true }] }]);
+  if (block.summary) slide.text(MARGIN, 1.0, CONTENT_WIDTH, 0.7, [{ runs: [{ text: block.summary, size: 14, color: MUTED }] }]);
+  let y = BODY_TOP;
+
+  // Facts in rows of four, at most two rows
+  const perRow = 4;
+  const gap = 0.15;
+  const boxWidth = (CONTENT_WIDTH - gap * (perRow - 1)) / perRow;
+  block.facts.slice(0, perRow * 2).forEach((f, i) => {
+    const x = MARGIN + (i % perRow) * (boxWidth + gap);
+    const top = y + Math.floor(i / perRow) * (0.85 + gap);
+    slide.text(x, top, boxWidth, 0.85, [
+      { runs: [{ text: f.label.toUpperCase(), size: 10, color: MUTED }] },
+      { runs: [{ text: truncate(f.value, charsIn(boxWidth, 20)), size: 20, bold: true }] },
+    ], PANEL);
+  });
+  if (block.facts.length) y += Math.ceil(Math.min(block.facts.length, perRow * 2) / perRow) * (0.85 + gap) + 0.05;
+
+  if (chart) {
+    const room = BODY_BOTTOM - y;
+    const aspect = chart.image.height / chart.image.width;
+    const w = Math.min(CONTENT_WIDTH, room / aspect);
+    slide.picture(chart.relId, MARGIN + (CONTENT_WIDTH - w) / 2, y, w, w * aspect);
+    y += w * aspect + 0.15;
+  }
+
+  const rowHeight = 0.34;
+  // Lists get whatever the table leaves, but always a few lines when they exist
+  const listReserve = block.items.length ? Math.min(block.items.length, 3) * 0.34 + 0.1 : 0;
+  if (block.table && y + rowHeight * 2 <= BODY_BOTTOM) {
+    const { columns, rows } = block.table;
+    const fit = Math.max(1, Math.floor((BODY_BOTTOM - y - listReserve) / rowHeight) - 1);
+    const shown = rows.slice(0, rows.length > fit ? fit - 1 : fit);
+    const natural = columns.map((c, i) => Math.min(40, Math.max(c.length, ...shown.map((r) => (r[i] ?? '').length))) + 4);
+    const total = natural.reduce((a, b) => a + b, 0);
+    const widths = natural.map((n) => (n / total) * CONTENT_WIDTH);
+    const cells = shown.map((r) => r.map((c, i) => truncate(c, charsIn(widths[i] - 0.15))));
+    const more = rows.length - shown.length;
+    const tableRows = [columns, ...cells, ...(more > 0 ? [[`+${more} more rows`, ...columns.slice(1).map(() => '')]] : [])];
+    slide.table(MARGIN, y, widths, rowHeight, tableRows);
+    y += rowHeight * tableRows.length + 0.15;
+  }
+
+  if (block.items.length && y + 0.34 <= BODY_BOTTOM) {
+    const perLine = charsIn(CONTENT_WIDTH - 0.4, 12);
+    const lines = (text: string) => Math.max(1, Math.ceil(text.length / perLine));
+    const body: Paragraph[] = [];
+    let height = 0.1;
+    let shown = 0;
+    for (const item of block.items) {
+      const text = truncate(item.text, perLine * 2);
+      const h = lines(`${TONE_LABELS[item.tone]} — ${text}`) * 0.27 + 0.06;
+      // Leave a line for the overflow note
+      if (y + height + h + (shown < block.items.length - 1 ? 0.3 : 0) > BODY_BOTTOM) break;
+      body.push({
+        bullet: true,
+        runs: [
+          { text: `${TONE_LABELS[item.tone]} — `, size: 12, bold: true, color: TONE_COLORS[item.tone] },
+          { text, size: 12 },
+        ],
+      });
+      height += h;
+      shown++;
+    }
+    const more = block.items.length - shown;
+    if (more > 0) body.push({ runs: [{ text: `+${more} more`, size: 11, color: MUTED }] });
+    slide.text(MARGIN, y, CONTENT_WIDTH, BODY_BOTTOM - y, body);
+  }
+  return slide.xml();
+}
+
+// ─── Package ────────────────────────────────────────────────────────────────
+
+const THEME =
+  `${XML_HEADER}<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="Report"><a:themeElements>` +
+  '<a:clrScheme name="Report">' +
+  `<a:dk1><a:srgbClr val="${INK}"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1>` +
+  `<a:dk2><a:srgbClr val="1F2937"/></a:dk2><a:lt2><a:srgbClr val="${PANEL}"/></a:lt2>` +
+  `<a:accent1><a:srgbClr val="${PRIMARY}"/></a:accent1><a:accent2><a:srgbClr val="F59E0B"/></a:accent2>` +
+  '<a:accent3><a:srgbClr val="22C55E"/></a:accent3><a:accent4><a:srgbClr val="A78BFA"/></a:accent4>' +
+  '<a:accent5><a:srgbClr val="60A5FA"/></a:accent5><a:accent6><a:srgbClr val="F472B6"/></a:accent6>' +
+  '<a:hlink><a:srgbClr val="2563EB"/></a:hlink><a:folHlink><a:srgbClr val="7C3AED"/></a:folHlink></a:clrScheme>' +
+  '<a:fontScheme name="Report">' +
+  '<a:majorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>' +
+  '<a:minorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont></a:fontScheme>' +
+  '<a:fmtScheme name="Report">' +
+  `<a:fillStyleLst>${'<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'.repeat(3)}</a:fillStyleLst>` +
+  `<a:lnStyleLst>${'<a:ln w="6350"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>'.repeat(3)}</a:lnStyleLst>` +
+  `<a:effectStyleLst>${'<a:effectStyle><a:effectLst/></a:effectStyle>'.repeat(3)}</a:effectStyleLst>` +
+  `<a:bgFillStyleLst>${'<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'.repeat(3)}</a:bgFillStyleLst>` +
+  '</a:fmtScheme></a:themeElements><a:objectDefaults/><a:extraClrSchemeLst/></a:theme>';
+
+const EMPTY_TREE =
+  '<p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr></p:spTree>';
+
+const MASTER =
+  `${XML_HEADER}<p:sldMaster ${NS}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>${EMPTY_TREE}</p:cSld>` +
+  '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" ' +
+  'accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>' +
+  '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>' +
+  '<p:txStyles><p:titleStyle><a:lvl1pPr><a:defRPr sz="4000"/></a:lvl1pPr></p:titleStyle>' +
+  '<p:bodyStyle><a:lvl1pPr><a:defRPr sz="1800"/></a:lvl1pPr></p:bodyStyle>' +
+  '<p:otherStyle><a:lvl1pPr><a:defRPr sz="1800"/></a:lvl1pPr></p:otherStyle></p:txStyles></p:sldMaster>';
+
+const LAYOUT =
+  `${XML_HEADER}<p:sldLayout ${NS} type="blank" preserve="1"><p:cSld name="Blank">${EMPTY_TREE}</p:cSld>` +
+  '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>';
+
+function contentTypes(slides: number, hasImages: boolean): string {
+  const part = (name: string, type: string) => `<Override PartName="${name}" ContentType="application/vnd.openxmlformats-${type}"/>`;
+  return `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    (hasImages ? '<Default Extension="png" ContentType="image/png"/>' : '') +
+    part('/ppt/presentation.xml', 'officedocument.presentationml.presentation.main+xml') +
+    part('/ppt/slideMasters/slideMaster1.xml', 'officedocument.presentationml.slideMaster+xml') +
+    part('/ppt/slideLayouts/slideLayout1.xml', 'officedocument.presentationml.slideLayout+xml') +
+    part('/ppt/theme/theme1.xml', 'officedocument.theme+xml') +
+    part('/ppt/presProps.xml', 'officedocument.presentationml.presProps+xml') +
+    part('/ppt/viewProps.xml', 'officedocument.presentationml.viewProps+xml') +
+    part('/ppt/tableStyles.xml', 'officedocument.presentationml.tableStyles+xml') +
+    Array.from({ length: slides }, (_, i) => part(`/ppt/slides/slide${i + 1}.xml`, 'officedocument.presentationml.slide+xml')).join('') +
+    part('/docProps/core.xml', 'package.core-properties+xml') +
+    part('/docProps/app.xml', 'officedocument.extended-properties+xml') +
+    '</Types>';
+}
+
+/**
+ * Write a report as a PowerPoint deck. `charts` maps chart block ids to PNG
+ * images; chart sections without one get a slide with their title only.
+ */
+export function renderReportPptx(doc: ReportDocument, charts: ReadonlyMap<string, ChartImage> = new Map()): Uint8Array {
+  const entries: ZipEntry[] = [];
+  const slides: string[] = [titleSlide(doc)];
+  const slideRels: { id: string; type: string; target: string }[][] = [[]];
+  let media = 0;
+
+  for (const block of doc.blocks) {
+    const image = charts.get(block.id);
+    const rels = [];
+    let chart: { relId: string; image: ChartImage } | null = null;
+    if (image) {
+      media++;
+      entries.push({ path: `ppt/media/image${media}.png`, data: image.bytes });
+      rels.push({ id: 'rId2', type: 'image', target: `../media/image${media}.png` });
+      chart = { relId: 'rId2', image };
+    }
+    slides.push(sectionSlide(block, chart));
+    slideRels.push(rels);
+  }
+
+  const slideIds = slides.map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 2}"/>`).join('');
+  const extra = slides.length + 2;
+  const created = new Date(doc.generatedAt).toISOString().replace(/\.\d+Z$/, 'Z');
+
+  entries.unshift(
+    { path: '[Content_Types].xml', data: contentTypes(slides.length, media > 0) },
+    {
+      path: '_rels/.rels',
+      data: relationships([
+        { id: 'rId1', type: 'officeDocument', target: 'ppt/presentation.xml' },
+        { id: 'rId2', type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', target: 'docProps/core.xml' },
+        { id: 'rId3', type: 'extended-properties', target: 'docProps/app.xml' },
+      ]),
+    },
+    {
+      path: 'docProps/core.xml',
+      data:
+        `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+        'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+        'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+        `<dc:title>${esc(doc.title)}</dc:title><dc:subject>${esc(doc.dataset)}</dc:subject>` +
+        `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created></cp:coreProperties>`,
+    },
+    {
+      path: 'docProps/app.xml',
+      data:
+        `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">` +
+        `<Application>DataTidy</Application><Slides>${slides.length}</Slides></Properties>`,
+    },
+    {
+      path: 'ppt/presentation.xml',
+      data:
+        `${XML_HEADER}<p:presentation ${NS} saveSubsetFonts="1">` +
+        '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>' +
+        `<p:sldIdLst>${slideIds}</p:sldIdLst>` +
+        `<p:sldSz cx="${SLIDE_WIDTH}" cy="${SLIDE_HEIGHT}"/><p:notesSz cx="6858000" cy="9144000"/></p:presentation>`,
+    },
+    {
+      path: 'ppt/_rels/presentation.xml.rels',
+      data: relationships([
+        { id: 'rId1', type: 'slideMaster', target: 'slideMasters/slideMaster1.xml' },
+        ...slides.map((_, i) => ({ id: `rId${i + 2}`, type: 'slide', target: `slides/slide${i + 1}.xml` })),
+        { id: `rId${extra}`, type: 'theme', target: 'theme/theme1.xml' },
+        { id: `rId${extra + 1}`, type: 'presProps', target: 'presProps.xml' },
+        { id: `rId${extra + 2}`, type: 'viewProps', target: 'viewProps.xml' },
+        { id: `rId${extra + 3}`, type: 'tableStyles', target: 'tableStyles.xml' },
+      ]),
+    },
+    { path: 'ppt/presProps.xml', data: `${XML_HEADER}<p:presentationPr ${NS}/>` },
+    { path: 'ppt/viewProps.xml', data: `${XML_HEADER}<p:viewPr ${NS}/>` },
+    {
+      path: 'ppt/tableStyles.xml',
+      data: `${XML_HEADER}<a:tblStyleLst xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>`,
+    },
+    { path: 'ppt/theme/theme1.xml', data: THEME },
+    { path: 'ppt/slideMasters/slideMaster1.xml', data: MASTER },
+    {
+      path: 'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+      data: relationships([
+        { id: 'rId1', type: 'slideLayout', target: '../slideLayouts/slideLayout1.xml' },
+        { id: 'rId2', type: 'theme', target: '../theme/theme1.xml' },
+      ]),
+    },
+    { path: 'ppt/slideLayouts/slideLayout1.xml', data: LAYOUT },
+    {
+      path: 'ppt/slideLayouts/_rels/slideLayout1.xml.rels',
+      data: relationships([{ id: 'rId1', type: 'slideMaster', target: '../slideMasters/slideMaster1.xml' }]),
+    },
+    ...slides.flatMap((xml, i): ZipEntry[] => [
+      { path: `ppt/slides/slide${i + 1}.xml`, data: xml },
+      {
+        path: `ppt/slides/_rels/slide${i + 1}.xml.rels`,
+        data: relationships([{ id: 'rId1', type: 'slideLayout', target: '../slideLayouts/slideLayout1.xml' }, ...slideRels[i]]),
+      },
+    ]),
+  );
+  return writeZip(entries);
+}
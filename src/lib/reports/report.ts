@@ -0,0 +1,73 @@
+/**
+ * Saved reports: an ordered list of sections, each either one of the
+ * analysis results (profile, cleaning, BI-readiness, reconciliation) or a
+ * chart copied from one of the dataset's dashboards. Sections hold no
+ * figures of their own; they are filled in from the dataset when the
+ * report is shown or exported, so a saved report follows the data.
+ */
+
+import type { DashboardFilters, Widget } from '../dashboard';
+
+export type ReportSectionKind = 'overview' | 'cleaning' | 'readiness' | 'recommendations' | 'reconciliation' | 'chart';
+
+export type AnalysisSectionKind = Exclude<ReportSectionKind, 'chart'>;
+
+export type ReportSection =
+  | { id: string; kind: AnalysisSectionKind }
+  | {
+      id: string;
+      kind: 'chart';
+      // Copied when added, so later edits to the dashboard don't change the report
+      widget: Widget;
+      filters: DashboardFilters;
+      dashboard: string;
+    };
+
+export interface Report {
+  id: string;
+  name: string;
+  sections: ReportSection[];
+  updatedAt: string;
+}
+
+export const ANALYSIS_SECTIONS: { kind: AnalysisSectionKind; label: string; description: string }[] = [
+  { kind: 'overview', label: 'Data description', description: 'Size, date range, column roles and key metrics' },
+  { kind: 'cleaning', label: 'Cleaning summary', description: 'What the cleaning engine changed' },
+  { kind: 'readiness', label: 'BI-readiness pillars', description: 'Scores for the five pillars of data integrity' },
+  { kind: 'recommendations', label: 'Recommendations', description: 'Follow-ups from the BI-readiness checks' },
+  { kind: 'reconciliation', label: 'Reconciliation audit', description: 'Rows dropped, schema changes and distribution shifts' },
+];
+
+export function createReport(name: string): Report {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    sections: ANALYSIS_SECTIONS.map((s) => ({ id: crypto.randomUUID(), kind: s.kind })),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export function sectionLabel(section: ReportSection): string {
+  if (section.kind === 'chart') return section.widget.config.title;
+  return ANALYSIS_SECTIONS.find((s) => s.kind === section.kind)?.label ?? section.kind;
+}
+
+export function chartSection(widget: Widget, dashboard: { name: string; filters: DashboardFilters }): ReportSection {
+  return {
+    id: crypto.randomUUID(),
+    kind: 'chart',
+    widget,
+    filters: dashboard.filters,
+    dashboard: dashboard.name,
+  };
+}
+
+// Swaps a section with its neighbour; out-of-range moves leave the order unchanged
+export function moveSection(sections: ReportSection[], id: string, offset: -1 | 1): ReportSection[] {
+  const from = sections.findIndex((s) => s.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= sections.length) return sections;
+  const next = [...sections];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+}
@@ -0,0 +1,102 @@
+/**
+ * Excel report writer: a Summary sheet with every report section in order,
+ * followed by the full cleaning actions, per-column quality metrics and the
+ * error log, which the other formats only summarize.
+ */
+
+import * as XLSX from 'xlsx';
+import { TONE_LABELS, type ReportBlock, type ReportDocument } from './content';
+
+type Cell = string | number | null;
+
+function sheet(rows: Cell[][], widths: number[]): XLSX.WorkSheet {
+  const ws = XLSX.utils.aoa_to_sheet(rows);
+  ws['!cols'] = widths.map((wch) => ({ wch }));
+  return ws;
+}
+
+function chartRows(block: ReportBlock): Cell[][] {
+  if (!block.chart) return [];
+  const { data } = block.chart;
+  switch (data.kind) {
+    case 'value':
+      return [['Value', data.value]];
+    case 'series':
+      return [
+        ['Group', 'Value'],
+        ...data.points.map((p): Cell[] => [p.label, p.value]),
+        ...(data.hidden ? [[`+${data.hidden} more groups`, null]] : []),
+      ];
+    case 'points':
+      return [
+        ['Latitude', 'Longitude', 'Value'],
+        ...data.points.map((p): Cell[] => [p.lat, p.lon, p.value]),
+        ...(data.hidden ? [[`+${data.hidden} more points`, null, null]] : []),
+      ];
+  }
+}
+
+function summarySheet(doc: ReportDocument): XLSX.WorkSheet {
+  const rows: Cell[][] = [
+    [doc.title],
+    ['Dataset', doc.dataset],
+    ['Generated', new Date(doc.generatedAt).toLocaleString()],
+  ];
+  for (const block of doc.blocks) {
+    rows.push([], [block.title.toUpperCase()]);
+    if (block.summary) rows.push([block.summary]);
+    for (const fact of block.facts) rows.push([fact.label, fact.value]);
+    if (block.table) rows.push([], block.table.columns, ...block.table.rows);
+    if (block.items.length) rows.push([], ...block.items.map((item): Cell[] => [TONE_LABELS[item.tone], item.text]));
+    const chart = chartRows(block);
+    if (chart.length) rows.push([], ...chart);
+  }
+  return sheet(rows, [28, 60, 18, 18, 18, 40]);
+}
+
+/** Write a report as an .xlsx workbook. */
+export function renderReportWorkbook(doc: ReportDocument): Blob {
+  const { actions, columnMetrics, log } = doc.results;
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, summarySheet(doc), 'Summary');
+  XLSX.utils.book_append_sheet(
+    workbook,
+    sheet(
+      [
+        ['#', 'Type', 'Column', 'Description', 'Count', 'Policy', 'Details'],
+        ...actions.map((a, i): Cell[] => [
+          i + 1, a.type, a.column ?? '', a.description, a.count, a.policyApplied ?? '', (a.details ?? []).join('; '),
+        ]),
+      ],
+      [5, 22, 22, 60, 10, 22, 60],
+    ),
+    'Actions',
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    sheet(
+      [
+        ['Column', 'Quality score', 'Missing %', 'Invalid %', 'Imputed %', 'Outliers %', 'Protected', 'Reason'],
+        ...columnMetrics.map((m): Cell[] => [
+          m.columnName, m.qualityScore, m.missingPercent, m.invalidPercent, m.imputedPercent, m.outliersPercent,
+          m.isProtected ? 'Yes' : 'No', m.protectionReason ?? '',
+        ]),
+      ],
+      [24, 14, 12, 12, 12, 12, 10, 40],
+    ),
+    'Column metrics',
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    sheet(
+      [
+        ['Source', 'Level', 'Row', 'Message'],
+        ...log.map((e): Cell[] => [e.source, e.level, e.row, e.message]),
+      ],
+      [28, 10, 8, 80],
+    ),
+    'Error log',
+  );
+  const buffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
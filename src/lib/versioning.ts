@@ -0,0 +1,204 @@
+/**
+ * Dataset Versioning
+ * A version is a named, materialized copy of a dataset: the pipeline's output
+ * rows at commit time plus the schema, quality and pipeline that produced
+ * them. Version metadata lives on the `Dataset` in the workspace store; the
+ * rows go to IndexedDB under a per-version key, like any dataset's rows.
+ */
+
+import type { Dataset, DatasetVersion, PipelineStep } from '@/store/workspace';
+import { deleteDatasetRows, loadDatasetRows, saveDatasetRows, versionRowsKey } from '@/store/datasetRows';
+import { runPipeline, type ExecutionContext } from './pipeline';
+import { assessDataset, collectColumns } from './datasetProfiler';
+
+type DataRow = Record<string, unknown>;
+
+export interface VersionSchemaChange {
+  column: string;
+  change: 'added' | 'removed' | 'type_changed';
+  detail: string;
+}
+
+export interface VersionDiff {
+  rowsBefore: number;
+  rowsAfter: number;
+  // Rows compared as whole records over the shared columns (multiset semantics)
+  rowsOnlyBefore: number;
+  rowsOnlyAfter: number;
+  sampleRemoved: DataRow[];
+  sampleAdded: DataRow[];
+  schemaChanges: VersionSchemaChange[];
+  qualityDelta: number;
+  stepsAdded: string[];
+  stepsRemoved: string[];
+}
+
+const DIFF_SAMPLE_SIZE = 5;
+
+export function nextVersionName(dataset: Dataset): string {
+  return `v${dataset.versions.length + 1}`;
+}
+
+/**
+ * Run the dataset's pipeline over its rows and store the output as a new
+ * version. Throws if a step fails so a half-applied table is never committed.
+ */
+export async function commitVersion(
+  dataset: Dataset,
+  rows: DataRow[],
+  details: { name: string; note?: string },
+  ctx: ExecutionContext = {},
+): Promise<DatasetVersion> {
+  const result = runPipeline(rows, dataset.pipeline, ctx);
+  if (result.failedStepId) {
+    const failed = result.steps[result.steps.length - 1];
+    throw new Error(`Step "${failed.label}" failed: ${failed.error}`);
+  }
+
+  const { schema, issues, quality } = assessDataset(result.rows);
+  const version: DatasetVersion = {
+    id: crypto.randomUUID(),
+    name: details.name.trim() || nextVersionName(dataset),
+    note: details.note?.trim() || undefined,
+    createdAt: new Date().toISOString(),
+    rowCount: result.rows.length,
+    colCount: schema.length,
+    quality,
+    schema,
+    issues,
+    pipeline: dataset.pipeline.map((step) => ({ ...step })),
+  };
+  await saveDatasetRows(versionRowsKey(dataset.id, version.id), result.rows);
+  return version;
+}
+
+export async function loadVersionRows(datasetId: string, versionId: string): Promise<DataRow[]> {
+  const rows = await loadDatasetRows(versionRowsKey(datasetId, versionId));
+  if (!rows) throw new Error('The rows for this version are no longer available in browser storage.');
+  return rows;
+}
+
+export function deleteVersionRows(datasetId: string, versionId: string): Promise<void> {
+  return deleteDatasetRows(versionRowsKey(datasetId, versionId));
+}
+
+/**
+ * Make a version the dataset's working copy. Its rows already include the
+ * recorded pipeline, so the working pipeline starts empty again.
+ */
+export async function restoreVersionRows(datasetId: string, version: DatasetVersion): Promise<Partial<Dataset>> {
+  const rows = await loadVersionRows(datasetId, version.id);
+  await saveDatasetRows(datasetId, rows);
+  return {
+    rowCount: version.rowCount,
+    colCount: version.colCount,
+    quality: version.quality,
+    schema: version.schema,
+    issues: version.issues,
+    pipeline: [],
+    redoStack: [],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// A new dataset seeded from a version, with its own empty history
+export async function branchFromVersion(source: Dataset, version: DatasetVersion, name: string): Promise<Dataset> {
+  const rows = await loadVersionRows(source.id, version.id);
+  const id = `ds-${Date.now()}`;
+  const now = new Date().toISOString();
+  await saveDatasetRows(id, rows);
+  return {
+    id,
+    name: name.trim() || `${source.name} (${version.name})`,
+    format: source.format,
+    rowCount: version.rowCount,
+    colCount: version.colCount,
+    quality: version.quality,
+    createdAt: now,
+    updatedAt: now,
+    schema: version.schema,
+    pipeline: [],
+    redoStack: [],
+    issues: version.issues,
+    versions: [],
+    models: [],
+    dashboards: [],
+    reports: [],
+  };
+}
+
+// ─── Diff ────────────────────────────────────────────────────────────────────
+
+function rowKey(row: DataRow, columns: string[]): string {
+  return JSON.stringify(columns.map((c) => row[c] ?? null));
+}
+
+function countKeys(rows: DataRow[], columns: string[]): Map<string, { count: number; row: DataRow }> {
+  const counts = new Map<string, { count: number; row: DataRow }>();
+  for (const row of rows) {
+    const key = rowKey(row, columns);
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { count: 1, row });
+  }
+  return counts;
+}
+
+// Rows whose key appears more often on the left than on the right
+function surplus(left: Map<string, { count: number; row: DataRow }>, right: Map<string, { count: number; row: DataRow }>) {
+  let total = 0;
+  const sample: DataRow[] = [];
+  for (const [key, { count, row }] of left) {
+    const extra = count - (right.get(key)?.count ?? 0);
+    if (extra <= 0) continue;
+    total += extra;
+    if (sample.length < DIFF_SAMPLE_SIZE) sample.push(row);
+  }
+  return { total, sample };
+}
+
+function stepSignature(step: PipelineStep): string {
+  return `${step.type}:${JSON.stringify(step.params ?? {})}`;
+}
+
+export function diffVersions(
+  before: DatasetVersion,
+  beforeRows: DataRow[],
+  after: DatasetVersion,
+  afterRows: DataRow[],
+): VersionDiff {
+  const beforeTypes = new Map(before.schema.map((c) => [c.name, c.type]));
+  const afterTypes = new Map(after.schema.map((c) => [c.name, c.type]));
+  const schemaChanges: VersionSchemaChange[] = [];
+  for (const [column, type] of afterTypes) {
+    const prev = beforeTypes.get(column);
+    if (prev === undefined) schemaChanges.push({ column, change: 'added', detail: `Added (${type})` });
+    else if (prev !== type) schemaChanges.push({ column, change: 'type_changed', detail: `${prev} → ${type}` });
+  }
+  for (const [column, type] of beforeTypes) {
+    if (!afterTypes.has(column)) schemaChanges.push({ column, change: 'removed', detail: `Removed (${type})` });
+  }
+
+  const afterColumns = new Set(collectColumns(afterRows));
+  const shared = collectColumns(beforeRows).filter((c) => afterColumns.has(c));
+  const beforeCounts = countKeys(beforeRows, shared);
+  const afterCounts = countKeys(afterRows, shared);
+  const removed = surplus(beforeCounts, afterCounts);
+  const added = surplus(afterCounts, beforeCounts);
+
+  const beforeSteps = new Set(before.pipeline.map(stepSignature));
+  const afterSteps = new Set(after.pipeline.map(stepSignature));
+
+  return {
+    rowsBefore: beforeRows.length,
+    rowsAfter: afterRows.length,
+    rowsOnlyBefore: removed.total,
+    rowsOnlyAfter: added.total,
+    sampleRemoved: removed.sample,
+    sampleAdded: added.sample,
+    schemaChanges,
+    qualityDelta: after.quality - before.quality,
+    stepsAdded: after.pipeline.filter((s) => !beforeSteps.has(stepSignature(s))).map((s) => s.label),
+    stepsRemoved: before.pipeline.filter((s) => !afterSteps.has(stepSignature(s))).map((s) => s.label),
+  };
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
 import { FileUpload } from '@/components/FileUpload';
@@ -20,7 +20,16 @@ import { AIRecommendationsPanel } from '@/components/AIRecommendationsPanel';
 import { BIReadinessPanel } from '@/components/BIReadinessPanel';
 import { profileColumn } from '@/lib/dataAnalyzer';
 import { autoTransform, SchemaValidationResult, DataQualitySummary } from '@/lib/schemaEngine';
-import { DataProcessor, type ProcessorResult, type RejectedRow } from '@/lib/processor';
+import {
+  DataProcessor,
+  ProcessingCancelledError,
+  resolveLLMConfig,
+  startStreamingIngest,
+  STREAMING_THRESHOLD_BYTES,
+  type ProcessorProgress,
+  type ProcessorResult,
+  type RejectedRow,
+} from '@/lib/processor';
 import { analyzeDataset, applySelectedFixes, type DatasetAnalysis, type SuggestedFix } from '@/lib/aiAnalyzer';
 import { assessBIReadiness, type BIReadinessReport } from '@/lib/biReadiness';
 import { CleaningConfig, DEFAULT_CLEANING_CONFIG, EnhancedCleaningResult, ColumnProfile } from '@/lib/dataTypes';
@@ -29,12 +38,15 @@ import { toast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { cn } from '@/lib/utils';
+import { useWorkspace } from '@/store/workspace';
 
 interface ExcelWorkbook {
   workbook: XLSX.WorkBook;
   sheetNames: string[];
 }
 
+const STREAMING_PREVIEW_ROWS = 5000;
+
 const Index = () => {
   const [currentStep, setCurrentStep] = useState(1);
   const [isLoading, setIsLoading] = useState(false);
@@ -48,6 +60,7 @@ const Index = () => {
   const [config, setConfig] = useState<CleaningConfig>(DEFAULT_CLEANING_CONFIG);
   const [rawData, setRawData] = useState<Record<string, unknown>[] | null>(null);
   const [columnOverrides, setColumnOverrides] = useState<Record<string, ColumnOverride>>({});
+  const llmSettings = useWorkspace((s) => s.llm);
   const [columnProfiles, setColumnProfiles] = useState<ColumnProfile[]>([]);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [activeTab, setActiveTab] = useState('summary');
@@ -56,6 +69,10 @@ const Index = () => {
   const [aiStatusMessage, setAiStatusMessage] = useState<string | undefined>(undefined);
   const [rejectedRows, setRejectedRows] = useState<RejectedRow[]>([]);
   const [processorLog, setProcessorLog] = useState<ReturnType<typeof Object> | null>(null);
+  const [processorProgress, setProcessorProgress] = useState<ProcessorProgress | null>(null);
+  // Large CSVs are only previewed on upload; cleaning streams the full file in a worker
+  const [streamSource, setStreamSource] = useState<File | null>(null);
+  const cancelRef = useRef<(() => void) | null>(null);
 
   // AI Analysis state
   const [aiAnalysis, setAiAnalysis] = useState<DatasetAnalysis | null>(null);
@@ -103,7 +120,7 @@ const Index = () => {
     setAiAnalysis(null);
     setSuggestedFixes([]);
     try {
-      const result = await analyzeDataset(data, (info) => {
+      const result = await analyzeDataset(data, resolveLLMConfig(llmSettings), (info) => {
         setAnalysisStatus(info.message);
       });
       setAiAnalysis(result);
@@ -141,30 +158,50 @@ const Index = () => {
       }
 
       // Step 2: Run through the full processor pipeline
-      const groqKey = import.meta.env.VITE_GROQ_API_KEY;
-      const googleKey = import.meta.env.VITE_GOOGLE_API_KEY;
-      const llmProvider = groqKey ? 'groq' as const : 'google' as const;
-      const llmApiKey = groqKey || googleKey;
+      const llm = resolveLLMConfig(llmSettings) ?? undefined;
 
-      // AI augmented mode uses LLM for semantic cleaning when API key is available
-      const enableLLM = mode === 'ai-augmented' && !!llmApiKey;
+      // AI augmented mode uses LLM for semantic cleaning when a provider is configured
+      const enableLLM = mode === 'ai-augmented' && !!llm;
 
       // Dynamic chunk size based on dataset size for 1M+ support
       const rowCount = dataToProcess.length;
-      const chunkSize = rowCount > 500000 ? 5000 : rowCount > 100000 ? 3000 : 1000;
-
-      const processor = new DataProcessor({
-        cleaningConfig: config,
-        chunkSize,
-        enableLLM,
-        llmProvider,
-        llmApiKey: llmApiKey || undefined,
-        onLLMProgress: (info) => {
-          setAiStatusMessage(info.message);
-        },
-      });
-
-      const processorResult = await processor.process(dataToProcess);
+      const chunkSize = streamSource || rowCount > 500000 ? 5000 : rowCount > 100000 ? 3000 : 1000;
+
+      let processorResult: ProcessorResult;
+      // Reference data for the BI-readiness reconciliation
+      let originalData = rawData;
+      if (streamSource) {
+        const handle = startStreamingIngest(
+          streamSource,
+          {
+            cleaningConfig: config,
+            chunkSize,
+            enableLLM,
+            llm,
+            fixes: mode === 'ai-augmented' ? suggestedFixes : [],
+          },
+          setProcessorProgress
+        );
+        cancelRef.current = handle.cancel;
+        const streamed = await handle.result;
+        processorResult = streamed;
+        originalData = streamed.rawSample;
+      } else {
+        const controller = new AbortController();
+        cancelRef.current = () => controller.abort();
+        const processor = new DataProcessor({
+          cleaningConfig: config,
+          chunkSize,
+          enableLLM,
+          llm,
+          onLLMProgress: (info) => {
+            setAiStatusMessage(info.message);
+          },
+          onProgress: setProcessorProgress,
+          signal: controller.signal,
+        });
+        processorResult = await processor.process(dataToProcess);
+      }
 
       // Use cleanedData from processor (which falls back to input if enhancedResult.data is empty)
       const finalCleanedData = processorResult.cleanedData.length > 0
@@ -190,7 +227,7 @@ const Index = () => {
       setProcessorLog(processorResult.log);
 
       // BI-Readiness Assessment — use the guaranteed non-empty data
-      const biAssessment = assessBIReadiness(finalCleanedData, rawData);
+      const biAssessment = assessBIReadiness(finalCleanedData, originalData);
       setBiReport(biAssessment);
 
       setCurrentStep(4);
@@ -206,14 +243,20 @@ const Index = () => {
         description: `Detected ${ctx.measuresDetected} Measure(s), ${ctx.dimensionsDetected} Dimension(s). Normalized ${ctx.missingValuesNormalized} missing values.${fixNote}${rejectedNote} (${processorResult.log.elapsedMs.toFixed(0)}ms)`,
       });
     } catch (err) {
-      const msg = err instanceof Error ? err.message : 'Error processing data.';
-      setError(msg);
       setCurrentStep(2);
-      toast({ title: 'Cleaning failed', description: msg, variant: 'destructive' });
+      if (err instanceof ProcessingCancelledError) {
+        toast({ title: 'Cleaning cancelled' });
+      } else {
+        const msg = err instanceof Error ? err.message : 'Error processing data.';
+        setError(msg);
+        toast({ title: 'Cleaning failed', description: msg, variant: 'destructive' });
+      }
     }
 
+    cancelRef.current = null;
     setIsApplyingFixes(false);
     setIsProcessing(false);
+    setProcessorProgress(null);
     setAiStatusMessage(undefined);
   };
 
@@ -262,6 +305,8 @@ const Index = () => {
 
     const isExcel = file.name.toLowerCase().endsWith('.xlsx') || file.name.toLowerCase().endsWith('.xls');
     setFileFormat(isExcel ? 'excel' : 'csv');
+    const streaming = !isExcel && file.size > STREAMING_THRESHOLD_BYTES;
+    setStreamSource(streaming ? file : null);
 
     try {
       if (isExcel) {
@@ -278,8 +323,10 @@ const Index = () => {
         Papa.parse(file, {
           header: true,
           skipEmptyLines: true,
+          // Big files: profile a preview here, the full file is streamed when cleaning
+          preview: streaming ? STREAMING_PREVIEW_ROWS : 0,
           complete: (results) => {
-            if (results.errors.length > 0) {
+            if (results.errors.length > 0 && !streaming) {
               setError('Error parsing CSV file. Please ensure it is properly formatted.');
               setIsLoading(false);
               return;
@@ -295,6 +342,12 @@ const Index = () => {
 
             processData(data);
             setIsLoading(false);
+            if (streaming) {
+              toast({
+                title: 'Large file detected',
+                description: `Profiling the first ${data.length.toLocaleString()} rows. Cleaning will stream all ${(file.size / 1024 / 1024).toFixed(0)} MB in the background.`,
+              });
+            }
           },
           error: (err) => {
             setError(`Error reading file: ${err.message}`);
@@ -311,6 +364,7 @@ const Index = () => {
   const handleReset = () => {
     setResult(null);
     setRawData(null);
+    setStreamSource(null);
     setFileName('');
     setFileFormat('csv');
     setError(null);
@@ -486,7 +540,12 @@ const Index = () => {
           {/* Step 3: Processing */}
           {currentStep === 3 && (
             <div className="max-w-2xl mx-auto">
-              <CleaningProgress isProcessing={isProcessing} aiStatusMessage={aiStatusMessage} />
+              <CleaningProgress
+                isProcessing={isProcessing}
+                aiStatusMessage={aiStatusMessage}
+                progress={processorProgress}
+                onCancel={() => cancelRef.current?.()}
+              />
             </div>
           )}
 
@@ -606,7 +665,7 @@ const Index = () => {
                     Download your cleaned and optimized dataset in multiple formats, or generate a detailed cleaning report.
                   </p>
                 </div>
-                <ExportPanel result={result} originalFileName={fileName} originalFormat={fileFormat} />
+                <ExportPanel result={result} originalFileName={fileName} originalFormat={fileFormat} rejectedRows={rejectedRows} />
               </div>
 
               {/* Back to Results */}
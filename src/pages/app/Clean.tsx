@@ -1,10 +1,23 @@
+import { useEffect, useMemo, useState } from 'react';
 import { useParams, Navigate } from 'react-router-dom';
 import { useWorkspace, type PipelineStep } from '@/store/workspace';
+import { loadDatasetRows, useDatasetRows, useLoadedDatasetRows } from '@/store/datasetRows';
+import {
+  PipelineSnapshotCache,
+  diffSnapshots,
+  defaultParams,
+  requiresConfiguration,
+  type StepType,
+} from '@/lib/pipeline';
+import { collectColumns } from '@/lib/datasetProfiler';
 import { DataGrid } from '@/components/app/DataGrid';
 import { PipelineStepCard } from '@/components/app/PipelineStepCard';
+import { StepEditorDialog, type StepDraft } from '@/components/app/StepEditorDialog';
+import { PipelineCodeDialog } from '@/components/app/PipelineCodeDialog';
+import { pipelineRecipe, type CodeRecipe } from '@/lib/codegen';
 import { Button } from '@/components/ui/button';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import { Undo2, Redo2, Play, Sparkles } from 'lucide-react';
+import { Undo2, Redo2, Play, Sparkles, Table2, Code2 } from 'lucide-react';
 import { toast } from 'sonner';
 
 const toolbox = {
@@ -34,22 +47,114 @@ const toolbox = {
 
 export default function Clean() {
   const { id } = useParams();
-  const { datasets, addStep, removeStep, undoStep, redoStep, toggleCopilot } = useWorkspace();
+  const { datasets, addStep, updateStep, removeStep, undoStep, redoStep, toggleCopilot } = useWorkspace();
   const ds = datasets.find((d) => d.id === id);
+  const { rows, error: rowsError } = useDatasetRows(ds?.id);
+  const loadedRows = useLoadedDatasetRows();
+  // Snapshots survive re-renders so re-selecting or editing a late step reuses earlier work
+  const [cache] = useState(() => new PipelineSnapshotCache());
+  const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
+  // stepId is unset while a new step is being configured before it's added
+  const [editing, setEditing] = useState<{ stepId?: string; index: number; draft: StepDraft } | null>(null);
+  const [recipe, setRecipe] = useState<CodeRecipe | null>(null);
+
+  // Join targets are loaded on demand; ctx is rebuilt once their rows arrive
+  useEffect(() => {
+    ds?.pipeline.forEach((step) => {
+      if (step.type === 'join' && typeof step.params.datasetId === 'string') void loadDatasetRows(step.params.datasetId);
+    });
+  }, [ds?.pipeline]);
+
+  const ctx = useMemo(() => ({ resolveDataset: (otherId: string) => loadedRows.get(otherId) }), [loadedRows]);
+
+  const selectedIndex = ds ? ds.pipeline.findIndex((s) => s.id === selectedStepId) : -1;
+
+  const trace = useMemo(
+    () => (ds && rows && selectedIndex >= 0 ? cache.run(rows, ds.pipeline.slice(0, selectedIndex + 1), ctx) : null),
+    [cache, ds, rows, selectedIndex, ctx],
+  );
+
+  const preview = useMemo(() => {
+    if (!rows || !trace) return null;
+    const { snapshots } = trace;
+    const snapshot = snapshots[snapshots.length - 1];
+    const before = snapshots.length > 1 ? snapshots[snapshots.length - 2].rows : rows;
+    return { snapshot, index: snapshots.length - 1, diff: diffSnapshots(before, snapshot.rows) };
+  }, [rows, trace]);
+
+  // Columns as they exist right before the step being edited
+  const editorColumns = useMemo(() => {
+    if (!ds || !editing) return [];
+    if (!rows) return ds.schema.map((c) => c.name);
+    const prefix = ds.pipeline.slice(0, editing.index);
+    const { snapshots } = cache.run(rows, prefix, ctx);
+    return collectColumns(snapshots.length > 0 ? snapshots[snapshots.length - 1].rows : rows);
+  }, [cache, ds, rows, editing, ctx]);
+
+  const joinTargets = useMemo(
+    () =>
+      datasets
+        .filter((d) => d.id !== ds?.id)
+        .map((d) => ({ id: d.id, name: d.name, columns: d.schema.map((c) => c.name) })),
+    [datasets, ds?.id],
+  );
+
   if (!ds) return <Navigate to="/" replace />;
 
+  const run = () => {
+    if (!rows) return;
+    const res = cache.run(rows, ds.pipeline, ctx);
+    const last = res.snapshots[res.snapshots.length - 1];
+    setSelectedStepId(res.failedStepId ?? last?.stepId ?? null);
+    if (res.failedStepId) {
+      toast.error(`Step "${last.info.label}" failed: ${last.info.error}`);
+    } else {
+      const cachedNote = res.computed < res.snapshots.length ? ` · ${res.snapshots.length - res.computed} cached` : '';
+      toast.success(`Pipeline ran · ${last.info.rowsOut.toLocaleString()} rows × ${last.info.columnsOut} columns${cachedNote}`);
+    }
+  };
+
+  const showCode = () => {
+    if (!rows) return;
+    const datasetName = (otherId: string) => datasets.find((d) => d.id === otherId)?.name;
+    setRecipe(pipelineRecipe(ds.name, rows, ds.pipeline, { ...ctx, datasetName }));
+  };
+
   const apply = (type: string, label: string) => {
+    const params = defaultParams(type as StepType) as Record<string, unknown>;
+    if (requiresConfiguration(type)) {
+      setEditing({ index: ds.pipeline.length, draft: { type, label, params } });
+      return;
+    }
     const step: PipelineStep = {
       id: crypto.randomUUID(),
       type,
       label,
-      params: {},
+      params,
       createdAt: new Date().toISOString(),
     };
     addStep(ds.id, step);
     toast.success(`Added: ${label}`);
   };
 
+  const saveStep = (params: Record<string, unknown>) => {
+    if (!editing) return;
+    if (editing.stepId) {
+      updateStep(ds.id, editing.stepId, { params });
+      toast.success(`Updated: ${editing.draft.label}`);
+    } else {
+      addStep(ds.id, {
+        id: crypto.randomUUID(),
+        type: editing.draft.type,
+        label: editing.draft.label,
+        params,
+        createdAt: new Date().toISOString(),
+      });
+      toast.success(`Added: ${editing.draft.label}`);
+    }
+    setEditing(null);
+  };
+
   return (
     <div className="flex h-[calc(100vh-3rem)] flex-col">
       <div className="flex items-center justify-between border-b bg-card/50 px-4 py-2">
@@ -64,9 +169,12 @@ export default function Clean() {
           <Button variant="outline" size="sm" onClick={() => redoStep(ds.id)} disabled={ds.redoStack.length === 0}>
             <Redo2 className="h-3.5 w-3.5" />
           </Button>
-          <Button size="sm" className="gap-1.5" onClick={() => toast.success('Pipeline ready (mock run)')}>
+          <Button size="sm" className="gap-1.5" onClick={run} disabled={ds.pipeline.length === 0 || !rows}>
             <Play className="h-3.5 w-3.5" /> Run
           </Button>
+          <Button size="sm" variant="outline" className="gap-1.5" onClick={showCode} disabled={!rows}>
+            <Code2 className="h-3.5 w-3.5" /> Code
+          </Button>
           <Button size="sm" variant="secondary" className="gap-1.5" onClick={toggleCopilot}>
             <Sparkles className="h-3.5 w-3.5" /> Ask AI
           </Button>
@@ -85,14 +193,73 @@ export default function Clean() {
               </div>
             ) : (
               ds.pipeline.map((s, i) => (
-                <PipelineStepCard key={s.id} step={s} index={i} onRemove={() => removeStep(ds.id, s.id)} />
+                <PipelineStepCard
+                  key={s.id}
+                  step={s}
+                  index={i}
+                  info={trace?.snapshots.find((snap) => snap.stepId === s.id)?.info}
+                  selected={s.id === selectedStepId}
+                  onSelect={() => setSelectedStepId(s.id === selectedStepId ? null : s.id)}
+                  onEdit={() => setEditing({ stepId: s.id, index: i, draft: s })}
+                  onRemove={() => removeStep(ds.id, s.id)}
+                />
               ))
             )}
           </div>
         </aside>
 
-        <main className="overflow-hidden p-3">
-          <DataGrid rows={ds.rows} editable />
+        <main className="flex flex-col gap-2 overflow-hidden p-3">
+          {preview && (
+            <div className="flex items-center justify-between gap-3 rounded-lg border bg-muted/40 px-3 py-2 text-xs">
+              <div className="flex min-w-0 flex-wrap items-center gap-x-3 gap-y-1">
+                <span className="font-semibold">
+                  After step {preview.index + 1} · {preview.snapshot.info.label}
+                </span>
+                {preview.snapshot.info.error ? (
+                  <span className="text-destructive">Failed: {preview.snapshot.info.error} — showing its input</span>
+                ) : (
+                  <>
+                    <span className="text-muted-foreground">
+                      {preview.diff.rowsBefore.toLocaleString()} → {preview.diff.rowsAfter.toLocaleString()} rows
+                      {preview.diff.rowsRemoved > 0 && ` (−${preview.diff.rowsRemoved.toLocaleString()})`}
+                      {preview.diff.rowsAdded > 0 && ` (+${preview.diff.rowsAdded.toLocaleString()})`}
+                    </span>
+                    {preview.diff.addedColumns.length > 0 && (
+                      <span className="text-success">+{preview.diff.addedColumns.length} col: {preview.diff.addedColumns.slice(0, 3).join(', ')}</span>
+                    )}
+                    {preview.diff.removedColumns.length > 0 && (
+                      <span className="text-destructive">−{preview.diff.removedColumns.length} col: {preview.diff.removedColumns.slice(0, 3).join(', ')}</span>
+                    )}
+                    {preview.diff.changedCellCount > 0 && (
+                      <span className="text-warning">{preview.diff.changedCellCount.toLocaleString()} cells changed</span>
+                    )}
+                    {preview.diff.reordered && <span className="text-muted-foreground">rows reordered</span>}
+                    {preview.diff.alignment === 'none' && <span className="text-muted-foreground">reshaped (no row-level diff)</span>}
+                    {preview.snapshot.cached && <span className="text-muted-foreground/70">cached</span>}
+                  </>
+                )}
+              </div>
+              <Button variant="ghost" size="sm" className="h-7 shrink-0 gap-1 text-xs" onClick={() => setSelectedStepId(null)}>
+                <Table2 className="h-3.5 w-3.5" /> Raw data
+              </Button>
+            </div>
+          )}
+          <div className="min-h-0 flex-1">
+            {preview ? (
+              <DataGrid
+                key={preview.snapshot.key}
+                rows={preview.snapshot.rows}
+                changes={preview.diff.changes}
+                addedColumns={preview.diff.addedColumns}
+              />
+            ) : rows ? (
+              <DataGrid rows={rows} editable />
+            ) : (
+              <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+                {rowsError ?? 'Loading rows…'}
+              </div>
+            )}
+          </div>
         </main>
 
         <aside className="flex flex-col overflow-hidden border-l">
@@ -125,6 +292,16 @@ export default function Clean() {
           </div>
         </aside>
       </div>
+
+      <StepEditorDialog
+        open={!!editing}
+        step={editing?.draft ?? null}
+        columns={editorColumns}
+        datasets={joinTargets}
+        onSave={saveStep}
+        onCancel={() => setEditing(null)}
+      />
+      <PipelineCodeDialog recipe={recipe} onClose={() => setRecipe(null)} />
     </div>
   );
 }
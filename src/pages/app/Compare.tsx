@@ -0,0 +1,346 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useParams, useSearchParams, Navigate } from 'react-router-dom';
+import { Download, GitCompare } from 'lucide-react';
+import { toast } from 'sonner';
+import { useWorkspace, type Dataset } from '@/store/workspace';
+import { loadDatasetRows } from '@/store/datasetRows';
+import { loadVersionRows } from '@/lib/versioning';
+import { reconcileRows, reconciliationDiffRows, type RowReconciliation } from '@/lib/biReadiness';
+import { collectColumns } from '@/lib/datasetProfiler';
+import { dataToCSV, dataToExcel, dataToJSON, downloadFile } from '@/lib/dataExporter';
+import { DataGrid } from '@/components/app/DataGrid';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Table,
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+} from '@/components/ui/table';
+
+type DataRow = Record<string, unknown>;
+
+// Source ids: `ds:<datasetId>` for a working copy, `v:<datasetId>:<versionId>` for a version
+type Source = { id: string; label: string };
+
+function listSources(datasets: Dataset[]): Source[] {
+  return datasets.flatMap((d) => [
+    { id: `ds:${d.id}`, label: `${d.name} · working copy` },
+    ...d.versions.map((v) => ({ id: `v:${d.id}:${v.id}`, label: `${d.name} · ${v.name}` })),
+  ]);
+}
+
+async function loadSource(sourceId: string): Promise<DataRow[]> {
+  const [kind, datasetId, versionId] = sourceId.split(':');
+  if (kind === 'v') return loadVersionRows(datasetId, versionId);
+  const rows = await loadDatasetRows(datasetId);
+  if (!rows) throw new Error('Row data for this dataset is no longer available in browser storage.');
+  return rows;
+}
+
+function useSourceRows(sourceId: string) {
+  const [state, setState] = useState<{ rows: DataRow[] | null; error: string | null }>({ rows: null, error: null });
+
+  useEffect(() => {
+    let cancelled = false;
+    setState({ rows: null, error: null });
+    if (!sourceId) return;
+    loadSource(sourceId)
+      .then((rows) => !cancelled && setState({ rows, error: null }))
+      .catch((err) => !cancelled && setState({ rows: null, error: err instanceof Error ? err.message : String(err) }));
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceId]);
+
+  return state;
+}
+
+// Prefer a column whose values are unique in the dataset's profile, then anything named like an id
+function suggestKey(columns: string[], ds: Dataset): string {
+  const unique = ds.schema.find((c) => columns.includes(c.name) && c.unique === ds.rowCount && c.nullPct === 0);
+  if (unique) return unique.name;
+  return columns.find((c) => /(^|_)(id|key|uuid)$/i.test(c)) ?? columns[0] ?? '';
+}
+
+export default function Compare() {
+  const { id } = useParams();
+  const [search] = useSearchParams();
+  const { datasets } = useWorkspace();
+  const ds = datasets.find((d) => d.id === id);
+  const sources = useMemo(() => listSources(datasets), [datasets]);
+
+  const [leftId, setLeftId] = useState(
+    () => search.get('left') ?? (ds?.versions[0] ? `v:${ds.id}:${ds.versions[0].id}` : `ds:${id}`),
+  );
+  const [rightId, setRightId] = useState(() => search.get('right') ?? `ds:${id}`);
+  const left = useSourceRows(leftId);
+  const right = useSourceRows(rightId);
+
+  const sharedColumns = useMemo(() => {
+    if (!left.rows || !right.rows) return [];
+    const rightCols = new Set(collectColumns(right.rows));
+    return collectColumns(left.rows).filter((c) => rightCols.has(c));
+  }, [left.rows, right.rows]);
+
+  const [keyColumn, setKeyColumn] = useState('');
+  useEffect(() => {
+    if (ds && !sharedColumns.includes(keyColumn)) setKeyColumn(suggestKey(sharedColumns, ds));
+  }, [ds, sharedColumns, keyColumn]);
+
+  const rec: RowReconciliation | null = useMemo(
+    () => (left.rows && right.rows && keyColumn ? reconcileRows(left.rows, right.rows, keyColumn) : null),
+    [left.rows, right.rows, keyColumn],
+  );
+
+  const changedGrid = useMemo(() => {
+    if (!rec) return null;
+    const changes = new Map<DataRow, DataRow>();
+    for (const c of rec.changed) {
+      changes.set(c.after, Object.fromEntries(c.columns.map((col) => [col, c.before[col]])));
+    }
+    return {
+      rows: rec.changed.map((c) => c.after),
+      changes,
+      addedColumns: rec.columnChanges.filter((c) => c.status === 'added').map((c) => c.column),
+    };
+  }, [rec]);
+
+  if (!ds) return <Navigate to="/" replace />;
+
+  const label = (sourceId: string) => sources.find((s) => s.id === sourceId)?.label ?? sourceId;
+
+  const exportDiff = (format: 'csv' | 'xlsx' | 'json') => {
+    if (!rec) return;
+    const rows = reconciliationDiffRows(rec);
+    if (rows.length === 0) {
+      toast.info('No differences to export');
+      return;
+    }
+    const base = `${ds.name.replace(/[^\w-]+/g, '_')}_diff_${keyColumn}`;
+    if (format === 'csv') downloadFile(dataToCSV(rows), `${base}.csv`, 'text/csv;charset=utf-8');
+    else if (format === 'xlsx') downloadFile(dataToExcel(rows, 'Diff'), `${base}.xlsx`);
+    else downloadFile(dataToJSON(rows), `${base}.json`, 'application/json');
+    toast.success(`Exported ${rows.length.toLocaleString()} changed records`);
+  };
+
+  const sourcePicker = (value: string, onChange: (v: string) => void, title: string) => (
+    <div className="space-y-1.5">
+      <Label className="text-xs">{title}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue placeholder="Pick a dataset or version" />
+        </SelectTrigger>
+        <SelectContent>
+          {sources.map((s) => (
+            <SelectItem key={s.id} value={s.id} className="text-xs">
+              {s.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const loadError = left.error ?? right.error;
+  const maxColumnChanges = Math.max(1, ...(rec?.columnChanges.map((c) => c.changed) ?? [0]));
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-6 p-6">
+      <div className="flex items-end justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Compare</h1>
+          <p className="mt-1 text-sm text-muted-foreground">Row-level reconciliation between two datasets or versions</p>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button className="gap-2" disabled={!rec}>
+              <Download className="h-4 w-4" /> Export diff
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => exportDiff('csv')}>CSV</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => exportDiff('xlsx')}>Excel</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => exportDiff('json')}>JSON</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <Card>
+        <CardContent className="grid gap-4 p-4 md:grid-cols-3">
+          {sourcePicker(leftId, setLeftId, 'Before')}
+          {sourcePicker(rightId, setRightId, 'After')}
+          <div className="space-y-1.5">
+            <Label className="text-xs">Key column</Label>
+            <Select value={keyColumn} onValueChange={setKeyColumn} disabled={sharedColumns.length === 0}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="No shared columns" />
+              </SelectTrigger>
+              <SelectContent>
+                {sharedColumns.map((c) => (
+                  <SelectItem key={c} value={c} className="text-xs">
+                    {c}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loadError ? (
+        <div className="rounded-lg border border-destructive/40 bg-destructive/5 p-4 text-sm text-destructive">{loadError}</div>
+      ) : !rec ? (
+        <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+          <GitCompare className="mx-auto mb-2 h-6 w-6" />
+          {left.rows && right.rows ? 'The two sources share no columns to align on.' : 'Loading rows…'}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+            {[
+              { label: 'Added', value: rec.added.length, tone: 'text-success' },
+              { label: 'Removed', value: rec.removed.length, tone: 'text-destructive' },
+              { label: 'Changed', value: rec.changed.length, tone: 'text-warning' },
+              { label: 'Unchanged', value: rec.unchanged, tone: '' },
+              { label: 'Duplicate keys', value: rec.duplicateKeys.before + rec.duplicateKeys.after, tone: '' },
+            ].map((s) => (
+              <Card key={s.label}>
+                <CardContent className="p-4">
+                  <div className="text-[10px] uppercase tracking-wider text-muted-foreground">{s.label}</div>
+                  <div className={`mt-1 text-2xl font-bold tabular-nums ${s.tone}`}>{s.value.toLocaleString()}</div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+          {(rec.unkeyedRows.before > 0 || rec.unkeyedRows.after > 0) && (
+            <p className="text-xs text-muted-foreground">
+              {rec.unkeyedRows.before + rec.unkeyedRows.after} row(s) have a blank <span className="font-mono">{keyColumn}</span>{' '}
+              and were left out of the comparison.
+            </p>
+          )}
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Changes by column</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Column</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Changed cells</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rec.columnChanges.map((c) => (
+                      <TableRow key={c.column}>
+                        <TableCell className="font-mono text-xs">{c.column}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className="text-[10px]">
+                            {c.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            <div className="h-1.5 w-24 overflow-hidden rounded-full bg-muted">
+                              <div className="h-full bg-warning" style={{ width: `${(c.changed / maxColumnChanges) * 100}%` }} />
+                            </div>
+                            <span className="w-12 tabular-nums">{c.changed.toLocaleString()}</span>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Distribution shift</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                {rec.distributionShifts.length === 0 ? (
+                  <p className="p-4 text-xs text-muted-foreground">No numeric columns to compare.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Column</TableHead>
+                        <TableHead className="text-right">Mean</TableHead>
+                        <TableHead className="text-right">Std dev</TableHead>
+                        <TableHead className="text-right">Shift</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rec.distributionShifts.map((d) => (
+                        <TableRow key={d.column}>
+                          <TableCell className="font-mono text-xs">{d.column}</TableCell>
+                          <TableCell className="text-right text-xs tabular-nums">
+                            {d.meanBefore} → {d.meanAfter}
+                          </TableCell>
+                          <TableCell className="text-right text-xs tabular-nums">
+                            {d.stdDevBefore} → {d.stdDevAfter}
+                          </TableCell>
+                          <TableCell className={`text-right text-xs tabular-nums ${d.isSignificant ? 'text-destructive' : ''}`}>
+                            {d.shiftPercent}%
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">
+                {label(leftId)} → {label(rightId)}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Tabs defaultValue="changed">
+                <TabsList>
+                  <TabsTrigger value="changed">Changed ({rec.changed.length.toLocaleString()})</TabsTrigger>
+                  <TabsTrigger value="added">Added ({rec.added.length.toLocaleString()})</TabsTrigger>
+                  <TabsTrigger value="removed">Removed ({rec.removed.length.toLocaleString()})</TabsTrigger>
+                </TabsList>
+                <TabsContent value="changed" className="h-[420px]">
+                  <DataGrid
+                    rows={changedGrid.rows}
+                    changes={changedGrid.changes}
+                    addedColumns={changedGrid.addedColumns}
+                    inlineChanges
+                  />
+                </TabsContent>
+                <TabsContent value="added" className="h-[420px]">
+                  <DataGrid rows={rec.added} />
+                </TabsContent>
+                <TabsContent value="removed" className="h-[420px]">
+                  <DataGrid rows={rec.removed} />
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,9 +3,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { QualityRing } from '@/components/app/QualityRing';
-import { useWorkspace } from '@/store/workspace';
+import { useWorkspace, type Dataset } from '@/store/workspace';
 import { Plus, Database, Clock, Rows3, Columns3, MoreVertical, Trash2 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
 import { EmptyState } from '@/components/app/EmptyState';
 import {
   DropdownMenu,
@@ -18,6 +19,15 @@ export default function Dashboard() {
   const { datasets, activity, removeDataset, setActiveDataset } = useWorkspace();
   const nav = useNavigate();
 
+  // The dataset leaves the workspace right away; only freeing its stored rows can fail
+  const remove = async (d: Dataset) => {
+    try {
+      await removeDataset(d.id);
+    } catch (err) {
+      toast.error(`Could not free the storage used by ${d.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
   return (
     <div className="mx-auto max-w-7xl p-6">
       <div className="mb-8 flex items-end justify-between">
@@ -68,7 +78,7 @@ export default function Dashboard() {
                         </Button>
                       </DropdownMenuTrigger>
                       <DropdownMenuContent align="end">
-                        <DropdownMenuItem onClick={() => removeDataset(d.id)} className="text-destructive">
+                        <DropdownMenuItem onClick={() => void remove(d)} className="text-destructive">
                           <Trash2 className="mr-2 h-4 w-4" /> Delete
                         </DropdownMenuItem>
                       </DropdownMenuContent>
@@ -1,157 +1,276 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useParams, Navigate } from 'react-router-dom';
+import { toast } from 'sonner';
 import { useWorkspace } from '@/store/workspace';
+import { useDatasetRows } from '@/store/datasetRows';
+import { downloadFile } from '@/lib/dataExporter';
+import {
+  EMPTY_FILTERS, WIDGET_TYPES, applyDashboardFilters, buildDashboardSnapshot, createDashboard, createWidget, isSeriesWidget,
+  renderStandaloneHtml, standaloneFileName, suggestWidgets, type CrossFilter, type Dashboard, type Widget, type WidgetType,
+} from '@/lib/dashboard';
+import DashboardWidget from '@/components/app/DashboardWidget';
+import DashboardGrid from '@/components/app/DashboardGrid';
+import DashboardFilterBar from '@/components/app/DashboardFilterBar';
+import WidgetConfigDialog from '@/components/app/WidgetConfigDialog';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent } from '@/components/ui/card';
-import { Save, Share2, Plus, X, BarChart3, LineChart as LineIcon, PieChart as PieIcon, Table2, Gauge, Map } from 'lucide-react';
+import { Input } from '@/components/ui/input';
 import {
-  BarChart, Bar, LineChart, Line, PieChart, Pie, Cell,
-  XAxis, YAxis, ResponsiveContainer, Tooltip,
-} from 'recharts';
-
-type Widget = { id: string; type: 'kpi' | 'bar' | 'line' | 'pie' | 'table' | 'gauge' | 'map' };
-
-const catalog = [
-  { type: 'kpi', label: 'KPI Card', icon: Gauge },
-  { type: 'bar', label: 'Bar Chart', icon: BarChart3 },
-  { type: 'line', label: 'Line Chart', icon: LineIcon },
-  { type: 'pie', label: 'Pie Chart', icon: PieIcon },
-  { type: 'table', label: 'Table', icon: Table2 },
-  { type: 'gauge', label: 'Gauge', icon: Gauge },
-  { type: 'map', label: 'Map', icon: Map },
-] as const;
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Save, Share2, Plus, BarChart3, LineChart as LineIcon, PieChart as PieIcon, Table2, Gauge, Map, RotateCcw, Trash2, LayoutDashboard,
+} from 'lucide-react';
 
-const mockData = [
-  { name: 'Jan', value: 400 }, { name: 'Feb', value: 300 }, { name: 'Mar', value: 500 },
-  { name: 'Apr', value: 700 }, { name: 'May', value: 600 }, { name: 'Jun', value: 800 },
-];
-const colors = ['hsl(var(--primary))', 'hsl(var(--warning))', 'hsl(var(--success))', '#a78bfa'];
-
-function renderWidget(w: Widget) {
-  switch (w.type) {
-    case 'kpi':
-      return (
-        <div className="flex h-full flex-col justify-center p-4">
-          <div className="text-[10px] uppercase text-muted-foreground">Total Revenue</div>
-          <div className="mt-1 text-2xl font-bold tabular-nums">$328K</div>
-          <div className="text-[10px] text-success">↑ 12.4% MoM</div>
-        </div>
-      );
-    case 'bar':
-      return (
-        <ResponsiveContainer>
-          <BarChart data={mockData}>
-            <XAxis dataKey="name" tick={{ fontSize: 10 }} />
-            <YAxis tick={{ fontSize: 10 }} />
-            <Bar dataKey="value" fill="hsl(var(--primary))" radius={[3, 3, 0, 0]} />
-          </BarChart>
-        </ResponsiveContainer>
-      );
-    case 'line':
-      return (
-        <ResponsiveContainer>
-          <LineChart data={mockData}>
-            <XAxis dataKey="name" tick={{ fontSize: 10 }} />
-            <YAxis tick={{ fontSize: 10 }} />
-            <Line type="monotone" dataKey="value" stroke="hsl(var(--primary))" strokeWidth={2} />
-          </LineChart>
-        </ResponsiveContainer>
-      );
-    case 'pie':
-      return (
-        <ResponsiveContainer>
-          <PieChart>
-            <Pie data={mockData.slice(0, 4)} dataKey="value" nameKey="name" outerRadius={60} label>
-              {mockData.slice(0, 4).map((_, i) => <Cell key={i} fill={colors[i % colors.length]} />)}
-            </Pie>
-            <Tooltip />
-          </PieChart>
-        </ResponsiveContainer>
-      );
-    case 'table':
-      return (
-        <div className="p-2 text-[10px]">
-          <table className="w-full">
-            <thead><tr><th className="text-left">Region</th><th className="text-right">Sales</th></tr></thead>
-            <tbody>{mockData.map((d) => <tr key={d.name}><td>{d.name}</td><td className="text-right">${d.value}</td></tr>)}</tbody>
-          </table>
-        </div>
-      );
-    case 'gauge':
-      return (
-        <div className="flex h-full items-center justify-center">
-          <div className="relative h-24 w-24 rounded-full border-8 border-primary/20">
-            <div className="absolute inset-0 rounded-full border-8 border-transparent border-t-primary" style={{ transform: 'rotate(120deg)' }} />
-            <div className="absolute inset-0 flex items-center justify-center text-lg font-bold">76%</div>
-          </div>
-        </div>
-      );
-    case 'map':
-      return <div className="flex h-full items-center justify-center bg-gradient-to-br from-primary/5 to-primary/20 text-xs text-muted-foreground">Map placeholder</div>;
-  }
-}
+const icons: Record<WidgetType, typeof Gauge> = {
+  kpi: Gauge,
+  bar: BarChart3,
+  line: LineIcon,
+  pie: PieIcon,
+  table: Table2,
+  gauge: Gauge,
+  map: Map,
+};
 
 export default function DashboardBuilder() {
   const { id } = useParams();
-  const { datasets } = useWorkspace();
+  const { datasets, saveDashboard, removeDashboard } = useWorkspace();
   const ds = datasets.find((d) => d.id === id);
-  const [widgets, setWidgets] = useState<Widget[]>([
-    { id: '1', type: 'kpi' },
-    { id: '2', type: 'bar' },
-    { id: '3', type: 'line' },
-    { id: '4', type: 'pie' },
-  ]);
+  const { rows, loading, error } = useDatasetRows(ds?.id);
+  // Unsaved edits by dashboard id; a dashboard that was never saved lives only here
+  const [drafts, setDrafts] = useState<Record<string, Dashboard>>({});
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [cross, setCross] = useState<CrossFilter | null>(null);
+  const [editing, setEditing] = useState<Widget | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const saved = useMemo(() => ds?.dashboards ?? [], [ds?.dashboards]);
+  const dashboards = useMemo(
+    () => [...saved.map((d) => drafts[d.id] ?? d), ...Object.values(drafts).filter((d) => !saved.some((s) => s.id === d.id))],
+    [saved, drafts],
+  );
+  const active = dashboards.find((d) => d.id === activeId) ?? dashboards[0] ?? null;
+
+  // Computed once per filter change rather than per widget, so dragging doesn't refilter
+  const activeFilters = active?.filters;
+  const filteredRows = useMemo(
+    () => (rows && activeFilters ? applyDashboardFilters(rows, activeFilters) : null),
+    [rows, activeFilters],
+  );
+  // Rows for every widget except the cross-filter's source
+  const crossRows = useMemo(
+    () => (filteredRows && cross ? applyDashboardFilters(filteredRows, EMPTY_FILTERS, cross) : filteredRows),
+    [filteredRows, cross],
+  );
+
+  useEffect(() => {
+    setDrafts({});
+    setActiveId(null);
+    setCross(null);
+  }, [id]);
+  // A dataset without dashboards starts from the widgets suggested for it
+  useEffect(() => {
+    if (rows && dashboards.length === 0) {
+      const first = createDashboard('Overview', rows);
+      setDrafts({ [first.id]: first });
+      setActiveId(first.id);
+    }
+  }, [rows, dashboards.length]);
 
   if (!ds) return <Navigate to="/" replace />;
 
-  const add = (type: Widget['type']) => setWidgets((w) => [...w, { id: crypto.randomUUID(), type }]);
-  const remove = (id: string) => setWidgets((w) => w.filter((x) => x.id !== id));
+  const update = (fn: (d: Dashboard) => Dashboard) => {
+    if (!active) return;
+    setDrafts((prev) => ({ ...prev, [active.id]: fn(prev[active.id] ?? active) }));
+  };
+  const setWidgets = (fn: (w: Widget[]) => Widget[]) => update((d) => ({ ...d, widgets: fn(d.widgets) }));
+
+  const switchTo = (dashboardId: string) => {
+    setActiveId(dashboardId);
+    setCross(null);
+  };
+  const create = () => {
+    if (!rows) return;
+    const next = createDashboard(`Dashboard ${dashboards.length + 1}`, rows);
+    setDrafts((prev) => ({ ...prev, [next.id]: next }));
+    switchTo(next.id);
+  };
+  const persist = () => {
+    if (!active) return;
+    saveDashboard(ds.id, { ...active, name: active.name.trim() || 'Untitled dashboard', updatedAt: new Date().toISOString() });
+    setDrafts(({ [active.id]: _, ...rest }) => rest);
+    toast.success(`Saved ${active.name.trim() || 'Untitled dashboard'}`);
+  };
+  const share = () => {
+    if (!active || !rows) return;
+    const name = active.name.trim() || 'Untitled dashboard';
+    const html = renderStandaloneHtml(buildDashboardSnapshot({ ...active, name }, rows, ds.name));
+    downloadFile(html, standaloneFileName(name), 'text/html;charset=utf-8');
+    toast.success(`Exported ${name} as a standalone HTML file`);
+  };
+  const discard = () => {
+    if (!active) return;
+    if (saved.some((d) => d.id === active.id)) removeDashboard(ds.id, active.id);
+    setDrafts(({ [active.id]: _, ...rest }) => rest);
+    setActiveId(null);
+    setCross(null);
+    setDeleting(false);
+  };
+
+  const add = (type: WidgetType) => {
+    if (!active) return;
+    const widget = createWidget(type, ds.schema, active.widgets);
+    setWidgets((w) => [...w, widget]);
+    setEditing(widget);
+  };
+  const remove = (widgetId: string) => {
+    setWidgets((w) => w.filter((x) => x.id !== widgetId));
+    if (cross?.widgetId === widgetId) setCross(null);
+  };
+  const save = (widget: Widget) => {
+    setWidgets((w) => w.map((x) => (x.id === widget.id ? widget : x)));
+    // The selected group may no longer exist once the dimension changes
+    if (cross?.widgetId === widget.id) setCross(null);
+    setEditing(null);
+  };
+  const select = (widget: Widget, label: string) =>
+    setCross((c) =>
+      c?.widgetId === widget.id && c.label === label
+        ? null
+        : { widgetId: widget.id, column: widget.config.dimension, label, grain: widget.config.dateGrain },
+    );
+
+  const dirty = !!active && !!drafts[active.id];
 
   return (
     <div className="flex h-[calc(100vh-3rem)] flex-col">
-      <div className="flex items-center justify-between border-b px-4 py-2">
-        <div>
+      <div className="flex items-center justify-between gap-4 border-b px-4 py-2">
+        <div className="min-w-0">
           <h1 className="text-lg font-semibold">Dashboard Builder</h1>
-          <p className="text-xs text-muted-foreground">{ds.name}</p>
+          <p className="text-xs text-muted-foreground">
+            {ds.name}
+            {rows && ` · ${rows.length.toLocaleString()} rows`}
+            {dirty && ' · unsaved changes'}
+          </p>
         </div>
-        <div className="flex gap-2">
-          <Button variant="outline" size="sm"><Share2 className="mr-1.5 h-3.5 w-3.5" /> Share</Button>
-          <Button size="sm"><Save className="mr-1.5 h-3.5 w-3.5" /> Save</Button>
+        <div className="flex items-center gap-2">
+          <Select value={active?.id} onValueChange={switchTo} disabled={!active}>
+            <SelectTrigger className="h-8 w-44 text-xs">
+              <LayoutDashboard className="mr-1.5 h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+              <SelectValue placeholder="Dashboard" />
+            </SelectTrigger>
+            <SelectContent>
+              {dashboards.map((d) => (
+                <SelectItem key={d.id} value={d.id} className="text-xs">
+                  {d.name || 'Untitled dashboard'}
+                  {drafts[d.id] && ' •'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            className="h-8 w-44 text-xs"
+            value={active?.name ?? ''}
+            disabled={!active}
+            onChange={(e) => update((d) => ({ ...d, name: e.target.value }))}
+            aria-label="Dashboard name"
+          />
+          <Button variant="ghost" size="sm" disabled={!rows} onClick={create}>
+            <Plus className="mr-1.5 h-3.5 w-3.5" /> New
+          </Button>
+          <Button variant="ghost" size="sm" disabled={!active} onClick={() => setDeleting(true)} aria-label="Delete dashboard">
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+          <Button variant="ghost" size="sm" disabled={!rows || !active} onClick={() => rows && setWidgets(() => suggestWidgets(rows))}>
+            <RotateCcw className="mr-1.5 h-3.5 w-3.5" /> Suggest
+          </Button>
+          <Button variant="outline" size="sm" disabled={!rows || !active} onClick={share}><Share2 className="mr-1.5 h-3.5 w-3.5" /> Share</Button>
+          <Button size="sm" disabled={!dirty} onClick={persist}><Save className="mr-1.5 h-3.5 w-3.5" /> Save</Button>
         </div>
       </div>
+      {rows && active && (
+        <DashboardFilterBar
+          filters={active.filters}
+          schema={ds.schema}
+          rows={rows}
+          cross={cross}
+          onChange={(filters) => update((d) => ({ ...d, filters }))}
+          onClearCross={() => setCross(null)}
+        />
+      )}
       <div className="grid flex-1 grid-cols-[220px_1fr] overflow-hidden">
         <aside className="border-r p-3">
           <div className="mb-2 text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Widgets</div>
           <div className="space-y-1">
-            {catalog.map((c) => (
-              <button
-                key={c.type}
-                onClick={() => add(c.type)}
-                className="flex w-full items-center gap-2 rounded-lg border bg-card p-2 text-xs hover:border-primary/50"
-              >
-                <c.icon className="h-4 w-4 text-muted-foreground" />
-                <span>{c.label}</span>
-                <Plus className="ml-auto h-3 w-3 text-muted-foreground" />
-              </button>
-            ))}
-          </div>
-        </aside>
-        <main className="overflow-auto p-4">
-          <div className="grid grid-cols-3 gap-4">
-            {widgets.map((w) => (
-              <Card key={w.id} className="group relative h-56">
+            {WIDGET_TYPES.map((c) => {
+              const Icon = icons[c.type];
+              return (
                 <button
-                  onClick={() => remove(w.id)}
-                  className="absolute right-2 top-2 z-10 rounded-full bg-background/80 p-1 opacity-0 group-hover:opacity-100"
+                  key={c.type}
+                  onClick={() => add(c.type)}
+                  disabled={!rows || !active}
+                  className="flex w-full items-center gap-2 rounded-lg border bg-card p-2 text-xs hover:border-primary/50 disabled:opacity-50"
                 >
-                  <X className="h-3 w-3" />
+                  <Icon className="h-4 w-4 text-muted-foreground" />
+                  <span>{c.label}</span>
+                  <Plus className="ml-auto h-3 w-3 text-muted-foreground" />
                 </button>
-                <CardContent className="h-full p-0">{renderWidget(w)}</CardContent>
-              </Card>
-            ))}
+              );
+            })}
           </div>
+          <p className="mt-4 text-[10px] leading-relaxed text-muted-foreground">
+            Drag a widget by its grip or resize it from the corner. Click a bar, slice or row to filter the other widgets.
+          </p>
+        </aside>
+        <main className="overflow-auto p-4">
+          {!rows ? (
+            <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+              {loading ? 'Loading rows…' : error ?? 'Row data is unavailable'}
+            </div>
+          ) : !active || active.widgets.length === 0 ? (
+            <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+              Add a widget from the left, or use Suggest to start from this dataset's profile.
+            </div>
+          ) : (
+            <DashboardGrid widgets={active.widgets} onChange={(widgets) => setWidgets(() => widgets)}>
+              {(w) => (
+                <DashboardWidget
+                  widget={w}
+                  rows={(cross?.widgetId === w.id ? filteredRows : crossRows) ?? rows}
+                  onEdit={() => setEditing(w)}
+                  onRemove={() => remove(w.id)}
+                  selected={cross?.widgetId === w.id ? cross.label : null}
+                  onSelect={isSeriesWidget(w.type) && w.config.dimension ? (label) => select(w, label) : undefined}
+                />
+              )}
+            </DashboardGrid>
+          )}
         </main>
       </div>
+      <WidgetConfigDialog widget={editing} schema={ds.schema} onSave={save} onCancel={() => setEditing(null)} />
+      <AlertDialog open={deleting} onOpenChange={setDeleting}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {active?.name || 'this dashboard'}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its widgets, layout and filters are removed. The dataset itself is not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={discard}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
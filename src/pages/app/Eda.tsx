@@ -1,6 +1,7 @@
 import { useParams, Navigate } from 'react-router-dom';
 import { useMemo, useState } from 'react';
 import { useWorkspace } from '@/store/workspace';
+import { useDatasetRows } from '@/store/datasetRows';
 import { ChartCard } from '@/components/app/ChartCard';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import {
@@ -19,6 +20,7 @@ export default function Eda() {
   const { id } = useParams();
   const { datasets } = useWorkspace();
   const ds = datasets.find((d) => d.id === id);
+  const { rows } = useDatasetRows(ds?.id);
   const [chartType, setChartType] = useState<'bar' | 'line' | 'scatter' | 'pie'>('bar');
 
   const numericCols = ds?.schema.filter((c) => c.type === 'numeric') ?? [];
@@ -28,9 +30,9 @@ export default function Eda() {
   const [yCol, setYCol] = useState(numericCols[0]?.name ?? '');
 
   const aggregated = useMemo(() => {
-    if (!ds || !xCol || !yCol) return [];
+    if (!rows || !xCol || !yCol) return [];
     const groups = new Map<string, number[]>();
-    for (const r of ds.rows) {
+    for (const r of rows) {
       const k = String(r[xCol] ?? 'null');
       const v = Number(r[yCol]);
       if (!Number.isFinite(v)) continue;
@@ -41,7 +43,7 @@ export default function Eda() {
       name: k,
       value: Math.round(vs.reduce((a, b) => a + b, 0) / vs.length),
     }));
-  }, [ds, xCol, yCol]);
+  }, [rows, xCol, yCol]);
 
   if (!ds) return <Navigate to="/" replace />;
 
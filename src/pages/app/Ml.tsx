@@ -1,6 +1,14 @@
 import { useState } from 'react';
 import { useParams, Navigate } from 'react-router-dom';
 import { useWorkspace } from '@/store/workspace';
+import { useDatasetRows } from '@/store/datasetRows';
+import { saveModelArtifact } from '@/store/modelArtifacts';
+import {
+  ALGORITHMS, MAX_SEARCH_ROWS, MAX_TRAINING_ROWS, PARAM_SPACES, algorithmsForTask, createRng, crossValidate,
+  gridCandidates, rankTrials, searchCandidates, toTrial, trainModel,
+  type Algorithm, type CrossValidationResult, type CvStrategy, type MlTask, type SearchStrategy, type SearchTrial,
+  type TrainingResult,
+} from '@/lib/ml';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -10,45 +18,182 @@ import {
 } from '@/components/ui/select';
 import { Brain, Play } from 'lucide-react';
 import {
-  BarChart, Bar, XAxis, YAxis, ResponsiveContainer, Tooltip,
+  BarChart, Bar, XAxis, YAxis, ResponsiveContainer, Tooltip, ErrorBar,
 } from 'recharts';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import ClusteringStudio from '@/components/app/ClusteringStudio';
+import ForecastStudio from '@/components/app/ForecastStudio';
+import ClassifierDiagnostics from '@/components/app/ClassifierDiagnostics';
+import ModelRegistry from '@/components/app/ModelRegistry';
+
+type ModelType = MlTask | 'clustering' | 'forecasting';
+
+type Validation = 'holdout' | CvStrategy;
+
+type TrainingRun = TrainingResult & {
+  name: string;
+  cv?: CrossValidationResult;
+  // Ranked best first, when a search picked the parameters
+  trials?: SearchTrial[];
+};
+
+const nextFrame = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const pct = (v: number | undefined) => `${((v ?? 0) * 100).toFixed(1)}%`;
+
+const fmt = (v: number | undefined) =>
+  v === undefined ? '—' : Math.abs(v) >= 1000 ? Math.round(v).toLocaleString() : v.toFixed(3);
+
+function metricCards(run: TrainingRun) {
+  const { metrics } = run;
+  return run.artifact.task === 'classification'
+    ? [
+        { l: 'Accuracy', v: pct(metrics.accuracy) },
+        { l: 'F1 (macro)', v: fmt(metrics.f1) },
+        { l: 'Precision / Recall', v: `${fmt(metrics.precision)} / ${fmt(metrics.recall)}` },
+        { l: 'Train / Test rows', v: `${run.trainSize.toLocaleString()} / ${run.testSize.toLocaleString()}` },
+      ]
+    : [
+        { l: 'R²', v: fmt(metrics.r2) },
+        { l: 'RMSE', v: fmt(metrics.rmse) },
+        { l: 'MAE', v: fmt(metrics.mae) },
+        { l: 'Train / Test rows', v: `${run.trainSize.toLocaleString()} / ${run.testSize.toLocaleString()}` },
+      ];
+}
+
+function explain(run: TrainingRun): string {
+  const { artifact, metrics, importance } = run;
+  const top = importance.filter((f) => f.importance > 0).slice(0, 2).map((f) => f.feature);
+  const drivers = top.length > 0
+    ? ` Shuffling ${top.join(' or ')} hurt the held-out score the most, so those features drive the predictions.`
+    : ' No single feature made a measurable difference when shuffled, so the model is mostly guessing from the base rate.';
+  if (artifact.task === 'classification') {
+    const baseline = 1 / Math.max(artifact.classes?.length ?? 1, 1);
+    return `On ${run.testSize.toLocaleString()} held-out rows the ${ALGORITHMS[artifact.algorithm].label.toLowerCase()} predicted ${artifact.target} correctly ${pct(metrics.accuracy)} of the time across ${artifact.classes?.length} classes (random guessing would score about ${pct(baseline)}).${drivers}`;
+  }
+  return `On ${run.testSize.toLocaleString()} held-out rows the ${ALGORITHMS[artifact.algorithm].label.toLowerCase()} explains ${pct(Math.max(metrics.r2 ?? 0, 0))} of the variance in ${artifact.target}, with a typical error of ±${fmt(metrics.rmse)}.${drivers}`;
+}
 
 export default function Ml() {
   const { id } = useParams();
-  const { datasets } = useWorkspace();
+  const { datasets, addModel } = useWorkspace();
   const ds = datasets.find((d) => d.id === id);
-  const [modelType, setModelType] = useState('classification');
+  const { rows, loading } = useDatasetRows(ds?.id);
+  const [modelType, setModelType] = useState<ModelType>('classification');
+  const [algorithm, setAlgorithm] = useState<Algorithm>('logistic_regression');
   const [target, setTarget] = useState('');
   const [features, setFeatures] = useState<string[]>([]);
-  const [progress, setProgress] = useState(0);
-  const [trained, setTrained] = useState(false);
-  const [history, setHistory] = useState<{ name: string; acc: number; f1: number }[]>([]);
+  const [testFraction, setTestFraction] = useState('0.2');
+  const [validation, setValidation] = useState<Validation>('kfold');
+  const [folds, setFolds] = useState('5');
+  const [orderBy, setOrderBy] = useState('');
+  const [search, setSearch] = useState<SearchStrategy | 'none'>('none');
+  const [searchTrials, setSearchTrials] = useState('10');
+  const [progress, setProgress] = useState({ value: 0, label: '' });
+  const [latest, setLatest] = useState<TrainingRun | null>(null);
 
   if (!ds) return <Navigate to="/" replace />;
 
-  const train = () => {
-    setProgress(0);
-    setTrained(false);
-    const iv = setInterval(() => {
-      setProgress((p) => {
-        if (p >= 100) {
-          clearInterval(iv);
-          setTrained(true);
-          const acc = 0.75 + Math.random() * 0.22;
-          setHistory((h) => [...h, { name: `${modelType}-${h.length + 1}`, acc, f1: acc - 0.03 }]);
-          return 100;
+  const training = progress.value > 0 && progress.value < 100;
+  const dateColumns = ds.schema.filter((c) => c.type === 'date').map((c) => c.name);
+  const gridSize = gridCandidates(PARAM_SPACES[algorithm]).length;
+
+  const changeModelType = (value: ModelType) => {
+    setModelType(value);
+    if (value === 'classification' || value === 'regression') setAlgorithm(algorithmsForTask(value)[0]);
+  };
+
+  const modelTypePicker = (
+    <div>
+      <div className="mb-1 text-[10px] uppercase text-muted-foreground">Model type</div>
+      <Select value={modelType} onValueChange={(v) => changeModelType(v as ModelType)}>
+        <SelectTrigger><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value="classification">Classification</SelectItem>
+          <SelectItem value="regression">Regression</SelectItem>
+          <SelectItem value="clustering">Clustering</SelectItem>
+          <SelectItem value="forecasting">Forecasting</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const train = async () => {
+    if (!rows || modelType === 'clustering' || modelType === 'forecasting') return;
+    const task = modelType;
+    const base = {
+      task,
+      algorithm,
+      target,
+      features: features.filter((f) => f !== target),
+      schema: ds.schema,
+      rows,
+    };
+    const cvOptions = {
+      // A search always needs folds to score candidates, even for a hold-out run
+      strategy: validation === 'holdout' ? ('kfold' as const) : validation,
+      folds: Number(folds),
+      orderBy: validation === 'timeseries' ? orderBy || dateColumns[0] : undefined,
+    };
+    try {
+      let trials: SearchTrial[] | undefined;
+      let params = {};
+      if (search !== 'none') {
+        const candidates = searchCandidates(algorithm, search, Number(searchTrials), createRng(7));
+        const scored: SearchTrial[] = [];
+        for (const [i, candidate] of candidates.entries()) {
+          setProgress({ value: 5 + (80 * i) / candidates.length, label: `Trial ${i + 1} of ${candidates.length}` });
+          await nextFrame();
+          const cv = crossValidate({ ...base, ...cvOptions, params: candidate, maxRows: MAX_SEARCH_ROWS });
+          scored.push(toTrial(task, candidate, cv));
         }
-        return p + 6;
+        trials = rankTrials(scored);
+        params = trials[0]?.params ?? {};
+      }
+
+      setProgress({ value: 88, label: 'Training final model' });
+      await nextFrame();
+      const result = trainModel({ ...base, params, testFraction: Number(testFraction) });
+      let cv: CrossValidationResult | undefined;
+      if (validation !== 'holdout') {
+        setProgress({ value: 94, label: 'Cross-validating' });
+        await nextFrame();
+        cv = crossValidate({ ...base, ...cvOptions, params });
+      }
+
+      const name = `${ALGORITHMS[algorithm].label} #${ds.models.filter((m) => m.algorithm === algorithm).length + 1}`;
+      const modelId = crypto.randomUUID();
+      await saveModelArtifact(modelId, result.artifact).catch(() =>
+        toast.warning(`${name} could not be saved to browser storage; its metrics are kept but the model will be lost on reload.`),
+      );
+      addModel(ds.id, {
+        id: modelId,
+        name,
+        task,
+        algorithm,
+        target,
+        features: result.artifact.features,
+        params: result.artifact.params,
+        metrics: result.metrics,
+        cv: cv && { strategy: cv.strategy, folds: cv.folds.length, mean: cv.mean, std: cv.std },
+        search: trials && search !== 'none' ? { strategy: search, trials: trials.length } : undefined,
+        importance: result.importance,
+        trainSize: result.trainSize,
+        testSize: result.testSize,
+        createdAt: result.artifact.trainedAt,
       });
-    }, 100);
+      setLatest({ ...result, name, cv, trials });
+      setProgress({ value: 100, label: 'Done' });
+      if (result.sampled) {
+        toast.info(`Trained on a random sample of ${MAX_TRAINING_ROWS.toLocaleString()} rows`);
+      }
+    } catch (err) {
+      setProgress({ value: 0, label: '' });
+      toast.error(err instanceof Error ? err.message : 'Training failed');
+    }
   };
 
-  const importance = ds.schema.slice(0, 6).map((c) => ({
-    name: c.name,
-    value: Math.round(Math.random() * 100),
-  }));
-
   return (
     <div className="mx-auto max-w-7xl space-y-6 p-6">
       <div>
@@ -56,130 +201,257 @@ export default function Ml() {
         <p className="mt-1 text-sm text-muted-foreground">Train models on {ds.name}</p>
       </div>
 
-      <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-base">Configure</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4 text-xs">
-            <div>
-              <div className="mb-1 text-[10px] uppercase text-muted-foreground">Model type</div>
-              <Select value={modelType} onValueChange={setModelType}>
-                <SelectTrigger><SelectValue /></SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="classification">Classification</SelectItem>
-                  <SelectItem value="regression">Regression</SelectItem>
-                  <SelectItem value="clustering">Clustering</SelectItem>
-                  <SelectItem value="forecasting">Forecasting</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            <div>
-              <div className="mb-1 text-[10px] uppercase text-muted-foreground">Target column</div>
-              <Select value={target} onValueChange={setTarget}>
-                <SelectTrigger><SelectValue placeholder="Select target" /></SelectTrigger>
-                <SelectContent>
-                  {ds.schema.map((c) => <SelectItem key={c.name} value={c.name}>{c.name}</SelectItem>)}
-                </SelectContent>
-              </Select>
-            </div>
-            <div>
-              <div className="mb-1 text-[10px] uppercase text-muted-foreground">Features</div>
-              <div className="max-h-52 space-y-1 overflow-auto rounded-lg border p-2">
-                {ds.schema.filter((c) => c.name !== target).map((c) => (
-                  <label key={c.name} className="flex items-center gap-2 rounded px-1 py-1 hover:bg-muted/50">
-                    <Checkbox
-                      checked={features.includes(c.name)}
-                      onCheckedChange={(v) =>
-                        setFeatures((f) => (v ? [...f, c.name] : f.filter((x) => x !== c.name)))
-                      }
-                    />
-                    <span>{c.name}</span>
-                  </label>
-                ))}
+      {modelType === 'clustering' ? (
+        <ClusteringStudio dataset={ds} rows={rows} modelTypePicker={modelTypePicker} />
+      ) : modelType === 'forecasting' ? (
+        <ForecastStudio dataset={ds} rows={rows} modelTypePicker={modelTypePicker} />
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Configure</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-xs">
+              {modelTypePicker}
+              <div>
+                <div className="mb-1 text-[10px] uppercase text-muted-foreground">Algorithm</div>
+                <Select value={algorithm} onValueChange={(v) => setAlgorithm(v as Algorithm)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {algorithmsForTask(modelType).map((a) => (
+                      <SelectItem key={a} value={a}>{ALGORITHMS[a].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="mt-1 text-[10px] text-muted-foreground">{ALGORITHMS[algorithm].description}</p>
+              </div>
+              <div>
+                <div className="mb-1 text-[10px] uppercase text-muted-foreground">Target column</div>
+                <Select value={target} onValueChange={setTarget}>
+                  <SelectTrigger><SelectValue placeholder="Select target" /></SelectTrigger>
+                  <SelectContent>
+                    {ds.schema
+                      .filter((c) => modelType === 'classification' || c.type === 'numeric')
+                      .map((c) => <SelectItem key={c.name} value={c.name}>{c.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <div className="mb-1 text-[10px] uppercase text-muted-foreground">Features</div>
+                <div className="max-h-52 space-y-1 overflow-auto rounded-lg border p-2">
+                  {ds.schema.filter((c) => c.name !== target).map((c) => (
+                    <label key={c.name} className="flex items-center gap-2 rounded px-1 py-1 hover:bg-muted/50">
+                      <Checkbox
+                        checked={features.includes(c.name)}
+                        onCheckedChange={(v) =>
+                          setFeatures((f) => (v ? [...f, c.name] : f.filter((x) => x !== c.name)))
+                        }
+                      />
+                      <span className="flex-1">{c.name}</span>
+                      <span className="text-[10px] text-muted-foreground">{c.type}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <div className="mb-1 text-[10px] uppercase text-muted-foreground">Test split</div>
+                <Select value={testFraction} onValueChange={setTestFraction}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0.2">80 / 20</SelectItem>
+                    <SelectItem value="0.25">75 / 25</SelectItem>
+                    <SelectItem value="0.3">70 / 30</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
-            </div>
-            <Button className="w-full gap-1.5" onClick={train} disabled={!target || features.length === 0}>
-              <Play className="h-3.5 w-3.5" /> Train Model
-            </Button>
-            {progress > 0 && progress < 100 && <Progress value={progress} className="h-1.5" />}
-          </CardContent>
-        </Card>
-
-        <div className="space-y-4">
-          {trained ? (
-            <>
-              <div className="grid grid-cols-3 gap-3">
-                {[
-                  { l: 'Accuracy', v: `${(history[history.length - 1].acc * 100).toFixed(1)}%` },
-                  { l: 'F1 Score', v: history[history.length - 1].f1.toFixed(3) },
-                  { l: 'Training rows', v: ds.rowCount.toLocaleString() },
-                ].map((s) => (
-                  <Card key={s.l}>
-                    <CardContent className="p-4">
-                      <div className="text-[10px] uppercase text-muted-foreground">{s.l}</div>
-                      <div className="mt-1 text-2xl font-bold">{s.v}</div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <div className="mb-1 text-[10px] uppercase text-muted-foreground">Validation</div>
+                  <Select value={validation} onValueChange={(v) => setValidation(v as Validation)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="holdout">Hold-out only</SelectItem>
+                      <SelectItem value="kfold">K-fold</SelectItem>
+                      <SelectItem value="timeseries">Time-series split</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <div className="mb-1 text-[10px] uppercase text-muted-foreground">Folds</div>
+                  <Select value={folds} onValueChange={setFolds}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {['3', '5', '10'].map((k) => <SelectItem key={k} value={k}>{k}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {validation === 'timeseries' && (
+                <div>
+                  <div className="mb-1 text-[10px] uppercase text-muted-foreground">Time order</div>
+                  <Select value={orderBy || dateColumns[0] || '__rows__'} onValueChange={(v) => setOrderBy(v === '__rows__' ? '' : v)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {dateColumns.map((c) => <SelectItem key={c} value={c}>{c}</SelectItem>)}
+                      <SelectItem value="__rows__">Row order</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <div className="mb-1 text-[10px] uppercase text-muted-foreground">Tuning</div>
+                  <Select value={search} onValueChange={(v) => setSearch(v as SearchStrategy | 'none')}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Defaults</SelectItem>
+                      <SelectItem value="grid" disabled={gridSize <= 1}>Grid search</SelectItem>
+                      <SelectItem value="random" disabled={gridSize <= 1}>Random search</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <div className="mb-1 text-[10px] uppercase text-muted-foreground">Trials</div>
+                  {search === 'random' ? (
+                    <Select value={searchTrials} onValueChange={setSearchTrials}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {['5', '10', '20'].map((k) => <SelectItem key={k} value={k}>{k}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <div className="flex h-10 items-center text-muted-foreground">{search === 'grid' ? gridSize : '—'}</div>
+                  )}
+                </div>
+              </div>
+              <Button
+                className="w-full gap-1.5"
+                onClick={train}
+                disabled={!target || features.filter((f) => f !== target).length === 0 || !rows || training}
+              >
+                <Play className="h-3.5 w-3.5" /> {loading ? 'Loading rows…' : 'Train Model'}
+              </Button>
+              {training && (
+                <div className="space-y-1">
+                  <Progress value={progress.value} className="h-1.5" />
+                  <div className="text-[10px] text-muted-foreground">{progress.label}</div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-4">
+            {latest ? (
+              <>
+                <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+                  {metricCards(latest).map((s) => (
+                    <Card key={s.l}>
+                      <CardContent className="p-4">
+                        <div className="text-[10px] uppercase text-muted-foreground">{s.l}</div>
+                        <div className="mt-1 text-2xl font-bold">{s.v}</div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+                {latest.cv && (
+                  <Card>
+                    <CardContent className="flex flex-wrap gap-x-6 gap-y-1 p-4 text-xs">
+                      <span className="font-medium">
+                        {latest.cv.folds.length}-fold {latest.cv.strategy === 'timeseries' ? 'time-series ' : ''}cross-validation
+                      </span>
+                      {Object.entries(latest.cv.mean).map(([k, v]) => (
+                        <span key={k} className="tabular-nums text-muted-foreground">
+                          {k} {fmt(v)} ± {fmt(latest.cv.std[k as keyof typeof latest.cv.std])}
+                        </span>
+                      ))}
                     </CardContent>
                   </Card>
-                ))}
-              </div>
-              <Card>
-                <CardHeader><CardTitle className="text-sm">Feature importance</CardTitle></CardHeader>
-                <CardContent>
-                  <div className="h-56">
-                    <ResponsiveContainer>
-                      <BarChart data={importance} layout="vertical">
-                        <XAxis type="number" tick={{ fontSize: 10 }} />
-                        <YAxis dataKey="name" type="category" tick={{ fontSize: 10 }} width={100} />
-                        <Tooltip />
-                        <Bar dataKey="value" fill="hsl(var(--primary))" radius={[0, 4, 4, 0]} />
-                      </BarChart>
-                    </ResponsiveContainer>
-                  </div>
-                </CardContent>
-              </Card>
-              <Card>
-                <CardHeader><CardTitle className="text-sm">Plain-English explanation</CardTitle></CardHeader>
-                <CardContent className="text-xs text-muted-foreground">
-                  The model correctly predicted <strong>{target || 'the target'}</strong> in{' '}
-                  <strong>{(history[history.length - 1].acc * 100).toFixed(0)}%</strong> of cases. The most important
-                  features driving predictions were <strong>{importance[0]?.name}</strong> and{' '}
-                  <strong>{importance[1]?.name}</strong>.
-                </CardContent>
-              </Card>
-              {history.length > 1 && (
+                )}
                 <Card>
-                  <CardHeader><CardTitle className="text-sm">Model comparison</CardTitle></CardHeader>
+                  <CardHeader>
+                    <CardTitle className="text-sm">Permutation importance</CardTitle>
+                    <p className="text-[11px] text-muted-foreground">
+                      Drop in {latest.artifact.task === 'classification' ? 'accuracy' : 'R²'} on the test set when each
+                      feature is shuffled, averaged over 3 shuffles
+                    </p>
+                  </CardHeader>
                   <CardContent>
-                    <Table>
-                      <TableHeader><TableRow><TableHead>Model</TableHead><TableHead>Accuracy</TableHead><TableHead>F1</TableHead></TableRow></TableHeader>
-                      <TableBody>
-                        {history.map((h) => (
-                          <TableRow key={h.name}>
-                            <TableCell>{h.name}</TableCell>
-                            <TableCell>{(h.acc * 100).toFixed(1)}%</TableCell>
-                            <TableCell>{h.f1.toFixed(3)}</TableCell>
-                          </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
+                    <div style={{ height: Math.max(160, latest.importance.length * 28) }}>
+                      <ResponsiveContainer>
+                        <BarChart
+                          data={latest.importance.map((f) => ({
+                            name: f.feature,
+                            value: Number(f.importance.toFixed(4)),
+                            std: Number(f.std.toFixed(4)),
+                          }))}
+                          layout="vertical"
+                        >
+                          <XAxis type="number" tick={{ fontSize: 10 }} />
+                          <YAxis dataKey="name" type="category" tick={{ fontSize: 10 }} width={110} />
+                          <Tooltip />
+                          <Bar dataKey="value" fill="hsl(var(--primary))" radius={[0, 4, 4, 0]}>
+                            <ErrorBar dataKey="std" width={4} strokeWidth={1} direction="x" />
+                          </Bar>
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </div>
                   </CardContent>
                 </Card>
-              )}
-            </>
-          ) : (
-            <Card>
-              <CardContent className="flex flex-col items-center justify-center py-16">
-                <Brain className="mb-3 h-10 w-10 text-muted-foreground" />
-                <h3 className="text-base font-semibold">No model trained yet</h3>
-                <p className="mt-1 max-w-sm text-center text-xs text-muted-foreground">
-                  Pick a model type, target column, and features, then click Train.
-                </p>
-              </CardContent>
-            </Card>
-          )}
+                <Card>
+                  <CardHeader><CardTitle className="text-sm">Plain-English explanation</CardTitle></CardHeader>
+                  <CardContent className="text-xs text-muted-foreground">{explain(latest)}</CardContent>
+                </Card>
+                {latest.artifact.task === 'classification' && <ClassifierDiagnostics result={latest} />}
+                {latest.trials && latest.trials.length > 0 && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-sm">Hyperparameter search</CardTitle>
+                      <p className="text-[11px] text-muted-foreground">
+                        {latest.trials.length} candidates scored by {latest.trials[0].cv.folds.length}-fold{' '}
+                        {latest.trials[0].cv.strategy === 'timeseries' ? 'time-series ' : ''}cross-validation; the best was used
+                        for the final model
+                      </p>
+                    </CardHeader>
+                    <CardContent>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>#</TableHead>
+                            <TableHead>Parameters</TableHead>
+                            <TableHead>{latest.artifact.task === 'classification' ? 'Accuracy' : 'R²'} (mean ± std)</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {latest.trials.slice(0, 10).map((t, i) => (
+                            <TableRow key={JSON.stringify(t.params)}>
+                              <TableCell>{i + 1}</TableCell>
+                              <TableCell className="font-mono text-[10px]">
+                                {Object.entries(t.params).map(([k, v]) => `${k}=${v}`).join(' ')}
+                              </TableCell>
+                              <TableCell className="tabular-nums">{fmt(t.score)} ± {fmt(t.scoreStd)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
+                )}
+              </>
+            ) : (
+              <Card>
+                <CardContent className="flex flex-col items-center justify-center py-16">
+                  <Brain className="mb-3 h-10 w-10 text-muted-foreground" />
+                  <h3 className="text-base font-semibold">No model trained yet</h3>
+                  <p className="mt-1 max-w-sm text-center text-xs text-muted-foreground">
+                    Pick a model type, target column, and features, then click Train.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+            <ModelRegistry dataset={ds} />
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
@@ -2,6 +2,7 @@ import { useParams, Navigate, Link } from 'react-router-dom';
 import { useWorkspace } from '@/store/workspace';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { QualityRing } from '@/components/app/QualityRing';
+import { VersionHistory } from '@/components/app/VersionHistory';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Wand2, AlertTriangle, AlertCircle, Info, ArrowRight } from 'lucide-react';
@@ -174,6 +175,8 @@ export default function Profile() {
         </Card>
       </div>
 
+      <VersionHistory dataset={ds} />
+
       <Card>
         <CardHeader>
           <CardTitle className="text-base">Numeric column means</CardTitle>
@@ -1,99 +1,370 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useParams, Navigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
 import { useWorkspace } from '@/store/workspace';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { loadDatasetRows, useDatasetRows, useLoadedDatasetRows } from '@/store/datasetRows';
+import {
+  ANALYSIS_SECTIONS, TONE_LABELS, analyzeForReport, buildReportBlocks, chartSection, createReport, exportReport, moveSection,
+  sectionLabel, type Report, type ReportBlock, type ReportFormat, type ReportTone,
+} from '@/lib/reports';
+import { downloadFile } from '@/lib/dataExporter';
+import { WidgetBody } from '@/components/app/DashboardWidget';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { FileText, Download, Plus } from 'lucide-react';
+import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import {
+  Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableHeader,
+  TableRow,
+  TableHead,
+  TableBody,
+  TableCell,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { FileText, Download, Loader2, Plus, Save, Trash2, ChevronUp, ChevronDown, X, BarChart3 } from 'lucide-react';
 
-const mockReports = [
-  { id: 'r1', title: 'Q4 Executive Summary', updated: '2 days ago', sections: 4 },
-  { id: 'r2', title: 'Sales Performance Deep Dive', updated: '5 days ago', sections: 6 },
-  { id: 'r3', title: 'Data Quality Audit', updated: '1 week ago', sections: 3 },
+const EXPORT_FORMATS: { format: ReportFormat; label: string }[] = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'xlsx', label: 'Excel' },
+  { format: 'pptx', label: 'PPT' },
 ];
 
+const toneStyles: Record<ReportTone, string> = {
+  pass: 'bg-success/15 text-success',
+  warn: 'bg-amber-500/15 text-amber-600',
+  fail: 'bg-destructive/15 text-destructive',
+  info: 'bg-muted text-muted-foreground',
+};
+
+function BlockView({ block }: { block: ReportBlock }) {
+  return (
+    <section className="space-y-3">
+      <div>
+        <h3 className="text-sm font-semibold">{block.title}</h3>
+        {block.summary && <p className="mt-1 text-xs text-muted-foreground">{block.summary}</p>}
+      </div>
+      {block.facts.length > 0 && (
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+          {block.facts.map((f) => (
+            <div key={f.label} className="rounded-lg border bg-card p-2">
+              <div className="text-[10px] uppercase text-muted-foreground">{f.label}</div>
+              <div className="truncate text-sm font-semibold tabular-nums" title={f.value}>{f.value}</div>
+            </div>
+          ))}
+        </div>
+      )}
+      {block.chart && (
+        <div className="h-64 rounded-lg border p-3">
+          <WidgetBody widget={block.chart.widget} data={block.chart.data} selected={null} />
+        </div>
+      )}
+      {block.table && (
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {block.table.columns.map((c) => <TableHead key={c} className="h-8 text-[11px]">{c}</TableHead>)}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {block.table.rows.map((row, i) => (
+                <TableRow key={i}>
+                  {row.map((cell, j) => <TableCell key={j} className="py-1.5 text-xs">{cell}</TableCell>)}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+      {block.items.length > 0 && (
+        <div className="space-y-1.5">
+          {block.items.map((item, i) => (
+            <div key={i} className="flex items-start gap-2 rounded-lg border bg-card p-2 text-xs">
+              <Badge variant="outline" className={`shrink-0 border-0 text-[10px] ${toneStyles[item.tone]}`}>
+                {TONE_LABELS[item.tone]}
+              </Badge>
+              <span>{item.text}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
 export default function Reports() {
   const { id } = useParams();
-  const { datasets } = useWorkspace();
+  const { datasets, saveReport, removeReport } = useWorkspace();
   const ds = datasets.find((d) => d.id === id);
-  const [selected, setSelected] = useState(mockReports[0]);
+  const { rows, loading, error } = useDatasetRows(ds?.id);
+  const loadedRows = useLoadedDatasetRows();
+  // Unsaved edits by report id; a report that was never saved lives only here
+  const [drafts, setDrafts] = useState<Record<string, Report>>({});
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [exporting, setExporting] = useState<ReportFormat | null>(null);
+
+  const saved = useMemo(() => ds?.reports ?? [], [ds?.reports]);
+  const reports = useMemo(
+    () => [...saved.map((r) => drafts[r.id] ?? r), ...Object.values(drafts).filter((r) => !saved.some((s) => s.id === r.id))],
+    [saved, drafts],
+  );
+  const active = reports.find((r) => r.id === activeId) ?? reports[0] ?? null;
+
+  // Join targets are loaded on demand, as on the Clean page
+  useEffect(() => {
+    ds?.pipeline.forEach((step) => {
+      if (step.type === 'join' && typeof step.params.datasetId === 'string') void loadDatasetRows(step.params.datasetId);
+    });
+  }, [ds?.pipeline]);
+  const ctx = useMemo(() => ({ resolveDataset: (otherId: string) => loadedRows.get(otherId) }), [loadedRows]);
+
+  // Pipeline, cleaning and readiness checks run once per data change, not per edit to the report
+  const pipeline = ds?.pipeline;
+  const results = useMemo(() => (rows && pipeline ? analyzeForReport(rows, pipeline, ctx) : null), [rows, pipeline, ctx]);
+  const blocks = useMemo(() => (rows && results && active ? buildReportBlocks(active, results, rows) : []), [rows, results, active]);
+
+  useEffect(() => {
+    setDrafts({});
+    setActiveId(null);
+  }, [id]);
+  // A dataset without reports starts from one covering every analysis section
+  useEffect(() => {
+    if (reports.length === 0) {
+      const first = createReport('Data quality report');
+      setDrafts({ [first.id]: first });
+      setActiveId(first.id);
+    }
+  }, [reports.length]);
 
   if (!ds) return <Navigate to="/" replace />;
 
+  const update = (fn: (r: Report) => Report) => {
+    if (!active) return;
+    setDrafts((prev) => ({ ...prev, [active.id]: fn(prev[active.id] ?? active) }));
+  };
+  const create = () => {
+    const next = createReport(`Report ${reports.length + 1}`);
+    setDrafts((prev) => ({ ...prev, [next.id]: next }));
+    setActiveId(next.id);
+  };
+  const persist = () => {
+    if (!active) return;
+    saveReport(ds.id, { ...active, name: active.name.trim() || 'Untitled report', updatedAt: new Date().toISOString() });
+    setDrafts(({ [active.id]: _, ...rest }) => rest);
+    toast.success(`Saved ${active.name.trim() || 'Untitled report'}`);
+  };
+  const download = async (format: ReportFormat) => {
+    if (!active || !results) return;
+    const title = active.name.trim() || 'Untitled report';
+    setExporting(format);
+    try {
+      const { blob, filename } = await exportReport(
+        { title, dataset: ds.name, generatedAt: new Date().toISOString(), blocks, results },
+        format,
+      );
+      downloadFile(blob, filename);
+      toast.success(`Exported ${filename}`);
+    } catch (err) {
+      toast.error(`Could not export ${title}: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setExporting(null);
+    }
+  };
+  const discard = () => {
+    if (!active) return;
+    if (saved.some((r) => r.id === active.id)) removeReport(ds.id, active.id);
+    setDrafts(({ [active.id]: _, ...rest }) => rest);
+    setActiveId(null);
+    setDeleting(false);
+  };
+
+  const addAnalysis = (kind: string) => {
+    const section = ANALYSIS_SECTIONS.find((s) => s.kind === kind);
+    if (section) update((r) => ({ ...r, sections: [...r.sections, { id: crypto.randomUUID(), kind: section.kind }] }));
+  };
+  const addChart = (value: string) => {
+    const [dashboardId, widgetId] = value.split(':');
+    const dashboard = ds.dashboards.find((d) => d.id === dashboardId);
+    const widget = dashboard?.widgets.find((w) => w.id === widgetId);
+    if (dashboard && widget) update((r) => ({ ...r, sections: [...r.sections, chartSection(widget, dashboard)] }));
+  };
+  const move = (sectionId: string, offset: -1 | 1) => update((r) => ({ ...r, sections: moveSection(r.sections, sectionId, offset) }));
+  const removeSection = (sectionId: string) => update((r) => ({ ...r, sections: r.sections.filter((s) => s.id !== sectionId) }));
+
+  const missing = active ? ANALYSIS_SECTIONS.filter((s) => !active.sections.some((x) => x.kind === s.kind)) : [];
+  const charted = ds.dashboards.filter((d) => d.widgets.length > 0);
+  const dirty = !!active && !!drafts[active.id];
+
   return (
     <div className="mx-auto max-w-7xl space-y-6 p-6">
       <div className="flex items-end justify-between">
         <div>
           <h1 className="text-3xl font-bold tracking-tight">Reports</h1>
-          <p className="mt-1 text-sm text-muted-foreground">Generated insights for {ds.name}</p>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Generated from the current results for {ds.name}
+            {dirty && ' · unsaved changes'}
+          </p>
         </div>
-        <Button className="gap-2"><Plus className="h-4 w-4" /> New Report</Button>
+        <Button className="gap-2" onClick={create}><Plus className="h-4 w-4" /> New Report</Button>
       </div>
       <div className="grid gap-6 lg:grid-cols-[300px_1fr]">
-        <div className="space-y-2">
-          {mockReports.map((r) => (
-            <button
-              key={r.id}
-              onClick={() => setSelected(r)}
-              className={`flex w-full items-start gap-3 rounded-lg border bg-card p-3 text-left transition-colors ${
-                selected.id === r.id ? 'border-primary/60 bg-accent' : 'hover:border-primary/30'
-              }`}
-            >
-              <FileText className="mt-0.5 h-4 w-4 text-primary" />
-              <div className="min-w-0 flex-1">
-                <div className="text-sm font-medium">{r.title}</div>
-                <div className="mt-1 flex items-center gap-2 text-[10px] text-muted-foreground">
-                  <span>{r.updated}</span>
-                  <span>·</span>
-                  <span>{r.sections} sections</span>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {reports.map((r) => (
+              <button
+                key={r.id}
+                onClick={() => setActiveId(r.id)}
+                className={`flex w-full items-start gap-3 rounded-lg border bg-card p-3 text-left transition-colors ${
+                  active?.id === r.id ? 'border-primary/60 bg-accent' : 'hover:border-primary/30'
+                }`}
+              >
+                <FileText className="mt-0.5 h-4 w-4 text-primary" />
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-sm font-medium">{r.name || 'Untitled report'}</div>
+                  <div className="mt-1 flex items-center gap-2 text-[10px] text-muted-foreground">
+                    <span>{drafts[r.id] ? 'unsaved' : formatDistanceToNow(new Date(r.updatedAt), { addSuffix: true })}</span>
+                    <span>·</span>
+                    <span>{r.sections.length} section{r.sections.length === 1 ? '' : 's'}</span>
+                  </div>
                 </div>
-              </div>
-            </button>
-          ))}
-        </div>
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0">
-            <CardTitle className="text-base">{selected.title}</CardTitle>
-            <div className="flex gap-1">
-              {['PDF', 'Excel', 'PPT'].map((f) => (
-                <Button key={f} variant="outline" size="sm" className="gap-1.5">
-                  <Download className="h-3 w-3" /> {f}
-                </Button>
-              ))}
-            </div>
-          </CardHeader>
-          <CardContent className="space-y-6">
-            <section>
-              <h3 className="mb-2 text-sm font-semibold">Executive Summary</h3>
-              <p className="text-xs text-muted-foreground">
-                This dataset of {ds.rowCount.toLocaleString()} rows shows a healthy quality score of {ds.quality}%.
-                Key growth drivers were identified across {ds.schema.length} tracked dimensions, with actionable
-                opportunities highlighted below.
-              </p>
-            </section>
-            <section>
-              <h3 className="mb-2 text-sm font-semibold">Key Findings</h3>
-              <ul className="space-y-1 text-xs text-muted-foreground">
-                <li>• Overall data completeness: 94%</li>
-                <li>• {ds.issues.length} quality issues resolved automatically</li>
-                <li>• Detected 3 statistically significant patterns</li>
-                <li>• Top-performing segment contributes 38% of total volume</li>
-              </ul>
-            </section>
-            <section>
-              <h3 className="mb-2 text-sm font-semibold">Recommendations</h3>
-              <div className="space-y-2">
-                {['Focus resources on Enterprise segment', 'Investigate April volume dip', 'Add validation for date column'].map((r) => (
-                  <div key={r} className="flex items-start gap-2 rounded-lg border bg-card p-2 text-xs">
-                    <Badge variant="outline" className="text-[10px]">Action</Badge>
-                    <span>{r}</span>
+              </button>
+            ))}
+          </div>
+          {active && (
+            <Card>
+              <CardContent className="space-y-3 p-3">
+                <div className="text-[10px] uppercase text-muted-foreground">Sections</div>
+                {active.sections.length === 0 ? (
+                  <div className="rounded-lg border border-dashed p-3 text-center text-xs text-muted-foreground">No sections yet.</div>
+                ) : (
+                  <div className="divide-y rounded-lg border">
+                    {active.sections.map((s, i) => (
+                      <div key={s.id} className="flex items-center gap-1 py-1 pl-2 pr-1 text-xs">
+                        {s.kind === 'chart' && <BarChart3 className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                        <span className="min-w-0 flex-1 truncate">{sectionLabel(s)}</span>
+                        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={i === 0} onClick={() => move(s.id, -1)} aria-label="Move up">
+                          <ChevronUp className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          disabled={i === active.sections.length - 1}
+                          onClick={() => move(s.id, 1)}
+                          aria-label="Move down"
+                        >
+                          <ChevronDown className="h-3 w-3" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => removeSection(s.id)} aria-label="Remove section">
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ))}
                   </div>
+                )}
+                <Select value="" onValueChange={addAnalysis} disabled={missing.length === 0}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue placeholder="Add section" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {missing.map((s) => (
+                      <SelectItem key={s.kind} value={s.kind} className="text-xs">
+                        {s.label}
+                        <span className="ml-1 text-muted-foreground">— {s.description}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value="" onValueChange={addChart} disabled={charted.length === 0}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue placeholder={charted.length ? 'Add chart from a dashboard' : 'Save a dashboard to add its charts'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {charted.map((d) => (
+                      <SelectGroup key={d.id}>
+                        <SelectLabel className="text-[10px] uppercase text-muted-foreground">{d.name}</SelectLabel>
+                        {d.widgets.map((w) => (
+                          <SelectItem key={w.id} value={`${d.id}:${w.id}`} className="text-xs">{w.config.title}</SelectItem>
+                        ))}
+                      </SelectGroup>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+        {active && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+              <Input
+                className="h-8 max-w-xs text-sm font-semibold"
+                value={active.name}
+                onChange={(e) => update((r) => ({ ...r, name: e.target.value }))}
+                aria-label="Report name"
+              />
+              <div className="flex gap-1">
+                {EXPORT_FORMATS.map((f) => (
+                  <Button
+                    key={f.format}
+                    variant="outline"
+                    size="sm"
+                    className="gap-1.5"
+                    disabled={!results || blocks.length === 0 || exporting !== null}
+                    onClick={() => void download(f.format)}
+                  >
+                    {exporting === f.format ? <Loader2 className="h-3 w-3 animate-spin" /> : <Download className="h-3 w-3" />} {f.label}
+                  </Button>
                 ))}
+                <Button variant="ghost" size="sm" onClick={() => setDeleting(true)} aria-label="Delete report">
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+                <Button size="sm" className="gap-1.5" disabled={!dirty} onClick={persist}>
+                  <Save className="h-3 w-3" /> Save
+                </Button>
               </div>
-            </section>
-          </CardContent>
-        </Card>
+            </CardHeader>
+            <CardContent className="space-y-8">
+              {error ? (
+                <p className="text-xs text-destructive">Could not load rows: {error}</p>
+              ) : loading || !results ? (
+                <p className="text-xs text-muted-foreground">Analyzing {ds.name}…</p>
+              ) : blocks.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Add sections to build this report.</p>
+              ) : (
+                blocks.map((b) => <BlockView key={b.id} block={b} />)
+              )}
+            </CardContent>
+          </Card>
+        )}
       </div>
+      <AlertDialog open={deleting} onOpenChange={setDeleting}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {active?.name || 'this report'}?</AlertDialogTitle>
+            <AlertDialogDescription>The report's sections and charts are removed. The dataset and its dashboards are not affected.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={discard}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -2,13 +2,17 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useTheme } from 'next-themes';
 import { useWorkspace } from '@/store/workspace';
 import { toast } from 'sonner';
+import { LLM_PROVIDERS, resolveLLMConfig, type LLMProvider } from '@/lib/processor/llmInterface';
 
 export default function Settings() {
   const { theme, setTheme } = useTheme();
-  const { storagePath, setStoragePath, clearAiMessages } = useWorkspace();
+  const { storagePath, setStoragePath, clearAiMessages, llm, setLLMSettings } = useWorkspace();
+  const provider = llm.provider ? LLM_PROVIDERS[llm.provider] : null;
+  const resolved = resolveLLMConfig(llm);
 
   return (
     <div className="mx-auto max-w-3xl space-y-6 p-6">
@@ -43,7 +47,62 @@ export default function Settings() {
 
       <Card>
         <CardHeader><CardTitle className="text-base">AI Copilot</CardTitle></CardHeader>
-        <CardContent>
+        <CardContent className="space-y-3">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Provider</Label>
+              <Select
+                value={llm.provider ?? 'env'}
+                onValueChange={(v) => setLLMSettings({ provider: v === 'env' ? null : (v as LLMProvider) })}
+              >
+                <SelectTrigger className="h-9 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="env" className="text-xs">From environment keys</SelectItem>
+                  {(Object.keys(LLM_PROVIDERS) as LLMProvider[]).map((p) => (
+                    <SelectItem key={p} value={p} className="text-xs">{LLM_PROVIDERS[p].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {llm.provider && (
+              <div className="space-y-1">
+                <Label className="text-xs">Model</Label>
+                <Input
+                  value={llm.model}
+                  placeholder={provider?.model}
+                  onChange={(e) => setLLMSettings({ model: e.target.value })}
+                  className="font-mono text-xs"
+                />
+              </div>
+            )}
+            {llm.provider === 'local' && (
+              <div className="space-y-1 sm:col-span-2">
+                <Label className="text-xs">Server URL</Label>
+                <Input
+                  value={llm.baseUrl}
+                  placeholder={LLM_PROVIDERS.local.endpoint}
+                  onChange={(e) => setLLMSettings({ baseUrl: e.target.value })}
+                  className="font-mono text-xs"
+                />
+              </div>
+            )}
+            {llm.provider && (
+              <div className="space-y-1 sm:col-span-2">
+                <Label className="text-xs">API key{provider?.needsKey ? '' : ' (optional)'}</Label>
+                <Input
+                  type="password"
+                  value={llm.apiKey}
+                  onChange={(e) => setLLMSettings({ apiKey: e.target.value })}
+                  className="font-mono text-xs"
+                />
+              </div>
+            )}
+          </div>
+          <p className="text-[10px] text-muted-foreground">
+            {resolved
+              ? `Copilot uses ${LLM_PROVIDERS[resolved.provider].label}. Keys are stored in this browser only.`
+              : 'No provider is usable yet: add an API key, or pick a local OpenAI-compatible server such as Ollama or LM Studio.'}
+          </p>
           <Button variant="outline" onClick={() => { clearAiMessages(); toast.success('Chat history cleared'); }}>
             Clear chat history
           </Button>
@@ -3,7 +3,12 @@ import { useNavigate } from 'react-router-dom';
 import { UploadCloud, FileSpreadsheet, FileJson, FileText, Database } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
 import { Card } from '@/components/ui/card';
+import { SheetSelector } from '@/components/SheetSelector';
 import { useWorkspace, type Dataset } from '@/store/workspace';
+import { saveDatasetRows, StorageQuotaError } from '@/store/datasetRows';
+import { ACCEPTED_EXTENSIONS, datasetNameFromFile, parseFile, sheetToRows } from '@/lib/fileParser';
+import { assessDataset } from '@/lib/datasetProfiler';
+import type { WorkBook } from 'xlsx';
 import { toast } from 'sonner';
 
 const formats = [
@@ -14,51 +19,107 @@ const formats = [
   { ext: 'Parquet', icon: Database, color: 'text-purple-500' },
 ];
 
+type Stage = { progress: number; label: string };
+
+// Let React paint the progress bar before the next synchronous chunk of work
+const nextFrame = () => new Promise((resolve) => setTimeout(resolve, 0));
+
 export default function Upload() {
   const [dragging, setDragging] = useState(false);
-  const [progress, setProgress] = useState<number | null>(null);
+  const [stage, setStage] = useState<Stage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<{ file: File; workbook: WorkBook; sheetNames: string[] } | null>(null);
   const nav = useNavigate();
   const { addDataset, setActiveDataset } = useWorkspace();
 
-  const handleFile = useCallback(
-    (file: File) => {
-      setProgress(0);
-      const iv = setInterval(() => {
-        setProgress((p) => {
-          if (p == null) return 0;
-          if (p >= 100) {
-            clearInterval(iv);
-            const id = `ds-${Date.now()}`;
-            const ext = (file.name.split('.').pop() ?? 'csv').toLowerCase();
-            const format = (['csv', 'xlsx', 'json', 'tsv', 'parquet'].includes(ext) ? ext : 'csv') as Dataset['format'];
-            const ds: Dataset = {
-              id,
-              name: file.name.replace(/\.[^.]+$/, ''),
-              format,
-              rowCount: Math.floor(500 + Math.random() * 5000),
-              colCount: 6 + Math.floor(Math.random() * 8),
-              quality: 60 + Math.floor(Math.random() * 35),
-              createdAt: new Date().toISOString(),
-              updatedAt: new Date().toISOString(),
-              schema: [],
-              rows: [],
-              pipeline: [],
-              redoStack: [],
-              issues: [],
-            };
-            addDataset(ds);
-            setActiveDataset(id);
-            toast.success('Dataset uploaded (mock)');
-            setTimeout(() => nav(`/datasets/${id}/profile`), 300);
-            return 100;
-          }
-          return p + 8;
-        });
-      }, 80);
+  const ingest = useCallback(
+    async (name: string, format: Dataset['format'], rows: Record<string, unknown>[], warnings: string[]) => {
+      if (rows.length === 0) throw new Error('The file appears to be empty.');
+
+      setStage({ progress: 60, label: `Profiling ${rows.length.toLocaleString()} rows…` });
+      await nextFrame();
+      const { schema, issues, quality } = assessDataset(rows);
+
+      setStage({ progress: 100, label: 'Done' });
+      const id = `ds-${Date.now()}`;
+      const now = new Date().toISOString();
+      const ds: Dataset = {
+        id,
+        name,
+        format,
+        rowCount: rows.length,
+        colCount: schema.length,
+        quality,
+        createdAt: now,
+        updatedAt: now,
+        schema,
+        pipeline: [],
+        redoStack: [],
+        issues,
+        versions: [],
+        models: [],
+        dashboards: [],
+        reports: [],
+      };
+      try {
+        await saveDatasetRows(id, rows);
+      } catch (err) {
+        // Rows stay available for this session either way
+        toast.warning(
+          err instanceof StorageQuotaError
+            ? `${err.message} ${name} will only be kept until this tab is closed.`
+            : `${name} could not be saved to browser storage and will only be kept until this tab is closed.`,
+        );
+      }
+      addDataset(ds);
+      setActiveDataset(id);
+      warnings.forEach((w) => toast.warning(w));
+      toast.success(`Loaded ${rows.length.toLocaleString()} rows × ${schema.length} columns`);
+      nav(`/datasets/${id}/profile`);
     },
     [addDataset, nav, setActiveDataset],
   );
 
+  const fail = useCallback((err: unknown) => {
+    const message = err instanceof Error ? err.message : 'An unexpected error occurred while processing the file.';
+    setError(message);
+    setStage(null);
+    toast.error(message);
+  }, []);
+
+  const handleFile = useCallback(
+    async (file: File) => {
+      setError(null);
+      setStage({ progress: 10, label: `Reading ${file.name}…` });
+      await nextFrame();
+      try {
+        const parsed = await parseFile(file);
+        if (parsed.kind === 'workbook') {
+          setStage(null);
+          setPending({ file, workbook: parsed.workbook, sheetNames: parsed.sheetNames });
+          return;
+        }
+        await ingest(datasetNameFromFile(file.name), parsed.format, parsed.rows, parsed.warnings);
+      } catch (err) {
+        fail(err);
+      }
+    },
+    [ingest, fail],
+  );
+
+  const handleSheetSelect = async (sheetName: string) => {
+    if (!pending) return;
+    const { file, workbook } = pending;
+    setPending(null);
+    setStage({ progress: 40, label: `Reading sheet "${sheetName}"…` });
+    await nextFrame();
+    try {
+      await ingest(`${datasetNameFromFile(file.name)} · ${sheetName}`, 'xlsx', sheetToRows(workbook, sheetName), []);
+    } catch (err) {
+      fail(err);
+    }
+  };
+
   return (
     <div className="mx-auto max-w-3xl p-6">
       <div className="mb-6">
@@ -75,14 +136,20 @@ export default function Upload() {
           e.preventDefault();
           setDragging(false);
           const f = e.dataTransfer.files[0];
-          if (f) handleFile(f);
+          if (f && stage == null) handleFile(f);
         }}
         className={`upload-zone ${dragging ? 'dragging' : ''}`}
       >
         <input
           type="file"
+          accept={ACCEPTED_EXTENSIONS}
+          disabled={stage != null}
           className="absolute inset-0 cursor-pointer opacity-0"
-          onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+          onChange={(e) => {
+            if (e.target.files?.[0]) handleFile(e.target.files[0]);
+            // Allow re-selecting the same file after an error
+            e.target.value = '';
+          }}
         />
         <div className="flex flex-col items-center gap-3 text-center">
           <div className="flex h-14 w-14 items-center justify-center rounded-full bg-primary/10 text-primary">
@@ -92,12 +159,13 @@ export default function Upload() {
             <h3 className="text-base font-semibold">Drag & drop your file</h3>
             <p className="mt-1 text-xs text-muted-foreground">or click to browse from your computer</p>
           </div>
-          {progress != null && (
+          {stage != null && (
             <div className="w-full max-w-sm space-y-1">
-              <Progress value={progress} className="h-1.5" />
-              <div className="text-[10px] text-muted-foreground">Uploading… {progress}%</div>
+              <Progress value={stage.progress} className="h-1.5" />
+              <div className="text-[10px] text-muted-foreground">{stage.label}</div>
             </div>
           )}
+          {error && stage == null && <p className="text-xs text-destructive">{error}</p>}
         </div>
       </div>
       <div className="mt-6 grid grid-cols-5 gap-2">
@@ -108,6 +176,13 @@ export default function Upload() {
           </Card>
         ))}
       </div>
+      <SheetSelector
+        key={pending?.file.name}
+        open={pending != null}
+        sheetNames={pending?.sheetNames ?? []}
+        onSelect={handleSheetSelect}
+        onCancel={() => setPending(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,128 @@
+/**
+ * Dataset row storage.
+ * Rows live in IndexedDB (one record per dataset) and are loaded lazily into
+ * a small in-memory session cache; the zustand workspace only persists metadata.
+ * When IndexedDB is unavailable or full, rows stay in the session cache so
+ * the current tab keeps working and the caller can warn the user.
+ */
+
+import { useEffect, useSyncExternalStore } from 'react';
+import { seedDatasets } from '@/lib/mockData';
+import { ROW_STORE, transact } from './idb';
+
+type DataRow = Record<string, unknown>;
+
+export { StorageQuotaError } from './idb';
+
+// ─── Session Cache ───────────────────────────────────────────────────────────
+
+// Enough for the open dataset, its join targets and a version being compared
+const MAX_CACHED = 4;
+
+// Least recently used first; Map keeps insertion order
+const cache = new Map<string, DataRow[]>();
+// Rows not yet (or never) written to IndexedDB are the only copy, so they are never evicted
+const unsaved = new Set<string>();
+const failures = new Map<string, string>();
+const inflight = new Map<string, Promise<DataRow[] | null>>();
+const listeners = new Set<() => void>();
+// Immutable view of the cache, replaced on every change so hooks can compare by identity
+let loadedSnapshot: ReadonlyMap<string, DataRow[]> = new Map();
+
+function notify() {
+  loadedSnapshot = new Map(cache);
+  listeners.forEach(l => l());
+}
+
+function remember(id: string, rows: DataRow[]) {
+  cache.delete(id);
+  cache.set(id, rows);
+  for (const key of cache.keys()) {
+    if (cache.size <= MAX_CACHED) break;
+    if (key !== id && !unsaved.has(key)) cache.delete(key);
+  }
+}
+
+export function subscribeDatasetRows(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Versions are stored alongside their dataset under a derived key
+export function versionRowsKey(datasetId: string, versionId: string): string {
+  return `${datasetId}@${versionId}`;
+}
+
+export function getCachedRows(id: string): DataRow[] | undefined {
+  return cache.get(id);
+}
+
+/**
+ * Store rows for a dataset. The session cache is updated first, so the rows
+ * are usable even if persisting fails; a full disk rejects with StorageQuotaError.
+ */
+export async function saveDatasetRows(id: string, rows: DataRow[]): Promise<void> {
+  unsaved.add(id);
+  remember(id, rows);
+  failures.delete(id);
+  notify();
+  await transact(ROW_STORE, 'readwrite', store => store.put(rows, id));
+  // A later save of the same id may still be pending
+  if (cache.get(id) === rows) unsaved.delete(id);
+}
+
+export function loadDatasetRows(id: string): Promise<DataRow[] | null> {
+  const cached = cache.get(id);
+  if (cached) {
+    remember(id, cached);
+    return Promise.resolve(cached);
+  }
+  const pending = inflight.get(id);
+  if (pending) return pending;
+
+  let readError: string | null = null;
+  const load = transact<DataRow[] | undefined>(ROW_STORE, 'readonly', store => store.get(id))
+    .catch(err => {
+      // Without IndexedDB only the bundled samples can be recovered
+      readError = err instanceof Error ? err.message : String(err);
+      return undefined;
+    })
+    .then(rows => {
+      const found = rows ?? seedDatasets.find(s => s.id === id)?.rows ?? null;
+      if (found) remember(id, found);
+      else if (readError) failures.set(id, `Could not read rows from browser storage: ${readError}`);
+      else failures.set(id, 'Row data for this dataset is no longer available in browser storage.');
+      inflight.delete(id);
+      notify();
+      return found;
+    });
+  inflight.set(id, load);
+  return load;
+}
+
+/** Forget a dataset's rows. The session cache is cleared first; a storage failure rejects so the caller can report it. */
+export async function deleteDatasetRows(id: string): Promise<void> {
+  cache.delete(id);
+  unsaved.delete(id);
+  failures.delete(id);
+  notify();
+  await transact(ROW_STORE, 'readwrite', store => store.delete(id));
+}
+
+// ─── Hooks ───────────────────────────────────────────────────────────────────
+
+export function useDatasetRows(id: string | undefined): { rows: DataRow[] | null; loading: boolean; error: string | null } {
+  const rows = useSyncExternalStore(subscribeDatasetRows, () => (id ? cache.get(id) : undefined));
+  const error = useSyncExternalStore(subscribeDatasetRows, () => (id ? failures.get(id) : undefined));
+
+  useEffect(() => {
+    if (id && !cache.has(id) && !failures.has(id)) void loadDatasetRows(id);
+  }, [id, rows, error]);
+
+  return { rows: rows ?? null, loading: !!id && !rows && !error, error: error ?? null };
+}
+
+// Every dataset whose rows are currently in memory
+export function useLoadedDatasetRows(): ReadonlyMap<string, DataRow[]> {
+  return useSyncExternalStore(subscribeDatasetRows, () => loadedSnapshot);
+}
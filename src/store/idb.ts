@@ -0,0 +1,61 @@
+/**
+ * Shared IndexedDB plumbing for the workspace's large blobs: dataset rows
+ * and trained model artifacts each get their own object store.
+ */
+
+const DB_NAME = 'datatidy';
+// v1: rows; v2: models
+const DB_VERSION = 2;
+
+export const ROW_STORE = 'rows';
+export const MODEL_STORE = 'models';
+
+export class StorageQuotaError extends Error {
+  constructor(message = 'Browser storage is full. Remove unused datasets to free up space.') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB is not available'));
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const name of [ROW_STORE, MODEL_STORE]) {
+          if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry on the next call instead of caching the failure
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function isQuotaError(err: unknown): boolean {
+  return err instanceof DOMException && (err.name === 'QuotaExceededError' || err.code === 22);
+}
+
+export function transact<T>(
+  storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  return openDb().then(
+    db =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = run(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result);
+        // Quota failures surface on the transaction, not the request
+        tx.onabort = () => reject(isQuotaError(tx.error) ? new StorageQuotaError() : tx.error ?? new Error('Storage transaction aborted'));
+        tx.onerror = () => reject(isQuotaError(tx.error) ? new StorageQuotaError() : tx.error);
+      }),
+  );
+}
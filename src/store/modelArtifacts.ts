@@ -0,0 +1,56 @@
+/**
+ * Trained model storage.
+ * Registry entries (metrics, parameters) persist with the workspace; the
+ * fitted artifacts can be megabytes of trees, so they live in IndexedDB with
+ * a small session cache in front, like dataset rows.
+ */
+
+import type { ModelArtifact } from '@/lib/ml';
+import { MODEL_STORE, transact } from './idb';
+
+// Enough for a freshly trained model and the one being applied or exported
+const MAX_CACHED = 3;
+
+// Least recently used first; Map keeps insertion order
+const cache = new Map<string, ModelArtifact>();
+// Artifacts not yet (or never) written to IndexedDB are the only copy, so they are never evicted
+const unsaved = new Set<string>();
+
+function remember(id: string, artifact: ModelArtifact) {
+  cache.delete(id);
+  cache.set(id, artifact);
+  for (const key of cache.keys()) {
+    if (cache.size <= MAX_CACHED) break;
+    if (key !== id && !unsaved.has(key)) cache.delete(key);
+  }
+}
+
+/**
+ * Store an artifact under its registry id. The session cache is updated
+ * first; a full disk rejects with StorageQuotaError.
+ */
+export async function saveModelArtifact(id: string, artifact: ModelArtifact): Promise<void> {
+  unsaved.add(id);
+  remember(id, artifact);
+  await transact(MODEL_STORE, 'readwrite', store => store.put(artifact, id));
+  // A later save of the same id may still be pending
+  if (cache.get(id) === artifact) unsaved.delete(id);
+}
+
+/** Null when no artifact is stored under the id; rejects when browser storage cannot be read. */
+export async function loadModelArtifact(id: string): Promise<ModelArtifact | null> {
+  const cached = cache.get(id);
+  if (cached) {
+    remember(id, cached);
+    return cached;
+  }
+  const stored = await transact<ModelArtifact | undefined>(MODEL_STORE, 'readonly', store => store.get(id));
+  if (stored) remember(id, stored);
+  return stored ?? null;
+}
+
+export async function deleteModelArtifact(id: string): Promise<void> {
+  cache.delete(id);
+  unsaved.delete(id);
+  await transact(MODEL_STORE, 'readwrite', store => store.delete(id));
+}
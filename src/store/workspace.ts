@@ -1,6 +1,13 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { createJSONStorage, persist, type StateStorage } from 'zustand/middleware';
 import { seedDatasets, type SeedDataset } from '@/lib/mockData';
+import type { Algorithm, CvStrategy, FeatureImportance, MlTask, ModelMetrics, ModelParams } from '@/lib/ml';
+import type { Dashboard } from '@/lib/dashboard';
+import type { Report } from '@/lib/reports';
+import type { QueryAnswer } from '@/lib/copilot';
+import { DEFAULT_LLM_SETTINGS, type LLMSettings } from '@/lib/processor/llmInterface';
+import { deleteDatasetRows, saveDatasetRows, versionRowsKey } from './datasetRows';
+import { deleteModelArtifact } from './modelArtifacts';
 
 export type PipelineStep = {
   id: string;
@@ -30,6 +37,42 @@ export type QualityIssue = {
   message: string;
 };
 
+// A named, materialized copy of a dataset; rows are stored in IndexedDB (see `@/lib/versioning`)
+export type DatasetVersion = {
+  id: string;
+  name: string;
+  note?: string;
+  createdAt: string;
+  rowCount: number;
+  colCount: number;
+  quality: number;
+  schema: ColumnSchema[];
+  issues: QualityIssue[];
+  // The pipeline that produced these rows, kept for provenance
+  pipeline: PipelineStep[];
+};
+
+// A trained model in the per-dataset registry; the fitted artifact is stored in IndexedDB (see `./modelArtifacts`)
+export type ModelRecord = {
+  id: string;
+  name: string;
+  task: MlTask;
+  algorithm: Algorithm;
+  target: string;
+  features: string[];
+  params: ModelParams;
+  // Hold-out metrics of the stored model
+  metrics: ModelMetrics;
+  cv?: { strategy: CvStrategy; folds: number; mean: ModelMetrics; std: ModelMetrics };
+  // Set when the parameters came from a hyperparameter search
+  search?: { strategy: 'grid' | 'random'; trials: number };
+  importance: FeatureImportance[];
+  trainSize: number;
+  testSize: number;
+  createdAt: string;
+};
+
+// Metadata only; row data lives in IndexedDB, see `./datasetRows`
 export type Dataset = {
   id: string;
   name: string;
@@ -40,14 +83,28 @@ export type Dataset = {
   createdAt: string;
   updatedAt: string;
   schema: ColumnSchema[];
-  rows: Record<string, unknown>[];
   pipeline: PipelineStep[];
   redoStack: PipelineStep[];
   issues: QualityIssue[];
+  // Newest first
+  versions: DatasetVersion[];
+  // Newest first
+  models: ModelRecord[];
+  dashboards: Dashboard[];
+  reports: Report[];
 };
 
-export type AiCodeBlock = { python: string; pandas: string; sql: string };
-export type AiResponse = { explanation: string; code: AiCodeBlock; chartSpec?: Record<string, unknown> };
+export type AiCodeBlock = { python: string; pandas: string; sql: string; pyspark: string };
+// A pipeline step suggested by the copilot, before it is given an id
+export type AiStepProposal = Pick<PipelineStep, 'type' | 'label' | 'params'>;
+export type AiResponse = {
+  explanation: string;
+  code: AiCodeBlock;
+  chartSpec?: Record<string, unknown>;
+  steps?: AiStepProposal[];
+  // A question about the data, compiled to a plan and computed over the dataset's rows
+  query?: QueryAnswer;
+};
 export type AiMessage = {
   id: string;
   role: 'user' | 'assistant';
@@ -62,35 +119,131 @@ type Store = {
   aiMessages: AiMessage[];
   copilotDocked: boolean;
   copilotOpen: boolean;
+  // Prompt handed to the copilot from elsewhere, sent once the panel picks it up
+  copilotPrompt: string | null;
   commandOpen: boolean;
   activity: { id: string; text: string; at: string }[];
   storagePath: string;
+  // Provider the copilot talks to
+  llm: LLMSettings;
 
   setActiveDataset: (id: string | null) => void;
   addDataset: (d: Dataset) => void;
-  removeDataset: (id: string) => void;
+  // Resolves once the dataset's stored rows and models are gone; rejects if browser storage could not be cleared
+  removeDataset: (id: string) => Promise<void>;
   addStep: (datasetId: string, step: PipelineStep) => void;
   removeStep: (datasetId: string, stepId: string) => void;
+  updateStep: (datasetId: string, stepId: string, patch: Partial<Pick<PipelineStep, 'label' | 'params'>>) => void;
   undoStep: (datasetId: string) => void;
   redoStep: (datasetId: string) => void;
+  addVersion: (datasetId: string, version: DatasetVersion) => void;
+  removeVersion: (datasetId: string, versionId: string) => void;
+  restoreVersion: (datasetId: string, versionId: string, patch: Partial<Dataset>) => void;
+  addModel: (datasetId: string, model: ModelRecord) => void;
+  // Resolves once the fitted artifact is deleted from browser storage
+  removeModel: (datasetId: string, modelId: string) => Promise<void>;
+  // Inserts or replaces by id
+  saveDashboard: (datasetId: string, dashboard: Dashboard) => void;
+  removeDashboard: (datasetId: string, dashboardId: string) => void;
+  // Inserts or replaces by id
+  saveReport: (datasetId: string, report: Report) => void;
+  removeReport: (datasetId: string, reportId: string) => void;
+  // Rows are saved separately; this records the refreshed schema and quality
+  addDerivedColumn: (datasetId: string, column: string, patch: Pick<Dataset, 'schema' | 'issues' | 'quality' | 'colCount'>) => void;
   addAiMessage: (m: AiMessage) => void;
   clearAiMessages: () => void;
   toggleCopilot: () => void;
+  // Opens the copilot with the prompt queued; null clears it
+  queueCopilotPrompt: (prompt: string | null) => void;
   setCopilotDocked: (v: boolean) => void;
   setCommandOpen: (v: boolean) => void;
   logActivity: (text: string) => void;
   setStoragePath: (p: string) => void;
+  setLLMSettings: (patch: Partial<LLMSettings>) => void;
 };
 
-const seedToDataset = (s: SeedDataset): Dataset => ({
+const seedToDataset = ({ rows: _rows, ...s }: SeedDataset): Dataset => ({
   ...s,
   pipeline: [],
   redoStack: [],
+  versions: [],
+  models: [],
+  dashboards: [],
+  reports: [],
 });
 
+// The API key is left out: anything on the origin can read localStorage, and it outlives the session
+type PersistedWorkspace = Pick<Store, 'datasets' | 'activeDatasetId' | 'storagePath' | 'copilotDocked'> & {
+  llm: Omit<LLMSettings, 'apiKey'>;
+};
+
+// The key lives in this tab's sessionStorage instead, so a reload keeps the copilot connected
+const API_KEY_ITEM = 'datatidy-llm-key';
+
+function readApiKey(): string {
+  try {
+    return sessionStorage.getItem(API_KEY_ITEM) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+function writeApiKey(key: string) {
+  try {
+    if (key) sessionStorage.setItem(API_KEY_ITEM, key);
+    else sessionStorage.removeItem(API_KEY_ITEM);
+  } catch {
+    // No sessionStorage: the key is kept in memory for this page only
+  }
+}
+
+// localStorage only holds metadata now, but a full quota must never break the app
+const safeLocalStorage: StateStorage = {
+  getItem: (name) => localStorage.getItem(name),
+  setItem: (name, value) => {
+    try {
+      localStorage.setItem(name, value);
+    } catch {
+      // The tab keeps its in-memory state; the next change tries to write it again
+    }
+  },
+  removeItem: (name) => localStorage.removeItem(name),
+};
+
+// Version 0 kept every dataset's rows inline; version 1 had no version history; version 2 had no model registry;
+// version 3 had no saved dashboards; version 4 had no saved reports; version 5 stored the LLM API key
+async function migrateWorkspace(persisted: unknown, version: number): Promise<PersistedWorkspace> {
+  const state = persisted as PersistedWorkspace;
+  if (!Array.isArray(state?.datasets)) return state;
+
+  let datasets = state.datasets;
+  if (version < 1) {
+    datasets = await Promise.all(
+      datasets.map(async (d) => {
+        const { rows, ...meta } = d as Dataset & { rows?: Record<string, unknown>[] };
+        if (Array.isArray(rows)) {
+          // On failure the rows stay in the session cache for this tab, and saving the dataset again retries
+          await saveDatasetRows(d.id, rows).catch(() => undefined);
+        }
+        return meta;
+      }),
+    );
+  }
+  if (version < 2) datasets = datasets.map((d) => ({ ...d, versions: d.versions ?? [] }));
+  if (version < 3) datasets = datasets.map((d) => ({ ...d, models: d.models ?? [] }));
+  if (version < 4) datasets = datasets.map((d) => ({ ...d, dashboards: d.dashboards ?? [] }));
+  if (version < 5) datasets = datasets.map((d) => ({ ...d, reports: d.reports ?? [] }));
+  if (version < 6 && state.llm) {
+    const { apiKey, ...llm } = state.llm as LLMSettings;
+    if (apiKey) writeApiKey(apiKey);
+    return { ...state, datasets, llm };
+  }
+  return { ...state, datasets };
+}
+
 export const useWorkspace = create<Store>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       datasets: seedDatasets.map(seedToDataset),
       activeDatasetId: null,
       aiMessages: [
@@ -103,11 +256,13 @@ export const useWorkspace = create<Store>()(
       ],
       copilotDocked: true,
       copilotOpen: false,
+      copilotPrompt: null,
       commandOpen: false,
       activity: [
         { id: 'a1', text: 'Loaded sample dataset: Q4 Sales', at: new Date().toISOString() },
       ],
       storagePath: '~/DataWorkspace',
+      llm: { ...DEFAULT_LLM_SETTINGS, apiKey: readApiKey() },
 
       setActiveDataset: (id) => set({ activeDatasetId: id }),
       addDataset: (d) =>
@@ -115,7 +270,15 @@ export const useWorkspace = create<Store>()(
           datasets: [d, ...s.datasets],
           activity: [{ id: crypto.randomUUID(), text: `Uploaded ${d.name}`, at: new Date().toISOString() }, ...s.activity].slice(0, 30),
         })),
-      removeDataset: (id) => set((s) => ({ datasets: s.datasets.filter((d) => d.id !== id) })),
+      removeDataset: async (id) => {
+        const removed = get().datasets.find((d) => d.id === id);
+        set((s) => ({ datasets: s.datasets.filter((d) => d.id !== id) }));
+        await Promise.all([
+          deleteDatasetRows(id),
+          ...(removed?.versions ?? []).map((v) => deleteDatasetRows(versionRowsKey(id, v.id))),
+          ...(removed?.models ?? []).map((m) => deleteModelArtifact(m.id)),
+        ]);
+      },
       addStep: (datasetId, step) =>
         set((s) => ({
           datasets: s.datasets.map((d) =>
@@ -130,6 +293,18 @@ export const useWorkspace = create<Store>()(
             d.id === datasetId ? { ...d, pipeline: d.pipeline.filter((p) => p.id !== stepId) } : d,
           ),
         })),
+      updateStep: (datasetId, stepId, patch) =>
+        set((s) => ({
+          datasets: s.datasets.map((d) =>
+            d.id === datasetId
+              ? {
+                  ...d,
+                  pipeline: d.pipeline.map((p) => (p.id === stepId ? { ...p, ...patch } : p)),
+                  updatedAt: new Date().toISOString(),
+                }
+              : d,
+          ),
+        })),
       undoStep: (datasetId) =>
         set((s) => ({
           datasets: s.datasets.map((d) => {
@@ -146,9 +321,94 @@ export const useWorkspace = create<Store>()(
             return { ...d, pipeline: [...d.pipeline, last], redoStack: d.redoStack.slice(0, -1) };
           }),
         })),
+      addVersion: (datasetId, version) =>
+        set((s) => ({
+          datasets: s.datasets.map((d) => (d.id === datasetId ? { ...d, versions: [version, ...d.versions] } : d)),
+          activity: [
+            { id: crypto.randomUUID(), text: `Committed ${version.name} of ${s.datasets.find((d) => d.id === datasetId)?.name ?? 'dataset'}`, at: version.createdAt },
+            ...s.activity,
+          ].slice(0, 30),
+        })),
+      removeVersion: (datasetId, versionId) =>
+        set((s) => ({
+          datasets: s.datasets.map((d) =>
+            d.id === datasetId ? { ...d, versions: d.versions.filter((v) => v.id !== versionId) } : d,
+          ),
+        })),
+      restoreVersion: (datasetId, versionId, patch) =>
+        set((s) => {
+          const ds = s.datasets.find((d) => d.id === datasetId);
+          const version = ds?.versions.find((v) => v.id === versionId);
+          if (!ds || !version) return {};
+          return {
+            datasets: s.datasets.map((d) => (d.id === datasetId ? { ...d, ...patch } : d)),
+            activity: [
+              { id: crypto.randomUUID(), text: `Restored ${ds.name} to ${version.name}`, at: new Date().toISOString() },
+              ...s.activity,
+            ].slice(0, 30),
+          };
+        }),
+      addModel: (datasetId, model) =>
+        set((s) => ({
+          datasets: s.datasets.map((d) => (d.id === datasetId ? { ...d, models: [model, ...d.models] } : d)),
+          activity: [
+            { id: crypto.randomUUID(), text: `Registered model ${model.name} for ${s.datasets.find((d) => d.id === datasetId)?.name ?? 'dataset'}`, at: model.createdAt },
+            ...s.activity,
+          ].slice(0, 30),
+        })),
+      removeModel: async (datasetId, modelId) => {
+        set((s) => ({
+          datasets: s.datasets.map((d) =>
+            d.id === datasetId ? { ...d, models: d.models.filter((m) => m.id !== modelId) } : d,
+          ),
+        }));
+        await deleteModelArtifact(modelId);
+      },
+      saveDashboard: (datasetId, dashboard) =>
+        set((s) => ({
+          datasets: s.datasets.map((d) => {
+            if (d.id !== datasetId) return d;
+            const exists = d.dashboards.some((x) => x.id === dashboard.id);
+            return {
+              ...d,
+              dashboards: exists ? d.dashboards.map((x) => (x.id === dashboard.id ? dashboard : x)) : [...d.dashboards, dashboard],
+            };
+          }),
+        })),
+      removeDashboard: (datasetId, dashboardId) =>
+        set((s) => ({
+          datasets: s.datasets.map((d) =>
+            d.id === datasetId ? { ...d, dashboards: d.dashboards.filter((x) => x.id !== dashboardId) } : d,
+          ),
+        })),
+      saveReport: (datasetId, report) =>
+        set((s) => ({
+          datasets: s.datasets.map((d) => {
+            if (d.id !== datasetId) return d;
+            const exists = d.reports.some((x) => x.id === report.id);
+            return { ...d, reports: exists ? d.reports.map((x) => (x.id === report.id ? report : x)) : [...d.reports, report] };
+          }),
+        })),
+      removeReport: (datasetId, reportId) =>
+        set((s) => ({
+          datasets: s.datasets.map((d) =>
+            d.id === datasetId ? { ...d, reports: d.reports.filter((x) => x.id !== reportId) } : d,
+          ),
+        })),
+      addDerivedColumn: (datasetId, column, patch) =>
+        set((s) => {
+          const ds = s.datasets.find((d) => d.id === datasetId);
+          if (!ds) return {};
+          const at = new Date().toISOString();
+          return {
+            datasets: s.datasets.map((d) => (d.id === datasetId ? { ...d, ...patch, updatedAt: at } : d)),
+            activity: [{ id: crypto.randomUUID(), text: `Added column ${column} to ${ds.name}`, at }, ...s.activity].slice(0, 30),
+          };
+        }),
       addAiMessage: (m) => set((s) => ({ aiMessages: [...s.aiMessages, m] })),
       clearAiMessages: () => set({ aiMessages: [] }),
       toggleCopilot: () => set((s) => ({ copilotOpen: !s.copilotOpen })),
+      queueCopilotPrompt: (prompt) => set((s) => ({ copilotPrompt: prompt, copilotOpen: prompt ? true : s.copilotOpen })),
       setCopilotDocked: (v) => set({ copilotDocked: v }),
       setCommandOpen: (v) => set({ commandOpen: v }),
       logActivity: (text) =>
@@ -156,15 +416,31 @@ export const useWorkspace = create<Store>()(
           activity: [{ id: crypto.randomUUID(), text, at: new Date().toISOString() }, ...s.activity].slice(0, 30),
         })),
       setStoragePath: (p) => set({ storagePath: p }),
+      setLLMSettings: (patch) => {
+        if (patch.apiKey !== undefined) writeApiKey(patch.apiKey);
+        set((s) => ({ llm: { ...s.llm, ...patch } }));
+      },
     }),
     {
       name: 'datatidy-workspace',
-      partialize: (s) => ({
-        datasets: s.datasets,
-        activeDatasetId: s.activeDatasetId,
-        storagePath: s.storagePath,
-        copilotDocked: s.copilotDocked,
-      }),
+      version: 6,
+      storage: createJSONStorage(() => safeLocalStorage),
+      migrate: migrateWorkspace,
+      partialize: (s): PersistedWorkspace => {
+        const { apiKey: _apiKey, ...llm } = s.llm;
+        return {
+          datasets: s.datasets,
+          activeDatasetId: s.activeDatasetId,
+          storagePath: s.storagePath,
+          copilotDocked: s.copilotDocked,
+          llm,
+        };
+      },
+      // Persisted settings never carry the key; read it again since migration may have just moved it to sessionStorage
+      merge: (persisted, current) => {
+        const state = persisted as PersistedWorkspace | undefined;
+        return { ...current, ...state, llm: { ...current.llm, ...state?.llm, apiKey: readApiKey() || current.llm.apiKey } };
+      },
     },
   ),
 );